@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Loan" ADD COLUMN "dueAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "LoanLine" ADD COLUMN "dueAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Loan_dueAt_idx" ON "Loan"("dueAt");
+
+-- CreateIndex
+CREATE INDEX "Loan_status_dueAt_idx" ON "Loan"("status", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "LoanLine_dueAt_idx" ON "LoanLine"("dueAt");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "LoanLine" ADD COLUMN "returnedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "LoanLine_returnedAt_idx" ON "LoanLine"("returnedAt");
+
+-- Lines of already closed loans were returned when their loan was closed
+UPDATE "LoanLine" ll SET "returnedAt" = l."closedAt" FROM "Loan" l WHERE ll."loanId" = l.id AND l.status = 'CLOSED';
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ReturnCondition" AS ENUM ('OK', 'DAMAGED', 'MISSING');
+
+-- AlterTable
+ALTER TABLE "LoanLine" ADD COLUMN "returnCondition" "ReturnCondition",
+ADD COLUMN "returnNote" TEXT;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "LoanKit" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoanKit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoanKitItem" (
+    "id" TEXT NOT NULL,
+    "kitId" TEXT NOT NULL,
+    "assetModelId" TEXT,
+    "stockItemId" TEXT,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "LoanKitItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoanKit_name_key" ON "LoanKit"("name");
+
+-- CreateIndex
+CREATE INDEX "LoanKitItem_kitId_idx" ON "LoanKitItem"("kitId");
+
+-- CreateIndex
+CREATE INDEX "LoanKitItem_assetModelId_idx" ON "LoanKitItem"("assetModelId");
+
+-- CreateIndex
+CREATE INDEX "LoanKitItem_stockItemId_idx" ON "LoanKitItem"("stockItemId");
+
+-- AddForeignKey
+ALTER TABLE "LoanKitItem" ADD CONSTRAINT "LoanKitItem_kitId_fkey" FOREIGN KEY ("kitId") REFERENCES "LoanKit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoanKitItem" ADD CONSTRAINT "LoanKitItem_assetModelId_fkey" FOREIGN KEY ("assetModelId") REFERENCES "AssetModel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoanKitItem" ADD CONSTRAINT "LoanKitItem_stockItemId_fkey" FOREIGN KEY ("stockItemId") REFERENCES "StockItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
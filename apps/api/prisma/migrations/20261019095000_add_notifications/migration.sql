@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "NotificationEvent" AS ENUM ('LOAN_OPENED', 'LINE_ADDED', 'LOAN_CLOSED', 'OVERDUE_REMINDER');
+
+-- CreateEnum
+CREATE TYPE "NotificationStatus" AS ENUM ('SENT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "NotificationSetting" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "loanOpened" BOOLEAN NOT NULL DEFAULT false,
+    "lineAdded" BOOLEAN NOT NULL DEFAULT false,
+    "loanClosed" BOOLEAN NOT NULL DEFAULT false,
+    "overdueReminder" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotificationSetting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "NotificationLog" (
+    "id" TEXT NOT NULL,
+    "event" "NotificationEvent" NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "status" "NotificationStatus" NOT NULL,
+    "error" TEXT,
+    "transport" TEXT NOT NULL,
+    "loanId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationSetting_userId_key" ON "NotificationSetting"("userId");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_createdAt_idx" ON "NotificationLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_status_idx" ON "NotificationLog"("status");
+
+-- CreateIndex
+CREATE INDEX "NotificationLog_loanId_event_idx" ON "NotificationLog"("loanId", "event");
+
+-- AddForeignKey
+ALTER TABLE "NotificationSetting" ADD CONSTRAINT "NotificationSetting_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotificationLog" ADD CONSTRAINT "NotificationLog_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NotificationEvent" ADD VALUE 'LONG_LOAN_REMINDER';
+
+-- AlterTable
+ALTER TABLE "NotificationSetting" ADD COLUMN "longLoanReminder" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "RepairTicketStatus" AS ENUM ('OPEN', 'SENT', 'QUOTED', 'IN_REPAIR', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "RepairOutcome" AS ENUM ('REPAIRED', 'SCRAPPED');
+
+-- CreateTable
+CREATE TABLE "RepairTicket" (
+    "id" TEXT NOT NULL,
+    "assetItemId" TEXT NOT NULL,
+    "status" "RepairTicketStatus" NOT NULL DEFAULT 'OPEN',
+    "fault" TEXT NOT NULL,
+    "vendor" TEXT,
+    "rmaNumber" TEXT,
+    "quoteCents" INTEGER,
+    "expectedReturnAt" TIMESTAMP(3),
+    "finalCostCents" INTEGER,
+    "outcome" "RepairOutcome",
+    "closingNote" TEXT,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "closedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RepairTicket_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RepairTicket_assetItemId_status_idx" ON "RepairTicket"("assetItemId", "status");
+
+-- CreateIndex
+CREATE INDEX "RepairTicket_status_expectedReturnAt_idx" ON "RepairTicket"("status", "expectedReturnAt");
+
+-- CreateIndex
+CREATE INDEX "RepairTicket_vendor_idx" ON "RepairTicket"("vendor");
+
+-- CreateIndex
+CREATE INDEX "RepairTicket_closedAt_idx" ON "RepairTicket"("closedAt");
+
+-- AddForeignKey
+ALTER TABLE "RepairTicket" ADD CONSTRAINT "RepairTicket_assetItemId_fkey" FOREIGN KEY ("assetItemId") REFERENCES "AssetItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RepairTicket" ADD CONSTRAINT "RepairTicket_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RepairTicket" ADD CONSTRAINT "RepairTicket_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
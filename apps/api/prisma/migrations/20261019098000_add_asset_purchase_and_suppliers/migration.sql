@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "AssetItem" ADD COLUMN     "invoiceNumber" TEXT,
+ADD COLUMN     "purchaseDate" TIMESTAMP(3),
+ADD COLUMN     "purchasePriceCents" INTEGER,
+ADD COLUMN     "supplierId" TEXT,
+ADD COLUMN     "warrantyEndsAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Supplier" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "contactName" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Supplier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Supplier_name_key" ON "Supplier"("name");
+
+-- CreateIndex
+CREATE INDEX "AssetItem_supplierId_idx" ON "AssetItem"("supplierId");
+
+-- CreateIndex
+CREATE INDEX "AssetItem_invoiceNumber_idx" ON "AssetItem"("invoiceNumber");
+
+-- CreateIndex
+CREATE INDEX "AssetItem_warrantyEndsAt_idx" ON "AssetItem"("warrantyEndsAt");
+
+-- AddForeignKey
+ALTER TABLE "AssetItem" ADD CONSTRAINT "AssetItem_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
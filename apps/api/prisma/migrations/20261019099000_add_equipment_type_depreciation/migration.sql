@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EquipmentType" ADD COLUMN     "depreciationYears" INTEGER;
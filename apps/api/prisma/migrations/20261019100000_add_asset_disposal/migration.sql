@@ -0,0 +1,19 @@
+-- AlterEnum
+ALTER TYPE "AssetStatus" ADD VALUE 'REFORME';
+
+-- CreateEnum
+CREATE TYPE "DisposalReason" AS ENUM ('RECYCLAGE', 'DON', 'VOL', 'PERTE');
+
+-- AlterTable
+ALTER TABLE "AssetItem" ADD COLUMN     "dataWipeConfirmed" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "disposalCertificateRef" TEXT,
+ADD COLUMN     "disposalNote" TEXT,
+ADD COLUMN     "disposalReason" "DisposalReason",
+ADD COLUMN     "disposedAt" TIMESTAMP(3),
+ADD COLUMN     "disposedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AssetItem_disposedAt_idx" ON "AssetItem"("disposedAt");
+
+-- AddForeignKey
+ALTER TABLE "AssetItem" ADD CONSTRAINT "AssetItem_disposedById_fkey" FOREIGN KEY ("disposedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,104 @@
+-- CreateEnum
+CREATE TYPE "InventoryCampaignStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "AssetItem" ADD COLUMN     "location" TEXT,
+ADD COLUMN     "missingSince" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "StockItem" ADD COLUMN     "location" TEXT;
+
+-- CreateTable
+CREATE TABLE "InventoryCampaign" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "InventoryCampaignStatus" NOT NULL DEFAULT 'OPEN',
+    "equipmentType" TEXT,
+    "location" TEXT,
+    "notes" TEXT,
+    "report" JSONB,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "closedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventoryCampaign_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventoryAssetCheck" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "assetItemId" TEXT NOT NULL,
+    "checkedById" TEXT NOT NULL,
+    "checkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryAssetCheck_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventoryStockCount" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "stockItemId" TEXT NOT NULL,
+    "expectedQuantity" INTEGER NOT NULL,
+    "countedQuantity" INTEGER NOT NULL,
+    "countedById" TEXT NOT NULL,
+    "countedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "correctionAppliedAt" TIMESTAMP(3),
+
+    CONSTRAINT "InventoryStockCount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AssetItem_location_idx" ON "AssetItem"("location");
+
+-- CreateIndex
+CREATE INDEX "AssetItem_missingSince_idx" ON "AssetItem"("missingSince");
+
+-- CreateIndex
+CREATE INDEX "StockItem_location_idx" ON "StockItem"("location");
+
+-- CreateIndex
+CREATE INDEX "InventoryCampaign_status_idx" ON "InventoryCampaign"("status");
+
+-- CreateIndex
+CREATE INDEX "InventoryCampaign_openedAt_idx" ON "InventoryCampaign"("openedAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryAssetCheck_assetItemId_idx" ON "InventoryAssetCheck"("assetItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryAssetCheck_campaignId_assetItemId_key" ON "InventoryAssetCheck"("campaignId", "assetItemId");
+
+-- CreateIndex
+CREATE INDEX "InventoryStockCount_stockItemId_idx" ON "InventoryStockCount"("stockItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryStockCount_campaignId_stockItemId_key" ON "InventoryStockCount"("campaignId", "stockItemId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryCampaign" ADD CONSTRAINT "InventoryCampaign_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCampaign" ADD CONSTRAINT "InventoryCampaign_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryAssetCheck" ADD CONSTRAINT "InventoryAssetCheck_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "InventoryCampaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryAssetCheck" ADD CONSTRAINT "InventoryAssetCheck_assetItemId_fkey" FOREIGN KEY ("assetItemId") REFERENCES "AssetItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryAssetCheck" ADD CONSTRAINT "InventoryAssetCheck_checkedById_fkey" FOREIGN KEY ("checkedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryStockCount" ADD CONSTRAINT "InventoryStockCount_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "InventoryCampaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryStockCount" ADD CONSTRAINT "InventoryStockCount_stockItemId_fkey" FOREIGN KEY ("stockItemId") REFERENCES "StockItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryStockCount" ADD CONSTRAINT "InventoryStockCount_countedById_fkey" FOREIGN KEY ("countedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('INITIAL', 'RECEPTION', 'LOAN_OUT', 'LOAN_CLOSED', 'ADJUSTMENT', 'INVENTORY_CORRECTION', 'WRITE_OFF');
+
+-- CreateTable
+CREATE TABLE "StockMovement" (
+    "id" TEXT NOT NULL,
+    "stockItemId" TEXT NOT NULL,
+    "type" "StockMovementType" NOT NULL,
+    "quantityDelta" INTEGER NOT NULL DEFAULT 0,
+    "loanedDelta" INTEGER NOT NULL DEFAULT 0,
+    "reason" TEXT,
+    "referenceType" TEXT,
+    "referenceId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovement_stockItemId_createdAt_idx" ON "StockMovement"("stockItemId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_type_idx" ON "StockMovement"("type");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_referenceType_referenceId_idx" ON "StockMovement"("referenceType", "referenceId");
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_stockItemId_fkey" FOREIGN KEY ("stockItemId") REFERENCES "StockItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Opening balance of existing items: the ledger starts from the current counters
+INSERT INTO "StockMovement" ("id", "stockItemId", "type", "quantityDelta", "loanedDelta", "reason")
+SELECT gen_random_uuid()::text, "id", 'INITIAL', "quantity", "loaned", 'Solde d''ouverture du journal'
+FROM "StockItem"
+WHERE "quantity" <> 0 OR "loaned" <> 0;
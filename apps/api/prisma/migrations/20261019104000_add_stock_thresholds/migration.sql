@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "StockItem" ADD COLUMN     "minQuantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "reorderQuantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "supplierId" TEXT;
+
+-- Existing items keep the alert level of the former global threshold
+UPDATE "StockItem" SET "minQuantity" = 2;
+
+-- CreateIndex
+CREATE INDEX "StockItem_supplierId_idx" ON "StockItem"("supplierId");
+
+-- AddForeignKey
+ALTER TABLE "StockItem" ADD CONSTRAINT "StockItem_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Low stock is now the available quantity below the minimum level of each item
+DROP MATERIALIZED VIEW IF EXISTS dashboard_stats;
+
+CREATE MATERIALIZED VIEW dashboard_stats AS
+SELECT
+  (SELECT COUNT(*) FROM "Employee") as total_employees,
+  (SELECT COUNT(*) FROM "AssetItem" WHERE status <> 'REFORME') as total_assets,
+  (SELECT COUNT(*) FROM "AssetItem" WHERE status = 'EN_STOCK') as available_assets,
+  (SELECT COUNT(*) FROM "Loan" WHERE status = 'OPEN') as active_loans,
+  (SELECT COUNT(*) FROM "StockItem" WHERE quantity - loaned < "minQuantity") as low_stock_items,
+  (SELECT COUNT(*) FROM "StockItem" WHERE quantity = 0) as out_of_stock_items,
+  NOW() as last_updated;
+
+-- CreateIndex
+CREATE UNIQUE INDEX dashboard_stats_last_updated_idx ON dashboard_stats (last_updated);
+
+-- Comment
+COMMENT ON MATERIALIZED VIEW dashboard_stats IS 'Materialized view for dashboard statistics - refreshed every 5 minutes';
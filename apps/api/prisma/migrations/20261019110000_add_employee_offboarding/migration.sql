@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "departureDate" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Employee_archivedAt_idx" ON "Employee"("archivedAt");
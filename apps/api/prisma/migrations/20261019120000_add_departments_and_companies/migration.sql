@@ -0,0 +1,70 @@
+-- CreateTable
+CREATE TABLE "Company" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Company_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Department" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "companyId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Department_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN     "departmentId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Company_name_key" ON "Company"("name");
+
+-- CreateIndex
+CREATE INDEX "Department_name_idx" ON "Department"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Department_companyId_name_key" ON "Department"("companyId", "name");
+
+-- CreateIndex
+CREATE INDEX "Employee_departmentId_idx" ON "Employee"("departmentId");
+
+-- AddForeignKey
+ALTER TABLE "Employee" ADD CONSTRAINT "Employee_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Department" ADD CONSTRAINT "Department_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Normalize the free-text departments: one Department per distinct value,
+-- ignoring case and surrounding/duplicated spaces. The most used spelling wins.
+-- Near-duplicates (typos) are left for the merge screen.
+CREATE TEMP TABLE "_dept_spelling" AS
+SELECT
+    lower(regexp_replace(btrim("dept"), '\s+', ' ', 'g')) AS "key",
+    regexp_replace(btrim("dept"), '\s+', ' ', 'g') AS "spelling",
+    count(*) AS "uses"
+FROM "Employee"
+WHERE "dept" IS NOT NULL AND btrim("dept") <> ''
+GROUP BY 1, 2;
+
+INSERT INTO "Department" ("id", "name", "updatedAt")
+SELECT DISTINCT ON ("key") gen_random_uuid()::text, "spelling", CURRENT_TIMESTAMP
+FROM "_dept_spelling"
+ORDER BY "key", "uses" DESC, "spelling";
+
+UPDATE "Employee" e
+SET "departmentId" = d."id",
+    "dept" = d."name"
+FROM "Department" d
+WHERE e."dept" IS NOT NULL
+  AND lower(regexp_replace(btrim(e."dept"), '\s+', ' ', 'g')) = lower(d."name");
+
+-- Blank values carry no department
+UPDATE "Employee" SET "dept" = NULL WHERE "dept" IS NOT NULL AND btrim("dept") = '';
+
+DROP TABLE "_dept_spelling";
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "EmployeeImport" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "totalRows" INTEGER NOT NULL,
+    "createdCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedCount" INTEGER NOT NULL DEFAULT 0,
+    "archivedCount" INTEGER NOT NULL DEFAULT 0,
+    "offboardingCount" INTEGER NOT NULL DEFAULT 0,
+    "rejectedCount" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "report" JSONB NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmployeeImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmployeeImport_createdAt_idx" ON "EmployeeImport"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EmployeeImport" ADD CONSTRAINT "EmployeeImport_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,107 @@
+/**
+ * Configuration de l'envoi d'emails (transport interchangeable)
+ *
+ * MAIL_TRANSPORT choisit le transport :
+ * - smtp : envoi via SMTP_HOST / SMTP_PORT (défaut quand SMTP_HOST est défini)
+ * - log : les emails sont seulement écrits dans les logs (défaut en développement)
+ * - disabled : aucun envoi ni journalisation (défaut en test)
+ *
+ * Un transport est un objet { name, send(message) } : setMailTransport()
+ * permet d'en brancher un autre (fournisseur HTTP, file d'attente...).
+ */
+import { createSmtpTransporter, sendSmtpMail } from '../utils/smtpClient.js';
+import logger from './logger.js';
+
+export const MAIL_FROM = process.env.MAIL_FROM || 'Inventaire <no-reply@localhost>';
+
+/**
+ * Transport SMTP
+ *
+ * @param {Object} options - Voir createSmtpTransporter()
+ * @returns {{ name: string, send: Function }}
+ */
+export function createSmtpTransport(options) {
+  const transporter = createSmtpTransporter(options);
+  return {
+    name: 'smtp',
+    send: (message) => sendSmtpMail(transporter, message)
+  };
+}
+
+/**
+ * Transport de développement : l'email est écrit dans les logs
+ *
+ * @returns {{ name: string, send: Function }}
+ */
+export function createLogTransport() {
+  return {
+    name: 'log',
+    send: async ({ to, subject, text }) => {
+      logger.info('[Mail] Email non envoyé (MAIL_TRANSPORT=log)', { to, subject, text });
+      return { messageId: null };
+    }
+  };
+}
+
+/**
+ * Transport désactivé : les notifications sont ignorées, un envoi direct est refusé
+ *
+ * @returns {{ name: string, send: Function }}
+ */
+export function createDisabledTransport() {
+  return {
+    name: 'disabled',
+    send: async () => {
+      throw new Error('Envoi d\'emails désactivé (MAIL_TRANSPORT=disabled)');
+    }
+  };
+}
+
+function createTransportFromEnv() {
+  const defaultTransport = process.env.SMTP_HOST
+    ? 'smtp'
+    : process.env.NODE_ENV === 'test' ? 'disabled' : 'log';
+  const name = process.env.MAIL_TRANSPORT || defaultTransport;
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port: Number(process.env.SMTP_PORT) || 25,
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USERNAME || undefined,
+        pass: process.env.SMTP_PASSWORD || undefined,
+        rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false'
+      });
+    case 'disabled':
+      return createDisabledTransport();
+    case 'log':
+      return createLogTransport();
+    default:
+      logger.warn(`[Mail] MAIL_TRANSPORT inconnu "${name}", utilisation du transport log`);
+      return createLogTransport();
+  }
+}
+
+let transport = null;
+
+/**
+ * Transport courant (créé à la première utilisation depuis les variables d'environnement)
+ *
+ * @returns {{ name: string, send: Function }}
+ */
+export function getMailTransport() {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  return transport;
+}
+
+/**
+ * Remplacer le transport (null pour revenir à la configuration d'environnement)
+ *
+ * @param {{ name: string, send: Function }|null} customTransport
+ */
+export function setMailTransport(customTransport) {
+  transport = customTransport;
+}
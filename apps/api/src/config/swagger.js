@@ -98,6 +98,22 @@ La plupart des endpoints nécessitent un token JWT.
       name: 'Employees',
       description: 'Gestion des employés',
     },
+    {
+      name: 'Employee Imports',
+      description: 'Synchronisation avec le fichier RH (aperçu des différences, rapports d\'import)',
+    },
+    {
+      name: 'Directory Sync',
+      description: 'Synchronisation des employés avec l\'annuaire d\'entreprise (LDAP / Active Directory)',
+    },
+    {
+      name: 'Departments',
+      description: 'Départements / agences des employés (fusion des doublons)',
+    },
+    {
+      name: 'Companies',
+      description: 'Sociétés regroupant les départements',
+    },
     {
       name: 'Asset Models',
       description: 'Modèles d\'équipement (templates)',
@@ -106,6 +122,10 @@ La plupart des endpoints nécessitent un token JWT.
       name: 'Asset Items',
       description: 'Articles d\'équipement individuels',
     },
+    {
+      name: 'Suppliers',
+      description: 'Fournisseurs des équipements (achat et garantie)',
+    },
     {
       name: 'Stock Items',
       description: 'Articles consommables (stock)',
@@ -114,6 +134,22 @@ La plupart des endpoints nécessitent un token JWT.
       name: 'Loans',
       description: 'Prêts d\'équipements',
     },
+    {
+      name: 'Loan Kits',
+      description: 'Kits de prêt réutilisables (modèles d\'équipement et consommables)',
+    },
+    {
+      name: 'Reservations',
+      description: 'Réservations d\'équipements pour des prêts futurs',
+    },
+    {
+      name: 'Repair Tickets',
+      description: 'Suivi des équipements envoyés en réparation',
+    },
+    {
+      name: 'Notifications',
+      description: 'Emails de prêt : préférences et journal des envois',
+    },
     {
       name: 'Dashboard',
       description: 'Statistiques et tableau de bord',
@@ -6,7 +6,10 @@
  * - Status codes
  * - CRUD operations
  * - Status updates
+ * - Retirement
  * - Bulk operations
+ * - Expiring warranties
+ * - Label sheets (PDF)
  * - Error handling
  * - Service integration
  */
@@ -19,9 +22,13 @@ const mockGetAssetItemById = jest.fn();
 const mockCreateAssetItem = jest.fn();
 const mockUpdateAssetItem = jest.fn();
 const mockUpdateAssetItemStatus = jest.fn();
+const mockRetireAssetItem = jest.fn();
 const mockDeleteAssetItem = jest.fn();
 const mockCreateAssetItemsBulk = jest.fn();
 const mockPreviewBulkCreation = jest.fn();
+const mockGetExpiringWarranties = jest.fn();
+const mockGetLabelFormats = jest.fn();
+const mockGenerateAssetLabels = jest.fn();
 const mockAsyncHandler = jest.fn((fn) => fn);
 
 jest.unstable_mockModule('../../services/assetItems.service.js', () => ({
@@ -30,9 +37,16 @@ jest.unstable_mockModule('../../services/assetItems.service.js', () => ({
   createAssetItem: mockCreateAssetItem,
   updateAssetItem: mockUpdateAssetItem,
   updateAssetItemStatus: mockUpdateAssetItemStatus,
+  retireAssetItem: mockRetireAssetItem,
   deleteAssetItem: mockDeleteAssetItem,
   createAssetItemsBulk: mockCreateAssetItemsBulk,
-  previewBulkCreation: mockPreviewBulkCreation
+  previewBulkCreation: mockPreviewBulkCreation,
+  getExpiringWarranties: mockGetExpiringWarranties
+}));
+
+jest.unstable_mockModule('../../services/labels.service.js', () => ({
+  getLabelFormats: mockGetLabelFormats,
+  generateAssetLabels: mockGenerateAssetLabels
 }));
 
 jest.unstable_mockModule('../../middleware/asyncHandler.js', () => ({
@@ -45,9 +59,13 @@ const {
   createAssetItem,
   updateAssetItem,
   updateAssetItemStatus,
+  retireAssetItem,
   deleteAssetItem,
   createAssetItemsBulk,
-  previewBulkCreation
+  previewBulkCreation,
+  getExpiringWarranties,
+  getLabelFormats,
+  generateAssetLabels
 } = await import('../assetItems.controller.js');
 
 describe('assetItems.controller', () => {
@@ -273,6 +291,30 @@ describe('assetItems.controller', () => {
     });
   });
 
+  describe('retireAssetItem', () => {
+    it('should retire the item with the disposal details', async () => {
+      req.params = { id: 'item-1' };
+      req.body = { reason: 'VOL', disposedAt: new Date('2026-10-15') };
+      const mockRetired = { id: 'item-1', status: 'REFORME', disposalReason: 'VOL' };
+      mockRetireAssetItem.mockResolvedValue(mockRetired);
+
+      await retireAssetItem(req, res);
+
+      expect(mockRetireAssetItem).toHaveBeenCalledWith('item-1', req.body, req);
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: mockRetired
+      });
+    });
+
+    it('should propagate service errors', async () => {
+      req.params = { id: 'item-1' };
+      mockRetireAssetItem.mockRejectedValue(new Error('Cet équipement est déjà réformé'));
+
+      await expect(retireAssetItem(req, res)).rejects.toThrow('Cet équipement est déjà réformé');
+    });
+  });
+
   describe('deleteAssetItem', () => {
     it('should delete asset item successfully', async () => {
       req.params = { id: 'item-1' };
@@ -421,6 +463,60 @@ describe('assetItems.controller', () => {
     });
   });
 
+  describe('getExpiringWarranties', () => {
+    it('should return the paginated list for the requested window', async () => {
+      req.query = { days: 60, page: 1, pageSize: 5 };
+      const mockResult = {
+        data: [{ id: 'item1', warrantyEndsAt: '2026-11-02T00:00:00.000Z' }],
+        pagination: { page: 1, pageSize: 5, totalItems: 1, totalPages: 1 }
+      };
+      mockGetExpiringWarranties.mockResolvedValue(mockResult);
+
+      await getExpiringWarranties(req, res);
+
+      expect(mockGetExpiringWarranties).toHaveBeenCalledWith({ days: 60, page: 1, pageSize: 5 });
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        ...mockResult
+      });
+    });
+  });
+
+  describe('getLabelFormats', () => {
+    it('should return the label formats', async () => {
+      const formats = [{ key: 'AVERY_L7160', columns: 3, rows: 7 }];
+      mockGetLabelFormats.mockReturnValue(formats);
+
+      await getLabelFormats(req, res);
+
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: formats });
+    });
+  });
+
+  describe('generateAssetLabels', () => {
+    it('should send the label sheet as a PDF attachment', async () => {
+      const pdf = Buffer.from('%PDF-1.4');
+      req.body = { ids: ['item-1', 'item-2'], format: 'AVERY_L7163', codeType: 'BOTH', startPosition: 1 };
+      res.setHeader = jest.fn();
+      res.send = jest.fn();
+      mockGenerateAssetLabels.mockResolvedValue({ buffer: pdf, filename: 'Etiquettes_2026-10-19.pdf' });
+
+      await generateAssetLabels(req, res);
+
+      expect(mockGenerateAssetLabels).toHaveBeenCalledWith(req.body);
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'application/pdf');
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="Etiquettes_2026-10-19.pdf"');
+      expect(res.send).toHaveBeenCalledWith(pdf);
+    });
+
+    it('should propagate service errors', async () => {
+      req.body = { ids: ['missing'] };
+      mockGenerateAssetLabels.mockRejectedValue(new Error('Article(s) non trouvé(s): missing'));
+
+      await expect(generateAssetLabels(req, res)).rejects.toThrow('Article(s) non trouvé(s): missing');
+    });
+  });
+
   describe('HTTP layer behavior', () => {
     it('should handle async errors', async () => {
       req.params = { id: 'item-1' };
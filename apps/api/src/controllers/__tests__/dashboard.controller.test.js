@@ -4,6 +4,7 @@
  * Tests HTTP layer behavior:
  * - Request/response handling for dashboard stats
  * - Manual stats refresh endpoint
+ * - Fleet valuation report
  * - Status codes and response format
  * - Error handling
  */
@@ -13,11 +14,13 @@ import { jest } from '@jest/globals';
 // Mock dependencies BEFORE imports
 const mockGetDashboardStats = jest.fn();
 const mockRefreshDashboardStats = jest.fn();
+const mockGetFleetValuation = jest.fn();
 const mockAsyncHandler = jest.fn((fn) => fn); // Pass through function
 
 jest.unstable_mockModule('../../services/dashboard.service.js', () => ({
   getDashboardStats: mockGetDashboardStats,
   refreshDashboardStats: mockRefreshDashboardStats,
+  getFleetValuation: mockGetFleetValuation,
 }));
 
 jest.unstable_mockModule('../../middleware/asyncHandler.js', () => ({
@@ -25,7 +28,7 @@ jest.unstable_mockModule('../../middleware/asyncHandler.js', () => ({
 }));
 
 // Import controllers AFTER mocks
-const { getStats, refreshStats } = await import('../dashboard.controller.js');
+const { getStats, refreshStats, getValuation } = await import('../dashboard.controller.js');
 
 describe('dashboard.controller', () => {
   let req, res;
@@ -214,4 +217,24 @@ describe('dashboard.controller', () => {
       );
     });
   });
+
+  describe('getValuation', () => {
+    it('should return the fleet valuation report', async () => {
+      const mockValuation = {
+        valuedAt: new Date('2026-10-19T08:00:00Z'),
+        totals: { itemCount: 1, purchaseValueCents: 129900, currentValueCents: 86600 },
+        byType: [],
+        byDepartment: [],
+      };
+      mockGetFleetValuation.mockResolvedValue(mockValuation);
+
+      await getValuation(req, res);
+
+      expect(mockGetFleetValuation).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: mockValuation,
+      });
+    });
+  });
 });
@@ -15,7 +15,9 @@ const mockExportEmployees = jest.fn();
 const mockExportAssetModels = jest.fn();
 const mockExportAssetItems = jest.fn();
 const mockExportStockItems = jest.fn();
+const mockExportReorderList = jest.fn();
 const mockExportLoans = jest.fn();
+const mockExportDisposalRegister = jest.fn();
 const mockExportDashboard = jest.fn();
 
 jest.unstable_mockModule('../../services/export.service.js', () => ({
@@ -23,7 +25,9 @@ jest.unstable_mockModule('../../services/export.service.js', () => ({
   exportAssetModels: mockExportAssetModels,
   exportAssetItems: mockExportAssetItems,
   exportStockItems: mockExportStockItems,
+  exportReorderList: mockExportReorderList,
   exportLoans: mockExportLoans,
+  exportDisposalRegister: mockExportDisposalRegister,
   exportDashboard: mockExportDashboard,
 }));
 
@@ -44,7 +48,9 @@ const {
   exportAssetModelsController,
   exportAssetItemsController,
   exportStockItemsController,
+  exportReorderListController,
   exportLoansController,
+  exportDisposalRegisterController,
   exportDashboardController,
 } = await import('../../controllers/export.controller.js');
 
@@ -211,6 +217,21 @@ describe('Export Controller', () => {
     });
   });
 
+  describe('exportReorderListController', () => {
+    it('should export the reorder list', async () => {
+      mockExportReorderList.mockResolvedValue(mockBuffer);
+      const { req, res, next } = createMockReqRes();
+
+      await invoke(exportReorderListController, req, res, next);
+
+      expect(mockExportReorderList).toHaveBeenCalled();
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Content-Disposition',
+        expect.stringMatching(/Reapprovisionnement_\d{4}/)
+      );
+    });
+  });
+
   describe('exportLoansController', () => {
     it('should export loans with date range', async () => {
       mockExportLoans.mockResolvedValue(mockBuffer);
@@ -246,6 +267,24 @@ describe('Export Controller', () => {
     });
   });
 
+  describe('exportDisposalRegisterController', () => {
+    it('should export retired items for the period and reason', async () => {
+      mockExportDisposalRegister.mockResolvedValue(mockBuffer);
+      const from = new Date('2026-01-01');
+      const to = new Date('2026-12-31');
+      const { req, res, next } = createMockReqRes({ from, to, reason: 'DON' });
+
+      await invoke(exportDisposalRegisterController, req, res, next);
+
+      expect(mockExportDisposalRegister).toHaveBeenCalledWith({ from, to, reason: 'DON' });
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Content-Disposition',
+        expect.stringMatching(/Registre_Sorties_/)
+      );
+      expect(res.send).toHaveBeenCalledWith(mockBuffer);
+    });
+  });
+
   describe('exportDashboardController', () => {
     it('should export dashboard with correct filename', async () => {
       mockExportDashboard.mockResolvedValue(mockBuffer);
@@ -16,8 +16,12 @@ import { jest } from '@jest/globals';
 const mockGetAllLoansPaginated = jest.fn();
 const mockGetLoanById = jest.fn();
 const mockCreateLoan = jest.fn();
+const mockUpdateLoan = jest.fn();
 const mockAddLoanLine = jest.fn();
+const mockAddLoanKit = jest.fn();
 const mockRemoveLoanLine = jest.fn();
+const mockReturnLoanLine = jest.fn();
+const mockTransferLoanLines = jest.fn();
 const mockUploadPickupSignature = jest.fn();
 const mockUploadReturnSignature = jest.fn();
 const mockCloseLoan = jest.fn();
@@ -25,14 +29,19 @@ const mockDeleteLoan = jest.fn();
 const mockBatchDeleteLoans = jest.fn();
 const mockDeletePickupSignature = jest.fn();
 const mockDeleteReturnSignature = jest.fn();
+const mockGenerateLoanReceipt = jest.fn();
 const mockAsyncHandler = jest.fn((fn) => fn); // Pass through function
 
 jest.unstable_mockModule('../../services/loans.service.js', () => ({
   getAllLoansPaginated: mockGetAllLoansPaginated,
   getLoanById: mockGetLoanById,
   createLoan: mockCreateLoan,
+  updateLoan: mockUpdateLoan,
   addLoanLine: mockAddLoanLine,
+  addLoanKit: mockAddLoanKit,
   removeLoanLine: mockRemoveLoanLine,
+  returnLoanLine: mockReturnLoanLine,
+  transferLoanLines: mockTransferLoanLines,
   uploadPickupSignature: mockUploadPickupSignature,
   uploadReturnSignature: mockUploadReturnSignature,
   closeLoan: mockCloseLoan,
@@ -42,6 +51,10 @@ jest.unstable_mockModule('../../services/loans.service.js', () => ({
   deleteReturnSignature: mockDeleteReturnSignature
 }));
 
+jest.unstable_mockModule('../../services/loanReceipt.service.js', () => ({
+  generateLoanReceipt: mockGenerateLoanReceipt
+}));
+
 jest.unstable_mockModule('../../middleware/asyncHandler.js', () => ({
   asyncHandler: mockAsyncHandler
 }));
@@ -50,9 +63,14 @@ jest.unstable_mockModule('../../middleware/asyncHandler.js', () => ({
 const {
   getAllLoans,
   getLoanById,
+  downloadLoanReceipt,
   createLoan,
+  updateLoan,
   addLoanLine,
+  addLoanKit,
   removeLoanLine,
+  returnLoanLine,
+  transferLoanLines,
   uploadPickupSignature,
   uploadReturnSignature,
   closeLoan,
@@ -140,6 +158,17 @@ describe('loans.controller', () => {
       });
     });
 
+    it('should pass the overdue filter when overdue=true', async () => {
+      req.query = { overdue: 'true', page: '1', pageSize: '20' };
+      mockGetAllLoansPaginated.mockResolvedValue({ data: [], pagination: {} });
+
+      await getAllLoans(req, res);
+
+      expect(mockGetAllLoansPaginated).toHaveBeenCalledWith(
+        expect.objectContaining({ overdue: true, page: 1, pageSize: 20 })
+      );
+    });
+
     it('should get loans filtered by employeeId', async () => {
       req.query = { employeeId: 'emp-001' };
       const employeeLoans = [mockLoans[0]];
@@ -244,7 +273,7 @@ describe('loans.controller', () => {
 
       await createLoan(req, res);
 
-      expect(mockCreateLoan).toHaveBeenCalledWith('emp-001', 'user-123', req);
+      expect(mockCreateLoan).toHaveBeenCalledWith('emp-001', 'user-123', req, { dueAt: undefined });
       expect(res.status).toHaveBeenCalledWith(201);
       expect(res.json).toHaveBeenCalledWith({
         success: true,
@@ -272,6 +301,33 @@ describe('loans.controller', () => {
     });
   });
 
+  describe('updateLoan', () => {
+    it('should update the loan and return it', async () => {
+      const updatedLoan = { id: 'loan-123', status: 'OPEN', dueAt: new Date('2024-02-15') };
+      req.params = { id: 'loan-123' };
+      req.body = { dueAt: new Date('2024-02-15') };
+      mockUpdateLoan.mockResolvedValue(updatedLoan);
+
+      await updateLoan(req, res);
+
+      expect(mockUpdateLoan).toHaveBeenCalledWith('loan-123', req.body, req);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: updatedLoan
+      });
+    });
+
+    it('should propagate service errors', async () => {
+      req.params = { id: 'loan-123' };
+      req.body = { dueAt: null };
+      mockUpdateLoan.mockRejectedValue(new Error('Impossible de modifier un prêt fermé'));
+
+      await expect(updateLoan(req, res)).rejects.toThrow('Impossible de modifier un prêt fermé');
+      expect(res.json).not.toHaveBeenCalled();
+    });
+  });
+
   describe('addLoanLine', () => {
     const mockLoanLine = {
       id: 'line-new',
@@ -351,7 +407,7 @@ describe('loans.controller', () => {
 
       await removeLoanLine(req, res);
 
-      expect(mockRemoveLoanLine).toHaveBeenCalledWith('loan-123', 'line-001');
+      expect(mockRemoveLoanLine).toHaveBeenCalledWith('loan-123', 'line-001', req);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         success: true,
@@ -368,6 +424,112 @@ describe('loans.controller', () => {
     });
   });
 
+  describe('returnLoanLine', () => {
+    const mockLoan = {
+      id: 'loan-123',
+      status: 'OPEN',
+      lines: [
+        { id: 'line-001', returnedAt: '2026-10-19T09:00:00.000Z' },
+        { id: 'line-002', returnedAt: null }
+      ]
+    };
+
+    it('should return loan line and respond with updated loan', async () => {
+      req.params = { id: 'loan-123', lineId: 'line-001' };
+      mockReturnLoanLine.mockResolvedValue(mockLoan);
+
+      await returnLoanLine(req, res);
+
+      expect(mockReturnLoanLine).toHaveBeenCalledWith('loan-123', 'line-001', req, {});
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: mockLoan
+      });
+    });
+
+    it('should pass the return inspection to the service', async () => {
+      req.params = { id: 'loan-123', lineId: 'line-001' };
+      req.body = { condition: 'MISSING', note: 'Non rendu' };
+      mockReturnLoanLine.mockResolvedValue(mockLoan);
+
+      await returnLoanLine(req, res);
+
+      expect(mockReturnLoanLine).toHaveBeenCalledWith('loan-123', 'line-001', req, { condition: 'MISSING', note: 'Non rendu' });
+    });
+
+    it('should propagate service errors', async () => {
+      req.params = { id: 'loan-123', lineId: 'line-001' };
+      mockReturnLoanLine.mockRejectedValue(new Error('Cet article a déjà été retourné'));
+
+      await expect(returnLoanLine(req, res)).rejects.toThrow('Cet article a déjà été retourné');
+    });
+  });
+
+  describe('addLoanKit', () => {
+    it('should add the kit and respond 201 with the loan and missing components', async () => {
+      const result = {
+        loan: { id: 'loan-123', lines: [] },
+        missing: [{ kitItemId: 'kit-item-1', label: 'Dell P2422H', requested: 2, added: 1 }]
+      };
+      req.params = { id: 'loan-123' };
+      req.body = { kitId: 'kit-001' };
+      mockAddLoanKit.mockResolvedValue(result);
+
+      await addLoanKit(req, res);
+
+      expect(mockAddLoanKit).toHaveBeenCalledWith('loan-123', 'kit-001', req);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: result });
+    });
+  });
+
+  describe('downloadLoanReceipt', () => {
+    it('should send the PDF as an attachment', async () => {
+      const pdf = Buffer.from('%PDF-1.4');
+      req.params = { id: 'loan-123' };
+      req.user = { userId: 'user-123' };
+      res.setHeader = jest.fn();
+      res.send = jest.fn();
+      mockGenerateLoanReceipt.mockResolvedValue({ buffer: pdf, filename: 'Bon_de_pret_Dupont_Jean_2026-10-19.pdf' });
+
+      await downloadLoanReceipt(req, res);
+
+      expect(mockGenerateLoanReceipt).toHaveBeenCalledWith('loan-123');
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'application/pdf');
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="Bon_de_pret_Dupont_Jean_2026-10-19.pdf"');
+      expect(res.send).toHaveBeenCalledWith(pdf);
+    });
+  });
+
+  describe('transferLoanLines', () => {
+    it('should transfer lines and respond 201 with the new loan', async () => {
+      const mockNewLoan = { id: 'loan-456', employeeId: 'emp-999', status: 'OPEN', pickupSignatureUrl: null };
+      req.params = { id: 'loan-123' };
+      req.body = { employeeId: 'emp-999', lineIds: ['line-001'] };
+      req.user = { userId: 'user-123' };
+      mockTransferLoanLines.mockResolvedValue(mockNewLoan);
+
+      await transferLoanLines(req, res);
+
+      expect(mockTransferLoanLines).toHaveBeenCalledWith('loan-123', { employeeId: 'emp-999', lineIds: ['line-001'] }, 'user-123', req);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: mockNewLoan
+      });
+    });
+
+    it('should propagate service errors', async () => {
+      req.params = { id: 'loan-123' };
+      req.body = { employeeId: 'emp-001', lineIds: ['line-001'] };
+      req.user = { userId: 'user-123' };
+      mockTransferLoanLines.mockRejectedValue(new Error('Le prêt appartient déjà à cet employé'));
+
+      await expect(transferLoanLines(req, res)).rejects.toThrow('Le prêt appartient déjà à cet employé');
+    });
+  });
+
   describe('uploadPickupSignature', () => {
     const mockLoanWithSignature = {
       id: 'loan-123',
@@ -512,7 +674,7 @@ describe('loans.controller', () => {
 
       await closeLoan(req, res);
 
-      expect(mockCloseLoan).toHaveBeenCalledWith('loan-123', req);
+      expect(mockCloseLoan).toHaveBeenCalledWith('loan-123', req, undefined);
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith({
         success: true,
@@ -520,6 +682,18 @@ describe('loans.controller', () => {
       });
     });
 
+    it('should pass return inspections to the service', async () => {
+      req.params = { id: 'loan-123' };
+      req.body = {
+        inspections: [{ lineId: 'line-001', condition: 'DAMAGED', note: 'Écran fissuré' }]
+      };
+      mockCloseLoan.mockResolvedValue(mockClosedLoan);
+
+      await closeLoan(req, res);
+
+      expect(mockCloseLoan).toHaveBeenCalledWith('loan-123', req, req.body.inspections);
+    });
+
     it('should handle missing signatures error', async () => {
       req.params = { id: 'loan-123' };
       const error = new Error('Both pickup and return signatures are required to close loan');
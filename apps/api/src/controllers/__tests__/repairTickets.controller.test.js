@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Unit tests for repairTickets.controller.js
+ *
+ * Tests HTTP layer behavior:
+ * - Request/response handling
+ * - Status codes
+ * - Service integration
+ */
+
+import { jest } from '@jest/globals';
+
+// Mock dependencies BEFORE imports
+const mockGetRepairTickets = jest.fn();
+const mockGetRepairTicketById = jest.fn();
+const mockCreateRepairTicket = jest.fn();
+const mockUpdateRepairTicket = jest.fn();
+const mockCloseRepairTicket = jest.fn();
+const mockAsyncHandler = jest.fn((fn) => fn);
+
+jest.unstable_mockModule('../../services/repairTickets.service.js', () => ({
+  getRepairTickets: mockGetRepairTickets,
+  getRepairTicketById: mockGetRepairTicketById,
+  createRepairTicket: mockCreateRepairTicket,
+  updateRepairTicket: mockUpdateRepairTicket,
+  closeRepairTicket: mockCloseRepairTicket
+}));
+
+jest.unstable_mockModule('../../middleware/asyncHandler.js', () => ({
+  asyncHandler: mockAsyncHandler
+}));
+
+const {
+  getRepairTickets,
+  createRepairTicket,
+  closeRepairTicket
+} = await import('../repairTickets.controller.js');
+
+describe('repairTickets.controller', () => {
+  let req, res;
+
+  beforeEach(() => {
+    req = { params: {}, query: {}, body: {}, user: { userId: 'user-1' } };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    jest.clearAllMocks();
+  });
+
+  describe('getRepairTickets', () => {
+    it('should turn the open flag into a boolean and spread the paginated result', async () => {
+      req.query = { open: 'true', page: 1 };
+      const result = { data: [], pagination: { page: 1, pageSize: 20, totalItems: 0, totalPages: 0 } };
+      mockGetRepairTickets.mockResolvedValue(result);
+
+      await getRepairTickets(req, res);
+
+      expect(mockGetRepairTickets).toHaveBeenCalledWith({ open: true, page: 1 });
+      expect(res.json).toHaveBeenCalledWith({ success: true, ...result });
+    });
+  });
+
+  describe('createRepairTicket', () => {
+    it('should open the ticket and return 201', async () => {
+      const ticket = { id: 'ticket-1' };
+      req.body = { assetItemId: 'asset-1', fault: 'Écran cassé' };
+      mockCreateRepairTicket.mockResolvedValue(ticket);
+
+      await createRepairTicket(req, res);
+
+      expect(mockCreateRepairTicket).toHaveBeenCalledWith(req.body, 'user-1', req);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: ticket });
+    });
+  });
+
+  describe('closeRepairTicket', () => {
+    it('should close the ticket on behalf of the current user', async () => {
+      const ticket = { id: 'ticket-1', status: 'CLOSED' };
+      req.params.id = 'ticket-1';
+      req.body = { outcome: 'REPAIRED', finalCostCents: 12900 };
+      mockCloseRepairTicket.mockResolvedValue(ticket);
+
+      await closeRepairTicket(req, res);
+
+      expect(mockCloseRepairTicket).toHaveBeenCalledWith('ticket-1', req.body, 'user-1', req);
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: ticket });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Unit tests for reservations.controller.js
+ *
+ * Tests HTTP layer behavior:
+ * - Request/response handling
+ * - Status codes
+ * - Service integration
+ */
+
+import { jest } from '@jest/globals';
+
+// Mock dependencies BEFORE imports
+const mockGetAllReservations = jest.fn();
+const mockGetReservationById = jest.fn();
+const mockCreateReservation = jest.fn();
+const mockUpdateReservation = jest.fn();
+const mockCancelReservation = jest.fn();
+const mockConvertReservationToLoan = jest.fn();
+const mockAsyncHandler = jest.fn((fn) => fn);
+
+jest.unstable_mockModule('../../services/reservations.service.js', () => ({
+  getAllReservations: mockGetAllReservations,
+  getReservationById: mockGetReservationById,
+  createReservation: mockCreateReservation,
+  updateReservation: mockUpdateReservation,
+  cancelReservation: mockCancelReservation,
+  convertReservationToLoan: mockConvertReservationToLoan
+}));
+
+jest.unstable_mockModule('../../middleware/asyncHandler.js', () => ({
+  asyncHandler: mockAsyncHandler
+}));
+
+const {
+  getAllReservations,
+  createReservation,
+  cancelReservation,
+  convertReservationToLoan
+} = await import('../reservations.controller.js');
+
+describe('reservations.controller', () => {
+  let req, res;
+
+  beforeEach(() => {
+    req = { params: {}, query: {}, body: {}, user: { userId: 'user-1' } };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    jest.clearAllMocks();
+  });
+
+  describe('getAllReservations', () => {
+    it('should pass query filters to the service', async () => {
+      req.query = { status: 'ACTIVE' };
+      mockGetAllReservations.mockResolvedValue([]);
+
+      await getAllReservations(req, res);
+
+      expect(mockGetAllReservations).toHaveBeenCalledWith({ status: 'ACTIVE' });
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: [] });
+    });
+  });
+
+  describe('createReservation', () => {
+    it('should create reservation and return 201', async () => {
+      const reservation = { id: 'res-1' };
+      req.body = { employeeId: 'emp-1', assetItemId: 'asset-1' };
+      mockCreateReservation.mockResolvedValue(reservation);
+
+      await createReservation(req, res);
+
+      expect(mockCreateReservation).toHaveBeenCalledWith(req.body, 'user-1', req);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: reservation });
+    });
+  });
+
+  describe('cancelReservation', () => {
+    it('should cancel reservation by id', async () => {
+      req.params.id = 'res-1';
+      mockCancelReservation.mockResolvedValue({ id: 'res-1', status: 'CANCELLED' });
+
+      await cancelReservation(req, res);
+
+      expect(mockCancelReservation).toHaveBeenCalledWith('res-1', req);
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: { id: 'res-1', status: 'CANCELLED' } });
+    });
+  });
+
+  describe('convertReservationToLoan', () => {
+    it('should return the created loan with 201', async () => {
+      req.params.id = 'res-1';
+      mockConvertReservationToLoan.mockResolvedValue({ id: 'loan-1' });
+
+      await convertReservationToLoan(req, res);
+
+      expect(mockConvertReservationToLoan).toHaveBeenCalledWith('res-1', 'user-1', req);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: { id: 'loan-1' } });
+    });
+  });
+});
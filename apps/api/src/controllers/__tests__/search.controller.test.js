@@ -15,6 +15,7 @@ const mockGlobalSearch = jest.fn();
 const mockAutocompleteEmployees = jest.fn();
 const mockAutocompleteAssetItems = jest.fn();
 const mockAutocompleteAssetModels = jest.fn();
+const mockResolveAssetItemCode = jest.fn();
 const mockAsyncHandler = jest.fn((fn) => fn);
 
 jest.unstable_mockModule('../../services/search.service.js', () => ({
@@ -22,6 +23,7 @@ jest.unstable_mockModule('../../services/search.service.js', () => ({
   autocompleteEmployees: mockAutocompleteEmployees,
   autocompleteAssetItems: mockAutocompleteAssetItems,
   autocompleteAssetModels: mockAutocompleteAssetModels,
+  resolveAssetItemCode: mockResolveAssetItemCode,
 }));
 
 jest.unstable_mockModule('../../middleware/asyncHandler.js', () => ({
@@ -40,6 +42,7 @@ const {
   autocompleteEmployees,
   autocompleteAssetItems,
   autocompleteAssetModels,
+  resolveAssetItem,
 } = await import('../../controllers/search.controller.js');
 
 // Helper to create mock req/res
@@ -207,4 +210,25 @@ describe('Search Controller', () => {
       expect(mockSendSuccess).toHaveBeenCalledWith(res, mockModels);
     });
   });
+
+  describe('resolveAssetItem', () => {
+    it('should resolve the scanned code', async () => {
+      const mockItem = { id: 'a1', assetTag: 'LAP-001' };
+      mockResolveAssetItemCode.mockResolvedValue(mockItem);
+      const { req, res } = createMockReqRes({ code: 'LAP-001' });
+
+      await resolveAssetItem(req, res);
+
+      expect(mockResolveAssetItemCode).toHaveBeenCalledWith('LAP-001');
+      expect(mockSendSuccess).toHaveBeenCalledWith(res, mockItem);
+    });
+
+    it('should propagate lookup errors', async () => {
+      mockResolveAssetItemCode.mockRejectedValue(new Error('Aucun équipement ne correspond au code X'));
+      const { req, res } = createMockReqRes({ code: 'X' });
+
+      await expect(resolveAssetItem(req, res)).rejects.toThrow('Aucun équipement');
+      expect(mockSendSuccess).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -19,6 +19,7 @@ const mockCreateStockItem = jest.fn();
 const mockUpdateStockItem = jest.fn();
 const mockAdjustStockQuantity = jest.fn();
 const mockDeleteStockItem = jest.fn();
+const mockGetReorderList = jest.fn();
 const mockAsyncHandler = jest.fn((fn) => fn);
 
 jest.unstable_mockModule('../../services/stockItems.service.js', () => ({
@@ -27,7 +28,8 @@ jest.unstable_mockModule('../../services/stockItems.service.js', () => ({
   createStockItem: mockCreateStockItem,
   updateStockItem: mockUpdateStockItem,
   adjustStockQuantity: mockAdjustStockQuantity,
-  deleteStockItem: mockDeleteStockItem
+  deleteStockItem: mockDeleteStockItem,
+  getReorderList: mockGetReorderList
 }));
 
 jest.unstable_mockModule('../../middleware/asyncHandler.js', () => ({
@@ -40,7 +42,8 @@ const {
   createStockItem,
   updateStockItem,
   adjustQuantity,
-  deleteStockItem
+  deleteStockItem,
+  getReorderList
 } = await import('../stockItems.controller.js');
 
 describe('stockItems.controller', () => {
@@ -172,7 +175,7 @@ describe('stockItems.controller', () => {
 
       await adjustQuantity(req, res);
 
-      expect(mockAdjustStockQuantity).toHaveBeenCalledWith('stock-1', 10, req);
+      expect(mockAdjustStockQuantity).toHaveBeenCalledWith('stock-1', 10, req, { type: undefined, reason: undefined });
       expect(res.json).toHaveBeenCalledWith({
         success: true,
         data: mockAdjusted
@@ -187,13 +190,23 @@ describe('stockItems.controller', () => {
 
       await adjustQuantity(req, res);
 
-      expect(mockAdjustStockQuantity).toHaveBeenCalledWith('stock-1', -5, req);
+      expect(mockAdjustStockQuantity).toHaveBeenCalledWith('stock-1', -5, req, { type: undefined, reason: undefined });
       expect(res.json).toHaveBeenCalledWith({
         success: true,
         data: mockAdjusted
       });
     });
 
+    it('should forward the movement type and reason', async () => {
+      req.params = { id: 'stock-1' };
+      req.body = { quantity: -3, type: 'WRITE_OFF', reason: 'Câbles endommagés' };
+      mockAdjustStockQuantity.mockResolvedValue({ id: 'stock-1', quantity: 47 });
+
+      await adjustQuantity(req, res);
+
+      expect(mockAdjustStockQuantity).toHaveBeenCalledWith('stock-1', -3, req, { type: 'WRITE_OFF', reason: 'Câbles endommagés' });
+    });
+
     it('should handle insufficient quantity error', async () => {
       req.params = { id: 'stock-1' };
       req.body = { quantity: -100 };
@@ -240,6 +253,18 @@ describe('stockItems.controller', () => {
     });
   });
 
+  describe('getReorderList', () => {
+    it('should return the reorder list grouped by supplier', async () => {
+      const groups = [{ supplier: { id: 'sup-1', name: 'Acme' }, lines: [{ stockItemId: 'stock-1', suggestedQuantity: 10 }] }];
+      mockGetReorderList.mockResolvedValue(groups);
+
+      await getReorderList(req, res);
+
+      expect(mockGetReorderList).toHaveBeenCalledWith();
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: groups });
+    });
+  });
+
   describe('HTTP layer behavior', () => {
     it('should handle async errors', async () => {
       req.params = { id: 'stock-1' };
@@ -3,6 +3,7 @@
  */
 import { asyncHandler } from '../middleware/asyncHandler.js';
 import * as assetItemsService from '../services/assetItems.service.js';
+import * as labelsService from '../services/labels.service.js';
 import { sendSuccess, sendCreated, sendSuccessWithMeta } from '../utils/responseHelpers.js';
 import { parsePaginationParams, UNPAGINATED_MAX_ITEMS } from '../utils/pagination.js';
 import logger from '../config/logger.js';
@@ -89,6 +90,15 @@ export const updateAssetItemStatus = asyncHandler(async (req, res) => {
   sendSuccess(res, assetItem);
 });
 
+/**
+ * POST /api/asset-items/:id/retire
+ */
+export const retireAssetItem = asyncHandler(async (req, res) => {
+  const assetItem = await assetItemsService.retireAssetItem(req.params.id, req.body, req);
+
+  sendSuccess(res, assetItem);
+});
+
 /**
  * DELETE /api/asset-items/:id
  */
@@ -122,3 +132,40 @@ export const previewBulkCreation = asyncHandler(async (req, res) => {
 
   sendSuccess(res, preview);
 });
+
+/**
+ * GET /api/asset-items/labels/formats
+ * Standard label sheets available for printing
+ */
+export const getLabelFormats = asyncHandler(async (req, res) => {
+  sendSuccess(res, labelsService.getLabelFormats());
+});
+
+/**
+ * POST /api/asset-items/labels
+ * Label sheet (QR code + Code 128) for the given items, as PDF
+ */
+export const generateAssetLabels = asyncHandler(async (req, res) => {
+  const { buffer, filename } = await labelsService.generateAssetLabels(req.body);
+
+  logger.info('Asset labels generated', { count: req.body.ids.length, format: req.body.format, userId: req.user?.userId });
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(buffer);
+});
+
+/**
+ * GET /api/asset-items/warranties/expiring
+ * Asset items whose warranty ends within the next `days` days
+ */
+export const getExpiringWarranties = asyncHandler(async (req, res) => {
+  const { days, page, pageSize } = req.query;
+
+  const result = await assetItemsService.getExpiringWarranties({ days, page, pageSize });
+
+  res.json({
+    success: true,
+    ...result
+  });
+});
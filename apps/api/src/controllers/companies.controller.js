@@ -0,0 +1,51 @@
+/**
+ * Companies controllers - HTTP handlers
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as companiesService from '../services/companies.service.js';
+import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/companies
+ */
+export const getAllCompanies = asyncHandler(async (req, res) => {
+  const companies = await companiesService.getAllCompanies({ search: req.query.search });
+
+  sendSuccess(res, companies);
+});
+
+/**
+ * GET /api/companies/:id
+ */
+export const getCompanyById = asyncHandler(async (req, res) => {
+  const company = await companiesService.getCompanyById(req.params.id);
+
+  sendSuccess(res, company);
+});
+
+/**
+ * POST /api/companies
+ */
+export const createCompany = asyncHandler(async (req, res) => {
+  const company = await companiesService.createCompany(req.body, req);
+
+  sendCreated(res, company);
+});
+
+/**
+ * PATCH /api/companies/:id
+ */
+export const updateCompany = asyncHandler(async (req, res) => {
+  const company = await companiesService.updateCompany(req.params.id, req.body, req);
+
+  sendSuccess(res, company);
+});
+
+/**
+ * DELETE /api/companies/:id
+ */
+export const deleteCompany = asyncHandler(async (req, res) => {
+  const result = await companiesService.deleteCompany(req.params.id, req);
+
+  sendSuccess(res, result);
+});
@@ -19,6 +19,19 @@ export const getStats = asyncHandler(async (req, res) => {
   });
 });
 
+/**
+ * GET /api/dashboard/valuation
+ * Get the fleet valuation report (book value per type and department)
+ */
+export const getValuation = asyncHandler(async (req, res) => {
+  const valuation = await dashboardService.getFleetValuation();
+
+  res.json({
+    success: true,
+    data: valuation,
+  });
+});
+
 /**
  * POST /api/dashboard/refresh
  * Manually refresh dashboard statistics (admin only)
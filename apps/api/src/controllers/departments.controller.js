@@ -0,0 +1,70 @@
+/**
+ * Departments controllers - HTTP handlers
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as departmentsService from '../services/departments.service.js';
+import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/departments
+ */
+export const getAllDepartments = asyncHandler(async (req, res) => {
+  const { search, companyId } = req.query;
+  const departments = await departmentsService.getAllDepartments({ search, companyId });
+
+  sendSuccess(res, departments);
+});
+
+/**
+ * GET /api/departments/duplicates
+ */
+export const getDuplicateDepartments = asyncHandler(async (req, res) => {
+  const groups = await departmentsService.findDuplicateDepartments();
+
+  sendSuccess(res, groups);
+});
+
+/**
+ * GET /api/departments/:id
+ */
+export const getDepartmentById = asyncHandler(async (req, res) => {
+  const department = await departmentsService.getDepartmentById(req.params.id);
+
+  sendSuccess(res, department);
+});
+
+/**
+ * POST /api/departments
+ */
+export const createDepartment = asyncHandler(async (req, res) => {
+  const department = await departmentsService.createDepartment(req.body, req);
+
+  sendCreated(res, department);
+});
+
+/**
+ * PATCH /api/departments/:id
+ */
+export const updateDepartment = asyncHandler(async (req, res) => {
+  const department = await departmentsService.updateDepartment(req.params.id, req.body, req);
+
+  sendSuccess(res, department);
+});
+
+/**
+ * POST /api/departments/:id/merge
+ */
+export const mergeDepartments = asyncHandler(async (req, res) => {
+  const department = await departmentsService.mergeDepartments(req.params.id, req.body.sourceIds, req);
+
+  sendSuccess(res, department);
+});
+
+/**
+ * DELETE /api/departments/:id
+ */
+export const deleteDepartment = asyncHandler(async (req, res) => {
+  const result = await departmentsService.deleteDepartment(req.params.id, req);
+
+  sendSuccess(res, result);
+});
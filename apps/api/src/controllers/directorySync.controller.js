@@ -0,0 +1,28 @@
+/**
+ * Directory sync controllers - HTTP handlers (company directory synchronization)
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { getDirectorySyncSettings } from '../services/directorySync.service.js';
+import { getJobStatus, runJob } from '../services/scheduler.service.js';
+import { sendSuccess } from '../utils/responseHelpers.js';
+
+const DIRECTORY_SYNC_JOB = 'directory-sync';
+
+/**
+ * GET /api/directory-sync
+ */
+export const getDirectorySync = asyncHandler(async (req, res) => {
+  const settings = getDirectorySyncSettings();
+  const job = await getJobStatus(DIRECTORY_SYNC_JOB, { limit: 10 });
+
+  sendSuccess(res, { ...settings, job });
+});
+
+/**
+ * POST /api/directory-sync/run
+ */
+export const runDirectorySync = asyncHandler(async (req, res) => {
+  const entry = await runJob(DIRECTORY_SYNC_JOB, { trigger: 'manual', req });
+
+  sendSuccess(res, entry);
+});
@@ -0,0 +1,45 @@
+/**
+ * Employee imports controllers - HTTP handlers (HR file synchronization)
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as employeeImportsService from '../services/employeeImports.service.js';
+import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/employee-imports
+ */
+export const getEmployeeImports = asyncHandler(async (req, res) => {
+  const result = await employeeImportsService.getEmployeeImports(req.query);
+
+  res.json({
+    success: true,
+    ...result
+  });
+});
+
+/**
+ * GET /api/employee-imports/:id
+ */
+export const getEmployeeImportById = asyncHandler(async (req, res) => {
+  const report = await employeeImportsService.getEmployeeImportById(req.params.id);
+
+  sendSuccess(res, report);
+});
+
+/**
+ * POST /api/employee-imports/preview
+ */
+export const previewEmployeeImport = asyncHandler(async (req, res) => {
+  const diff = await employeeImportsService.previewEmployeeImport(req.body);
+
+  sendSuccess(res, diff);
+});
+
+/**
+ * POST /api/employee-imports
+ */
+export const applyEmployeeImport = asyncHandler(async (req, res) => {
+  const report = await employeeImportsService.applyEmployeeImport(req.body, req.user.userId, req);
+
+  sendCreated(res, report);
+});
@@ -5,10 +5,13 @@
  * - Employee CRUD operations (create, read, update, delete)
  * - Employee listing with loan history
  * - Excel import functionality (handled by separate endpoint)
+ * - Offboarding checklist of leavers
+ * - Archiving and reactivation
  *
  * Business Rules:
  * - Email is unique (enforced by Prisma schema)
- * - Cannot delete employees with loan history (data integrity)
+ * - Archived employees are excluded from listings unless requested
+ * - Hard delete is an admin purge, refused for employees with any history
  * - All employees can borrow equipment regardless of department
  */
 import { asyncHandler } from '../middleware/asyncHandler.js';
@@ -28,7 +31,10 @@ import logger from '../config/logger.js';
  *
  * @param {Object} req.query - Query parameters
  * @param {string} [req.query.search] - Search in first name, last name, email, or dept
- * @param {string} [req.query.dept] - Filter by department
+ * @param {string} [req.query.dept] - Filter by department name
+ * @param {string} [req.query.departmentId] - Filter by department
+ * @param {string} [req.query.companyId] - Filter by company
+ * @param {string} [req.query.includeArchived] - 'true' to also list archived employees
  * @param {number} [req.query.page] - Page number (enables pagination)
  * @param {number} [req.query.pageSize] - Items per page
  * @param {string} [req.query.sortBy] - Field to sort by
@@ -45,7 +51,8 @@ import logger from '../config/logger.js';
  * GET /api/employees?page=2&pageSize=20&search=john&sortBy=lastName&sortOrder=asc
  */
 export const getAllEmployees = asyncHandler(async (req, res) => {
-  const { search, dept, sortBy, sortOrder } = req.query;
+  const { search, dept, departmentId, companyId, sortBy, sortOrder } = req.query;
+  const includeArchived = req.query.includeArchived === 'true';
 
   const isPaginationRequested = req.query.page !== undefined || req.query.pageSize !== undefined;
 
@@ -55,6 +62,9 @@ export const getAllEmployees = asyncHandler(async (req, res) => {
     const result = await employeesService.getAllEmployeesPaginated({
       search,
       dept,
+      departmentId,
+      companyId,
+      includeArchived,
       page,
       pageSize,
       sortBy,
@@ -70,6 +80,9 @@ export const getAllEmployees = asyncHandler(async (req, res) => {
     const result = await employeesService.getAllEmployeesPaginated({
       search,
       dept,
+      departmentId,
+      companyId,
+      includeArchived,
       page: 1,
       pageSize: UNPAGINATED_MAX_ITEMS,
       sortBy: sortBy || 'lastName',
@@ -265,13 +278,13 @@ export const updateEmployee = asyncHandler(async (req, res) => {
 });
 
 /**
- * Delete an employee
+ * Purge an employee
  *
  * Route: DELETE /api/employees/:id
- * Access: Protected (requires authentication)
+ * Access: Protected (requires ADMIN role)
  *
  * Deletes an employee record. IMPORTANT: Cannot delete employees with
- * loan history (maintains audit trail and data integrity).
+ * loan or reservation history, even in the trash: archive them instead.
  *
  * @param {string} req.params.id - Employee ID
  *
@@ -299,3 +312,118 @@ export const deleteEmployee = asyncHandler(async (req, res) => {
 
   sendSuccess(res, result);
 });
+
+/**
+ * Archive an employee
+ *
+ * Route: POST /api/employees/:id/archive
+ * Access: Protected (requires authentication)
+ *
+ * @param {string} req.params.id - Employee ID
+ *
+ * @returns {Object} 200 - Archived employee
+ * @returns {Object} 400 - Already archived or lines still outstanding
+ * @returns {Object} 404 - Employee not found
+ */
+export const archiveEmployee = asyncHandler(async (req, res) => {
+  const employee = await employeesService.archiveEmployee(req.params.id, req);
+
+  sendSuccess(res, employee);
+});
+
+/**
+ * Reactivate an archived employee
+ *
+ * Route: POST /api/employees/:id/unarchive
+ * Access: Protected (requires authentication)
+ *
+ * @param {string} req.params.id - Employee ID
+ *
+ * @returns {Object} 200 - Reactivated employee
+ * @returns {Object} 400 - Employee not archived
+ * @returns {Object} 404 - Employee not found
+ */
+export const unarchiveEmployee = asyncHandler(async (req, res) => {
+  const employee = await employeesService.unarchiveEmployee(req.params.id, req);
+
+  sendSuccess(res, employee);
+});
+
+/**
+ * Get the offboarding checklist of an employee
+ *
+ * Route: GET /api/employees/:id/offboarding
+ * Access: Protected (requires authentication)
+ *
+ * Lists the lines the employee still holds on open loans; each must be
+ * returned, transferred or written off before the departure is completed.
+ *
+ * @param {string} req.params.id - Employee ID
+ *
+ * @returns {Object} 200 - { employee, outstandingLines, activeReservations, canComplete }
+ * @returns {Object} 404 - Employee not found
+ */
+export const getEmployeeOffboarding = asyncHandler(async (req, res) => {
+  const checklist = await employeesService.getEmployeeOffboarding(req.params.id);
+
+  sendSuccess(res, checklist);
+});
+
+/**
+ * Start or reschedule the offboarding of an employee
+ *
+ * Route: POST /api/employees/:id/offboarding
+ * Access: Protected (requires authentication)
+ *
+ * @param {string} req.params.id - Employee ID
+ * @param {string} req.body.departureDate - Last working day
+ *
+ * @returns {Object} 200 - Offboarding checklist
+ * @returns {Object} 400 - Departure already completed
+ * @returns {Object} 404 - Employee not found
+ *
+ * @example
+ * POST /api/employees/ckx123/offboarding
+ * Body: { "departureDate": "2026-10-31" }
+ */
+export const startEmployeeOffboarding = asyncHandler(async (req, res) => {
+  const checklist = await employeesService.startEmployeeOffboarding(req.params.id, req.body, req);
+
+  sendSuccess(res, checklist);
+});
+
+/**
+ * Cancel a pending offboarding
+ *
+ * Route: DELETE /api/employees/:id/offboarding
+ * Access: Protected (requires authentication)
+ *
+ * @param {string} req.params.id - Employee ID
+ *
+ * @returns {Object} 200 - Updated employee
+ * @returns {Object} 400 - No pending offboarding
+ * @returns {Object} 404 - Employee not found
+ */
+export const cancelEmployeeOffboarding = asyncHandler(async (req, res) => {
+  const employee = await employeesService.cancelEmployeeOffboarding(req.params.id, req);
+
+  sendSuccess(res, employee);
+});
+
+/**
+ * Complete the offboarding: mark the employee as departed
+ *
+ * Route: POST /api/employees/:id/offboarding/complete
+ * Access: Protected (requires authentication)
+ *
+ * @param {string} req.params.id - Employee ID
+ *
+ * @returns {Object} 200 - Archived employee
+ * @returns {Object} 400 - Lines still outstanding or no pending offboarding
+ * @returns {Object} 404 - Employee not found
+ */
+export const completeEmployeeOffboarding = asyncHandler(async (req, res) => {
+  const employee = await employeesService.completeEmployeeOffboarding(req.params.id, req);
+
+  sendSuccess(res, employee);
+});
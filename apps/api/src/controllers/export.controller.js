@@ -6,6 +6,7 @@
  * - GET /api/export/asset-models - Export modèles équipements
  * - GET /api/export/asset-items - Export articles équipements
  * - GET /api/export/stock-items - Export stock
+ * - GET /api/export/reorder-list - Export liste de réapprovisionnement
  * - GET /api/export/loans - Export prêts
  * - GET /api/export/dashboard - Export dashboard complet (multi-feuilles)
  */
@@ -15,7 +16,9 @@ import {
   exportAssetModels,
   exportAssetItems,
   exportStockItems,
+  exportReorderList,
   exportLoans,
+  exportDisposalRegister,
   exportDashboard,
 } from '../services/export.service.js'
 import { asyncHandler } from '../middleware/asyncHandler.js'
@@ -37,14 +40,14 @@ function sendXlsx(res, buffer, filenameBase) {
  * @access Private (ADMIN, GESTIONNAIRE)
  */
 export const exportEmployeesController = asyncHandler(async (req, res) => {
-  const { search, dept } = req.query
+  const { search, dept, departmentId, companyId } = req.query
 
   logger.info('Exporting employees', {
     userId: req.user.userId,
-    filters: { search, dept },
+    filters: { search, dept, departmentId, companyId },
   })
 
-  const buffer = await exportEmployees({ search, dept })
+  const buffer = await exportEmployees({ search, dept, departmentId, companyId })
   sendXlsx(res, buffer, 'Employes')
 })
 
@@ -96,22 +99,49 @@ export const exportStockItemsController = asyncHandler(async (req, res) => {
   sendXlsx(res, buffer, lowStock ? 'Stock_Bas' : 'Stock')
 })
 
+/**
+ * @route GET /api/export/reorder-list
+ * @access Private (ADMIN, GESTIONNAIRE)
+ */
+export const exportReorderListController = asyncHandler(async (req, res) => {
+  logger.info('Exporting reorder list', { userId: req.user.userId })
+
+  const buffer = await exportReorderList()
+  sendXlsx(res, buffer, 'Reapprovisionnement')
+})
+
 /**
  * @route GET /api/export/loans
  * @access Private (ADMIN, GESTIONNAIRE)
  */
 export const exportLoansController = asyncHandler(async (req, res) => {
-  const { status, employeeId, startDate, endDate } = req.query
+  const { status, employeeId, departmentId, companyId, startDate, endDate } = req.query
 
   logger.info('Exporting loans', {
     userId: req.user.userId,
-    filters: { status, employeeId, startDate, endDate },
+    filters: { status, employeeId, departmentId, companyId, startDate, endDate },
   })
 
-  const buffer = await exportLoans({ status, employeeId, startDate, endDate })
+  const buffer = await exportLoans({ status, employeeId, departmentId, companyId, startDate, endDate })
   sendXlsx(res, buffer, 'Prets')
 })
 
+/**
+ * @route GET /api/export/disposals
+ * @access Private (ADMIN, GESTIONNAIRE)
+ */
+export const exportDisposalRegisterController = asyncHandler(async (req, res) => {
+  const { from, to, reason } = req.query
+
+  logger.info('Exporting disposal register', {
+    userId: req.user.userId,
+    filters: { from, to, reason },
+  })
+
+  const buffer = await exportDisposalRegister({ from, to, reason })
+  sendXlsx(res, buffer, 'Registre_Sorties')
+})
+
 /**
  * @route GET /api/export/dashboard
  * @access Private (ADMIN, GESTIONNAIRE)
@@ -128,6 +158,8 @@ export default {
   exportAssetModelsController,
   exportAssetItemsController,
   exportStockItemsController,
+  exportReorderListController,
   exportLoansController,
+  exportDisposalRegisterController,
   exportDashboardController,
 }
\ No newline at end of file
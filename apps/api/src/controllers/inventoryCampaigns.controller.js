@@ -0,0 +1,105 @@
+/**
+ * Inventory campaigns controllers - HTTP handlers
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as inventoryCampaignsService from '../services/inventoryCampaigns.service.js';
+import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/inventory-campaigns
+ */
+export const getInventoryCampaigns = asyncHandler(async (req, res) => {
+  const result = await inventoryCampaignsService.getInventoryCampaigns(req.query);
+
+  res.json({
+    success: true,
+    ...result
+  });
+});
+
+/**
+ * GET /api/inventory-campaigns/:id
+ */
+export const getInventoryCampaignById = asyncHandler(async (req, res) => {
+  const campaign = await inventoryCampaignsService.getInventoryCampaignById(req.params.id);
+
+  sendSuccess(res, campaign);
+});
+
+/**
+ * GET /api/inventory-campaigns/:id/report
+ */
+export const getReconciliationReport = asyncHandler(async (req, res) => {
+  const report = await inventoryCampaignsService.getReconciliationReport(req.params.id);
+
+  sendSuccess(res, report);
+});
+
+/**
+ * POST /api/inventory-campaigns
+ */
+export const createInventoryCampaign = asyncHandler(async (req, res) => {
+  const campaign = await inventoryCampaignsService.createInventoryCampaign(req.body, req.user.userId, req);
+
+  sendCreated(res, campaign);
+});
+
+/**
+ * POST /api/inventory-campaigns/:id/asset-checks
+ */
+export const checkAssetItem = asyncHandler(async (req, res) => {
+  const check = await inventoryCampaignsService.checkAssetItem(req.params.id, req.body, req.user.userId, req);
+
+  sendSuccess(res, check);
+});
+
+/**
+ * DELETE /api/inventory-campaigns/:id/asset-checks/:assetItemId
+ */
+export const uncheckAssetItem = asyncHandler(async (req, res) => {
+  const check = await inventoryCampaignsService.uncheckAssetItem(req.params.id, req.params.assetItemId, req);
+
+  sendSuccess(res, check);
+});
+
+/**
+ * PUT /api/inventory-campaigns/:id/stock-counts/:stockItemId
+ */
+export const countStockItem = asyncHandler(async (req, res) => {
+  const count = await inventoryCampaignsService.countStockItem(
+    req.params.id,
+    req.params.stockItemId,
+    req.body.countedQuantity,
+    req.user.userId,
+    req
+  );
+
+  sendSuccess(res, count);
+});
+
+/**
+ * POST /api/inventory-campaigns/:id/close
+ */
+export const closeInventoryCampaign = asyncHandler(async (req, res) => {
+  const campaign = await inventoryCampaignsService.closeInventoryCampaign(req.params.id, req.user.userId, req);
+
+  sendSuccess(res, campaign);
+});
+
+/**
+ * POST /api/inventory-campaigns/:id/apply-stock-corrections
+ */
+export const applyStockCorrections = asyncHandler(async (req, res) => {
+  const result = await inventoryCampaignsService.applyStockCorrections(req.params.id, req.body, req);
+
+  sendSuccess(res, result);
+});
+
+/**
+ * POST /api/inventory-campaigns/:id/flag-missing
+ */
+export const flagMissingItems = asyncHandler(async (req, res) => {
+  const result = await inventoryCampaignsService.flagMissingItems(req.params.id, req.body, req);
+
+  sendSuccess(res, result);
+});
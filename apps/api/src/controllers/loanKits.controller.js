@@ -0,0 +1,51 @@
+/**
+ * Loan kits controllers - HTTP handlers
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as loanKitsService from '../services/loanKits.service.js';
+import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/loan-kits
+ */
+export const getAllLoanKits = asyncHandler(async (req, res) => {
+  const kits = await loanKitsService.getAllLoanKits();
+
+  sendSuccess(res, kits);
+});
+
+/**
+ * GET /api/loan-kits/:id
+ */
+export const getLoanKitById = asyncHandler(async (req, res) => {
+  const kit = await loanKitsService.getLoanKitById(req.params.id);
+
+  sendSuccess(res, kit);
+});
+
+/**
+ * POST /api/loan-kits
+ */
+export const createLoanKit = asyncHandler(async (req, res) => {
+  const kit = await loanKitsService.createLoanKit(req.body, req);
+
+  sendCreated(res, kit);
+});
+
+/**
+ * PATCH /api/loan-kits/:id
+ */
+export const updateLoanKit = asyncHandler(async (req, res) => {
+  const kit = await loanKitsService.updateLoanKit(req.params.id, req.body, req);
+
+  sendSuccess(res, kit);
+});
+
+/**
+ * DELETE /api/loan-kits/:id
+ */
+export const deleteLoanKit = asyncHandler(async (req, res) => {
+  const result = await loanKitsService.deleteLoanKit(req.params.id, req);
+
+  sendSuccess(res, result);
+});
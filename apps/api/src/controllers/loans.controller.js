@@ -2,10 +2,11 @@
  * @fileoverview Loans controllers - HTTP request handlers
  *
  * This module provides:
- * - Loan CRUD operations (create, read, delete)
+ * - Loan CRUD operations (create, read, update due date, delete)
  * - Loan line management (add/remove equipment from loans)
  * - Digital signature uploads (pickup and return)
  * - Loan closure workflow
+ * - "Bon de prêt" PDF receipt with both signatures
  *
  * Loan Workflow:
  * 1. Create loan (OPEN status) → POST /loans
@@ -23,6 +24,7 @@
  */
 import { asyncHandler } from '../middleware/asyncHandler.js';
 import * as loansService from '../services/loans.service.js';
+import { generateLoanReceipt } from '../services/loanReceipt.service.js';
 import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
 import { parsePaginationParams, UNPAGINATED_MAX_ITEMS } from '../utils/pagination.js';
 import logger from '../config/logger.js';
@@ -39,6 +41,9 @@ import logger from '../config/logger.js';
  * @param {Object} req.query - Query parameters
  * @param {string} [req.query.status] - Filter by loan status (OPEN, CLOSED)
  * @param {string} [req.query.employeeId] - Filter by employee ID
+ * @param {string} [req.query.departmentId] - Filter by department of the employee
+ * @param {string} [req.query.companyId] - Filter by company of the employee
+ * @param {string} [req.query.overdue] - 'true' to only return OPEN loans past their due date
  * @param {number} [req.query.page] - Page number (1-indexed, enables pagination)
  * @param {number} [req.query.pageSize] - Items per page (default: 20, max: 100)
  * @param {string} [req.query.sortBy] - Field to sort by (default: 'openedAt')
@@ -68,7 +73,8 @@ import logger from '../config/logger.js';
  * }
  */
 export const getAllLoans = asyncHandler(async (req, res) => {
-  const { status, employeeId, search, sortBy, sortOrder } = req.query;
+  const { status, employeeId, departmentId, companyId, search, sortBy, sortOrder } = req.query;
+  const overdue = req.query.overdue === 'true';
 
   // Check if pagination is requested
   const isPaginationRequested = req.query.page !== undefined || req.query.pageSize !== undefined;
@@ -80,7 +86,10 @@ export const getAllLoans = asyncHandler(async (req, res) => {
     const result = await loansService.getAllLoansPaginated({
       status,
       employeeId,
+      departmentId,
+      companyId,
       search: search?.trim(),
+      overdue,
       page,
       pageSize,
       sortBy,
@@ -97,6 +106,9 @@ export const getAllLoans = asyncHandler(async (req, res) => {
     const result = await loansService.getAllLoansPaginated({
       status,
       employeeId,
+      departmentId,
+      companyId,
+      overdue,
       page: 1,
       pageSize: UNPAGINATED_MAX_ITEMS,
       sortBy: sortBy || 'openedAt',
@@ -159,6 +171,7 @@ export const getLoanById = asyncHandler(async (req, res) => {
  *
  * @param {Object} req.body - Loan creation data
  * @param {string} req.body.employeeId - ID of employee receiving equipment
+ * @param {Date} [req.body.dueAt] - Expected return date
  * @param {Object} req.user - Authenticated user from middleware
  * @param {string} req.user.userId - ID of user creating the loan
  *
@@ -169,7 +182,8 @@ export const getLoanById = asyncHandler(async (req, res) => {
  * POST /api/loans
  * Authorization: Bearer eyJ...
  * {
- *   "employeeId": "ckx456"
+ *   "employeeId": "ckx456",
+ *   "dueAt": "2024-02-15"
  * }
  *
  * Response 201:
@@ -186,14 +200,48 @@ export const getLoanById = asyncHandler(async (req, res) => {
  * }
  */
 export const createLoan = asyncHandler(async (req, res) => {
-  const { employeeId } = req.body;
+  const { employeeId, dueAt } = req.body;
   const createdById = req.user.userId;
 
-  const loan = await loansService.createLoan(employeeId, createdById, req);
+  const loan = await loansService.createLoan(employeeId, createdById, req, { dueAt });
 
   sendCreated(res, loan);
 });
 
+/**
+ * Update a loan
+ *
+ * Route: PATCH /api/loans/:id
+ * Access: Protected (requires authentication)
+ *
+ * Updates the expected return date of an OPEN loan.
+ *
+ * @param {string} req.params.id - Loan ID
+ * @param {Object} req.body - Fields to update
+ * @param {Date|null} [req.body.dueAt] - Expected return date (null clears it)
+ *
+ * @returns {Object} 200 - Updated loan object
+ * @returns {Object} 400 - Loan closed or deleted
+ * @returns {Object} 404 - Loan not found
+ *
+ * @example
+ * PATCH /api/loans/ckx123
+ * {
+ *   "dueAt": "2024-02-15"
+ * }
+ *
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": { "id": "ckx123", "status": "OPEN", "dueAt": "2024-02-15T00:00:00.000Z", ... }
+ * }
+ */
+export const updateLoan = asyncHandler(async (req, res) => {
+  const loan = await loansService.updateLoan(req.params.id, req.body, req);
+
+  sendSuccess(res, loan);
+});
+
 /**
  * Add equipment line to loan
  *
@@ -240,6 +288,69 @@ export const addLoanLine = asyncHandler(async (req, res) => {
   sendCreated(res, loanLine);
 });
 
+/**
+ * Add all components of a loan kit to a loan
+ *
+ * Route: POST /api/loans/:id/kit
+ * Access: Protected (requires authentication)
+ *
+ * Picks the first available asset item per kit model and lends the kit's
+ * stock items. Components that cannot be satisfied are skipped and listed.
+ *
+ * @param {string} req.params.id - Loan ID
+ * @param {string} req.body.kitId - Loan kit ID
+ *
+ * @returns {Object} 201 - { loan, missing }
+ * @returns {Object} 404 - Loan or kit not found
+ * @returns {Object} 400 - Loan closed or deleted
+ *
+ * @example
+ * POST /api/loans/ckx123/kit
+ * { "kitId": "ckx555" }
+ *
+ * Response 201:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "loan": { "id": "ckx123", "lines": [...] },
+ *     "missing": [{ "kitItemId": "ckx556", "label": "Dell P2422H", "requested": 2, "added": 1 }]
+ *   }
+ * }
+ */
+export const addLoanKit = asyncHandler(async (req, res) => {
+  const result = await loansService.addLoanKit(req.params.id, req.body.kitId, req);
+
+  sendCreated(res, result);
+});
+
+/**
+ * Download the loan receipt ("bon de prêt") as PDF
+ *
+ * Route: GET /api/loans/:id/receipt
+ * Access: Protected (requires authentication)
+ *
+ * The PDF lists the employee, the lines (asset tags, serial numbers,
+ * returns) and embeds the pickup and return signature images.
+ *
+ * @param {string} req.params.id - Loan ID
+ *
+ * @returns {Buffer} 200 - application/pdf attachment
+ * @returns {Object} 404 - Loan not found
+ *
+ * @example
+ * GET /api/loans/ckx123/receipt
+ * Content-Disposition: attachment; filename="Bon_de_pret_Dupont_Jean_2026-10-19.pdf"
+ */
+export const downloadLoanReceipt = asyncHandler(async (req, res) => {
+  const { buffer, filename } = await generateLoanReceipt(req.params.id);
+
+  logger.info('Loan receipt generated', { loanId: req.params.id, userId: req.user?.userId });
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(buffer);
+});
+
 /**
  * Remove equipment line from loan
  *
@@ -265,11 +376,117 @@ export const addLoanLine = asyncHandler(async (req, res) => {
  * }
  */
 export const removeLoanLine = asyncHandler(async (req, res) => {
-  const result = await loansService.removeLoanLine(req.params.id, req.params.lineId);
+  const result = await loansService.removeLoanLine(req.params.id, req.params.lineId, req);
 
   sendSuccess(res, result);
 });
 
+/**
+ * Transfer loan lines to another employee
+ *
+ * Route: POST /api/loans/:id/transfer
+ * Access: Protected (requires authentication)
+ *
+ * Moves the selected outstanding lines to a new OPEN loan for another
+ * employee in one transaction (items stay PRETE). The new loan needs its
+ * own pickup signature. The source loan is closed when nothing is left on it.
+ *
+ * @param {string} req.params.id - Source loan ID
+ * @param {string} req.body.employeeId - Employee receiving the lines
+ * @param {string[]} req.body.lineIds - Lines to transfer
+ * @param {Date} [req.body.dueAt] - Due date of the new loan (defaults to the source loan's)
+ * @param {Object} req.user - Authenticated user from middleware
+ *
+ * @returns {Object} 201 - New loan with transferred lines
+ * @returns {Object} 400 - Loan closed, same employee or invalid lines
+ * @returns {Object} 404 - Loan or employee not found
+ *
+ * @example
+ * POST /api/loans/ckx123/transfer
+ * Body: { "employeeId": "ckx999", "lineIds": ["ckx888"] }
+ *
+ * Response 201:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "id": "ckx777",
+ *     "status": "OPEN",
+ *     "employeeId": "ckx999",
+ *     "pickupSignatureUrl": null,
+ *     "lines": [{ "id": "ckx888", "loanId": "ckx777", ... }]
+ *   }
+ * }
+ */
+export const transferLoanLines = asyncHandler(async (req, res) => {
+  const loan = await loansService.transferLoanLines(req.params.id, req.body, req.user.userId, req);
+
+  sendCreated(res, loan);
+});
+
+/**
+ * Return a single equipment line (partial return)
+ *
+ * Route: PATCH /api/loans/:id/lines/:lineId/return
+ * Access: Protected (requires authentication)
+ *
+ * Marks the line as returned (returnedAt) and releases only that item.
+ * The line stays on the loan for history. The loan is closed automatically
+ * when its last line is returned.
+ *
+ * @param {string} req.params.id - Loan ID
+ * @param {string} req.params.lineId - Loan line ID being returned
+ * @param {string} [req.body.condition] - Return inspection: OK, DAMAGED or MISSING (asset lines)
+ * @param {string} [req.body.note] - Inspection note
+ *
+ * @returns {Object} 200 - Updated loan with all lines
+ * @returns {Object} 400 - Loan closed or line already returned
+ * @returns {Object} 404 - Loan or line not found
+ *
+ * @example
+ * PATCH /api/loans/ckx123/lines/ckx888/return
+ * Body: { "condition": "DAMAGED", "note": "Connecteur cassé" }
+ *
+ * Response 200:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "id": "ckx123",
+ *     "status": "OPEN",
+ *     "lines": [{ "id": "ckx888", "returnedAt": "2026-10-19T09:00:00.000Z", ... }]
+ *   }
+ * }
+ */
+export const returnLoanLine = asyncHandler(async (req, res) => {
+  const loan = await loansService.returnLoanLine(req.params.id, req.params.lineId, req, req.body);
+
+  sendSuccess(res, loan);
+});
+
+/**
+ * Write off an outstanding line (lost or stolen)
+ *
+ * Route: PATCH /api/loans/:id/lines/:lineId/write-off
+ * Access: Protected (requires authentication)
+ *
+ * Closes the line as MISSING and removes the item from the fleet: the asset
+ * item is retired, the stock units are written off. The loan is closed
+ * automatically when its last line is settled.
+ *
+ * @param {string} req.params.id - Loan ID
+ * @param {string} req.params.lineId - Loan line ID
+ * @param {string} [req.body.reason] - PERTE (default) or VOL
+ * @param {string} [req.body.note] - Circumstances
+ *
+ * @returns {Object} 200 - Updated loan with all lines
+ * @returns {Object} 400 - Loan closed or line already returned
+ * @returns {Object} 404 - Loan or line not found
+ */
+export const writeOffLoanLine = asyncHandler(async (req, res) => {
+  const loan = await loansService.writeOffLoanLine(req.params.id, req.params.lineId, req.body, req);
+
+  sendSuccess(res, loan);
+});
+
 /**
  * Upload pickup signature for loan
  *
@@ -370,10 +587,12 @@ export const uploadReturnSignature = asyncHandler(async (req, res) => {
  * Route: PATCH /api/loans/:id/close
  * Access: Protected (requires authentication)
  *
- * Closes the loan and returns all borrowed assets to EN_STOCK status.
+ * Closes the loan and returns all borrowed assets to EN_STOCK status,
+ * or to REPARATION / HS when the return inspection reports them damaged / missing.
  * Requires both pickup AND return signatures to be present.
  *
  * @param {string} req.params.id - Loan ID
+ * @param {Array} [req.body.inspections] - Return checklist: [{ lineId, condition, note }]
  *
  * @returns {Object} 200 - Updated loan with CLOSED status
  * @returns {Object} 400 - Missing signatures
@@ -381,6 +600,7 @@ export const uploadReturnSignature = asyncHandler(async (req, res) => {
  *
  * @example
  * PATCH /api/loans/ckx123/close
+ * Body: { "inspections": [{ "lineId": "ckx888", "condition": "DAMAGED", "note": "Écran fissuré" }] }
  *
  * Response 200:
  * {
@@ -396,7 +616,7 @@ export const uploadReturnSignature = asyncHandler(async (req, res) => {
  * }
  */
 export const closeLoan = asyncHandler(async (req, res) => {
-  const loan = await loansService.closeLoan(req.params.id, req);
+  const loan = await loansService.closeLoan(req.params.id, req, req.body.inspections);
 
   sendSuccess(res, loan);
 });
@@ -466,6 +686,87 @@ export const batchDeleteLoans = asyncHandler(async (req, res) => {
   sendSuccess(res, result);
 });
 
+/**
+ * Get soft-deleted loans (ADMIN only)
+ *
+ * Route: GET /api/loans/trash
+ * Access: ADMIN only
+ *
+ * @param {string} [req.query.search] - Employee name or email
+ * @param {number} [req.query.page] - Page number (default: 1)
+ * @param {number} [req.query.pageSize] - Items per page (default: 20, max: 100)
+ *
+ * @returns {Object} 200 - Paginated deleted loans, each with deletedBy and purgeAt
+ */
+export const getDeletedLoans = asyncHandler(async (req, res) => {
+  const { page, pageSize } = parsePaginationParams(req.query);
+
+  const result = await loansService.getDeletedLoans({
+    search: req.query.search?.trim(),
+    page,
+    pageSize
+  });
+
+  res.json({
+    success: true,
+    ...result
+  });
+});
+
+/**
+ * Restore a soft-deleted loan (ADMIN only)
+ *
+ * Route: POST /api/loans/trash/:id/restore
+ * Access: ADMIN only
+ *
+ * Assets go back to PRETE and stock loaned counters are re-applied for
+ * the lines not yet returned.
+ *
+ * @param {string} req.params.id - Loan ID
+ *
+ * @returns {Object} 200 - Restored loan
+ * @throws {400} If the loan is not in the trash
+ * @throws {404} If loan not found
+ * @throws {409} If some items were lent elsewhere since the deletion
+ */
+export const restoreLoan = asyncHandler(async (req, res) => {
+  const loan = await loansService.restoreLoan(req.params.id, req);
+
+  sendSuccess(res, loan);
+});
+
+/**
+ * Permanently delete a loan from the trash (ADMIN only)
+ *
+ * Route: DELETE /api/loans/trash/:id
+ * Access: ADMIN only
+ *
+ * @param {string} req.params.id - Loan ID
+ *
+ * @returns {Object} 200 - Success message
+ * @throws {400} If the loan is not in the trash
+ * @throws {404} If loan not found
+ */
+export const purgeLoan = asyncHandler(async (req, res) => {
+  const result = await loansService.purgeLoan(req.params.id, req);
+
+  sendSuccess(res, result);
+});
+
+/**
+ * Purge loans kept in the trash longer than the retention (ADMIN only)
+ *
+ * Route: POST /api/loans/trash/purge
+ * Access: ADMIN only
+ *
+ * @returns {Object} 200 - { purgedCount, retentionDays }
+ */
+export const purgeExpiredLoans = asyncHandler(async (req, res) => {
+  const result = await loansService.purgeExpiredLoans(req);
+
+  sendSuccess(res, result);
+});
+
 /**
  * Delete pickup signature (ADMIN only)
  *
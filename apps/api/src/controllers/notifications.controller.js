@@ -0,0 +1,45 @@
+/**
+ * Notifications controllers - HTTP handlers
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as notificationsService from '../services/notifications.service.js';
+import { sendSuccess } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/notifications/settings
+ */
+export const getNotificationSettings = asyncHandler(async (req, res) => {
+  const settings = await notificationsService.getNotificationSettings(req.user.userId);
+
+  sendSuccess(res, settings);
+});
+
+/**
+ * PUT /api/notifications/settings
+ */
+export const updateNotificationSettings = asyncHandler(async (req, res) => {
+  const settings = await notificationsService.updateNotificationSettings(req.user.userId, req.body);
+
+  sendSuccess(res, settings);
+});
+
+/**
+ * GET /api/notifications/logs
+ */
+export const getNotificationLogs = asyncHandler(async (req, res) => {
+  const result = await notificationsService.getNotificationLogs(req.query);
+
+  res.json({
+    success: true,
+    ...result
+  });
+});
+
+/**
+ * POST /api/notifications/overdue-reminders
+ */
+export const sendOverdueReminders = asyncHandler(async (req, res) => {
+  const result = await notificationsService.sendOverdueReminders();
+
+  sendSuccess(res, result);
+});
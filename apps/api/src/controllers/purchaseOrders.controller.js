@@ -0,0 +1,72 @@
+/**
+ * Purchase orders controllers - HTTP handlers
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as purchaseOrdersService from '../services/purchaseOrders.service.js';
+import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/purchase-orders
+ */
+export const getPurchaseOrders = asyncHandler(async (req, res) => {
+  const result = await purchaseOrdersService.getPurchaseOrders(req.query);
+
+  res.json({
+    success: true,
+    ...result
+  });
+});
+
+/**
+ * GET /api/purchase-orders/:id
+ */
+export const getPurchaseOrderById = asyncHandler(async (req, res) => {
+  const order = await purchaseOrdersService.getPurchaseOrderById(req.params.id);
+
+  sendSuccess(res, order);
+});
+
+/**
+ * POST /api/purchase-orders
+ */
+export const createPurchaseOrder = asyncHandler(async (req, res) => {
+  const order = await purchaseOrdersService.createPurchaseOrder(req.body, req.user.userId, req);
+
+  sendCreated(res, order);
+});
+
+/**
+ * PATCH /api/purchase-orders/:id
+ */
+export const updatePurchaseOrder = asyncHandler(async (req, res) => {
+  const order = await purchaseOrdersService.updatePurchaseOrder(req.params.id, req.body, req);
+
+  sendSuccess(res, order);
+});
+
+/**
+ * POST /api/purchase-orders/:id/place
+ */
+export const placePurchaseOrder = asyncHandler(async (req, res) => {
+  const order = await purchaseOrdersService.placePurchaseOrder(req.params.id, req);
+
+  sendSuccess(res, order);
+});
+
+/**
+ * POST /api/purchase-orders/:id/receptions
+ */
+export const receivePurchaseOrder = asyncHandler(async (req, res) => {
+  const result = await purchaseOrdersService.receivePurchaseOrder(req.params.id, req.body, req);
+
+  sendCreated(res, result);
+});
+
+/**
+ * DELETE /api/purchase-orders/:id
+ */
+export const deletePurchaseOrder = asyncHandler(async (req, res) => {
+  const order = await purchaseOrdersService.deletePurchaseOrder(req.params.id, req);
+
+  sendSuccess(res, order);
+});
@@ -0,0 +1,57 @@
+/**
+ * Repair tickets controllers - HTTP handlers
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as repairTicketsService from '../services/repairTickets.service.js';
+import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/repair-tickets
+ */
+export const getRepairTickets = asyncHandler(async (req, res) => {
+  const result = await repairTicketsService.getRepairTickets({
+    ...req.query,
+    open: req.query.open === 'true'
+  });
+
+  res.json({
+    success: true,
+    ...result
+  });
+});
+
+/**
+ * GET /api/repair-tickets/:id
+ */
+export const getRepairTicketById = asyncHandler(async (req, res) => {
+  const ticket = await repairTicketsService.getRepairTicketById(req.params.id);
+
+  sendSuccess(res, ticket);
+});
+
+/**
+ * POST /api/repair-tickets
+ */
+export const createRepairTicket = asyncHandler(async (req, res) => {
+  const ticket = await repairTicketsService.createRepairTicket(req.body, req.user.userId, req);
+
+  sendCreated(res, ticket);
+});
+
+/**
+ * PATCH /api/repair-tickets/:id
+ */
+export const updateRepairTicket = asyncHandler(async (req, res) => {
+  const ticket = await repairTicketsService.updateRepairTicket(req.params.id, req.body, req);
+
+  sendSuccess(res, ticket);
+});
+
+/**
+ * POST /api/repair-tickets/:id/close
+ */
+export const closeRepairTicket = asyncHandler(async (req, res) => {
+  const ticket = await repairTicketsService.closeRepairTicket(req.params.id, req.body, req.user.userId, req);
+
+  sendSuccess(res, ticket);
+});
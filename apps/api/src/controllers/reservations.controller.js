@@ -0,0 +1,60 @@
+/**
+ * Reservations controllers - HTTP handlers
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as reservationsService from '../services/reservations.service.js';
+import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/reservations
+ */
+export const getAllReservations = asyncHandler(async (req, res) => {
+  const reservations = await reservationsService.getAllReservations(req.query);
+
+  sendSuccess(res, reservations);
+});
+
+/**
+ * GET /api/reservations/:id
+ */
+export const getReservationById = asyncHandler(async (req, res) => {
+  const reservation = await reservationsService.getReservationById(req.params.id);
+
+  sendSuccess(res, reservation);
+});
+
+/**
+ * POST /api/reservations
+ */
+export const createReservation = asyncHandler(async (req, res) => {
+  const reservation = await reservationsService.createReservation(req.body, req.user.userId, req);
+
+  sendCreated(res, reservation);
+});
+
+/**
+ * PATCH /api/reservations/:id
+ */
+export const updateReservation = asyncHandler(async (req, res) => {
+  const reservation = await reservationsService.updateReservation(req.params.id, req.body, req);
+
+  sendSuccess(res, reservation);
+});
+
+/**
+ * PATCH /api/reservations/:id/cancel
+ */
+export const cancelReservation = asyncHandler(async (req, res) => {
+  const reservation = await reservationsService.cancelReservation(req.params.id, req);
+
+  sendSuccess(res, reservation);
+});
+
+/**
+ * POST /api/reservations/:id/convert
+ */
+export const convertReservationToLoan = asyncHandler(async (req, res) => {
+  const loan = await reservationsService.convertReservationToLoan(req.params.id, req.user.userId, req);
+
+  sendCreated(res, loan);
+});
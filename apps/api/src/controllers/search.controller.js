@@ -79,6 +79,21 @@ export const autocompleteAssetItems = asyncHandler(async (req, res) => {
   sendSuccess(res, results);
 });
 
+/**
+ * Resolve a scanned barcode / QR code to an asset item
+ *
+ * @route GET /api/search/resolve/asset-item
+ * @access Private
+ * @param {string} code - Asset tag or serial number (exact match)
+ *
+ * @example
+ * GET /api/search/resolve/asset-item?code=LAP-001
+ */
+export const resolveAssetItem = asyncHandler(async (req, res) => {
+  const item = await searchService.resolveAssetItemCode(req.query.code);
+  sendSuccess(res, item);
+});
+
 /**
  * Autocomplete asset models
  *
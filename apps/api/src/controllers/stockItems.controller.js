@@ -3,6 +3,7 @@
  */
 import { asyncHandler } from '../middleware/asyncHandler.js';
 import * as stockItemsService from '../services/stockItems.service.js';
+import * as stockMovementsService from '../services/stockMovements.service.js';
 import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
 
 /**
@@ -45,9 +46,9 @@ export const updateStockItem = asyncHandler(async (req, res) => {
  * PATCH /api/stock-items/:id/quantity
  */
 export const adjustQuantity = asyncHandler(async (req, res) => {
-  const { quantity } = req.body;
+  const { quantity, type, reason } = req.body;
 
-  const stockItem = await stockItemsService.adjustStockQuantity(req.params.id, quantity, req);
+  const stockItem = await stockItemsService.adjustStockQuantity(req.params.id, quantity, req, { type, reason });
 
   sendSuccess(res, stockItem);
 });
@@ -60,3 +61,42 @@ export const deleteStockItem = asyncHandler(async (req, res) => {
 
   sendSuccess(res, result);
 });
+
+/**
+ * GET /api/stock-items/:id/movements
+ */
+export const getStockMovements = asyncHandler(async (req, res) => {
+  const result = await stockMovementsService.getStockMovements(req.params.id, req.query);
+
+  res.json({
+    success: true,
+    ...result
+  });
+});
+
+/**
+ * GET /api/stock-items/:id/ledger-check
+ */
+export const getStockLedgerCheck = asyncHandler(async (req, res) => {
+  const check = await stockMovementsService.getStockLedgerCheck(req.params.id);
+
+  sendSuccess(res, check);
+});
+
+/**
+ * GET /api/stock-items/ledger-drift
+ */
+export const getStockLedgerDrifts = asyncHandler(async (req, res) => {
+  const drifts = await stockMovementsService.getStockLedgerDrifts();
+
+  sendSuccess(res, drifts);
+});
+
+/**
+ * GET /api/stock-items/reorder-list
+ */
+export const getReorderList = asyncHandler(async (req, res) => {
+  const groups = await stockItemsService.getReorderList();
+
+  sendSuccess(res, groups);
+});
@@ -0,0 +1,51 @@
+/**
+ * Suppliers controllers - HTTP handlers
+ */
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import * as suppliersService from '../services/suppliers.service.js';
+import { sendSuccess, sendCreated } from '../utils/responseHelpers.js';
+
+/**
+ * GET /api/suppliers
+ */
+export const getAllSuppliers = asyncHandler(async (req, res) => {
+  const suppliers = await suppliersService.getAllSuppliers({ search: req.query.search });
+
+  sendSuccess(res, suppliers);
+});
+
+/**
+ * GET /api/suppliers/:id
+ */
+export const getSupplierById = asyncHandler(async (req, res) => {
+  const supplier = await suppliersService.getSupplierById(req.params.id);
+
+  sendSuccess(res, supplier);
+});
+
+/**
+ * POST /api/suppliers
+ */
+export const createSupplier = asyncHandler(async (req, res) => {
+  const supplier = await suppliersService.createSupplier(req.body, req);
+
+  sendCreated(res, supplier);
+});
+
+/**
+ * PATCH /api/suppliers/:id
+ */
+export const updateSupplier = asyncHandler(async (req, res) => {
+  const supplier = await suppliersService.updateSupplier(req.params.id, req.body, req);
+
+  sendSuccess(res, supplier);
+});
+
+/**
+ * DELETE /api/suppliers/:id
+ */
+export const deleteSupplier = asyncHandler(async (req, res) => {
+  const result = await suppliersService.deleteSupplier(req.params.id, req);
+
+  sendSuccess(res, result);
+});
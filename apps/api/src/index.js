@@ -11,6 +11,7 @@ import app from './app.js';
 import prisma from './config/database.js';
 import logger from './config/logger.js';
 import { getRedisClient } from './services/cache.service.js';
+import { startScheduler, stopScheduler } from './services/scheduler.service.js';
 
 initializeSentry();
 
@@ -60,6 +61,8 @@ async function gracefulShutdown(signal) {
       logger.info('HTTP server closed');
     }
 
+    await stopScheduler();
+
     try {
       const redis = getRedisClient();
       if (redis && redis.status !== 'end') {
@@ -97,6 +100,7 @@ async function startServer() {
         corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:8080',
         port: PORT,
       });
+      startScheduler();
     });
 
     process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
@@ -10,17 +10,24 @@ import {
   previewBulkCreation,
   updateAssetItem,
   updateAssetItemStatus,
-  deleteAssetItem
+  retireAssetItem,
+  deleteAssetItem,
+  getExpiringWarranties,
+  getLabelFormats,
+  generateAssetLabels
 } from '../controllers/assetItems.controller.js';
 import { requireAuth } from '../middleware/auth.js';
 import { requireManager } from '../middleware/rbac.js';
-import { validate } from '../middleware/validateRequest.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
 import {
   createAssetItemSchema,
   createAssetItemsBulkSchema,
   bulkPreviewSchema,
   updateAssetItemSchema,
-  updateStatusSchema
+  updateStatusSchema,
+  retireAssetItemSchema,
+  expiringWarrantiesQuerySchema,
+  generateLabelsSchema
 } from '../validators/assetItems.validator.js';
 
 const router = express.Router();
@@ -28,7 +35,7 @@ const router = express.Router();
 // All asset item routes require authentication and ADMIN or GESTIONNAIRE role
 router.use(requireAuth, requireManager);
 
-// Bulk routes - MUST be before GET /:id to avoid "bulk" being interpreted as an ID
+// Bulk, warranty and label routes - MUST be before GET /:id to avoid "bulk" being interpreted as an ID
 /**
  * @swagger
  * /api/asset-items/bulk/preview:
@@ -113,6 +120,23 @@ router.get('/bulk/preview', validate(bulkPreviewSchema, 'query'), previewBulkCre
  *                   type: string
  *                 example: ["SN123", "SN124", "SN125"]
  *                 description: Numéros de série (optionnel)
+ *               supplierId:
+ *                 type: string
+ *                 description: ID du fournisseur commun à tout le lot
+ *               invoiceNumber:
+ *                 type: string
+ *                 example: FA-2025-0042
+ *               purchaseDate:
+ *                 type: string
+ *                 format: date
+ *               purchasePriceCents:
+ *                 type: integer
+ *                 example: 89900
+ *                 description: Prix d'achat unitaire en centimes
+ *               warrantyEndsAt:
+ *                 type: string
+ *                 format: date
+ *                 description: Fin de garantie (postérieure à la date d'achat)
  *     responses:
  *       201:
  *         description: Articles créés avec succès
@@ -140,6 +164,149 @@ router.get('/bulk/preview', validate(bulkPreviewSchema, 'query'), previewBulkCre
  */
 router.post('/bulk', validate(createAssetItemsBulkSchema), createAssetItemsBulk);
 
+/**
+ * @swagger
+ * /api/asset-items/warranties/expiring:
+ *   get:
+ *     summary: Obtenir les articles dont la garantie expire bientôt
+ *     tags: [Asset Items]
+ *     description: |
+ *       Articles dont la fin de garantie tombe dans les `days` prochains jours,
+ *       triés par date de fin de garantie (la plus proche d'abord).
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *           default: 30
+ *         description: Fenêtre en jours à partir d'aujourd'hui
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Liste paginée des articles (avec modèle et fournisseur)
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/warranties/expiring', validateQuery(expiringWarrantiesQuerySchema), getExpiringWarranties);
+
+/**
+ * @swagger
+ * /api/asset-items/labels/formats:
+ *   get:
+ *     summary: Lister les formats de planches d'étiquettes
+ *     tags: [Asset Items]
+ *     description: Formats standards (grilles Avery) avec leurs dimensions en millimètres.
+ *     responses:
+ *       200:
+ *         description: Liste des formats (clé, nom, format de page, colonnes, lignes, dimensions, marges, espacements)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/labels/formats', getLabelFormats);
+
+/**
+ * @swagger
+ * /api/asset-items/labels:
+ *   post:
+ *     summary: Générer une planche d'étiquettes (PDF)
+ *     tags: [Asset Items]
+ *     description: |
+ *       Génère un PDF prêt à imprimer avec une étiquette par article : QR code
+ *       (lien vers l'article dans l'application), code-barres Code 128 du tag,
+ *       tag, modèle et numéro de série. Les étiquettes suivent l'ordre de `ids`.
+ *       Les dimensions du format peuvent être ajustées via `layout` (en mm).
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ids
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 500
+ *                 items:
+ *                   type: string
+ *                 example: ["clx1a2b3c4d5e6f7g8h9i0j1k", "clx1a2b3c4d5e6f7g8h9i0j1l"]
+ *               format:
+ *                 type: string
+ *                 enum: [AVERY_L7160, AVERY_L7163, AVERY_L7651, AVERY_5160]
+ *                 default: AVERY_L7160
+ *               layout:
+ *                 type: object
+ *                 description: Ajustements du format (millimètres)
+ *                 properties:
+ *                   columns:
+ *                     type: integer
+ *                   rows:
+ *                     type: integer
+ *                   labelWidth:
+ *                     type: number
+ *                   labelHeight:
+ *                     type: number
+ *                   marginTop:
+ *                     type: number
+ *                   marginLeft:
+ *                     type: number
+ *                   gapX:
+ *                     type: number
+ *                   gapY:
+ *                     type: number
+ *               codeType:
+ *                 type: string
+ *                 enum: [BOTH, QRCODE, CODE128]
+ *                 default: BOTH
+ *               startPosition:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 1
+ *                 description: Première position libre sur la première planche (planche entamée)
+ *               borders:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Tracer le contour des étiquettes (test d'alignement)
+ *     responses:
+ *       200:
+ *         description: Fichier PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Données invalides, étiquettes hors de la page ou position de départ hors planche
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/labels', validate(generateLabelsSchema), generateAssetLabels);
+
 // Standard CRUD routes
 /**
  * @swagger
@@ -173,8 +340,8 @@ router.post('/bulk', validate(createAssetItemsBulkSchema), createAssetItemsBulk)
  *         name: status
  *         schema:
  *           type: string
- *           enum: [EN_STOCK, PRETE, HS, REPARATION]
- *         description: Filtrer par statut
+ *           enum: [EN_STOCK, PRETE, HS, REPARATION, REFORME]
+ *         description: Filtrer par statut (les articles réformés sont exclus par défaut, sauf recherche)
  *       - in: query
  *         name: assetModelId
  *         schema:
@@ -216,7 +383,7 @@ router.post('/bulk', validate(createAssetItemsBulkSchema), createAssetItemsBulk)
  *                         example: SN123456789
  *                       status:
  *                         type: string
- *                         enum: [EN_STOCK, PRETE, HS, REPARATION]
+ *                         enum: [EN_STOCK, PRETE, HS, REPARATION, REFORME]
  *                         example: EN_STOCK
  *                       assetModel:
  *                         type: object
@@ -263,7 +430,7 @@ router.get('/', getAllAssetItems);
  *                   type: string
  *                 status:
  *                   type: string
- *                   enum: [EN_STOCK, PRETE, HS, REPARATION]
+ *                   enum: [EN_STOCK, PRETE, HS, REPARATION, REFORME]
  *                 assetModel:
  *                   type: object
  *                   description: Modèle complet
@@ -310,6 +477,23 @@ router.get('/:id', getAssetItemById);
  *                 enum: [EN_STOCK, PRETE, HS, REPARATION]
  *                 default: EN_STOCK
  *                 example: EN_STOCK
+ *               supplierId:
+ *                 type: string
+ *                 description: ID du fournisseur (optionnel)
+ *               invoiceNumber:
+ *                 type: string
+ *                 example: FA-2025-0042
+ *               purchaseDate:
+ *                 type: string
+ *                 format: date
+ *               purchasePriceCents:
+ *                 type: integer
+ *                 example: 89900
+ *                 description: Prix d'achat en centimes
+ *               warrantyEndsAt:
+ *                 type: string
+ *                 format: date
+ *                 description: Fin de garantie (postérieure à la date d'achat)
  *     responses:
  *       201:
  *         description: Article créé avec succès
@@ -454,13 +638,73 @@ router.patch('/:id', validate(updateAssetItemSchema), updateAssetItem);
  */
 router.patch('/:id/status', validate(updateStatusSchema), updateAssetItemStatus);
 
+/**
+ * @swagger
+ * /api/asset-items/{id}/retire:
+ *   post:
+ *     summary: Réformer un article
+ *     tags: [Asset Items]
+ *     description: |
+ *       Sortie définitive de l'équipement du parc (statut REFORME, terminal).
+ *       L'article et son historique de prêts sont conservés mais il n'apparaît
+ *       plus dans les listes par défaut ni dans les sélecteurs.
+ *       Les réservations actives de l'article sont annulées.
+ *       L'effacement des données doit être confirmé pour un recyclage ou un don.
+ *       Refusé si l'article est prêté ou en réparation.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'article (CUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *               - disposedAt
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [RECYCLAGE, DON, VOL, PERTE]
+ *                 example: RECYCLAGE
+ *               disposedAt:
+ *                 type: string
+ *                 format: date
+ *                 example: "2026-10-15"
+ *               certificateRef:
+ *                 type: string
+ *                 example: "CERT-2026-0142"
+ *               dataWipeConfirmed:
+ *                 type: boolean
+ *                 example: true
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Article réformé avec les informations de sortie
+ *       400:
+ *         description: Données invalides, article déjà réformé, prêté ou en réparation
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/retire', validate(retireAssetItemSchema), retireAssetItem);
+
 /**
  * @swagger
  * /api/asset-items/{id}:
  *   delete:
  *     summary: Supprimer un article
  *     tags: [Asset Items]
- *     description: Suppression d'un article (attention aux prêts en cours)
+ *     description: Suppression d'un article jamais prêté (sinon le réformer)
  *     parameters:
  *       - in: path
  *         name: id
@@ -482,7 +726,7 @@ router.patch('/:id/status', validate(updateStatusSchema), updateAssetItemStatus)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       400:
- *         description: Impossible de supprimer (prêts en cours)
+ *         description: Impossible de supprimer (article présent dans l'historique des prêts)
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
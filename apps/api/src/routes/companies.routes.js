@@ -0,0 +1,160 @@
+/**
+ * Companies routes
+ *
+ * GET, POST and PATCH routes: ADMIN and GESTIONNAIRE
+ * DELETE route: ADMIN only
+ */
+import express from 'express';
+import { getAllCompanies, getCompanyById, createCompany, updateCompany, deleteCompany } from '../controllers/companies.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager, requireAdmin } from '../middleware/rbac.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import { createCompanySchema, updateCompanySchema, listCompaniesQuerySchema } from '../validators/companies.validator.js';
+
+const router = express.Router();
+
+// All company routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/companies:
+ *   get:
+ *     summary: Obtenir la liste des sociétés
+ *     tags: [Companies]
+ *     description: Retourne les sociétés triées par nom, avec le nombre de départements de chacune.
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Recherche dans le nom
+ *     responses:
+ *       200:
+ *         description: Liste des sociétés
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', validateQuery(listCompaniesQuerySchema), getAllCompanies);
+
+/**
+ * @swagger
+ * /api/companies/{id}:
+ *   get:
+ *     summary: Obtenir le détail d'une société
+ *     tags: [Companies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la société (CUID)
+ *     responses:
+ *       200:
+ *         description: Détail de la société
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id', getCompanyById);
+
+/**
+ * @swagger
+ * /api/companies:
+ *   post:
+ *     summary: Créer une société
+ *     tags: [Companies]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Groupe Tilly
+ *     responses:
+ *       201:
+ *         description: Société créée
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       409:
+ *         description: Une société avec ce nom existe déjà
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/', validate(createCompanySchema), createCompany);
+
+/**
+ * @swagger
+ * /api/companies/{id}:
+ *   patch:
+ *     summary: Renommer une société
+ *     tags: [Companies]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la société (CUID)
+ *     responses:
+ *       200:
+ *         description: Société modifiée
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Une société avec ce nom existe déjà
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id', validate(updateCompanySchema), updateCompany);
+
+/**
+ * @swagger
+ * /api/companies/{id}:
+ *   delete:
+ *     summary: Supprimer une société
+ *     tags: [Companies]
+ *     description: |
+ *       Refusé tant que des départements appartiennent à cette société.
+ *       **Réservé aux ADMIN uniquement.**
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la société (CUID)
+ *     responses:
+ *       200:
+ *         description: Société supprimée
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.delete('/:id', requireAdmin, deleteCompany);
+
+export default router;
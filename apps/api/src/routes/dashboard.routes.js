@@ -6,7 +6,7 @@
 import express from 'express';
 import * as dashboardController from '../controllers/dashboard.controller.js';
 import { requireAuth } from '../middleware/auth.js';
-import { requireRole } from '../middleware/rbac.js';
+import { requireRole, requireManager } from '../middleware/rbac.js';
 
 const router = express.Router();
 
@@ -94,6 +94,88 @@ router.use(requireAuth);
  */
 router.get('/stats', dashboardController.getStats);
 
+/**
+ * @swagger
+ * /api/dashboard/valuation:
+ *   get:
+ *     summary: Obtenir la valorisation du parc
+ *     tags: [Dashboard]
+ *     description: |
+ *       Valeur comptable des équipements ayant un prix d'achat, amortis
+ *       linéairement sur la durée définie par leur type d'équipement.
+ *       Regroupée par type et par département de l'employé détenteur, avec
+ *       sa société (departmentId null pour les équipements non prêtés).
+ *       Montants en centimes. Réservé aux ADMIN et GESTIONNAIRE.
+ *     responses:
+ *       200:
+ *         description: Rapport de valorisation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 valuedAt:
+ *                   type: string
+ *                   format: date-time
+ *                 totals:
+ *                   type: object
+ *                   properties:
+ *                     itemCount:
+ *                       type: integer
+ *                       example: 312
+ *                     purchaseValueCents:
+ *                       type: integer
+ *                       example: 28450000
+ *                     currentValueCents:
+ *                       type: integer
+ *                       example: 11930000
+ *                 byType:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       type:
+ *                         type: string
+ *                         example: Ordinateur portable
+ *                       depreciationYears:
+ *                         type: integer
+ *                         nullable: true
+ *                         example: 3
+ *                       itemCount:
+ *                         type: integer
+ *                       purchaseValueCents:
+ *                         type: integer
+ *                       currentValueCents:
+ *                         type: integer
+ *                 byDepartment:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       departmentId:
+ *                         type: string
+ *                         nullable: true
+ *                       department:
+ *                         type: string
+ *                         nullable: true
+ *                         example: Comptabilité
+ *                       company:
+ *                         type: string
+ *                         nullable: true
+ *                         example: Acme Metz
+ *                       itemCount:
+ *                         type: integer
+ *                       purchaseValueCents:
+ *                         type: integer
+ *                       currentValueCents:
+ *                         type: integer
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/valuation', requireManager, dashboardController.getValuation);
+
 /**
  * @swagger
  * /api/dashboard/refresh:
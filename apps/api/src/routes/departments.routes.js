@@ -0,0 +1,248 @@
+/**
+ * Departments routes
+ *
+ * GET, POST and PATCH routes: ADMIN and GESTIONNAIRE
+ * Merge and DELETE routes: ADMIN only
+ */
+import express from 'express';
+import {
+  getAllDepartments,
+  getDuplicateDepartments,
+  getDepartmentById,
+  createDepartment,
+  updateDepartment,
+  mergeDepartments,
+  deleteDepartment
+} from '../controllers/departments.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager, requireAdmin } from '../middleware/rbac.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import {
+  createDepartmentSchema,
+  updateDepartmentSchema,
+  listDepartmentsQuerySchema,
+  mergeDepartmentsSchema
+} from '../validators/departments.validator.js';
+
+const router = express.Router();
+
+// All department routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/departments:
+ *   get:
+ *     summary: Obtenir la liste des départements
+ *     tags: [Departments]
+ *     description: Retourne les départements triés par nom, avec leur société et le nombre d'employés rattachés.
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Recherche dans le nom
+ *       - in: query
+ *         name: companyId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par société
+ *     responses:
+ *       200:
+ *         description: Liste des départements
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', validateQuery(listDepartmentsQuerySchema), getAllDepartments);
+
+/**
+ * @swagger
+ * /api/departments/duplicates:
+ *   get:
+ *     summary: Détecter les départements en doublon
+ *     tags: [Departments]
+ *     description: |
+ *       Regroupe les départements d'une même société dont les noms ne diffèrent que par la casse,
+ *       les accents, la ponctuation ou une faute de frappe. Le département comptant le plus
+ *       d'employés est proposé comme cible de fusion.
+ *     responses:
+ *       200:
+ *         description: Groupes de doublons probables
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/duplicates', getDuplicateDepartments);
+
+/**
+ * @swagger
+ * /api/departments/{id}:
+ *   get:
+ *     summary: Obtenir le détail d'un département
+ *     tags: [Departments]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du département (CUID)
+ *     responses:
+ *       200:
+ *         description: Détail du département
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id', getDepartmentById);
+
+/**
+ * @swagger
+ * /api/departments:
+ *   post:
+ *     summary: Créer un département
+ *     tags: [Departments]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Woippy
+ *               companyId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: Département créé
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Un département avec ce nom existe déjà pour cette société
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/', validate(createDepartmentSchema), createDepartment);
+
+/**
+ * @swagger
+ * /api/departments/{id}:
+ *   patch:
+ *     summary: Modifier un département
+ *     tags: [Departments]
+ *     description: Un renommage est répercuté sur les employés rattachés.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du département (CUID)
+ *     responses:
+ *       200:
+ *         description: Département modifié
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Un département avec ce nom existe déjà pour cette société
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id', validate(updateDepartmentSchema), updateDepartment);
+
+/**
+ * @swagger
+ * /api/departments/{id}/merge:
+ *   post:
+ *     summary: Fusionner des départements dans celui-ci
+ *     tags: [Departments]
+ *     description: |
+ *       Les employés des départements sources sont rattachés au département cible,
+ *       puis les sources sont supprimées.
+ *       **Réservé aux ADMIN uniquement.**
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du département conservé (CUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sourceIds
+ *             properties:
+ *               sourceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Départements fusionnés
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/merge', requireAdmin, validate(mergeDepartmentsSchema), mergeDepartments);
+
+/**
+ * @swagger
+ * /api/departments/{id}:
+ *   delete:
+ *     summary: Supprimer un département
+ *     tags: [Departments]
+ *     description: |
+ *       Refusé tant que des employés y sont rattachés (fusionner plutôt).
+ *       **Réservé aux ADMIN uniquement.**
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du département (CUID)
+ *     responses:
+ *       200:
+ *         description: Département supprimé
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.delete('/:id', requireAdmin, deleteDepartment);
+
+export default router;
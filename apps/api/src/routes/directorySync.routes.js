@@ -0,0 +1,64 @@
+/**
+ * Directory sync routes - ADMIN and GESTIONNAIRE (company directory synchronization)
+ */
+import express from 'express';
+import { getDirectorySync, runDirectorySync } from '../controllers/directorySync.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager } from '../middleware/rbac.js';
+
+const router = express.Router();
+
+// All directory sync routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/directory-sync:
+ *   get:
+ *     summary: Configuration et dernières synchronisations avec l'annuaire
+ *     tags: [Directory Sync]
+ *     description: |
+ *       Paramètres LDAP (sans le mot de passe), correspondance des attributs,
+ *       planification et historique des dernières exécutions.
+ *       La synchronisation est désactivée tant que LDAP_URL n'est pas défini.
+ *     responses:
+ *       200:
+ *         description: |
+ *           configured, url, bindDn, baseDn, filter, startTls, attributes
+ *           et job (schedule, nextRunAt, running, history)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', getDirectorySync);
+
+/**
+ * @swagger
+ * /api/directory-sync/run:
+ *   post:
+ *     summary: Synchroniser les employés avec l'annuaire maintenant
+ *     tags: [Directory Sync]
+ *     description: |
+ *       Recherche les comptes de l'annuaire et met à jour les employés
+ *       rapprochés par email : création, mise à jour (nom, département,
+ *       responsable) et désactivation des comptes désactivés (archivage, ou
+ *       départ ouvert tant que des articles sont en prêt). Les employés
+ *       archivés dans l'application ne sont jamais réactivés.
+ *       L'exécution est ajoutée à l'historique de la tâche planifiée.
+ *     responses:
+ *       200:
+ *         description: |
+ *           Entrée d'historique : status SUCCESS ou FAILED (error), result avec
+ *           entries, created, updated, disabled, unchanged, archived (archivés dans
+ *           l'application mais actifs dans l'annuaire), skipped, errorCount, errors
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: Synchronisation déjà en cours
+ */
+router.post('/run', runDirectorySync);
+
+export default router;
@@ -0,0 +1,182 @@
+/**
+ * Employee imports routes - ADMIN and GESTIONNAIRE (HR file synchronization)
+ */
+import express from 'express';
+import {
+  getEmployeeImports,
+  getEmployeeImportById,
+  previewEmployeeImport,
+  applyEmployeeImport
+} from '../controllers/employeeImports.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager } from '../middleware/rbac.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import {
+  previewEmployeeImportSchema,
+  applyEmployeeImportSchema,
+  listEmployeeImportsQuerySchema
+} from '../validators/employeeImports.validator.js';
+
+const router = express.Router();
+
+// All employee import routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/employee-imports:
+ *   get:
+ *     summary: Historique des synchronisations RH
+ *     tags: [Employee Imports]
+ *     description: Rapports d'import, les plus récents d'abord (compteurs uniquement).
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Liste paginée des rapports d'import
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', validateQuery(listEmployeeImportsQuerySchema), getEmployeeImports);
+
+/**
+ * @swagger
+ * /api/employee-imports/preview:
+ *   post:
+ *     summary: Comparer un fichier RH avec la base des employés
+ *     tags: [Employee Imports]
+ *     description: |
+ *       Aucune écriture. Les lignes sont rapprochées par email, sinon par nom
+ *       (casse, accents et ponctuation ignorés). Chaque différence a une clé
+ *       (`key`) à renvoyer dans `acceptedKeys` pour l'appliquer :
+ *       - `NEW` : ligne sans employé correspondant
+ *       - `CHANGED` : nom, email, département ou société différents, ou employé archivé de retour
+ *       - `MISSING` : employé actif absent du fichier (départ probable), avec ses articles en prêt
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rows
+ *             properties:
+ *               rows:
+ *                 type: array
+ *                 maxItems: 5000
+ *                 items:
+ *                   type: object
+ *                   description: Ligne du fichier RH (colonnes Prénom, Nom, Email, Agence, Société)
+ *                   properties:
+ *                     rowNumber:
+ *                       type: integer
+ *                     firstName:
+ *                       type: string
+ *                     lastName:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *                     dept:
+ *                       type: string
+ *                     company:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Différences (entries), lignes inexploitables (errors) et résumé
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/preview', validate(previewEmployeeImportSchema), previewEmployeeImport);
+
+/**
+ * @swagger
+ * /api/employee-imports:
+ *   post:
+ *     summary: Appliquer les différences acceptées d'un fichier RH
+ *     tags: [Employee Imports]
+ *     description: |
+ *       La comparaison est recalculée sur les mêmes lignes puis les différences
+ *       acceptées sont appliquées en une seule transaction. Les départs sans
+ *       matériel en prêt sont archivés, les autres passent en départ en cours.
+ *       Le rapport d'import est enregistré.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - fileName
+ *               - rows
+ *               - acceptedKeys
+ *             properties:
+ *               fileName:
+ *                 type: string
+ *                 example: export-rh-2026-10.xlsx
+ *               rows:
+ *                 type: array
+ *                 description: Mêmes lignes que pour l'aperçu
+ *                 items:
+ *                   type: object
+ *               acceptedKeys:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["row:3", "employee:clx1abc"]
+ *     responses:
+ *       201:
+ *         description: Rapport d'import enregistré
+ *       400:
+ *         description: Données invalides ou base modifiée depuis l'aperçu
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/', validate(applyEmployeeImportSchema), applyEmployeeImport);
+
+/**
+ * @swagger
+ * /api/employee-imports/{id}:
+ *   get:
+ *     summary: Obtenir un rapport d'import
+ *     tags: [Employee Imports]
+ *     description: Différences appliquées (avec leur résultat), refusées et lignes en erreur.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'import (CUID)
+ *     responses:
+ *       200:
+ *         description: Rapport d'import
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id', getEmployeeImportById);
+
+export default router;
@@ -2,11 +2,11 @@
  * Employees routes - ADMIN and GESTIONNAIRE
  */
 import express from 'express';
-import { getAllEmployees, getEmployeeById, createEmployee, bulkCreateEmployees, updateEmployee, deleteEmployee } from '../controllers/employees.controller.js';
+import { getAllEmployees, getEmployeeById, createEmployee, bulkCreateEmployees, updateEmployee, deleteEmployee, archiveEmployee, unarchiveEmployee, getEmployeeOffboarding, startEmployeeOffboarding, cancelEmployeeOffboarding, completeEmployeeOffboarding } from '../controllers/employees.controller.js';
 import { requireAuth } from '../middleware/auth.js';
-import { requireManager } from '../middleware/rbac.js';
+import { requireManager, requireAdmin } from '../middleware/rbac.js';
 import { validate } from '../middleware/validateRequest.js';
-import { createEmployeeSchema, bulkCreateEmployeesSchema, updateEmployeeSchema } from '../validators/employees.validator.js';
+import { createEmployeeSchema, bulkCreateEmployeesSchema, updateEmployeeSchema, startOffboardingSchema } from '../validators/employees.validator.js';
 
 const router = express.Router();
 
@@ -45,8 +45,24 @@ router.use(requireAuth, requireManager);
  *         name: dept
  *         schema:
  *           type: string
+ *         description: Filtrer par nom de département (recherche partielle)
+ *       - in: query
+ *         name: departmentId
+ *         schema:
+ *           type: string
  *         description: Filtrer par département
  *       - in: query
+ *         name: companyId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par société
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Inclure les employés archivés (exclus par défaut)
+ *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
@@ -179,9 +195,10 @@ router.get('/:id', getEmployeeById);
  *                 type: string
  *                 format: email
  *                 example: jean.dupont@groupetilly.com
- *               dept:
+ *               departmentId:
  *                 type: string
- *                 example: Woippy
+ *                 nullable: true
+ *                 description: ID du département (le nom est recopié dans dept)
  *     responses:
  *       201:
  *         description: Employé créé avec succès
@@ -250,6 +267,11 @@ router.post('/', validate(createEmployeeSchema), createEmployee);
  *                     dept:
  *                       type: string
  *                       example: Woippy
+ *                       description: Nom du département, rapproché des départements existants ou créé
+ *                     company:
+ *                       type: string
+ *                       example: Tilly
+ *                       description: Nom de la société du département, rapprochée ou créée
  *     responses:
  *       201:
  *         description: Employés créés avec succès
@@ -304,9 +326,10 @@ router.post('/bulk', validate(bulkCreateEmployeesSchema), bulkCreateEmployees);
  *                 type: string
  *                 format: email
  *                 example: jean.dupont@groupetilly.com
- *               dept:
+ *               departmentId:
  *                 type: string
- *                 example: Metz
+ *                 nullable: true
+ *                 description: ID du département (le nom est recopié dans dept)
  *     responses:
  *       200:
  *         description: Employé mis à jour avec succès
@@ -343,9 +366,11 @@ router.patch('/:id', validate(updateEmployeeSchema), updateEmployee);
  * @swagger
  * /api/employees/{id}:
  *   delete:
- *     summary: Supprimer un employé
+ *     summary: Purger un employé (ADMIN)
  *     tags: [Employees]
- *     description: Suppression d'un employé (attention aux prêts associés)
+ *     description: |
+ *       Suppression définitive d'un employé créé par erreur. Refusée dès que l'employé
+ *       a un historique (prêt, y compris dans la corbeille, ou réservation) : l'archiver à la place.
  *     parameters:
  *       - in: path
  *         name: id
@@ -367,10 +392,192 @@ router.patch('/:id', validate(updateEmployeeSchema), updateEmployee);
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       400:
- *         description: Impossible de supprimer (prêts en cours)
+ *         description: Impossible de supprimer (historique de prêts ou de réservations)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.delete('/:id', requireAdmin, deleteEmployee);
+
+/**
+ * @swagger
+ * /api/employees/{id}/archive:
+ *   post:
+ *     summary: Archiver un employé
+ *     tags: [Employees]
+ *     description: |
+ *       L'employé n'apparaît plus dans l'autocomplétion, la liste par défaut ni à la création
+ *       de prêt, mais reste conservé avec son historique. Refusé tant qu'une ligne de prêt est en cours.
+ *       Les réservations actives de l'employé sont annulées.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'employé (CUID)
+ *     responses:
+ *       200:
+ *         description: Employé archivé
+ *       400:
+ *         description: Déjà archivé ou lignes de prêt encore en cours
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.post('/:id/archive', archiveEmployee);
+
+/**
+ * @swagger
+ * /api/employees/{id}/unarchive:
+ *   post:
+ *     summary: Réactiver un employé archivé
+ *     tags: [Employees]
+ *     description: Réembauche ou archivage par erreur. La date de départ est effacée, l'historique est conservé.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'employé (CUID)
+ *     responses:
+ *       200:
+ *         description: Employé réactivé
+ *       400:
+ *         description: L'employé n'est pas archivé
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.post('/:id/unarchive', unarchiveEmployee);
+
+/**
+ * @swagger
+ * /api/employees/{id}/offboarding:
+ *   get:
+ *     summary: Obtenir la checklist de départ d'un employé
+ *     tags: [Employees]
+ *     description: |
+ *       Liste les lignes encore détenues par l'employé sur ses prêts ouverts.
+ *       Chaque ligne doit être restituée, transférée ou passée en perte
+ *       (routes des prêts) avant de finaliser le départ.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'employé (CUID)
+ *     responses:
+ *       200:
+ *         description: Checklist de départ
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 employee:
+ *                   type: object
+ *                 outstandingLines:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 activeReservations:
+ *                   type: integer
+ *                   description: Réservations actives, annulées à la finalisation
+ *                 canComplete:
+ *                   type: boolean
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *   post:
+ *     summary: Démarrer (ou replanifier) le départ d'un employé
+ *     tags: [Employees]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'employé (CUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - departureDate
+ *             properties:
+ *               departureDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2026-10-31
+ *     responses:
+ *       200:
+ *         description: Date de départ enregistrée, checklist de départ
+ *       400:
+ *         description: Départ déjà finalisé
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *   delete:
+ *     summary: Annuler le départ en cours d'un employé
+ *     tags: [Employees]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'employé (CUID)
+ *     responses:
+ *       200:
+ *         description: Départ annulé
+ *       400:
+ *         description: Aucun départ en cours ou départ déjà finalisé
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get('/:id/offboarding', getEmployeeOffboarding);
+router.post('/:id/offboarding', validate(startOffboardingSchema), startEmployeeOffboarding);
+router.delete('/:id/offboarding', cancelEmployeeOffboarding);
+
+/**
+ * @swagger
+ * /api/employees/{id}/offboarding/complete:
+ *   post:
+ *     summary: Finaliser le départ d'un employé
+ *     tags: [Employees]
+ *     description: |
+ *       Marque l'employé comme parti (archivé) : il n'apparaît plus dans l'autocomplétion
+ *       mais reste conservé avec son historique. Refusé tant qu'une ligne de prêt est en cours.
+ *       Les réservations actives de l'employé sont annulées.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'employé (CUID)
+ *     responses:
+ *       200:
+ *         description: Départ finalisé
+ *       400:
+ *         description: Lignes encore en cours, date de départ manquante ou départ déjà finalisé
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  */
-router.delete('/:id', deleteEmployee);
+router.post('/:id/offboarding/complete', completeEmployeeOffboarding);
 
 export default router;
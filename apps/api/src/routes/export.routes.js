@@ -6,7 +6,9 @@
  * - GET /api/export/asset-models - Export modèles
  * - GET /api/export/asset-items - Export équipements
  * - GET /api/export/stock-items - Export stock
+ * - GET /api/export/reorder-list - Liste de réapprovisionnement par fournisseur
  * - GET /api/export/loans - Export prêts
+ * - GET /api/export/disposals - Registre des sorties (équipements réformés)
  * - GET /api/export/dashboard - Export dashboard complet
  *
  * Accès: ADMIN, GESTIONNAIRE uniquement
@@ -18,11 +20,15 @@ import {
   exportAssetModelsController,
   exportAssetItemsController,
   exportStockItemsController,
+  exportReorderListController,
   exportLoansController,
+  exportDisposalRegisterController,
   exportDashboardController,
 } from '../controllers/export.controller.js'
 import { requireAuth } from '../middleware/auth.js'
 import { requireManager } from '../middleware/rbac.js'
+import { validateQuery } from '../middleware/validateRequest.js'
+import { disposalRegisterQuerySchema } from '../validators/assetItems.validator.js'
 
 const router = express.Router()
 
@@ -49,7 +55,17 @@ router.use(requireManager)
  *         name: dept
  *         schema:
  *           type: string
+ *         description: Filtrer par nom de département
+ *       - in: query
+ *         name: departmentId
+ *         schema:
+ *           type: string
  *         description: Filtrer par département
+ *       - in: query
+ *         name: companyId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par société
  *     responses:
  *       200:
  *         description: Fichier Excel généré
@@ -164,7 +180,7 @@ router.get('/asset-items', exportAssetItemsController)
  *         name: lowStock
  *         schema:
  *           type: boolean
- *         description: Afficher seulement stock bas
+ *         description: Afficher seulement les articles sous leur stock minimum
  *     responses:
  *       200:
  *         description: Fichier Excel généré
@@ -185,6 +201,30 @@ router.get('/asset-items', exportAssetItemsController)
  */
 router.get('/stock-items', exportStockItemsController)
 
+/**
+ * @swagger
+ * /api/export/reorder-list:
+ *   get:
+ *     summary: Exporter la liste de réapprovisionnement vers Excel
+ *     tags: [Export]
+ *     description: |
+ *       Génère un fichier Excel avec une feuille par fournisseur listant les articles
+ *       sous leur stock minimum et la quantité à commander.
+ *     responses:
+ *       200:
+ *         description: Fichier Excel généré
+ *         content:
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/reorder-list', exportReorderListController)
+
 /**
  * @swagger
  * /api/export/loans:
@@ -205,6 +245,16 @@ router.get('/stock-items', exportStockItemsController)
  *           type: string
  *         description: Filtrer par employé
  *       - in: query
+ *         name: departmentId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par département de l'employé
+ *       - in: query
+ *         name: companyId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par société de l'employé
+ *       - in: query
  *         name: startDate
  *         schema:
  *           type: string
@@ -236,6 +286,57 @@ router.get('/stock-items', exportStockItemsController)
  */
 router.get('/loans', exportLoansController)
 
+/**
+ * @swagger
+ * /api/export/disposals:
+ *   get:
+ *     summary: Exporter le registre des sorties vers Excel
+ *     tags: [Export]
+ *     description: |
+ *       Génère un fichier Excel (.xlsx) des équipements réformés.
+ *       Colonnes: Tag, Type, Marque, Modèle, N° série, Motif, Date de sortie,
+ *       Certificat, Effacement données, Prix d'achat, Note, Réformé par
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Date de sortie minimale
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Date de sortie maximale
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           enum: [RECYCLAGE, DON, VOL, PERTE]
+ *         description: Filtrer par motif de sortie
+ *     responses:
+ *       200:
+ *         description: Fichier Excel généré
+ *         content:
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *         headers:
+ *           Content-Disposition:
+ *             description: attachment; filename="Registre_Sorties_2026-10-19.xlsx"
+ *             schema:
+ *               type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/disposals', validateQuery(disposalRegisterQuerySchema), exportDisposalRegisterController)
+
 /**
  * @swagger
  * /api/export/dashboard:
@@ -4,6 +4,11 @@
 import express from 'express';
 import prisma from '../config/database.js';
 import logger from '../config/logger.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireAdmin } from '../middleware/rbac.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { sendSuccess } from '../utils/responseHelpers.js';
+import { getSchedulerStatus, runJob } from '../services/scheduler.service.js';
 
 const router = express.Router();
 
@@ -208,4 +213,59 @@ router.get('/health', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/health/jobs:
+ *   get:
+ *     summary: État des tâches planifiées
+ *     tags: [Health]
+ *     description: |
+ *       Instance leader du planificateur, prochaine exécution et historique
+ *       des dernières exécutions de chaque tâche (ADMIN uniquement).
+ *     responses:
+ *       200:
+ *         description: État du planificateur (enabled, instanceId, leader, isLeader, jobs)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/health/jobs', requireAuth, requireAdmin, asyncHandler(async (req, res) => {
+  const status = await getSchedulerStatus();
+
+  sendSuccess(res, status);
+}));
+
+/**
+ * @swagger
+ * /api/health/jobs/{name}/run:
+ *   post:
+ *     summary: Exécuter une tâche planifiée immédiatement
+ *     tags: [Health]
+ *     description: Exécute la tâche sur l'instance appelée et l'ajoute à son historique (ADMIN uniquement).
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [dashboard-refresh, overdue-reminders, long-running-loans, loan-trash-purge, directory-sync]
+ *     responses:
+ *       200:
+ *         description: Entrée d'historique de l'exécution (status SUCCESS ou FAILED)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Tâche non trouvée
+ *       409:
+ *         description: Tâche déjà en cours d'exécution
+ */
+router.post('/health/jobs/:name/run', requireAuth, requireAdmin, asyncHandler(async (req, res) => {
+  const entry = await runJob(req.params.name, { trigger: 'manual', req });
+
+  sendSuccess(res, entry);
+}));
+
 export default router;
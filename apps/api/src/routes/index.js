@@ -5,11 +5,22 @@ import express from 'express';
 import authRoutes from './auth.routes.js';
 import usersRoutes from './users.routes.js';
 import employeesRoutes from './employees.routes.js';
+import employeeImportsRoutes from './employeeImports.routes.js';
+import directorySyncRoutes from './directorySync.routes.js';
+import departmentsRoutes from './departments.routes.js';
+import companiesRoutes from './companies.routes.js';
 import equipmentTypesRoutes from './equipmentTypes.routes.js';
 import assetModelsRoutes from './assetModels.routes.js';
 import assetItemsRoutes from './assetItems.routes.js';
+import suppliersRoutes from './suppliers.routes.js';
 import stockItemsRoutes from './stockItems.routes.js';
 import loansRoutes from './loans.routes.js';
+import reservationsRoutes from './reservations.routes.js';
+import repairTicketsRoutes from './repairTickets.routes.js';
+import loanKitsRoutes from './loanKits.routes.js';
+import inventoryCampaignsRoutes from './inventoryCampaigns.routes.js';
+import purchaseOrdersRoutes from './purchaseOrders.routes.js';
+import notificationsRoutes from './notifications.routes.js';
 import dashboardRoutes from './dashboard.routes.js';
 import auditLogsRoutes from './auditLogs.routes.js';
 import searchRoutes from './search.routes.js';
@@ -25,11 +36,22 @@ router.use('/', healthRoutes);
 router.use('/auth', authRoutes);
 router.use('/users', usersRoutes);
 router.use('/employees', employeesRoutes);
+router.use('/employee-imports', employeeImportsRoutes);
+router.use('/directory-sync', directorySyncRoutes);
+router.use('/departments', departmentsRoutes);
+router.use('/companies', companiesRoutes);
 router.use('/equipment-types', equipmentTypesRoutes);
 router.use('/asset-models', assetModelsRoutes);
 router.use('/asset-items', assetItemsRoutes);
+router.use('/suppliers', suppliersRoutes);
 router.use('/stock-items', stockItemsRoutes);
 router.use('/loans', loansRoutes);
+router.use('/reservations', reservationsRoutes);
+router.use('/repair-tickets', repairTicketsRoutes);
+router.use('/loan-kits', loanKitsRoutes);
+router.use('/inventory-campaigns', inventoryCampaignsRoutes);
+router.use('/purchase-orders', purchaseOrdersRoutes);
+router.use('/notifications', notificationsRoutes);
 router.use('/dashboard', dashboardRoutes);
 router.use('/audit-logs', auditLogsRoutes);
 router.use('/search', searchRoutes);
@@ -0,0 +1,397 @@
+/**
+ * Inventory campaigns routes - ADMIN and GESTIONNAIRE
+ *
+ * Opening, closing and applying the results of a campaign are reserved to ADMIN.
+ */
+import express from 'express';
+import {
+  getInventoryCampaigns,
+  getInventoryCampaignById,
+  getReconciliationReport,
+  createInventoryCampaign,
+  checkAssetItem,
+  uncheckAssetItem,
+  countStockItem,
+  closeInventoryCampaign,
+  applyStockCorrections,
+  flagMissingItems
+} from '../controllers/inventoryCampaigns.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager, requireAdmin } from '../middleware/rbac.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import {
+  createInventoryCampaignSchema,
+  checkAssetItemSchema,
+  countStockItemSchema,
+  applyStockCorrectionsSchema,
+  flagMissingItemsSchema,
+  listInventoryCampaignsQuerySchema
+} from '../validators/inventoryCampaigns.validator.js';
+
+const router = express.Router();
+
+// All inventory campaign routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns:
+ *   get:
+ *     summary: Obtenir la liste des campagnes d'inventaire
+ *     tags: [Inventory Campaigns]
+ *     description: Liste paginée, les plus récentes d'abord.
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, CLOSED]
+ *         description: Filtrer par statut
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Liste paginée des campagnes (avec le nombre d'équipements pointés et d'articles comptés)
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', validateQuery(listInventoryCampaignsQuerySchema), getInventoryCampaigns);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns/{id}:
+ *   get:
+ *     summary: Obtenir le détail d'une campagne d'inventaire
+ *     tags: [Inventory Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la campagne (CUID)
+ *     responses:
+ *       200:
+ *         description: Détail de la campagne (périmètre, ouverte par, clôturée par)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id', getInventoryCampaignById);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns/{id}/report:
+ *   get:
+ *     summary: Obtenir le rapport de rapprochement d'une campagne
+ *     tags: [Inventory Campaigns]
+ *     description: |
+ *       Équipements trouvés, manquants et inattendus, comptages de stock avec leur écart
+ *       et articles de stock non comptés.
+ *       Calculé en direct tant que la campagne est ouverte (manquants = pas encore pointés),
+ *       figé à la clôture.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rapport de rapprochement
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id/report', getReconciliationReport);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns:
+ *   post:
+ *     summary: Ouvrir une campagne d'inventaire (ADMIN)
+ *     tags: [Inventory Campaigns]
+ *     description: Le périmètre peut être restreint à un type d'équipement et/ou un emplacement.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Inventaire annuel 2026
+ *               equipmentType:
+ *                 type: string
+ *                 example: Ordinateur portable
+ *               location:
+ *                 type: string
+ *                 example: Siège - Salle serveur
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Campagne ouverte
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Type d'équipement non trouvé
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/', requireAdmin, validate(createInventoryCampaignSchema), createInventoryCampaign);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns/{id}/asset-checks:
+ *   post:
+ *     summary: Pointer un équipement trouvé
+ *     tags: [Inventory Campaigns]
+ *     description: |
+ *       Par ID ou par code scanné (tag ou numéro de série).
+ *       Pointer deux fois le même équipement est sans effet (`alreadyChecked`).
+ *       `expected` vaut false pour un équipement hors périmètre ou prêté / en réparation / réformé.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               assetItemId:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: LAP-001
+ *     responses:
+ *       200:
+ *         description: Pointage avec l'équipement
+ *       400:
+ *         description: Campagne clôturée ou données invalides
+ *       404:
+ *         description: Campagne ou équipement non trouvé
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/asset-checks', validate(checkAssetItemSchema), checkAssetItem);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns/{id}/asset-checks/{assetItemId}:
+ *   delete:
+ *     summary: Annuler le pointage d'un équipement
+ *     tags: [Inventory Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: assetItemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pointage annulé
+ *       400:
+ *         description: Campagne clôturée
+ *       404:
+ *         description: Campagne ou pointage non trouvé
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.delete('/:id/asset-checks/:assetItemId', uncheckAssetItem);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns/{id}/stock-counts/{stockItemId}:
+ *   put:
+ *     summary: Saisir la quantité comptée d'un article de stock
+ *     tags: [Inventory Campaigns]
+ *     description: |
+ *       La quantité attendue est la quantité en rayon (quantité - prêtés) au moment du comptage.
+ *       Un nouveau comptage remplace le précédent.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: stockItemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - countedQuantity
+ *             properties:
+ *               countedQuantity:
+ *                 type: integer
+ *                 minimum: 0
+ *                 example: 42
+ *     responses:
+ *       200:
+ *         description: Comptage avec son écart
+ *       400:
+ *         description: Campagne clôturée, article hors périmètre ou quantité invalide
+ *       404:
+ *         description: Campagne ou article de stock non trouvé
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.put('/:id/stock-counts/:stockItemId', validate(countStockItemSchema), countStockItem);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns/{id}/close:
+ *   post:
+ *     summary: Clôturer une campagne d'inventaire (ADMIN)
+ *     tags: [Inventory Campaigns]
+ *     description: Fige le rapport de rapprochement.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campagne clôturée
+ *       400:
+ *         description: Campagne déjà clôturée
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/close', requireAdmin, closeInventoryCampaign);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns/{id}/apply-stock-corrections:
+ *   post:
+ *     summary: Appliquer les écarts de stock d'une campagne clôturée (ADMIN)
+ *     tags: [Inventory Campaigns]
+ *     description: |
+ *       Chaque écart est appliqué une seule fois comme ajustement de quantité (journalisé).
+ *       Les corrections impossibles (quantité négative, article supprimé) sont listées dans `failed`.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               stockItemIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Uniquement ces articles (tous les écarts par défaut)
+ *     responses:
+ *       200:
+ *         description: Corrections appliquées (`applied`) et en échec (`failed`)
+ *       400:
+ *         description: Campagne encore ouverte
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/apply-stock-corrections', requireAdmin, validate(applyStockCorrectionsSchema), applyStockCorrections);
+
+/**
+ * @swagger
+ * /api/inventory-campaigns/{id}/flag-missing:
+ *   post:
+ *     summary: Signaler les équipements manquants d'une campagne clôturée (ADMIN)
+ *     tags: [Inventory Campaigns]
+ *     description: |
+ *       Renseigne la date `missingSince` des équipements manquants (journalisé).
+ *       Un équipement pointé dans une campagne ultérieure n'est pas signalé.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               assetItemIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Uniquement ces équipements (tous les manquants par défaut)
+ *     responses:
+ *       200:
+ *         description: IDs des équipements signalés (`flagged`)
+ *       400:
+ *         description: Campagne encore ouverte
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/flag-missing', requireAdmin, validate(flagMissingItemsSchema), flagMissingItems);
+
+export default router;
@@ -0,0 +1,174 @@
+/**
+ * Loan kits routes
+ *
+ * GET routes: ADMIN and GESTIONNAIRE (kits are applied to loans)
+ * Write routes: ADMIN only
+ */
+import express from 'express';
+import { getAllLoanKits, getLoanKitById, createLoanKit, updateLoanKit, deleteLoanKit } from '../controllers/loanKits.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager, requireAdmin } from '../middleware/rbac.js';
+import { validate } from '../middleware/validateRequest.js';
+import { createLoanKitSchema, updateLoanKitSchema } from '../validators/loanKits.validator.js';
+
+const router = express.Router();
+
+// All loan kit routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/loan-kits:
+ *   get:
+ *     summary: Obtenir la liste des kits de prêt
+ *     tags: [Loan Kits]
+ *     description: Retourne les kits triés par nom, avec leurs composants (modèles et articles de stock).
+ *     responses:
+ *       200:
+ *         description: Liste des kits
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', getAllLoanKits);
+
+/**
+ * @swagger
+ * /api/loan-kits/{id}:
+ *   get:
+ *     summary: Obtenir le détail d'un kit de prêt
+ *     tags: [Loan Kits]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du kit (CUID)
+ *     responses:
+ *       200:
+ *         description: Kit avec ses composants
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id', getLoanKitById);
+
+/**
+ * @swagger
+ * /api/loan-kits:
+ *   post:
+ *     summary: Créer un kit de prêt
+ *     tags: [Loan Kits]
+ *     description: |
+ *       Crée un modèle de prêt réutilisable.
+ *       **Réservé aux ADMIN uniquement.**
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - items
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Onboarding développeur
+ *               description:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     assetModelId:
+ *                       type: string
+ *                       description: Modèle d'équipement (exclusif avec stockItemId)
+ *                     stockItemId:
+ *                       type: string
+ *                       description: Article de stock (exclusif avec assetModelId)
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *                       example: 1
+ *     responses:
+ *       201:
+ *         description: Kit créé
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       409:
+ *         description: Un kit avec ce nom existe déjà
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/', requireAdmin, validate(createLoanKitSchema), createLoanKit);
+
+/**
+ * @swagger
+ * /api/loan-kits/{id}:
+ *   patch:
+ *     summary: Modifier un kit de prêt
+ *     tags: [Loan Kits]
+ *     description: |
+ *       Si `items` est fourni, la liste des composants est remplacée entièrement.
+ *       **Réservé aux ADMIN uniquement.**
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du kit (CUID)
+ *     responses:
+ *       200:
+ *         description: Kit modifié
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Un kit avec ce nom existe déjà
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id', requireAdmin, validate(updateLoanKitSchema), updateLoanKit);
+
+/**
+ * @swagger
+ * /api/loan-kits/{id}:
+ *   delete:
+ *     summary: Supprimer un kit de prêt
+ *     tags: [Loan Kits]
+ *     description: |
+ *       Les prêts déjà créés à partir du kit ne sont pas modifiés.
+ *       **Réservé aux ADMIN uniquement.**
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du kit (CUID)
+ *     responses:
+ *       200:
+ *         description: Kit supprimé
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.delete('/:id', requireAdmin, deleteLoanKit);
+
+export default router;
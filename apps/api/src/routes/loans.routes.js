@@ -2,11 +2,11 @@
  * Loans routes - ADMIN and GESTIONNAIRE
  */
 import express from 'express';
-import { getAllLoans, getLoanById, createLoan, addLoanLine, removeLoanLine, uploadPickupSignature, uploadReturnSignature, closeLoan, deleteLoan, batchDeleteLoans, deletePickupSignature, deleteReturnSignature } from '../controllers/loans.controller.js';
+import { getAllLoans, getLoanById, downloadLoanReceipt, createLoan, updateLoan, addLoanLine, addLoanKit, removeLoanLine, returnLoanLine, writeOffLoanLine, transferLoanLines, uploadPickupSignature, uploadReturnSignature, closeLoan, deleteLoan, batchDeleteLoans, getDeletedLoans, restoreLoan, purgeLoan, purgeExpiredLoans, deletePickupSignature, deleteReturnSignature } from '../controllers/loans.controller.js';
 import { requireAuth } from '../middleware/auth.js';
 import { requireManager, requireAdmin } from '../middleware/rbac.js';
 import { validate } from '../middleware/validateRequest.js';
-import { createLoanSchema, addLoanLineSchema, batchDeleteLoansSchema } from '../validators/loans.validator.js';
+import { createLoanSchema, updateLoanSchema, addLoanLineSchema, addLoanKitSchema, returnLoanLineSchema, writeOffLoanLineSchema, closeLoanSchema, transferLoanLinesSchema, batchDeleteLoansSchema } from '../validators/loans.validator.js';
 import { upload } from '../config/multer.js';
 import { uploadLimiter } from '../middleware/rateLimiter.js';
 
@@ -63,6 +63,129 @@ router.use(requireAuth, requireManager);
  */
 router.post('/batch-delete', requireAdmin, validate(batchDeleteLoansSchema), batchDeleteLoans);
 
+// Trash routes (ADMIN only) - MUST be before /:id routes
+/**
+ * @swagger
+ * /api/loans/trash:
+ *   get:
+ *     summary: Lister les prêts supprimés (corbeille)
+ *     tags: [Loans]
+ *     description: |
+ *       Prêts supprimés, les plus récents d'abord, avec l'auteur et la date de suppression.
+ *       `purgeAt` indique la date de suppression définitive (LOAN_TRASH_RETENTION_DAYS, 30 jours par défaut).
+ *       **Réservé aux ADMIN uniquement.**
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Nom ou email de l'employé (2 caractères minimum)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Numéro de page
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Nombre d'éléments par page
+ *     responses:
+ *       200:
+ *         description: Liste paginée des prêts supprimés
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/trash', requireAdmin, getDeletedLoans);
+
+/**
+ * @swagger
+ * /api/loans/trash/purge:
+ *   post:
+ *     summary: Vider la corbeille des prêts expirés
+ *     tags: [Loans]
+ *     description: |
+ *       Supprime définitivement les prêts restés dans la corbeille plus longtemps que la durée de rétention.
+ *       Également exécuté chaque nuit par le planificateur.
+ *       **Réservé aux ADMIN uniquement.**
+ *     responses:
+ *       200:
+ *         description: Nombre de prêts supprimés (purgedCount) et durée de rétention (retentionDays)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/trash/purge', requireAdmin, purgeExpiredLoans);
+
+/**
+ * @swagger
+ * /api/loans/trash/{id}/restore:
+ *   post:
+ *     summary: Restaurer un prêt supprimé
+ *     tags: [Loans]
+ *     description: |
+ *       Remet le prêt dans la liste des prêts. Les équipements non rendus repassent en PRETE
+ *       et les quantités prêtées du stock sont réappliquées.
+ *       Échoue sans rien modifier si un article a été prêté ailleurs depuis la suppression.
+ *       **Réservé aux ADMIN uniquement.**
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du prêt (CUID)
+ *     responses:
+ *       200:
+ *         description: Prêt restauré
+ *       400:
+ *         description: Le prêt n'est pas dans la corbeille
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Matériel plus disponible (prêté ailleurs depuis)
+ */
+router.post('/trash/:id/restore', requireAdmin, restoreLoan);
+
+/**
+ * @swagger
+ * /api/loans/trash/{id}:
+ *   delete:
+ *     summary: Supprimer définitivement un prêt de la corbeille
+ *     tags: [Loans]
+ *     description: |
+ *       Supprime le prêt, ses lignes et ses fichiers de signature.
+ *       **Réservé aux ADMIN uniquement.**
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du prêt (CUID)
+ *     responses:
+ *       200:
+ *         description: Prêt supprimé définitivement
+ *       400:
+ *         description: Le prêt n'est pas dans la corbeille
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.delete('/trash/:id', requireAdmin, purgeLoan);
+
 /**
  * @swagger
  * /api/loans:
@@ -98,11 +221,26 @@ router.post('/batch-delete', requireAdmin, validate(batchDeleteLoansSchema), bat
  *           enum: [OPEN, CLOSED]
  *         description: Filtrer par statut
  *       - in: query
+ *         name: overdue
+ *         schema:
+ *           type: boolean
+ *         description: Uniquement les prêts ouverts dont la date de retour prévue est dépassée
+ *       - in: query
  *         name: employeeId
  *         schema:
  *           type: string
  *         description: Filtrer par employé
  *       - in: query
+ *         name: departmentId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par département de l'employé
+ *       - in: query
+ *         name: companyId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par société de l'employé
+ *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
@@ -137,6 +275,11 @@ router.post('/batch-delete', requireAdmin, validate(batchDeleteLoansSchema), bat
  *                         type: string
  *                         enum: [OPEN, CLOSED]
  *                         example: OPEN
+ *                       dueAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                         description: Date de retour prévue
  *                       pickupSignedAt:
  *                         type: string
  *                         format: date-time
@@ -223,6 +366,42 @@ router.get('/', getAllLoans);
  */
 router.get('/:id', getLoanById);
 
+/**
+ * @swagger
+ * /api/loans/{id}/receipt:
+ *   get:
+ *     summary: Télécharger le bon de prêt (PDF)
+ *     description: |
+ *       Génère le bon de prêt signé à archiver : employé, articles prêtés
+ *       (numéros d'inventaire et de série, retours), dates, créateur du prêt
+ *       et images des signatures de retrait et de retour.
+ *     tags: [Loans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du prêt (CUID)
+ *     responses:
+ *       200:
+ *         description: Fichier PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id/receipt', downloadLoanReceipt);
+
 /**
  * @swagger
  * /api/loans:
@@ -242,6 +421,11 @@ router.get('/:id', getLoanById);
  *                 type: string
  *                 example: clk123456789
  *                 description: ID de l'employé emprunteur
+ *               dueAt:
+ *                 type: string
+ *                 format: date
+ *                 example: 2024-02-15
+ *                 description: Date de retour prévue (optionnel)
  *               notes:
  *                 type: string
  *                 example: Prêt pour mission client
@@ -275,6 +459,49 @@ router.get('/:id', getLoanById);
  */
 router.post('/', validate(createLoanSchema), createLoan);
 
+/**
+ * @swagger
+ * /api/loans/{id}:
+ *   patch:
+ *     summary: Modifier un prêt
+ *     tags: [Loans]
+ *     description: |
+ *       Modifie la date de retour prévue d'un prêt ouvert.
+ *       Passer `null` pour supprimer l'échéance.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du prêt (CUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dueAt:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *                 example: 2024-02-15
+ *                 description: Date de retour prévue
+ *     responses:
+ *       200:
+ *         description: Prêt modifié avec succès
+ *       400:
+ *         description: Prêt fermé ou supprimé
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id', validate(updateLoanSchema), updateLoan);
+
 /**
  * @swagger
  * /api/loans/{id}/lines:
@@ -312,6 +539,11 @@ router.post('/', validate(createLoanSchema), createLoan);
  *                 minimum: 1
  *                 example: 2
  *                 description: Quantité (requis si stockItemId)
+ *               dueAt:
+ *                 type: string
+ *                 format: date
+ *                 example: 2024-02-15
+ *                 description: Date de retour prévue propre à cette ligne (optionnel)
  *     responses:
  *       201:
  *         description: Ligne ajoutée avec succès
@@ -344,6 +576,72 @@ router.post('/', validate(createLoanSchema), createLoan);
  */
 router.post('/:id/lines', validate(addLoanLineSchema), addLoanLine);
 
+/**
+ * @swagger
+ * /api/loans/{id}/kit:
+ *   post:
+ *     summary: Ajouter un kit de prêt
+ *     tags: [Loans]
+ *     description: |
+ *       Ajoute tous les composants d'un kit au prêt, en une transaction.
+ *       Modèle d'équipement : premiers articles EN_STOCK du modèle (par numéro d'inventaire),
+ *       hors articles réservés par un autre employé.
+ *       Article de stock : quantité prêtée incrémentée si disponible (tout ou rien par composant).
+ *       Les composants non satisfaits sont ignorés et listés dans `missing`.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du prêt (CUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - kitId
+ *             properties:
+ *               kitId:
+ *                 type: string
+ *                 example: clk123456789
+ *     responses:
+ *       201:
+ *         description: Kit ajouté (prêt mis à jour et composants manquants)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 loan:
+ *                   type: object
+ *                 missing:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       kitItemId:
+ *                         type: string
+ *                       label:
+ *                         type: string
+ *                         example: Dell P2422H
+ *                       requested:
+ *                         type: integer
+ *                       added:
+ *                         type: integer
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Prêt ou kit non trouvé
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/kit', validate(addLoanKitSchema), addLoanKit);
+
 /**
  * @swagger
  * /api/loans/{id}/lines/{lineId}:
@@ -387,6 +685,211 @@ router.post('/:id/lines', validate(addLoanLineSchema), addLoanLine);
  */
 router.delete('/:id/lines/:lineId', removeLoanLine);
 
+/**
+ * @swagger
+ * /api/loans/{id}/lines/{lineId}/return:
+ *   patch:
+ *     summary: Retourner une ligne de prêt (retour partiel)
+ *     tags: [Loans]
+ *     description: |
+ *       Marque la ligne comme retournée (returnedAt) sans la supprimer.
+ *       Pour assetItem: statut remis à EN_STOCK.
+ *       Pour stockItem: quantité prêtée libérée.
+ *       Le prêt est clôturé automatiquement au retour de la dernière ligne.
+ *       Une inspection optionnelle (équipements uniquement) oriente l'article :
+ *       OK → EN_STOCK, DAMAGED → REPARATION, MISSING → HS.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du prêt (CUID)
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la ligne de prêt (CUID)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               condition:
+ *                 type: string
+ *                 enum: [OK, DAMAGED, MISSING]
+ *                 description: État constaté au retour
+ *               note:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 example: Connecteur USB-C cassé
+ *     responses:
+ *       200:
+ *         description: Ligne retournée, prêt mis à jour
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   enum: [OPEN, CLOSED]
+ *                 closedAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                 lines:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       returnedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *       400:
+ *         description: Prêt fermé ou ligne déjà retournée
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id/lines/:lineId/return', validate(returnLoanLineSchema), returnLoanLine);
+
+/**
+ * @swagger
+ * /api/loans/{id}/lines/{lineId}/write-off:
+ *   patch:
+ *     summary: Passer en perte une ligne de prêt non restituée
+ *     tags: [Loans]
+ *     description: |
+ *       Clôture la ligne comme manquante (MISSING) et sort l'article du parc :
+ *       l'équipement est réformé avec le motif indiqué, les unités de stock
+ *       sont sorties (mouvement WRITE_OFF). Le prêt est fermé automatiquement
+ *       s'il s'agissait de la dernière ligne en cours.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du prêt (CUID)
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la ligne de prêt (CUID)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [PERTE, VOL]
+ *                 default: PERTE
+ *               note:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 example: Non restitué au départ de l'employé
+ *     responses:
+ *       200:
+ *         description: Ligne passée en perte, prêt mis à jour
+ *       400:
+ *         description: Prêt fermé ou ligne déjà retournée
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id/lines/:lineId/write-off', validate(writeOffLoanLineSchema), writeOffLoanLine);
+
+/**
+ * @swagger
+ * /api/loans/{id}/transfer:
+ *   post:
+ *     summary: Transférer des lignes de prêt à un autre employé
+ *     tags: [Loans]
+ *     description: |
+ *       Déplace les lignes sélectionnées vers un nouveau prêt ouvert pour un autre employé,
+ *       en une seule transaction (les équipements restent PRETE, aucun passage par EN_STOCK).
+ *       Le nouveau prêt doit être signé au retrait par le nouvel employé.
+ *       Le prêt d'origine est clôturé s'il ne reste plus aucune ligne en cours.
+ *       Les deux prêts se référencent dans l'historique d'audit.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du prêt d'origine (CUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - employeeId
+ *               - lineIds
+ *             properties:
+ *               employeeId:
+ *                 type: string
+ *                 example: clk123456789
+ *                 description: ID de l'employé qui reprend le matériel
+ *               lineIds:
+ *                 type: array
+ *                 minItems: 1
+ *                 items:
+ *                   type: string
+ *                 description: Lignes en cours à transférer
+ *               dueAt:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *                 description: Date de retour prévue du nouveau prêt (par défaut celle du prêt d'origine)
+ *     responses:
+ *       201:
+ *         description: Nouveau prêt créé avec les lignes transférées
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 employeeId:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                   example: OPEN
+ *                 pickupSignatureUrl:
+ *                   type: string
+ *                   nullable: true
+ *                   example: null
+ *       400:
+ *         description: Prêt fermé, même employé ou lignes invalides
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/transfer', validate(transferLoanLinesSchema), transferLoanLines);
+
 /**
  * @swagger
  * /api/loans/{id}/pickup-signature:
@@ -583,7 +1086,8 @@ router.delete('/:id/return-signature', requireAdmin, deleteReturnSignature);
  *     tags: [Loans]
  *     description: |
  *       Ferme un prêt (statut → CLOSED).
- *       Tous les assetItems sont remis en stock automatiquement.
+ *       Les assetItems sont remis en stock, sauf si l'inspection de retour
+ *       les déclare endommagés (REPARATION) ou manquants (HS).
  *     parameters:
  *       - in: path
  *         name: id
@@ -591,6 +1095,27 @@ router.delete('/:id/return-signature', requireAdmin, deleteReturnSignature);
  *         schema:
  *           type: string
  *         description: ID du prêt (CUID)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               inspections:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [lineId, condition]
+ *                   properties:
+ *                     lineId:
+ *                       type: string
+ *                     condition:
+ *                       type: string
+ *                       enum: [OK, DAMAGED, MISSING]
+ *                     note:
+ *                       type: string
+ *                       maxLength: 1000
  *     responses:
  *       200:
  *         description: Prêt clôturé avec succès
@@ -614,7 +1139,7 @@ router.delete('/:id/return-signature', requireAdmin, deleteReturnSignature);
  *       403:
  *         $ref: '#/components/responses/Forbidden'
  */
-router.patch('/:id/close', closeLoan);
+router.patch('/:id/close', validate(closeLoanSchema), closeLoan);
 
 /**
  * @swagger
@@ -0,0 +1,123 @@
+/**
+ * Notifications routes - preferences for every user, delivery log for ADMIN
+ */
+import express from 'express';
+import { getNotificationSettings, updateNotificationSettings, getNotificationLogs, sendOverdueReminders } from '../controllers/notifications.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireAdmin } from '../middleware/rbac.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import { updateNotificationSettingsSchema, listNotificationLogsQuerySchema } from '../validators/notifications.validator.js';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+/**
+ * @swagger
+ * /api/notifications/settings:
+ *   get:
+ *     summary: Obtenir mes préférences de notification
+ *     tags: [Notifications]
+ *     description: |
+ *       Emails reçus pour les prêts des employés dont l'utilisateur est le manager.
+ *       L'employé concerné reçoit toujours les emails de ses prêts.
+ *     responses:
+ *       200:
+ *         description: Préférences (loanOpened, lineAdded, loanClosed, overdueReminder, longLoanReminder)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *   put:
+ *     summary: Modifier mes préférences de notification
+ *     tags: [Notifications]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               loanOpened:
+ *                 type: boolean
+ *               lineAdded:
+ *                 type: boolean
+ *               loanClosed:
+ *                 type: boolean
+ *               overdueReminder:
+ *                 type: boolean
+ *               longLoanReminder:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Préférences mises à jour
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get('/settings', getNotificationSettings);
+router.put('/settings', validate(updateNotificationSettingsSchema), updateNotificationSettings);
+
+/**
+ * @swagger
+ * /api/notifications/logs:
+ *   get:
+ *     summary: Journal des envois d'emails (ADMIN)
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [SENT, FAILED]
+ *       - in: query
+ *         name: event
+ *         schema:
+ *           type: string
+ *           enum: [LOAN_OPENED, LINE_ADDED, LOAN_CLOSED, OVERDUE_REMINDER, LONG_LOAN_REMINDER]
+ *       - in: query
+ *         name: loanId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: recipient
+ *         schema:
+ *           type: string
+ *         description: Recherche partielle sur l'adresse du destinataire
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Envois paginés, du plus récent au plus ancien
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/logs', requireAdmin, validateQuery(listNotificationLogsQuerySchema), getNotificationLogs);
+
+/**
+ * @swagger
+ * /api/notifications/overdue-reminders:
+ *   post:
+ *     summary: Envoyer les rappels de prêts en retard (ADMIN)
+ *     tags: [Notifications]
+ *     description: Les prêts déjà relancés avec succès dans les dernières 24 heures sont ignorés.
+ *     responses:
+ *       200:
+ *         description: Nombre de prêts traités et d'emails envoyés / en échec
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/overdue-reminders', requireAdmin, sendOverdueReminders);
+
+export default router;
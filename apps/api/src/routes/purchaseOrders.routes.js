@@ -0,0 +1,319 @@
+/**
+ * Purchase orders routes - ADMIN and GESTIONNAIRE
+ */
+import express from 'express';
+import {
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  placePurchaseOrder,
+  receivePurchaseOrder,
+  deletePurchaseOrder
+} from '../controllers/purchaseOrders.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager } from '../middleware/rbac.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import {
+  createPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  receivePurchaseOrderSchema,
+  listPurchaseOrdersQuerySchema
+} from '../validators/purchaseOrders.validator.js';
+
+const router = express.Router();
+
+// All purchase order routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/purchase-orders:
+ *   get:
+ *     summary: Obtenir la liste des bons de commande
+ *     tags: [Purchase Orders]
+ *     description: Liste paginée, les plus récents d'abord, avec le total de chaque bon.
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [DRAFT, ORDERED, PARTIALLY_RECEIVED, RECEIVED]
+ *         description: Filtrer par statut
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par fournisseur
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Liste paginée des bons de commande (lignes et total en centimes)
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', validateQuery(listPurchaseOrdersQuerySchema), getPurchaseOrders);
+
+/**
+ * @swagger
+ * /api/purchase-orders/{id}:
+ *   get:
+ *     summary: Obtenir le détail d'un bon de commande
+ *     tags: [Purchase Orders]
+ *     description: |
+ *       Lignes avec leur modèle, quantité reçue et équipements créés à la réception.
+ *       `isConsumable` indique si la ligne est réceptionnée en quantité (stock) ou par numéro de série.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du bon de commande (CUID)
+ *     responses:
+ *       200:
+ *         description: Détail du bon de commande
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id', getPurchaseOrderById);
+
+/**
+ * @swagger
+ * /api/purchase-orders:
+ *   post:
+ *     summary: Créer un bon de commande (brouillon)
+ *     tags: [Purchase Orders]
+ *     description: La référence (BC-année-numéro) est attribuée automatiquement.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - supplierId
+ *               - lines
+ *             properties:
+ *               supplierId:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 description: Une ligne par modèle
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - assetModelId
+ *                     - quantity
+ *                     - unitPriceCents
+ *                   properties:
+ *                     assetModelId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *                       example: 10
+ *                     unitPriceCents:
+ *                       type: integer
+ *                       minimum: 0
+ *                       example: 89900
+ *     responses:
+ *       201:
+ *         description: Bon de commande créé
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Fournisseur ou modèle non trouvé
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/', validate(createPurchaseOrderSchema), createPurchaseOrder);
+
+/**
+ * @swagger
+ * /api/purchase-orders/{id}:
+ *   patch:
+ *     summary: Modifier un bon de commande en brouillon
+ *     tags: [Purchase Orders]
+ *     description: Les lignes fournies remplacent les lignes existantes.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               supplierId:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Bon de commande modifié
+ *       400:
+ *         description: Bon de commande déjà passé ou données invalides
+ *       404:
+ *         description: Bon de commande, fournisseur ou modèle non trouvé
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id', validate(updatePurchaseOrderSchema), updatePurchaseOrder);
+
+/**
+ * @swagger
+ * /api/purchase-orders/{id}/place:
+ *   post:
+ *     summary: Passer la commande auprès du fournisseur
+ *     tags: [Purchase Orders]
+ *     description: Le brouillon passe au statut ORDERED, ses lignes ne sont plus modifiables.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Commande passée
+ *       400:
+ *         description: Bon de commande déjà passé
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/place', placePurchaseOrder);
+
+/**
+ * @swagger
+ * /api/purchase-orders/{id}/receptions:
+ *   post:
+ *     summary: Réceptionner tout ou partie d'une commande
+ *     tags: [Purchase Orders]
+ *     description: |
+ *       En une seule transaction :
+ *       - un équipement par numéro de série saisi (tag généré, fournisseur, facture, date et prix d'achat de la commande),
+ *         rattaché à sa ligne de commande
+ *       - les consommables incrémentent le stock du modèle (mouvement RECEPTION lié au bon de commande)
+ *       - la commande passe en PARTIALLY_RECEIVED, puis RECEIVED une fois toutes les lignes reçues
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lines
+ *             properties:
+ *               invoiceNumber:
+ *                 type: string
+ *                 example: FA-2026-0042
+ *               receivedAt:
+ *                 type: string
+ *                 format: date
+ *               location:
+ *                 type: string
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - lineId
+ *                   properties:
+ *                     lineId:
+ *                       type: string
+ *                     serials:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: Numéros de série (modèles suivis individuellement)
+ *                     quantity:
+ *                       type: integer
+ *                       description: Quantité reçue (consommables)
+ *     responses:
+ *       201:
+ *         description: Bon de commande mis à jour, équipements créés (`assetItems`) et stocks incrémentés (`stockItems`)
+ *       400:
+ *         description: Commande non passée ou déjà reçue, quantité trop élevée ou ligne invalide
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Numéro de série déjà existant
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/receptions', validate(receivePurchaseOrderSchema), receivePurchaseOrder);
+
+/**
+ * @swagger
+ * /api/purchase-orders/{id}:
+ *   delete:
+ *     summary: Supprimer un bon de commande en brouillon
+ *     tags: [Purchase Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Bon de commande supprimé
+ *       400:
+ *         description: Bon de commande déjà passé
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.delete('/:id', deletePurchaseOrder);
+
+export default router;
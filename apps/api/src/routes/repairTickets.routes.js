@@ -0,0 +1,257 @@
+/**
+ * Repair tickets routes - ADMIN and GESTIONNAIRE
+ */
+import express from 'express';
+import { getRepairTickets, getRepairTicketById, createRepairTicket, updateRepairTicket, closeRepairTicket } from '../controllers/repairTickets.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager } from '../middleware/rbac.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import { createRepairTicketSchema, updateRepairTicketSchema, closeRepairTicketSchema, listRepairTicketsQuerySchema } from '../validators/repairTickets.validator.js';
+
+const router = express.Router();
+
+// All repair ticket routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/repair-tickets:
+ *   get:
+ *     summary: Obtenir la liste des tickets de réparation
+ *     tags: [Repair Tickets]
+ *     description: |
+ *       Liste paginée, les plus récents d'abord.
+ *       Avec `open=true`, seuls les tickets non clôturés sont retournés, triés par date de retour prévue.
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, SENT, QUOTED, IN_REPAIR, CLOSED]
+ *         description: Filtrer par statut
+ *       - in: query
+ *         name: open
+ *         schema:
+ *           type: boolean
+ *         description: Uniquement les tickets non clôturés
+ *       - in: query
+ *         name: assetItemId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par équipement
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Prestataire, numéro RMA ou tag de l'équipement
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Liste paginée des tickets de réparation
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', validateQuery(listRepairTicketsQuerySchema), getRepairTickets);
+
+/**
+ * @swagger
+ * /api/repair-tickets/{id}:
+ *   get:
+ *     summary: Obtenir le détail d'un ticket de réparation
+ *     tags: [Repair Tickets]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du ticket (CUID)
+ *     responses:
+ *       200:
+ *         description: Détail du ticket (équipement, ouvert par, clôturé par)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id', getRepairTicketById);
+
+/**
+ * @swagger
+ * /api/repair-tickets:
+ *   post:
+ *     summary: Ouvrir un ticket de réparation
+ *     tags: [Repair Tickets]
+ *     description: |
+ *       L'équipement passe au statut REPARATION.
+ *       Refusé si l'équipement est prêté ou a déjà un ticket ouvert.
+ *       Les montants sont exprimés en centimes.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - assetItemId
+ *               - fault
+ *             properties:
+ *               assetItemId:
+ *                 type: string
+ *                 example: clk123456789
+ *               fault:
+ *                 type: string
+ *                 maxLength: 2000
+ *                 example: Écran qui clignote
+ *               vendor:
+ *                 type: string
+ *                 maxLength: 200
+ *                 example: Dell ProSupport
+ *               rmaNumber:
+ *                 type: string
+ *                 maxLength: 100
+ *               quoteCents:
+ *                 type: integer
+ *                 minimum: 0
+ *                 example: 12900
+ *               expectedReturnAt:
+ *                 type: string
+ *                 format: date
+ *                 example: 2026-11-06
+ *     responses:
+ *       201:
+ *         description: Ticket ouvert
+ *       400:
+ *         description: Données invalides ou équipement prêté
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Un ticket est déjà ouvert pour cet équipement
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/', validate(createRepairTicketSchema), createRepairTicket);
+
+/**
+ * @swagger
+ * /api/repair-tickets/{id}:
+ *   patch:
+ *     summary: Suivre un ticket de réparation
+ *     tags: [Repair Tickets]
+ *     description: Change l'étape de suivi (OPEN, SENT, QUOTED, IN_REPAIR) ou les détails d'un ticket non clôturé.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du ticket (CUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [OPEN, SENT, QUOTED, IN_REPAIR]
+ *               fault:
+ *                 type: string
+ *               vendor:
+ *                 type: string
+ *                 nullable: true
+ *               rmaNumber:
+ *                 type: string
+ *                 nullable: true
+ *               quoteCents:
+ *                 type: integer
+ *                 nullable: true
+ *               expectedReturnAt:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Ticket modifié
+ *       400:
+ *         description: Ticket clôturé ou données invalides
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id', validate(updateRepairTicketSchema), updateRepairTicket);
+
+/**
+ * @swagger
+ * /api/repair-tickets/{id}/close:
+ *   post:
+ *     summary: Clôturer un ticket de réparation
+ *     tags: [Repair Tickets]
+ *     description: |
+ *       Enregistre le coût final et l'issue de la réparation.
+ *       REPAIRED : l'équipement repasse EN_STOCK. SCRAPPED : il passe HS.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du ticket (CUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - outcome
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [REPAIRED, SCRAPPED]
+ *               finalCostCents:
+ *                 type: integer
+ *                 minimum: 0
+ *                 example: 11850
+ *               closingNote:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: Ticket clôturé
+ *       400:
+ *         description: Ticket déjà clôturé ou données invalides
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/close', validate(closeRepairTicketSchema), closeRepairTicket);
+
+export default router;
@@ -0,0 +1,267 @@
+/**
+ * Reservations routes - ADMIN and GESTIONNAIRE
+ */
+import express from 'express';
+import { getAllReservations, getReservationById, createReservation, updateReservation, cancelReservation, convertReservationToLoan } from '../controllers/reservations.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager } from '../middleware/rbac.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import { createReservationSchema, updateReservationSchema, listReservationsQuerySchema } from '../validators/reservations.validator.js';
+
+const router = express.Router();
+
+// All reservation routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/reservations:
+ *   get:
+ *     summary: Obtenir la liste des réservations
+ *     tags: [Reservations]
+ *     description: |
+ *       Retourne les réservations triées par date de début (500 maximum).
+ *       Les filtres `from` / `to` retournent les réservations qui chevauchent la période.
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, CONVERTED, CANCELLED]
+ *         description: Filtrer par statut
+ *       - in: query
+ *         name: employeeId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par employé
+ *       - in: query
+ *         name: assetItemId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par équipement
+ *       - in: query
+ *         name: stockItemId
+ *         schema:
+ *           type: string
+ *         description: Filtrer par article de stock
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Réservations se terminant après cette date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Réservations commençant avant cette date
+ *     responses:
+ *       200:
+ *         description: Liste des réservations
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', validateQuery(listReservationsQuerySchema), getAllReservations);
+
+/**
+ * @swagger
+ * /api/reservations/{id}:
+ *   get:
+ *     summary: Obtenir le détail d'une réservation
+ *     tags: [Reservations]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la réservation (CUID)
+ *     responses:
+ *       200:
+ *         description: Détail de la réservation (employé, article, créateur)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id', getReservationById);
+
+/**
+ * @swagger
+ * /api/reservations:
+ *   post:
+ *     summary: Réserver un équipement ou une quantité de stock
+ *     tags: [Reservations]
+ *     description: |
+ *       Réserve un équipement (ou une quantité d'un article de stock) pour un employé sur une période.
+ *       Refusé si la période chevauche une autre réservation active, ou un prêt en cours
+ *       d'un autre employé dont le retour est prévu après le début (ou sans date de retour).
+ *       Pour le stock : quantité - prêtée - réservée sur la période doit couvrir la demande.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - employeeId
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               employeeId:
+ *                 type: string
+ *                 example: clk123456789
+ *               assetItemId:
+ *                 type: string
+ *                 description: Équipement à réserver (exclusif avec stockItemId)
+ *               stockItemId:
+ *                 type: string
+ *                 description: Article de stock à réserver (exclusif avec assetItemId)
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Quantité (stock uniquement)
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2026-11-02
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2027-11-02
+ *               notes:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       201:
+ *         description: Réservation créée
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Article indisponible sur la période
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/', validate(createReservationSchema), createReservation);
+
+/**
+ * @swagger
+ * /api/reservations/{id}:
+ *   patch:
+ *     summary: Modifier une réservation active
+ *     tags: [Reservations]
+ *     description: Modifie la période, la quantité ou les notes. Les conflits sont revérifiés.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la réservation (CUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               notes:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Réservation modifiée
+ *       400:
+ *         description: Réservation non active ou dates invalides
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Article indisponible sur la nouvelle période
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id', validate(updateReservationSchema), updateReservation);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/cancel:
+ *   patch:
+ *     summary: Annuler une réservation
+ *     tags: [Reservations]
+ *     description: La réservation est conservée avec le statut CANCELLED.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la réservation (CUID)
+ *     responses:
+ *       200:
+ *         description: Réservation annulée
+ *       400:
+ *         description: Réservation non active
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id/cancel', cancelReservation);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/convert:
+ *   post:
+ *     summary: Convertir une réservation en prêt
+ *     tags: [Reservations]
+ *     description: |
+ *       Crée un prêt ouvert pour l'employé avec l'article réservé, échéance à la date de fin.
+ *       Équipement : passe de EN_STOCK à PRETE (refusé s'il n'est pas en stock).
+ *       Stock : quantité prêtée incrémentée (refusé si quantité insuffisante).
+ *       La réservation passe au statut CONVERTED et référence le prêt.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la réservation (CUID)
+ *     responses:
+ *       201:
+ *         description: Prêt créé à partir de la réservation
+ *       400:
+ *         description: Réservation non active ou article indisponible
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/:id/convert', convertReservationToLoan);
+
+export default router;
@@ -41,6 +41,14 @@ router.get('/autocomplete/employees', searchController.autocompleteEmployees);
  */
 router.get('/autocomplete/asset-items', searchController.autocompleteAssetItems);
 
+/**
+ * @route GET /api/search/resolve/asset-item
+ * @desc Resolve a scanned code (asset tag, then serial) to a single asset item
+ * @access Private
+ * @query {string} code - Scanned code (exact, case-insensitive)
+ */
+router.get('/resolve/asset-item', searchController.resolveAssetItem);
+
 /**
  * @route GET /api/search/autocomplete/asset-models
  * @desc Autocomplete asset models
@@ -2,11 +2,27 @@
  * Stock Items routes - ADMIN and GESTIONNAIRE
  */
 import express from 'express';
-import { getAllStockItems, getStockItemById, createStockItem, updateStockItem, adjustQuantity, deleteStockItem } from '../controllers/stockItems.controller.js';
+import {
+  getAllStockItems,
+  getStockItemById,
+  createStockItem,
+  updateStockItem,
+  adjustQuantity,
+  deleteStockItem,
+  getStockMovements,
+  getStockLedgerCheck,
+  getStockLedgerDrifts,
+  getReorderList
+} from '../controllers/stockItems.controller.js';
 import { requireAuth } from '../middleware/auth.js';
 import { requireManager } from '../middleware/rbac.js';
-import { validate } from '../middleware/validateRequest.js';
-import { createStockItemSchema, updateStockItemSchema, adjustQuantitySchema } from '../validators/stockItems.validator.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import {
+  createStockItemSchema,
+  updateStockItemSchema,
+  adjustQuantitySchema,
+  listStockMovementsQuerySchema
+} from '../validators/stockItems.validator.js';
 
 const router = express.Router();
 
@@ -106,6 +122,45 @@ router.use(requireAuth, requireManager);
  */
 router.get('/', getAllStockItems);
 
+/**
+ * @swagger
+ * /api/stock-items/ledger-drift:
+ *   get:
+ *     summary: Lister les articles dont les quantités divergent du journal
+ *     tags: [Stock Items]
+ *     description: |
+ *       Recalcule quantité et quantité prêtée de chaque article en sommant ses mouvements
+ *       et retourne les articles dont les compteurs diffèrent (modification hors journal).
+ *     responses:
+ *       200:
+ *         description: Articles en écart (compteurs actuels, recalculés et écart)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/ledger-drift', getStockLedgerDrifts);
+
+/**
+ * @swagger
+ * /api/stock-items/reorder-list:
+ *   get:
+ *     summary: Obtenir la liste de réapprovisionnement
+ *     tags: [Stock Items]
+ *     description: |
+ *       Articles dont la quantité disponible (quantité - prêtés) est inférieure à leur
+ *       stock minimum, avec la quantité à commander, regroupés par fournisseur.
+ *       Les articles sans fournisseur sont regroupés en dernier (fournisseur null).
+ *     responses:
+ *       200:
+ *         description: Groupes par fournisseur (supplier, lines)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/reorder-list', getReorderList);
+
 /**
  * @swagger
  * /api/stock-items/{id}:
@@ -190,7 +245,16 @@ router.get('/:id', getStockItemById);
  *                 type: integer
  *                 minimum: 0
  *                 example: 10
- *                 description: Seuil d'alerte de stock bas
+ *                 description: Seuil d'alerte de stock bas (quantité disponible), 0 = pas d'alerte
+ *               reorderQuantity:
+ *                 type: integer
+ *                 minimum: 0
+ *                 example: 20
+ *                 description: Quantité commandée habituellement
+ *               supplierId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Fournisseur de réapprovisionnement
  *     responses:
  *       201:
  *         description: Article créé avec succès
@@ -256,6 +320,12 @@ router.post('/', validate(createStockItemSchema), createStockItem);
  *               minQuantity:
  *                 type: integer
  *                 example: 15
+ *               reorderQuantity:
+ *                 type: integer
+ *                 example: 30
+ *               supplierId:
+ *                 type: string
+ *                 nullable: true
  *     responses:
  *       200:
  *         description: Article mis à jour avec succès
@@ -299,6 +369,8 @@ router.patch('/:id', validate(updateStockItemSchema), updateStockItem);
  *     description: |
  *       Endpoint dédié à l'ajustement de quantité.
  *       Permet d'incrémenter ou décrémenter le stock.
+ *       L'ajustement est enregistré dans le journal des mouvements avec son type :
+ *       une réception ajoute des unités, une mise au rebut en retire.
  *     parameters:
  *       - in: path
  *         name: id
@@ -313,12 +385,22 @@ router.patch('/:id', validate(updateStockItemSchema), updateStockItem);
  *           schema:
  *             type: object
  *             required:
- *               - adjustment
+ *               - quantity
  *             properties:
- *               adjustment:
+ *               quantity:
  *                 type: integer
  *                 example: -5
  *                 description: Quantité à ajouter (positif) ou retirer (négatif)
+ *               type:
+ *                 type: string
+ *                 enum: [RECEPTION, ADJUSTMENT, WRITE_OFF]
+ *                 default: ADJUSTMENT
+ *                 description: Type de mouvement
+ *               reason:
+ *                 type: string
+ *                 nullable: true
+ *                 example: Câbles endommagés
+ *                 description: Motif du mouvement
  *     responses:
  *       200:
  *         description: Quantité ajustée avec succès
@@ -346,6 +428,75 @@ router.patch('/:id', validate(updateStockItemSchema), updateStockItem);
  */
 router.patch('/:id/quantity', validate(adjustQuantitySchema), adjustQuantity);
 
+/**
+ * @swagger
+ * /api/stock-items/{id}/movements:
+ *   get:
+ *     summary: Obtenir le journal des mouvements d'un article
+ *     tags: [Stock Items]
+ *     description: |
+ *       Réceptions, sorties et retours de prêt, ajustements, corrections d'inventaire
+ *       et mises au rebut, du plus récent au plus ancien, avec leur auteur et leur référence.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [INITIAL, RECEPTION, LOAN_OUT, LOAN_CLOSED, ADJUSTMENT, INVENTORY_CORRECTION, WRITE_OFF]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Liste paginée des mouvements
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id/movements', validateQuery(listStockMovementsQuerySchema), getStockMovements);
+
+/**
+ * @swagger
+ * /api/stock-items/{id}/ledger-check:
+ *   get:
+ *     summary: Recalculer les quantités d'un article depuis son journal
+ *     tags: [Stock Items]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Compteurs actuels, compteurs recalculés et écart
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id/ledger-check', getStockLedgerCheck);
+
 /**
  * @swagger
  * /api/stock-items/{id}:
@@ -0,0 +1,171 @@
+/**
+ * Suppliers routes
+ *
+ * GET, POST and PATCH routes: ADMIN and GESTIONNAIRE (suppliers are entered with deliveries)
+ * DELETE route: ADMIN only
+ */
+import express from 'express';
+import { getAllSuppliers, getSupplierById, createSupplier, updateSupplier, deleteSupplier } from '../controllers/suppliers.controller.js';
+import { requireAuth } from '../middleware/auth.js';
+import { requireManager, requireAdmin } from '../middleware/rbac.js';
+import { validate, validateQuery } from '../middleware/validateRequest.js';
+import { createSupplierSchema, updateSupplierSchema, listSuppliersQuerySchema } from '../validators/suppliers.validator.js';
+
+const router = express.Router();
+
+// All supplier routes require authentication and ADMIN or GESTIONNAIRE role
+router.use(requireAuth, requireManager);
+
+/**
+ * @swagger
+ * /api/suppliers:
+ *   get:
+ *     summary: Obtenir la liste des fournisseurs
+ *     tags: [Suppliers]
+ *     description: Retourne les fournisseurs triés par nom, avec le nombre d'équipements achetés chez chacun.
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Recherche dans le nom ou le contact
+ *     responses:
+ *       200:
+ *         description: Liste des fournisseurs
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', validateQuery(listSuppliersQuerySchema), getAllSuppliers);
+
+/**
+ * @swagger
+ * /api/suppliers/{id}:
+ *   get:
+ *     summary: Obtenir le détail d'un fournisseur
+ *     tags: [Suppliers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du fournisseur (CUID)
+ *     responses:
+ *       200:
+ *         description: Détail du fournisseur
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/:id', getSupplierById);
+
+/**
+ * @swagger
+ * /api/suppliers:
+ *   post:
+ *     summary: Créer un fournisseur
+ *     tags: [Suppliers]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: LDLC Pro
+ *               contactName:
+ *                 type: string
+ *                 example: Service commercial
+ *               email:
+ *                 type: string
+ *                 example: pro@ldlc.com
+ *               phone:
+ *                 type: string
+ *                 example: "04 27 46 60 00"
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Fournisseur créé
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       409:
+ *         description: Un fournisseur avec ce nom existe déjà
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/', validate(createSupplierSchema), createSupplier);
+
+/**
+ * @swagger
+ * /api/suppliers/{id}:
+ *   patch:
+ *     summary: Modifier un fournisseur
+ *     tags: [Suppliers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du fournisseur (CUID)
+ *     responses:
+ *       200:
+ *         description: Fournisseur modifié
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Un fournisseur avec ce nom existe déjà
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.patch('/:id', validate(updateSupplierSchema), updateSupplier);
+
+/**
+ * @swagger
+ * /api/suppliers/{id}:
+ *   delete:
+ *     summary: Supprimer un fournisseur
+ *     tags: [Suppliers]
+ *     description: |
+ *       Refusé tant que des équipements référencent ce fournisseur.
+ *       **Réservé aux ADMIN uniquement.**
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du fournisseur (CUID)
+ *     responses:
+ *       200:
+ *         description: Fournisseur supprimé
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.delete('/:id', requireAdmin, deleteSupplier);
+
+export default router;
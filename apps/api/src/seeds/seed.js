@@ -19,6 +19,8 @@ async function main() {
   await prisma.assetModel.deleteMany();
   await prisma.equipmentType.deleteMany();
   await prisma.employee.deleteMany();
+  await prisma.department.deleteMany();
+  await prisma.company.deleteMany();
   await prisma.user.deleteMany();
 
   // Create users
@@ -76,6 +78,15 @@ async function main() {
   ]);
   logger.info(`✅ Created ${equipmentTypes.length} equipment types`);
 
+  // Create company and departments
+  logger.info('Creating departments...');
+  const company = await prisma.company.create({ data: { name: 'Groupe Tilly' } });
+  const departments = {};
+  for (const name of ['IT', 'RH', 'Comptabilité', 'Marketing', 'Ventes']) {
+    departments[name] = await prisma.department.create({ data: { name, companyId: company.id } });
+  }
+  logger.info(`✅ Created ${Object.keys(departments).length} departments`);
+
   // Create employees
   logger.info('Creating employees...');
   const employees = await Promise.all([
@@ -84,7 +95,8 @@ async function main() {
         firstName: 'Jean',
         lastName: 'Dupont',
         email: 'jean.dupont@example.com',
-        dept: 'IT'
+        dept: 'IT',
+        departmentId: departments['IT'].id
       }
     }),
     prisma.employee.create({
@@ -92,7 +104,8 @@ async function main() {
         firstName: 'Marie',
         lastName: 'Martin',
         email: 'marie.martin@example.com',
-        dept: 'RH'
+        dept: 'RH',
+        departmentId: departments['RH'].id
       }
     }),
     prisma.employee.create({
@@ -100,7 +113,8 @@ async function main() {
         firstName: 'Pierre',
         lastName: 'Bernard',
         email: 'pierre.bernard@example.com',
-        dept: 'Comptabilité'
+        dept: 'Comptabilité',
+        departmentId: departments['Comptabilité'].id
       }
     }),
     prisma.employee.create({
@@ -108,7 +122,8 @@ async function main() {
         firstName: 'Sophie',
         lastName: 'Dubois',
         email: 'sophie.dubois@example.com',
-        dept: 'Marketing'
+        dept: 'Marketing',
+        departmentId: departments['Marketing'].id
       }
     }),
     prisma.employee.create({
@@ -116,7 +131,8 @@ async function main() {
         firstName: 'Luc',
         lastName: 'Moreau',
         email: 'luc.moreau@example.com',
-        dept: 'Ventes'
+        dept: 'Ventes',
+        departmentId: departments['Ventes'].id
       }
     })
   ]);
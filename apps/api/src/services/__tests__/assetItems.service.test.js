@@ -6,6 +6,9 @@
  * - Unique identifier validation (asset tags and serial numbers)
  * - Filtering and search capabilities
  * - Bulk creation with auto-generated sequential tags
+ * - Purchase data (supplier) and expiring warranties
+ * - Current book value from the equipment type depreciation period
+ * - Retirement (REFORME): disposal details, hidden from default lists, terminal status
  */
 
 import { jest } from '@jest/globals';
@@ -18,11 +21,25 @@ const mockPrisma = {
     findUnique: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
+    count: jest.fn(),
   },
   assetModel: {
     findUnique: jest.fn(),
   },
+  supplier: {
+    findUnique: jest.fn(),
+  },
+  equipmentType: {
+    findMany: jest.fn(),
+  },
+  repairTicket: {
+    findFirst: jest.fn(),
+  },
+  reservation: {
+    updateMany: jest.fn(),
+  },
   $transaction: jest.fn((callback) => callback(mockPrisma)),
 };
 
@@ -41,6 +58,8 @@ const {
   deleteAssetItem,
   previewBulkCreation,
   createAssetItemsBulk,
+  getExpiringWarranties,
+  retireAssetItem,
 } = await import('../assetItems.service.js');
 
 describe('AssetItems Service', () => {
@@ -72,10 +91,11 @@ describe('AssetItems Service', () => {
       const result = await getAllAssetItems();
 
       expect(mockPrisma.assetItem.findMany).toHaveBeenCalledWith({
-        where: {},
+        where: { status: { not: 'REFORME' } },
         orderBy: { createdAt: 'desc' },
         include: {
-          assetModel: true
+          assetModel: true,
+          supplier: true
         }
       });
       expect(result).toEqual(mockItems);
@@ -100,7 +120,19 @@ describe('AssetItems Service', () => {
 
       expect(mockPrisma.assetItem.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { assetModelId: 'model1' }
+          where: { status: { not: 'REFORME' }, assetModelId: 'model1' }
+        })
+      );
+    });
+
+    it('should list retired items when filtering on REFORME', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue([]);
+
+      await getAllAssetItems({ status: 'REFORME' });
+
+      expect(mockPrisma.assetItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'REFORME' }
         })
       );
     });
@@ -172,6 +204,10 @@ describe('AssetItems Service', () => {
         where: { id: 'item1' },
         include: {
           assetModel: true,
+          supplier: true,
+          orderLine: {
+            select: { id: true, purchaseOrder: { select: { id: true, reference: true } } }
+          },
           loanLines: {
             take: 50, // Limit to 50 most recent loan lines
             include: {
@@ -189,7 +225,27 @@ describe('AssetItems Service', () => {
           }
         }
       });
-      expect(result).toEqual(mockItem);
+      expect(result).toEqual({ ...mockItem, currentValueCents: null });
+      expect(mockPrisma.equipmentType.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should compute the current value from the type depreciation period', async () => {
+      const halfPeriodAgo = new Date(Date.now() - 1.5 * 365.25 * 24 * 60 * 60 * 1000);
+      mockPrisma.assetItem.findUnique.mockResolvedValue({
+        id: 'item1',
+        purchasePriceCents: 120000,
+        purchaseDate: halfPeriodAgo,
+        assetModel: { type: 'Ordinateur portable' },
+        loanLines: []
+      });
+      mockPrisma.equipmentType.findMany.mockResolvedValue([
+        { name: 'Ordinateur portable', depreciationYears: 3 }
+      ]);
+
+      const result = await getAssetItemById('item1');
+
+      expect(result.currentValueCents).toBeGreaterThanOrEqual(59999);
+      expect(result.currentValueCents).toBeLessThanOrEqual(60000);
     });
 
     it('should throw NotFoundError if item does not exist', async () => {
@@ -242,7 +298,8 @@ describe('AssetItems Service', () => {
       expect(mockPrisma.assetItem.create).toHaveBeenCalledWith({
         data: mockItemData,
         include: {
-          assetModel: true
+          assetModel: true,
+          supplier: true
         }
       });
       expect(result).toEqual(mockCreatedItem);
@@ -330,6 +387,16 @@ describe('AssetItems Service', () => {
       expect(result.serial).toBeNull();
       expect(mockPrisma.assetItem.create).toHaveBeenCalled();
     });
+
+    it('should throw NotFoundError if supplier does not exist', async () => {
+      mockPrisma.assetModel.findUnique.mockResolvedValue(mockAssetModel);
+      mockPrisma.supplier.findUnique.mockResolvedValueOnce(null);
+
+      await expect(createAssetItem({ ...mockItemData, supplierId: 'missing' }))
+        .rejects.toThrow('Fournisseur non trouvé');
+
+      expect(mockPrisma.assetItem.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateAssetItem', () => {
@@ -363,7 +430,8 @@ describe('AssetItems Service', () => {
         where: { id: mockItemId },
         data: updateData,
         include: {
-          assetModel: true
+          assetModel: true,
+          supplier: true
         }
       });
       expect(result).toEqual(mockUpdatedItem);
@@ -494,7 +562,8 @@ describe('AssetItems Service', () => {
         where: { id: 'item1' },
         data: { status: 'HS' },
         include: {
-          assetModel: true
+          assetModel: true,
+          supplier: true
         }
       });
       expect(result.status).toBe('HS');
@@ -506,6 +575,115 @@ describe('AssetItems Service', () => {
       await expect(updateAssetItemStatus('nonexistent', 'HS'))
         .rejects.toThrow('Article d\'équipement non trouvé');
     });
+
+    it('should refuse to leave REPARATION while a repair ticket is open', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'item1', status: 'REPARATION' });
+      mockPrisma.repairTicket.findFirst.mockResolvedValueOnce({ id: 'ticket1', status: 'SENT' });
+
+      await expect(updateAssetItemStatus('item1', 'EN_STOCK'))
+        .rejects.toThrow(ValidationError);
+
+      expect(mockPrisma.repairTicket.findFirst).toHaveBeenCalledWith({
+        where: { assetItemId: 'item1', status: { not: 'CLOSED' } }
+      });
+      expect(mockPrisma.assetItem.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to change the status of a retired item', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'item1', status: 'REFORME' });
+
+      await expect(updateAssetItemStatus('item1', 'EN_STOCK'))
+        .rejects.toThrow(ValidationError);
+
+      expect(mockPrisma.assetItem.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retireAssetItem', () => {
+    const req = { user: { userId: 'user1' }, headers: {} };
+    const disposedAt = new Date('2026-10-15');
+
+    it('should retire the item with its disposal details and cancel its reservations', async () => {
+      mockPrisma.assetItem.findUnique
+        .mockResolvedValueOnce({ id: 'item1', status: 'HS' })
+        .mockResolvedValueOnce({ id: 'item1', status: 'REFORME' });
+      mockPrisma.assetItem.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      const result = await retireAssetItem('item1', {
+        reason: 'RECYCLAGE',
+        disposedAt,
+        certificateRef: 'CERT-42',
+        dataWipeConfirmed: true
+      }, req);
+
+      expect(mockPrisma.reservation.updateMany).toHaveBeenCalledWith({
+        where: { assetItemId: 'item1', status: 'ACTIVE' },
+        data: { status: 'CANCELLED' }
+      });
+      expect(mockPrisma.assetItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'item1', status: 'HS' },
+        data: {
+          status: 'REFORME',
+          disposalReason: 'RECYCLAGE',
+          disposedAt,
+          disposalCertificateRef: 'CERT-42',
+          dataWipeConfirmed: true,
+          disposalNote: null,
+          disposedById: 'user1'
+        }
+      });
+      expect(mockPrisma.assetItem.findUnique).toHaveBeenLastCalledWith({
+        where: { id: 'item1' },
+        include: {
+          assetModel: true,
+          supplier: true
+        }
+      });
+      expect(result.status).toBe('REFORME');
+    });
+
+    it('should refuse a loaned item', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'item1', status: 'PRETE' });
+
+      await expect(retireAssetItem('item1', { reason: 'VOL', disposedAt }, req))
+        .rejects.toThrow(ValidationError);
+
+      expect(mockPrisma.assetItem.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an item with an open repair ticket', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'item1', status: 'REPARATION' });
+      mockPrisma.repairTicket.findFirst.mockResolvedValueOnce({ id: 'ticket1', status: 'SENT' });
+
+      await expect(retireAssetItem('item1', { reason: 'PERTE', disposedAt }, req))
+        .rejects.toThrow(ValidationError);
+
+      expect(mockPrisma.assetItem.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an item whose status changed since it was read', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'item1', status: 'EN_STOCK' });
+      mockPrisma.assetItem.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(retireAssetItem('item1', { reason: 'PERTE', disposedAt }, req))
+        .rejects.toThrow('a changé entre-temps');
+
+      expect(mockPrisma.reservation.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an item already retired', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'item1', status: 'REFORME' });
+
+      await expect(retireAssetItem('item1', { reason: 'PERTE', disposedAt }, req))
+        .rejects.toThrow('Cet équipement est déjà réformé');
+    });
+
+    it('should throw NotFoundError if item does not exist', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValue(null);
+
+      await expect(retireAssetItem('nonexistent', { reason: 'PERTE', disposedAt }, req))
+        .rejects.toThrow(NotFoundError);
+    });
   });
 
   describe('deleteAssetItem', () => {
@@ -513,7 +691,7 @@ describe('AssetItems Service', () => {
       const mockItem = {
         id: 'item1',
         assetTag: 'LAP-001',
-        loanLines: []
+        _count: { loanLines: 0 }
       };
 
       mockPrisma.assetItem.findUnique.mockResolvedValue(mockItem);
@@ -536,23 +714,18 @@ describe('AssetItems Service', () => {
       expect(mockPrisma.assetItem.delete).not.toHaveBeenCalled();
     });
 
-    it('should delete item even if it has loan history', async () => {
+    it('should refuse to delete an item with loan history and point to retirement', async () => {
       const mockItem = {
         id: 'item1',
         assetTag: 'LAP-001',
-        loanLines: [
-          { id: 'line1', loanId: 'loan1' },
-          { id: 'line2', loanId: 'loan2' }
-        ]
+        _count: { loanLines: 2 }
       };
 
       mockPrisma.assetItem.findUnique.mockResolvedValue(mockItem);
-      mockPrisma.assetItem.delete.mockResolvedValue(mockItem);
-
-      const result = await deleteAssetItem('item1');
 
-      expect(mockPrisma.assetItem.delete).toHaveBeenCalled();
-      expect(result).toEqual({ message: 'Article d\'équipement supprimé avec succès' });
+      await expect(deleteAssetItem('item1')).rejects.toThrow(ValidationError);
+      await expect(deleteAssetItem('item1')).rejects.toThrow('2 ligne(s) de prêt. Réformez-le');
+      expect(mockPrisma.assetItem.delete).not.toHaveBeenCalled();
     });
   });
 
@@ -742,5 +915,47 @@ describe('AssetItems Service', () => {
         })
       );
     });
+  
+    it('should apply the same purchase data to every item of the delivery', async () => {
+      const purchase = {
+        supplierId: 'supplier1',
+        invoiceNumber: 'FA-2025-0042',
+        purchaseDate: new Date('2025-03-10'),
+        purchasePriceCents: 4990,
+        warrantyEndsAt: new Date('2027-03-10')
+      };
+
+      mockPrisma.assetModel.findUnique.mockResolvedValue(mockAssetModel);
+      mockPrisma.supplier.findUnique.mockResolvedValueOnce({ id: 'supplier1', name: 'LDLC Pro' });
+      mockPrisma.assetItem.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([]);
+      mockPrisma.assetItem.create.mockResolvedValue({ id: 'item', assetModel: mockAssetModel });
+
+      await createAssetItemsBulk({ ...mockBulkData, ...purchase });
+
+      expect(mockPrisma.assetItem.create).toHaveBeenCalledTimes(3);
+      for (const [args] of mockPrisma.assetItem.create.mock.calls) {
+        expect(args.data).toEqual(expect.objectContaining(purchase));
+      }
+    });
+  });
+
+  describe('getExpiringWarranties', () => {
+    it('should list warranties ending within the window, soonest first', async () => {
+      mockPrisma.assetItem.count.mockResolvedValueOnce(1);
+      mockPrisma.assetItem.findMany.mockResolvedValueOnce([{ id: 'item1' }]);
+
+      const result = await getExpiringWarranties({ days: 60, pageSize: 5 });
+
+      const query = mockPrisma.assetItem.findMany.mock.calls[0][0];
+      const { gte, lte } = query.where.warrantyEndsAt;
+      expect(Math.round((lte - gte) / (24 * 60 * 60 * 1000))).toBe(60);
+      expect(query.where.status).toEqual({ not: 'REFORME' });
+      expect(query.orderBy).toEqual([{ warrantyEndsAt: 'asc' }, { assetTag: 'asc' }]);
+      expect(query.take).toBe(5);
+      expect(result.data).toEqual([{ id: 'item1' }]);
+      expect(result.pagination.totalItems).toBe(1);
+    });
   });
 });
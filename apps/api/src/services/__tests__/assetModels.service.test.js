@@ -312,7 +312,10 @@ describe('AssetModels Service', () => {
           assetModelId: mockCreatedModel.id,
           quantity: 50,
           loaned: 0,
-          notes: expect.stringContaining('Créé automatiquement')
+          notes: expect.stringContaining('Créé automatiquement'),
+          movements: {
+            create: expect.objectContaining({ type: 'INITIAL', quantityDelta: 50 })
+          }
         },
         include: {
           assetModel: true
@@ -441,7 +444,10 @@ describe('AssetModels Service', () => {
         where: { id: 'stock1' },
         data: {
           quantity: { increment: 20 },
-          notes: expect.stringContaining('Stock augmenté de 20')
+          notes: expect.stringContaining('Stock augmenté de 20'),
+          movements: {
+            create: expect.objectContaining({ type: 'RECEPTION', quantityDelta: 20 })
+          }
         },
         include: { assetModel: true }
       });
@@ -476,7 +482,10 @@ describe('AssetModels Service', () => {
           assetModelId: mockModelId,
           quantity: 15,
           loaned: 0,
-          notes: expect.stringContaining('Créé le')
+          notes: expect.stringContaining('Créé le'),
+          movements: {
+            create: expect.objectContaining({ type: 'INITIAL', quantityDelta: 15 })
+          }
         },
         include: { assetModel: true }
       });
@@ -504,7 +513,8 @@ describe('AssetModels Service', () => {
           { id: 'item1', status: 'EN_STOCK' },
           { id: 'item2', status: 'HS' }
         ],
-        stockItems: []
+        stockItems: [],
+        _count: { orderLines: 0 }
       };
 
       mockPrisma.assetModel.findUnique.mockResolvedValue(mockModel);
@@ -585,7 +595,8 @@ describe('AssetModels Service', () => {
         ],
         stockItems: [
           { id: 'stock1', quantity: 20, loaned: 0 }
-        ]
+        ],
+        _count: { orderLines: 0 }
       };
 
       mockPrisma.assetModel.findUnique.mockResolvedValue(mockModel);
@@ -601,6 +612,20 @@ describe('AssetModels Service', () => {
         stockItemsDeleted: 1
       });
     });
+
+    it('should throw ValidationError if the model was ordered', async () => {
+      mockPrisma.assetModel.findUnique.mockResolvedValue({
+        id: mockModelId,
+        items: [],
+        stockItems: [],
+        _count: { orderLines: 2 }
+      });
+
+      await expect(deleteAssetModel(mockModelId))
+        .rejects.toThrow('2 ligne(s) de bon de commande');
+
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
   });
 
   describe('batchDeleteAssetModels', () => {
@@ -610,12 +635,14 @@ describe('AssetModels Service', () => {
         {
           id: 'model1',
           items: [{ id: 'item1', status: 'EN_STOCK' }],
-          stockItems: []
+          stockItems: [],
+          _count: { orderLines: 0 }
         },
         {
           id: 'model2',
           items: [{ id: 'item2', status: 'HS' }],
-          stockItems: []
+          stockItems: [],
+          _count: { orderLines: 0 }
         }
       ];
 
@@ -630,7 +657,8 @@ describe('AssetModels Service', () => {
         where: { id: { in: modelIds } },
         include: {
           items: true,
-          stockItems: true
+          stockItems: true,
+          _count: { select: { orderLines: true } }
         }
       });
       expect(result).toEqual({
@@ -6,6 +6,7 @@
  * - Refreshing materialized view
  * - Cache management
  * - Error handling for empty views and database errors
+ * - Fleet valuation grouped by type and holder department
  */
 
 import { describe, test, expect, beforeEach, jest } from '@jest/globals';
@@ -13,7 +14,10 @@ import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 // Mock Prisma client BEFORE importing service
 const mockPrisma = {
   $queryRaw: jest.fn(),
-  $executeRaw: jest.fn()
+  $executeRaw: jest.fn(),
+  assetItem: {
+    findMany: jest.fn()
+  }
 };
 
 jest.unstable_mockModule('../../config/database.js', () => ({
@@ -45,6 +49,13 @@ jest.unstable_mockModule('../cache.service.js', () => ({
   }
 }));
 
+// Mock equipment types service (depreciation periods)
+const mockGetDepreciationYearsByType = jest.fn();
+
+jest.unstable_mockModule('../equipmentTypes.service.js', () => ({
+  getDepreciationYearsByType: mockGetDepreciationYearsByType
+}));
+
 // Import service AFTER mocks are set up
 const dashboardService = await import('../dashboard.service.js');
 
@@ -271,3 +282,47 @@ describe('Dashboard Service - refreshDashboardStats()', () => {
     expect(mockCacheDel).not.toHaveBeenCalled();
   });
 });
+
+describe('Dashboard Service - getFleetValuation()', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should value priced items by type and holder department', async () => {
+    const now = new Date('2026-07-02T12:00:00.000Z');
+    mockGetDepreciationYearsByType.mockResolvedValue(new Map([['Laptop', 2]]));
+    mockPrisma.assetItem.findMany.mockResolvedValue([
+      {
+        purchasePriceCents: 100000,
+        purchaseDate: new Date('2025-07-02T00:00:00.000Z'),
+        assetModel: { type: 'Laptop' },
+        loanLines: [{
+          loan: {
+            employee: { department: { id: 'dept-1', name: 'Comptabilité', company: { name: 'Acme Metz' } } }
+          }
+        }]
+      },
+      {
+        purchasePriceCents: 30000,
+        purchaseDate: null,
+        assetModel: { type: 'Écran' },
+        loanLines: []
+      }
+    ]);
+
+    const report = await dashboardService.getFleetValuation(now);
+
+    const query = mockPrisma.assetItem.findMany.mock.calls[0][0];
+    expect(query.where).toEqual({ purchasePriceCents: { not: null }, status: { not: 'REFORME' } });
+    expect(query.select.loanLines.where).toEqual({
+      returnedAt: null,
+      loan: { status: 'OPEN', deletedAt: null }
+    });
+    expect(report.totals.itemCount).toBe(2);
+    expect(report.byType.map((row) => row.type)).toEqual(['Laptop', 'Écran']);
+    expect(report.byDepartment).toEqual([
+      expect.objectContaining({ departmentId: 'dept-1', department: 'Comptabilité', company: 'Acme Metz', itemCount: 1 }),
+      { departmentId: null, department: null, company: null, itemCount: 1, purchaseValueCents: 30000, currentValueCents: 30000 }
+    ]);
+  });
+});
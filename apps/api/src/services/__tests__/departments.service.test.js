@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Unit tests for departments.service.js
+ *
+ * Tests:
+ * - Unique department name per company (case-insensitive)
+ * - Renaming rewrites the denormalized name of employees
+ * - Deletion refused while employees are attached
+ * - Near-duplicate detection and merge
+ * - Resolution of imported department / company names
+ */
+
+import { jest } from '@jest/globals';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  department: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  company: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+  },
+  employee: {
+    updateMany: jest.fn(),
+  },
+  $transaction: jest.fn((callback) => callback(mockPrisma)),
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+const mockInvalidateEntity = jest.fn();
+jest.unstable_mockModule('../cache.service.js', () => ({
+  invalidateEntity: mockInvalidateEntity
+}));
+
+// Import service after mocks are set up
+const {
+  createDepartment,
+  updateDepartment,
+  deleteDepartment,
+  findDuplicateDepartments,
+  mergeDepartments,
+  createDepartmentResolver,
+} = await import('../departments.service.js');
+
+const department = (id, name, employees = 0, companyId = null) => ({
+  id,
+  name,
+  companyId,
+  _count: { employees }
+});
+
+describe('Departments Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createDepartment', () => {
+    it('should refuse a name already used in the company, whatever the case', async () => {
+      mockPrisma.company.findUnique.mockResolvedValueOnce({ id: 'company-1' });
+      mockPrisma.department.findFirst.mockResolvedValueOnce(department('dept-1', 'Woippy'));
+
+      await expect(createDepartment({ name: 'WOIPPY', companyId: 'company-1' }))
+        .rejects.toThrow(ConflictError);
+
+      expect(mockPrisma.department.findFirst).toHaveBeenCalledWith({
+        where: { companyId: 'company-1', name: { equals: 'WOIPPY', mode: 'insensitive' } }
+      });
+      expect(mockPrisma.department.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an unknown company', async () => {
+      mockPrisma.company.findUnique.mockResolvedValueOnce(null);
+
+      await expect(createDepartment({ name: 'Woippy', companyId: 'missing' }))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('updateDepartment', () => {
+    it('should rename the department of its employees', async () => {
+      mockPrisma.department.findUnique.mockResolvedValueOnce(department('dept-1', 'Woipy'));
+      mockPrisma.department.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.department.update.mockResolvedValueOnce(department('dept-1', 'Woippy'));
+
+      await updateDepartment('dept-1', { name: 'Woippy' });
+
+      expect(mockPrisma.employee.updateMany).toHaveBeenCalledWith({
+        where: { departmentId: 'dept-1' },
+        data: { dept: 'Woippy' }
+      });
+      expect(mockInvalidateEntity).toHaveBeenCalledWith('employees');
+    });
+
+    it('should not touch employees when only the company changes', async () => {
+      mockPrisma.department.findUnique.mockResolvedValueOnce(department('dept-1', 'Woippy'));
+      mockPrisma.company.findUnique.mockResolvedValueOnce({ id: 'company-1' });
+      mockPrisma.department.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.department.update.mockResolvedValueOnce(department('dept-1', 'Woippy', 0, 'company-1'));
+
+      await updateDepartment('dept-1', { companyId: 'company-1' });
+
+      expect(mockPrisma.employee.updateMany).not.toHaveBeenCalled();
+      expect(mockInvalidateEntity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteDepartment', () => {
+    it('should refuse to delete a department with employees', async () => {
+      mockPrisma.department.findUnique.mockResolvedValueOnce(department('dept-1', 'Woippy', 3));
+
+      await expect(deleteDepartment('dept-1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.department.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete an empty department', async () => {
+      mockPrisma.department.findUnique.mockResolvedValueOnce(department('dept-1', 'Woippy'));
+
+      await deleteDepartment('dept-1');
+
+      expect(mockPrisma.department.delete).toHaveBeenCalledWith({ where: { id: 'dept-1' } });
+    });
+  });
+
+  describe('findDuplicateDepartments', () => {
+    it('should group spellings differing by case, accents or a typo', async () => {
+      mockPrisma.department.findMany.mockResolvedValueOnce([
+        department('d1', 'Saint-Étienne', 1),
+        department('d2', 'saint etienne', 4),
+        department('d3', 'Woipy', 1),
+        department('d4', 'Woippy', 12),
+        department('d5', 'Metz', 5),
+        department('d6', 'RH', 2),
+        department('d7', 'DSI', 2),
+      ]);
+
+      const groups = await findDuplicateDepartments();
+
+      expect(groups).toHaveLength(2);
+      expect(groups.map(g => g.suggestedTargetId).sort()).toEqual(['d2', 'd4']);
+      const woippy = groups.find(g => g.suggestedTargetId === 'd4');
+      expect(woippy.departments.map(d => d.id)).toEqual(['d4', 'd3']);
+    });
+
+    it('should not group departments of different companies', async () => {
+      mockPrisma.department.findMany.mockResolvedValueOnce([
+        department('d1', 'Woippy', 1, 'company-1'),
+        department('d2', 'Woippy', 1, 'company-2'),
+      ]);
+
+      expect(await findDuplicateDepartments()).toEqual([]);
+    });
+  });
+
+  describe('mergeDepartments', () => {
+    it('should move employees to the target and delete the sources', async () => {
+      mockPrisma.department.findUnique
+        .mockResolvedValueOnce(department('d4', 'Woippy', 12))
+        .mockResolvedValueOnce(department('d4', 'Woippy', 13));
+      mockPrisma.department.findMany.mockResolvedValueOnce([department('d3', 'Woipy', 1)]);
+      mockPrisma.employee.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      const merged = await mergeDepartments('d4', ['d3']);
+
+      expect(mockPrisma.employee.updateMany).toHaveBeenCalledWith({
+        where: { departmentId: { in: ['d3'] } },
+        data: { departmentId: 'd4', dept: 'Woippy' }
+      });
+      expect(mockPrisma.department.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['d3'] } } });
+      expect(merged._count.employees).toBe(13);
+      expect(mockInvalidateEntity).toHaveBeenCalledWith('employees');
+    });
+
+    it('should refuse to merge a department into itself', async () => {
+      await expect(mergeDepartments('d4', ['d4'])).rejects.toThrow(ValidationError);
+    });
+
+    it('should refuse unknown source departments', async () => {
+      mockPrisma.department.findUnique.mockResolvedValueOnce(department('d4', 'Woippy'));
+      mockPrisma.department.findMany.mockResolvedValueOnce([]);
+
+      await expect(mergeDepartments('d4', ['missing'])).rejects.toThrow(NotFoundError);
+      expect(mockPrisma.employee.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createDepartmentResolver', () => {
+    it('should match existing names and memoize them', async () => {
+      mockPrisma.company.findFirst.mockResolvedValueOnce({ id: 'company-1', name: 'Tilly' });
+      mockPrisma.department.findFirst.mockResolvedValueOnce(department('dept-1', 'Woippy', 3, 'company-1'));
+
+      const resolve = createDepartmentResolver();
+      const first = await resolve({ dept: '  woippy ', company: 'TILLY' });
+      const second = await resolve({ dept: 'Woippy', company: 'Tilly' });
+
+      expect(first).toEqual({ departmentId: 'dept-1', dept: 'Woippy' });
+      expect(second).toEqual(first);
+      expect(mockPrisma.department.findFirst).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.company.create).not.toHaveBeenCalled();
+      expect(mockPrisma.department.create).not.toHaveBeenCalled();
+    });
+
+    it('should attach a department without company to the imported company', async () => {
+      mockPrisma.company.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.company.create.mockResolvedValueOnce({ id: 'company-1', name: 'Tilly' });
+      mockPrisma.department.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(department('dept-1', 'Woippy'));
+      mockPrisma.department.update.mockResolvedValueOnce(department('dept-1', 'Woippy', 0, 'company-1'));
+
+      const resolve = createDepartmentResolver();
+      const result = await resolve({ dept: 'Woippy', company: 'Tilly' });
+
+      expect(mockPrisma.company.create).toHaveBeenCalledWith({ data: { name: 'Tilly' } });
+      expect(mockPrisma.department.update).toHaveBeenCalledWith({
+        where: { id: 'dept-1' },
+        data: { companyId: 'company-1' }
+      });
+      expect(result).toEqual({ departmentId: 'dept-1', dept: 'Woippy' });
+    });
+
+    it('should create a missing department and ignore blank names', async () => {
+      mockPrisma.department.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.department.create.mockResolvedValueOnce(department('dept-2', 'Metz Nord'));
+
+      const resolve = createDepartmentResolver();
+
+      expect(await resolve({ dept: '   ' })).toBeNull();
+      expect(await resolve({ dept: 'Metz   Nord' })).toEqual({ departmentId: 'dept-2', dept: 'Metz Nord' });
+      expect(mockPrisma.department.create).toHaveBeenCalledWith({ data: { name: 'Metz Nord', companyId: null } });
+    });
+  });
+});
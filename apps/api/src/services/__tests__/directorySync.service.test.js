@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Unit tests for directorySync.service.js
+ *
+ * Tests:
+ * - Configuration: disabled without LDAP_URL, settings without the password
+ * - Attribute mapping (defaults and overrides) to upsertEmployees()
+ * - Manager linked to the user account with the manager email
+ * - Disabled accounts (Active Directory flag, other attributes)
+ * - Entries without name or email reported
+ */
+
+import { jest } from '@jest/globals';
+import { ValidationError } from '../../utils/errors.js';
+
+const mockPrisma = {
+  user: {
+    findMany: jest.fn(),
+  },
+};
+const mockSearchLdap = jest.fn();
+const mockUpsertEmployees = jest.fn();
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+jest.unstable_mockModule('../../utils/ldapClient.js', () => ({
+  searchLdap: mockSearchLdap
+}));
+
+jest.unstable_mockModule('../employees.service.js', () => ({
+  upsertEmployees: mockUpsertEmployees
+}));
+
+jest.unstable_mockModule('../../config/logger.js', () => ({
+  default: {
+    warn: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  }
+}));
+
+// Import service after mocks are set up
+const {
+  getDirectorySyncSettings,
+  syncEmployeesFromDirectory,
+} = await import('../directorySync.service.js');
+
+const LDAP_ENV = {
+  LDAP_URL: 'ldap://dc01.example.org',
+  LDAP_BIND_DN: 'CN=svc-inventaire,OU=Services,DC=example,DC=org',
+  LDAP_BIND_PASSWORD: 'secret',
+  LDAP_BASE_DN: 'OU=Utilisateurs,DC=example,DC=org'
+};
+
+const entry = (dn, attributes) => ({ dn, attributes });
+
+describe('Directory Sync Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(process.env, LDAP_ENV);
+    mockPrisma.user.findMany.mockResolvedValue([]);
+    mockUpsertEmployees.mockResolvedValue({ created: 0, updated: 0, disabled: 0, unchanged: 0, archived: 0, skipped: 0, errors: [] });
+  });
+
+  afterEach(() => {
+    for (const variable of Object.keys(process.env).filter(name => name.startsWith('LDAP_'))) {
+      delete process.env[variable];
+    }
+  });
+
+  describe('getDirectorySyncSettings', () => {
+    it('should expose the settings with the default mapping and without the password', () => {
+      process.env.LDAP_ATTR_COMPANY = '';
+
+      const settings = getDirectorySyncSettings();
+
+      expect(settings).toEqual({
+        configured: true,
+        url: 'ldap://dc01.example.org',
+        bindDn: LDAP_ENV.LDAP_BIND_DN,
+        baseDn: LDAP_ENV.LDAP_BASE_DN,
+        filter: '(&(objectClass=person)(mail=*))',
+        startTls: false,
+        attributes: {
+          firstName: 'givenName',
+          lastName: 'sn',
+          email: 'mail',
+          dept: 'department',
+          company: null,
+          manager: 'manager',
+          disabled: 'userAccountControl'
+        }
+      });
+    });
+  });
+
+  describe('syncEmployeesFromDirectory', () => {
+    it('should refuse to run without LDAP_URL or LDAP_BASE_DN', async () => {
+      delete process.env.LDAP_BASE_DN;
+      await expect(syncEmployeesFromDirectory()).rejects.toThrow('LDAP_BASE_DN');
+
+      delete process.env.LDAP_URL;
+      await expect(syncEmployeesFromDirectory()).rejects.toThrow(ValidationError);
+      expect(mockSearchLdap).not.toHaveBeenCalled();
+    });
+
+    it('should search the directory and upsert the mapped employees', async () => {
+      mockSearchLdap.mockResolvedValue([
+        entry('CN=Marie Martin,OU=Utilisateurs,DC=example,DC=org', {
+          givenname: ['Marie'], sn: ['Martin'], mail: ['marie.martin@example.org'],
+          department: ['Woippy'], company: ['Tilly'], useraccountcontrol: ['512']
+        }),
+        entry('CN=Jean Dupont,OU=Utilisateurs,DC=example,DC=org', {
+          givenname: ['Jean'], sn: ['Dupont'], mail: ['jean.dupont@example.org'],
+          manager: ['CN=Marie Martin, OU=Utilisateurs, DC=example, DC=org'], useraccountcontrol: ['514']
+        }),
+      ]);
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-marie', email: 'Marie.Martin@example.org' }]);
+      mockUpsertEmployees.mockResolvedValue({ created: 1, updated: 0, disabled: 1, unchanged: 0, archived: 0, skipped: 0, errors: [] });
+      const req = { user: { userId: 'admin1' } };
+
+      const result = await syncEmployeesFromDirectory(req);
+
+      expect(mockSearchLdap).toHaveBeenCalledWith({
+        url: 'ldap://dc01.example.org',
+        bindDn: LDAP_ENV.LDAP_BIND_DN,
+        bindPassword: 'secret',
+        startTls: false,
+        rejectUnauthorized: true
+      }, {
+        baseDn: LDAP_ENV.LDAP_BASE_DN,
+        filter: '(&(objectClass=person)(mail=*))',
+        attributes: ['givenName', 'sn', 'mail', 'department', 'company', 'manager', 'userAccountControl']
+      });
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: { email: { in: ['marie.martin@example.org'], mode: 'insensitive' } },
+        select: { id: true, email: true }
+      });
+      expect(mockUpsertEmployees).toHaveBeenCalledWith([
+        {
+          firstName: 'Marie', lastName: 'Martin', email: 'marie.martin@example.org',
+          dept: 'Woippy', company: 'Tilly', managerId: null, disabled: false
+        },
+        {
+          firstName: 'Jean', lastName: 'Dupont', email: 'jean.dupont@example.org',
+          dept: null, company: null, managerId: 'user-marie', disabled: true
+        },
+      ], req);
+      expect(result).toEqual({
+        entries: 2, created: 1, updated: 0, disabled: 1, unchanged: 0, archived: 0, skipped: 0, errorCount: 0, errors: []
+      });
+    });
+
+    it('should follow the configured mapping and disabled attribute', async () => {
+      Object.assign(process.env, {
+        LDAP_FILTER: '(objectClass=inetOrgPerson)',
+        LDAP_ATTR_DEPT: 'ou',
+        LDAP_ATTR_COMPANY: '',
+        LDAP_ATTR_MANAGER: 'managerMail',
+        LDAP_ATTR_DISABLED: 'employeeInactive'
+      });
+      mockSearchLdap.mockResolvedValue([
+        entry('uid=lpetit,ou=people,dc=example,dc=org', {
+          givenname: ['Luc'], sn: ['Petit'], mail: ['luc.petit@example.org'], ou: ['Metz'],
+          managermail: ['chef@example.org'], employeeinactive: ['TRUE']
+        }),
+        entry('uid=apetit,ou=people,dc=example,dc=org', {
+          givenname: ['Anne'], sn: ['Petit'], mail: ['anne.petit@example.org'], employeeinactive: ['FALSE']
+        }),
+      ]);
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-chef', email: 'chef@example.org' }]);
+
+      await syncEmployeesFromDirectory();
+
+      expect(mockSearchLdap).toHaveBeenCalledWith(expect.any(Object), expect.objectContaining({
+        filter: '(objectClass=inetOrgPerson)',
+        attributes: ['givenName', 'sn', 'mail', 'ou', 'managerMail', 'employeeInactive']
+      }));
+      expect(mockUpsertEmployees).toHaveBeenCalledWith([
+        expect.objectContaining({ email: 'luc.petit@example.org', dept: 'Metz', company: null, managerId: 'user-chef', disabled: true }),
+        expect.objectContaining({ email: 'anne.petit@example.org', managerId: null, disabled: false }),
+      ], undefined);
+    });
+
+    it('should report entries without name or email and upsert errors', async () => {
+      mockSearchLdap.mockResolvedValue([
+        entry('CN=Salle Reunion,OU=Utilisateurs,DC=example,DC=org', { mail: ['salle@example.org'] }),
+        entry('CN=Jean Dupont,OU=Utilisateurs,DC=example,DC=org', { givenname: ['Jean'], sn: ['Dupont'], mail: ['jean@example.org'] }),
+      ]);
+      mockUpsertEmployees.mockResolvedValue({
+        created: 0, updated: 0, disabled: 0, unchanged: 0, archived: 0, skipped: 0,
+        errors: [{ row: 1, data: { email: 'jean@example.org' }, error: 'Database error' }]
+      });
+
+      const result = await syncEmployeesFromDirectory();
+
+      expect(mockUpsertEmployees).toHaveBeenCalledWith([expect.objectContaining({ email: 'jean@example.org' })], undefined);
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+      expect(result.errorCount).toBe(2);
+      expect(result.errors).toEqual([
+        { dn: 'CN=Salle Reunion,OU=Utilisateurs,DC=example,DC=org', error: 'Prénom, nom ou email manquant' },
+        { email: 'jean@example.org', error: 'Database error' },
+      ]);
+    });
+
+    it('should not write anything when the directory cannot be searched', async () => {
+      mockSearchLdap.mockRejectedValue(new Error('LDAP bind: 49 invalidCredentials'));
+
+      await expect(syncEmployeesFromDirectory()).rejects.toThrow('invalidCredentials');
+      expect(mockUpsertEmployees).not.toHaveBeenCalled();
+    });
+  });
+});
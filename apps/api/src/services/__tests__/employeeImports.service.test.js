@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Unit tests for employeeImports.service.js
+ *
+ * Tests:
+ * - Preview: new rows, changed fields, probable leavers and unchanged employees
+ * - Matching on email, then on the name ignoring case and accents
+ * - Unusable rows: missing name, ambiguous name, row present twice
+ * - Apply: accepted entries only, leavers archived or put in offboarding,
+ *   stored report, audit of each applied entry, refusal when the base
+ *   changed since the preview
+ */
+
+import { jest } from '@jest/globals';
+import { ValidationError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  employee: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  loanLine: {
+    findMany: jest.fn(),
+  },
+  reservation: {
+    updateMany: jest.fn(),
+  },
+  department: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  company: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+  },
+  employeeImport: {
+    create: jest.fn(),
+  },
+  $transaction: jest.fn((callback) => callback(mockPrisma)),
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+const mockInvalidateEntity = jest.fn();
+jest.unstable_mockModule('../cache.service.js', () => ({
+  invalidateEntity: mockInvalidateEntity,
+  getCached: jest.fn(),
+  generateKey: jest.fn(),
+  TTL: {}
+}));
+
+const mockLogCreate = jest.fn();
+const mockLogUpdate = jest.fn();
+jest.unstable_mockModule('../../utils/auditHelpers.js', () => ({
+  logCreate: mockLogCreate,
+  logUpdate: mockLogUpdate,
+  logDelete: jest.fn()
+}));
+
+// Import service after mocks are set up
+const {
+  previewEmployeeImport,
+  applyEmployeeImport,
+} = await import('../employeeImports.service.js');
+
+const employee = (id, firstName, lastName, overrides = {}) => ({
+  id,
+  firstName,
+  lastName,
+  email: null,
+  dept: null,
+  departureDate: null,
+  archivedAt: null,
+  department: null,
+  ...overrides
+});
+
+const woippy = { name: 'Woippy', company: { name: 'Tilly' } };
+
+describe('Employee Imports Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.loanLine.findMany.mockResolvedValue([]);
+    mockPrisma.employeeImport.create.mockImplementation(({ data }) => Promise.resolve({ id: 'import-1', ...data }));
+  });
+
+  describe('previewEmployeeImport', () => {
+    it('should list new rows, changed fields and probable leavers', async () => {
+      mockPrisma.employee.findMany.mockResolvedValueOnce([
+        employee('emp-1', 'Jean', 'Dupont', { email: 'jean.dupont@groupetilly.com', dept: 'Woippy', department: woippy }),
+        employee('emp-2', 'Marie', 'Martin', { dept: 'Woippy', department: woippy }),
+        employee('emp-3', 'Paul', 'Leroy'),
+        employee('emp-4', 'Ancien', 'Salarie', { archivedAt: new Date('2026-01-31') }),
+      ]);
+      mockPrisma.loanLine.findMany.mockResolvedValueOnce([
+        { loan: { employeeId: 'emp-3' } },
+        { loan: { employeeId: 'emp-3' } },
+      ]);
+
+      const diff = await previewEmployeeImport({
+        rows: [
+          { firstName: 'JEAN', lastName: 'DUPONT', email: 'Jean.Dupont@groupetilly.com', dept: 'woippy', company: 'TILLY' },
+          { firstName: 'Marie', lastName: 'Martin', dept: 'Metz', company: 'Tilly' },
+          { firstName: 'Luc', lastName: 'Petit', dept: 'Metz' },
+        ]
+      });
+
+      expect(diff.summary).toEqual({ new: 1, changed: 1, missing: 1, unchanged: 1, errors: 0 });
+      expect(diff.entries).toEqual([
+        expect.objectContaining({
+          key: 'employee:emp-2',
+          type: 'CHANGED',
+          changes: [{ field: 'dept', from: 'Woippy', to: 'Metz' }]
+        }),
+        expect.objectContaining({
+          key: 'row:3',
+          type: 'NEW',
+          data: { firstName: 'Luc', lastName: 'Petit', email: null, dept: 'Metz', company: null }
+        }),
+        expect.objectContaining({ key: 'employee:emp-3', type: 'MISSING', outstandingLines: 2 }),
+      ]);
+    });
+
+    it('should match on the name ignoring case and accents when the file has no email', async () => {
+      mockPrisma.employee.findMany.mockResolvedValueOnce([
+        employee('emp-1', 'François', 'Lefèvre', { email: 'francois.lefevre@groupetilly.com' }),
+      ]);
+
+      const diff = await previewEmployeeImport({
+        rows: [{ firstName: 'Francois', lastName: 'LEFEVRE', dept: 'Metz' }]
+      });
+
+      expect(diff.entries).toEqual([
+        expect.objectContaining({
+          key: 'employee:emp-1',
+          type: 'CHANGED',
+          changes: [{ field: 'dept', from: null, to: 'Metz' }]
+        })
+      ]);
+    });
+
+    it('should propose the reactivation of an archived employee back in the file', async () => {
+      const archivedAt = new Date('2026-01-31');
+      mockPrisma.employee.findMany.mockResolvedValueOnce([
+        employee('emp-1', 'Jean', 'Dupont', { archivedAt }),
+      ]);
+
+      const diff = await previewEmployeeImport({ rows: [{ firstName: 'Jean', lastName: 'Dupont' }] });
+
+      expect(diff.entries[0].changes).toEqual([{ field: 'archivedAt', from: archivedAt, to: null }]);
+    });
+
+    it('should report rows without name, with an ambiguous name or present twice', async () => {
+      mockPrisma.employee.findMany.mockResolvedValueOnce([
+        employee('emp-1', 'Jean', 'Dupont'),
+        employee('emp-2', 'Jean', 'Dupont'),
+        employee('emp-3', 'Marie', 'Martin'),
+      ]);
+
+      const diff = await previewEmployeeImport({
+        rows: [
+          { firstName: 'Jean', lastName: 'Dupont', rowNumber: 2 },
+          { firstName: '  ', lastName: 'Martin', rowNumber: 3 },
+          { firstName: 'Marie', lastName: 'Martin', rowNumber: 4 },
+          { firstName: 'marie', lastName: 'martin', rowNumber: 5 },
+          { firstName: 'Luc', lastName: 'Petit', rowNumber: 6 },
+          { firstName: 'Luc', lastName: 'Petit', rowNumber: 7 },
+        ]
+      });
+
+      expect(diff.errors).toEqual([
+        { rowNumber: 2, name: 'Jean Dupont', error: '2 employés portent ce nom, ajoutez leur email dans le fichier' },
+        { rowNumber: 3, name: 'Martin', error: 'Nom ou Prénom manquant' },
+        { rowNumber: 5, name: 'marie martin', error: 'Employé présent plusieurs fois dans le fichier' },
+        { rowNumber: 7, name: 'Luc Petit', error: 'Employé présent plusieurs fois dans le fichier' },
+      ]);
+      expect(diff.entries.filter(entry => entry.type === 'NEW')).toHaveLength(1);
+    });
+  });
+
+  describe('applyEmployeeImport', () => {
+    const rows = [
+      { firstName: 'Marie', lastName: 'Martin', dept: 'Metz' },
+      { firstName: 'Luc', lastName: 'Petit', email: 'luc.petit@groupetilly.com', dept: 'Metz' },
+    ];
+
+    beforeEach(() => {
+      mockPrisma.employee.findMany.mockResolvedValue([
+        employee('emp-2', 'Marie', 'Martin', { dept: 'Woippy', department: woippy }),
+        employee('emp-3', 'Paul', 'Leroy'),
+        employee('emp-4', 'Anne', 'Roux'),
+      ]);
+      mockPrisma.department.findFirst.mockResolvedValue({ id: 'dept-metz', name: 'Metz', companyId: null });
+      mockPrisma.employee.create.mockImplementation(({ data }) => Promise.resolve({ id: 'emp-new', ...data }));
+      mockPrisma.employee.update.mockImplementation(({ where, data }) => Promise.resolve({ id: where.id, ...data }));
+      mockPrisma.reservation.updateMany.mockResolvedValue({ count: 2 });
+    });
+
+    it('should apply the accepted entries in one transaction and store the report', async () => {
+      // Paul Leroy still holds a laptop, checked again in the transaction
+      mockPrisma.loanLine.findMany
+        .mockResolvedValueOnce([{ loan: { employeeId: 'emp-3' } }])
+        .mockResolvedValueOnce([{ loan: { employeeId: 'emp-3' } }])
+        .mockResolvedValueOnce([]);
+
+      const report = await applyEmployeeImport({
+        fileName: 'rh-2026-10.xlsx',
+        rows,
+        acceptedKeys: ['employee:emp-2', 'row:2', 'employee:emp-3', 'employee:emp-4']
+      }, 'user-1');
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({ isolationLevel: 'Serializable' }));
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp-2' },
+        data: { departmentId: 'dept-metz', dept: 'Metz' }
+      });
+      expect(mockPrisma.employee.create).toHaveBeenCalledWith({
+        data: { firstName: 'Luc', lastName: 'Petit', email: 'luc.petit@groupetilly.com', departmentId: 'dept-metz', dept: 'Metz' }
+      });
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp-3' },
+        data: { departureDate: expect.any(Date) }
+      });
+      expect(mockPrisma.reservation.updateMany).toHaveBeenCalledWith({
+        where: { employeeId: 'emp-4', status: 'ACTIVE' },
+        data: { status: 'CANCELLED' }
+      });
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp-4' },
+        data: { departureDate: expect.any(Date), archivedAt: expect.any(Date) }
+      });
+      expect(report).toMatchObject({
+        fileName: 'rh-2026-10.xlsx',
+        totalRows: 2,
+        createdCount: 1,
+        updatedCount: 1,
+        archivedCount: 1,
+        offboardingCount: 1,
+        rejectedCount: 0,
+        errorCount: 0,
+        createdById: 'user-1'
+      });
+      expect(report.report.applied.map(entry => entry.outcome))
+        .toEqual(['UPDATED', 'CREATED', 'OFFBOARDING_STARTED', 'ARCHIVED']);
+      expect(mockInvalidateEntity).toHaveBeenCalledWith('employees');
+    });
+
+    it('should audit each applied entry on its employee', async () => {
+      const req = { user: { userId: 'user-1' } };
+      mockPrisma.loanLine.findMany
+        .mockResolvedValueOnce([{ loan: { employeeId: 'emp-3' } }])
+        .mockResolvedValueOnce([{ loan: { employeeId: 'emp-3' } }])
+        .mockResolvedValueOnce([]);
+
+      await applyEmployeeImport({
+        fileName: 'rh-2026-10.xlsx',
+        rows,
+        acceptedKeys: ['employee:emp-2', 'row:2', 'employee:emp-3', 'employee:emp-4']
+      }, 'user-1', req);
+
+      expect(mockLogCreate).toHaveBeenCalledWith('EmployeeImport', 'import-1', req, expect.any(Object));
+      expect(mockLogCreate).toHaveBeenCalledWith('Employee', 'emp-new', req, expect.objectContaining({
+        lastName: 'Petit',
+        source: 'HR_IMPORT',
+        importId: 'import-1'
+      }));
+      expect(mockLogUpdate).toHaveBeenCalledWith('Employee', 'emp-2', req,
+        { dept: 'Woippy' },
+        { dept: 'Metz', source: 'HR_IMPORT', importId: 'import-1' }
+      );
+      expect(mockLogUpdate).toHaveBeenCalledWith('Employee', 'emp-3', req,
+        { departureDate: null },
+        expect.objectContaining({ action: 'OFFBOARDING_STARTED', source: 'HR_IMPORT' })
+      );
+      expect(mockLogUpdate).toHaveBeenCalledWith('Employee', 'emp-4', req,
+        { archivedAt: null, departureDate: null },
+        expect.objectContaining({ action: 'ARCHIVED', cancelledReservations: 2, source: 'HR_IMPORT' })
+      );
+    });
+
+    it('should audit the reactivation of an archived employee', async () => {
+      const req = { user: { userId: 'user-1' } };
+      mockPrisma.employee.findMany.mockResolvedValue([
+        employee('emp-5', 'Julie', 'Blanc', { archivedAt: new Date('2026-01-31') }),
+      ]);
+
+      await applyEmployeeImport({
+        fileName: 'rh.xlsx',
+        rows: [{ firstName: 'Julie', lastName: 'Blanc' }],
+        acceptedKeys: ['employee:emp-5']
+      }, 'user-1', req);
+
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp-5' },
+        data: { archivedAt: null, departureDate: null }
+      });
+      expect(mockLogUpdate).toHaveBeenCalledWith('Employee', 'emp-5', req,
+        { archivedAt: new Date('2026-01-31') },
+        { archivedAt: null, action: 'UNARCHIVED', source: 'HR_IMPORT', importId: 'import-1' }
+      );
+    });
+
+    it('should keep the rejected entries in the report without applying them', async () => {
+      const report = await applyEmployeeImport({ fileName: 'rh.xlsx', rows, acceptedKeys: ['row:2'] }, 'user-1');
+
+      expect(mockPrisma.employee.update).not.toHaveBeenCalled();
+      expect(report.rejectedCount).toBe(3);
+      expect(report.report.rejected.map(entry => entry.key))
+        .toEqual(['employee:emp-2', 'employee:emp-3', 'employee:emp-4']);
+    });
+
+    it('should refuse keys no longer in the diff', async () => {
+      await expect(applyEmployeeImport({
+        fileName: 'rh.xlsx',
+        rows,
+        acceptedKeys: ['employee:emp-9']
+      }, 'user-1')).rejects.toThrow(ValidationError);
+
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      expect(mockPrisma.employeeImport.create).not.toHaveBeenCalled();
+    });
+  });
+});
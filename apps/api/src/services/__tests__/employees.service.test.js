@@ -4,8 +4,11 @@
  * - Employee CRUD operations
  * - Email uniqueness validation
  * - Loan history tracking
- * - Deletion constraints (prevents deletion if employee has loans)
+ * - Purge constraints (prevents deletion if employee has any history)
+ * - Archiving and reactivation
  * - Bulk creation with duplicate handling
+ * - Upsert matched on email, disabling flagged employees, audit of sync changes
+ * - Offboarding checklist and completion
  */
 
 import { jest } from '@jest/globals';
@@ -16,6 +19,7 @@ const mockPrisma = {
   employee: {
     findMany: jest.fn(),
     findUnique: jest.fn(),
+    count: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
     delete: jest.fn(),
@@ -25,8 +29,22 @@ const mockPrisma = {
     deleteMany: jest.fn(),
   },
   loanLine: {
+    findMany: jest.fn(),
     deleteMany: jest.fn(),
   },
+  reservation: {
+    count: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  department: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  company: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+  },
   $transaction: jest.fn((callback) => {
     // Execute the callback with the mock prisma client as transaction
     return callback(mockPrisma);
@@ -38,14 +56,29 @@ jest.unstable_mockModule('../../config/database.js', () => ({
   default: mockPrisma
 }));
 
+const mockLogCreate = jest.fn();
+const mockLogUpdate = jest.fn();
+jest.unstable_mockModule('../../utils/auditHelpers.js', () => ({
+  logCreate: mockLogCreate,
+  logUpdate: mockLogUpdate,
+  logDelete: jest.fn()
+}));
+
 // Import service after mocks are set up
 const {
   getAllEmployees,
+  getAllEmployeesPaginated,
   getEmployeeById,
   createEmployee,
   bulkCreateEmployees,
+  upsertEmployees,
   updateEmployee,
   deleteEmployee,
+  archiveEmployee,
+  unarchiveEmployee,
+  getEmployeeOffboarding,
+  startEmployeeOffboarding,
+  completeEmployeeOffboarding,
 } = await import('../employees.service.js');
 
 describe('Employees Service', () => {
@@ -132,6 +165,13 @@ describe('Employees Service', () => {
       expect(mockPrisma.employee.findUnique).toHaveBeenCalledWith({
         where: { id: 'emp1' },
         include: {
+          department: {
+            select: {
+              id: true,
+              name: true,
+              company: { select: { id: true, name: true } }
+            }
+          },
           loans: {
             orderBy: { openedAt: 'desc' },
             take: 10
@@ -339,6 +379,132 @@ describe('Employees Service', () => {
     });
   });
 
+  describe('upsertEmployees', () => {
+    const existing = (overrides = {}) => ({
+      id: 'emp1',
+      firstName: 'Jean',
+      lastName: 'Dupont',
+      email: 'jean@example.com',
+      departmentId: 'dept-woippy',
+      managerId: null,
+      departureDate: null,
+      archivedAt: null,
+      ...overrides
+    });
+
+    beforeEach(() => {
+      mockPrisma.employee.create.mockResolvedValue({});
+      mockPrisma.employee.update.mockResolvedValue({});
+      mockPrisma.company.findFirst.mockResolvedValue(null);
+      mockPrisma.department.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve({ id: `dept-${where.name.equals.toLowerCase()}`, name: where.name.equals, companyId: null }));
+    });
+
+    it('should create new employees and update changed ones', async () => {
+      mockPrisma.employee.findMany.mockResolvedValue([existing()]);
+
+      mockPrisma.employee.create.mockResolvedValueOnce({ id: 'emp2', email: 'marie@example.com' });
+      const req = { user: { userId: 'admin1' } };
+
+      const result = await upsertEmployees([
+        { firstName: 'Jean', lastName: 'Dupont-Moreau', email: 'JEAN@example.com', dept: 'Metz', managerId: 'user1' },
+        { firstName: 'Marie', lastName: 'Martin', email: 'marie@example.com', dept: 'Woippy' }
+      ], req);
+
+      expect(result).toEqual({ created: 1, updated: 1, disabled: 0, unchanged: 0, archived: 0, skipped: 0, errors: [] });
+      expect(mockPrisma.employee.findMany).toHaveBeenCalledWith({
+        where: { email: { in: ['JEAN@example.com', 'marie@example.com'], mode: 'insensitive' } }
+      });
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp1' },
+        data: { lastName: 'Dupont-Moreau', departmentId: 'dept-metz', dept: 'Metz', managerId: 'user1' }
+      });
+      expect(mockPrisma.employee.create).toHaveBeenCalledWith({
+        data: { firstName: 'Marie', lastName: 'Martin', email: 'marie@example.com', dept: 'Woippy', departmentId: 'dept-woippy' }
+      });
+      expect(mockLogUpdate).toHaveBeenCalledWith('Employee', 'emp1', req,
+        { lastName: 'Dupont', departmentId: 'dept-woippy', dept: null, managerId: null },
+        { lastName: 'Dupont-Moreau', departmentId: 'dept-metz', dept: 'Metz', managerId: 'user1', source: 'DIRECTORY_SYNC' }
+      );
+      expect(mockLogCreate).toHaveBeenCalledWith('Employee', 'emp2', req, { id: 'emp2', email: 'marie@example.com' });
+    });
+
+    it('should leave up-to-date employees untouched and keep fields without value', async () => {
+      mockPrisma.employee.findMany.mockResolvedValue([existing({ managerId: 'user1' })]);
+
+      const result = await upsertEmployees([
+        { firstName: 'Jean', lastName: 'Dupont', email: 'jean@example.com', dept: 'Woippy' }
+      ]);
+
+      expect(result.unchanged).toBe(1);
+      expect(mockPrisma.employee.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave an archived employee listed as active untouched and report it', async () => {
+      mockPrisma.employee.findMany.mockResolvedValue([existing({ archivedAt: new Date(), departureDate: new Date() })]);
+
+      const result = await upsertEmployees([{ firstName: 'Jean', lastName: 'Dupont-Moreau', email: 'jean@example.com' }]);
+
+      expect(result).toEqual({ created: 0, updated: 0, disabled: 0, unchanged: 0, archived: 1, skipped: 0, errors: [] });
+      expect(mockPrisma.employee.update).not.toHaveBeenCalled();
+      expect(mockLogUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should archive disabled employees, or start their offboarding while lines are outstanding', async () => {
+      mockPrisma.employee.findMany.mockResolvedValue([
+        existing(),
+        existing({ id: 'emp2', email: 'marie@example.com' }),
+        existing({ id: 'emp3', email: 'paul@example.com', archivedAt: new Date() })
+      ]);
+      mockPrisma.loanLine.findMany
+        .mockResolvedValueOnce([]) // Jean: nothing on loan
+        .mockResolvedValueOnce([]) // Jean: checked again while archiving
+        .mockResolvedValueOnce([{ id: 'line1' }]); // Marie still holds a laptop
+      mockPrisma.reservation.updateMany.mockResolvedValue({ count: 0 });
+
+      const req = { user: { userId: 'admin1' } };
+
+      const result = await upsertEmployees([
+        { firstName: 'Jean', lastName: 'Dupont', email: 'jean@example.com', disabled: true },
+        { firstName: 'Marie', lastName: 'Martin', email: 'marie@example.com', disabled: true },
+        { firstName: 'Paul', lastName: 'Leroy', email: 'paul@example.com', disabled: true },
+        { firstName: 'Luc', lastName: 'Petit', email: 'luc@example.com', disabled: true }
+      ], req);
+
+      expect(result).toEqual({ created: 0, updated: 0, disabled: 2, unchanged: 1, archived: 0, skipped: 1, errors: [] });
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp1' },
+        data: { archivedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp2' },
+        data: { departureDate: expect.any(Date) }
+      });
+      expect(mockPrisma.employee.create).not.toHaveBeenCalled();
+      expect(mockLogUpdate).toHaveBeenCalledWith('Employee', 'emp1', req, { archivedAt: null },
+        expect.objectContaining({ action: 'ARCHIVED', source: 'DIRECTORY_SYNC' }));
+      expect(mockLogUpdate).toHaveBeenCalledWith('Employee', 'emp2', req, { departureDate: null },
+        expect.objectContaining({ action: 'OFFBOARDING_STARTED', source: 'DIRECTORY_SYNC' }));
+      expect(mockLogUpdate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report rows without email and skip duplicates', async () => {
+      mockPrisma.employee.findMany.mockResolvedValue([]);
+
+      const result = await upsertEmployees([
+        { firstName: 'Jean', lastName: 'Dupont' },
+        { firstName: 'Marie', lastName: 'Martin', email: 'marie@example.com' },
+        { firstName: 'Marie', lastName: 'Martin', email: 'MARIE@example.com' }
+      ]);
+
+      expect(result.created).toBe(1);
+      expect(result.skipped).toBe(1);
+      expect(result.errors).toEqual([
+        { row: 1, data: { firstName: 'Jean', lastName: 'Dupont' }, error: 'Email manquant' }
+      ]);
+    });
+  });
+
   describe('updateEmployee', () => {
     const mockEmployeeId = 'emp1';
     const mockExistingEmployee = {
@@ -448,11 +614,11 @@ describe('Employees Service', () => {
         id: mockEmployeeId,
         firstName: 'Jean',
         lastName: 'Dupont',
-        loans: [] // No loans
+        loans: [], // No loans
+        _count: { reservations: 0 }
       };
 
       mockPrisma.employee.findUnique.mockResolvedValue(mockEmployee);
-      mockPrisma.loan.findMany.mockResolvedValue([]); // No soft-deleted loans
       mockPrisma.employee.delete.mockResolvedValue(mockEmployee);
 
       const result = await deleteEmployee(mockEmployeeId);
@@ -461,9 +627,10 @@ describe('Employees Service', () => {
         where: { id: mockEmployeeId },
         include: {
           loans: {
-            where: {
-              deletedAt: null
-            }
+            select: { id: true, status: true, deletedAt: true }
+          },
+          _count: {
+            select: { reservations: true }
           }
         }
       });
@@ -539,65 +706,188 @@ describe('Employees Service', () => {
         .rejects.toThrow('1 prêt(s) actif(s) et 2 prêt(s) fermé(s)');
     });
 
-    it('should delete soft-deleted loans in cascade before deleting employee', async () => {
+    it('should refuse to purge an employee whose loans are in the trash', async () => {
       const mockEmployee = {
         id: mockEmployeeId,
-        loans: [] // No active loans
+        loans: [
+          { id: 'loan1', status: 'CLOSED', deletedAt: new Date() },
+          { id: 'loan2', status: 'OPEN', deletedAt: new Date() }
+        ],
+        _count: { reservations: 0 }
       };
 
-      const softDeletedLoans = [
-        { id: 'loan1' },
-        { id: 'loan2' }
-      ];
-
       mockPrisma.employee.findUnique.mockResolvedValue(mockEmployee);
-      mockPrisma.loan.findMany.mockResolvedValue(softDeletedLoans);
-      mockPrisma.loanLine.deleteMany.mockResolvedValue({ count: 5 });
-      mockPrisma.loan.deleteMany.mockResolvedValue({ count: 2 });
-      mockPrisma.employee.delete.mockResolvedValue(mockEmployee);
 
-      const result = await deleteEmployee(mockEmployeeId);
+      await expect(deleteEmployee(mockEmployeeId))
+        .rejects.toThrow('2 prêt(s) dans la corbeille');
 
-      // Should delete LoanLines first
-      expect(mockPrisma.loanLine.deleteMany).toHaveBeenCalledWith({
-        where: {
-          loanId: { in: ['loan1', 'loan2'] }
-        }
+      expect(mockPrisma.loanLine.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrisma.loan.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrisma.employee.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to purge an employee with reservations', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({
+        id: mockEmployeeId,
+        loans: [],
+        _count: { reservations: 1 }
+      });
+
+      await expect(deleteEmployee(mockEmployeeId))
+        .rejects.toThrow('1 réservation(s)');
+      expect(mockPrisma.employee.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('archiving', () => {
+    it('should list only active employees by default', async () => {
+      mockPrisma.employee.findMany.mockResolvedValue([]);
+      mockPrisma.employee.count.mockResolvedValue(0);
+
+      await getAllEmployeesPaginated({ page: 1, pageSize: 20 });
+
+      expect(mockPrisma.employee.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { archivedAt: null }
+      }));
+    });
+
+    it('should include archived employees on request', async () => {
+      mockPrisma.employee.findMany.mockResolvedValue([]);
+      mockPrisma.employee.count.mockResolvedValue(0);
+
+      await getAllEmployeesPaginated({ includeArchived: true, page: 1, pageSize: 20 });
+
+      expect(mockPrisma.employee.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {}
+      }));
+    });
+
+    it('should archive an employee without outstanding lines', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'emp1', archivedAt: null });
+      mockPrisma.loanLine.findMany.mockResolvedValue([]);
+      mockPrisma.reservation.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.employee.update.mockResolvedValue({ id: 'emp1', archivedAt: new Date() });
+
+      const result = await archiveEmployee('emp1');
+
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp1' },
+        data: { archivedAt: expect.any(Date) }
+      });
+      expect(result.archivedAt).toEqual(expect.any(Date));
+    });
+
+    it('should refuse to archive while lines are outstanding', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'emp1', archivedAt: null });
+      mockPrisma.loanLine.findMany.mockResolvedValue([{ id: 'line1' }]);
+
+      await expect(archiveEmployee('emp1'))
+        .rejects.toThrow('Archivage impossible : 1 article(s)');
+      expect(mockPrisma.employee.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to archive twice', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'emp1', archivedAt: new Date() });
+
+      await expect(archiveEmployee('emp1')).rejects.toThrow('déjà archivé');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reactivate an archived employee and clear the departure date', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({
+        id: 'emp1',
+        departureDate: new Date('2026-10-31'),
+        archivedAt: new Date('2026-11-02')
+      });
+      mockPrisma.employee.update.mockResolvedValue({ id: 'emp1', departureDate: null, archivedAt: null });
+
+      await unarchiveEmployee('emp1');
+
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp1' },
+        data: { archivedAt: null, departureDate: null }
       });
+    });
+
+    it('should refuse to reactivate an active employee', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'emp1', archivedAt: null });
+
+      await expect(unarchiveEmployee('emp1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.employee.update).not.toHaveBeenCalled();
+    });
+  });
 
-      // Then delete Loans
-      expect(mockPrisma.loan.deleteMany).toHaveBeenCalledWith({
+  describe('offboarding', () => {
+    const leaver = { id: 'emp1', firstName: 'Jean', lastName: 'Dupont', departureDate: new Date('2026-10-31'), archivedAt: null };
+    const outstandingLine = { id: 'line1', loanId: 'loan1', assetItemId: 'asset1', stockItemId: null, quantity: 1 };
+
+    it('should list the outstanding lines of open loans', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue(leaver);
+      mockPrisma.loanLine.findMany.mockResolvedValue([outstandingLine]);
+      mockPrisma.reservation.count.mockResolvedValue(2);
+
+      const result = await getEmployeeOffboarding('emp1');
+
+      expect(mockPrisma.loanLine.findMany).toHaveBeenCalledWith(expect.objectContaining({
         where: {
-          id: { in: ['loan1', 'loan2'] }
+          returnedAt: null,
+          loan: { employeeId: 'emp1', status: 'OPEN', deletedAt: null }
         }
+      }));
+      expect(result).toEqual({
+        employee: leaver,
+        outstandingLines: [outstandingLine],
+        activeReservations: 2,
+        canComplete: false
       });
+    });
 
-      // Finally delete Employee
-      expect(mockPrisma.employee.delete).toHaveBeenCalledWith({
-        where: { id: mockEmployeeId }
+    it('should record the departure date', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ ...leaver, departureDate: null });
+      mockPrisma.loanLine.findMany.mockResolvedValue([]);
+      mockPrisma.reservation.count.mockResolvedValue(0);
+
+      await startEmployeeOffboarding('emp1', { departureDate: new Date('2026-10-31') });
+
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp1' },
+        data: { departureDate: new Date('2026-10-31') }
       });
+    });
 
-      expect(result).toEqual({ message: 'Employé supprimé avec succès' });
+    it('should refuse to complete while lines are outstanding', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue(leaver);
+      mockPrisma.loanLine.findMany.mockResolvedValue([outstandingLine]);
+
+      await expect(completeEmployeeOffboarding('emp1'))
+        .rejects.toThrow('1 article(s) à restituer, transférer ou passer en perte');
+      expect(mockPrisma.employee.update).not.toHaveBeenCalled();
     });
 
-    it('should only count non-deleted loans when checking deletion constraint', async () => {
-      const mockEmployee = {
-        id: mockEmployeeId,
-        loans: [] // Only non-deleted loans (soft-deleted excluded by query)
-      };
+    it('should refuse to complete without departure date', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ ...leaver, departureDate: null });
 
-      // Has soft-deleted loans but they don't prevent deletion
-      mockPrisma.employee.findUnique.mockResolvedValue(mockEmployee);
-      mockPrisma.loan.findMany.mockResolvedValue([
-        { id: 'soft-deleted-loan', deletedAt: new Date() }
-      ]);
-      mockPrisma.loanLine.deleteMany.mockResolvedValue({ count: 1 });
-      mockPrisma.loan.deleteMany.mockResolvedValue({ count: 1 });
-      mockPrisma.employee.delete.mockResolvedValue(mockEmployee);
+      await expect(completeEmployeeOffboarding('emp1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
 
-      const result = await deleteEmployee(mockEmployeeId);
+    it('should archive the employee and cancel their reservations', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue(leaver);
+      mockPrisma.loanLine.findMany.mockResolvedValue([]);
+      mockPrisma.reservation.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.employee.update.mockResolvedValue({ ...leaver, archivedAt: new Date() });
 
-      expect(result).toEqual({ message: 'Employé supprimé avec succès' });
+      const result = await completeEmployeeOffboarding('emp1');
+
+      expect(mockPrisma.reservation.updateMany).toHaveBeenCalledWith({
+        where: { employeeId: 'emp1', status: 'ACTIVE' },
+        data: { status: 'CANCELLED' }
+      });
+      expect(mockPrisma.employee.update).toHaveBeenCalledWith({
+        where: { id: 'emp1' },
+        data: { archivedAt: expect.any(Date) }
+      });
+      expect(result.archivedAt).toEqual(expect.any(Date));
     });
   });
 });
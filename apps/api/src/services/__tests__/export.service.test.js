@@ -7,7 +7,8 @@
  * - Asset item export with filters
  * - Stock item export with filters
  * - Loan export with filters
- * - Dashboard multi-sheet export
+ * - Disposal register export (retired items)
+ * - Dashboard multi-sheet export (including fleet valuation)
  * - Date formatting
  * - Column width configuration
  */
@@ -16,6 +17,7 @@ import { jest } from '@jest/globals';
 
 // Mock XLSX before importing service
 const mockJsonToSheet = jest.fn(() => ({}));
+const mockAoaToSheet = jest.fn(() => ({}));
 const mockBookNew = jest.fn(() => ({ SheetNames: [], Sheets: {} }));
 const mockBookAppendSheet = jest.fn();
 const mockWrite = jest.fn(() => Buffer.from('mock-xlsx-data'));
@@ -24,6 +26,7 @@ jest.unstable_mockModule('xlsx', () => ({
   default: {
     utils: {
       json_to_sheet: mockJsonToSheet,
+      aoa_to_sheet: mockAoaToSheet,
       book_new: mockBookNew,
       book_append_sheet: mockBookAppendSheet,
     },
@@ -48,6 +51,9 @@ const mockPrisma = {
   loan: {
     findMany: jest.fn(),
   },
+  equipmentType: {
+    findMany: jest.fn(),
+  },
   $queryRaw: jest.fn(),
 };
 
@@ -61,7 +67,9 @@ const {
   exportAssetModels,
   exportAssetItems,
   exportStockItems,
+  exportReorderList,
   exportLoans,
+  exportDisposalRegister,
   exportDashboard,
 } = await import('../export.service.js');
 
@@ -70,6 +78,7 @@ describe('Export Service', () => {
     jest.clearAllMocks();
     // Re-establish default mock implementations
     mockJsonToSheet.mockReturnValue({});
+    mockAoaToSheet.mockReturnValue({});
     mockBookNew.mockReturnValue({ SheetNames: [], Sheets: {} });
     mockWrite.mockReturnValue(Buffer.from('mock-xlsx-data'));
   });
@@ -105,6 +114,7 @@ describe('Export Service', () => {
             firstName: true,
             email: true,
             dept: true,
+            department: { select: { company: { select: { name: true } } } },
             createdAt: true,
           },
         })
@@ -167,6 +177,21 @@ describe('Export Service', () => {
       );
     });
 
+    it('should apply department and company filters', async () => {
+      mockPrisma.employee.findMany.mockResolvedValue([]);
+
+      await exportEmployees({ departmentId: 'dept-001', companyId: 'company-001' });
+
+      expect(mockPrisma.employee.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            departmentId: 'dept-001',
+            department: { companyId: 'company-001' },
+          },
+        })
+      );
+    });
+
     it('should apply both search and department filters', async () => {
       mockPrisma.employee.findMany.mockResolvedValue([]);
 
@@ -297,6 +322,9 @@ describe('Export Service', () => {
             assetModel: {
               select: { type: true, brand: true, modelName: true },
             },
+            supplier: {
+              select: { name: true },
+            },
           },
         })
       );
@@ -354,6 +382,37 @@ describe('Export Service', () => {
       );
     });
 
+    it('should export purchase and warranty columns', async () => {
+      const mockItems = [
+        {
+          assetTag: 'LAP-002',
+          serial: 'SN456',
+          status: 'EN_STOCK',
+          notes: null,
+          invoiceNumber: 'FA-2025-0042',
+          purchaseDate: new Date('2025-03-10'),
+          purchasePriceCents: 89950,
+          warrantyEndsAt: new Date('2028-03-10'),
+          createdAt: new Date('2025-03-12'),
+          assetModel: { type: 'Laptop', brand: 'Dell', modelName: 'XPS 15' },
+          supplier: { name: 'LDLC Pro' },
+        },
+      ];
+      mockPrisma.assetItem.findMany.mockResolvedValue(mockItems);
+
+      await exportAssetItems();
+
+      expect(mockJsonToSheet).toHaveBeenCalledWith([
+        expect.objectContaining({
+          Fournisseur: 'LDLC Pro',
+          'N\u00b0 facture': 'FA-2025-0042',
+          "Date d'achat": '10/03/2025',
+          "Prix d'achat (\u20ac)": 899.5,
+          'Fin de garantie': '10/03/2028',
+        }),
+      ]);
+    });
+
     it('should display N/A for missing serial number', async () => {
       const mockItems = [
         {
@@ -431,15 +490,22 @@ describe('Export Service', () => {
     });
 
     it('should apply lowStock filter', async () => {
-      mockPrisma.stockItem.findMany.mockResolvedValue([]);
+      const assetModel = { type: 'Cable', brand: 'Generic', modelName: 'USB-C' };
+      mockPrisma.stockItem.findMany.mockResolvedValue([
+        { quantity: 3, loaned: 2, minQuantity: 2, createdAt: new Date('2024-01-15'), assetModel },
+        { quantity: 10, loaned: 0, minQuantity: 2, createdAt: new Date('2024-01-15'), assetModel },
+      ]);
 
       await exportStockItems({ lowStock: true });
 
       expect(mockPrisma.stockItem.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { quantity: { lt: 5 } },
+          where: { minQuantity: { gt: 0 } },
         })
       );
+      expect(mockJsonToSheet).toHaveBeenCalledWith([
+        expect.objectContaining({ 'Quantit\u00e9 disponible': 3, 'Stock minimum': 2 }),
+      ]);
     });
 
     it('should not apply lowStock filter when false', async () => {
@@ -455,6 +521,38 @@ describe('Export Service', () => {
     });
   });
 
+  describe('exportReorderList', () => {
+    it('should export one sheet per supplier with the quantities to order', async () => {
+      const assetModel = { type: 'Cable', brand: 'Generic', modelName: 'USB-C' };
+      mockPrisma.stockItem.findMany.mockResolvedValue([
+        {
+          id: 'stock1', quantity: 3, loaned: 2, minQuantity: 5, reorderQuantity: 10, location: 'Réserve', assetModel,
+          supplier: { id: 'sup1', name: 'Acme/Câbles', contactName: 'Jean', email: 'jean@acme.fr', phone: null },
+        },
+        { id: 'stock2', quantity: 0, loaned: 0, minQuantity: 2, reorderQuantity: 0, location: null, assetModel, supplier: null },
+        { id: 'stock3', quantity: 20, loaned: 0, minQuantity: 5, reorderQuantity: 10, location: null, assetModel, supplier: null },
+      ]);
+
+      const result = await exportReorderList();
+
+      expect(mockPrisma.stockItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { minQuantity: { gt: 0 } } })
+      );
+      expect(mockAoaToSheet).toHaveBeenCalledTimes(2);
+      expect(mockAoaToSheet.mock.calls[0][0]).toEqual(expect.arrayContaining([
+        ['Fournisseur', 'Acme/Câbles'],
+        ['Contact', 'Jean - jean@acme.fr'],
+        ['Cable', 'Generic', 'USB-C', 'Réserve', 1, 5, 10],
+      ]));
+      expect(mockAoaToSheet.mock.calls[1][0]).toEqual(expect.arrayContaining([
+        ['Cable', 'Generic', 'USB-C', '', 0, 2, 2],
+      ]));
+      expect(mockBookAppendSheet).toHaveBeenCalledWith(expect.anything(), expect.anything(), 'Acme Câbles', true);
+      expect(mockBookAppendSheet).toHaveBeenCalledWith(expect.anything(), expect.anything(), 'Sans fournisseur', true);
+      expect(result).toBeInstanceOf(Buffer);
+    });
+  });
+
   describe('exportLoans', () => {
     it('should export all loans without filters', async () => {
       const mockLoans = [
@@ -524,6 +622,18 @@ describe('Export Service', () => {
       );
     });
 
+    it('should filter by department of the employee', async () => {
+      mockPrisma.loan.findMany.mockResolvedValue([]);
+
+      await exportLoans({ departmentId: 'dept-001' });
+
+      expect(mockPrisma.loan.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { employee: { departmentId: 'dept-001' } },
+        })
+      );
+    });
+
     it('should apply date range filter', async () => {
       mockPrisma.loan.findMany.mockResolvedValue([]);
 
@@ -610,6 +720,60 @@ describe('Export Service', () => {
     });
   });
 
+  describe('exportDisposalRegister', () => {
+    it('should export retired items with their disposal details', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue([
+        {
+          assetTag: 'LAP-001',
+          serial: 'SN123',
+          assetModel: { type: 'Laptop', brand: 'Dell', modelName: 'XPS 15' },
+          disposalReason: 'DON',
+          disposedAt: new Date('2026-10-15'),
+          disposalCertificateRef: 'CERT-42',
+          dataWipeConfirmed: true,
+          purchasePriceCents: 129900,
+          disposalNote: null,
+          disposedBy: { email: 'manager@test.com' },
+        },
+      ]);
+
+      const result = await exportDisposalRegister();
+
+      expect(mockPrisma.assetItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'REFORME' },
+          orderBy: [{ disposedAt: 'asc' }, { assetTag: 'asc' }],
+        })
+      );
+      expect(mockJsonToSheet).toHaveBeenCalledWith([
+        expect.objectContaining({
+          Tag: 'LAP-001',
+          Motif: 'Don',
+          'Date de sortie': '15/10/2026',
+          Certificat: 'CERT-42',
+          'Effacement donn\u00e9es': 'Oui',
+          "Prix d'achat (\u20ac)": 1299,
+          'R\u00e9form\u00e9 par': 'manager@test.com',
+        }),
+      ]);
+      expect(mockBookAppendSheet).toHaveBeenCalledWith(expect.anything(), expect.anything(), 'Registre des sorties');
+      expect(result).toBeInstanceOf(Buffer);
+    });
+
+    it('should filter on the disposal period and reason', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue([]);
+      const from = new Date('2026-01-01');
+
+      await exportDisposalRegister({ from, reason: 'VOL' });
+
+      expect(mockPrisma.assetItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'REFORME', disposalReason: 'VOL', disposedAt: { gte: from } },
+        })
+      );
+    });
+  });
+
   describe('exportDashboard', () => {
     it('should create multi-sheet workbook with all data', async () => {
       // Mock stats query
@@ -630,7 +794,7 @@ describe('Export Service', () => {
         { lastName: 'Doe', firstName: 'John', email: 'john@test.com', dept: 'IT' },
       ]);
 
-      // Mock asset items (called twice: all items + EN_STOCK only)
+      // Mock asset items (called three times: all items, EN_STOCK only, valuation)
       mockPrisma.assetItem.findMany
         .mockResolvedValueOnce([
           {
@@ -644,7 +808,9 @@ describe('Export Service', () => {
             assetTag: 'LAP-001',
             assetModel: { type: 'Laptop', brand: 'Dell', modelName: 'XPS 15' },
           },
-        ]);
+        ])
+        .mockResolvedValueOnce([]);
+      mockPrisma.equipmentType.findMany.mockResolvedValue([]);
 
       // Mock loans
       mockPrisma.loan.findMany.mockResolvedValue([
@@ -658,8 +824,8 @@ describe('Export Service', () => {
 
       const result = await exportDashboard();
 
-      // Should create 5 sheets: Vue d'ensemble, Employes, Equipements, Stock, Prets Actifs
-      expect(mockBookAppendSheet).toHaveBeenCalledTimes(5);
+      // Should create 6 sheets: Vue d'ensemble, Employes, Equipements, Stock, Prets Actifs, Valorisation
+      expect(mockBookAppendSheet).toHaveBeenCalledTimes(6);
       expect(mockBookAppendSheet).toHaveBeenCalledWith(
         expect.anything(),
         expect.anything(),
@@ -685,6 +851,11 @@ describe('Export Service', () => {
         expect.anything(),
         'Pr\u00eats Actifs'
       );
+      expect(mockBookAppendSheet).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        'Valorisation'
+      );
       expect(result).toBeInstanceOf(Buffer);
     });
 
@@ -693,11 +864,12 @@ describe('Export Service', () => {
       mockPrisma.employee.findMany.mockResolvedValue([]);
       mockPrisma.assetItem.findMany.mockResolvedValue([]);
       mockPrisma.loan.findMany.mockResolvedValue([]);
+      mockPrisma.equipmentType.findMany.mockResolvedValue([]);
 
       const result = await exportDashboard();
 
-      // Should still produce a workbook with 5 sheets
-      expect(mockBookAppendSheet).toHaveBeenCalledTimes(5);
+      // Should still produce a workbook with 6 sheets
+      expect(mockBookAppendSheet).toHaveBeenCalledTimes(6);
       expect(result).toBeInstanceOf(Buffer);
     });
 
@@ -706,6 +878,7 @@ describe('Export Service', () => {
       mockPrisma.employee.findMany.mockResolvedValue([]);
       mockPrisma.assetItem.findMany.mockResolvedValue([]);
       mockPrisma.loan.findMany.mockResolvedValue([]);
+      mockPrisma.equipmentType.findMany.mockResolvedValue([]);
 
       await exportDashboard();
 
@@ -722,6 +895,7 @@ describe('Export Service', () => {
       mockPrisma.employee.findMany.mockResolvedValue([]);
       mockPrisma.assetItem.findMany.mockResolvedValue([]);
       mockPrisma.loan.findMany.mockResolvedValue([]);
+      mockPrisma.equipmentType.findMany.mockResolvedValue([]);
 
       await exportDashboard();
 
@@ -732,5 +906,39 @@ describe('Export Service', () => {
         })
       );
     });
+
+    it('should add the valuation sheet grouped by type and department', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{}]);
+      mockPrisma.employee.findMany.mockResolvedValue([]);
+      mockPrisma.loan.findMany.mockResolvedValue([]);
+      mockPrisma.equipmentType.findMany.mockResolvedValue([{ name: 'Laptop', depreciationYears: null }]);
+      mockPrisma.assetItem.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          {
+            purchasePriceCents: 129900,
+            purchaseDate: new Date('2026-01-15'),
+            assetModel: { type: 'Laptop' },
+            loanLines: [{ loan: { employee: { dept: 'IT' } } }],
+          },
+        ]);
+
+      await exportDashboard();
+
+      expect(mockPrisma.assetItem.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { purchasePriceCents: { not: null }, status: { not: 'REFORME' } } })
+      );
+      const rows = mockJsonToSheet.mock.calls[5][0];
+      expect(rows).toHaveLength(3);
+      expect(rows[0]).toMatchObject({
+        Regroupement: 'Type',
+        Libellé: 'Laptop',
+        'Nb Équipements': 1,
+        'Valeur actuelle (€)': 1299,
+      });
+      expect(rows[1]).toMatchObject({ Regroupement: 'Département', Libellé: 'IT' });
+      expect(rows[2]).toMatchObject({ Regroupement: 'Total', "Valeur d'achat (€)": 1299 });
+    });
   });
 });
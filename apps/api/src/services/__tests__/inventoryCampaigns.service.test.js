@@ -0,0 +1,437 @@
+/**
+ * @fileoverview Unit tests for inventoryCampaigns.service.js
+ *
+ * Tests:
+ * - Reconciliation report: found, missing, unexpected and stock variances
+ * - Checking off asset items (scanned code, duplicates, missing flag cleared)
+ * - Stock counts restricted to the campaign scope
+ * - Closing freezes the report
+ * - Applying stock corrections and flagging missing items on closed campaigns only
+ */
+
+import { jest } from '@jest/globals';
+import { NotFoundError, ValidationError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  inventoryCampaign: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  inventoryAssetCheck: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    delete: jest.fn(),
+  },
+  inventoryStockCount: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    upsert: jest.fn(),
+  },
+  assetItem: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  stockItem: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  equipmentType: {
+    findUnique: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+const mockInvalidateEntity = jest.fn();
+jest.unstable_mockModule('../cache.service.js', () => ({
+  invalidateEntity: mockInvalidateEntity
+}));
+
+const mockResolveAssetItemCode = jest.fn();
+jest.unstable_mockModule('../search.service.js', () => ({
+  resolveAssetItemCode: mockResolveAssetItemCode
+}));
+
+const mockAdjustStockQuantity = jest.fn();
+jest.unstable_mockModule('../stockItems.service.js', () => ({
+  adjustStockQuantity: mockAdjustStockQuantity
+}));
+
+// Import service after mocks are set up
+const {
+  getReconciliationReport,
+  createInventoryCampaign,
+  checkAssetItem,
+  countStockItem,
+  closeInventoryCampaign,
+  applyStockCorrections,
+  flagMissingItems,
+} = await import('../inventoryCampaigns.service.js');
+
+const laptopModel = { type: 'Ordinateur portable', brand: 'Dell', modelName: 'Latitude 5440' };
+
+const openCampaign = {
+  id: 'campaign-1',
+  status: 'OPEN',
+  equipmentType: 'Ordinateur portable',
+  location: 'Siège',
+  report: null
+};
+
+describe('InventoryCampaigns Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((arg) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+    );
+  });
+
+  describe('getReconciliationReport', () => {
+    it('should split asset items into found, missing and unexpected', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(openCampaign);
+      mockPrisma.assetItem.findMany.mockResolvedValueOnce([
+        { id: 'asset-1', assetTag: 'LAP-001', status: 'EN_STOCK', location: 'Siège', assetModel: laptopModel },
+        { id: 'asset-2', assetTag: 'LAP-002', status: 'HS', location: 'Siège', assetModel: laptopModel }
+      ]);
+      mockPrisma.inventoryAssetCheck.findMany.mockResolvedValueOnce([
+        {
+          assetItemId: 'asset-1',
+          checkedAt: new Date('2026-10-19'),
+          assetItem: { id: 'asset-1', assetTag: 'LAP-001', status: 'EN_STOCK', location: 'Siège', assetModel: laptopModel }
+        },
+        {
+          assetItemId: 'asset-3',
+          checkedAt: new Date('2026-10-19'),
+          assetItem: { id: 'asset-3', assetTag: 'LAP-003', status: 'PRETE', location: 'Siège', assetModel: laptopModel }
+        }
+      ]);
+      mockPrisma.stockItem.findMany.mockResolvedValueOnce([
+        { id: 'stock-1', quantity: 10, loaned: 2, location: 'Siège', assetModel: laptopModel },
+        { id: 'stock-2', quantity: 5, loaned: 0, location: 'Siège', assetModel: laptopModel }
+      ]);
+      mockPrisma.inventoryStockCount.findMany.mockResolvedValueOnce([
+        {
+          id: 'count-1',
+          stockItemId: 'stock-1',
+          expectedQuantity: 8,
+          countedQuantity: 6,
+          correctionAppliedAt: null,
+          stockItem: { id: 'stock-1', quantity: 10, loaned: 2, location: 'Siège', assetModel: laptopModel }
+        }
+      ]);
+
+      const report = await getReconciliationReport('campaign-1');
+
+      const expectedQuery = mockPrisma.assetItem.findMany.mock.calls[0][0];
+      expect(expectedQuery.where).toEqual({
+        assetModel: { type: 'Ordinateur portable' },
+        location: { equals: 'Siège', mode: 'insensitive' },
+        status: { in: ['EN_STOCK', 'HS'] }
+      });
+      expect(report.found.map((entry) => entry.assetItemId)).toEqual(['asset-1']);
+      expect(report.missing.map((entry) => entry.assetItemId)).toEqual(['asset-2']);
+      expect(report.unexpected).toEqual([expect.objectContaining({ assetItemId: 'asset-3', status: 'PRETE', inScope: true })]);
+      expect(report.stockCounts).toEqual([expect.objectContaining({ stockItemId: 'stock-1', variance: -2 })]);
+      expect(report.uncountedStock).toEqual([expect.objectContaining({ stockItemId: 'stock-2', expectedQuantity: 5 })]);
+      expect(report.summary).toEqual({
+        expected: 2,
+        found: 1,
+        missing: 1,
+        unexpected: 1,
+        stockCounted: 1,
+        stockVariances: 1,
+        uncountedStock: 1
+      });
+    });
+
+    it('should return the frozen report of a closed campaign', async () => {
+      const frozen = { summary: { expected: 3 } };
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce({ ...openCampaign, status: 'CLOSED', report: frozen });
+
+      const report = await getReconciliationReport('campaign-1');
+
+      expect(report).toBe(frozen);
+      expect(mockPrisma.assetItem.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createInventoryCampaign', () => {
+    it('should refuse an unknown equipment type', async () => {
+      mockPrisma.equipmentType.findUnique.mockResolvedValueOnce(null);
+
+      await expect(createInventoryCampaign({ name: 'Inventaire 2026', equipmentType: 'Drone' }, 'user-1'))
+        .rejects.toThrow(NotFoundError);
+      expect(mockPrisma.inventoryCampaign.create).not.toHaveBeenCalled();
+    });
+
+    it('should open the campaign', async () => {
+      mockPrisma.inventoryCampaign.create.mockResolvedValueOnce({ id: 'campaign-1', status: 'OPEN' });
+
+      await createInventoryCampaign({ name: 'Inventaire 2026' }, 'user-1');
+
+      expect(mockPrisma.inventoryCampaign.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { name: 'Inventaire 2026', createdById: 'user-1' }
+      }));
+    });
+  });
+
+  describe('checkAssetItem', () => {
+    it('should check a scanned item and clear its missing flag', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(openCampaign);
+      mockResolveAssetItemCode.mockResolvedValueOnce({
+        id: 'asset-1',
+        status: 'EN_STOCK',
+        location: 'siège',
+        missingSince: new Date('2025-10-20'),
+        assetModel: laptopModel
+      });
+      mockPrisma.inventoryAssetCheck.findUnique.mockResolvedValueOnce(null);
+      mockPrisma.inventoryAssetCheck.create.mockResolvedValueOnce({ id: 'check-1', assetItemId: 'asset-1' });
+
+      const check = await checkAssetItem('campaign-1', { code: 'LAP-001' }, 'user-1');
+
+      expect(mockResolveAssetItemCode).toHaveBeenCalledWith('LAP-001');
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({
+        where: { id: 'asset-1' },
+        data: { missingSince: null }
+      });
+      expect(mockPrisma.inventoryAssetCheck.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { campaignId: 'campaign-1', assetItemId: 'asset-1', checkedById: 'user-1' }
+      }));
+      expect(check).toEqual(expect.objectContaining({ id: 'check-1', alreadyChecked: false, expected: true }));
+    });
+
+    it('should not check an item twice', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(openCampaign);
+      mockPrisma.assetItem.findUnique.mockResolvedValueOnce({
+        id: 'asset-3', status: 'PRETE', location: 'Siège', missingSince: null, assetModel: laptopModel
+      });
+      mockPrisma.inventoryAssetCheck.findUnique.mockResolvedValueOnce({ id: 'check-3', assetItemId: 'asset-3' });
+
+      const check = await checkAssetItem('campaign-1', { assetItemId: 'asset-3' }, 'user-1');
+
+      expect(mockPrisma.inventoryAssetCheck.create).not.toHaveBeenCalled();
+      expect(check).toEqual(expect.objectContaining({ alreadyChecked: true, expected: false }));
+    });
+
+    it('should return the concurrent check when the item is checked at the same time', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(openCampaign);
+      mockPrisma.assetItem.findUnique.mockResolvedValueOnce({
+        id: 'asset-1', status: 'EN_STOCK', location: 'Siège', missingSince: null, assetModel: laptopModel
+      });
+      mockPrisma.inventoryAssetCheck.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'check-2', assetItemId: 'asset-1' });
+      mockPrisma.inventoryAssetCheck.create.mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+      const check = await checkAssetItem('campaign-1', { assetItemId: 'asset-1' }, 'user-1');
+
+      expect(check).toEqual(expect.objectContaining({ id: 'check-2', alreadyChecked: true, expected: true }));
+    });
+
+    it('should refuse checks on a closed campaign', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce({ ...openCampaign, status: 'CLOSED' });
+
+      await expect(checkAssetItem('campaign-1', { code: 'LAP-001' }, 'user-1')).rejects.toThrow(ValidationError);
+      expect(mockResolveAssetItemCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('countStockItem', () => {
+    it('should record the count against the shelf quantity', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(openCampaign);
+      mockPrisma.stockItem.findUnique.mockResolvedValueOnce({
+        id: 'stock-1', quantity: 10, loaned: 2, location: 'Siège', assetModel: laptopModel
+      });
+      mockPrisma.inventoryStockCount.findUnique.mockResolvedValueOnce(null);
+      mockPrisma.inventoryStockCount.upsert.mockResolvedValueOnce({
+        id: 'count-1', expectedQuantity: 8, countedQuantity: 7
+      });
+
+      const count = await countStockItem('campaign-1', 'stock-1', 7, 'user-1');
+
+      expect(mockPrisma.inventoryStockCount.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { campaignId_stockItemId: { campaignId: 'campaign-1', stockItemId: 'stock-1' } },
+        create: expect.objectContaining({
+          campaignId: 'campaign-1',
+          stockItemId: 'stock-1',
+          expectedQuantity: 8,
+          countedQuantity: 7,
+          countedById: 'user-1'
+        })
+      }));
+      expect(count.variance).toBe(-1);
+    });
+
+    it('should refuse a stock item out of the campaign scope', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(openCampaign);
+      mockPrisma.stockItem.findUnique.mockResolvedValueOnce({
+        id: 'stock-9', quantity: 10, loaned: 0, location: 'Entrepôt', assetModel: laptopModel
+      });
+
+      await expect(countStockItem('campaign-1', 'stock-9', 10, 'user-1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.inventoryStockCount.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeInventoryCampaign', () => {
+    it('should close the campaign with its report', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(openCampaign);
+      mockPrisma.assetItem.findMany.mockResolvedValueOnce([]);
+      mockPrisma.inventoryAssetCheck.findMany.mockResolvedValueOnce([]);
+      mockPrisma.stockItem.findMany.mockResolvedValueOnce([]);
+      mockPrisma.inventoryStockCount.findMany.mockResolvedValueOnce([]);
+      mockPrisma.inventoryCampaign.updateMany.mockResolvedValueOnce({ count: 1 });
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce({ id: 'campaign-1', status: 'CLOSED' });
+
+      const closed = await closeInventoryCampaign('campaign-1', 'user-2');
+
+      expect(closed).toEqual({ id: 'campaign-1', status: 'CLOSED' });
+      expect(mockPrisma.inventoryCampaign.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'campaign-1', status: 'OPEN' },
+        data: expect.objectContaining({
+          status: 'CLOSED',
+          closedById: 'user-2',
+          closedAt: expect.any(Date),
+          report: expect.objectContaining({ summary: expect.any(Object) })
+        })
+      }));
+    });
+
+    it('should refuse to close a campaign twice', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce({ ...openCampaign, status: 'CLOSED' });
+
+      await expect(closeInventoryCampaign('campaign-1', 'user-2')).rejects.toThrow(ValidationError);
+    });
+
+    it('should refuse a close racing another one', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(openCampaign);
+      mockPrisma.assetItem.findMany.mockResolvedValueOnce([]);
+      mockPrisma.inventoryAssetCheck.findMany.mockResolvedValueOnce([]);
+      mockPrisma.stockItem.findMany.mockResolvedValueOnce([]);
+      mockPrisma.inventoryStockCount.findMany.mockResolvedValueOnce([]);
+      mockPrisma.inventoryCampaign.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(closeInventoryCampaign('campaign-1', 'user-2')).rejects.toThrow('clôturée');
+    });
+  });
+
+  describe('applyStockCorrections', () => {
+    const closedCampaign = {
+      ...openCampaign,
+      status: 'CLOSED',
+      closedAt: new Date('2026-10-19'),
+      report: {
+        stockCounts: [
+          { stockItemId: 'stock-1', variance: -2, correctionAppliedAt: null },
+          { stockItemId: 'stock-2', variance: 3, correctionAppliedAt: null }
+        ]
+      }
+    };
+
+    it('should refuse an open campaign', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(openCampaign);
+
+      await expect(applyStockCorrections('campaign-1', {})).rejects.toThrow(ValidationError);
+      expect(mockAdjustStockQuantity).not.toHaveBeenCalled();
+    });
+
+    it('should adjust each variance once and report failures', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(closedCampaign);
+      mockPrisma.inventoryStockCount.findMany.mockResolvedValueOnce([
+        { id: 'count-1', stockItemId: 'stock-1', expectedQuantity: 8, countedQuantity: 6 },
+        { id: 'count-2', stockItemId: 'stock-2', expectedQuantity: 0, countedQuantity: 3 },
+        { id: 'count-3', stockItemId: 'stock-3', expectedQuantity: 4, countedQuantity: 4 }
+      ]);
+      mockPrisma.inventoryStockCount.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 1 });
+      mockAdjustStockQuantity
+        .mockResolvedValueOnce({ id: 'stock-1' })
+        .mockRejectedValueOnce(new ValidationError('La quantité ne peut pas être négative'));
+
+      const result = await applyStockCorrections('campaign-1', {}, {});
+
+      expect(mockPrisma.inventoryStockCount.findMany.mock.calls[0][0].where).toEqual({
+        campaignId: 'campaign-1',
+        correctionAppliedAt: null
+      });
+      expect(mockAdjustStockQuantity).toHaveBeenCalledTimes(2);
+      expect(mockAdjustStockQuantity).toHaveBeenCalledWith('stock-1', -2, {}, expect.objectContaining({
+        type: 'INVENTORY_CORRECTION',
+        referenceType: 'InventoryCampaign'
+      }));
+      expect(mockPrisma.inventoryStockCount.updateMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.inventoryStockCount.updateMany).toHaveBeenCalledWith({
+        where: { id: 'count-1', correctionAppliedAt: null },
+        data: { correctionAppliedAt: expect.any(Date) }
+      });
+      // The failed correction is released for a later retry
+      expect(mockPrisma.inventoryStockCount.update).toHaveBeenCalledWith({
+        where: { id: 'count-2' },
+        data: { correctionAppliedAt: null }
+      });
+      expect(result.applied).toEqual([{ stockItemId: 'stock-1', variance: -2 }]);
+      expect(result.failed).toEqual([expect.objectContaining({ stockItemId: 'stock-2', variance: 3 })]);
+
+      const { report } = mockPrisma.inventoryCampaign.update.mock.calls[0][0].data;
+      expect(report.stockCounts[0].correctionAppliedAt).toEqual(expect.any(Date));
+      expect(report.stockCounts[1].correctionAppliedAt).toBeNull();
+    });
+
+    it('should skip counts already claimed by a concurrent call', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce(closedCampaign);
+      mockPrisma.inventoryStockCount.findMany.mockResolvedValueOnce([
+        { id: 'count-1', stockItemId: 'stock-1', expectedQuantity: 8, countedQuantity: 6 }
+      ]);
+      mockPrisma.inventoryStockCount.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await applyStockCorrections('campaign-1', {}, {});
+
+      expect(mockAdjustStockQuantity).not.toHaveBeenCalled();
+      expect(mockPrisma.inventoryCampaign.update).not.toHaveBeenCalled();
+      expect(result).toEqual({ applied: [], failed: [] });
+    });
+  });
+
+  describe('flagMissingItems', () => {
+    it('should flag the missing items not found since', async () => {
+      mockPrisma.inventoryCampaign.findUnique.mockResolvedValueOnce({
+        ...openCampaign,
+        status: 'CLOSED',
+        closedAt: new Date('2026-10-19'),
+        report: {
+          missing: [
+            { assetItemId: 'asset-2', flaggedAt: null },
+            { assetItemId: 'asset-4', flaggedAt: null }
+          ]
+        }
+      });
+      mockPrisma.assetItem.findMany.mockResolvedValueOnce([{ id: 'asset-2' }]);
+
+      const result = await flagMissingItems('campaign-1', {});
+
+      expect(mockPrisma.assetItem.findMany.mock.calls[0][0].where.id).toEqual({ in: ['asset-2', 'asset-4'] });
+      expect(mockPrisma.assetItem.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['asset-2'] } },
+        data: { missingSince: expect.any(Date) }
+      });
+      expect(result.flagged).toEqual(['asset-2']);
+      expect(mockInvalidateEntity).toHaveBeenCalledWith('asset_items');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Unit tests for labels.service.js
+ *
+ * Tests:
+ * - Label sheet pagination and start position
+ * - Label content (tag, model, serial, codes)
+ * - Layout overrides and validation
+ * - Missing items
+ * - Deep link URL
+ */
+
+import { jest } from '@jest/globals';
+import zlib from 'zlib';
+import { NotFoundError, ValidationError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  assetItem: {
+    findMany: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+// Import service after mocks are set up
+const { generateAssetLabels, getLabelFormats, getAssetItemLink } = await import('../labels.service.js');
+
+/**
+ * Inflate every page content stream, texts decoded as `(text) Tj`
+ * (pdfkit writes them as WinAnsi hex strings in TJ arrays)
+ */
+function getPageContents(pdf) {
+  return [...pdf.matchAll(/\/Length (\d+)\n\/Filter \/FlateDecode\n>>\nstream\n/g)].map((header) => {
+    const start = header.index + header[0].length;
+    return zlib.inflateSync(Buffer.from(pdf.slice(start, start + Number(header[1])), 'latin1'))
+      .toString('latin1')
+      .replace(/\[([^\]]*)\] TJ/g, (_, parts) =>
+        `(${[...parts.matchAll(/<([0-9a-f]*)>/g)].map(([, hex]) => Buffer.from(hex, 'hex').toString('latin1')).join('')}) Tj`);
+  });
+}
+
+function buildItems(count) {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `item${index + 1}`,
+    assetTag: `LAP-${String(index + 1).padStart(3, '0')}`,
+    serial: `SN${index + 1}`,
+    assetModel: { brand: 'Dell', modelName: 'Latitude 5440' }
+  }));
+}
+
+describe('labels.service', () => {
+  const originalAppUrl = process.env.APP_URL;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.APP_URL = 'https://inventaire.example.com/';
+  });
+
+  afterAll(() => {
+    if (originalAppUrl === undefined) delete process.env.APP_URL;
+    else process.env.APP_URL = originalAppUrl;
+  });
+
+  describe('generateAssetLabels', () => {
+    it('should render one label per item with tag, model, serial and codes', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue(buildItems(2));
+
+      const { buffer, filename } = await generateAssetLabels({ ids: ['item1', 'item2'] });
+      const pdf = buffer.toString('latin1');
+      const [content] = getPageContents(pdf);
+
+      expect(mockPrisma.assetItem.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['item1', 'item2'] } },
+        include: { assetModel: true }
+      });
+      expect(filename).toMatch(/^Etiquettes_\d{4}-\d{2}-\d{2}\.pdf$/);
+      expect(pdf.startsWith('%PDF-')).toBe(true);
+      expect(pdf).toContain('/Count 1');
+      expect(content).toContain('(LAP-001) Tj');
+      expect(content).toContain('(Dell Latitude 5440) Tj');
+      expect(content).toContain('(S/N SN2) Tj');
+      // QR code modules and Code 128 bars are drawn as filled rectangles
+      expect(content).toMatch(/ re\n(.+\n)*f\n/);
+    });
+
+    it('should follow the order of the requested ids', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue(buildItems(2));
+
+      const { buffer } = await generateAssetLabels({ ids: ['item2', 'item1'] });
+      const [content] = getPageContents(buffer.toString('latin1'));
+
+      expect(content.indexOf('(LAP-002) Tj')).toBeLessThan(content.indexOf('(LAP-001) Tj'));
+    });
+
+    it('should skip used positions and start new sheets when full', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue(buildItems(3));
+
+      // AVERY_L7163: 14 labels per sheet, positions 13 and 14 left on the first one
+      const { buffer } = await generateAssetLabels({
+        ids: ['item1', 'item2', 'item3'],
+        format: 'AVERY_L7163',
+        startPosition: 13
+      });
+      const pages = getPageContents(buffer.toString('latin1'));
+
+      expect(pages).toHaveLength(2);
+      expect(pages[0]).toContain('(LAP-002) Tj');
+      expect(pages[1]).toContain('(LAP-003) Tj');
+    });
+
+    it('should only draw the requested code type', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue(buildItems(1));
+
+      const qrOnly = await generateAssetLabels({ ids: ['item1'], codeType: 'QRCODE' });
+      const barcodeOnly = await generateAssetLabels({ ids: ['item1'], codeType: 'CODE128' });
+
+      // A QR code has more dark runs than the 31 bars of a 7 characters Code 128
+      const countRects = (buffer) => getPageContents(buffer.toString('latin1'))[0].split(' re\n').length - 1;
+      expect(countRects(barcodeOnly.buffer)).toBe(31);
+      expect(countRects(qrOnly.buffer)).toBeGreaterThan(31);
+    });
+
+    it('should print untagged items without codes', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue([
+        { id: 'item1', assetTag: null, serial: null, assetModel: null }
+      ]);
+
+      const { buffer } = await generateAssetLabels({ ids: ['item1'], borders: true });
+      const [content] = getPageContents(buffer.toString('latin1'));
+
+      expect(content).toContain('(Sans tag) Tj');
+      // The label outline is the only rectangle, stroked and not filled
+      expect(content.split(' re\n')).toHaveLength(2);
+      expect(content).toMatch(/\nS\n/);
+      expect(content).not.toMatch(/\nf\n/);
+    });
+
+    it('should use the page size of the format and apply layout overrides', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue(buildItems(1));
+
+      const { buffer } = await generateAssetLabels({
+        ids: ['item1'],
+        format: 'AVERY_5160',
+        layout: { marginTop: 20, marginLeft: 10 },
+        borders: true
+      });
+      const pdf = buffer.toString('latin1');
+
+      expect(pdf).toContain('/MediaBox [0 0 612 792]');
+      // Label outline at 10 mm from the left, 20 mm from the top
+      expect(getPageContents(pdf)[0]).toContain('28.346457 56.692913 189 72 re\n0.5 w\n');
+    });
+
+    it('should reject layouts that do not fit on the page', async () => {
+      await expect(generateAssetLabels({ ids: ['item1'], layout: { columns: 4 } }))
+        .rejects.toThrow(ValidationError);
+      expect(mockPrisma.assetItem.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a start position outside the sheet', async () => {
+      await expect(generateAssetLabels({ ids: ['item1'], startPosition: 22 }))
+        .rejects.toThrow('La position de départ doit être comprise entre 1 et 21');
+    });
+
+    it('should throw NotFoundError listing missing items', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue(buildItems(1));
+
+      await expect(generateAssetLabels({ ids: ['item1', 'missing'] }))
+        .rejects.toThrow(NotFoundError);
+      await expect(generateAssetLabels({ ids: ['item1', 'missing'] }))
+        .rejects.toThrow('Article(s) non trouvé(s): missing');
+    });
+  });
+
+  describe('getLabelFormats', () => {
+    it('should list the formats with their key', () => {
+      const formats = getLabelFormats();
+
+      expect(formats.map((format) => format.key)).toEqual(['AVERY_L7160', 'AVERY_L7163', 'AVERY_L7651', 'AVERY_5160']);
+      expect(formats[0]).toMatchObject({ pageSize: 'A4', columns: 3, rows: 7, labelWidth: 63.5 });
+    });
+  });
+
+  describe('getAssetItemLink', () => {
+    it('should link to the item search in the web app', () => {
+      expect(getAssetItemLink('LAP 001')).toBe('https://inventaire.example.com/assets/items?search=LAP%20001');
+    });
+
+    it('should fall back to the first CORS origin', () => {
+      const originalCorsOrigin = process.env.CORS_ORIGIN;
+      delete process.env.APP_URL;
+      process.env.CORS_ORIGIN = 'https://parc.example.com, https://admin.example.com';
+
+      expect(getAssetItemLink('LAP-001')).toBe('https://parc.example.com/assets/items?search=LAP-001');
+
+      if (originalCorsOrigin === undefined) delete process.env.CORS_ORIGIN;
+      else process.env.CORS_ORIGIN = originalCorsOrigin;
+    });
+  });
+});
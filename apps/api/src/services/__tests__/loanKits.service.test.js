@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Unit tests for loanKits.service.js
+ *
+ * Tests:
+ * - Kit creation with components and unique name
+ * - Component list replacement on update
+ * - Deletion
+ */
+
+import { jest } from '@jest/globals';
+import { ConflictError, NotFoundError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  loanKit: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+// Import service after mocks are set up
+const {
+  getAllLoanKits,
+  createLoanKit,
+  updateLoanKit,
+  deleteLoanKit,
+} = await import('../loanKits.service.js');
+
+describe('LoanKits Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getAllLoanKits', () => {
+    it('should return kits ordered by name', async () => {
+      mockPrisma.loanKit.findMany.mockResolvedValue([{ id: 'kit1' }]);
+
+      const result = await getAllLoanKits();
+
+      expect(mockPrisma.loanKit.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        orderBy: { name: 'asc' }
+      }));
+      expect(result).toEqual([{ id: 'kit1' }]);
+    });
+  });
+
+  describe('createLoanKit', () => {
+    it('should create the kit with its components', async () => {
+      mockPrisma.loanKit.findUnique.mockResolvedValue(null);
+      mockPrisma.loanKit.create.mockResolvedValue({ id: 'kit1' });
+
+      await createLoanKit({
+        name: 'Onboarding',
+        items: [
+          { assetModelId: 'model1', quantity: 1 },
+          { stockItemId: 'stock1', quantity: 2 }
+        ]
+      });
+
+      expect(mockPrisma.loanKit.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          name: 'Onboarding',
+          description: null,
+          items: {
+            create: [
+              { assetModelId: 'model1', stockItemId: null, quantity: 1 },
+              { assetModelId: null, stockItemId: 'stock1', quantity: 2 }
+            ]
+          }
+        }
+      }));
+    });
+
+    it('should throw ConflictError when the name is taken', async () => {
+      mockPrisma.loanKit.findUnique.mockResolvedValue({ id: 'other', name: 'Onboarding' });
+
+      await expect(createLoanKit({ name: 'Onboarding', items: [] })).rejects.toThrow(ConflictError);
+      expect(mockPrisma.loanKit.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateLoanKit', () => {
+    it('should replace the components when items are provided', async () => {
+      mockPrisma.loanKit.findUnique.mockResolvedValue({ id: 'kit1', name: 'Onboarding', items: [] });
+      mockPrisma.loanKit.update.mockResolvedValue({ id: 'kit1' });
+
+      await updateLoanKit('kit1', { items: [{ assetModelId: 'model2', quantity: 1 }] });
+
+      expect(mockPrisma.loanKit.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'kit1' },
+        data: {
+          items: {
+            deleteMany: {},
+            create: [{ assetModelId: 'model2', stockItemId: null, quantity: 1 }]
+          }
+        }
+      }));
+    });
+
+    it('should allow keeping the same name', async () => {
+      mockPrisma.loanKit.findUnique.mockResolvedValue({ id: 'kit1', name: 'Onboarding', items: [] });
+      mockPrisma.loanKit.update.mockResolvedValue({ id: 'kit1' });
+
+      await updateLoanKit('kit1', { name: 'Onboarding', description: 'Nouveaux arrivants' });
+
+      expect(mockPrisma.loanKit.findUnique).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.loanKit.update).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when kit does not exist', async () => {
+      mockPrisma.loanKit.findUnique.mockResolvedValue(null);
+
+      await expect(updateLoanKit('missing', { name: 'Kit' })).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('deleteLoanKit', () => {
+    it('should delete the kit', async () => {
+      mockPrisma.loanKit.findUnique.mockResolvedValue({ id: 'kit1', name: 'Onboarding' });
+
+      await deleteLoanKit('kit1');
+
+      expect(mockPrisma.loanKit.delete).toHaveBeenCalledWith({ where: { id: 'kit1' } });
+    });
+  });
+});
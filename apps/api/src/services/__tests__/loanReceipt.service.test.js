@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Unit tests for loanReceipt.service.js
+ *
+ * Tests:
+ * - PDF generation with loan details and embedded signatures
+ * - Missing signature files do not fail the generation
+ * - Loan not found
+ */
+
+import { jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { NotFoundError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  loan: {
+    findUnique: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+// Import service after mocks are set up
+const { generateLoanReceipt } = await import('../loanReceipt.service.js');
+
+// 1x1 opaque white PNG (CRCs are not checked)
+function buildPng() {
+  const chunk = (type, data) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.from([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(Buffer.from([0, 255, 255, 255]))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * Inflate the first page content stream, texts decoded as `(text) Tj`
+ * (pdfkit writes them as WinAnsi hex strings in TJ arrays)
+ */
+function getPageContent(pdf) {
+  const header = pdf.match(/\/Length (\d+)\n\/Filter \/FlateDecode\n>>\nstream\n/);
+  const start = header.index + header[0].length;
+  return zlib.inflateSync(Buffer.from(pdf.slice(start, start + Number(header[1])), 'latin1'))
+    .toString('latin1')
+    .replace(/\[([^\]]*)\] TJ/g, (_, parts) =>
+      `(${[...parts.matchAll(/<([0-9a-f]*)>/g)].map(([, hex]) => Buffer.from(hex, 'hex').toString('latin1')).join('')}) Tj`);
+}
+
+const mockLoan = {
+  id: 'loan1',
+  status: 'OPEN',
+  openedAt: new Date('2026-10-01T09:00:00Z'),
+  dueAt: new Date('2026-10-31T22:59:59Z'),
+  closedAt: null,
+  pickupSignatureUrl: '/uploads/signatures/pickup.png',
+  pickupSignedAt: new Date('2026-10-01T09:05:00Z'),
+  returnSignatureUrl: null,
+  returnSignedAt: null,
+  employee: { firstName: 'Jean', lastName: 'Dupré', email: 'jean@test.com', dept: 'IT' },
+  createdBy: { email: 'gestionnaire@test.com' },
+  lines: [
+    {
+      quantity: 1,
+      returnedAt: null,
+      returnCondition: null,
+      assetItem: { assetTag: 'LAP-001', serial: 'SN123', assetModel: { brand: 'Dell', modelName: 'Latitude 5440' } },
+      stockItem: null
+    },
+    {
+      quantity: 2,
+      returnedAt: new Date('2026-10-05T10:00:00Z'),
+      returnCondition: 'OK',
+      assetItem: null,
+      stockItem: { assetModel: { brand: 'Belkin', modelName: 'USB-C' } }
+    }
+  ]
+};
+
+describe('LoanReceipt Service', () => {
+  let signaturesDir;
+
+  beforeAll(async () => {
+    signaturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'signatures-'));
+    await fs.writeFile(path.join(signaturesDir, 'pickup.png'), buildPng());
+    process.env.SIGNATURES_DIR = signaturesDir;
+  });
+
+  afterAll(async () => {
+    delete process.env.SIGNATURES_DIR;
+    await fs.rm(signaturesDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render the loan details, lines and pickup signature', async () => {
+    mockPrisma.loan.findUnique.mockResolvedValue(mockLoan);
+
+    const { buffer, filename } = await generateLoanReceipt('loan1');
+    const pdf = buffer.toString('latin1');
+    const content = getPageContent(pdf);
+
+    expect(mockPrisma.loan.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'loan1' } }));
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(filename).toMatch(/^Bon_de_pret_Dupre_Jean_\d{4}-\d{2}-\d{2}\.pdf$/);
+    expect(content).toContain('(Jean Dupr\xe9) Tj');
+    expect(content).toContain('(gestionnaire@test.com) Tj');
+    expect(content).toContain('(LAP-001) Tj');
+    expect(content).toContain('(SN123) Tj');
+    expect(content).toContain('(Consommable) Tj');
+    expect(content).toContain('(05/10/2026 (bon \xe9tat)) Tj');
+    expect(content).toMatch(/\/I\d+ Do/);
+    expect(content).toContain('(Non sign\xe9) Tj');
+  });
+
+  it('should render a placeholder when a signature file is missing', async () => {
+    mockPrisma.loan.findUnique.mockResolvedValue({
+      ...mockLoan,
+      pickupSignatureUrl: '/uploads/signatures/deleted.png'
+    });
+
+    const { buffer } = await generateLoanReceipt('loan1');
+    const content = getPageContent(buffer.toString('latin1'));
+
+    expect(content).not.toMatch(/\/I\d+ Do/);
+    expect(content).toContain('(Signature indisponible) Tj');
+  });
+
+  it('should throw NotFoundError when the loan does not exist', async () => {
+    mockPrisma.loan.findUnique.mockResolvedValue(null);
+
+    await expect(generateLoanReceipt('missing')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -6,10 +6,11 @@
  * - Adding/removing loan lines (assets and stock items)
  * - Signature uploads (pickup and return)
  * - Loan closure and deletion
+ * - Trash: restore and purge of soft-deleted loans
  */
 
 import { jest } from '@jest/globals';
-import { NotFoundError, ValidationError } from '../../utils/errors.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
 
 // Mock Prisma client before importing service
 const mockPrisma = {
@@ -19,23 +20,43 @@ const mockPrisma = {
     create: jest.fn(),
     update: jest.fn(),
     updateMany: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+    count: jest.fn(),
   },
   employee: {
     findUnique: jest.fn(),
   },
   loanLine: {
     create: jest.fn(),
+    findMany: jest.fn(),
     findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
+    count: jest.fn(),
   },
   assetItem: {
     findUnique: jest.fn(),
+    findMany: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
   },
   stockItem: {
     findUnique: jest.fn(),
     update: jest.fn(),
   },
+  stockMovement: {
+    create: jest.fn(),
+  },
+  reservation: {
+    findFirst: jest.fn(),
+    updateMany: jest.fn(),
+    aggregate: jest.fn(() => Promise.resolve({ _sum: { quantity: null } })),
+  },
+  loanKit: {
+    findUnique: jest.fn(),
+  },
   $transaction: jest.fn((fnOrArray) => {
     if (typeof fnOrArray === 'function') {
       return fnOrArray(mockPrisma);
@@ -64,18 +85,33 @@ jest.unstable_mockModule('../../config/logger.js', () => ({
   }
 }));
 
+const mockNotifyLoanEvent = jest.fn(() => Promise.resolve({ sent: 0, failed: 0 }));
+jest.unstable_mockModule('../notifications.service.js', () => ({
+  notifyLoanEvent: mockNotifyLoanEvent
+}));
+
 // Import service after mocks are set up
 const {
   getAllLoans,
+  getAllLoansPaginated,
   getLoanById,
   createLoan,
+  updateLoan,
   addLoanLine,
+  addLoanKit,
   removeLoanLine,
+  returnLoanLine,
+  writeOffLoanLine,
+  transferLoanLines,
   uploadPickupSignature,
   uploadReturnSignature,
   closeLoan,
   deleteLoan,
   batchDeleteLoans,
+  getDeletedLoans,
+  restoreLoan,
+  purgeLoan,
+  purgeExpiredLoans,
   deletePickupSignature,
   deleteReturnSignature,
 } = await import('../loans.service.js');
@@ -155,6 +191,41 @@ describe('Loans Service', () => {
     });
   });
 
+  describe('getAllLoansPaginated', () => {
+    beforeEach(() => {
+      mockPrisma.loan.count.mockResolvedValue(0);
+      mockPrisma.loan.findMany.mockResolvedValue([]);
+    });
+
+    it('should restrict to overdue OPEN loans when overdue is set', async () => {
+      await getAllLoansPaginated({ overdue: true, status: 'CLOSED' });
+
+      const { where } = mockPrisma.loan.findMany.mock.calls[0][0];
+      expect(where.status).toBe('OPEN');
+      expect(where.deletedAt).toBeNull();
+      expect(where.OR).toEqual([
+        { dueAt: { lt: expect.any(Date) } },
+        { lines: { some: { dueAt: { lt: expect.any(Date) }, returnedAt: null } } }
+      ]);
+      expect(mockPrisma.loan.count).toHaveBeenCalledWith({ where });
+    });
+
+    it('should not add overdue conditions by default', async () => {
+      await getAllLoansPaginated({ status: 'OPEN' });
+
+      const { where } = mockPrisma.loan.findMany.mock.calls[0][0];
+      expect(where).toEqual({ deletedAt: null, status: 'OPEN' });
+    });
+
+    it('should allow sorting by dueAt', async () => {
+      await getAllLoansPaginated({ sortBy: 'dueAt', sortOrder: 'asc' });
+
+      expect(mockPrisma.loan.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: { dueAt: 'asc' } })
+      );
+    });
+  });
+
   describe('getLoanById', () => {
     it('should return loan when it exists', async () => {
       const mockLoan = {
@@ -209,6 +280,26 @@ describe('Loans Service', () => {
         })
       );
       expect(result).toEqual(mockLoan);
+      expect(mockNotifyLoanEvent).toHaveBeenCalledWith('LOAN_OPENED', 'loan1');
+    });
+
+    it('should store the expected return date when provided', async () => {
+      const dueAt = new Date('2026-11-01');
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'emp1' });
+      mockPrisma.loan.create.mockResolvedValue({ id: 'loan1', dueAt });
+
+      await createLoan('emp1', 'user1', undefined, { dueAt });
+
+      expect(mockPrisma.loan.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            employeeId: 'emp1',
+            createdById: 'user1',
+            status: 'OPEN',
+            dueAt
+          }
+        })
+      );
     });
 
     it('should throw NotFoundError when employee does not exist', async () => {
@@ -217,6 +308,61 @@ describe('Loans Service', () => {
       await expect(createLoan('nonexistent', 'user1')).rejects.toThrow(NotFoundError);
       await expect(createLoan('nonexistent', 'user1')).rejects.toThrow('Employé non trouvé');
     });
+
+    it('should refuse a loan for an archived employee', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'emp1', archivedAt: new Date('2026-10-01') });
+
+      await expect(createLoan('emp1', 'user1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.loan.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateLoan', () => {
+    it('should update the due date of an open loan', async () => {
+      const dueAt = new Date('2026-11-01');
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', status: 'OPEN', deletedAt: null, dueAt: null });
+      mockPrisma.loan.update.mockResolvedValue({ id: 'loan1', status: 'OPEN', dueAt });
+
+      const result = await updateLoan('loan1', { dueAt });
+
+      expect(mockPrisma.loan.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'loan1' },
+          data: { dueAt }
+        })
+      );
+      expect(result.dueAt).toEqual(dueAt);
+    });
+
+    it('should clear the due date when null is given', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', status: 'OPEN', deletedAt: null, dueAt: new Date() });
+      mockPrisma.loan.update.mockResolvedValue({ id: 'loan1', dueAt: null });
+
+      await updateLoan('loan1', { dueAt: null });
+
+      expect(mockPrisma.loan.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { dueAt: null } })
+      );
+    });
+
+    it('should throw NotFoundError when loan does not exist', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(null);
+
+      await expect(updateLoan('nonexistent', { dueAt: null })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError when loan is closed', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', status: 'CLOSED', deletedAt: null });
+
+      await expect(updateLoan('loan1', { dueAt: null })).rejects.toThrow('Impossible de modifier un prêt fermé');
+      expect(mockPrisma.loan.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError when loan is deleted', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', status: 'OPEN', deletedAt: new Date() });
+
+      await expect(updateLoan('loan1', { dueAt: null })).rejects.toThrow(ValidationError);
+    });
   });
 
   describe('addLoanLine', () => {
@@ -260,6 +406,29 @@ describe('Loans Service', () => {
         await expect(addLoanLine('loan1', { assetItemId: 'asset1' }))
           .rejects.toThrow('n\'est pas disponible');
       });
+
+      it('should throw ConflictError when asset is reserved for another employee', async () => {
+        const loanWithEmployee = { ...mockLoan, employeeId: 'emp1', dueAt: new Date('2026-12-31') };
+        mockPrisma.loan.findUnique.mockResolvedValue(loanWithEmployee);
+        mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'asset1', status: 'EN_STOCK' });
+        mockPrisma.reservation.findFirst.mockResolvedValue({
+          id: 'res1',
+          startDate: new Date('2026-11-02'),
+          employee: { firstName: 'Marie', lastName: 'Martin' }
+        });
+
+        await expect(addLoanLine('loan1', { assetItemId: 'asset1' }))
+          .rejects.toThrow(ConflictError);
+        expect(mockPrisma.reservation.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+          where: expect.objectContaining({
+            assetItemId: 'asset1',
+            status: 'ACTIVE',
+            employeeId: { not: 'emp1' },
+            startDate: { lt: loanWithEmployee.dueAt }
+          })
+        }));
+        expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      });
     });
 
     describe('Stock Items', () => {
@@ -280,6 +449,16 @@ describe('Loans Service', () => {
         const result = await addLoanLine('loan1', { stockItemId: 'stock1', quantity: 3 });
 
         expect(mockPrisma.$transaction).toHaveBeenCalled();
+        expect(mockPrisma.stockMovement.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            stockItemId: 'stock1',
+            type: 'LOAN_OUT',
+            quantityDelta: 0,
+            loanedDelta: 3,
+            referenceType: 'Loan',
+            referenceId: 'loan1'
+          })
+        });
         expect(result).toEqual(mockLoanLine);
       });
 
@@ -294,6 +473,22 @@ describe('Loans Service', () => {
           .rejects.toThrow(ValidationError);
       });
 
+      it('should not lend units reserved by other employees', async () => {
+        mockPrisma.loan.findUnique.mockResolvedValue(mockLoan);
+        mockPrisma.reservation.aggregate.mockResolvedValueOnce({ _sum: { quantity: 4 } });
+        mockPrisma.$executeRaw.mockResolvedValueOnce(0);
+        mockPrisma.stockItem.findUnique.mockResolvedValue({ id: 'stock1', quantity: 10, loaned: 5 });
+
+        await expect(addLoanLine('loan1', { stockItemId: 'stock1', quantity: 3 }))
+          .rejects.toThrow('Quantité insuffisante en stock (disponible: 1)');
+        expect(mockPrisma.reservation.aggregate).toHaveBeenCalledWith({
+          where: expect.objectContaining({ stockItemId: 'stock1', status: 'ACTIVE' }),
+          _sum: { quantity: true }
+        });
+        // Reserved units are subtracted inside the conditional UPDATE
+        expect(mockPrisma.$executeRaw.mock.calls[0]).toContain(4);
+      });
+
       it('should default quantity to 1 if not provided', async () => {
         const mockStock = { id: 'stock1', quantity: 10, loaned: 0 };
         mockPrisma.loan.findUnique.mockResolvedValue(mockLoan);
@@ -393,6 +588,21 @@ describe('Loans Service', () => {
         .rejects.toThrow(NotFoundError);
     });
 
+    it('should throw ValidationError when line was already returned', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(mockLoan);
+      mockPrisma.loanLine.findUnique.mockResolvedValue({
+        id: 'line1',
+        loanId: 'loan1',
+        assetItemId: 'asset1',
+        quantity: 1,
+        returnedAt: new Date()
+      });
+
+      await expect(removeLoanLine('loan1', 'line1'))
+        .rejects.toThrow('déjà retourné');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundError when line belongs to different loan', async () => {
       const mockLine = { id: 'line1', loanId: 'loan2' };
       mockPrisma.loan.findUnique.mockResolvedValue(mockLoan);
@@ -509,7 +719,420 @@ describe('Loans Service', () => {
     });
   });
 
+  describe('returnLoanLine', () => {
+    const buildLoan = (lines) => ({ id: 'loan1', status: 'OPEN', deletedAt: null, lines });
+
+    beforeEach(() => {
+      mockPrisma.loanLine.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.loanLine.count.mockResolvedValue(1);
+    });
+
+    it('should return an asset line without closing the loan', async () => {
+      const loan = buildLoan([
+        { id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1, returnedAt: null },
+        { id: 'line2', assetItemId: 'asset2', stockItemId: null, quantity: 1, returnedAt: null }
+      ]);
+      mockPrisma.loan.findUnique
+        .mockResolvedValueOnce(loan)
+        .mockResolvedValueOnce({ ...loan, lines: [{ ...loan.lines[0], returnedAt: new Date() }, loan.lines[1]] });
+
+      const result = await returnLoanLine('loan1', 'line1');
+
+      expect(mockPrisma.loanLine.updateMany).toHaveBeenCalledWith({
+        where: { id: 'line1', loanId: 'loan1', returnedAt: null },
+        data: { returnedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({
+        where: { id: 'asset1' },
+        data: { status: 'EN_STOCK' }
+      });
+      expect(mockPrisma.loan.update).not.toHaveBeenCalled();
+      expect(result.status).toBe('OPEN');
+      expect(result.lines[0].returnedAt).toEqual(expect.any(Date));
+    });
+
+    it('should release loaned stock units for a stock line', async () => {
+      const loan = buildLoan([
+        { id: 'line1', assetItemId: null, stockItemId: 'stock1', quantity: 3, returnedAt: null },
+        { id: 'line2', assetItemId: 'asset2', stockItemId: null, quantity: 1, returnedAt: null }
+      ]);
+      mockPrisma.loan.findUnique.mockResolvedValue(loan);
+
+      await returnLoanLine('loan1', 'line1');
+
+      expect(mockPrisma.stockItem.update).toHaveBeenCalledWith({
+        where: { id: 'stock1' },
+        data: {
+          loaned: { decrement: 3 },
+          movements: {
+            create: expect.objectContaining({ type: 'LOAN_CLOSED', loanedDelta: -3, referenceType: 'Loan', referenceId: 'loan1' })
+          }
+        }
+      });
+      expect(mockPrisma.assetItem.update).not.toHaveBeenCalled();
+    });
+
+    it('should auto-close the loan when the last line is returned', async () => {
+      const loan = buildLoan([
+        { id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1, returnedAt: new Date('2026-10-01') },
+        { id: 'line2', assetItemId: 'asset2', stockItemId: null, quantity: 1, returnedAt: null }
+      ]);
+      mockPrisma.loan.findUnique.mockResolvedValue(loan);
+      mockPrisma.loanLine.count.mockResolvedValue(0);
+
+      await returnLoanLine('loan1', 'line2');
+
+      expect(mockPrisma.loanLine.count).toHaveBeenCalledWith({ where: { loanId: 'loan1', returnedAt: null } });
+      expect(mockPrisma.loan.update).toHaveBeenCalledWith({
+        where: { id: 'loan1' },
+        data: { status: 'CLOSED', closedAt: expect.any(Date) }
+      });
+    });
+
+    it('should apply the return inspection to the returned asset', async () => {
+      const loan = buildLoan([
+        { id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1, returnedAt: null },
+        { id: 'line2', assetItemId: 'asset2', stockItemId: null, quantity: 1, returnedAt: null }
+      ]);
+      mockPrisma.loan.findUnique.mockResolvedValue(loan);
+
+      await returnLoanLine('loan1', 'line1', {}, { condition: 'DAMAGED', note: 'Charnière cassée' });
+
+      expect(mockPrisma.loanLine.updateMany).toHaveBeenCalledWith({
+        where: { id: 'line1', loanId: 'loan1', returnedAt: null },
+        data: { returnedAt: expect.any(Date), returnCondition: 'DAMAGED', returnNote: 'Charnière cassée' }
+      });
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({
+        where: { id: 'asset1' },
+        data: { status: 'REPARATION' }
+      });
+    });
+
+    it('should throw ValidationError when line was already returned', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([
+        { id: 'line1', assetItemId: 'asset1', quantity: 1, returnedAt: new Date() }
+      ]));
+
+      await expect(returnLoanLine('loan1', 'line1'))
+        .rejects.toThrow('déjà été retourné');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError when the line is returned concurrently', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([
+        { id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1, returnedAt: null }
+      ]));
+      mockPrisma.loanLine.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(returnLoanLine('loan1', 'line1'))
+        .rejects.toThrow('déjà été retourné');
+      expect(mockPrisma.assetItem.update).not.toHaveBeenCalled();
+      expect(mockPrisma.loan.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when line does not belong to the loan', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([]));
+
+      await expect(returnLoanLine('loan1', 'other'))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError when loan is closed', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ ...buildLoan([]), status: 'CLOSED' });
+
+      await expect(returnLoanLine('loan1', 'line1'))
+        .rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('writeOffLoanLine', () => {
+    const buildLoan = (lines) => ({ id: 'loan1', status: 'OPEN', deletedAt: null, lines });
+    const req = { user: { userId: 'user1' }, headers: {} };
+
+    beforeEach(() => {
+      mockPrisma.loanLine.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.loanLine.count.mockResolvedValue(1);
+    });
+
+    it('should retire a lost asset and cancel its reservations', async () => {
+      const loan = buildLoan([
+        { id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1, returnedAt: null },
+        { id: 'line2', assetItemId: 'asset2', stockItemId: null, quantity: 1, returnedAt: null }
+      ]);
+      mockPrisma.loan.findUnique.mockResolvedValue(loan);
+
+      await writeOffLoanLine('loan1', 'line1', { reason: 'VOL', note: 'Volé dans le train' }, req);
+
+      expect(mockPrisma.loanLine.updateMany).toHaveBeenCalledWith({
+        where: { id: 'line1', loanId: 'loan1', returnedAt: null },
+        data: { returnedAt: expect.any(Date), returnCondition: 'MISSING', returnNote: 'Volé dans le train' }
+      });
+      expect(mockPrisma.reservation.updateMany).toHaveBeenCalledWith({
+        where: { assetItemId: 'asset1', status: 'ACTIVE' },
+        data: { status: 'CANCELLED' }
+      });
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({
+        where: { id: 'asset1' },
+        data: expect.objectContaining({ status: 'REFORME', disposalReason: 'VOL', disposedById: 'user1' })
+      });
+      expect(mockPrisma.loan.update).not.toHaveBeenCalled();
+    });
+
+    it('should write off the loaned stock units and close the loan on the last line', async () => {
+      const loan = buildLoan([
+        { id: 'line1', assetItemId: null, stockItemId: 'stock1', quantity: 2, returnedAt: null }
+      ]);
+      mockPrisma.loan.findUnique.mockResolvedValue(loan);
+      mockPrisma.loanLine.count.mockResolvedValue(0);
+
+      await writeOffLoanLine('loan1', 'line1', {}, req);
+
+      expect(mockPrisma.stockItem.update).toHaveBeenCalledWith({
+        where: { id: 'stock1' },
+        data: {
+          quantity: { decrement: 2 },
+          loaned: { decrement: 2 },
+          movements: {
+            create: expect.objectContaining({ type: 'WRITE_OFF', quantityDelta: -2, loanedDelta: -2, referenceType: 'Loan', referenceId: 'loan1' })
+          }
+        }
+      });
+      expect(mockPrisma.loan.update).toHaveBeenCalledWith({
+        where: { id: 'loan1' },
+        data: { status: 'CLOSED', closedAt: expect.any(Date) }
+      });
+    });
+
+    it('should throw ValidationError when line was already returned', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([
+        { id: 'line1', assetItemId: 'asset1', quantity: 1, returnedAt: new Date() }
+      ]));
+
+      await expect(writeOffLoanLine('loan1', 'line1', {}, req))
+        .rejects.toThrow('déjà été retourné');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should leave the item alone when the line is released concurrently', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([
+        { id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1, returnedAt: null }
+      ]));
+      mockPrisma.loanLine.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(writeOffLoanLine('loan1', 'line1', {}, req))
+        .rejects.toThrow('déjà été retourné');
+      expect(mockPrisma.assetItem.update).not.toHaveBeenCalled();
+      expect(mockPrisma.reservation.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.loan.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addLoanKit', () => {
+    const openLoan = { id: 'loan1', employeeId: 'emp1', status: 'OPEN', dueAt: null, deletedAt: null };
+    const kit = {
+      id: 'kit1',
+      name: 'Onboarding',
+      items: [
+        { id: 'ki1', assetModelId: 'model1', stockItemId: null, quantity: 2, assetModel: { brand: 'Dell', modelName: 'P2422H' } },
+        { id: 'ki2', assetModelId: null, stockItemId: 'stock1', quantity: 3, stockItem: { assetModel: { brand: 'Generic', modelName: 'HDMI 2m' } } },
+      ],
+    };
+
+    beforeEach(() => {
+      mockPrisma.loan.findUnique.mockResolvedValue(openLoan);
+      mockPrisma.loanKit.findUnique.mockResolvedValue(kit);
+      mockPrisma.assetItem.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.loanLine.create.mockImplementation(({ data }) => Promise.resolve({ id: `line-${data.assetItemId || data.stockItemId}` }));
+    });
+
+    it('should pick the first available items of each model and lend stock', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue([{ id: 'asset1' }, { id: 'asset2' }]);
+
+      const result = await addLoanKit('loan1', 'kit1');
+
+      expect(mockPrisma.assetItem.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          assetModelId: 'model1',
+          status: 'EN_STOCK',
+          reservations: { none: expect.objectContaining({ status: 'ACTIVE', employeeId: { not: 'emp1' } }) }
+        }),
+        orderBy: { assetTag: 'asc' },
+        take: 2
+      }));
+      expect(mockPrisma.assetItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'asset1', status: 'EN_STOCK' },
+        data: { status: 'PRETE' }
+      });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.loanLine.create).toHaveBeenCalledTimes(3);
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { isolationLevel: 'Serializable' });
+      expect(result.missing).toEqual([]);
+    });
+
+    it('should report components that cannot be satisfied', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue([{ id: 'asset1' }]);
+      mockPrisma.$executeRaw.mockResolvedValueOnce(0);
+
+      const result = await addLoanKit('loan1', 'kit1');
+
+      expect(result.missing).toEqual([
+        { kitItemId: 'ki1', label: 'Dell P2422H', requested: 2, added: 1 },
+        { kitItemId: 'ki2', label: 'Generic HDMI 2m', requested: 3, added: 0 },
+      ]);
+      expect(mockPrisma.loanLine.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip items lent concurrently since the read', async () => {
+      mockPrisma.assetItem.findMany.mockResolvedValue([{ id: 'asset1' }, { id: 'asset2' }]);
+      mockPrisma.assetItem.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await addLoanKit('loan1', 'kit1');
+
+      expect(result.missing).toEqual([{ kitItemId: 'ki1', label: 'Dell P2422H', requested: 2, added: 1 }]);
+    });
+
+    it('should throw NotFoundError when kit does not exist', async () => {
+      mockPrisma.loanKit.findUnique.mockResolvedValue(null);
+
+      await expect(addLoanKit('loan1', 'missing')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ValidationError when loan is closed', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ ...openLoan, status: 'CLOSED' });
+
+      await expect(addLoanKit('loan1', 'kit1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError when loan is closed while the kit is added', async () => {
+      mockPrisma.loan.findUnique
+        .mockResolvedValueOnce(openLoan)
+        .mockResolvedValueOnce({ status: 'CLOSED', deletedAt: null });
+
+      await expect(addLoanKit('loan1', 'kit1')).rejects.toThrow('prêt fermé');
+      expect(mockPrisma.assetItem.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.loanLine.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transferLoanLines', () => {
+    const buildLoan = (lines) => ({
+      id: 'loan1',
+      employeeId: 'leaver1',
+      status: 'OPEN',
+      dueAt: new Date('2026-12-31'),
+      deletedAt: null,
+      lines
+    });
+    const laptopLine = { id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1, returnedAt: null };
+    const mouseLine = { id: 'line2', assetItemId: null, stockItemId: 'stock1', quantity: 1, returnedAt: null };
+
+    beforeEach(() => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'newcomer1' });
+      mockPrisma.loan.create.mockResolvedValue({ id: 'loan2', employeeId: 'newcomer1', status: 'OPEN', dueAt: new Date('2026-12-31') });
+    });
+
+    it('should move selected lines to a new loan without releasing the items', async () => {
+      mockPrisma.loan.findUnique
+        .mockResolvedValueOnce(buildLoan([laptopLine, mouseLine]))
+        .mockResolvedValueOnce({ id: 'loan2', employeeId: 'newcomer1', lines: [{ ...laptopLine, loanId: 'loan2' }] });
+      mockPrisma.loanLine.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await transferLoanLines('loan1', { employeeId: 'newcomer1', lineIds: ['line1'] }, 'user1');
+
+      expect(mockPrisma.loan.create).toHaveBeenCalledWith({
+        data: { employeeId: 'newcomer1', createdById: 'user1', status: 'OPEN', dueAt: new Date('2026-12-31') }
+      });
+      expect(mockPrisma.loanLine.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['line1'] }, loanId: 'loan1', returnedAt: null },
+        data: { loanId: 'loan2' }
+      });
+      expect(mockPrisma.assetItem.update).not.toHaveBeenCalled();
+      expect(mockPrisma.stockItem.update).not.toHaveBeenCalled();
+      expect(mockPrisma.loan.update).not.toHaveBeenCalled();
+      expect(result.id).toBe('loan2');
+    });
+
+    it('should close the source loan when every outstanding line is transferred', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([
+        laptopLine,
+        { ...mouseLine, returnedAt: new Date('2026-10-01') }
+      ]));
+      mockPrisma.loanLine.updateMany.mockResolvedValue({ count: 1 });
+
+      await transferLoanLines('loan1', { employeeId: 'newcomer1', lineIds: ['line1'], dueAt: null }, 'user1');
+
+      expect(mockPrisma.loan.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ dueAt: null })
+      });
+      expect(mockPrisma.loan.update).toHaveBeenCalledWith({
+        where: { id: 'loan1' },
+        data: { status: 'CLOSED', closedAt: expect.any(Date) }
+      });
+    });
+
+    it('should abort when a line changed concurrently', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([laptopLine, mouseLine]));
+      mockPrisma.loanLine.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(transferLoanLines('loan1', { employeeId: 'newcomer1', lineIds: ['line1', 'line2'] }, 'user1'))
+        .rejects.toThrow('modifiées pendant le transfert');
+      expect(mockPrisma.loan.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject returned or unknown lines', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([
+        { ...laptopLine, returnedAt: new Date() }
+      ]));
+
+      await expect(transferLoanLines('loan1', { employeeId: 'newcomer1', lineIds: ['line1'] }, 'user1'))
+        .rejects.toThrow(ValidationError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a transfer to the same employee', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([laptopLine]));
+
+      await expect(transferLoanLines('loan1', { employeeId: 'leaver1', lineIds: ['line1'] }, 'user1'))
+        .rejects.toThrow('appartient déjà à cet employé');
+    });
+
+    it('should throw NotFoundError when target employee does not exist', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([laptopLine]));
+      mockPrisma.employee.findUnique.mockResolvedValue(null);
+
+      await expect(transferLoanLines('loan1', { employeeId: 'ghost1', lineIds: ['line1'] }, 'user1'))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject a transfer to an archived employee', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan([laptopLine]));
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'newcomer1', archivedAt: new Date('2026-10-01') });
+
+      await expect(transferLoanLines('loan1', { employeeId: 'newcomer1', lineIds: ['line1'] }, 'user1'))
+        .rejects.toThrow('employé archivé');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError when loan is closed', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ ...buildLoan([laptopLine]), status: 'CLOSED' });
+
+      await expect(transferLoanLines('loan1', { employeeId: 'newcomer1', lineIds: ['line1'] }, 'user1'))
+        .rejects.toThrow(ValidationError);
+    });
+  });
+
   describe('closeLoan', () => {
+    // Lines still outstanding when the transaction re-reads them
+    const mockOutstandingLines = (lines) => {
+      mockPrisma.loanLine.findMany.mockResolvedValue(lines);
+      mockPrisma.loanLine.updateMany.mockResolvedValue({ count: lines.length });
+    };
+
+    beforeEach(() => {
+      mockPrisma.loan.updateMany.mockResolvedValue({ count: 1 });
+    });
+
     it('should close loan and restore asset statuses', async () => {
       const mockLoan = {
         id: 'loan1',
@@ -520,20 +1143,31 @@ describe('Loans Service', () => {
           { id: 'line2', assetItemId: 'asset2', assetItem: {} }
         ]
       };
+      const mockClosedLoan = { ...mockLoan, status: 'CLOSED', closedAt: new Date() };
 
-      const mockClosedLoan = {
-        ...mockLoan,
-        status: 'CLOSED',
-        closedAt: expect.any(Date)
-      };
-
-      mockPrisma.loan.findUnique.mockResolvedValue(mockLoan);
-      mockPrisma.$transaction.mockResolvedValue([mockClosedLoan]);
+      mockPrisma.loan.findUnique
+        .mockResolvedValueOnce(mockLoan)
+        .mockResolvedValueOnce(mockClosedLoan);
+      mockOutstandingLines([
+        { id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1 },
+        { id: 'line2', assetItemId: 'asset2', stockItemId: null, quantity: 1 }
+      ]);
 
       const result = await closeLoan('loan1');
 
-      expect(mockPrisma.$transaction).toHaveBeenCalled();
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { isolationLevel: 'Serializable' });
+      expect(mockPrisma.loan.updateMany).toHaveBeenCalledWith({
+        where: { id: 'loan1', status: 'OPEN', deletedAt: null },
+        data: { status: 'CLOSED', closedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.loanLine.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['line1', 'line2'] }, returnedAt: null },
+        data: { returnedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({ where: { id: 'asset1' }, data: { status: 'EN_STOCK' } });
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({ where: { id: 'asset2' }, data: { status: 'EN_STOCK' } });
       expect(result).toEqual(mockClosedLoan);
+      expect(mockNotifyLoanEvent).toHaveBeenCalledWith('LOAN_CLOSED', 'loan1');
     });
 
     it('should close loan and decrement stock loaned counter', async () => {
@@ -547,11 +1181,142 @@ describe('Loans Service', () => {
       };
 
       mockPrisma.loan.findUnique.mockResolvedValue(mockLoan);
-      mockPrisma.$transaction.mockResolvedValue([{}]);
+      mockOutstandingLines([{ id: 'line1', assetItemId: null, stockItemId: 'stock1', quantity: 3 }]);
 
       await closeLoan('loan1');
 
-      expect(mockPrisma.$transaction).toHaveBeenCalled();
+      expect(mockPrisma.stockItem.update).toHaveBeenCalledWith({
+        where: { id: 'stock1' },
+        data: {
+          loaned: { decrement: 3 },
+          movements: {
+            create: expect.objectContaining({ type: 'LOAN_CLOSED', loanedDelta: -3, referenceType: 'Loan', referenceId: 'loan1' })
+          }
+        }
+      });
+    });
+
+    it('should only restore lines that were not already returned', async () => {
+      const mockLoan = {
+        id: 'loan1',
+        status: 'OPEN',
+        deletedAt: null,
+        lines: [
+          { id: 'line1', assetItemId: 'asset1', returnedAt: new Date('2026-10-01') },
+          { id: 'line2', assetItemId: 'asset2', returnedAt: null }
+        ]
+      };
+
+      mockPrisma.loan.findUnique.mockResolvedValue(mockLoan);
+      mockOutstandingLines([{ id: 'line2', assetItemId: 'asset2', stockItemId: null, quantity: 1 }]);
+
+      await closeLoan('loan1');
+
+      expect(mockPrisma.loanLine.findMany).toHaveBeenCalledWith({ where: { loanId: 'loan1', returnedAt: null } });
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({
+        where: { id: 'asset2' },
+        data: { status: 'EN_STOCK' }
+      });
+    });
+
+    it('should not release lines returned or written off since the loan was read', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({
+        id: 'loan1',
+        status: 'OPEN',
+        deletedAt: null,
+        lines: [
+          { id: 'line1', assetItemId: 'asset1', returnedAt: null },
+          { id: 'line2', stockItemId: 'stock1', quantity: 2, returnedAt: null }
+        ]
+      });
+      mockOutstandingLines([{ id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1 }]);
+
+      await closeLoan('loan1');
+
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.stockItem.update).not.toHaveBeenCalled();
+    });
+
+    it('should route inspected assets to REPARATION or HS and keep the note on the line', async () => {
+      const lines = [
+        { id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1, returnedAt: null },
+        { id: 'line2', assetItemId: 'asset2', stockItemId: null, quantity: 1, returnedAt: null },
+        { id: 'line3', assetItemId: 'asset3', stockItemId: null, quantity: 1, returnedAt: null }
+      ];
+
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', status: 'OPEN', deletedAt: null, lines });
+      mockOutstandingLines(lines);
+
+      await closeLoan('loan1', {}, [
+        { lineId: 'line1', condition: 'OK' },
+        { lineId: 'line2', condition: 'DAMAGED', note: 'Écran fissuré' },
+        { lineId: 'line3', condition: 'MISSING' }
+      ]);
+
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({ where: { id: 'asset1' }, data: { status: 'EN_STOCK' } });
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({ where: { id: 'asset2' }, data: { status: 'REPARATION' } });
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({ where: { id: 'asset3' }, data: { status: 'HS' } });
+      expect(mockPrisma.loanLine.update.mock.calls.map(([args]) => args)).toEqual([
+        { where: { id: 'line1' }, data: { returnCondition: 'OK', returnNote: null } },
+        { where: { id: 'line2' }, data: { returnCondition: 'DAMAGED', returnNote: 'Écran fissuré' } },
+        { where: { id: 'line3' }, data: { returnCondition: 'MISSING', returnNote: null } }
+      ]);
+    });
+
+    it('should throw ValidationError when the loan is closed concurrently', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({
+        id: 'loan1',
+        status: 'OPEN',
+        deletedAt: null,
+        lines: [{ id: 'line1', assetItemId: 'asset1', returnedAt: null }]
+      });
+      mockPrisma.loan.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(closeLoan('loan1'))
+        .rejects.toThrow('déjà fermé');
+      expect(mockPrisma.assetItem.update).not.toHaveBeenCalled();
+      expect(mockNotifyLoanEvent).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError when a line is released during the close', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({
+        id: 'loan1',
+        status: 'OPEN',
+        deletedAt: null,
+        lines: [{ id: 'line1', assetItemId: 'asset1', returnedAt: null }]
+      });
+      mockPrisma.loanLine.findMany.mockResolvedValue([{ id: 'line1', assetItemId: 'asset1', stockItemId: null, quantity: 1 }]);
+      mockPrisma.loanLine.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(closeLoan('loan1'))
+        .rejects.toThrow('modifiées pendant la clôture');
+      expect(mockPrisma.assetItem.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject inspections targeting stock lines', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({
+        id: 'loan1',
+        status: 'OPEN',
+        deletedAt: null,
+        lines: [{ id: 'line1', stockItemId: 'stock1', quantity: 2, returnedAt: null }]
+      });
+
+      await expect(closeLoan('loan1', {}, [{ lineId: 'line1', condition: 'OK' }]))
+        .rejects.toThrow('ne concerne que les équipements');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject inspections targeting lines already returned', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({
+        id: 'loan1',
+        status: 'OPEN',
+        deletedAt: null,
+        lines: [{ id: 'line1', assetItemId: 'asset1', returnedAt: new Date() }]
+      });
+
+      await expect(closeLoan('loan1', {}, [{ lineId: 'line1', condition: 'DAMAGED' }]))
+        .rejects.toThrow(ValidationError);
     });
 
     it('should throw NotFoundError when loan does not exist', async () => {
@@ -677,6 +1442,164 @@ describe('Loans Service', () => {
     });
   });
 
+  describe('getDeletedLoans', () => {
+    it('should list deleted loans with their purge date', async () => {
+      mockPrisma.loan.count.mockResolvedValue(1);
+      mockPrisma.loan.findMany.mockResolvedValue([
+        { id: 'loan1', deletedAt: new Date('2026-10-01T10:00:00Z'), deletedBy: { email: 'admin@example.com' } }
+      ]);
+
+      const result = await getDeletedLoans({ search: 'dupont', page: 1, pageSize: 20 });
+
+      expect(mockPrisma.loan.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ deletedAt: { not: null } }),
+        orderBy: { deletedAt: 'desc' }
+      }));
+      expect(result.data[0].purgeAt).toEqual(new Date('2026-10-31T10:00:00Z'));
+      expect(result.pagination.totalItems).toBe(1);
+    });
+  });
+
+  describe('restoreLoan', () => {
+    const deletedLoan = {
+      id: 'loan1',
+      employeeId: 'emp1',
+      status: 'OPEN',
+      dueAt: null,
+      deletedAt: new Date('2026-10-01'),
+      deletedById: 'admin1',
+      employee: { id: 'emp1', archivedAt: null },
+      lines: [
+        { id: 'line1', assetItemId: 'asset1', quantity: 1, returnedAt: null, assetItem: { assetTag: 'LAP-001' } },
+        { id: 'line2', stockItemId: 'stock1', quantity: 2, returnedAt: null, stockItem: { assetModel: { brand: 'Belkin', modelName: 'USB-C' } } },
+        { id: 'line3', assetItemId: 'asset2', quantity: 1, returnedAt: new Date('2026-09-20'), assetItem: { assetTag: 'LAP-002' } }
+      ]
+    };
+
+    it('should re-apply asset statuses and stock counters of unreturned lines', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(deletedLoan);
+      mockPrisma.assetItem.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.loan.update.mockResolvedValue({ id: 'loan1', deletedAt: null });
+
+      const result = await restoreLoan('loan1');
+
+      expect(mockPrisma.assetItem.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.assetItem.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'asset1',
+          status: 'EN_STOCK',
+          reservations: { none: { status: 'ACTIVE', employeeId: { not: 'emp1' }, endDate: { gt: expect.any(Date) } } }
+        },
+        data: { status: 'PRETE' }
+      });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.loan.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'loan1' },
+        data: { deletedAt: null, deletedById: null }
+      }));
+      expect(result.deletedAt).toBeNull();
+    });
+
+    it('should fail with ConflictError listing items lent elsewhere since', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(deletedLoan);
+      mockPrisma.assetItem.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.$executeRaw.mockResolvedValueOnce(0).mockResolvedValueOnce(0);
+
+      await expect(restoreLoan('loan1')).rejects.toThrow(ConflictError);
+      await expect(restoreLoan('loan1')).rejects.toThrow('LAP-001, 2 x Belkin USB-C');
+      expect(mockPrisma.loan.update).not.toHaveBeenCalled();
+    });
+
+    it('should only bring a closed loan back to the history', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ ...deletedLoan, status: 'CLOSED' });
+      mockPrisma.loan.update.mockResolvedValue({ id: 'loan1', deletedAt: null });
+
+      await restoreLoan('loan1');
+
+      expect(mockPrisma.assetItem.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+      expect(mockPrisma.stockMovement.create).not.toHaveBeenCalled();
+      expect(mockPrisma.loan.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { deletedAt: null, deletedById: null }
+      }));
+    });
+
+    it('should refuse to restore an open loan of an archived employee', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({
+        ...deletedLoan,
+        employee: { id: 'emp1', archivedAt: new Date('2026-10-05') }
+      });
+
+      await expect(restoreLoan('loan1')).rejects.toThrow('employé archivé');
+      expect(mockPrisma.loan.update).not.toHaveBeenCalled();
+    });
+
+    it('should restore a closed loan of an archived employee', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({
+        ...deletedLoan,
+        status: 'CLOSED',
+        employee: { id: 'emp1', archivedAt: new Date('2026-10-05') }
+      });
+      mockPrisma.loan.update.mockResolvedValue({ id: 'loan1', deletedAt: null });
+
+      await expect(restoreLoan('loan1')).resolves.toEqual({ id: 'loan1', deletedAt: null });
+    });
+
+    it('should throw ValidationError when loan is not deleted', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', deletedAt: null, lines: [] });
+
+      await expect(restoreLoan('loan1')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('purgeLoan', () => {
+    it('should permanently delete a loan from the trash', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', deletedAt: new Date(), status: 'OPEN' });
+      mockPrisma.loan.delete.mockResolvedValue({});
+
+      const result = await purgeLoan('loan1');
+
+      expect(mockPrisma.loan.delete).toHaveBeenCalledWith({ where: { id: 'loan1' } });
+      expect(result.message).toContain('définitivement');
+    });
+
+    it('should refuse to purge a loan that is not in the trash', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', deletedAt: null });
+
+      await expect(purgeLoan('loan1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.loan.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeExpiredLoans', () => {
+    afterEach(() => {
+      delete process.env.LOAN_TRASH_RETENTION_DAYS;
+    });
+
+    it('should delete loans deleted before the retention period', async () => {
+      process.env.LOAN_TRASH_RETENTION_DAYS = '10';
+      mockPrisma.loan.findMany.mockResolvedValue([{ id: 'loan1' }, { id: 'loan2' }]);
+      mockPrisma.loan.deleteMany.mockResolvedValue({ count: 2 });
+
+      const result = await purgeExpiredLoans(undefined, new Date('2026-10-19T03:00:00Z'));
+
+      expect(mockPrisma.loan.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { deletedAt: { lt: new Date('2026-10-09T03:00:00Z') } }
+      }));
+      expect(mockPrisma.loan.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['loan1', 'loan2'] } } });
+      expect(result).toEqual({ purgedCount: 2, retentionDays: 10 });
+    });
+
+    it('should do nothing when no loan expired', async () => {
+      mockPrisma.loan.findMany.mockResolvedValue([]);
+
+      const result = await purgeExpiredLoans();
+
+      expect(mockPrisma.loan.deleteMany).not.toHaveBeenCalled();
+      expect(result).toEqual({ purgedCount: 0, retentionDays: 30 });
+    });
+  });
+
   describe('deletePickupSignature', () => {
     it('should delete pickup signature successfully', async () => {
       const mockLoan = {
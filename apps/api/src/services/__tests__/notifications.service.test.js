@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Unit tests for notifications.service.js
+ *
+ * Tests:
+ * - Recipients: employee always, manager only when opted in
+ * - Every delivery attempt is logged, failures never throw
+ * - Overdue reminders skip loans reminded in the last 24 hours
+ * - Long-running loan reminders target loans opened before the threshold
+ * - Preferences defaults and upsert
+ */
+
+import { jest } from '@jest/globals';
+
+// Mock Prisma client
+const mockPrisma = {
+  loan: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+  },
+  notificationLog: {
+    create: jest.fn(),
+    count: jest.fn(),
+    findMany: jest.fn(),
+  },
+  notificationSetting: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+jest.unstable_mockModule('../../config/logger.js', () => ({
+  default: {
+    warn: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  }
+}));
+
+// Import after mocks are set up
+const { setMailTransport } = await import('../../config/mailer.js');
+const {
+  notifyLoanEvent,
+  sendOverdueReminders,
+  sendLongRunningLoanReminders,
+  getNotificationSettings,
+  updateNotificationSettings,
+  getNotificationLogs,
+} = await import('../notifications.service.js');
+
+const transport = { name: 'test', send: jest.fn() };
+
+function buildLoan(overrides = {}) {
+  return {
+    id: 'loan1',
+    dueAt: new Date('2026-11-01'),
+    employee: {
+      firstName: 'Jean',
+      lastName: 'Dupont',
+      email: 'jean.dupont@example.com',
+      manager: {
+        email: 'manager@example.com',
+        notificationSetting: { loanOpened: true, lineAdded: false, loanClosed: false, overdueReminder: true }
+      }
+    },
+    lines: [
+      {
+        id: 'line1',
+        quantity: 1,
+        returnedAt: null,
+        assetItem: { assetTag: 'LAP-001', serial: 'SN1', assetModel: { brand: 'Dell', modelName: 'Latitude' } }
+      },
+      {
+        id: 'line2',
+        quantity: 2,
+        returnedAt: new Date('2026-10-10'),
+        stockItem: { assetModel: { brand: 'Belkin', modelName: 'USB-C' } }
+      }
+    ],
+    ...overrides
+  };
+}
+
+describe('Notifications Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transport.send.mockResolvedValue({ messageId: '<id@example.com>' });
+    mockPrisma.notificationLog.create.mockResolvedValue({});
+    setMailTransport(transport);
+  });
+
+  afterAll(() => {
+    setMailTransport(null);
+  });
+
+  describe('notifyLoanEvent', () => {
+    it('should email the employee and the opted-in manager', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan());
+
+      const result = await notifyLoanEvent('LOAN_OPENED', 'loan1');
+
+      expect(result).toEqual({ sent: 2, failed: 0 });
+      expect(transport.send).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'jean.dupont@example.com',
+        subject: 'Prêt de matériel ouvert pour Jean Dupont'
+      }));
+      expect(transport.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'manager@example.com' }));
+      expect(mockPrisma.notificationLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          event: 'LOAN_OPENED',
+          recipient: 'jean.dupont@example.com',
+          status: 'SENT',
+          error: null,
+          transport: 'test',
+          loanId: 'loan1'
+        })
+      });
+    });
+
+    it('should not email a manager who did not opt in', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan());
+
+      await notifyLoanEvent('LINE_ADDED', 'loan1', { lineIds: ['line1'] });
+
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      const [message] = transport.send.mock.calls[0];
+      expect(message.to).toBe('jean.dupont@example.com');
+      expect(message.text).toContain('LAP-001 - Dell Latitude (SN1)');
+      expect(message.text).not.toContain('Belkin');
+    });
+
+    it('should list only outstanding lines in overdue reminders', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan());
+
+      await notifyLoanEvent('OVERDUE_REMINDER', 'loan1');
+
+      const [message] = transport.send.mock.calls[0];
+      expect(message.subject).toBe('Rappel : matériel à restituer par Jean Dupont');
+      expect(message.text).toContain('LAP-001');
+      expect(message.text).not.toContain('Belkin');
+    });
+
+    it('should log failed deliveries without throwing', async () => {
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan());
+      transport.send.mockRejectedValueOnce(new Error('Connection refused'));
+
+      const result = await notifyLoanEvent('LOAN_OPENED', 'loan1');
+
+      expect(result).toEqual({ sent: 1, failed: 1 });
+      expect(mockPrisma.notificationLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'FAILED', error: 'Connection refused' })
+      });
+    });
+
+    it('should skip employees without email', async () => {
+      const loan = buildLoan();
+      loan.employee.email = null;
+      loan.employee.manager = null;
+      mockPrisma.loan.findUnique.mockResolvedValue(loan);
+
+      const result = await notifyLoanEvent('LOAN_CLOSED', 'loan1');
+
+      expect(result).toEqual({ sent: 0, failed: 0 });
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+
+    it('should never throw when loading the loan fails', async () => {
+      mockPrisma.loan.findUnique.mockRejectedValue(new Error('Database down'));
+
+      await expect(notifyLoanEvent('LOAN_OPENED', 'loan1')).resolves.toEqual({ sent: 0, failed: 0 });
+    });
+
+    it('should do nothing when emails are disabled', async () => {
+      setMailTransport({ name: 'disabled', send: jest.fn() });
+
+      await notifyLoanEvent('LOAN_OPENED', 'loan1');
+
+      expect(mockPrisma.loan.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendOverdueReminders', () => {
+    it('should remind overdue loans not reminded in the last 24 hours', async () => {
+      const now = new Date('2026-11-10T08:00:00Z');
+      mockPrisma.loan.findMany.mockResolvedValue([{ id: 'loan1' }]);
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan());
+
+      const result = await sendOverdueReminders(now);
+
+      expect(mockPrisma.loan.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          status: 'OPEN',
+          deletedAt: null,
+          notificationLogs: {
+            none: {
+              event: 'OVERDUE_REMINDER',
+              status: 'SENT',
+              createdAt: { gte: new Date('2026-11-09T08:00:00Z') }
+            }
+          }
+        })
+      }));
+      expect(result).toEqual({ loans: 1, sent: 2, failed: 0 });
+    });
+  });
+
+  describe('sendLongRunningLoanReminders', () => {
+    it('should remind loans opened before the threshold once a week', async () => {
+      const now = new Date('2026-11-10T09:00:00Z');
+      mockPrisma.loan.findMany.mockResolvedValue([{ id: 'loan1' }]);
+      mockPrisma.loan.findUnique.mockResolvedValue(buildLoan({ openedAt: new Date('2026-06-01T09:00:00Z') }));
+
+      const result = await sendLongRunningLoanReminders(90, now);
+
+      expect(mockPrisma.loan.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          status: 'OPEN',
+          deletedAt: null,
+          openedAt: { lt: new Date('2026-08-12T09:00:00Z') },
+          notificationLogs: {
+            none: {
+              event: 'LONG_LOAN_REMINDER',
+              status: 'SENT',
+              createdAt: { gte: new Date('2026-11-03T09:00:00Z') }
+            }
+          }
+        })
+      }));
+      // Manager did not opt in to long-running loan reminders
+      expect(result).toEqual({ loans: 1, sent: 1, failed: 0 });
+      const [message] = transport.send.mock.calls[0];
+      expect(message.subject).toMatch(/^Prêt de matériel en cours depuis \d+ jours : Jean Dupont$/);
+      expect(message.text).toContain('01/06/2026');
+      expect(message.text).not.toContain('Belkin');
+    });
+  });
+
+  describe('settings', () => {
+    it('should return defaults when the user has no preferences yet', async () => {
+      mockPrisma.notificationSetting.findUnique.mockResolvedValue(null);
+
+      const settings = await getNotificationSettings('user1');
+
+      expect(settings).toEqual({
+        loanOpened: false, lineAdded: false, loanClosed: false, overdueReminder: false, longLoanReminder: false
+      });
+    });
+
+    it('should upsert preferences', async () => {
+      mockPrisma.notificationSetting.upsert.mockResolvedValue({
+        id: 's1', userId: 'user1', loanOpened: true, lineAdded: false, loanClosed: false, overdueReminder: false, longLoanReminder: false
+      });
+
+      const settings = await updateNotificationSettings('user1', { loanOpened: true });
+
+      expect(mockPrisma.notificationSetting.upsert).toHaveBeenCalledWith({
+        where: { userId: 'user1' },
+        create: {
+          userId: 'user1', loanOpened: true, lineAdded: false, loanClosed: false, overdueReminder: false, longLoanReminder: false
+        },
+        update: { loanOpened: true }
+      });
+      expect(settings).toEqual({
+        loanOpened: true, lineAdded: false, loanClosed: false, overdueReminder: false, longLoanReminder: false
+      });
+    });
+  });
+
+  describe('getNotificationLogs', () => {
+    it('should filter and paginate the delivery log', async () => {
+      mockPrisma.notificationLog.count.mockResolvedValue(1);
+      mockPrisma.notificationLog.findMany.mockResolvedValue([{ id: 'log1' }]);
+
+      const result = await getNotificationLogs({ status: 'FAILED', recipient: 'dupont', page: 1, pageSize: 20 });
+
+      expect(mockPrisma.notificationLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'FAILED', recipient: { contains: 'dupont', mode: 'insensitive' } },
+        orderBy: { createdAt: 'desc' }
+      }));
+      expect(result.pagination.totalItems).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Unit tests for purchaseOrders.service.js
+ *
+ * Tests:
+ * - Draft orders: references, totals, edits and deletion restricted to drafts
+ * - Placing an order
+ * - Receptions: serialized items created with their serial, tag and order line,
+ *   consumable stock incremented with a RECEPTION movement, status progression
+ * - Reception errors: draft order, over-reception, serial mismatch and duplicates
+ */
+
+import { jest } from '@jest/globals';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  purchaseOrder: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  purchaseOrderLine: {
+    deleteMany: jest.fn(),
+    update: jest.fn(),
+  },
+  supplier: {
+    findUnique: jest.fn(),
+  },
+  assetModel: {
+    count: jest.fn(),
+  },
+  assetItem: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+  },
+  stockItem: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+const mockInvalidateEntity = jest.fn();
+jest.unstable_mockModule('../cache.service.js', () => ({
+  invalidateEntity: mockInvalidateEntity,
+  getCached: jest.fn(),
+  generateKey: jest.fn(),
+  TTL: {}
+}));
+
+// Import service after mocks are set up
+const {
+  getPurchaseOrders,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  placePurchaseOrder,
+  deletePurchaseOrder,
+  receivePurchaseOrder,
+} = await import('../purchaseOrders.service.js');
+
+const laptopModel = { id: 'model-1', type: 'Ordinateur portable', brand: 'Dell', modelName: 'Latitude 5440' };
+const cableModel = { id: 'model-2', type: 'Câble', brand: 'Belkin', modelName: 'HDMI 2m' };
+
+const laptopLine = {
+  id: 'line-1',
+  assetModelId: 'model-1',
+  assetModel: laptopModel,
+  quantity: 3,
+  unitPriceCents: 89900,
+  receivedQuantity: 0
+};
+
+const cableLine = {
+  id: 'line-2',
+  assetModelId: 'model-2',
+  assetModel: cableModel,
+  quantity: 20,
+  unitPriceCents: 990,
+  receivedQuantity: 0
+};
+
+const orderedOrder = {
+  id: 'order-1',
+  reference: 'BC-2026-0001',
+  supplierId: 'supplier-1',
+  status: 'ORDERED',
+  lines: [laptopLine, cableLine]
+};
+
+describe('PurchaseOrders Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((arg) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+    );
+    mockPrisma.purchaseOrder.update.mockImplementation(({ data }) => Promise.resolve({ ...orderedOrder, ...data }));
+    mockPrisma.assetItem.findMany.mockResolvedValue([]);
+    mockPrisma.assetItem.create.mockImplementation(({ data }) => Promise.resolve({ id: `item-${data.serial}`, ...data }));
+  });
+
+  describe('getPurchaseOrders', () => {
+    it('should filter by status and supplier and add the totals', async () => {
+      mockPrisma.purchaseOrder.findMany.mockResolvedValueOnce([{ ...orderedOrder }]);
+      mockPrisma.purchaseOrder.count.mockResolvedValueOnce(1);
+
+      const result = await getPurchaseOrders({ status: 'ORDERED', supplierId: 'supplier-1' });
+
+      const query = mockPrisma.purchaseOrder.findMany.mock.calls[0][0];
+      expect(query.where).toEqual({ status: 'ORDERED', supplierId: 'supplier-1' });
+      expect(result.data[0].totalCents).toBe(3 * 89900 + 20 * 990);
+      expect(result.data[0].lines.map((line) => line.isConsumable)).toEqual([false, true]);
+    });
+  });
+
+  describe('createPurchaseOrder', () => {
+    const data = {
+      supplierId: 'supplier-1',
+      lines: [{ assetModelId: 'model-1', quantity: 3, unitPriceCents: 89900 }]
+    };
+
+    beforeEach(() => {
+      mockPrisma.supplier.findUnique.mockResolvedValue({ id: 'supplier-1' });
+      mockPrisma.assetModel.count.mockResolvedValue(1);
+      mockPrisma.purchaseOrder.create.mockImplementation(({ data: order }) =>
+        Promise.resolve({ id: 'order-1', ...order, lines: [laptopLine] })
+      );
+    });
+
+    it('should number the order after the last reference of the year', async () => {
+      const year = new Date().getFullYear();
+      mockPrisma.purchaseOrder.findFirst.mockResolvedValueOnce({ reference: `BC-${year}-0041` });
+
+      const order = await createPurchaseOrder(data, 'user-1');
+
+      const created = mockPrisma.purchaseOrder.create.mock.calls[0][0].data;
+      expect(created.reference).toBe(`BC-${year}-0042`);
+      expect(created.createdById).toBe('user-1');
+      expect(created.lines.create).toEqual(data.lines);
+      expect(order.totalCents).toBe(3 * 89900);
+    });
+
+    it('should start the numbering of a new year at 0001', async () => {
+      mockPrisma.purchaseOrder.findFirst.mockResolvedValueOnce(null);
+
+      await createPurchaseOrder(data, 'user-1');
+
+      const created = mockPrisma.purchaseOrder.create.mock.calls[0][0].data;
+      expect(created.reference).toBe(`BC-${new Date().getFullYear()}-0001`);
+    });
+
+    it('should throw NotFoundError if an asset model does not exist', async () => {
+      mockPrisma.assetModel.count.mockResolvedValueOnce(0);
+
+      await expect(createPurchaseOrder(data, 'user-1')).rejects.toThrow(NotFoundError);
+      expect(mockPrisma.purchaseOrder.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updatePurchaseOrder', () => {
+    it('should replace the lines of a draft', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValueOnce({ ...orderedOrder, status: 'DRAFT' });
+      mockPrisma.assetModel.count.mockResolvedValueOnce(1);
+      mockPrisma.purchaseOrder.update.mockResolvedValueOnce({ ...orderedOrder, status: 'DRAFT', lines: [cableLine] });
+      const lines = [{ assetModelId: 'model-2', quantity: 50, unitPriceCents: 990 }];
+
+      await updatePurchaseOrder('order-1', { lines });
+
+      expect(mockPrisma.purchaseOrderLine.deleteMany).toHaveBeenCalledWith({ where: { purchaseOrderId: 'order-1' } });
+      expect(mockPrisma.purchaseOrder.update.mock.calls[0][0].data).toEqual({ lines: { create: lines } });
+    });
+
+    it('should refuse to edit an order already placed', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValueOnce(orderedOrder);
+
+      await expect(updatePurchaseOrder('order-1', { notes: 'Urgent' })).rejects.toThrow(ValidationError);
+      expect(mockPrisma.purchaseOrder.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('placePurchaseOrder', () => {
+    it('should mark a draft as ordered', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValueOnce({ ...orderedOrder, status: 'DRAFT' });
+
+      const order = await placePurchaseOrder('order-1');
+
+      expect(order.status).toBe('ORDERED');
+      expect(mockPrisma.purchaseOrder.update.mock.calls[0][0].data.orderedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('deletePurchaseOrder', () => {
+    it('should refuse to delete an order already placed', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValueOnce(orderedOrder);
+
+      await expect(deletePurchaseOrder('order-1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.purchaseOrder.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('receivePurchaseOrder', () => {
+    beforeEach(() => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValue(orderedOrder);
+    });
+
+    it('should create one asset item per serial, linked to its order line', async () => {
+      mockPrisma.assetItem.findMany
+        .mockResolvedValueOnce([]) // serials available
+        .mockResolvedValueOnce([{ assetTag: 'LAP-007' }]); // existing tags
+
+      const result = await receivePurchaseOrder('order-1', {
+        invoiceNumber: 'FA-2026-0042',
+        lines: [{ lineId: 'line-1', serials: ['SN-A', 'SN-B'] }]
+      });
+
+      expect(mockPrisma.assetItem.create).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.assetItem.create.mock.calls[0][0].data).toEqual(expect.objectContaining({
+        assetModelId: 'model-1',
+        assetTag: 'LAP-008',
+        serial: 'SN-A',
+        status: 'EN_STOCK',
+        supplierId: 'supplier-1',
+        invoiceNumber: 'FA-2026-0042',
+        purchasePriceCents: 89900,
+        purchaseOrderLineId: 'line-1'
+      }));
+      expect(mockPrisma.assetItem.create.mock.calls[1][0].data.assetTag).toBe('LAP-009');
+      expect(mockPrisma.purchaseOrderLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: { receivedQuantity: { increment: 2 } }
+      });
+      expect(result.order.status).toBe('PARTIALLY_RECEIVED');
+      expect(result.assetItems).toHaveLength(2);
+      expect(mockInvalidateEntity).toHaveBeenCalledWith('asset_items');
+    });
+
+    it('should increment the consumable stock with a RECEPTION movement', async () => {
+      mockPrisma.stockItem.findFirst.mockResolvedValueOnce({ id: 'stock-1', quantity: 5 });
+      mockPrisma.stockItem.update.mockResolvedValueOnce({ id: 'stock-1', quantity: 25 });
+
+      const result = await receivePurchaseOrder('order-1', {
+        lines: [{ lineId: 'line-2', quantity: 20 }]
+      });
+
+      const { data } = mockPrisma.stockItem.update.mock.calls[0][0];
+      expect(data.quantity).toEqual({ increment: 20 });
+      expect(data.movements.create).toEqual(expect.objectContaining({
+        type: 'RECEPTION',
+        quantityDelta: 20,
+        referenceType: 'PurchaseOrder',
+        referenceId: 'order-1'
+      }));
+      expect(result.stockItems).toEqual([{ stockItemId: 'stock-1', quantity: 20 }]);
+      expect(mockPrisma.assetItem.create).not.toHaveBeenCalled();
+    });
+
+    it('should create the stock item of a consumable model without stock', async () => {
+      mockPrisma.stockItem.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.stockItem.create.mockResolvedValueOnce({ id: 'stock-2', quantity: 20 });
+
+      await receivePurchaseOrder('order-1', { lines: [{ lineId: 'line-2', quantity: 20 }] });
+
+      expect(mockPrisma.stockItem.create.mock.calls[0][0].data).toEqual(expect.objectContaining({
+        assetModelId: 'model-2',
+        quantity: 20,
+        supplierId: 'supplier-1'
+      }));
+    });
+
+    it('should mark the order received once every line is complete', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValueOnce({
+        ...orderedOrder,
+        status: 'PARTIALLY_RECEIVED',
+        lines: [{ ...laptopLine, receivedQuantity: 3 }, { ...cableLine, receivedQuantity: 15 }]
+      });
+      mockPrisma.stockItem.findFirst.mockResolvedValueOnce({ id: 'stock-1' });
+      mockPrisma.stockItem.update.mockResolvedValueOnce({ id: 'stock-1' });
+
+      const result = await receivePurchaseOrder('order-1', { lines: [{ lineId: 'line-2', quantity: 5 }] });
+
+      const { data } = mockPrisma.purchaseOrder.update.mock.calls[0][0];
+      expect(data.status).toBe('RECEIVED');
+      expect(data.receivedAt).toBeInstanceOf(Date);
+      expect(result.order.status).toBe('RECEIVED');
+    });
+
+    it('should refuse to receive a draft', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValueOnce({ ...orderedOrder, status: 'DRAFT' });
+
+      await expect(receivePurchaseOrder('order-1', { lines: [{ lineId: 'line-2', quantity: 1 }] }))
+        .rejects.toThrow('Passez la commande avant de la réceptionner');
+    });
+
+    it('should refuse to receive more than the remaining quantity', async () => {
+      await expect(receivePurchaseOrder('order-1', { lines: [{ lineId: 'line-2', quantity: 21 }] }))
+        .rejects.toThrow('20 restant(s) à recevoir');
+      expect(mockPrisma.stockItem.update).not.toHaveBeenCalled();
+    });
+
+    it('should require serial numbers for a serialized model', async () => {
+      await expect(receivePurchaseOrder('order-1', { lines: [{ lineId: 'line-1', quantity: 2 }] }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should refuse a line of another order', async () => {
+      await expect(receivePurchaseOrder('order-1', { lines: [{ lineId: 'line-9', quantity: 2 }] }))
+        .rejects.toThrow('Cette ligne n\'appartient pas au bon de commande');
+    });
+
+    it('should refuse serial numbers captured twice or already known', async () => {
+      await expect(receivePurchaseOrder('order-1', { lines: [{ lineId: 'line-1', serials: ['SN-A', 'SN-A'] }] }))
+        .rejects.toThrow(ConflictError);
+
+      mockPrisma.assetItem.findMany.mockResolvedValueOnce([{ serial: 'SN-B' }]);
+      await expect(receivePurchaseOrder('order-1', { lines: [{ lineId: 'line-1', serials: ['SN-B'] }] }))
+        .rejects.toThrow('Ces numéros de série existent déjà : SN-B');
+      expect(mockPrisma.assetItem.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError if the order does not exist', async () => {
+      mockPrisma.purchaseOrder.findUnique.mockResolvedValueOnce(null);
+
+      await expect(receivePurchaseOrder('missing', { lines: [{ lineId: 'line-1', serials: ['SN-A'] }] }))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+});
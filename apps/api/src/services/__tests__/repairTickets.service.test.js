@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Unit tests for repairTickets.service.js
+ *
+ * Tests:
+ * - Listing filters and ordering of open tickets
+ * - Opening a ticket moves the asset to REPARATION (loaned items and duplicates refused)
+ * - Tracking updates restricted to tickets not closed
+ * - Closing sets the asset status from the outcome
+ */
+
+import { jest } from '@jest/globals';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  repairTicket: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  assetItem: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  $transaction: jest.fn((fn) => fn(mockPrisma)),
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+const mockInvalidateEntity = jest.fn();
+jest.unstable_mockModule('../cache.service.js', () => ({
+  invalidateEntity: mockInvalidateEntity
+}));
+
+// Import service after mocks are set up
+const {
+  getRepairTickets,
+  createRepairTicket,
+  updateRepairTicket,
+  closeRepairTicket,
+} = await import('../repairTickets.service.js');
+
+describe('RepairTickets Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn) => fn(mockPrisma));
+  });
+
+  describe('getRepairTickets', () => {
+    it('should list open tickets by expected return date', async () => {
+      mockPrisma.repairTicket.count.mockResolvedValueOnce(1);
+      mockPrisma.repairTicket.findMany.mockResolvedValueOnce([{ id: 'ticket-1' }]);
+
+      const result = await getRepairTickets({ open: true, pageSize: 5 });
+
+      const query = mockPrisma.repairTicket.findMany.mock.calls[0][0];
+      expect(query.where).toEqual({ status: { not: 'CLOSED' } });
+      expect(query.orderBy).toEqual([
+        { expectedReturnAt: { sort: 'asc', nulls: 'last' } },
+        { openedAt: 'asc' }
+      ]);
+      expect(query.take).toBe(5);
+      expect(result.data).toEqual([{ id: 'ticket-1' }]);
+      expect(result.pagination.totalItems).toBe(1);
+    });
+
+    it('should search vendor, RMA number and asset tag', async () => {
+      mockPrisma.repairTicket.count.mockResolvedValueOnce(0);
+      mockPrisma.repairTicket.findMany.mockResolvedValueOnce([]);
+
+      await getRepairTickets({ status: 'CLOSED', search: 'dell' });
+
+      const query = mockPrisma.repairTicket.findMany.mock.calls[0][0];
+      expect(query.where.status).toBe('CLOSED');
+      expect(query.where.OR).toHaveLength(3);
+      expect(query.orderBy).toEqual({ openedAt: 'desc' });
+    });
+  });
+
+  describe('createRepairTicket', () => {
+    const data = {
+      assetItemId: 'asset-1',
+      fault: 'Écran qui clignote',
+      vendor: 'Dell ProSupport',
+      quoteCents: 12900
+    };
+
+    it('should open the ticket and move the asset to REPARATION', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValueOnce({ id: 'asset-1', status: 'HS' });
+      mockPrisma.repairTicket.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.assetItem.updateMany.mockResolvedValueOnce({ count: 1 });
+      mockPrisma.repairTicket.create.mockResolvedValueOnce({ id: 'ticket-1', ...data });
+
+      const ticket = await createRepairTicket(data, 'user-1');
+
+      expect(mockPrisma.assetItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'asset-1', status: { notIn: ['PRETE', 'REFORME'] } },
+        data: { status: 'REPARATION' }
+      });
+      expect(mockPrisma.repairTicket.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { ...data, createdById: 'user-1' }
+      }));
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { isolationLevel: 'Serializable' });
+      expect(mockInvalidateEntity).toHaveBeenCalledWith('asset_items');
+      expect(ticket.id).toBe('ticket-1');
+    });
+
+    it('should refuse a loaned asset', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValueOnce({ id: 'asset-1', status: 'PRETE' });
+
+      await expect(createRepairTicket(data, 'user-1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.repairTicket.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a second open ticket for the same asset', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValueOnce({ id: 'asset-1', status: 'REPARATION' });
+      mockPrisma.repairTicket.findFirst.mockResolvedValueOnce({ id: 'ticket-0', status: 'SENT' });
+
+      await expect(createRepairTicket(data, 'user-1')).rejects.toThrow(ConflictError);
+      expect(mockPrisma.assetItem.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an asset loaned or retired since it was read', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValueOnce({ id: 'asset-1', status: 'EN_STOCK' });
+      mockPrisma.repairTicket.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.assetItem.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(createRepairTicket(data, 'user-1')).rejects.toThrow('prêté ou réformé');
+      expect(mockPrisma.repairTicket.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError if the asset does not exist', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValueOnce(null);
+
+      await expect(createRepairTicket(data, 'user-1')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('updateRepairTicket', () => {
+    it('should update the tracking status', async () => {
+      mockPrisma.repairTicket.findUnique.mockResolvedValueOnce({ id: 'ticket-1', status: 'OPEN' });
+      mockPrisma.repairTicket.update.mockResolvedValueOnce({ id: 'ticket-1', status: 'SENT' });
+
+      const ticket = await updateRepairTicket('ticket-1', { status: 'SENT', rmaNumber: 'RMA-42' });
+
+      expect(mockPrisma.repairTicket.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'ticket-1' },
+        data: { status: 'SENT', rmaNumber: 'RMA-42' }
+      }));
+      expect(ticket.status).toBe('SENT');
+    });
+
+    it('should refuse to update a closed ticket', async () => {
+      mockPrisma.repairTicket.findUnique.mockResolvedValueOnce({ id: 'ticket-1', status: 'CLOSED' });
+
+      await expect(updateRepairTicket('ticket-1', { status: 'SENT' })).rejects.toThrow(ValidationError);
+      expect(mockPrisma.repairTicket.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeRepairTicket', () => {
+    const openTicket = {
+      id: 'ticket-1',
+      status: 'IN_REPAIR',
+      assetItemId: 'asset-1',
+      assetItem: { id: 'asset-1', status: 'REPARATION' }
+    };
+
+    it('should put a repaired asset back in stock', async () => {
+      mockPrisma.repairTicket.findUnique.mockResolvedValueOnce(openTicket);
+      mockPrisma.repairTicket.update.mockResolvedValueOnce({ id: 'ticket-1', status: 'CLOSED' });
+
+      await closeRepairTicket('ticket-1', { outcome: 'REPAIRED', finalCostCents: 11850 }, 'user-2');
+
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({
+        where: { id: 'asset-1' },
+        data: { status: 'EN_STOCK' }
+      });
+      expect(mockPrisma.repairTicket.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          outcome: 'REPAIRED',
+          finalCostCents: 11850,
+          status: 'CLOSED',
+          closedById: 'user-2',
+          closedAt: expect.any(Date)
+        })
+      }));
+    });
+
+    it('should set a scrapped asset out of service', async () => {
+      mockPrisma.repairTicket.findUnique.mockResolvedValueOnce(openTicket);
+      mockPrisma.repairTicket.update.mockResolvedValueOnce({ id: 'ticket-1', status: 'CLOSED' });
+
+      await closeRepairTicket('ticket-1', { outcome: 'SCRAPPED' }, 'user-2');
+
+      expect(mockPrisma.assetItem.update).toHaveBeenCalledWith({
+        where: { id: 'asset-1' },
+        data: { status: 'HS' }
+      });
+    });
+
+    it('should refuse to close a ticket twice', async () => {
+      mockPrisma.repairTicket.findUnique.mockResolvedValueOnce({ ...openTicket, status: 'CLOSED' });
+
+      await expect(closeRepairTicket('ticket-1', { outcome: 'REPAIRED' }, 'user-2')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.assetItem.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * @fileoverview Unit tests for reservations.service.js
+ *
+ * Tests:
+ * - Conflict detection against other reservations and open loans
+ * - Stock availability over the booked period
+ * - Update / cancel restricted to active reservations
+ * - Conversion into a loan (asset and stock)
+ */
+
+import { jest } from '@jest/globals';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  reservation: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    aggregate: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  employee: {
+    findUnique: jest.fn(),
+  },
+  assetItem: {
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  stockItem: {
+    findUnique: jest.fn(),
+  },
+  stockMovement: {
+    create: jest.fn(),
+  },
+  loan: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  loanLine: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+  },
+  $transaction: jest.fn((fn) => fn(mockPrisma)),
+  $executeRaw: jest.fn(() => Promise.resolve(1)),
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+jest.unstable_mockModule('../../config/logger.js', () => ({
+  default: {
+    warn: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  }
+}));
+
+// Import service after mocks are set up
+const {
+  getAllReservations,
+  createReservation,
+  updateReservation,
+  cancelReservation,
+  convertReservationToLoan,
+} = await import('../reservations.service.js');
+
+const startDate = new Date('2026-11-02');
+const endDate = new Date('2026-11-30');
+
+describe('Reservations Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Re-establish $transaction mock (clearAllMocks resets implementations)
+    mockPrisma.$transaction.mockImplementation((fn) => fn(mockPrisma));
+    mockPrisma.$executeRaw.mockResolvedValue(1);
+  });
+
+  describe('getAllReservations', () => {
+    it('should translate filters into an overlap query', async () => {
+      mockPrisma.reservation.findMany.mockResolvedValue([]);
+
+      await getAllReservations({ status: 'ACTIVE', employeeId: 'emp1', from: startDate, to: endDate });
+
+      expect(mockPrisma.reservation.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          status: 'ACTIVE',
+          employeeId: 'emp1',
+          endDate: { gte: startDate },
+          startDate: { lte: endDate }
+        },
+        orderBy: { startDate: 'asc' }
+      }));
+    });
+  });
+
+  describe('createReservation', () => {
+    const assetData = { employeeId: 'emp1', assetItemId: 'asset1', startDate, endDate };
+
+    beforeEach(() => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'emp1' });
+      mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'asset1', status: 'EN_STOCK' });
+      mockPrisma.reservation.findFirst.mockResolvedValue(null);
+      mockPrisma.loanLine.findFirst.mockResolvedValue(null);
+    });
+
+    it('should create an asset reservation with quantity 1', async () => {
+      mockPrisma.reservation.create.mockResolvedValue({ id: 'res1' });
+
+      const result = await createReservation({ ...assetData, quantity: 4 }, 'user1');
+
+      expect(mockPrisma.reservation.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ assetItemId: 'asset1', quantity: 1, createdById: 'user1' })
+      }));
+      expect(result).toEqual({ id: 'res1' });
+    });
+
+    it('should throw NotFoundError when employee does not exist', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue(null);
+
+      await expect(createReservation(assetData, 'user1')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should refuse an archived employee', async () => {
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 'emp1', archivedAt: new Date('2026-10-01') });
+
+      await expect(createReservation(assetData, 'user1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.reservation.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject out of service equipment', async () => {
+      mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'asset1', status: 'HS' });
+
+      await expect(createReservation(assetData, 'user1')).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw ConflictError when another reservation overlaps', async () => {
+      mockPrisma.reservation.findFirst.mockResolvedValue({
+        startDate: new Date('2026-11-15'),
+        endDate: new Date('2026-12-15'),
+        employee: { firstName: 'Marie', lastName: 'Martin' }
+      });
+
+      await expect(createReservation(assetData, 'user1')).rejects.toThrow(ConflictError);
+      expect(mockPrisma.reservation.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          assetItemId: 'asset1',
+          status: 'ACTIVE',
+          startDate: { lt: endDate },
+          endDate: { gt: startDate }
+        }
+      }));
+      expect(mockPrisma.reservation.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictError when lent to someone else past the start date', async () => {
+      mockPrisma.loanLine.findFirst.mockResolvedValue({
+        dueAt: null,
+        loan: { employeeId: 'emp2', dueAt: new Date('2026-11-10'), employee: { firstName: 'Paul', lastName: 'Durand' } }
+      });
+
+      await expect(createReservation(assetData, 'user1')).rejects.toThrow('prêté à Paul Durand jusqu\'au');
+    });
+
+    it('should accept equipment returned before the start date', async () => {
+      mockPrisma.loanLine.findFirst.mockResolvedValue({
+        dueAt: new Date('2026-10-30'),
+        loan: { employeeId: 'emp2', dueAt: null, employee: { firstName: 'Paul', lastName: 'Durand' } }
+      });
+      mockPrisma.reservation.create.mockResolvedValue({ id: 'res1' });
+
+      await expect(createReservation(assetData, 'user1')).resolves.toEqual({ id: 'res1' });
+    });
+
+    it('should count reserved stock units on the period', async () => {
+      mockPrisma.stockItem.findUnique.mockResolvedValue({ id: 'stock1', quantity: 10, loaned: 4 });
+      mockPrisma.reservation.aggregate.mockResolvedValue({ _sum: { quantity: 3 } });
+
+      await expect(createReservation({
+        employeeId: 'emp1', stockItemId: 'stock1', quantity: 4, startDate, endDate
+      }, 'user1')).rejects.toThrow('Quantité insuffisante sur la période (disponible: 3)');
+    });
+  });
+
+  describe('updateReservation', () => {
+    const activeReservation = {
+      id: 'res1',
+      employeeId: 'emp1',
+      assetItemId: 'asset1',
+      stockItemId: null,
+      quantity: 1,
+      status: 'ACTIVE',
+      startDate,
+      endDate
+    };
+
+    it('should recheck availability excluding the reservation itself', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue(activeReservation);
+      mockPrisma.assetItem.findUnique.mockResolvedValue({ id: 'asset1', status: 'EN_STOCK' });
+      mockPrisma.reservation.findFirst.mockResolvedValue(null);
+      mockPrisma.loanLine.findFirst.mockResolvedValue(null);
+      mockPrisma.reservation.update.mockResolvedValue({ id: 'res1' });
+
+      const newEnd = new Date('2026-12-15');
+      await updateReservation('res1', { endDate: newEnd });
+
+      expect(mockPrisma.reservation.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: { not: 'res1' }, startDate: { lt: newEnd } })
+      }));
+      expect(mockPrisma.reservation.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { quantity: 1, startDate, endDate: newEnd }
+      }));
+    });
+
+    it('should reject an end date before the start date', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue(activeReservation);
+
+      await expect(updateReservation('res1', { endDate: new Date('2026-10-01') }))
+        .rejects.toThrow('La date de fin doit être postérieure à la date de début');
+    });
+  });
+
+  describe('cancelReservation', () => {
+    it('should mark an active reservation as cancelled', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue({ id: 'res1', status: 'ACTIVE' });
+      mockPrisma.reservation.update.mockResolvedValue({ id: 'res1', status: 'CANCELLED' });
+
+      await cancelReservation('res1');
+
+      expect(mockPrisma.reservation.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'res1' },
+        data: { status: 'CANCELLED' }
+      }));
+    });
+
+    it('should reject a converted reservation', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue({ id: 'res1', status: 'CONVERTED' });
+
+      await expect(cancelReservation('res1')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('convertReservationToLoan', () => {
+    const reservation = {
+      id: 'res1',
+      employeeId: 'emp1',
+      assetItemId: 'asset1',
+      stockItemId: null,
+      quantity: 1,
+      status: 'ACTIVE',
+      startDate,
+      endDate,
+      employee: { id: 'emp1', archivedAt: null }
+    };
+
+    it('should create a loan with the reserved asset', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue(reservation);
+      mockPrisma.loan.create.mockResolvedValue({ id: 'loan1', dueAt: endDate });
+      mockPrisma.assetItem.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', lines: [] });
+
+      const result = await convertReservationToLoan('res1', 'user1');
+
+      expect(mockPrisma.loan.create).toHaveBeenCalledWith({
+        data: { employeeId: 'emp1', createdById: 'user1', status: 'OPEN', dueAt: endDate }
+      });
+      expect(mockPrisma.assetItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'asset1', status: 'EN_STOCK' },
+        data: { status: 'PRETE' }
+      });
+      expect(mockPrisma.reservation.update).toHaveBeenCalledWith({
+        where: { id: 'res1' },
+        data: { status: 'CONVERTED', loanId: 'loan1' }
+      });
+      expect(result).toEqual({ id: 'loan1', lines: [] });
+    });
+
+    it('should refuse a reservation of an archived employee', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue({
+        ...reservation, employee: { id: 'emp1', archivedAt: new Date('2026-10-01') }
+      });
+
+      await expect(convertReservationToLoan('res1', 'user1')).rejects.toThrow('employé archivé');
+      expect(mockPrisma.loan.create).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the asset is no longer in stock', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue(reservation);
+      mockPrisma.loan.create.mockResolvedValue({ id: 'loan1' });
+      mockPrisma.assetItem.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(convertReservationToLoan('res1', 'user1'))
+        .rejects.toThrow('L\'équipement réservé n\'est pas disponible en stock');
+      expect(mockPrisma.reservation.update).not.toHaveBeenCalled();
+    });
+
+    it('should lend the reserved stock units and record the movement', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue({
+        ...reservation, assetItemId: null, stockItemId: 'stock1', quantity: 5
+      });
+      mockPrisma.loan.create.mockResolvedValue({ id: 'loan1', dueAt: endDate });
+      mockPrisma.loan.findUnique.mockResolvedValue({ id: 'loan1', lines: [] });
+      mockPrisma.reservation.aggregate.mockResolvedValue({ _sum: { quantity: 3 } });
+
+      await convertReservationToLoan('res1', 'user1');
+
+      // Units booked by the other reservations over the loan period are set aside
+      expect(mockPrisma.reservation.aggregate).toHaveBeenCalledWith({
+        where: {
+          stockItemId: 'stock1',
+          status: 'ACTIVE',
+          startDate: { lt: endDate },
+          endDate: { gt: expect.any(Date) },
+          id: { not: 'res1' }
+        },
+        _sum: { quantity: true }
+      });
+      expect(mockPrisma.$executeRaw.mock.calls[0].slice(1)).toEqual([5, 'stock1', 3, 5]);
+      expect(mockPrisma.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          stockItemId: 'stock1',
+          type: 'LOAN_OUT',
+          loanedDelta: 5,
+          referenceType: 'Loan',
+          referenceId: 'loan1',
+          createdById: 'user1'
+        })
+      });
+      expect(mockPrisma.loanLine.create).toHaveBeenCalledWith({
+        data: { loanId: 'loan1', stockItemId: 'stock1', quantity: 5 }
+      });
+    });
+
+    it('should fail when stock units are missing', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue({
+        ...reservation, assetItemId: null, stockItemId: 'stock1', quantity: 5
+      });
+      mockPrisma.loan.create.mockResolvedValue({ id: 'loan1' });
+      mockPrisma.reservation.aggregate.mockResolvedValue({ _sum: { quantity: null } });
+      mockPrisma.$executeRaw.mockResolvedValueOnce(0);
+
+      await expect(convertReservationToLoan('res1', 'user1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.loanLine.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a cancelled reservation', async () => {
+      mockPrisma.reservation.findUnique.mockResolvedValue({ ...reservation, status: 'CANCELLED' });
+
+      await expect(convertReservationToLoan('res1', 'user1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
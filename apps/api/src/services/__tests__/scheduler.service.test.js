@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Unit tests for scheduler.service.js
+ *
+ * Tests:
+ * - Disabled in tests and with SCHEDULER_ENABLED=false
+ * - Only the leader runs due jobs, once per claimed occurrence
+ * - Run history records successes and failures
+ * - Status exposes leader, next runs and history
+ * - Directory sync only scheduled and listed once configured
+ */
+
+import { jest } from '@jest/globals';
+
+const mockCache = {
+  acquireLeadership: jest.fn(),
+  releaseLeadership: jest.fn(),
+  getLeader: jest.fn(),
+  claimSlot: jest.fn(),
+  pushHistory: jest.fn(),
+  getHistory: jest.fn(),
+};
+const mockRefreshDashboardStats = jest.fn();
+const mockSendOverdueReminders = jest.fn();
+const mockSendLongRunningLoanReminders = jest.fn();
+const mockPurgeExpiredLoans = jest.fn();
+const mockIsDirectorySyncConfigured = jest.fn();
+const mockSyncEmployeesFromDirectory = jest.fn();
+
+jest.unstable_mockModule('../cache.service.js', () => mockCache);
+
+jest.unstable_mockModule('../dashboard.service.js', () => ({
+  refreshDashboardStats: mockRefreshDashboardStats
+}));
+
+jest.unstable_mockModule('../notifications.service.js', () => ({
+  sendOverdueReminders: mockSendOverdueReminders,
+  sendLongRunningLoanReminders: mockSendLongRunningLoanReminders
+}));
+
+jest.unstable_mockModule('../loans.service.js', () => ({
+  purgeExpiredLoans: mockPurgeExpiredLoans
+}));
+
+jest.unstable_mockModule('../directorySync.service.js', () => ({
+  isDirectorySyncConfigured: mockIsDirectorySyncConfigured,
+  syncEmployeesFromDirectory: mockSyncEmployeesFromDirectory
+}));
+
+jest.unstable_mockModule('../../config/logger.js', () => ({
+  default: {
+    warn: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  }
+}));
+
+// Import after mocks are set up
+const {
+  startScheduler,
+  stopScheduler,
+  tick,
+  runJob,
+  getSchedulerStatus,
+  getJobStatus,
+} = await import('../scheduler.service.js');
+const { NotFoundError } = await import('../../utils/errors.js');
+
+// Saturday 2026-10-17 10:07 local time
+const START = new Date(2026, 9, 17, 10, 7);
+
+function startInProduction() {
+  const nodeEnv = process.env.NODE_ENV;
+  process.env.NODE_ENV = 'production';
+  try {
+    return startScheduler(START);
+  } finally {
+    process.env.NODE_ENV = nodeEnv;
+  }
+}
+
+describe('Scheduler Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCache.acquireLeadership.mockResolvedValue(true);
+    mockCache.releaseLeadership.mockResolvedValue(true);
+    mockCache.claimSlot.mockResolvedValue(true);
+    mockCache.pushHistory.mockResolvedValue(true);
+    mockCache.getHistory.mockResolvedValue([]);
+    mockRefreshDashboardStats.mockResolvedValue();
+    mockSendOverdueReminders.mockResolvedValue({ loans: 0, sent: 0, failed: 0 });
+    mockSendLongRunningLoanReminders.mockResolvedValue({ loans: 1, sent: 1, failed: 0 });
+    mockPurgeExpiredLoans.mockResolvedValue({ purgedCount: 0, retentionDays: 30 });
+    mockIsDirectorySyncConfigured.mockReturnValue(false);
+  });
+
+  afterEach(async () => {
+    await stopScheduler();
+    delete process.env.SCHEDULER_ENABLED;
+    delete process.env.LONG_RUNNING_LOAN_DAYS;
+  });
+
+  describe('startScheduler', () => {
+    it('should stay disabled in tests', () => {
+      expect(startScheduler(START)).toBe(false);
+    });
+
+    it('should stay disabled when SCHEDULER_ENABLED is false', () => {
+      process.env.SCHEDULER_ENABLED = 'false';
+
+      expect(startInProduction()).toBe(false);
+    });
+  });
+
+  describe('tick', () => {
+    it('should run due jobs when leader', async () => {
+      startInProduction();
+
+      const ran = await tick(new Date(2026, 9, 17, 10, 15));
+
+      expect(ran).toEqual(['dashboard-refresh']);
+      expect(mockCache.acquireLeadership).toHaveBeenCalledWith('scheduler', expect.any(String), 90);
+      expect(mockCache.claimSlot).toHaveBeenCalledWith(
+        `scheduler:run:dashboard-refresh:${new Date(2026, 9, 17, 10, 15).getTime()}`,
+        expect.any(Number)
+      );
+      expect(mockRefreshDashboardStats).toHaveBeenCalledTimes(1);
+      expect(mockSendOverdueReminders).not.toHaveBeenCalled();
+    });
+
+    it('should not run the same occurrence twice', async () => {
+      startInProduction();
+
+      await tick(new Date(2026, 9, 17, 10, 15));
+      const ran = await tick(new Date(2026, 9, 17, 10, 15, 30));
+
+      expect(ran).toEqual([]);
+      expect(mockRefreshDashboardStats).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not run jobs when another instance is leader', async () => {
+      mockCache.acquireLeadership.mockResolvedValue(false);
+      startInProduction();
+
+      const ran = await tick(new Date(2026, 9, 17, 10, 15));
+
+      expect(ran).toEqual([]);
+      expect(mockCache.claimSlot).not.toHaveBeenCalled();
+      expect(mockRefreshDashboardStats).not.toHaveBeenCalled();
+    });
+
+    it('should skip occurrences already claimed by another instance', async () => {
+      mockCache.claimSlot.mockResolvedValue(false);
+      startInProduction();
+
+      const ran = await tick(new Date(2026, 9, 17, 10, 15));
+
+      expect(ran).toEqual([]);
+      expect(mockRefreshDashboardStats).not.toHaveBeenCalled();
+    });
+
+    it('should pass the configured threshold to long-running loan reminders', async () => {
+      process.env.LONG_RUNNING_LOAN_DAYS = '30';
+      startInProduction();
+
+      // Monday 2026-10-19 09:00
+      const ran = await tick(new Date(2026, 9, 19, 9, 0));
+
+      // The trash purge (daily at 03:00) missed on Sunday runs once too
+      expect(ran).toEqual(['dashboard-refresh', 'overdue-reminders', 'long-running-loans', 'loan-trash-purge']);
+      expect(mockSendLongRunningLoanReminders).toHaveBeenCalledWith(30);
+      expect(mockPurgeExpiredLoans).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('runJob', () => {
+    it('should record a successful run with its result', async () => {
+      const entry = await runJob('long-running-loans', { trigger: 'manual' });
+
+      expect(entry).toEqual(expect.objectContaining({
+        status: 'SUCCESS',
+        trigger: 'manual',
+        result: { loans: 1, sent: 1, failed: 0 },
+        error: null
+      }));
+      expect(mockSendLongRunningLoanReminders).toHaveBeenCalledWith(90);
+      expect(mockCache.pushHistory).toHaveBeenCalledWith('scheduler:history:long-running-loans', entry, 50);
+    });
+
+    it('should record a failed run without throwing', async () => {
+      mockRefreshDashboardStats.mockRejectedValue(new Error('relation "dashboard_stats" does not exist'));
+
+      const entry = await runJob('dashboard-refresh');
+
+      expect(entry.status).toBe('FAILED');
+      expect(entry.error).toBe('relation "dashboard_stats" does not exist');
+      expect(mockCache.pushHistory).toHaveBeenCalled();
+    });
+
+    it('should pass the request of a manual run to the job', async () => {
+      const req = { user: { userId: 'admin1' } };
+      mockSyncEmployeesFromDirectory.mockResolvedValue({ entries: 0 });
+
+      await runJob('directory-sync', { trigger: 'manual', req });
+
+      expect(mockSyncEmployeesFromDirectory).toHaveBeenCalledWith(req);
+      expect(mockCache.pushHistory.mock.calls[0][1]).not.toHaveProperty('req');
+    });
+
+    it('should throw NotFoundError for an unknown job', async () => {
+      await expect(runJob('unknown')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getSchedulerStatus', () => {
+    it('should expose the leader, next runs and history', async () => {
+      startInProduction();
+      mockCache.getLeader.mockResolvedValue('other-host-1');
+      mockCache.getHistory.mockResolvedValue([{ status: 'SUCCESS' }]);
+
+      const status = await getSchedulerStatus();
+
+      expect(status.enabled).toBe(true);
+      expect(status.leader).toBe('other-host-1');
+      expect(status.isLeader).toBe(false);
+      expect(status.jobs.map(job => job.name)).toEqual([
+        'dashboard-refresh', 'overdue-reminders', 'long-running-loans', 'loan-trash-purge'
+      ]);
+      expect(status.jobs[0]).toEqual(expect.objectContaining({
+        schedule: '*/15 * * * *',
+        nextRunAt: new Date(2026, 9, 17, 10, 15).toISOString(),
+        running: false,
+        history: [{ status: 'SUCCESS' }]
+      }));
+      expect(mockCache.getHistory).toHaveBeenCalledWith('scheduler:history:dashboard-refresh', 20);
+    });
+
+    it('should list the directory sync once configured', async () => {
+      mockIsDirectorySyncConfigured.mockReturnValue(true);
+      startInProduction();
+
+      const status = await getSchedulerStatus();
+
+      expect(status.jobs.map(job => job.name)).toContain('directory-sync');
+      expect(status.jobs.find(job => job.name === 'directory-sync')).toEqual(expect.objectContaining({
+        schedule: '0 6 * * *',
+        nextRunAt: new Date(2026, 9, 18, 6, 0).toISOString()
+      }));
+    });
+  });
+
+  describe('directory sync', () => {
+    it('should not be scheduled without configuration', async () => {
+      startInProduction();
+
+      // Sunday 2026-10-18 06:00
+      await tick(new Date(2026, 9, 18, 6, 0));
+
+      expect(mockSyncEmployeesFromDirectory).not.toHaveBeenCalled();
+      expect((await getJobStatus('directory-sync')).nextRunAt).toBeNull();
+    });
+
+    it('should run daily once configured and record the counts', async () => {
+      mockIsDirectorySyncConfigured.mockReturnValue(true);
+      mockSyncEmployeesFromDirectory.mockResolvedValue({ entries: 3, created: 1, updated: 1, disabled: 1 });
+      startInProduction();
+
+      const ran = await tick(new Date(2026, 9, 18, 6, 0));
+
+      expect(ran).toContain('directory-sync');
+      expect(mockCache.pushHistory).toHaveBeenCalledWith('scheduler:history:directory-sync', expect.objectContaining({
+        status: 'SUCCESS',
+        result: { entries: 3, created: 1, updated: 1, disabled: 1 }
+      }), 50);
+    });
+  });
+});
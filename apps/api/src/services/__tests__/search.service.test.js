@@ -4,6 +4,7 @@
  * Tests the search functionality including:
  * - Global full-text search across multiple entities
  * - Autocomplete for employees, asset items, and asset models
+ * - Exact code lookup for scans
  * - Input validation and edge cases
  * - Error handling
  */
@@ -18,6 +19,7 @@ const mockPrisma = {
   },
   assetItem: {
     findMany: jest.fn(),
+    findFirst: jest.fn(),
   },
   assetModel: {
     findMany: jest.fn(),
@@ -47,6 +49,7 @@ const {
   autocompleteEmployees,
   autocompleteAssetItems,
   autocompleteAssetModels,
+  resolveAssetItemCode,
 } = await import('../search.service.js');
 
 describe('Search Service', () => {
@@ -216,7 +219,7 @@ describe('Search Service', () => {
   });
 
   describe('autocompleteEmployees', () => {
-    it('should return matching employees', async () => {
+    it('should return matching employees still present', async () => {
       const mockEmployees = [
         { id: 'emp1', firstName: 'John', lastName: 'Doe', email: 'john@test.com', dept: 'IT' },
         { id: 'emp2', firstName: 'Jane', lastName: 'Doe', email: 'jane@test.com', dept: 'HR' },
@@ -228,6 +231,7 @@ describe('Search Service', () => {
       expect(mockPrisma.employee.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: {
+            archivedAt: null,
             OR: [
               { firstName: { contains: 'doe', mode: 'insensitive' } },
               { lastName: { contains: 'doe', mode: 'insensitive' } },
@@ -330,6 +334,18 @@ describe('Search Service', () => {
                 modelName: true,
               },
             },
+            reservations: {
+              where: { status: 'ACTIVE', endDate: { gte: expect.any(Date) } },
+              orderBy: { startDate: 'asc' },
+              take: 1,
+              select: {
+                startDate: true,
+                endDate: true,
+                employee: {
+                  select: { id: true, firstName: true, lastName: true },
+                },
+              },
+            },
           },
           orderBy: { assetTag: 'asc' },
           take: 10,
@@ -338,7 +354,7 @@ describe('Search Service', () => {
       expect(result).toEqual(mockItems);
     });
 
-    it('should include all statuses when availableOnly is false', async () => {
+    it('should include all statuses but retired when availableOnly is false', async () => {
       mockPrisma.assetItem.findMany.mockResolvedValue([]);
 
       await autocompleteAssetItems('LAP', 10, false);
@@ -353,6 +369,7 @@ describe('Search Service', () => {
                   { serial: { contains: 'LAP', mode: 'insensitive' } },
                 ],
               },
+              { status: { not: 'REFORME' } },
             ],
           },
         })
@@ -386,6 +403,62 @@ describe('Search Service', () => {
     });
   });
 
+  describe('resolveAssetItemCode', () => {
+    it('should match the asset tag exactly, ignoring case and spaces', async () => {
+      const mockItem = { id: 'item1', assetTag: 'LAP-001', loanLines: [] };
+      mockPrisma.assetItem.findFirst.mockResolvedValueOnce(mockItem);
+
+      const result = await resolveAssetItemCode('  lap-001 ');
+
+      expect(result).toEqual(mockItem);
+      expect(mockPrisma.assetItem.findFirst).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.assetItem.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { assetTag: { equals: 'lap-001', mode: 'insensitive' } },
+        })
+      );
+    });
+
+    it('should fall back to the serial number', async () => {
+      const mockItem = { id: 'item1', serial: 'SN123', loanLines: [] };
+      mockPrisma.assetItem.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockItem);
+
+      const result = await resolveAssetItemCode('SN123');
+
+      expect(result).toEqual(mockItem);
+      expect(mockPrisma.assetItem.findFirst).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: { serial: { equals: 'SN123', mode: 'insensitive' } },
+        })
+      );
+    });
+
+    it('should include the outstanding loan line of the item', async () => {
+      mockPrisma.assetItem.findFirst.mockResolvedValueOnce({ id: 'item1' });
+
+      await resolveAssetItemCode('LAP-001');
+
+      const { include } = mockPrisma.assetItem.findFirst.mock.calls[0][0];
+      expect(include.loanLines.where).toEqual({ returnedAt: null, loan: { deletedAt: null } });
+    });
+
+    it('should throw NotFoundError when nothing matches', async () => {
+      mockPrisma.assetItem.findFirst.mockResolvedValue(null);
+
+      await expect(resolveAssetItemCode('UNKNOWN')).rejects.toThrow(
+        'Aucun équipement ne correspond au code UNKNOWN'
+      );
+    });
+
+    it('should reject an empty code', async () => {
+      await expect(resolveAssetItemCode('  ')).rejects.toThrow('Code requis');
+      await expect(resolveAssetItemCode(undefined)).rejects.toThrow('Code requis');
+      expect(mockPrisma.assetItem.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
   describe('autocompleteAssetModels', () => {
     it('should return matching asset models', async () => {
       const mockModels = [
@@ -419,6 +419,28 @@ describe('StockItems Service - adjustStockQuantity()', () => {
     expect(unchangedItem.quantity).toBe(50);
   });
 
+  test('should throw ValidationError if adjustment goes below the loaned units', async () => {
+    const mockReq = {
+      user: { id: 'admin-id' },
+      headers: { 'x-forwarded-for': '127.0.0.1' },
+      connection: { remoteAddress: '127.0.0.1' }
+    };
+
+    const model = await createTestAssetModel();
+    const stockItem = await createTestStockItem({ assetModelId: model.id, quantity: 50, loaned: 45 });
+
+    await expect(
+      stockItemsService.adjustStockQuantity(stockItem.id, -10, mockReq)
+    ).rejects.toThrow('La quantité ne peut pas être inférieure aux unités en prêt (en prêt: 45)');
+
+    // Verify quantity was not changed
+    const unchangedItem = await stockItemsService.getStockItemById(stockItem.id);
+    expect(unchangedItem.quantity).toBe(50);
+
+    const updated = await stockItemsService.adjustStockQuantity(stockItem.id, -5, mockReq);
+    expect(updated.quantity).toBe(45);
+  });
+
   test('should throw NotFoundError if stock item does not exist', async () => {
     const mockReq = {
       user: { id: 'admin-id' },
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Unit tests for stockMovements.service.js
+ *
+ * Tests:
+ * - Movement data (deltas, reference, actor from request or explicit)
+ * - Paginated movements of a stock item
+ * - Counters recomputed from the ledger and drift detection
+ */
+
+import { jest } from '@jest/globals';
+import { NotFoundError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  stockItem: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+  },
+  stockMovement: {
+    findMany: jest.fn(),
+    count: jest.fn(),
+    aggregate: jest.fn(),
+    groupBy: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+// Import service after mocks are set up
+const {
+  buildStockMovement,
+  getStockMovements,
+  getStockLedgerCheck,
+  getStockLedgerDrifts,
+} = await import('../stockMovements.service.js');
+
+describe('StockMovements Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildStockMovement', () => {
+    it('should default the deltas and take the actor from the request', () => {
+      const movement = buildStockMovement('LOAN_OUT', {
+        loanedDelta: 3,
+        referenceType: 'Loan',
+        referenceId: 'loan-1'
+      }, { user: { userId: 'user-1' } });
+
+      expect(movement).toEqual({
+        type: 'LOAN_OUT',
+        quantityDelta: 0,
+        loanedDelta: 3,
+        reason: null,
+        referenceType: 'Loan',
+        referenceId: 'loan-1',
+        createdById: 'user-1'
+      });
+    });
+
+    it('should prefer an explicit actor and allow system movements', () => {
+      expect(buildStockMovement('LOAN_CLOSED', { loanedDelta: -1, createdById: 'user-2' }).createdById).toBe('user-2');
+      expect(buildStockMovement('INITIAL', { quantityDelta: 10 }).createdById).toBeNull();
+    });
+  });
+
+  describe('getStockMovements', () => {
+    it('should list the movements of an item, newest first', async () => {
+      mockPrisma.stockItem.findUnique.mockResolvedValueOnce({ id: 'stock-1' });
+      mockPrisma.stockMovement.findMany.mockResolvedValueOnce([{ id: 'mov-1', type: 'RECEPTION' }]);
+      mockPrisma.stockMovement.count.mockResolvedValueOnce(1);
+
+      const result = await getStockMovements('stock-1', { type: 'RECEPTION' });
+
+      const query = mockPrisma.stockMovement.findMany.mock.calls[0][0];
+      expect(query.where).toEqual({ stockItemId: 'stock-1', type: 'RECEPTION' });
+      expect(query.orderBy).toEqual([{ createdAt: 'desc' }, { id: 'desc' }]);
+      expect(result.data).toHaveLength(1);
+      expect(result.pagination.totalItems).toBe(1);
+    });
+
+    it('should throw NotFoundError for an unknown item', async () => {
+      mockPrisma.stockItem.findUnique.mockResolvedValueOnce(null);
+
+      await expect(getStockMovements('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getStockLedgerCheck', () => {
+    it('should report the drift between the counters and the ledger', async () => {
+      mockPrisma.stockItem.findUnique.mockResolvedValueOnce({ id: 'stock-1', quantity: 10, loaned: 2 });
+      mockPrisma.stockMovement.aggregate.mockResolvedValueOnce({ _sum: { quantityDelta: 12, loanedDelta: 2 } });
+
+      const check = await getStockLedgerCheck('stock-1');
+
+      expect(check).toEqual({
+        stockItemId: 'stock-1',
+        current: { quantity: 10, loaned: 2 },
+        ledger: { quantity: 12, loaned: 2 },
+        drift: { quantity: -2, loaned: 0 },
+        hasDrift: true
+      });
+    });
+
+    it('should treat an item without movements as an empty ledger', async () => {
+      mockPrisma.stockItem.findUnique.mockResolvedValueOnce({ id: 'stock-1', quantity: 0, loaned: 0 });
+      mockPrisma.stockMovement.aggregate.mockResolvedValueOnce({ _sum: { quantityDelta: null, loanedDelta: null } });
+
+      const check = await getStockLedgerCheck('stock-1');
+
+      expect(check.ledger).toEqual({ quantity: 0, loaned: 0 });
+      expect(check.hasDrift).toBe(false);
+    });
+  });
+
+  describe('getStockLedgerDrifts', () => {
+    it('should only return the items whose counters differ from their ledger', async () => {
+      const assetModel = { type: 'Câble', brand: 'Belkin', modelName: 'HDMI 2m' };
+      mockPrisma.stockItem.findMany.mockResolvedValueOnce([
+        { id: 'stock-1', quantity: 10, loaned: 2, assetModel },
+        { id: 'stock-2', quantity: 5, loaned: 0, assetModel },
+        { id: 'stock-3', quantity: 4, loaned: 0, assetModel }
+      ]);
+      mockPrisma.stockMovement.groupBy.mockResolvedValueOnce([
+        { stockItemId: 'stock-1', _sum: { quantityDelta: 10, loanedDelta: 2 } },
+        { stockItemId: 'stock-2', _sum: { quantityDelta: 5, loanedDelta: 1 } }
+      ]);
+
+      const drifts = await getStockLedgerDrifts();
+
+      expect(drifts.map(drift => drift.stockItemId)).toEqual(['stock-2', 'stock-3']);
+      expect(drifts[0].drift).toEqual({ quantity: 0, loaned: -1 });
+      expect(drifts[1].drift).toEqual({ quantity: 4, loaned: 0 });
+      expect(drifts[1].assetModel).toEqual(assetModel);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Unit tests for suppliers.service.js
+ *
+ * Tests:
+ * - Listing with search
+ * - Unique supplier name on create and update
+ * - Deletion refused while asset items reference the supplier
+ */
+
+import { jest } from '@jest/globals';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors.js';
+
+// Mock Prisma client
+const mockPrisma = {
+  supplier: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../../config/database.js', () => ({
+  default: mockPrisma
+}));
+
+const mockInvalidateEntity = jest.fn();
+jest.unstable_mockModule('../cache.service.js', () => ({
+  invalidateEntity: mockInvalidateEntity
+}));
+
+// Import service after mocks are set up
+const {
+  getAllSuppliers,
+  createSupplier,
+  updateSupplier,
+  deleteSupplier,
+} = await import('../suppliers.service.js');
+
+describe('Suppliers Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getAllSuppliers', () => {
+    it('should list suppliers by name with their item count', async () => {
+      mockPrisma.supplier.findMany.mockResolvedValueOnce([{ id: 'supplier-1', name: 'LDLC Pro' }]);
+
+      const suppliers = await getAllSuppliers();
+
+      expect(mockPrisma.supplier.findMany).toHaveBeenCalledWith({
+        where: {},
+        orderBy: { name: 'asc' },
+        include: { _count: { select: { assetItems: true, purchaseOrders: true } } }
+      });
+      expect(suppliers).toHaveLength(1);
+    });
+
+    it('should search name and contact', async () => {
+      mockPrisma.supplier.findMany.mockResolvedValueOnce([]);
+
+      await getAllSuppliers({ search: 'ldlc' });
+
+      const query = mockPrisma.supplier.findMany.mock.calls[0][0];
+      expect(query.where.OR).toEqual([
+        { name: { contains: 'ldlc', mode: 'insensitive' } },
+        { contactName: { contains: 'ldlc', mode: 'insensitive' } }
+      ]);
+    });
+  });
+
+  describe('createSupplier', () => {
+    it('should create a supplier', async () => {
+      mockPrisma.supplier.findUnique.mockResolvedValueOnce(null);
+      mockPrisma.supplier.create.mockResolvedValueOnce({ id: 'supplier-1', name: 'LDLC Pro' });
+
+      const supplier = await createSupplier({ name: 'LDLC Pro', email: 'pro@ldlc.com' });
+
+      expect(mockPrisma.supplier.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { name: 'LDLC Pro', email: 'pro@ldlc.com' }
+      }));
+      expect(supplier.id).toBe('supplier-1');
+    });
+
+    it('should refuse a duplicate name', async () => {
+      mockPrisma.supplier.findUnique.mockResolvedValueOnce({ id: 'supplier-0', name: 'LDLC Pro' });
+
+      await expect(createSupplier({ name: 'LDLC Pro' })).rejects.toThrow(ConflictError);
+      expect(mockPrisma.supplier.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSupplier', () => {
+    it('should keep its own name and invalidate asset items cache', async () => {
+      mockPrisma.supplier.findUnique.mockResolvedValueOnce({ id: 'supplier-1', name: 'LDLC Pro' });
+      mockPrisma.supplier.update.mockResolvedValueOnce({ id: 'supplier-1', name: 'LDLC Pro', phone: '0102030405' });
+
+      await updateSupplier('supplier-1', { name: 'LDLC Pro', phone: '0102030405' });
+
+      expect(mockPrisma.supplier.findUnique).toHaveBeenCalledTimes(1);
+      expect(mockInvalidateEntity).toHaveBeenCalledWith('asset_items');
+    });
+
+    it('should refuse a name used by another supplier', async () => {
+      mockPrisma.supplier.findUnique
+        .mockResolvedValueOnce({ id: 'supplier-1', name: 'LDLC Pro' })
+        .mockResolvedValueOnce({ id: 'supplier-2', name: 'Bechtle' });
+
+      await expect(updateSupplier('supplier-1', { name: 'Bechtle' })).rejects.toThrow(ConflictError);
+      expect(mockPrisma.supplier.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError if the supplier does not exist', async () => {
+      mockPrisma.supplier.findUnique.mockResolvedValueOnce(null);
+
+      await expect(updateSupplier('missing', { phone: '0102030405' })).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('deleteSupplier', () => {
+    it('should delete an unused supplier', async () => {
+      mockPrisma.supplier.findUnique.mockResolvedValueOnce({ id: 'supplier-1', _count: { assetItems: 0, purchaseOrders: 0 } });
+
+      await deleteSupplier('supplier-1');
+
+      expect(mockPrisma.supplier.delete).toHaveBeenCalledWith({ where: { id: 'supplier-1' } });
+    });
+
+    it('should refuse to delete a supplier referenced by asset items', async () => {
+      mockPrisma.supplier.findUnique.mockResolvedValueOnce({ id: 'supplier-1', _count: { assetItems: 12, purchaseOrders: 0 } });
+
+      await expect(deleteSupplier('supplier-1')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.supplier.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete a supplier referenced by purchase orders', async () => {
+      mockPrisma.supplier.findUnique.mockResolvedValueOnce({ id: 'supplier-1', _count: { assetItems: 0, purchaseOrders: 2 } });
+
+      await expect(deleteSupplier('supplier-1')).rejects.toThrow('bon(s) de commande');
+      expect(mockPrisma.supplier.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -7,6 +7,10 @@
  * - Unique identifier validation (asset tags and serial numbers)
  * - Filtering and search capabilities
  * - Loan history tracking
+ * - Purchase and warranty data (supplier, invoice, price, warranty end)
+ * - Current book value from the depreciation period of the equipment type
+ * - Retirement (status REFORME, terminal) with disposal reason, date, certificate
+ *   and data-wipe confirmation. Retired items are hidden from default lists.
  *
  * Asset Items represent individual physical equipment (e.g., a specific laptop with serial #12345).
  * Each item references an AssetModel template and has unique tracking identifiers.
@@ -17,10 +21,59 @@ import { NotFoundError, ConflictError, ValidationError } from '../utils/errors.j
 import { findOneOrFail, validateUniqueFields } from '../utils/prismaHelpers.js';
 import { logCreate, logUpdate, logDelete } from '../utils/auditHelpers.js';
 import { executePaginatedQuery, buildOrderBy, validateSortParams } from '../utils/pagination.js';
+import { computeCurrentValueCents } from '../utils/depreciation.js';
+import { getDepreciationYearsByType } from './equipmentTypes.service.js';
 
-const ASSET_ITEM_SORT_FIELDS = ['assetTag', 'serial', 'status', 'createdAt'];
+const ASSET_ITEM_SORT_FIELDS = ['assetTag', 'serial', 'status', 'createdAt', 'purchaseDate', 'warrantyEndsAt'];
 import { getCached, invalidateEntity, generateKey, TTL } from './cache.service.js';
 
+const ASSET_ITEM_INCLUDE = {
+  assetModel: true,  // Include model details (type, brand, modelName)
+  supplier: true
+};
+
+const ORDER_LINE_SELECT = {
+  id: true,
+  purchaseOrder: { select: { id: true, reference: true } }
+};
+
+/**
+ * Status condition of the asset item lists
+ *
+ * Retired items (REFORME) are left out of the default list but stay
+ * reachable by a search or by filtering on their status.
+ *
+ * @param {string} [status] - Requested status
+ * @param {string} [search] - Search term
+ * @returns {Object} Status condition to spread into the where clause
+ */
+function buildStatusFilter(status, search) {
+  if (status) {
+    return { status };
+  }
+  return search ? {} : { status: { not: 'REFORME' } };
+}
+
+/**
+ * Add the current book value (currentValueCents) to items including their model
+ *
+ * @param {Array<Object>} items - Asset items with assetModel
+ * @returns {Promise<Array<Object>>} Items with currentValueCents (null without purchase price)
+ */
+async function withCurrentValues(items) {
+  if (!items.some((item) => item.purchasePriceCents !== null && item.purchasePriceCents !== undefined)) {
+    return items.map((item) => ({ ...item, currentValueCents: null }));
+  }
+
+  const depreciationYearsByType = await getDepreciationYearsByType();
+  const now = new Date();
+
+  return items.map((item) => ({
+    ...item,
+    currentValueCents: computeCurrentValueCents(item, depreciationYearsByType.get(item.assetModel?.type), now)
+  }));
+}
+
 /**
  * Get all asset items with optional filters
  *
@@ -29,7 +82,7 @@ import { getCached, invalidateEntity, generateKey, TTL } from './cache.service.j
  * Cached for 5 minutes (TTL.ASSET_ITEMS) - Phase 3.2
  *
  * @param {Object} [filters={}] - Optional filters
- * @param {string} [filters.status] - Filter by status (EN_STOCK, PRETE, HS, REPARATION)
+ * @param {string} [filters.status] - Filter by status (EN_STOCK, PRETE, HS, REPARATION, REFORME; retired items excluded by default)
  * @param {string} [filters.assetModelId] - Filter by asset model ID
  * @param {string} [filters.search] - Search in asset tag or serial number (case-insensitive)
  * @returns {Promise<Array>} Array of asset items with model details
@@ -58,12 +111,8 @@ export async function getAllAssetItems(filters = {}) {
   return getCached(
     cacheKey,
     async () => {
-      const where = {};
-
-      // Filter by status if provided
-      if (status) {
-        where.status = status;
-      }
+      // Filter by status if provided (retired items hidden by default)
+      const where = buildStatusFilter(status, search);
 
       // Filter by asset model if provided
       if (assetModelId) {
@@ -81,9 +130,7 @@ export async function getAllAssetItems(filters = {}) {
       const assetItems = await prisma.assetItem.findMany({
         where,
         orderBy: { createdAt: 'desc' },
-        include: {
-          assetModel: true  // Include model details (type, brand, modelName)
-        }
+        include: ASSET_ITEM_INCLUDE
       });
 
       return assetItems;
@@ -99,14 +146,14 @@ export async function getAllAssetItems(filters = {}) {
  * Cached with filters in key - Phase 3.2
  *
  * @param {Object} options - Query options
- * @param {string} [options.status] - Filter by status (EN_STOCK, PRETE, HS, REPARATION)
+ * @param {string} [options.status] - Filter by status (EN_STOCK, PRETE, HS, REPARATION, REFORME; retired items excluded by default)
  * @param {string} [options.assetModelId] - Filter by asset model ID
  * @param {string} [options.search] - Search in asset tag or serial number
  * @param {number} [options.page=1] - Page number
  * @param {number} [options.pageSize=20] - Items per page
  * @param {string} [options.sortBy='createdAt'] - Field to sort by
  * @param {string} [options.sortOrder='desc'] - Sort order
- * @returns {Promise<Object>} Paginated response with data and metadata
+ * @returns {Promise<Object>} Paginated response with data (including currentValueCents) and metadata
  */
 export async function getAllAssetItemsPaginated(options = {}) {
   const {
@@ -125,11 +172,7 @@ export async function getAllAssetItemsPaginated(options = {}) {
   return getCached(
     cacheKey,
     async () => {
-      const where = {};
-
-      if (status) {
-        where.status = status;
-      }
+      const where = buildStatusFilter(status, search);
 
       if (assetModelId) {
         where.assetModelId = assetModelId;
@@ -148,14 +191,12 @@ export async function getAllAssetItemsPaginated(options = {}) {
       const result = await executePaginatedQuery(prisma.assetItem, {
         where,
         orderBy,
-        include: {
-          assetModel: true
-        },
+        include: ASSET_ITEM_INCLUDE,
         page,
         pageSize
       });
 
-      return result;
+      return { ...result, data: await withCurrentValues(result.data) };
     },
     TTL.ASSET_ITEMS
   );
@@ -170,7 +211,7 @@ export async function getAllAssetItemsPaginated(options = {}) {
  * - Loan lines ordered by most recent first
  *
  * @param {string} id - Asset item ID (CUID format)
- * @returns {Promise<Object>} Asset item with model and loan history
+ * @returns {Promise<Object>} Asset item with model, loan history and currentValueCents
  * @throws {NotFoundError} If item doesn't exist
  *
  * @example
@@ -181,6 +222,8 @@ export async function getAssetItemById(id) {
   const assetItem = await findOneOrFail('assetItem', { id }, {
     include: {
       assetModel: true,  // Model details
+      supplier: true,
+      orderLine: { select: ORDER_LINE_SELECT },  // Purchase order it was received from
       loanLines: {
         take: 50,  // Phase 3.5: Limit to 50 most recent loan lines to avoid N+1
         include: {
@@ -200,7 +243,8 @@ export async function getAssetItemById(id) {
     errorMessage: 'Article d\'équipement non trouvé'
   });
 
-  return assetItem;
+  const [withValue] = await withCurrentValues([assetItem]);
+  return withValue;
 }
 
 /**
@@ -208,6 +252,7 @@ export async function getAssetItemById(id) {
  *
  * Validates:
  * - Asset model exists
+ * - Supplier exists (if provided)
  * - Asset tag is unique (if provided)
  * - Serial number is unique (if provided)
  *
@@ -217,9 +262,14 @@ export async function getAssetItemById(id) {
  * @param {string} [data.serial] - Unique manufacturer serial number
  * @param {string} [data.status='EN_STOCK'] - Initial status
  * @param {string} [data.notes] - Optional notes
+ * @param {string} [data.supplierId] - Supplier the item was bought from
+ * @param {string} [data.invoiceNumber] - Purchase invoice number
+ * @param {Date} [data.purchaseDate] - Purchase date
+ * @param {number} [data.purchasePriceCents] - Purchase price in cents
+ * @param {Date} [data.warrantyEndsAt] - End of the manufacturer/supplier warranty
  * @param {Object} req - Express request object (for audit trail)
- * @returns {Promise<Object>} Created asset item with model details
- * @throws {NotFoundError} If asset model doesn't exist
+ * @returns {Promise<Object>} Created asset item with model and supplier
+ * @throws {NotFoundError} If asset model or supplier doesn't exist
  * @throws {ConflictError} If asset tag or serial already exists
  *
  * @example
@@ -236,6 +286,8 @@ export async function createAssetItem(data, req) {
     errorMessage: 'Modèle d\'équipement non trouvé'
   });
 
+  await assertSupplierExists(data.supplierId);
+
   // Validate unique asset tag and serial number
   await validateUniqueFields('assetItem', {
     assetTag: data.assetTag,
@@ -249,9 +301,7 @@ export async function createAssetItem(data, req) {
 
   const assetItem = await prisma.assetItem.create({
     data,
-    include: {
-      assetModel: true
-    }
+    include: ASSET_ITEM_INCLUDE
   });
 
   // Audit trail
@@ -264,12 +314,64 @@ export async function createAssetItem(data, req) {
   return assetItem;
 }
 
+/**
+ * Validate the referenced supplier exists
+ *
+ * @param {string|null} [supplierId] - Supplier ID (skipped when empty)
+ * @throws {NotFoundError} If supplier doesn't exist
+ */
+async function assertSupplierExists(supplierId) {
+  if (!supplierId) {
+    return;
+  }
+
+  await findOneOrFail('supplier', { id: supplierId }, {
+    errorMessage: 'Fournisseur non trouvé'
+  });
+}
+
+/**
+ * Refuse changing the status of a retired item (REFORME is terminal)
+ *
+ * @param {Object} existingItem - Current asset item
+ * @param {string} [status] - Requested status
+ * @throws {ValidationError} If the item is retired
+ */
+function assertNotRetired(existingItem, status) {
+  if (status && existingItem.status === 'REFORME' && status !== 'REFORME') {
+    throw new ValidationError('Cet équipement est réformé : son statut ne peut plus changer');
+  }
+}
+
+/**
+ * Refuse leaving REPARATION while a repair ticket is open
+ *
+ * The ticket decides the status the item goes back to when it is closed.
+ *
+ * @param {Object} existingItem - Current asset item
+ * @param {string} [status] - Requested status
+ * @throws {ValidationError} If the item has an open repair ticket
+ */
+async function assertNoOpenRepair(existingItem, status) {
+  if (!status || existingItem.status !== 'REPARATION' || status === 'REPARATION') {
+    return;
+  }
+
+  const openTicket = await prisma.repairTicket.findFirst({
+    where: { assetItemId: existingItem.id, status: { not: 'CLOSED' } }
+  });
+  if (openTicket) {
+    throw new ValidationError('Un ticket de réparation est ouvert pour cet équipement : clôturez-le pour changer son statut');
+  }
+}
+
 /**
  * Update an existing asset item
  *
  * Validates:
  * - Item exists
  * - New asset model exists (if being changed)
+ * - New supplier exists (if being changed)
  * - New asset tag is unique (if being changed)
  * - New serial is unique (if being changed)
  *
@@ -280,9 +382,15 @@ export async function createAssetItem(data, req) {
  * @param {string} [data.serial] - New serial number
  * @param {string} [data.status] - New status
  * @param {string} [data.notes] - Updated notes
+ * @param {string|null} [data.supplierId] - New supplier (null to clear)
+ * @param {string|null} [data.invoiceNumber] - Purchase invoice number
+ * @param {Date|null} [data.purchaseDate] - Purchase date
+ * @param {number|null} [data.purchasePriceCents] - Purchase price in cents
+ * @param {Date|null} [data.warrantyEndsAt] - End of warranty
  * @param {Object} req - Express request object (for audit trail)
- * @returns {Promise<Object>} Updated asset item with model details
- * @throws {NotFoundError} If item or new asset model doesn't exist
+ * @returns {Promise<Object>} Updated asset item with model and supplier
+ * @throws {NotFoundError} If item, new asset model or supplier doesn't exist
+ * @throws {ValidationError} If leaving REPARATION while a repair ticket is open
  * @throws {ConflictError} If new asset tag or serial already exists
  *
  * @example
@@ -297,6 +405,9 @@ export async function updateAssetItem(id, data, req) {
     errorMessage: 'Article d\'équipement non trouvé'
   });
 
+  assertNotRetired(existingItem, data.status);
+  await assertNoOpenRepair(existingItem, data.status);
+
   // If asset model is being changed, validate it exists
   if (data.assetModelId) {
     await findOneOrFail('assetModel', { id: data.assetModelId }, {
@@ -304,6 +415,8 @@ export async function updateAssetItem(id, data, req) {
     });
   }
 
+  await assertSupplierExists(data.supplierId);
+
   // Validate unique asset tag and serial number (if changing)
   await validateUniqueFields('assetItem', {
     assetTag: data.assetTag,
@@ -319,9 +432,7 @@ export async function updateAssetItem(id, data, req) {
   const assetItem = await prisma.assetItem.update({
     where: { id },
     data,
-    include: {
-      assetModel: true
-    }
+    include: ASSET_ITEM_INCLUDE
   });
 
   // Audit trail
@@ -343,12 +454,15 @@ export async function updateAssetItem(id, data, req) {
  * Note: Loan workflow automatically manages status transitions:
  * - Adding item to loan: EN_STOCK → PRETE
  * - Removing item from loan: PRETE → EN_STOCK
+ * Repair tickets manage REPARATION: while one is open, the status
+ * changes when the ticket is closed (see repairTickets.service.js).
  *
  * @param {string} id - Asset item ID
  * @param {string} status - New status (EN_STOCK, PRETE, HS, REPARATION)
  * @param {Object} req - Express request object (for audit trail)
  * @returns {Promise<Object>} Updated asset item with model details
  * @throws {NotFoundError} If item doesn't exist
+ * @throws {ValidationError} If leaving REPARATION while a repair ticket is open
  *
  * @example
  * // Mark item as broken
@@ -364,12 +478,13 @@ export async function updateAssetItemStatus(id, status, req) {
     errorMessage: 'Article d\'équipement non trouvé'
   });
 
+  assertNotRetired(existingItem, status);
+  await assertNoOpenRepair(existingItem, status);
+
   const assetItem = await prisma.assetItem.update({
     where: { id },
     data: { status },
-    include: {
-      assetModel: true
-    }
+    include: ASSET_ITEM_INCLUDE
   });
 
   // Audit trail
@@ -385,31 +500,112 @@ export async function updateAssetItemStatus(id, status, req) {
   return assetItem;
 }
 
+/**
+ * Retire an asset item (disposal)
+ *
+ * The item moves to the terminal status REFORME with the disposal details.
+ * Unlike deletion, the item and its loan history are kept; it is hidden
+ * from the default lists and from the pickers. Active reservations of the
+ * item are cancelled.
+ *
+ * @param {string} id - Asset item ID
+ * @param {Object} data - Disposal details
+ * @param {string} data.reason - RECYCLAGE, DON, VOL or PERTE
+ * @param {Date} data.disposedAt - Date the item left the fleet
+ * @param {string} [data.certificateRef] - Disposal or recycling certificate reference
+ * @param {boolean} [data.dataWipeConfirmed] - Storage wiped (required for RECYCLAGE and DON by the validator)
+ * @param {string} [data.note] - Free note
+ * @param {Object} req - Express request (user and audit context)
+ * @returns {Promise<Object>} Retired asset item
+ * @throws {NotFoundError} If item doesn't exist
+ * @throws {ValidationError} If the item is already retired, loaned or under repair
+ */
+export async function retireAssetItem(id, data, req) {
+  const existingItem = await findOneOrFail('assetItem', { id }, {
+    errorMessage: 'Article d\'équipement non trouvé'
+  });
+
+  if (existingItem.status === 'REFORME') {
+    throw new ValidationError('Cet équipement est déjà réformé');
+  }
+  if (existingItem.status === 'PRETE') {
+    throw new ValidationError('Cet équipement est prêté : enregistrez son retour avant de le réformer');
+  }
+  await assertNoOpenRepair(existingItem, 'REFORME');
+
+  const disposal = {
+    status: 'REFORME',
+    disposalReason: data.reason,
+    disposedAt: data.disposedAt,
+    disposalCertificateRef: data.certificateRef || null,
+    dataWipeConfirmed: data.dataWipeConfirmed ?? false,
+    disposalNote: data.note || null,
+    disposedById: req.user.userId
+  };
+
+  const assetItem = await prisma.$transaction(async (tx) => {
+    // Guarded update: the item may have been loaned, sent to repair or
+    // retired since the checks above
+    const { count } = await tx.assetItem.updateMany({
+      where: { id, status: existingItem.status },
+      data: disposal
+    });
+    if (count === 0) {
+      throw new ValidationError('Le statut de cet équipement a changé entre-temps, veuillez réessayer');
+    }
+
+    await tx.reservation.updateMany({
+      where: { assetItemId: id, status: 'ACTIVE' },
+      data: { status: 'CANCELLED' }
+    });
+
+    return tx.assetItem.findUnique({
+      where: { id },
+      include: ASSET_ITEM_INCLUDE
+    });
+  });
+
+  await logUpdate('AssetItem', id, req,
+    { status: existingItem.status },
+    disposal
+  );
+
+  await invalidateEntity('asset_items');
+  await invalidateEntity('asset_models');
+
+  return assetItem;
+}
+
 /**
  * Delete an asset item
  *
- * Note: Unlike employees and asset models, asset items can be deleted
- * even if they have loan history. The loan history is preserved via
- * the loanLines table which maintains the reference for audit purposes.
+ * Only items never lent can be deleted (e.g. created by mistake). An item
+ * with loan history must be retired instead (REFORME): deleting it would
+ * detach its loan lines, which would no longer tell what was lent.
  *
  * @param {string} id - Asset item ID to delete
  * @param {Object} req - Express request object (for audit trail)
  * @returns {Promise<Object>} Success message
  * @throws {NotFoundError} If item doesn't exist
+ * @throws {ValidationError} If item appears on loan lines
  *
  * @example
  * await deleteAssetItem('itemId123', req);
  */
 export async function deleteAssetItem(id, req) {
-  // Check if asset item exists and fetch loan lines for audit
   const existingItem = await findOneOrFail('assetItem', { id }, {
     include: {
-      loanLines: true  // Loan history preserved in database
+      _count: { select: { loanLines: true } }
     },
     errorMessage: 'Article d\'équipement non trouvé'
   });
 
-  // Delete item (loan history remains in loanLines table)
+  if (existingItem._count.loanLines > 0) {
+    throw new ValidationError(
+      `Impossible de supprimer cet équipement : il figure sur ${existingItem._count.loanLines} ligne(s) de prêt. Réformez-le plutôt pour conserver son historique.`
+    );
+  }
+
   await prisma.assetItem.delete({ where: { id } });
 
   // Audit trail
@@ -440,7 +636,7 @@ export async function deleteAssetItem(id, req) {
  * // Existing tags: KB-001, KB-002, KB-005
  * await findNextAvailableNumber('KB-'); // Returns 6 (max + 1)
  */
-async function findNextAvailableNumber(prefix) {
+export async function findNextAvailableNumber(prefix) {
   const existingTags = await prisma.assetItem.findMany({
     where: { assetTag: { startsWith: prefix } },
     select: { assetTag: true }
@@ -481,7 +677,7 @@ async function findNextAvailableNumber(prefix) {
  * generateTags('LAPTOP-', 42, 2);
  * // Returns ['LAPTOP-042', 'LAPTOP-043']
  */
-function generateTags(prefix, startNumber, count) {
+export function generateTags(prefix, startNumber, count) {
   return Array.from({ length: count }, (_, i) => {
     const number = startNumber + i;
     return `${prefix}${number.toString().padStart(3, '0')}`;
@@ -536,6 +732,8 @@ export async function previewBulkCreation(tagPrefix, quantity) {
  * - Same asset model
  * - Same status (default EN_STOCK)
  * - Same notes (if provided)
+ * - Same purchase data (supplier, invoice, date, price, warranty end):
+ *   a bulk creation usually records one delivery
  * - NULL serial numbers (individual serial numbers can be added later)
  *
  * Transaction ensures all-or-nothing creation. If any tag conflict occurs,
@@ -547,8 +745,13 @@ export async function previewBulkCreation(tagPrefix, quantity) {
  * @param {number} data.quantity - Number of items to create (1-100)
  * @param {string} [data.status='EN_STOCK'] - Initial status
  * @param {string} [data.notes] - Optional notes applied to all items
+ * @param {string} [data.supplierId] - Supplier applied to all items
+ * @param {string} [data.invoiceNumber] - Invoice number applied to all items
+ * @param {Date} [data.purchaseDate] - Purchase date applied to all items
+ * @param {number} [data.purchasePriceCents] - Unit purchase price in cents
+ * @param {Date} [data.warrantyEndsAt] - Warranty end applied to all items
  * @returns {Promise<Array>} Array of created asset items with model details
- * @throws {NotFoundError} If asset model doesn't exist
+ * @throws {NotFoundError} If asset model or supplier doesn't exist
  * @throws {ValidationError} If quantity is out of range (1-100)
  * @throws {ConflictError} If any generated tags already exist
  *
@@ -558,17 +761,20 @@ export async function previewBulkCreation(tagPrefix, quantity) {
  *   tagPrefix: 'KB-',
  *   quantity: 20,
  *   status: 'EN_STOCK',
- *   notes: 'Commande 2025-01'
+ *   notes: 'Commande 2025-01',
+ *   supplierId: 'supplierId123',
+ *   invoiceNumber: 'FA-2025-0042'
  * });
  * // Creates 20 keyboards with tags KB-001 to KB-020
  */
 export async function createAssetItemsBulk(data) {
   const { assetModelId, tagPrefix, quantity, status = 'EN_STOCK', notes } = data;
 
-  // 1. Validate asset model exists
+  // 1. Validate asset model and supplier exist
   await findOneOrFail('assetModel', { id: assetModelId }, {
     errorMessage: 'Modèle d\'équipement non trouvé'
   });
+  await assertSupplierExists(data.supplierId);
 
   // 2. Validate quantity range
   if (quantity < 1 || quantity > 100) {
@@ -603,9 +809,15 @@ export async function createAssetItemsBulk(data) {
           assetTag: tag,
           serial: null, // Always null for bulk creation
           status,
-          notes: notes || null
+          notes: notes || null,
+          location: data.location || null,
+          supplierId: data.supplierId || null,
+          invoiceNumber: data.invoiceNumber || null,
+          purchaseDate: data.purchaseDate || null,
+          purchasePriceCents: data.purchasePriceCents ?? null,
+          warrantyEndsAt: data.warrantyEndsAt || null
         },
-        include: { assetModel: true }
+        include: ASSET_ITEM_INCLUDE
       });
       items.push(item);
     }
@@ -618,3 +830,37 @@ export async function createAssetItemsBulk(data) {
 
   return createdItems;
 }
+
+/**
+ * Get asset items whose warranty ends within the next N days
+ *
+ * Not cached: the window moves with the current date.
+ * Ordered by warranty end (soonest first), for the dashboard widget.
+ *
+ * @param {Object} [options={}] - Query options
+ * @param {number} [options.days=30] - Window size in days, starting today
+ * @param {number} [options.page=1] - Page number
+ * @param {number} [options.pageSize=20] - Items per page
+ * @returns {Promise<Object>} Paginated response with data and metadata
+ *
+ * @example
+ * const { data, pagination } = await getExpiringWarranties({ days: 60, pageSize: 5 });
+ */
+export async function getExpiringWarranties(options = {}) {
+  const { days = 30, page = 1, pageSize = 20 } = options;
+
+  const now = new Date();
+  const until = new Date(now);
+  until.setDate(until.getDate() + days);
+
+  return executePaginatedQuery(prisma.assetItem, {
+    where: {
+      warrantyEndsAt: { gte: now, lte: until },
+      status: { not: 'REFORME' }
+    },
+    orderBy: [{ warrantyEndsAt: 'asc' }, { assetTag: 'asc' }],
+    include: ASSET_ITEM_INCLUDE,
+    page,
+    pageSize
+  });
+}
@@ -14,6 +14,7 @@
 import prisma from '../config/database.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { createAssetItemsBulk } from './assetItems.service.js';
+import { buildStockMovement } from './stockMovements.service.js';
 import { createContextLogger } from '../config/logger.js';
 
 const logger = createContextLogger('AssetModelsService');
@@ -35,12 +36,12 @@ const UNIQUE_ASSET_TYPES = [
 /**
  * Types de consommables (stock global)
  */
-const CONSUMABLE_TYPES = ['Câble', 'Adaptateur', 'Autre'];
+export const CONSUMABLE_TYPES = ['Câble', 'Adaptateur', 'Autre'];
 
 /**
  * Génère un préfixe de tag selon le type d'équipement
  */
-function generateTagPrefix(type) {
+export function generateTagPrefix(type) {
   const prefixes = {
     'Ordinateur portable': 'LAP-',
     'Ordinateur fixe': 'DSK-',
@@ -228,7 +229,10 @@ export async function createAssetModel(data) {
           assetModelId: assetModel.id,
           quantity,
           loaned: 0,
-          notes: `Créé automatiquement depuis le modèle ${assetModel.brand} ${assetModel.modelName}`
+          notes: `Créé automatiquement depuis le modèle ${assetModel.brand} ${assetModel.modelName}`,
+          movements: {
+            create: buildStockMovement('INITIAL', { quantityDelta: quantity, reason: 'Création du modèle' })
+          }
         },
         include: {
           assetModel: true
@@ -331,7 +335,10 @@ export async function updateAssetModel(id, data) {
           where: { id: existingModel.stockItems[0].id },
           data: {
             quantity: { increment: quantity },
-            notes: `Stock augmenté de ${quantity} le ${new Date().toLocaleDateString('fr-FR')}`
+            notes: `Stock augmenté de ${quantity} le ${new Date().toLocaleDateString('fr-FR')}`,
+            movements: {
+              create: buildStockMovement('RECEPTION', { quantityDelta: quantity, reason: 'Quantité ajoutée depuis le modèle' })
+            }
           },
           include: { assetModel: true }
         });
@@ -343,7 +350,10 @@ export async function updateAssetModel(id, data) {
             assetModelId: id,
             quantity,
             loaned: 0,
-            notes: `Créé le ${new Date().toLocaleDateString('fr-FR')} avec quantité ${quantity}`
+            notes: `Créé le ${new Date().toLocaleDateString('fr-FR')} avec quantité ${quantity}`,
+            movements: {
+              create: buildStockMovement('INITIAL', { quantityDelta: quantity, reason: 'Création depuis le modèle' })
+            }
           },
           include: { assetModel: true }
         });
@@ -359,13 +369,14 @@ export async function updateAssetModel(id, data) {
  * Delete an asset model with cascade deletion
  *
  * Deletes the model and all associated items (AssetItems and StockItems).
- * IMPORTANT: Cannot delete if any AssetItem is currently loaned (status PRETE)
- * or if any StockItem has loaned items (loaned > 0).
+ * IMPORTANT: Cannot delete if any AssetItem is currently loaned (status PRETE),
+ * if any StockItem has loaned items (loaned > 0) or if the model was ordered
+ * (purchase order lines).
  *
  * @param {string} id - Asset model ID to delete
  * @returns {Promise<Object>} Success message with deletion counts
  * @throws {NotFoundError} If model doesn't exist
- * @throws {ValidationError} If model has loaned items
+ * @throws {ValidationError} If model has loaned items or purchase order lines
  *
  * @example
  * await deleteAssetModel('modelId123');
@@ -377,7 +388,8 @@ export async function deleteAssetModel(id) {
     where: { id },
     include: {
       items: true,  // AssetItems
-      stockItems: true  // StockItems
+      stockItems: true,  // StockItems
+      _count: { select: { orderLines: true } }
     }
   });
 
@@ -401,6 +413,13 @@ export async function deleteAssetModel(id) {
     );
   }
 
+  // Purchase order lines keep the history of what was bought
+  if (existingModel._count.orderLines > 0) {
+    throw new ValidationError(
+      `Impossible de supprimer ce modèle : il figure sur ${existingModel._count.orderLines} ligne(s) de bon de commande`
+    );
+  }
+
   // Delete in transaction: items first, then model (respects foreign keys)
   const result = await prisma.$transaction(async (tx) => {
     // Delete all AssetItems
@@ -432,8 +451,9 @@ export async function deleteAssetModel(id) {
  * Delete multiple asset models in batch with cascade deletion
  *
  * Deletes models and all associated items (AssetItems and StockItems).
- * IMPORTANT: Cannot delete if any AssetItem is currently loaned (status PRETE)
- * or if any StockItem has loaned items (loaned > 0).
+ * IMPORTANT: Cannot delete if any AssetItem is currently loaned (status PRETE),
+ * if any StockItem has loaned items (loaned > 0) or if the model was ordered
+ * (purchase order lines).
  *
  * @param {string[]} modelIds - Array of asset model IDs to delete
  * @returns {Promise<Object>} Success message with deletion counts
@@ -453,7 +473,8 @@ export async function batchDeleteAssetModels(modelIds) {
     where: { id: { in: modelIds } },
     include: {
       items: true,
-      stockItems: true
+      stockItems: true,
+      _count: { select: { orderLines: true } }
     }
   });
 
@@ -478,6 +499,14 @@ export async function batchDeleteAssetModels(modelIds) {
     );
   }
 
+  // Purchase order lines keep the history of what was bought
+  const orderLineCount = models.reduce((sum, m) => sum + m._count.orderLines, 0);
+  if (orderLineCount > 0) {
+    throw new ValidationError(
+      `Impossible de supprimer ces modèles : ils figurent sur ${orderLineCount} ligne(s) de bon de commande`
+    );
+  }
+
   // Delete in transaction
   const result = await prisma.$transaction(async (tx) => {
     // Delete all AssetItems for these models
@@ -494,6 +494,158 @@ export async function getBlacklistStats() {
   }
 }
 
+/**
+ * ============================================
+ * LEADER ELECTION - Scheduled jobs
+ * ============================================
+ * Only one API replica runs the scheduled jobs: the one holding the
+ * `scheduler:leader` key. The leader renews the key before it expires;
+ * if it stops or crashes, another replica takes over after the TTL.
+ */
+
+// Renew the lock only if we still own it (atomic compare-and-expire)
+const RENEW_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('expire', KEYS[1], ARGV[2])
+end
+return 0
+`
+
+// Release the lock only if we still own it (atomic compare-and-delete)
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`
+
+/**
+ * Acquire or renew a leadership lock
+ *
+ * Fails closed: when Redis is unavailable nobody is leader, so a job can
+ * never run twice because of a network split.
+ *
+ * @param {string} name - Lock name (e.g., 'scheduler')
+ * @param {string} owner - Unique ID of the candidate (hostname + pid)
+ * @param {number} ttl - Lock lifetime in seconds
+ * @returns {Promise<boolean>} True if the caller is the leader
+ *
+ * @example
+ * if (await acquireLeadership('scheduler', instanceId, 90)) {
+ *   await runDueJobs()
+ * }
+ */
+export async function acquireLeadership(name, owner, ttl) {
+  const key = `${name}:leader`
+  try {
+    const client = getRedisClient()
+
+    const acquired = await client.set(key, owner, 'EX', ttl, 'NX')
+    if (acquired === 'OK') {
+      logger.info(`👑 Leadership acquired: ${key} (${owner})`)
+      return true
+    }
+
+    const renewed = await client.eval(RENEW_LOCK_SCRIPT, 1, key, owner, ttl)
+    return renewed === 1
+  } catch (error) {
+    logger.error(`Failed to acquire leadership ${key}:`, error)
+    return false
+  }
+}
+
+/**
+ * Release a leadership lock held by the caller
+ *
+ * @param {string} name - Lock name
+ * @param {string} owner - Unique ID of the current leader
+ * @returns {Promise<boolean>} True if the lock was released
+ */
+export async function releaseLeadership(name, owner) {
+  const key = `${name}:leader`
+  try {
+    const client = getRedisClient()
+    const released = await client.eval(RELEASE_LOCK_SCRIPT, 1, key, owner)
+    return released === 1
+  } catch (error) {
+    logger.error(`Failed to release leadership ${key}:`, error)
+    return false
+  }
+}
+
+/**
+ * Get the current holder of a leadership lock
+ *
+ * @param {string} name - Lock name
+ * @returns {Promise<string|null>} Leader ID, null if none or Redis unavailable
+ */
+export async function getLeader(name) {
+  try {
+    const client = getRedisClient()
+    return await client.get(`${name}:leader`)
+  } catch (error) {
+    logger.error(`Failed to get leader ${name}:`, error)
+    return null
+  }
+}
+
+/**
+ * Claim a one-shot slot (e.g., a job occurrence) across replicas
+ *
+ * @param {string} key - Slot key
+ * @param {number} ttl - Slot lifetime in seconds
+ * @returns {Promise<boolean>} True if the caller claimed the slot first
+ */
+export async function claimSlot(key, ttl) {
+  try {
+    const client = getRedisClient()
+    return (await client.set(key, Date.now().toString(), 'EX', ttl, 'NX')) === 'OK'
+  } catch (error) {
+    logger.error(`Failed to claim slot ${key}:`, error)
+    return false
+  }
+}
+
+/**
+ * Append an entry to a capped history list (newest first)
+ *
+ * @param {string} key - List key
+ * @param {Object} entry - Entry (JSON serialized)
+ * @param {number} [maxLength=50] - Entries kept
+ * @returns {Promise<boolean>} Success status
+ */
+export async function pushHistory(key, entry, maxLength = 50) {
+  try {
+    const client = getRedisClient()
+    await client.multi()
+      .lpush(key, JSON.stringify(entry))
+      .ltrim(key, 0, maxLength - 1)
+      .exec()
+    return true
+  } catch (error) {
+    logger.error(`Failed to push history ${key}:`, error)
+    return false
+  }
+}
+
+/**
+ * Read a history list (newest first)
+ *
+ * @param {string} key - List key
+ * @param {number} [limit=20] - Entries returned
+ * @returns {Promise<Object[]>} Entries, empty if Redis unavailable
+ */
+export async function getHistory(key, limit = 20) {
+  try {
+    const client = getRedisClient()
+    const entries = await client.lrange(key, 0, limit - 1)
+    return entries.map((entry) => JSON.parse(entry))
+  } catch (error) {
+    logger.error(`Failed to read history ${key}:`, error)
+    return []
+  }
+}
+
 export default {
   get,
   set,
@@ -512,4 +664,11 @@ export default {
   invalidateUserSessions,
   areUserSessionsInvalidated,
   getBlacklistStats,
+  // Leader election - Scheduled jobs
+  acquireLeadership,
+  releaseLeadership,
+  getLeader,
+  claimSlot,
+  pushHistory,
+  getHistory,
 }
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Companies service - Legal entities grouping departments
+ *
+ * Employees are attached to a department, departments optionally belong to a
+ * company (the "Société" column of the HR export, see departments.service.js).
+ */
+
+import prisma from '../config/database.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { logCreate, logUpdate, logDelete } from '../utils/auditHelpers.js';
+
+const COMPANY_INCLUDE = {
+  _count: {
+    select: { departments: true }
+  }
+};
+
+/**
+ * Ensure no other company already uses this name (case-insensitive)
+ *
+ * @param {string} name - Company name
+ * @param {string} [excludeId] - Company being updated
+ * @throws {ConflictError} If the name is taken
+ */
+async function assertNameAvailable(name, excludeId) {
+  const existing = await prisma.company.findFirst({
+    where: { name: { equals: name, mode: 'insensitive' } }
+  });
+  if (existing && existing.id !== excludeId) {
+    throw new ConflictError('Une société avec ce nom existe déjà');
+  }
+}
+
+/**
+ * Get all companies with their department count
+ *
+ * @param {Object} [filters={}] - Optional filters
+ * @param {string} [filters.search] - Search in name (case-insensitive)
+ * @returns {Promise<Array>} Companies ordered by name
+ */
+export async function getAllCompanies(filters = {}) {
+  const { search } = filters;
+
+  const where = search
+    ? { name: { contains: search, mode: 'insensitive' } }
+    : {};
+
+  return prisma.company.findMany({
+    where,
+    orderBy: { name: 'asc' },
+    include: COMPANY_INCLUDE
+  });
+}
+
+/**
+ * Get a company by ID
+ *
+ * @param {string} id - Company ID
+ * @returns {Promise<Object>} Company with department count
+ * @throws {NotFoundError} If company doesn't exist
+ */
+export async function getCompanyById(id) {
+  return findOneOrFail('company', { id }, {
+    include: COMPANY_INCLUDE,
+    errorMessage: 'Société non trouvée'
+  });
+}
+
+/**
+ * Create a company
+ *
+ * @param {Object} data - Company data (name)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Created company
+ * @throws {ConflictError} If the name is already used
+ */
+export async function createCompany(data, req) {
+  await assertNameAvailable(data.name);
+
+  const company = await prisma.company.create({
+    data,
+    include: COMPANY_INCLUDE
+  });
+
+  // Audit trail
+  await logCreate('Company', company.id, req, data);
+
+  return company;
+}
+
+/**
+ * Update a company
+ *
+ * @param {string} id - Company ID
+ * @param {Object} data - Fields to update
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated company
+ * @throws {NotFoundError} If company doesn't exist
+ * @throws {ConflictError} If the new name is already used
+ */
+export async function updateCompany(id, data, req) {
+  const company = await findOneOrFail('company', { id }, {
+    errorMessage: 'Société non trouvée'
+  });
+
+  if (data.name && data.name !== company.name) {
+    await assertNameAvailable(data.name, id);
+  }
+
+  const updated = await prisma.company.update({
+    where: { id },
+    data,
+    include: COMPANY_INCLUDE
+  });
+
+  // Audit trail
+  await logUpdate('Company', id, req, company, data);
+
+  return updated;
+}
+
+/**
+ * Delete a company
+ *
+ * Protection: Cannot delete a company that still has departments, they
+ * must be moved to another company (or merged) first.
+ *
+ * @param {string} id - Company ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Deleted company
+ * @throws {NotFoundError} If company doesn't exist
+ * @throws {ValidationError} If departments belong to the company
+ */
+export async function deleteCompany(id, req) {
+  const company = await findOneOrFail('company', { id }, {
+    include: COMPANY_INCLUDE,
+    errorMessage: 'Société non trouvée'
+  });
+
+  if (company._count.departments > 0) {
+    throw new ValidationError(
+      `Impossible de supprimer cette société : elle contient ${company._count.departments} département(s)`
+    );
+  }
+
+  await prisma.company.delete({ where: { id } });
+
+  // Audit trail
+  await logDelete('Company', id, req, company);
+
+  return company;
+}
+
+export default {
+  getAllCompanies,
+  getCompanyById,
+  createCompany,
+  updateCompany,
+  deleteCompany
+};
@@ -1,11 +1,14 @@
 /**
  * Dashboard Service
  * Provides dashboard statistics using materialized view for optimal performance
+ * and the fleet valuation report (book value per equipment type and department)
  */
 
 import prisma from '../config/database.js';
 import logger from '../config/logger.js';
 import { getCached, del, generateKey, TTL } from './cache.service.js';
+import { getDepreciationYearsByType } from './equipmentTypes.service.js';
+import { buildValuationReport } from '../utils/depreciation.js';
 
 /**
  * Get dashboard statistics from materialized view
@@ -86,3 +89,61 @@ export async function refreshDashboardStats() {
     throw error;
   }
 }
+
+/**
+ * Get the fleet valuation report
+ *
+ * Values every asset item with a purchase price at its current book value
+ * (see utils/depreciation.js). The department is the one of the employee
+ * currently holding the item through an open loan, grouped by department ID
+ * with its company; items in stock, in repair or out of service, or held by
+ * an employee without department, are reported under a null department. Retired items
+ * (REFORME) have left the fleet and are not valued.
+ *
+ * @param {Date} [now=new Date()] - Valuation date
+ * @returns {Promise<Object>} { valuedAt, totals, byType, byDepartment }
+ */
+export async function getFleetValuation(now = new Date()) {
+  const [items, depreciationYearsByType] = await Promise.all([
+    prisma.assetItem.findMany({
+      where: { purchasePriceCents: { not: null }, status: { not: 'REFORME' } },
+      select: {
+        purchasePriceCents: true,
+        purchaseDate: true,
+        assetModel: { select: { type: true } },
+        loanLines: {
+          where: { returnedAt: null, loan: { status: 'OPEN', deletedAt: null } },
+          take: 1,
+          select: {
+            loan: {
+              select: {
+                employee: {
+                  select: {
+                    department: { select: { id: true, name: true, company: { select: { name: true } } } }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }),
+    getDepreciationYearsByType()
+  ]);
+
+  return buildValuationReport(
+    items.map((item) => {
+      const department = item.loanLines[0]?.loan.employee.department;
+      return {
+        purchasePriceCents: item.purchasePriceCents,
+        purchaseDate: item.purchaseDate,
+        type: item.assetModel.type,
+        department: department
+          ? { id: department.id, name: department.name, company: department.company?.name ?? null }
+          : null
+      };
+    }),
+    depreciationYearsByType,
+    now
+  );
+}
@@ -0,0 +1,467 @@
+/**
+ * @fileoverview Departments service - Agencies / services employees belong to
+ *
+ * This service handles:
+ * - Department CRUD, optionally attached to a company
+ * - Keeping Employee.dept (denormalized name used by the full-text search,
+ *   receipts and exports) in sync with the linked department
+ * - Near-duplicate detection ("Woippy" / "woipy" / "WOIPPY ") and merging
+ * - Resolution of free-text department / company names during imports
+ */
+
+import prisma from '../config/database.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { logCreate, logUpdate, logDelete } from '../utils/auditHelpers.js';
+import { invalidateEntity } from './cache.service.js';
+
+const DEPARTMENT_INCLUDE = {
+  company: {
+    select: { id: true, name: true }
+  },
+  _count: {
+    select: { employees: true }
+  }
+};
+
+/**
+ * Collapse the spaces of a free-text name ("  Woippy   Nord " -> "Woippy Nord")
+ *
+ * @param {string} name - Raw name
+ * @returns {string} Cleaned name
+ */
+function cleanName(name) {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Comparison key ignoring case, accents, spaces and punctuation
+ *
+ * @param {string} name - Department name
+ * @returns {string} Normalized key ("Saint-Étienne" -> "saintetienne")
+ */
+export function normalizeKey(name) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Levenshtein distance between two strings
+ *
+ * @param {string} a
+ * @param {string} b
+ * @returns {number} Number of single-character edits
+ */
+function editDistance(a, b) {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Whether two names most likely designate the same department
+ *
+ * Same normalized key, or a typo: 1 edit for short names, 2 from 8 characters.
+ * Names under 4 characters (codes like "RH", "DSI") only match exactly.
+ *
+ * @param {string} a - Normalized key
+ * @param {string} b - Normalized key
+ * @returns {boolean}
+ */
+function isNearDuplicate(a, b) {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 4) return false;
+
+  const tolerance = Math.max(a.length, b.length) >= 8 ? 2 : 1;
+  return Math.abs(a.length - b.length) <= tolerance && editDistance(a, b) <= tolerance;
+}
+
+/**
+ * Ensure no other department of the same company already uses this name
+ *
+ * Checked here rather than by the unique index alone: departments without
+ * company (NULL companyId) are not covered by it, and the check is
+ * case-insensitive.
+ *
+ * @param {string} name - Department name
+ * @param {string|null} companyId - Company ID (null = no company)
+ * @param {string} [excludeId] - Department being updated
+ * @throws {ConflictError} If the name is taken
+ */
+async function assertNameAvailable(name, companyId, excludeId) {
+  const existing = await prisma.department.findFirst({
+    where: {
+      companyId: companyId ?? null,
+      name: { equals: name, mode: 'insensitive' }
+    }
+  });
+  if (existing && existing.id !== excludeId) {
+    throw new ConflictError('Un département avec ce nom existe déjà pour cette société');
+  }
+}
+
+/**
+ * Ensure the company exists
+ *
+ * @param {string|null|undefined} companyId - Company ID
+ * @throws {NotFoundError} If the company doesn't exist
+ */
+async function assertCompanyExists(companyId) {
+  if (!companyId) return;
+
+  const company = await prisma.company.findUnique({ where: { id: companyId } });
+  if (!company) {
+    throw new NotFoundError('Société non trouvée');
+  }
+}
+
+/**
+ * Get all departments with their company and employee count
+ *
+ * @param {Object} [filters={}] - Optional filters
+ * @param {string} [filters.search] - Search in name (case-insensitive)
+ * @param {string} [filters.companyId] - Only departments of this company
+ * @returns {Promise<Array>} Departments ordered by name
+ */
+export async function getAllDepartments(filters = {}) {
+  const { search, companyId } = filters;
+
+  const where = {};
+  if (search) {
+    where.name = { contains: search, mode: 'insensitive' };
+  }
+  if (companyId) {
+    where.companyId = companyId;
+  }
+
+  return prisma.department.findMany({
+    where,
+    orderBy: { name: 'asc' },
+    include: DEPARTMENT_INCLUDE
+  });
+}
+
+/**
+ * Get a department by ID
+ *
+ * @param {string} id - Department ID
+ * @returns {Promise<Object>} Department with company and employee count
+ * @throws {NotFoundError} If department doesn't exist
+ */
+export async function getDepartmentById(id) {
+  return findOneOrFail('department', { id }, {
+    include: DEPARTMENT_INCLUDE,
+    errorMessage: 'Département non trouvé'
+  });
+}
+
+/**
+ * Create a department
+ *
+ * @param {Object} data - Department data
+ * @param {string} data.name - Department name
+ * @param {string|null} [data.companyId] - Company the department belongs to
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Created department
+ * @throws {NotFoundError} If the company doesn't exist
+ * @throws {ConflictError} If the name is already used in the company
+ */
+export async function createDepartment(data, req) {
+  await assertCompanyExists(data.companyId);
+  await assertNameAvailable(data.name, data.companyId);
+
+  const department = await prisma.department.create({
+    data,
+    include: DEPARTMENT_INCLUDE
+  });
+
+  // Audit trail
+  await logCreate('Department', department.id, req, data);
+
+  return department;
+}
+
+/**
+ * Update a department
+ *
+ * Renaming also rewrites the denormalized name of its employees.
+ *
+ * @param {string} id - Department ID
+ * @param {Object} data - Fields to update (name, companyId)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated department
+ * @throws {NotFoundError} If department or company doesn't exist
+ * @throws {ConflictError} If the name is already used in the target company
+ */
+export async function updateDepartment(id, data, req) {
+  const department = await findOneOrFail('department', { id }, {
+    errorMessage: 'Département non trouvé'
+  });
+
+  const name = data.name ?? department.name;
+  const companyId = data.companyId !== undefined ? data.companyId : department.companyId;
+  const renamed = name !== department.name;
+
+  if (companyId !== department.companyId) {
+    await assertCompanyExists(companyId);
+  }
+  if (renamed || companyId !== department.companyId) {
+    await assertNameAvailable(name, companyId, id);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (renamed) {
+      await tx.employee.updateMany({
+        where: { departmentId: id },
+        data: { dept: name }
+      });
+    }
+
+    return tx.department.update({
+      where: { id },
+      data,
+      include: DEPARTMENT_INCLUDE
+    });
+  });
+
+  // Audit trail
+  await logUpdate('Department', id, req, department, data);
+
+  if (renamed) {
+    await invalidateEntity('employees');
+  }
+
+  return updated;
+}
+
+/**
+ * Delete a department
+ *
+ * Protection: Cannot delete a department that still has employees, merge it
+ * into another department instead.
+ *
+ * @param {string} id - Department ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Deleted department
+ * @throws {NotFoundError} If department doesn't exist
+ * @throws {ValidationError} If employees belong to the department
+ */
+export async function deleteDepartment(id, req) {
+  const department = await findOneOrFail('department', { id }, {
+    include: DEPARTMENT_INCLUDE,
+    errorMessage: 'Département non trouvé'
+  });
+
+  if (department._count.employees > 0) {
+    throw new ValidationError(
+      `Impossible de supprimer ce département : ${department._count.employees} employé(s) y sont rattaché(s). Fusionnez-le plutôt.`
+    );
+  }
+
+  await prisma.department.delete({ where: { id } });
+
+  // Audit trail
+  await logDelete('Department', id, req, department);
+
+  return department;
+}
+
+/**
+ * Find groups of departments that are most likely the same one
+ *
+ * Only departments of the same company are compared. The department with the
+ * most employees is suggested as merge target.
+ *
+ * @returns {Promise<Array<{suggestedTargetId: string, departments: Array}>>}
+ *   Groups of at least two departments, largest groups first
+ *
+ * @example
+ * const groups = await findDuplicateDepartments();
+ * // [{ suggestedTargetId: 'd1', departments: [{ id: 'd1', name: 'Woippy', ... }, { id: 'd2', name: 'Woipy', ... }] }]
+ */
+export async function findDuplicateDepartments() {
+  const departments = await prisma.department.findMany({
+    orderBy: { name: 'asc' },
+    include: DEPARTMENT_INCLUDE
+  });
+
+  // Union-find over the near-duplicate pairs
+  const parent = departments.map((_, i) => i);
+  const root = (i) => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const keys = departments.map(d => normalizeKey(d.name));
+
+  for (let i = 0; i < departments.length; i++) {
+    for (let j = i + 1; j < departments.length; j++) {
+      if (departments[i].companyId === departments[j].companyId && isNearDuplicate(keys[i], keys[j])) {
+        parent[root(j)] = root(i);
+      }
+    }
+  }
+
+  const groups = new Map();
+  departments.forEach((department, i) => {
+    const key = root(i);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(department);
+  });
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => {
+      const sorted = [...group].sort((a, b) => b._count.employees - a._count.employees);
+      return { suggestedTargetId: sorted[0].id, departments: sorted };
+    })
+    .sort((a, b) => b.departments.length - a.departments.length);
+}
+
+/**
+ * Merge departments into a target department
+ *
+ * Employees of the source departments are moved to the target (their
+ * denormalized name included), then the sources are deleted.
+ *
+ * @param {string} targetId - Department kept
+ * @param {Array<string>} sourceIds - Departments merged into the target
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Target department with its new employee count
+ * @throws {NotFoundError} If the target or a source doesn't exist
+ * @throws {ValidationError} If the target is among the sources
+ *
+ * @example
+ * await mergeDepartments('woippyId', ['woipyId', 'woippy2Id'], req);
+ */
+export async function mergeDepartments(targetId, sourceIds, req) {
+  if (sourceIds.includes(targetId)) {
+    throw new ValidationError('Un département ne peut pas être fusionné avec lui-même');
+  }
+
+  const target = await findOneOrFail('department', { id: targetId }, {
+    errorMessage: 'Département non trouvé'
+  });
+
+  const sources = await prisma.department.findMany({
+    where: { id: { in: sourceIds } },
+    include: DEPARTMENT_INCLUDE
+  });
+
+  if (sources.length !== new Set(sourceIds).size) {
+    throw new NotFoundError('Département à fusionner non trouvé');
+  }
+
+  const { merged, movedEmployees } = await prisma.$transaction(async (tx) => {
+    const moved = await tx.employee.updateMany({
+      where: { departmentId: { in: sourceIds } },
+      data: { departmentId: targetId, dept: target.name }
+    });
+
+    await tx.department.deleteMany({ where: { id: { in: sourceIds } } });
+
+    const department = await tx.department.findUnique({
+      where: { id: targetId },
+      include: DEPARTMENT_INCLUDE
+    });
+
+    return { merged: department, movedEmployees: moved.count };
+  });
+
+  // Audit trail
+  await logUpdate('Department', targetId, req,
+    { mergedDepartments: sources.map(s => ({ id: s.id, name: s.name })) },
+    { action: 'MERGED', movedEmployees }
+  );
+
+  await invalidateEntity('employees');
+
+  return merged;
+}
+
+/**
+ * Build a resolver turning free-text department / company names into a
+ * department ID, creating the missing entities (used by the Excel import)
+ *
+ * Names are matched case-insensitively after collapsing spaces. A department
+ * found without company is attached to the imported company rather than
+ * duplicated: departments normalized from the old free-text field have none.
+ * Results are memoized for the lifetime of the resolver (one import).
+ *
+ * @param {Object} [client=prisma] - Prisma client or transaction client
+ * @returns {Function} async ({ dept, company }) => { departmentId, dept } or null without department
+ *
+ * @example
+ * const resolveDepartment = createDepartmentResolver();
+ * const { departmentId, dept } = await resolveDepartment({ dept: 'woippy ', company: 'Tilly' });
+ */
+export function createDepartmentResolver(client = prisma) {
+  const companies = new Map();
+  const departments = new Map();
+
+  const resolveCompanyId = async (rawName) => {
+    if (!rawName?.trim()) return null;
+
+    const name = cleanName(rawName);
+    const key = name.toLowerCase();
+    if (!companies.has(key)) {
+      const company = await client.company.findFirst({
+        where: { name: { equals: name, mode: 'insensitive' } }
+      }) ?? await client.company.create({ data: { name } });
+      companies.set(key, company.id);
+    }
+    return companies.get(key);
+  };
+
+  return async ({ dept, company }) => {
+    if (!dept?.trim()) return null;
+
+    const name = cleanName(dept);
+    const companyId = await resolveCompanyId(company);
+    const key = `${companyId ?? ''}:${name.toLowerCase()}`;
+
+    if (!departments.has(key)) {
+      const nameFilter = { equals: name, mode: 'insensitive' };
+      let department = await client.department.findFirst({
+        where: { companyId, name: nameFilter }
+      });
+
+      if (!department && companyId) {
+        const orphan = await client.department.findFirst({
+          where: { companyId: null, name: nameFilter }
+        });
+        department = orphan && await client.department.update({
+          where: { id: orphan.id },
+          data: { companyId }
+        });
+      }
+
+      department ??= await client.department.create({ data: { name, companyId } });
+      departments.set(key, { departmentId: department.id, dept: department.name });
+    }
+
+    return departments.get(key);
+  };
+}
+
+export default {
+  getAllDepartments,
+  getDepartmentById,
+  createDepartment,
+  updateDepartment,
+  deleteDepartment,
+  findDuplicateDepartments,
+  mergeDepartments,
+  createDepartmentResolver
+};
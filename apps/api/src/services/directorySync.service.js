@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Directory sync service - Employees from the company directory
+ *
+ * Searches the LDAP directory (Active Directory, OpenLDAP), maps each entry
+ * to an employee and upserts them with upsertEmployees(), the employees
+ * service behind the Excel import. Runs on demand (POST /api/directory-sync/run)
+ * or from the scheduler (directory-sync job, SCHEDULER_DIRECTORY_SYNC_CRON).
+ *
+ * Configuration (the sync is disabled without LDAP_URL):
+ * - LDAP_URL: ldap://host:389 or ldaps://host:636
+ * - LDAP_STARTTLS=true upgrades an ldap:// connection to TLS
+ * - LDAP_TLS_REJECT_UNAUTHORIZED=false accepts self-signed certificates
+ * - LDAP_BIND_DN / LDAP_BIND_PASSWORD: service account (anonymous bind without)
+ * - LDAP_BASE_DN / LDAP_FILTER: search base and filter
+ * - LDAP_ATTR_<FIELD>: attribute mapping, empty to ignore a field
+ *
+ * Entries are matched on their email. The manager is linked when their email
+ * (read from the entry of the manager DN, or directly from the attribute)
+ * belongs to a user account. A disabled account (userAccountControl flag on
+ * Active Directory, any true value of another attribute) archives the employee.
+ */
+
+import prisma from '../config/database.js';
+import logger from '../config/logger.js';
+import { searchLdap } from '../utils/ldapClient.js';
+import { ValidationError } from '../utils/errors.js';
+import { upsertEmployees } from './employees.service.js';
+
+const DEFAULT_FILTER = '(&(objectClass=person)(mail=*))';
+
+// Employee field → environment variable and default attribute (Active Directory names)
+const ATTRIBUTE_SETTINGS = {
+  firstName: ['LDAP_ATTR_FIRST_NAME', 'givenName'],
+  lastName: ['LDAP_ATTR_LAST_NAME', 'sn'],
+  email: ['LDAP_ATTR_EMAIL', 'mail'],
+  dept: ['LDAP_ATTR_DEPT', 'department'],
+  company: ['LDAP_ATTR_COMPANY', 'company'],
+  manager: ['LDAP_ATTR_MANAGER', 'manager'],
+  disabled: ['LDAP_ATTR_DISABLED', 'userAccountControl']
+};
+
+// userAccountControl flag of a disabled Active Directory account
+const ACCOUNT_DISABLED_FLAG = 0x2;
+
+// Errors kept in the run result (job history)
+const MAX_REPORTED_ERRORS = 50;
+
+/**
+ * Whether the directory synchronization is configured (LDAP_URL set)
+ *
+ * @returns {boolean}
+ */
+export function isDirectorySyncConfigured() {
+  return Boolean(process.env.LDAP_URL);
+}
+
+/**
+ * Get the directory settings, without the bind password
+ *
+ * @returns {Object} { configured, url, bindDn, baseDn, filter, startTls, attributes }
+ */
+export function getDirectorySyncSettings() {
+  const attributes = {};
+  for (const [field, [variable, defaultAttribute]] of Object.entries(ATTRIBUTE_SETTINGS)) {
+    attributes[field] = (process.env[variable] ?? defaultAttribute).trim() || null;
+  }
+
+  return {
+    configured: isDirectorySyncConfigured(),
+    url: process.env.LDAP_URL || null,
+    bindDn: process.env.LDAP_BIND_DN || null,
+    baseDn: process.env.LDAP_BASE_DN || null,
+    filter: process.env.LDAP_FILTER || DEFAULT_FILTER,
+    startTls: process.env.LDAP_STARTTLS === 'true',
+    attributes
+  };
+}
+
+function normalizeDn(dn) {
+  return dn.trim().toLowerCase().replace(/\s*([,=])\s*/g, '$1');
+}
+
+function isDisabledValue(attribute, value) {
+  if (!attribute || value === null) return false;
+  if (attribute.toLowerCase() === 'useraccountcontrol') {
+    return (Number(value) & ACCOUNT_DISABLED_FLAG) !== 0;
+  }
+  return !['false', '0', 'no'].includes(value.toLowerCase());
+}
+
+/**
+ * Link the manager of each entry to a user account
+ *
+ * @param {Array<Object>} entries - Entries with their mapped values
+ * @returns {Promise<Map<string, string>>} Entry DN → manager user ID
+ */
+async function resolveManagers(entries) {
+  const emailsByDn = new Map(entries.map(entry => [normalizeDn(entry.dn), entry.values.email]));
+
+  const managerEmails = new Map();
+  for (const { dn, values } of entries) {
+    if (!values.manager) continue;
+    // Active Directory stores the manager DN, other directories may store an email
+    const email = values.manager.includes('@') && !values.manager.includes('=')
+      ? values.manager
+      : emailsByDn.get(normalizeDn(values.manager));
+    if (email) {
+      managerEmails.set(dn, email.toLowerCase());
+    }
+  }
+
+  if (managerEmails.size === 0) {
+    return new Map();
+  }
+
+  const users = await prisma.user.findMany({
+    where: { email: { in: [...new Set(managerEmails.values())], mode: 'insensitive' } },
+    select: { id: true, email: true }
+  });
+  const userIds = new Map(users.map(user => [user.email.toLowerCase(), user.id]));
+
+  const managerIds = new Map();
+  for (const [dn, email] of managerEmails) {
+    if (userIds.has(email)) {
+      managerIds.set(dn, userIds.get(email));
+    }
+  }
+  return managerIds;
+}
+
+/**
+ * Synchronize the employees with the company directory
+ *
+ * @param {Object} [req] - Express request object of a manual run (for audit trail)
+ * @returns {Promise<Object>} { entries, created, updated, disabled, unchanged,
+ *   archived, skipped, errorCount, errors } - errors limited to the first 50;
+ *   archived counts employees archived in the app but still active in the directory
+ * @throws {ValidationError} If the directory is not configured
+ * @throws {Error} On LDAP connection, bind or search failure (nothing is written)
+ *
+ * @example
+ * const result = await syncEmployeesFromDirectory();
+ * // result: { entries: 240, created: 3, updated: 5, disabled: 2, unchanged: 229, archived: 1, skipped: 0, errorCount: 0, errors: [] }
+ */
+export async function syncEmployeesFromDirectory(req) {
+  const settings = getDirectorySyncSettings();
+  if (!settings.configured) {
+    throw new ValidationError('Synchronisation avec l\'annuaire non configurée (LDAP_URL)');
+  }
+  if (!settings.baseDn) {
+    throw new ValidationError('Base de recherche de l\'annuaire non configurée (LDAP_BASE_DN)');
+  }
+
+  const { attributes } = settings;
+  const rawEntries = await searchLdap({
+    url: settings.url,
+    bindDn: settings.bindDn,
+    bindPassword: process.env.LDAP_BIND_PASSWORD,
+    startTls: settings.startTls,
+    rejectUnauthorized: process.env.LDAP_TLS_REJECT_UNAUTHORIZED !== 'false'
+  }, {
+    baseDn: settings.baseDn,
+    filter: settings.filter,
+    attributes: Object.values(attributes).filter(Boolean)
+  });
+
+  const entries = rawEntries.map(entry => {
+    const values = {};
+    for (const [field, attribute] of Object.entries(attributes)) {
+      values[field] = attribute ? entry.attributes[attribute.toLowerCase()]?.[0]?.trim() || null : null;
+    }
+    return { dn: entry.dn, values };
+  });
+
+  const managerIds = await resolveManagers(entries);
+
+  const errors = [];
+  const employees = [];
+  for (const { dn, values } of entries) {
+    if (!values.firstName || !values.lastName || !values.email) {
+      errors.push({ dn, error: 'Prénom, nom ou email manquant' });
+      continue;
+    }
+
+    employees.push({
+      firstName: values.firstName,
+      lastName: values.lastName,
+      email: values.email,
+      dept: values.dept,
+      company: values.company,
+      managerId: managerIds.get(dn) ?? null,
+      disabled: isDisabledValue(attributes.disabled, values.disabled)
+    });
+  }
+
+  const result = await upsertEmployees(employees, req);
+  for (const { data, error } of result.errors) {
+    errors.push({ email: data.email, error });
+  }
+
+  logger.info(`[DirectorySync] ${entries.length} entries: ${result.created} created, ${result.updated} updated, ${result.disabled} disabled, ${errors.length} errors`);
+
+  return {
+    entries: entries.length,
+    created: result.created,
+    updated: result.updated,
+    disabled: result.disabled,
+    unchanged: result.unchanged,
+    archived: result.archived,
+    skipped: result.skipped,
+    errorCount: errors.length,
+    errors: errors.slice(0, MAX_REPORTED_ERRORS)
+  };
+}
+
+export default {
+  isDirectorySyncConfigured,
+  getDirectorySyncSettings,
+  syncEmployeesFromDirectory
+};
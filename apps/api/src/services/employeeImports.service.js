@@ -0,0 +1,491 @@
+/**
+ * @fileoverview Employee imports service - Synchronization of the employee base with the HR export
+ *
+ * This service handles:
+ * - Preview: rows of the HR file compared with the employee base
+ *   - NEW: row matching no employee
+ *   - CHANGED: names, email, department or company differ, or the employee
+ *     was archived and is back in the file (rehire)
+ *   - MISSING: active employee absent from the file, probable leaver
+ *   - errors: rows without name, present twice or matching several employees
+ * - Apply: the differences accepted by the reviewer, in one transaction, with
+ *   a stored import report (EmployeeImport)
+ * - History of the import reports
+ *
+ * Rows are matched on the email when the file has one, then on the name
+ * (case, accents and punctuation ignored). No email is generated: employees
+ * created without one keep matching on their name at the next import.
+ *
+ * Leavers still holding equipment are not archived: their offboarding is
+ * started instead (departure date), the checklist of the employee page applies.
+ */
+
+import prisma from '../config/database.js';
+import { ValidationError } from '../utils/errors.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { logCreate, logUpdate } from '../utils/auditHelpers.js';
+import { executePaginatedQuery } from '../utils/pagination.js';
+import { invalidateEntity } from './cache.service.js';
+import { createDepartmentResolver, normalizeKey } from './departments.service.js';
+
+const EMPLOYEE_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  dept: true,
+  departureDate: true,
+  archivedAt: true,
+  department: {
+    select: {
+      name: true,
+      company: { select: { name: true } }
+    }
+  }
+};
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  role: true
+};
+
+// Report columns, the JSON report is only returned by the detail
+const IMPORT_LIST_SELECT = {
+  id: true,
+  fileName: true,
+  totalRows: true,
+  createdCount: true,
+  updatedCount: true,
+  archivedCount: true,
+  offboardingCount: true,
+  rejectedCount: true,
+  errorCount: true,
+  createdAt: true,
+  createdBy: { select: USER_SELECT }
+};
+
+// A monthly HR file holds a few hundred rows: well over the 5s default.
+// Serializable like archiveInTransaction: a loan opened for a leaver while
+// the import runs cannot slip past the outstanding lines check
+const APPLY_TRANSACTION_OPTIONS = { timeout: 60000, isolationLevel: 'Serializable' };
+
+/**
+ * Trim and collapse the spaces of an imported cell
+ *
+ * @param {string|null|undefined} value - Raw cell
+ * @returns {string|null} Cleaned value, null when blank
+ */
+function cleanCell(value) {
+  return value?.trim().replace(/\s+/g, ' ') || null;
+}
+
+function nameKey(firstName, lastName) {
+  return `${normalizeKey(firstName)}:${normalizeKey(lastName)}`;
+}
+
+function sameText(a, b) {
+  return (a ?? '').toLowerCase() === (b ?? '').toLowerCase();
+}
+
+/**
+ * Find the employee of an imported row: same email, else same name
+ *
+ * @param {Object} row - Cleaned row
+ * @param {Map} byEmail - Employees by lowercased email
+ * @param {Map} byName - Employees by name key
+ * @returns {Object} { employee } (null when new) or { error } when the name is ambiguous
+ */
+function matchEmployee(row, byEmail, byName) {
+  if (row.email && byEmail.has(row.email)) {
+    return { employee: byEmail.get(row.email) };
+  }
+
+  const namesakes = byName.get(nameKey(row.firstName, row.lastName)) ?? [];
+  if (namesakes.length > 1) {
+    return { error: `${namesakes.length} employés portent ce nom, ajoutez leur email dans le fichier` };
+  }
+
+  return { employee: namesakes[0] ?? null };
+}
+
+/**
+ * List the fields of an employee differing from its imported row
+ *
+ * Names are compared like they are matched, ignoring case and accents (HR
+ * exports are often uppercase without accents), departments ignoring case.
+ * Blank cells never clear a value.
+ *
+ * @param {Object} employee - Employee (EMPLOYEE_SELECT)
+ * @param {Object} row - Cleaned row
+ * @returns {Array<Object>} Changes [{ field, from, to }]
+ */
+function diffEmployee(employee, row) {
+  const changes = [];
+  const compare = (field, from, to, equals = sameText) => {
+    if (to && !equals(from, to)) {
+      changes.push({ field, from: from ?? null, to });
+    }
+  };
+  const sameName = (a, b) => normalizeKey(a) === normalizeKey(b);
+
+  compare('firstName', employee.firstName, row.firstName, sameName);
+  compare('lastName', employee.lastName, row.lastName, sameName);
+  compare('email', employee.email, row.email);
+  if (row.dept) {
+    compare('dept', employee.department?.name ?? employee.dept, row.dept);
+    compare('company', employee.department?.company?.name, row.company);
+  }
+  if (employee.archivedAt) {
+    changes.push({ field: 'archivedAt', from: employee.archivedAt, to: null });
+  }
+
+  return changes;
+}
+
+/**
+ * Count the loan lines each employee still holds (open, non-deleted loans)
+ *
+ * @param {Object} client - Prisma client or transaction
+ * @param {Array<string>} employeeIds - Employee IDs
+ * @returns {Promise<Map>} Outstanding line count by employee ID (absent when none)
+ */
+async function countOutstandingLines(client, employeeIds) {
+  const lines = await client.loanLine.findMany({
+    where: {
+      returnedAt: null,
+      loan: { employeeId: { in: employeeIds }, status: 'OPEN', deletedAt: null }
+    },
+    select: { loan: { select: { employeeId: true } } }
+  });
+
+  const counts = new Map();
+  for (const line of lines) {
+    counts.set(line.loan.employeeId, (counts.get(line.loan.employeeId) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Compare the rows of an HR file with the employee base
+ *
+ * @param {Array<Object>} rows - Imported rows { firstName, lastName, email?, dept?, company?, rowNumber? }
+ * @returns {Promise<Object>} { totalRows, summary, entries, errors }
+ */
+async function computeDiff(rows) {
+  const employees = await prisma.employee.findMany({ select: EMPLOYEE_SELECT });
+
+  const byEmail = new Map();
+  const byName = new Map();
+  for (const employee of employees) {
+    if (employee.email) byEmail.set(employee.email.toLowerCase(), employee);
+    const key = nameKey(employee.firstName, employee.lastName);
+    byName.set(key, [...(byName.get(key) ?? []), employee]);
+  }
+
+  const entries = [];
+  const errors = [];
+  const matchedIds = new Set();
+  const newRowKeys = new Set();
+  let unchanged = 0;
+
+  rows.forEach((raw, index) => {
+    const rowNumber = raw.rowNumber ?? index + 1;
+    const row = {
+      firstName: cleanCell(raw.firstName),
+      lastName: cleanCell(raw.lastName),
+      email: cleanCell(raw.email)?.toLowerCase() ?? null,
+      dept: cleanCell(raw.dept),
+      company: cleanCell(raw.company)
+    };
+    const name = `${row.firstName ?? ''} ${row.lastName ?? ''}`.trim() || 'Inconnu';
+
+    if (!row.firstName || !row.lastName) {
+      errors.push({ rowNumber, name, error: 'Nom ou Prénom manquant' });
+      return;
+    }
+
+    const { employee, error } = matchEmployee(row, byEmail, byName);
+    if (error) {
+      errors.push({ rowNumber, name, error });
+      return;
+    }
+
+    if (!employee) {
+      const rowKey = row.email ?? nameKey(row.firstName, row.lastName);
+      if (newRowKeys.has(rowKey)) {
+        errors.push({ rowNumber, name, error: 'Employé présent plusieurs fois dans le fichier' });
+        return;
+      }
+      newRowKeys.add(rowKey);
+      entries.push({ key: `row:${index + 1}`, type: 'NEW', rowNumber, name, data: row, changes: [] });
+      return;
+    }
+
+    if (matchedIds.has(employee.id)) {
+      errors.push({ rowNumber, name, error: 'Employé présent plusieurs fois dans le fichier' });
+      return;
+    }
+    matchedIds.add(employee.id);
+
+    const changes = diffEmployee(employee, row);
+    if (changes.length === 0) {
+      unchanged++;
+      return;
+    }
+    entries.push({ key: `employee:${employee.id}`, type: 'CHANGED', rowNumber, name, employeeId: employee.id, data: row, changes });
+  });
+
+  const missing = employees.filter((employee) => !employee.archivedAt && !matchedIds.has(employee.id));
+  const outstandingLines = missing.length > 0
+    ? await countOutstandingLines(prisma, missing.map((employee) => employee.id))
+    : new Map();
+
+  for (const employee of missing) {
+    entries.push({
+      key: `employee:${employee.id}`,
+      type: 'MISSING',
+      name: `${employee.firstName} ${employee.lastName}`,
+      employeeId: employee.id,
+      dept: employee.dept,
+      departureDate: employee.departureDate,
+      outstandingLines: outstandingLines.get(employee.id) ?? 0,
+      changes: []
+    });
+  }
+
+  const countType = (type) => entries.filter((entry) => entry.type === type).length;
+
+  return {
+    totalRows: rows.length,
+    summary: {
+      new: countType('NEW'),
+      changed: countType('CHANGED'),
+      missing: countType('MISSING'),
+      unchanged,
+      errors: errors.length
+    },
+    entries,
+    errors
+  };
+}
+
+/**
+ * Preview the synchronization of an HR file
+ *
+ * Nothing is written. Each entry has a `key` to send back in `acceptedKeys`
+ * when applying.
+ *
+ * @param {Object} data - Preview data
+ * @param {Array<Object>} data.rows - Imported rows { firstName, lastName, email?, dept?, company?, rowNumber? }
+ * @returns {Promise<Object>} { totalRows, summary, entries, errors }
+ *
+ * @example
+ * const diff = await previewEmployeeImport({ rows: [{ firstName: 'Jean', lastName: 'Dupont', dept: 'Woippy' }] });
+ * // diff.entries = [{ key: 'row:1', type: 'NEW', ... }, { key: 'employee:emp1', type: 'MISSING', ... }]
+ */
+export async function previewEmployeeImport(data) {
+  return computeDiff(data.rows);
+}
+
+/**
+ * Apply one accepted entry of the diff
+ *
+ * @param {Object} tx - Transaction client
+ * @param {Object} entry - Diff entry
+ * @param {Function} resolveDepartment - Department resolver bound to the transaction
+ * @returns {Promise<Object>} { outcome, employeeId, before, after }: outcome CREATED,
+ *   UPDATED, ARCHIVED or OFFBOARDING_STARTED, before/after values for the audit trail
+ */
+async function applyEntry(tx, entry, resolveDepartment) {
+  const { data: row } = entry;
+
+  if (entry.type === 'NEW') {
+    const department = row.dept ? await resolveDepartment(row) : null;
+    const employee = await tx.employee.create({
+      data: { firstName: row.firstName, lastName: row.lastName, email: row.email, ...department }
+    });
+    return { outcome: 'CREATED', employeeId: employee.id, before: null, after: employee };
+  }
+
+  if (entry.type === 'CHANGED') {
+    const update = {};
+    for (const change of entry.changes) {
+      if (['firstName', 'lastName', 'email'].includes(change.field)) {
+        update[change.field] = change.to;
+      } else if (change.field === 'archivedAt') {
+        Object.assign(update, { archivedAt: null, departureDate: null });
+      } else {
+        Object.assign(update, await resolveDepartment(row));
+      }
+    }
+    await tx.employee.update({ where: { id: entry.employeeId }, data: update });
+    return {
+      outcome: 'UPDATED',
+      employeeId: entry.employeeId,
+      before: Object.fromEntries(entry.changes.map((change) => [change.field, change.from])),
+      after: {
+        ...Object.fromEntries(entry.changes.map((change) => [change.field, change.to])),
+        ...(update.archivedAt === null && { action: 'UNARCHIVED' })
+      }
+    };
+  }
+
+  // MISSING: checked again in the transaction, a loan may have been opened since the preview
+  const outstandingLines = await countOutstandingLines(tx, [entry.employeeId]);
+  const departureDate = entry.departureDate ?? new Date();
+
+  if (outstandingLines.has(entry.employeeId)) {
+    await tx.employee.update({ where: { id: entry.employeeId }, data: { departureDate } });
+    return {
+      outcome: 'OFFBOARDING_STARTED',
+      employeeId: entry.employeeId,
+      before: { departureDate: entry.departureDate ?? null },
+      after: { action: 'OFFBOARDING_STARTED', departureDate }
+    };
+  }
+
+  const { count: cancelledReservations } = await tx.reservation.updateMany({
+    where: { employeeId: entry.employeeId, status: 'ACTIVE' },
+    data: { status: 'CANCELLED' }
+  });
+  const archived = await tx.employee.update({
+    where: { id: entry.employeeId },
+    data: { departureDate, archivedAt: new Date() }
+  });
+  return {
+    outcome: 'ARCHIVED',
+    employeeId: entry.employeeId,
+    before: { archivedAt: null, departureDate: entry.departureDate ?? null },
+    after: { action: 'ARCHIVED', archivedAt: archived.archivedAt, departureDate, cancelledReservations }
+  };
+}
+
+const OUTCOME_COUNTERS = {
+  CREATED: 'createdCount',
+  UPDATED: 'updatedCount',
+  ARCHIVED: 'archivedCount',
+  OFFBOARDING_STARTED: 'offboardingCount'
+};
+
+/**
+ * Apply the accepted differences of an HR file and store the import report
+ *
+ * The diff is computed again from the same rows: an accepted key missing
+ * from it means the employee base changed since the preview, the import is
+ * refused rather than applied on stale data. Everything runs in one
+ * transaction, departments and companies created on the fly included. Each
+ * applied entry is audited on its employee (source HR_IMPORT).
+ *
+ * @param {Object} data - Import data
+ * @param {string} data.fileName - Name of the HR file (report)
+ * @param {Array<Object>} data.rows - Same rows as the preview
+ * @param {Array<string>} data.acceptedKeys - Keys of the entries to apply
+ * @param {string} userId - User applying the import
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Stored import report
+ * @throws {ValidationError} If an accepted key is not in the diff anymore
+ *
+ * @example
+ * const report = await applyEmployeeImport({ fileName: 'rh-2026-10.xlsx', rows, acceptedKeys: ['row:1'] }, userId, req);
+ * // report.createdCount = 1
+ */
+export async function applyEmployeeImport(data, userId, req) {
+  const diff = await computeDiff(data.rows);
+  const accepted = new Set(data.acceptedKeys);
+
+  const diffKeys = new Set(diff.entries.map((entry) => entry.key));
+  if ([...accepted].some((key) => !diffKeys.has(key))) {
+    throw new ValidationError('La base des employés a changé depuis l\'aperçu, relancez la comparaison');
+  }
+
+  const acceptedEntries = diff.entries.filter((entry) => accepted.has(entry.key));
+  const rejectedEntries = diff.entries.filter((entry) => !accepted.has(entry.key));
+
+  const { report, changes } = await prisma.$transaction(async (tx) => {
+    const resolveDepartment = createDepartmentResolver(tx);
+    const counts = { createdCount: 0, updatedCount: 0, archivedCount: 0, offboardingCount: 0 };
+    const applied = [];
+    const changes = [];
+
+    for (const entry of acceptedEntries) {
+      const change = await applyEntry(tx, entry, resolveDepartment);
+      counts[OUTCOME_COUNTERS[change.outcome]]++;
+      applied.push({ ...entry, outcome: change.outcome });
+      changes.push(change);
+    }
+
+    const created = await tx.employeeImport.create({
+      data: {
+        fileName: data.fileName,
+        totalRows: diff.totalRows,
+        ...counts,
+        rejectedCount: rejectedEntries.length,
+        errorCount: diff.errors.length,
+        report: { applied, rejected: rejectedEntries, errors: diff.errors },
+        createdById: userId
+      }
+    });
+
+    return { report: created, changes };
+  }, APPLY_TRANSACTION_OPTIONS);
+
+  await logCreate('EmployeeImport', report.id, req, {
+    fileName: report.fileName,
+    createdCount: report.createdCount,
+    updatedCount: report.updatedCount,
+    archivedCount: report.archivedCount,
+    offboardingCount: report.offboardingCount
+  });
+  for (const { outcome, employeeId, before, after } of changes) {
+    if (outcome === 'CREATED') {
+      await logCreate('Employee', employeeId, req, { ...after, source: 'HR_IMPORT', importId: report.id });
+    } else {
+      await logUpdate('Employee', employeeId, req, before, { ...after, source: 'HR_IMPORT', importId: report.id });
+    }
+  }
+
+  if (acceptedEntries.length > 0) {
+    await invalidateEntity('employees');
+  }
+
+  return report;
+}
+
+/**
+ * Get the import reports, most recent first
+ *
+ * @param {Object} options - Pagination options
+ * @returns {Promise<Object>} Paginated reports (counters only)
+ */
+export async function getEmployeeImports(options = {}) {
+  const { page = 1, pageSize = 20 } = options;
+
+  return executePaginatedQuery(prisma.employeeImport, {
+    select: IMPORT_LIST_SELECT,
+    orderBy: { createdAt: 'desc' },
+    page,
+    pageSize
+  });
+}
+
+/**
+ * Get an import report with its applied, rejected and error entries
+ *
+ * @param {string} id - Import ID
+ * @returns {Promise<Object>} Import report
+ * @throws {NotFoundError} If the report doesn't exist
+ */
+export async function getEmployeeImportById(id) {
+  return findOneOrFail('employeeImport', { id }, {
+    include: { createdBy: { select: USER_SELECT } },
+    errorMessage: 'Import non trouvé'
+  });
+}
+
+export default {
+  previewEmployeeImport,
+  applyEmployeeImport,
+  getEmployeeImports,
+  getEmployeeImportById
+};
@@ -4,8 +4,13 @@
  * This service handles:
  * - Employee CRUD operations
  * - Email uniqueness validation
+ * - Bulk creation and upsert matched on email (Excel import, directory sync)
  * - Loan history tracking
- * - Deletion constraints (prevents deletion if employee has loans)
+ * - Archiving / reactivation (archived employees are hidden from pickers
+ *   and listings by default, their history is kept)
+ * - Purge (hard delete) of records without any history, admin only
+ * - Offboarding: departure date, checklist of outstanding loan lines,
+ *   archiving once everything is returned, transferred or written off
  */
 
 import prisma from '../config/database.js';
@@ -16,6 +21,15 @@ import { executePaginatedQuery, buildOrderBy, validateSortParams } from '../util
 
 const EMPLOYEE_SORT_FIELDS = ['lastName', 'firstName', 'email', 'dept', 'createdAt'];
 import { getCached, invalidateEntity, generateKey, TTL } from './cache.service.js';
+import { createDepartmentResolver } from './departments.service.js';
+
+const DEPARTMENT_SELECT = {
+  select: {
+    id: true,
+    name: true,
+    company: { select: { id: true, name: true } }
+  }
+};
 
 /**
  * Get all employees with loan count
@@ -59,7 +73,10 @@ export async function getAllEmployees() {
  *
  * @param {Object} options - Query options
  * @param {string} [options.search] - Search in first name, last name, email, or dept
- * @param {string} [options.dept] - Filter by department
+ * @param {string} [options.dept] - Filter by department name (partial match)
+ * @param {string} [options.departmentId] - Filter by department
+ * @param {string} [options.companyId] - Filter by company of the department
+ * @param {boolean} [options.includeArchived=false] - Also return archived employees
  * @param {number} [options.page=1] - Page number
  * @param {number} [options.pageSize=20] - Items per page
  * @param {string} [options.sortBy='createdAt'] - Field to sort by
@@ -70,6 +87,9 @@ export async function getAllEmployeesPaginated(options = {}) {
   const {
     search,
     dept,
+    departmentId,
+    companyId,
+    includeArchived = false,
     page = 1,
     pageSize = 20,
     sortBy = 'createdAt',
@@ -77,13 +97,17 @@ export async function getAllEmployeesPaginated(options = {}) {
   } = options;
 
   // Generate cache key with filters
-  const cacheKey = generateKey('employees', `list:p${page}:s${pageSize}:${search || ''}:${dept || ''}:${sortBy}:${sortOrder}`);
+  const cacheKey = generateKey('employees', `list:p${page}:s${pageSize}:${search || ''}:${dept || ''}:${departmentId || ''}:${companyId || ''}:${includeArchived ? 'all' : 'active'}:${sortBy}:${sortOrder}`);
 
   return getCached(
     cacheKey,
     async () => {
       const where = {};
 
+      if (!includeArchived) {
+        where.archivedAt = null;
+      }
+
       if (search) {
         where.OR = [
           { firstName: { contains: search, mode: 'insensitive' } },
@@ -97,6 +121,14 @@ export async function getAllEmployeesPaginated(options = {}) {
         where.dept = { contains: dept, mode: 'insensitive' };
       }
 
+      if (departmentId) {
+        where.departmentId = departmentId;
+      }
+
+      if (companyId) {
+        where.department = { companyId };
+      }
+
       const validated = validateSortParams(sortBy, sortOrder, EMPLOYEE_SORT_FIELDS);
       const orderBy = buildOrderBy(validated.sortBy, validated.sortOrder);
 
@@ -104,6 +136,7 @@ export async function getAllEmployeesPaginated(options = {}) {
         where,
         orderBy,
         include: {
+          department: DEPARTMENT_SELECT,
           _count: {
             select: { loans: true }
           }
@@ -134,6 +167,7 @@ export async function getAllEmployeesPaginated(options = {}) {
 export async function getEmployeeById(id) {
   const employee = await findOneOrFail('employee', { id }, {
     include: {
+      department: DEPARTMENT_SELECT,
       loans: {
         orderBy: { openedAt: 'desc' },
         take: 10  // Only fetch 10 most recent loans
@@ -148,6 +182,25 @@ export async function getEmployeeById(id) {
   return employee;
 }
 
+/**
+ * Copy the name of the linked department into the denormalized dept field
+ *
+ * @param {Object} data - Employee data, possibly with departmentId
+ * @returns {Promise<Object>} Data with dept set when departmentId is given
+ * @throws {NotFoundError} If the department doesn't exist
+ */
+async function withDepartmentName(data) {
+  if (data.departmentId === undefined) return data;
+  if (data.departmentId === null) return { ...data, dept: null };
+
+  const department = await prisma.department.findUnique({ where: { id: data.departmentId } });
+  if (!department) {
+    throw new NotFoundError('Département non trouvé');
+  }
+
+  return { ...data, dept: department.name };
+}
+
 /**
  * Create a new employee
  *
@@ -157,17 +210,18 @@ export async function getEmployeeById(id) {
  * @param {string} data.firstName - Employee first name
  * @param {string} data.lastName - Employee last name
  * @param {string} data.email - Employee email (must be unique)
- * @param {string} [data.dept] - Department or agency (optional)
+ * @param {string|null} [data.departmentId] - Department or agency (optional)
  * @param {Object} req - Express request object (for audit trail)
  * @returns {Promise<Object>} Created employee object
  * @throws {ConflictError} If email already exists
+ * @throws {NotFoundError} If the department doesn't exist
  *
  * @example
  * const employee = await createEmployee({
  *   firstName: 'Jean',
  *   lastName: 'Dupont',
  *   email: 'jean.dupont@groupetilly.com',
- *   dept: 'Woippy'
+ *   departmentId: 'deptWoippyId'
  * }, req);
  */
 export async function createEmployee(data, req) {
@@ -179,7 +233,7 @@ export async function createEmployee(data, req) {
   }
 
   const employee = await prisma.employee.create({
-    data
+    data: await withDepartmentName(data)
   });
 
   // Audit trail
@@ -196,13 +250,16 @@ export async function createEmployee(data, req) {
  *
  * Creates multiple employees in a single transaction.
  * Skips employees with duplicate emails.
+ * Free-text department and company names are matched to existing entities
+ * (case-insensitive) or created, so the import never multiplies spellings.
  *
- * @param {Array<Object>} employees - Array of employee data
+ * @param {Array<Object>} employees - Array of employee data, with optional
+ *   dept and company names
  * @returns {Promise<Object>} Result with created, skipped, and error counts
  *
  * @example
  * const result = await bulkCreateEmployees([
- *   { firstName: 'Jean', lastName: 'Dupont', email: 'jean@example.com' },
+ *   { firstName: 'Jean', lastName: 'Dupont', email: 'jean@example.com', dept: 'Woippy', company: 'Tilly' },
  *   { firstName: 'Marie', lastName: 'Martin', email: 'marie@example.com' }
  * ]);
  * // result: { created: 2, skipped: 0, errors: [] }
@@ -225,6 +282,7 @@ export async function bulkCreateEmployees(employees) {
   });
 
   const existingEmails = new Set(existingEmployees.map(emp => emp.email.toLowerCase()));
+  const resolveDepartment = createDepartmentResolver();
 
   // Process each employee
   for (let i = 0; i < employees.length; i++) {
@@ -237,8 +295,10 @@ export async function bulkCreateEmployees(employees) {
         continue;
       }
 
-      // Create employee
-      await prisma.employee.create({ data });
+      // Create employee, linked to its department
+      const { company, ...fields } = data;
+      const department = await resolveDepartment({ dept: fields.dept, company });
+      await prisma.employee.create({ data: { ...fields, ...department } });
       result.created++;
 
       // Add to existing emails set to avoid duplicates within this batch
@@ -262,6 +322,170 @@ export async function bulkCreateEmployees(employees) {
   return result;
 }
 
+/**
+ * Disable an employee flagged inactive by an external source
+ *
+ * Archives the employee, or only starts the offboarding (departure date)
+ * while loan lines are still outstanding.
+ *
+ * @param {Object} employee - Existing employee
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<boolean>} True if the employee was changed
+ */
+async function disableEmployee(employee, req) {
+  if (employee.archivedAt) return false;
+
+  const outstandingLines = await findOutstandingLines(prisma, employee.id);
+  if (outstandingLines.length > 0) {
+    if (employee.departureDate) return false;
+    const updated = await prisma.employee.update({
+      where: { id: employee.id },
+      data: { departureDate: new Date() }
+    });
+    await logUpdate('Employee', employee.id, req,
+      { departureDate: null },
+      { action: 'OFFBOARDING_STARTED', departureDate: updated.departureDate, source: 'DIRECTORY_SYNC' }
+    );
+    return true;
+  }
+
+  const { employee: archived, cancelledReservations } = await archiveInTransaction(employee.id, 'Archivage impossible');
+  await logUpdate('Employee', employee.id, req,
+    { archivedAt: null },
+    { action: 'ARCHIVED', archivedAt: archived.archivedAt, cancelledReservations, source: 'DIRECTORY_SYNC' }
+  );
+  return true;
+}
+
+/**
+ * Create or update employees matched on their email
+ *
+ * Used by the directory synchronization. Departments and companies are
+ * resolved like in bulkCreateEmployees. Existing employees get their name,
+ * department and manager updated, blank values never clear a field. An
+ * employee flagged disabled is archived, or has its offboarding started while
+ * loan lines are outstanding. Archived employees still listed as active are
+ * left untouched and counted in `archived`: only the app decides to
+ * reactivate someone (unarchiveEmployee).
+ *
+ * @param {Array<Object>} employees - Employee data: firstName, lastName,
+ *   email (required), dept and company names, managerId, disabled flag
+ * @param {Object} [req] - Express request object of a manual run (for audit trail)
+ * @returns {Promise<Object>} Result with created, updated, disabled,
+ *   unchanged, archived and skipped counts, and errors
+ *
+ * @example
+ * const result = await upsertEmployees([
+ *   { firstName: 'Jean', lastName: 'Dupont', email: 'jean@example.com', dept: 'Woippy', company: 'Tilly' },
+ *   { firstName: 'Marie', lastName: 'Martin', email: 'marie@example.com', disabled: true }
+ * ]);
+ * // result: { created: 1, updated: 0, disabled: 1, unchanged: 0, archived: 0, skipped: 0, errors: [] }
+ */
+export async function upsertEmployees(employees, req) {
+  const result = {
+    created: 0,
+    updated: 0,
+    disabled: 0,
+    unchanged: 0,
+    archived: 0,
+    skipped: 0,
+    errors: []
+  };
+
+  const existingEmployees = await prisma.employee.findMany({
+    where: {
+      email: {
+        in: employees.map(emp => emp.email).filter(Boolean),
+        mode: 'insensitive'
+      }
+    }
+  });
+
+  const employeesByEmail = new Map(existingEmployees.map(emp => [emp.email.toLowerCase(), emp]));
+  const processedEmails = new Set();
+  const resolveDepartment = createDepartmentResolver();
+
+  for (let i = 0; i < employees.length; i++) {
+    const { company, disabled = false, ...data } = employees[i];
+
+    try {
+      if (!data.email) {
+        throw new ValidationError('Email manquant');
+      }
+
+      const emailKey = data.email.toLowerCase();
+      if (processedEmails.has(emailKey)) {
+        result.skipped++;
+        continue;
+      }
+      processedEmails.add(emailKey);
+
+      const existing = employeesByEmail.get(emailKey);
+
+      if (!existing) {
+        // A disabled account never becomes a new employee
+        if (disabled) {
+          result.skipped++;
+          continue;
+        }
+        const department = await resolveDepartment({ dept: data.dept, company });
+        const employee = await prisma.employee.create({ data: { ...data, ...department } });
+        await logCreate('Employee', employee.id, req, employee);
+        result.created++;
+        continue;
+      }
+
+      if (disabled) {
+        result[await disableEmployee(existing, req) ? 'disabled' : 'unchanged']++;
+        continue;
+      }
+
+      if (existing.archivedAt) {
+        result.archived++;
+        continue;
+      }
+
+      const changes = {};
+      for (const field of ['firstName', 'lastName']) {
+        if (data[field] && data[field] !== existing[field]) {
+          changes[field] = data[field];
+        }
+      }
+      const department = await resolveDepartment({ dept: data.dept, company });
+      if (department && department.departmentId !== existing.departmentId) {
+        Object.assign(changes, department);
+      }
+      if (data.managerId && data.managerId !== existing.managerId) {
+        changes.managerId = data.managerId;
+      }
+
+      if (Object.keys(changes).length === 0) {
+        result.unchanged++;
+        continue;
+      }
+
+      await prisma.employee.update({ where: { id: existing.id }, data: changes });
+      await logUpdate('Employee', existing.id, req,
+        Object.fromEntries(Object.keys(changes).map(field => [field, existing[field] ?? null])),
+        { ...changes, source: 'DIRECTORY_SYNC' }
+      );
+      result.updated++;
+    } catch (error) {
+      result.errors.push({
+        row: i + 1,
+        data: employees[i],
+        error: error.message
+      });
+    }
+  }
+
+  if (result.created + result.updated + result.disabled > 0) {
+    await invalidateEntity('employees');
+  }
+
+  return result;
+}
+
 /**
  * Update an existing employee
  *
@@ -272,14 +496,14 @@ export async function bulkCreateEmployees(employees) {
  * @param {string} [data.firstName] - Updated first name
  * @param {string} [data.lastName] - Updated last name
  * @param {string} [data.email] - Updated email (must be unique)
- * @param {string} [data.dept] - Updated department
+ * @param {string|null} [data.departmentId] - Updated department
  * @param {Object} req - Express request object (for audit trail)
  * @returns {Promise<Object>} Updated employee object
- * @throws {NotFoundError} If employee doesn't exist
+ * @throws {NotFoundError} If employee or department doesn't exist
  * @throws {ConflictError} If new email already exists
  *
  * @example
- * const updated = await updateEmployee('empId123', { dept: 'Paris' }, req);
+ * const updated = await updateEmployee('empId123', { departmentId: 'deptParisId' }, req);
  */
 export async function updateEmployee(id, data, req) {
   // Check if employee exists
@@ -297,7 +521,7 @@ export async function updateEmployee(id, data, req) {
 
   const employee = await prisma.employee.update({
     where: { id },
-    data
+    data: await withDepartmentName(data)
   });
 
   // Audit trail
@@ -310,29 +534,31 @@ export async function updateEmployee(id, data, req) {
 }
 
 /**
- * Delete an employee
+ * Purge an employee (hard delete)
  *
- * IMPORTANT: Employees with ANY loan history (active or closed) cannot be deleted.
- * This preserves data integrity and audit trail.
+ * Reserved to administrators for records created by mistake. Employees with
+ * ANY loan (active, closed or in the trash) or reservation cannot be purged:
+ * archive them instead, the record can then be reactivated.
  *
  * @param {string} id - Employee ID to delete
  * @param {Object} req - Express request object (for audit trail)
  * @returns {Promise<Object>} Success message
  * @throws {NotFoundError} If employee doesn't exist
- * @throws {ValidationError} If employee has any loans
+ * @throws {ValidationError} If employee has any loan or reservation
  *
  * @example
  * await deleteEmployee('empId123', req);
  */
 export async function deleteEmployee(id, req) {
-  // Check if employee exists and fetch active loans (exclude soft-deleted)
+  // Soft-deleted loans are history too: they are not purged along with the employee
   const existingEmployee = await prisma.employee.findUnique({
     where: { id },
     include: {
       loans: {
-        where: {
-          deletedAt: null  // Only count non-deleted loans
-        }
+        select: { id: true, status: true, deletedAt: true }
+      },
+      _count: {
+        select: { reservations: true }
       }
     }
   });
@@ -341,11 +567,13 @@ export async function deleteEmployee(id, req) {
     throw new NotFoundError('Employé non trouvé');
   }
 
-  // Business rule: Cannot delete employees with ANY active loan history
-  // Soft-deleted loans are excluded from this check
-  if (existingEmployee.loans.length > 0) {
-    const activeLoans = existingEmployee.loans.filter(loan => loan.status === 'OPEN').length;
-    const closedLoans = existingEmployee.loans.filter(loan => loan.status === 'CLOSED').length;
+  const loans = existingEmployee.loans.filter(loan => !loan.deletedAt);
+  const deletedLoans = existingEmployee.loans.length - loans.length;
+
+  // Business rule: Cannot purge employees with ANY loan history
+  if (loans.length > 0) {
+    const activeLoans = loans.filter(loan => loan.status === 'OPEN').length;
+    const closedLoans = loans.filter(loan => loan.status === 'CLOSED').length;
 
     // Provide detailed error message explaining why deletion failed
     if (activeLoans > 0 && closedLoans > 0) {
@@ -358,52 +586,317 @@ export async function deleteEmployee(id, req) {
       );
     } else {
       throw new ValidationError(
-        `Impossible de supprimer cet employé car il a ${closedLoans} prêt(s) dans l'historique. Les employés avec un historique de prêts ne peuvent pas être supprimés.`
+        `Impossible de supprimer cet employé car il a ${closedLoans} prêt(s) dans l'historique. Archivez-le plutôt.`
       );
     }
   }
+  if (deletedLoans > 0) {
+    throw new ValidationError(
+      `Impossible de supprimer cet employé car il a ${deletedLoans} prêt(s) dans la corbeille. Archivez-le plutôt.`
+    );
+  }
+  if (existingEmployee._count.reservations > 0) {
+    throw new ValidationError(
+      `Impossible de supprimer cet employé car il a ${existingEmployee._count.reservations} réservation(s). Archivez-le plutôt.`
+    );
+  }
+
+  await prisma.employee.delete({ where: { id } });
+
+  // Audit trail
+  await logDelete('Employee', id, req, existingEmployee);
+
+  // Invalidate cache - Phase 3.2
+  await invalidateEntity('employees');
+
+  return { message: 'Employé supprimé avec succès' };
+}
+
+/**
+ * Archive an employee without offboarding
+ *
+ * Replaces the hard delete for people who should no longer appear in the
+ * pickers (duplicate record, contractor gone, etc.). Same guard as the
+ * offboarding completion: nothing may still be on loan.
+ *
+ * @param {string} id - Employee ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Archived employee
+ * @throws {NotFoundError} If employee doesn't exist
+ * @throws {ValidationError} If already archived or lines are still outstanding
+ *
+ * @example
+ * await archiveEmployee('empId123', req);
+ */
+export async function archiveEmployee(id, req) {
+  const existingEmployee = await findOneOrFail('employee', { id }, {
+    errorMessage: 'Employé non trouvé'
+  });
+
+  if (existingEmployee.archivedAt) {
+    throw new ValidationError('Cet employé est déjà archivé');
+  }
+
+  const { employee, cancelledReservations } = await archiveInTransaction(id, 'Archivage impossible');
+
+  await logUpdate('Employee', id, req,
+    { archivedAt: null },
+    { action: 'ARCHIVED', archivedAt: employee.archivedAt, cancelledReservations }
+  );
+
+  await invalidateEntity('employees');
+
+  return employee;
+}
+
+/**
+ * Reactivate an archived employee (rehire, archived by mistake)
+ *
+ * The departure date is cleared along with the archive flag, the loan
+ * history stays attached to the same record.
+ *
+ * @param {string} id - Employee ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Reactivated employee
+ * @throws {NotFoundError} If employee doesn't exist
+ * @throws {ValidationError} If the employee is not archived
+ *
+ * @example
+ * await unarchiveEmployee('empId123', req);
+ */
+export async function unarchiveEmployee(id, req) {
+  const existingEmployee = await findOneOrFail('employee', { id }, {
+    errorMessage: 'Employé non trouvé'
+  });
+
+  if (!existingEmployee.archivedAt) {
+    throw new ValidationError('Cet employé n\'est pas archivé');
+  }
 
-  // Delete all soft-deleted loans for this employee
-  // Must delete in cascade: LoanLines -> Loans -> Employee
-  // This is necessary because foreign key constraints prevent deletion
-  const softDeletedLoans = await prisma.loan.findMany({
+  const employee = await prisma.employee.update({
+    where: { id },
+    data: { archivedAt: null, departureDate: null }
+  });
+
+  await logUpdate('Employee', id, req,
+    { archivedAt: existingEmployee.archivedAt, departureDate: existingEmployee.departureDate },
+    { action: 'UNARCHIVED', archivedAt: null, departureDate: null }
+  );
+
+  await invalidateEntity('employees');
+
+  return employee;
+}
+
+const OFFBOARDING_MODEL_SELECT = {
+  select: { id: true, type: true, brand: true, modelName: true }
+};
+
+/**
+ * Fetch the loan lines an employee still holds (open, non-deleted loans)
+ *
+ * @param {Object} client - Prisma client or transaction
+ * @param {string} employeeId - Employee ID
+ * @returns {Promise<Array>} Outstanding lines with their loan and item, oldest first
+ */
+function findOutstandingLines(client, employeeId) {
+  return client.loanLine.findMany({
     where: {
-      employeeId: id,
-      deletedAt: { not: null }
+      returnedAt: null,
+      loan: { employeeId, status: 'OPEN', deletedAt: null }
     },
-    select: { id: true }
+    include: {
+      loan: { select: { id: true, openedAt: true, dueAt: true } },
+      assetItem: {
+        select: { id: true, assetTag: true, serial: true, status: true, assetModel: OFFBOARDING_MODEL_SELECT }
+      },
+      stockItem: {
+        select: { id: true, assetModel: OFFBOARDING_MODEL_SELECT }
+      }
+    },
+    orderBy: { addedAt: 'asc' }
   });
+}
 
-  // Use transaction to ensure atomicity - Phase 3.1
-  // All deletions must succeed together (LoanLines -> Loans -> Employee)
-  await prisma.$transaction(async (tx) => {
-    if (softDeletedLoans.length > 0) {
-      const loanIds = softDeletedLoans.map(loan => loan.id);
+/**
+ * Archive an employee once nothing is on loan anymore
+ *
+ * The check runs in the same serializable transaction as the archiving, so a
+ * line added meanwhile aborts it. Active reservations are cancelled.
+ *
+ * @param {string} id - Employee ID
+ * @param {string} refusal - Start of the error message when lines remain
+ * @returns {Promise<Object>} { employee, cancelledReservations }
+ * @throws {ValidationError} If lines are still outstanding
+ */
+function archiveInTransaction(id, refusal) {
+  return prisma.$transaction(async (tx) => {
+    const outstandingLines = await findOutstandingLines(tx, id);
+    if (outstandingLines.length > 0) {
+      throw new ValidationError(
+        `${refusal} : ${outstandingLines.length} article(s) à restituer, transférer ou passer en perte`
+      );
+    }
 
-      // First, delete all LoanLines for these soft-deleted loans
-      await tx.loanLine.deleteMany({
-        where: {
-          loanId: { in: loanIds }
-        }
-      });
+    const { count } = await tx.reservation.updateMany({
+      where: { employeeId: id, status: 'ACTIVE' },
+      data: { status: 'CANCELLED' }
+    });
 
-      // Then, delete the soft-deleted loans themselves
-      await tx.loan.deleteMany({
-        where: {
-          id: { in: loanIds }
-        }
-      });
-    }
+    const archived = await tx.employee.update({
+      where: { id },
+      data: { archivedAt: new Date() }
+    });
 
-    // Finally, delete the employee
-    await tx.employee.delete({ where: { id } });
+    return { employee: archived, cancelledReservations: count };
+  }, { isolationLevel: 'Serializable' });
+}
+
+/**
+ * Get the offboarding checklist of an employee
+ *
+ * Lists every line the employee still holds across their open loans. Each
+ * line must be returned, transferred to another employee or written off
+ * (loans routes) before the departure can be completed.
+ *
+ * @param {string} id - Employee ID
+ * @returns {Promise<Object>} { employee, outstandingLines, activeReservations, canComplete }
+ * @throws {NotFoundError} If employee doesn't exist
+ *
+ * @example
+ * const { outstandingLines, canComplete } = await getEmployeeOffboarding('empId123');
+ */
+export async function getEmployeeOffboarding(id) {
+  const employee = await findOneOrFail('employee', { id }, {
+    errorMessage: 'Employé non trouvé'
   });
 
-  // Audit trail
-  await logDelete('Employee', id, req, existingEmployee);
+  const [outstandingLines, activeReservations] = await Promise.all([
+    findOutstandingLines(prisma, id),
+    prisma.reservation.count({ where: { employeeId: id, status: 'ACTIVE' } })
+  ]);
+
+  return {
+    employee,
+    outstandingLines,
+    activeReservations,
+    canComplete: !!employee.departureDate && !employee.archivedAt && outstandingLines.length === 0
+  };
+}
+
+/**
+ * Start (or reschedule) the offboarding of an employee
+ *
+ * Records the departure date; the employee keeps borrowing normally until
+ * the departure is completed.
+ *
+ * @param {string} id - Employee ID
+ * @param {Object} data - Offboarding data
+ * @param {Date} data.departureDate - Last working day
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Offboarding checklist
+ * @throws {NotFoundError} If employee doesn't exist
+ * @throws {ValidationError} If the employee has already left
+ */
+export async function startEmployeeOffboarding(id, data, req) {
+  const existingEmployee = await findOneOrFail('employee', { id }, {
+    errorMessage: 'Employé non trouvé'
+  });
+
+  if (existingEmployee.archivedAt) {
+    throw new ValidationError('Le départ de cet employé est déjà finalisé');
+  }
+
+  await prisma.employee.update({
+    where: { id },
+    data: { departureDate: data.departureDate }
+  });
+
+  await logUpdate('Employee', id, req,
+    { departureDate: existingEmployee.departureDate },
+    { action: 'OFFBOARDING_STARTED', departureDate: data.departureDate }
+  );
 
-  // Invalidate cache - Phase 3.2
   await invalidateEntity('employees');
 
-  return { message: 'Employé supprimé avec succès' };
+  return getEmployeeOffboarding(id);
+}
+
+/**
+ * Cancel a pending offboarding (the employee stays)
+ *
+ * @param {string} id - Employee ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated employee
+ * @throws {NotFoundError} If employee doesn't exist
+ * @throws {ValidationError} If no offboarding is pending
+ */
+export async function cancelEmployeeOffboarding(id, req) {
+  const existingEmployee = await findOneOrFail('employee', { id }, {
+    errorMessage: 'Employé non trouvé'
+  });
+
+  if (existingEmployee.archivedAt) {
+    throw new ValidationError('Le départ de cet employé est déjà finalisé');
+  }
+  if (!existingEmployee.departureDate) {
+    throw new ValidationError('Aucun départ en cours pour cet employé');
+  }
+
+  const employee = await prisma.employee.update({
+    where: { id },
+    data: { departureDate: null }
+  });
+
+  await logUpdate('Employee', id, req,
+    { departureDate: existingEmployee.departureDate },
+    { action: 'OFFBOARDING_CANCELLED', departureDate: null }
+  );
+
+  await invalidateEntity('employees');
+
+  return employee;
+}
+
+/**
+ * Complete the offboarding: the employee is marked as departed
+ *
+ * Refused while a line is still outstanding (see archiveInTransaction).
+ * Active reservations of the employee are cancelled. The employee and their
+ * loan history are kept; departed employees are hidden from the autocomplete.
+ *
+ * @param {string} id - Employee ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Archived employee
+ * @throws {NotFoundError} If employee doesn't exist
+ * @throws {ValidationError} If no offboarding is pending, already completed
+ *   or lines are still outstanding
+ */
+export async function completeEmployeeOffboarding(id, req) {
+  const existingEmployee = await findOneOrFail('employee', { id }, {
+    errorMessage: 'Employé non trouvé'
+  });
+
+  if (existingEmployee.archivedAt) {
+    throw new ValidationError('Le départ de cet employé est déjà finalisé');
+  }
+  if (!existingEmployee.departureDate) {
+    throw new ValidationError('Renseignez d\'abord la date de départ de l\'employé');
+  }
+
+  const { employee, cancelledReservations } = await archiveInTransaction(id, 'Départ impossible');
+
+  await logUpdate('Employee', id, req,
+    { archivedAt: null },
+    {
+      action: 'OFFBOARDING_COMPLETED',
+      departureDate: employee.departureDate,
+      archivedAt: employee.archivedAt,
+      cancelledReservations
+    }
+  );
+
+  await invalidateEntity('employees');
+
+  return employee;
 }
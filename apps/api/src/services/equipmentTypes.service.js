@@ -5,6 +5,7 @@
  */
 import prisma from '../config/database.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { invalidateEntity } from './cache.service.js';
 
 /**
  * Get all equipment types
@@ -45,11 +46,12 @@ export async function getEquipmentTypeById(id) {
  *
  * @param {Object} data - Equipment type data
  * @param {string} data.name - Type name
+ * @param {number|null} [data.depreciationYears] - Straight-line depreciation period
  * @returns {Promise<Object>} Created equipment type
  * @throws {ValidationError} If name already exists
  */
 export async function createEquipmentType(data) {
-  const { name } = data;
+  const { name, depreciationYears } = data;
 
   // Check if name already exists
   const existing = await prisma.equipmentType.findUnique({
@@ -62,10 +64,15 @@ export async function createEquipmentType(data) {
 
   const type = await prisma.equipmentType.create({
     data: {
-      name: name.trim()
+      name: name.trim(),
+      ...(depreciationYears !== undefined && { depreciationYears })
     }
   });
 
+  if (depreciationYears) {
+    await invalidateEntity('asset_items');
+  }
+
   return type;
 }
 
@@ -75,12 +82,13 @@ export async function createEquipmentType(data) {
  * @param {string} id - Equipment type ID
  * @param {Object} data - Updated equipment type data
  * @param {string} [data.name] - New type name
+ * @param {number|null} [data.depreciationYears] - New depreciation period, null to disable
  * @returns {Promise<Object>} Updated equipment type
  * @throws {NotFoundError} If equipment type not found
  * @throws {ValidationError} If new name already exists
  */
 export async function updateEquipmentType(id, data) {
-  const { name } = data;
+  const { name, depreciationYears } = data;
 
   // Check if type exists
   const existingType = await prisma.equipmentType.findUnique({
@@ -105,10 +113,16 @@ export async function updateEquipmentType(id, data) {
   const updatedType = await prisma.equipmentType.update({
     where: { id },
     data: {
-      ...(name && { name: name.trim() })
+      ...(name && { name: name.trim() }),
+      ...(depreciationYears !== undefined && { depreciationYears })
     }
   });
 
+  // Asset items carry their current value, computed from the period
+  if (depreciationYears !== undefined && depreciationYears !== existingType.depreciationYears) {
+    await invalidateEntity('asset_items');
+  }
+
   return updatedType;
 }
 
@@ -151,4 +165,19 @@ export async function deleteEquipmentType(id) {
   });
 
   return deletedType;
-}
\ No newline at end of file
+}
+
+/**
+ * Get the depreciation period of every equipment type
+ *
+ * Asset models reference their type by name.
+ *
+ * @returns {Promise<Map<string, number|null>>} Depreciation period in years per type name
+ */
+export async function getDepreciationYearsByType() {
+  const types = await prisma.equipmentType.findMany({
+    select: { name: true, depreciationYears: true }
+  });
+
+  return new Map(types.map((type) => [type.name, type.depreciationYears]));
+}
@@ -5,8 +5,10 @@
  * - Employés (avec filtres nom, département)
  * - Équipements (modèles et articles, avec filtres statut, type)
  * - Stock (avec filtres quantité faible)
+ * - Liste de réapprovisionnement (une feuille par fournisseur)
  * - Prêts (avec filtres statut, dates)
- * - Dashboard complet (multi-feuilles)
+ * - Registre des sorties (équipements réformés, avec filtres dates, motif)
+ * - Dashboard complet (multi-feuilles, dont la valorisation du parc)
  *
  * Features:
  * - Export avec filtres appliqués
@@ -17,17 +19,22 @@
 
 import XLSX from 'xlsx'
 import prisma from '../config/database.js'
+import { getFleetValuation } from './dashboard.service.js'
+import { getReorderList } from './stockItems.service.js'
+import { isBelowMinimum } from '../utils/stockLevels.js'
 
 /**
  * Export employés vers Excel
  *
  * @param {Object} filters - Filtres optionnels
  * @param {string} filters.search - Recherche nom/prénom/email
- * @param {string} filters.dept - Filtrer par département
+ * @param {string} filters.dept - Filtrer par nom de département
+ * @param {string} filters.departmentId - Filtrer par département
+ * @param {string} filters.companyId - Filtrer par société
  * @returns {Buffer} Fichier Excel en buffer
  */
 export async function exportEmployees(filters = {}) {
-  const { search, dept } = filters
+  const { search, dept, departmentId, companyId } = filters
 
   const where = {
     ...(search && {
@@ -38,6 +45,8 @@ export async function exportEmployees(filters = {}) {
       ],
     }),
     ...(dept && { dept: { contains: dept, mode: 'insensitive' } }),
+    ...(departmentId && { departmentId }),
+    ...(companyId && { department: { companyId } }),
   }
 
   const employees = await prisma.employee.findMany({
@@ -48,6 +57,7 @@ export async function exportEmployees(filters = {}) {
       firstName: true,
       email: true,
       dept: true,
+      department: { select: { company: { select: { name: true } } } },
       createdAt: true,
     },
   })
@@ -58,6 +68,7 @@ export async function exportEmployees(filters = {}) {
     Prénom: emp.firstName,
     Email: emp.email,
     Département: emp.dept || 'N/A',
+    Société: emp.department?.company?.name || 'N/A',
     'Date création': formatDate(emp.createdAt),
   }))
 
@@ -70,6 +81,7 @@ export async function exportEmployees(filters = {}) {
     { wch: 20 }, // Prénom
     { wch: 30 }, // Email
     { wch: 20 }, // Département
+    { wch: 20 }, // Société
     { wch: 15 }, // Date
   ]
   worksheet['!cols'] = colWidths
@@ -140,7 +152,7 @@ export async function exportAssetModels(filters = {}) {
  * Export articles d'équipement vers Excel
  *
  * @param {Object} filters - Filtres optionnels
- * @param {string} filters.status - Filtrer par statut (EN_STOCK, PRETE, HS, REPARATION)
+ * @param {string} filters.status - Filtrer par statut (EN_STOCK, PRETE, HS, REPARATION, REFORME)
  * @param {string} filters.type - Filtrer par type d'équipement
  * @param {string} filters.assetModelId - Filtrer par modèle spécifique
  * @returns {Buffer} Fichier Excel en buffer
@@ -169,6 +181,11 @@ export async function exportAssetItems(filters = {}) {
           modelName: true,
         },
       },
+      supplier: {
+        select: {
+          name: true,
+        },
+      },
     },
   })
 
@@ -177,6 +194,7 @@ export async function exportAssetItems(filters = {}) {
     PRETE: 'Prêté',
     HS: 'Hors service',
     REPARATION: 'En réparation',
+    REFORME: 'Réformé',
   }
 
   const data = items.map((item) => ({
@@ -186,6 +204,11 @@ export async function exportAssetItems(filters = {}) {
     Marque: item.assetModel.brand,
     Modèle: item.assetModel.modelName,
     Statut: statusLabels[item.status],
+    Fournisseur: item.supplier?.name || '',
+    'N° facture': item.invoiceNumber || '',
+    "Date d'achat": item.purchaseDate ? formatDate(item.purchaseDate) : '',
+    "Prix d'achat (€)": formatCents(item.purchasePriceCents),
+    'Fin de garantie': item.warrantyEndsAt ? formatDate(item.warrantyEndsAt) : '',
     Notes: item.notes || '',
     'Date création': formatDate(item.createdAt),
   }))
@@ -198,6 +221,11 @@ export async function exportAssetItems(filters = {}) {
     { wch: 15 },
     { wch: 25 },
     { wch: 15 },
+    { wch: 20 },
+    { wch: 18 },
+    { wch: 15 },
+    { wch: 15 },
+    { wch: 15 },
     { wch: 30 },
     { wch: 15 },
   ]
@@ -212,17 +240,18 @@ export async function exportAssetItems(filters = {}) {
  * Export articles de stock vers Excel
  *
  * @param {Object} filters - Filtres optionnels
- * @param {boolean} filters.lowStock - Afficher seulement stock bas (quantité < 5)
+ * @param {boolean} filters.lowStock - Afficher seulement stock bas (disponible < stock minimum de l'article)
  * @returns {Buffer} Fichier Excel en buffer
  */
 export async function exportStockItems(filters = {}) {
   const { lowStock } = filters
 
+  // The available quantity is compared to the minimum of each item below
   const where = {
-    ...(lowStock && { quantity: { lt: 5 } }),
+    ...(lowStock && { minQuantity: { gt: 0 } }),
   }
 
-  const items = await prisma.stockItem.findMany({
+  const stockItems = await prisma.stockItem.findMany({
     where,
     orderBy: { quantity: 'asc' },
     include: {
@@ -235,6 +264,7 @@ export async function exportStockItems(filters = {}) {
       },
     },
   })
+  const items = lowStock ? stockItems.filter(isBelowMinimum) : stockItems
 
   const data = items.map((item) => ({
     Type: item.assetModel.type,
@@ -243,6 +273,7 @@ export async function exportStockItems(filters = {}) {
     'Quantité disponible': item.quantity,
     'Quantité prêtée': item.loaned,
     'Quantité totale': item.quantity + item.loaned,
+    'Stock minimum': item.minQuantity,
     'Date création': formatDate(item.createdAt),
   }))
 
@@ -255,6 +286,7 @@ export async function exportStockItems(filters = {}) {
     { wch: 15 },
     { wch: 15 },
     { wch: 15 },
+    { wch: 15 },
   ]
 
   const workbook = XLSX.utils.book_new()
@@ -263,22 +295,86 @@ export async function exportStockItems(filters = {}) {
   return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
 }
 
+/**
+ * Export liste de réapprovisionnement vers Excel
+ *
+ * Une feuille par fournisseur (coordonnées en tête) pour l'envoyer telle
+ * quelle en demande d'achat ; les articles sans fournisseur sont regroupés
+ * dans une feuille « Sans fournisseur ».
+ *
+ * @returns {Buffer} Fichier Excel en buffer
+ */
+export async function exportReorderList() {
+  const groups = await getReorderList()
+  const workbook = XLSX.utils.book_new()
+
+  groups.forEach((group) => {
+    const { supplier } = group
+    const contact = supplier
+      ? [supplier.contactName, supplier.email, supplier.phone].filter(Boolean).join(' - ')
+      : ''
+
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      ['Fournisseur', supplier?.name ?? 'Sans fournisseur'],
+      ['Contact', contact],
+      [],
+      ['Type', 'Marque', 'Modèle', 'Emplacement', 'Disponible', 'Stock minimum', 'Quantité à commander'],
+      ...group.lines.map((line) => [
+        line.assetModel.type,
+        line.assetModel.brand,
+        line.assetModel.modelName,
+        line.location || '',
+        line.available,
+        line.minQuantity,
+        line.suggestedQuantity,
+      ]),
+    ])
+    worksheet['!cols'] = [
+      { wch: 15 },
+      { wch: 15 },
+      { wch: 25 },
+      { wch: 18 },
+      { wch: 12 },
+      { wch: 15 },
+      { wch: 20 },
+    ]
+
+    // Sheet names: no \ / ? * [ ] :, at most 31 characters, renamed when already used
+    const sheetName = (supplier?.name ?? 'Sans fournisseur').replace(/[\\/?*[\]:]/g, ' ').slice(0, 31)
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetName, true)
+  })
+
+  if (groups.length === 0) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Aucun article sous son stock minimum']]), 'Réapprovisionnement')
+  }
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+}
+
 /**
  * Export prêts vers Excel
  *
  * @param {Object} filters - Filtres optionnels
  * @param {string} filters.status - Filtrer par statut (OPEN, CLOSED)
  * @param {string} filters.employeeId - Filtrer par employé
+ * @param {string} filters.departmentId - Filtrer par département de l'employé
+ * @param {string} filters.companyId - Filtrer par société de l'employé
  * @param {Date} filters.startDate - Date début
  * @param {Date} filters.endDate - Date fin
  * @returns {Buffer} Fichier Excel en buffer
  */
 export async function exportLoans(filters = {}) {
-  const { status, employeeId, startDate, endDate } = filters
+  const { status, employeeId, departmentId, companyId, startDate, endDate } = filters
 
   const where = {
     ...(status && { status }),
     ...(employeeId && { employeeId }),
+    ...((departmentId || companyId) && {
+      employee: {
+        ...(departmentId && { departmentId }),
+        ...(companyId && { department: { companyId } }),
+      },
+    }),
     ...(startDate &&
       endDate && {
         openedAt: {
@@ -301,6 +397,7 @@ export async function exportLoans(filters = {}) {
           firstName: true,
           lastName: true,
           email: true,
+          dept: true,
         },
       },
       lines: {
@@ -350,6 +447,7 @@ export async function exportLoans(filters = {}) {
       'ID Prêt': loan.id.slice(0, 8),
       Employé: `${loan.employee.firstName} ${loan.employee.lastName}`,
       Email: loan.employee.email,
+      Département: loan.employee.dept || 'N/A',
       'Articles prêtés': items.join(', '),
       'Nombre articles': loan.lines.length,
       Statut: statusLabels[loan.status],
@@ -363,6 +461,7 @@ export async function exportLoans(filters = {}) {
     { wch: 10 },
     { wch: 25 },
     { wch: 30 },
+    { wch: 20 },
     { wch: 50 },
     { wch: 15 },
     { wch: 10 },
@@ -376,6 +475,95 @@ export async function exportLoans(filters = {}) {
   return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
 }
 
+/**
+ * Export registre des sorties vers Excel
+ *
+ * Liste les équipements réformés (statut REFORME) avec le motif, la date de
+ * sortie, le certificat et la confirmation d'effacement des données.
+ *
+ * @param {Object} filters - Filtres optionnels
+ * @param {Date} filters.from - Date de sortie minimale
+ * @param {Date} filters.to - Date de sortie maximale
+ * @param {string} filters.reason - Filtrer par motif (RECYCLAGE, DON, VOL, PERTE)
+ * @returns {Buffer} Fichier Excel en buffer
+ */
+export async function exportDisposalRegister(filters = {}) {
+  const { from, to, reason } = filters
+
+  const where = {
+    status: 'REFORME',
+    ...(reason && { disposalReason: reason }),
+    ...((from || to) && {
+      disposedAt: {
+        ...(from && { gte: new Date(from) }),
+        ...(to && { lte: new Date(to) }),
+      },
+    }),
+  }
+
+  const items = await prisma.assetItem.findMany({
+    where,
+    orderBy: [{ disposedAt: 'asc' }, { assetTag: 'asc' }],
+    include: {
+      assetModel: {
+        select: {
+          type: true,
+          brand: true,
+          modelName: true,
+        },
+      },
+      disposedBy: {
+        select: {
+          email: true,
+        },
+      },
+    },
+  })
+
+  const reasonLabels = {
+    RECYCLAGE: 'Recyclage',
+    DON: 'Don',
+    VOL: 'Vol',
+    PERTE: 'Perte',
+  }
+
+  const data = items.map((item) => ({
+    Tag: item.assetTag,
+    Type: item.assetModel.type,
+    Marque: item.assetModel.brand,
+    Modèle: item.assetModel.modelName,
+    'N° série': item.serial || '',
+    Motif: reasonLabels[item.disposalReason] || '',
+    'Date de sortie': formatDate(item.disposedAt),
+    Certificat: item.disposalCertificateRef || '',
+    'Effacement données': item.dataWipeConfirmed ? 'Oui' : 'Non',
+    "Prix d'achat (€)": formatCents(item.purchasePriceCents),
+    Note: item.disposalNote || '',
+    'Réformé par': item.disposedBy?.email || '',
+  }))
+
+  const worksheet = XLSX.utils.json_to_sheet(data)
+  worksheet['!cols'] = [
+    { wch: 15 },
+    { wch: 15 },
+    { wch: 15 },
+    { wch: 25 },
+    { wch: 20 },
+    { wch: 12 },
+    { wch: 15 },
+    { wch: 20 },
+    { wch: 18 },
+    { wch: 15 },
+    { wch: 30 },
+    { wch: 25 },
+  ]
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Registre des sorties')
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+}
+
 /**
  * Export dashboard complet (multi-feuilles)
  *
@@ -460,6 +648,7 @@ export async function exportDashboard() {
     PRETE: 'Prêté',
     HS: 'Hors service',
     REPARATION: 'En réparation',
+    REFORME: 'Réformé',
   }
   const assetsData = assets.map((a) => ({
     Tag: a.assetTag,
@@ -538,9 +727,49 @@ export async function exportDashboard() {
   ]
   XLSX.utils.book_append_sheet(workbook, loansSheet, 'Prêts Actifs')
 
+  // 6. Feuille Valorisation (valeur comptable par type et par département)
+  const valuation = await getFleetValuation()
+  const toValuationRow = (grouping, label, depreciationYears, row) => ({
+    Regroupement: grouping,
+    Libellé: label,
+    'Amortissement (ans)': depreciationYears ?? '',
+    'Nb Équipements': row.itemCount,
+    "Valeur d'achat (€)": formatCents(row.purchaseValueCents),
+    'Valeur actuelle (€)': formatCents(row.currentValueCents),
+  })
+  const valuationData = [
+    ...valuation.byType.map((row) => toValuationRow('Type', row.type, row.depreciationYears, row)),
+    ...valuation.byDepartment.map((row) => toValuationRow(
+      'Département',
+      row.department ? [row.department, row.company].filter(Boolean).join(' - ') : 'Non affecté',
+      null,
+      row
+    )),
+    toValuationRow('Total', `Au ${formatDate(valuation.valuedAt)}`, null, valuation.totals),
+  ]
+  const valuationSheet = XLSX.utils.json_to_sheet(valuationData)
+  valuationSheet['!cols'] = [
+    { wch: 15 },
+    { wch: 25 },
+    { wch: 20 },
+    { wch: 15 },
+    { wch: 18 },
+    { wch: 18 },
+  ]
+  XLSX.utils.book_append_sheet(workbook, valuationSheet, 'Valorisation')
+
   return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
 }
 
+/**
+ * Utilitaire: convertir un montant en centimes en euros (nombre) pour Excel
+ * @private
+ */
+function formatCents(cents) {
+  if (cents === null || cents === undefined) return ''
+  return cents / 100
+}
+
 /**
  * Utilitaire: formater date pour Excel
  * @private
@@ -561,5 +790,6 @@ export default {
   exportAssetItems,
   exportStockItems,
   exportLoans,
+  exportDisposalRegister,
   exportDashboard,
 }
@@ -0,0 +1,705 @@
+/**
+ * @fileoverview Inventory campaigns service - Physical inventory (stocktake)
+ *
+ * This service handles:
+ * - Opening a campaign, optionally scoped by equipment type and/or location
+ * - Checking off asset items found on site (by ID or scanned code)
+ * - Counting the shelf quantity of stock items
+ * - The reconciliation report: found, missing and unexpected asset items,
+ *   stock counts with their variance and stock items not counted yet
+ * - Closing the campaign, which freezes the report
+ * - Follow-up actions on a closed campaign: applying the stock corrections
+ *   (through adjustStockQuantity) and flagging missing items (missingSince)
+ *
+ * Expected asset items are the ones in scope that should be on site:
+ * EN_STOCK or HS. Loaned, in-repair and retired items are not expected,
+ * checking one of them off makes it "unexpected".
+ *
+ * A stock count compares the counted quantity to the shelf quantity
+ * (quantity - loaned) at counting time. The variance is applied as an
+ * adjustment, so loans made since the count do not distort the correction.
+ */
+
+import prisma from '../config/database.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { logCreate, logUpdate, logDelete } from '../utils/auditHelpers.js';
+import { executePaginatedQuery } from '../utils/pagination.js';
+import { invalidateEntity } from './cache.service.js';
+import { resolveAssetItemCode } from './search.service.js';
+import { adjustStockQuantity } from './stockItems.service.js';
+
+/**
+ * Asset statuses of items expected on site during a campaign
+ */
+export const EXPECTED_ASSET_STATUSES = ['EN_STOCK', 'HS'];
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  role: true
+};
+
+const CAMPAIGN_SELECT = {
+  id: true,
+  name: true,
+  status: true,
+  equipmentType: true,
+  location: true,
+  notes: true,
+  openedAt: true,
+  closedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: USER_SELECT },
+  closedBy: { select: USER_SELECT },
+  _count: {
+    select: {
+      assetChecks: true,
+      stockCounts: true
+    }
+  }
+};
+
+const MODEL_SELECT = {
+  select: {
+    type: true,
+    brand: true,
+    modelName: true
+  }
+};
+
+const ASSET_ITEM_SELECT = {
+  id: true,
+  assetTag: true,
+  serial: true,
+  status: true,
+  location: true,
+  missingSince: true,
+  assetModel: MODEL_SELECT
+};
+
+const STOCK_ITEM_SELECT = {
+  id: true,
+  quantity: true,
+  loaned: true,
+  location: true,
+  assetModel: MODEL_SELECT
+};
+
+/**
+ * Prisma filter of the campaign scope, shared by asset and stock items
+ */
+function buildScopeWhere(campaign) {
+  const where = {};
+  if (campaign.equipmentType) where.assetModel = { type: campaign.equipmentType };
+  if (campaign.location) where.location = { equals: campaign.location, mode: 'insensitive' };
+  return where;
+}
+
+function isInScope(item, campaign) {
+  if (campaign.equipmentType && item.assetModel?.type !== campaign.equipmentType) return false;
+  if (campaign.location && item.location?.toLowerCase() !== campaign.location.toLowerCase()) return false;
+  return true;
+}
+
+function isExpected(item, campaign) {
+  return EXPECTED_ASSET_STATUSES.includes(item.status) && isInScope(item, campaign);
+}
+
+function toAssetEntry(item, check) {
+  return {
+    assetItemId: item.id,
+    assetTag: item.assetTag,
+    serial: item.serial,
+    status: item.status,
+    location: item.location,
+    type: item.assetModel?.type ?? null,
+    brand: item.assetModel?.brand ?? null,
+    modelName: item.assetModel?.modelName ?? null,
+    checkedAt: check?.checkedAt ?? null
+  };
+}
+
+function toStockEntry(stockItem) {
+  return {
+    stockItemId: stockItem.id,
+    location: stockItem.location,
+    type: stockItem.assetModel?.type ?? null,
+    brand: stockItem.assetModel?.brand ?? null,
+    modelName: stockItem.assetModel?.modelName ?? null
+  };
+}
+
+async function getCampaignOrFail(id) {
+  return findOneOrFail('inventoryCampaign', { id }, {
+    errorMessage: 'Campagne d\'inventaire non trouvée'
+  });
+}
+
+async function getOpenCampaign(id) {
+  const campaign = await getCampaignOrFail(id);
+  if (campaign.status !== 'OPEN') {
+    throw new ValidationError('Cette campagne d\'inventaire est clôturée');
+  }
+  return campaign;
+}
+
+async function getClosedCampaign(id) {
+  const campaign = await getCampaignOrFail(id);
+  if (campaign.status !== 'CLOSED') {
+    throw new ValidationError('Clôturez la campagne d\'inventaire avant d\'appliquer ses résultats');
+  }
+  return campaign;
+}
+
+/**
+ * Compute the reconciliation report of a campaign from its current checks and counts
+ *
+ * @param {Object} campaign - Inventory campaign
+ * @returns {Promise<Object>} Report with summary, found, missing, unexpected, stockCounts and uncountedStock
+ */
+async function buildReconciliationReport(campaign) {
+  const scope = buildScopeWhere(campaign);
+
+  const [expectedItems, assetChecks, stockItems, stockCounts] = await Promise.all([
+    prisma.assetItem.findMany({
+      where: { ...scope, status: { in: EXPECTED_ASSET_STATUSES } },
+      select: ASSET_ITEM_SELECT,
+      orderBy: { assetTag: 'asc' }
+    }),
+    prisma.inventoryAssetCheck.findMany({
+      where: { campaignId: campaign.id },
+      include: { assetItem: { select: ASSET_ITEM_SELECT } },
+      orderBy: { checkedAt: 'asc' }
+    }),
+    prisma.stockItem.findMany({
+      where: scope,
+      select: STOCK_ITEM_SELECT,
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.inventoryStockCount.findMany({
+      where: { campaignId: campaign.id },
+      include: { stockItem: { select: STOCK_ITEM_SELECT } },
+      orderBy: { countedAt: 'asc' }
+    })
+  ]);
+
+  const checksByItem = new Map(assetChecks.map((check) => [check.assetItemId, check]));
+  const expectedIds = new Set(expectedItems.map((item) => item.id));
+  const countedIds = new Set(stockCounts.map((count) => count.stockItemId));
+
+  const found = expectedItems
+    .filter((item) => checksByItem.has(item.id))
+    .map((item) => toAssetEntry(item, checksByItem.get(item.id)));
+
+  const missing = expectedItems
+    .filter((item) => !checksByItem.has(item.id))
+    .map((item) => ({ ...toAssetEntry(item), flaggedAt: null }));
+
+  const unexpected = assetChecks
+    .filter((check) => !expectedIds.has(check.assetItemId))
+    .map((check) => ({
+      ...toAssetEntry(check.assetItem, check),
+      inScope: isInScope(check.assetItem, campaign)
+    }));
+
+  const countEntries = stockCounts.map((count) => ({
+    ...toStockEntry(count.stockItem),
+    countId: count.id,
+    expectedQuantity: count.expectedQuantity,
+    countedQuantity: count.countedQuantity,
+    variance: count.countedQuantity - count.expectedQuantity,
+    countedAt: count.countedAt,
+    correctionAppliedAt: count.correctionAppliedAt
+  }));
+
+  const uncountedStock = stockItems
+    .filter((stockItem) => !countedIds.has(stockItem.id))
+    .map((stockItem) => ({
+      ...toStockEntry(stockItem),
+      quantity: stockItem.quantity,
+      loaned: stockItem.loaned,
+      expectedQuantity: stockItem.quantity - stockItem.loaned
+    }));
+
+  return {
+    generatedAt: new Date(),
+    summary: {
+      expected: expectedItems.length,
+      found: found.length,
+      missing: missing.length,
+      unexpected: unexpected.length,
+      stockCounted: countEntries.length,
+      stockVariances: countEntries.filter((entry) => entry.variance !== 0).length,
+      uncountedStock: uncountedStock.length
+    },
+    found,
+    missing,
+    unexpected,
+    stockCounts: countEntries,
+    uncountedStock
+  };
+}
+
+/**
+ * Get inventory campaigns, newest first
+ *
+ * @param {Object} [options={}]
+ * @param {string} [options.status] - OPEN or CLOSED
+ * @param {number} [options.page=1]
+ * @param {number} [options.pageSize=20]
+ * @returns {Promise<Object>} Paginated response with data and pagination metadata
+ */
+export async function getInventoryCampaigns(options = {}) {
+  const { status, page = 1, pageSize = 20 } = options;
+
+  const where = {};
+  if (status) where.status = status;
+
+  return executePaginatedQuery(prisma.inventoryCampaign, {
+    where,
+    orderBy: { openedAt: 'desc' },
+    select: CAMPAIGN_SELECT,
+    page,
+    pageSize
+  });
+}
+
+/**
+ * Get a single inventory campaign by ID (without its report, see getReconciliationReport)
+ *
+ * @param {string} id - Campaign ID
+ * @returns {Promise<Object>} Campaign with opener, closer and check/count totals
+ * @throws {NotFoundError} If campaign doesn't exist
+ */
+export async function getInventoryCampaignById(id) {
+  return findOneOrFail('inventoryCampaign', { id }, {
+    select: CAMPAIGN_SELECT,
+    errorMessage: 'Campagne d\'inventaire non trouvée'
+  });
+}
+
+/**
+ * Get the reconciliation report of a campaign
+ *
+ * Computed live while the campaign is open (missing = not checked yet),
+ * the report frozen at closing otherwise.
+ *
+ * @param {string} id - Campaign ID
+ * @returns {Promise<Object>} Reconciliation report
+ * @throws {NotFoundError} If campaign doesn't exist
+ */
+export async function getReconciliationReport(id) {
+  const campaign = await getCampaignOrFail(id);
+  if (campaign.status === 'CLOSED' && campaign.report) {
+    return campaign.report;
+  }
+  return buildReconciliationReport(campaign);
+}
+
+/**
+ * Open an inventory campaign
+ *
+ * @param {Object} data - Campaign data
+ * @param {string} data.name - Campaign name (e.g. "Inventaire annuel 2026")
+ * @param {string} [data.equipmentType] - Restrict to an equipment type (AssetModel.type)
+ * @param {string} [data.location] - Restrict to a location
+ * @param {string} [data.notes] - Free-text notes
+ * @param {string} createdById - The user ID opening the campaign
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Created campaign
+ * @throws {NotFoundError} If the equipment type doesn't exist
+ *
+ * @example
+ * await createInventoryCampaign({ name: 'Inventaire annuel 2026', location: 'Siège' }, 'user456', req);
+ */
+export async function createInventoryCampaign(data, createdById, req) {
+  if (data.equipmentType) {
+    await findOneOrFail('equipmentType', { name: data.equipmentType }, {
+      errorMessage: 'Type d\'équipement non trouvé'
+    });
+  }
+
+  const campaign = await prisma.inventoryCampaign.create({
+    data: {
+      ...data,
+      createdById
+    },
+    select: CAMPAIGN_SELECT
+  });
+
+  // Audit trail
+  await logCreate('InventoryCampaign', campaign.id, req, data);
+
+  return campaign;
+}
+
+/**
+ * Check off an asset item found on site
+ *
+ * Checking an item twice is a no-op (`alreadyChecked: true`). An item
+ * flagged missing by an earlier campaign is no longer missing once found.
+ *
+ * @param {string} campaignId - Campaign ID
+ * @param {Object} data - Item to check, by `assetItemId` or scanned `code` (asset tag or serial)
+ * @param {string} checkedById - The user ID checking the item
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Check with its asset item, `alreadyChecked` and `expected` (false when unexpected)
+ * @throws {NotFoundError} If campaign or asset item doesn't exist
+ * @throws {ValidationError} If campaign is closed
+ *
+ * @example
+ * const { expected } = await checkAssetItem('campaign123', { code: 'LAP-001' }, 'user456', req);
+ */
+export async function checkAssetItem(campaignId, data, checkedById, req) {
+  const campaign = await getOpenCampaign(campaignId);
+
+  const assetItem = data.code
+    ? await resolveAssetItemCode(data.code)
+    : await findOneOrFail('assetItem', { id: data.assetItemId }, {
+      include: { assetModel: true },
+      errorMessage: 'Article d\'équipement non trouvé'
+    });
+
+  const expected = isExpected(assetItem, campaign);
+  const include = { assetItem: { select: ASSET_ITEM_SELECT } };
+
+  const where = { campaignId_assetItemId: { campaignId, assetItemId: assetItem.id } };
+
+  const existing = await prisma.inventoryAssetCheck.findUnique({ where, include });
+  if (existing) {
+    return { ...existing, alreadyChecked: true, expected };
+  }
+
+  let check;
+  try {
+    check = await prisma.$transaction(async (tx) => {
+      if (assetItem.missingSince) {
+        await tx.assetItem.update({
+          where: { id: assetItem.id },
+          data: { missingSince: null }
+        });
+      }
+
+      return tx.inventoryAssetCheck.create({
+        data: {
+          campaignId,
+          assetItemId: assetItem.id,
+          checkedById
+        },
+        include
+      });
+    });
+  } catch (error) {
+    // Same item scanned at the same time by another user: the first check wins
+    if (error.code !== 'P2002') throw error;
+    const concurrent = await prisma.inventoryAssetCheck.findUnique({ where, include });
+    return { ...concurrent, alreadyChecked: true, expected };
+  }
+
+  // Audit trail
+  await logCreate('InventoryAssetCheck', check.id, req, { campaignId, assetItemId: assetItem.id, expected });
+  if (assetItem.missingSince) {
+    await logUpdate('AssetItem', assetItem.id, req,
+      { missingSince: assetItem.missingSince },
+      { missingSince: null, inventoryCampaignId: campaignId }
+    );
+    await invalidateEntity('asset_items');
+  }
+
+  return { ...check, alreadyChecked: false, expected };
+}
+
+/**
+ * Undo the check of an asset item (checked by mistake)
+ *
+ * @param {string} campaignId - Campaign ID
+ * @param {string} assetItemId - Asset item ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Deleted check
+ * @throws {NotFoundError} If campaign or check doesn't exist
+ * @throws {ValidationError} If campaign is closed
+ */
+export async function uncheckAssetItem(campaignId, assetItemId, req) {
+  await getOpenCampaign(campaignId);
+
+  const check = await findOneOrFail('inventoryAssetCheck', {
+    campaignId_assetItemId: { campaignId, assetItemId }
+  }, {
+    errorMessage: 'Cet équipement n\'a pas été pointé dans cette campagne'
+  });
+
+  await prisma.inventoryAssetCheck.delete({ where: { id: check.id } });
+
+  // Audit trail
+  await logDelete('InventoryAssetCheck', check.id, req, check);
+
+  return check;
+}
+
+/**
+ * Record (or correct) the counted shelf quantity of a stock item
+ *
+ * The expected quantity is the shelf quantity (quantity - loaned) when counted.
+ *
+ * @param {string} campaignId - Campaign ID
+ * @param {string} stockItemId - Stock item ID
+ * @param {number} countedQuantity - Quantity found on the shelf
+ * @param {string} countedById - The user ID counting
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Stock count with its stock item and variance
+ * @throws {NotFoundError} If campaign or stock item doesn't exist
+ * @throws {ValidationError} If campaign is closed or the stock item is out of its scope
+ *
+ * @example
+ * await countStockItem('campaign123', 'stock456', 42, 'user456', req);
+ */
+export async function countStockItem(campaignId, stockItemId, countedQuantity, countedById, req) {
+  const campaign = await getOpenCampaign(campaignId);
+
+  const stockItem = await findOneOrFail('stockItem', { id: stockItemId }, {
+    include: { assetModel: true },
+    errorMessage: 'Article de stock non trouvé'
+  });
+
+  if (!isInScope(stockItem, campaign)) {
+    throw new ValidationError('Cet article de stock est hors du périmètre de la campagne');
+  }
+
+  const data = {
+    expectedQuantity: stockItem.quantity - stockItem.loaned,
+    countedQuantity,
+    countedById,
+    countedAt: new Date()
+  };
+  const where = { campaignId_stockItemId: { campaignId, stockItemId } };
+  const include = { stockItem: { select: STOCK_ITEM_SELECT } };
+
+  const existing = await prisma.inventoryStockCount.findUnique({ where });
+  // Upsert: two first counts of the same item at once cannot both create it
+  const count = await prisma.inventoryStockCount.upsert({
+    where,
+    update: data,
+    create: { ...data, campaignId, stockItemId },
+    include
+  });
+
+  // Audit trail
+  if (existing) {
+    await logUpdate('InventoryStockCount', count.id, req,
+      { expectedQuantity: existing.expectedQuantity, countedQuantity: existing.countedQuantity },
+      { expectedQuantity: data.expectedQuantity, countedQuantity }
+    );
+  } else {
+    await logCreate('InventoryStockCount', count.id, req, { campaignId, stockItemId, ...data });
+  }
+
+  return { ...count, variance: count.countedQuantity - count.expectedQuantity };
+}
+
+/**
+ * Close a campaign and freeze its reconciliation report
+ *
+ * @param {string} id - Campaign ID
+ * @param {string} closedById - The user ID closing the campaign
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Closed campaign
+ * @throws {NotFoundError} If campaign doesn't exist
+ * @throws {ValidationError} If campaign is already closed
+ */
+export async function closeInventoryCampaign(id, closedById, req) {
+  const campaign = await getOpenCampaign(id);
+
+  const report = await buildReconciliationReport(campaign);
+
+  // Guarded close: a concurrent close wins, its report stays frozen
+  const { count } = await prisma.inventoryCampaign.updateMany({
+    where: { id, status: 'OPEN' },
+    data: {
+      status: 'CLOSED',
+      closedAt: new Date(),
+      closedById,
+      report
+    }
+  });
+  if (count !== 1) {
+    throw new ValidationError('Cette campagne d\'inventaire est clôturée');
+  }
+
+  const closed = await prisma.inventoryCampaign.findUnique({
+    where: { id },
+    select: CAMPAIGN_SELECT
+  });
+
+  // Audit trail
+  await logUpdate('InventoryCampaign', id, req, { status: campaign.status }, { status: 'CLOSED', summary: report.summary });
+
+  return closed;
+}
+
+/**
+ * Apply the stock variances of a closed campaign
+ *
+ * Each variance is applied once through adjustStockQuantity (audit-logged
+ * on the stock item, INVENTORY_CORRECTION movement in the stock ledger).
+ * Counts are claimed before the adjustment, so two concurrent calls never
+ * apply the same variance twice. Corrections that cannot be applied (stock
+ * item deleted, quantity below zero or below the loaned units) are reported
+ * in `failed`.
+ *
+ * @param {string} id - Campaign ID
+ * @param {Object} [options={}]
+ * @param {string[]} [options.stockItemIds] - Only these stock items (all variances by default)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} `{ applied, failed }` with stockItemId and variance / error message
+ * @throws {NotFoundError} If campaign doesn't exist
+ * @throws {ValidationError} If campaign is still open
+ */
+export async function applyStockCorrections(id, options = {}, req) {
+  const campaign = await getClosedCampaign(id);
+  const { stockItemIds } = options;
+
+  const counts = await prisma.inventoryStockCount.findMany({
+    where: {
+      campaignId: id,
+      correctionAppliedAt: null,
+      ...(stockItemIds && { stockItemId: { in: stockItemIds } })
+    }
+  });
+
+  const applied = [];
+  const failed = [];
+  const appliedAt = new Date();
+
+  for (const count of counts) {
+    const variance = count.countedQuantity - count.expectedQuantity;
+    if (variance === 0) continue;
+
+    // Claim the count: a concurrent call that already claimed it wins
+    const { count: claimed } = await prisma.inventoryStockCount.updateMany({
+      where: { id: count.id, correctionAppliedAt: null },
+      data: { correctionAppliedAt: appliedAt }
+    });
+    if (claimed !== 1) continue;
+
+    try {
+      await adjustStockQuantity(count.stockItemId, variance, req, {
+        type: 'INVENTORY_CORRECTION',
+        reason: `Inventaire ${campaign.name}`,
+        referenceType: 'InventoryCampaign',
+        referenceId: campaign.id
+      });
+    } catch (error) {
+      // Release the claim so the correction can be retried
+      await prisma.inventoryStockCount.update({
+        where: { id: count.id },
+        data: { correctionAppliedAt: null }
+      });
+      if (!(error instanceof ValidationError || error instanceof NotFoundError)) throw error;
+      failed.push({ stockItemId: count.stockItemId, variance, message: error.message });
+      continue;
+    }
+
+    applied.push({ stockItemId: count.stockItemId, variance });
+  }
+
+  if (applied.length > 0) {
+    const appliedIds = new Set(applied.map((entry) => entry.stockItemId));
+    const report = {
+      ...campaign.report,
+      stockCounts: (campaign.report?.stockCounts ?? []).map((entry) =>
+        appliedIds.has(entry.stockItemId) ? { ...entry, correctionAppliedAt: appliedAt } : entry
+      )
+    };
+    await prisma.inventoryCampaign.update({ where: { id }, data: { report } });
+
+    // Audit trail
+    await logUpdate('InventoryCampaign', id, req, null, { stockCorrections: applied });
+  }
+
+  return { applied, failed };
+}
+
+/**
+ * Flag the missing asset items of a closed campaign (sets AssetItem.missingSince)
+ *
+ * Items found since the campaign closed are left alone (they are no longer
+ * expected or were checked in a later campaign).
+ *
+ * @param {string} id - Campaign ID
+ * @param {Object} [options={}]
+ * @param {string[]} [options.assetItemIds] - Only these items (all missing items by default)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} `{ flagged }` with the IDs of the flagged items
+ * @throws {NotFoundError} If campaign doesn't exist
+ * @throws {ValidationError} If campaign is still open
+ */
+export async function flagMissingItems(id, options = {}, req) {
+  const campaign = await getClosedCampaign(id);
+  const { assetItemIds } = options;
+
+  const candidates = (campaign.report?.missing ?? [])
+    .filter((entry) => !entry.flaggedAt)
+    .filter((entry) => !assetItemIds || assetItemIds.includes(entry.assetItemId))
+    .map((entry) => entry.assetItemId);
+
+  if (candidates.length === 0) {
+    return { flagged: [] };
+  }
+
+  // Skip items checked in a later campaign or already flagged
+  const items = await prisma.assetItem.findMany({
+    where: {
+      id: { in: candidates },
+      missingSince: null,
+      inventoryChecks: { none: { checkedAt: { gt: campaign.closedAt } } }
+    },
+    select: { id: true }
+  });
+  const flagged = items.map((item) => item.id);
+  const flaggedAt = new Date();
+  const flaggedIds = new Set(flagged);
+
+  const report = {
+    ...campaign.report,
+    missing: campaign.report.missing.map((entry) =>
+      flaggedIds.has(entry.assetItemId) ? { ...entry, flaggedAt } : entry
+    )
+  };
+
+  await prisma.$transaction([
+    prisma.assetItem.updateMany({
+      where: { id: { in: flagged } },
+      data: { missingSince: flaggedAt }
+    }),
+    prisma.inventoryCampaign.update({ where: { id }, data: { report } })
+  ]);
+
+  // Audit trail
+  for (const assetItemId of flagged) {
+    await logUpdate('AssetItem', assetItemId, req,
+      { missingSince: null },
+      { missingSince: flaggedAt, inventoryCampaignId: id }
+    );
+  }
+
+  if (flagged.length > 0) {
+    await invalidateEntity('asset_items');
+  }
+
+  return { flagged };
+}
+
+export default {
+  getInventoryCampaigns,
+  getInventoryCampaignById,
+  getReconciliationReport,
+  createInventoryCampaign,
+  checkAssetItem,
+  uncheckAssetItem,
+  countStockItem,
+  closeInventoryCampaign,
+  applyStockCorrections,
+  flagMissingItems
+};
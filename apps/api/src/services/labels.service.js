@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Asset labels service - printable label sheets (PDF)
+ *
+ * Each label carries:
+ * - A QR code with a deep link to the item in the web app
+ * - A Code 128 barcode of the asset tag (read by USB / handheld scanners)
+ * - The asset tag, model and serial number in clear text
+ *
+ * Sheets follow standard label formats (Avery grids), any dimension can be
+ * overridden to match another stock or to compensate for printer offsets.
+ *
+ * Symbols are encoded by bwip-js and drawn as vector rectangles, so labels
+ * stay sharp whatever the printer resolution.
+ */
+
+import prisma from '../config/database.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import bwipjs from 'bwip-js';
+import { PAGE_SIZES, createPdfDocument, drawText, gray, renderPdf } from '../utils/pdfDocument.js';
+import logger from '../config/logger.js';
+
+const POINTS_PER_MM = 72 / 25.4;
+
+// Inner label padding, and quiet zones around the codes (in modules)
+const LABEL_PADDING_MM = 2;
+const QR_QUIET_MODULES = 2;
+const CODE128_QUIET_MODULES = 10;
+
+/**
+ * Standard label sheets, dimensions in millimeters
+ */
+export const LABEL_FORMATS = {
+  AVERY_L7160: {
+    name: 'Avery L7160 - 21 étiquettes 63,5 × 38,1 mm (A4)',
+    pageSize: 'A4',
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.2,
+    gapX: 2.5,
+    gapY: 0
+  },
+  AVERY_L7163: {
+    name: 'Avery L7163 - 14 étiquettes 99,1 × 38,1 mm (A4)',
+    pageSize: 'A4',
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    gapX: 2.5,
+    gapY: 0
+  },
+  AVERY_L7651: {
+    name: 'Avery L7651 - 65 étiquettes 38,1 × 21,2 mm (A4)',
+    pageSize: 'A4',
+    columns: 5,
+    rows: 13,
+    labelWidth: 38.1,
+    labelHeight: 21.2,
+    marginTop: 10.7,
+    marginLeft: 4.75,
+    gapX: 2.5,
+    gapY: 0
+  },
+  AVERY_5160: {
+    name: 'Avery 5160 - 30 étiquettes 66,7 × 25,4 mm (Letter)',
+    pageSize: 'LETTER',
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.675,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.7625,
+    gapX: 3.175,
+    gapY: 0
+  }
+};
+
+export const DEFAULT_LABEL_FORMAT = 'AVERY_L7160';
+
+/**
+ * List the available label formats (used to prefill the layout form)
+ *
+ * @returns {Array<Object>} Formats with their key and dimensions in mm
+ */
+export function getLabelFormats() {
+  return Object.entries(LABEL_FORMATS).map(([key, format]) => ({ key, ...format }));
+}
+
+/**
+ * Deep link opening the item in the web app
+ *
+ * APP_URL is the public URL of the web app, defaulting to the first CORS origin.
+ *
+ * @param {string} code - Asset tag (or serial number for untagged items)
+ * @returns {string}
+ */
+export function getAssetItemLink(code) {
+  const appUrl = process.env.APP_URL || (process.env.CORS_ORIGIN || 'http://localhost:5173').split(',')[0].trim();
+  return `${appUrl.replace(/\/+$/, '')}/assets/items?search=${encodeURIComponent(code)}`;
+}
+
+/**
+ * Merge layout overrides into the format and check the grid fits on the page
+ */
+function resolveLayout(format, overrides = {}) {
+  const preset = LABEL_FORMATS[format];
+  if (!preset) {
+    throw new ValidationError(`Format d'étiquettes inconnu: ${format}`);
+  }
+
+  const layout = { ...preset, ...overrides };
+  const page = PAGE_SIZES[layout.pageSize];
+  const gridWidth = layout.marginLeft + layout.columns * layout.labelWidth + (layout.columns - 1) * layout.gapX;
+  const gridHeight = layout.marginTop + layout.rows * layout.labelHeight + (layout.rows - 1) * layout.gapY;
+
+  // Half a millimeter of tolerance for rounded sheet dimensions
+  if (gridWidth * POINTS_PER_MM > page.width + 1.5 || gridHeight * POINTS_PER_MM > page.height + 1.5) {
+    throw new ValidationError('Les étiquettes dépassent de la page, vérifiez les dimensions et les marges');
+  }
+
+  return layout;
+}
+
+function truncate(text, maxChars) {
+  const value = String(text);
+  return value.length > maxChars ? `${value.slice(0, Math.max(maxChars - 1, 1))}…` : value;
+}
+
+/**
+ * Draw a QR code in a square box, quiet zone included
+ */
+function drawQrCode(doc, text, x, y, boxSize) {
+  const [{ pixs, pixx: size }] = bwipjs.raw({ bcid: 'qrcode', text });
+  const moduleSize = boxSize / (size + QR_QUIET_MODULES * 2);
+  const origin = QR_QUIET_MODULES * moduleSize;
+
+  for (let my = 0; my < size; my++) {
+    // Merge horizontal runs of dark modules into a single rectangle
+    let runStart = null;
+    for (let mx = 0; mx < size; mx++) {
+      const dark = pixs[my * size + mx] === 1;
+      if (dark && runStart === null) runStart = mx;
+      if ((!dark || mx === size - 1) && runStart !== null) {
+        const runEnd = dark ? mx + 1 : mx;
+        doc.rect(x + origin + runStart * moduleSize, y + origin + my * moduleSize, (runEnd - runStart) * moduleSize, moduleSize);
+        runStart = null;
+      }
+    }
+  }
+  doc.fill(gray(0));
+}
+
+/**
+ * Draw a Code 128 barcode stretched to the box width, quiet zones included
+ */
+function drawCode128(doc, text, x, y, width, height) {
+  // Alternating bar / space widths in modules, starting with a bar
+  const [{ sbs: widths }] = bwipjs.raw({ bcid: 'code128', text });
+  const totalModules = widths.reduce((sum, value) => sum + value, 0) + CODE128_QUIET_MODULES * 2;
+  const moduleWidth = width / totalModules;
+
+  let cursor = x + CODE128_QUIET_MODULES * moduleWidth;
+  widths.forEach((value, index) => {
+    // Even indexes are bars, odd indexes are spaces
+    if (index % 2 === 0) {
+      doc.rect(cursor, y, value * moduleWidth, height);
+    }
+    cursor += value * moduleWidth;
+  });
+  doc.fill(gray(0));
+}
+
+/**
+ * Draw one label, (x, y) being its top-left corner in points
+ */
+function drawLabel(doc, item, x, y, width, height, { codeType, borders }) {
+  const padding = LABEL_PADDING_MM * POINTS_PER_MM;
+  const innerWidth = width - padding * 2;
+  const innerHeight = height - padding * 2;
+  const code = item.assetTag || item.serial;
+  const showQr = Boolean(code) && codeType !== 'CODE128';
+  const showBarcode = Boolean(code) && codeType !== 'QRCODE';
+
+  if (borders) {
+    doc.rect(x, y, width, height).lineWidth(0.5).strokeColor(gray(0.7)).stroke();
+  }
+
+  // Barcode on the bottom band, QR code and text on the top area
+  const barcodeHeight = showBarcode ? innerHeight * 0.3 : 0;
+  const topHeight = innerHeight - (showBarcode ? barcodeHeight + padding / 2 : 0);
+  const left = x + padding;
+  const top = y + padding;
+
+  if (showBarcode) {
+    try {
+      drawCode128(doc, code, left, top + innerHeight - barcodeHeight, innerWidth, barcodeHeight);
+    } catch (error) {
+      logger.warn('[Labels] Code 128 skipped', { itemId: item.id, message: error.message });
+    }
+  }
+
+  let textLeft = left;
+  if (showQr) {
+    const qrSize = Math.min(topHeight, innerWidth * 0.45);
+    drawQrCode(doc, getAssetItemLink(code), left, top, qrSize);
+    textLeft = left + qrSize + padding / 2;
+  }
+
+  const textWidth = left + innerWidth - textLeft;
+  const fontSize = Math.max(5, Math.min(10, topHeight / 4));
+  const maxChars = Math.max(4, Math.floor(textWidth / (fontSize * 0.55)));
+  const model = item.assetModel ? `${item.assetModel.brand} ${item.assetModel.modelName}` : null;
+
+  const lines = [
+    { text: item.assetTag || 'Sans tag', bold: true, size: fontSize * 1.2 },
+    ...(model ? [{ text: model, size: fontSize }] : []),
+    ...(item.serial ? [{ text: `S/N ${item.serial}`, size: fontSize * 0.9, gray: 0.3 }] : [])
+  ];
+
+  let baseline = top;
+  for (const line of lines) {
+    baseline += line.size * 1.15;
+    if (baseline > top + topHeight) break;
+    drawText(doc, truncate(line.text, Math.floor(maxChars * (fontSize / line.size))), textLeft, baseline, {
+      size: line.size,
+      bold: line.bold,
+      gray: line.gray
+    });
+  }
+}
+
+/**
+ * Generate a PDF sheet of labels for asset items
+ *
+ * Labels are printed in the order of `ids`. `startPosition` skips the
+ * labels already used on a partially printed first sheet.
+ *
+ * @param {Object} options
+ * @param {string[]} options.ids - Asset item IDs
+ * @param {string} [options.format='AVERY_L7160'] - Key of LABEL_FORMATS
+ * @param {Object} [options.layout] - Dimension overrides in mm (columns, rows, labelWidth, labelHeight, marginTop, marginLeft, gapX, gapY)
+ * @param {string} [options.codeType='BOTH'] - BOTH, QRCODE or CODE128
+ * @param {number} [options.startPosition=1] - First label position on the first sheet (1-based)
+ * @param {boolean} [options.borders=false] - Outline labels (alignment test prints)
+ * @returns {Promise<{buffer: Buffer, filename: string}>} PDF content and download file name
+ * @throws {ValidationError} If the layout does not fit or startPosition is out of the sheet
+ * @throws {NotFoundError} If an asset item doesn't exist
+ *
+ * @example
+ * const { buffer, filename } = await generateAssetLabels({ ids: ['item1', 'item2'], format: 'AVERY_L7163' });
+ */
+export async function generateAssetLabels({
+  ids,
+  format = DEFAULT_LABEL_FORMAT,
+  layout: overrides,
+  codeType = 'BOTH',
+  startPosition = 1,
+  borders = false
+}) {
+  const layout = resolveLayout(format, overrides);
+  const labelsPerPage = layout.columns * layout.rows;
+
+  if (startPosition > labelsPerPage) {
+    throw new ValidationError(`La position de départ doit être comprise entre 1 et ${labelsPerPage}`);
+  }
+
+  const items = await prisma.assetItem.findMany({
+    where: { id: { in: ids } },
+    include: { assetModel: true }
+  });
+
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const missing = ids.filter((id) => !itemsById.has(id));
+  if (missing.length > 0) {
+    throw new NotFoundError(`Article(s) non trouvé(s): ${missing.join(', ')}`);
+  }
+
+  const generatedAt = new Date();
+  const doc = createPdfDocument({
+    title: `Étiquettes (${ids.length})`,
+    createdAt: generatedAt,
+    pageSize: PAGE_SIZES[layout.pageSize]
+  });
+  const toPoints = (mm) => mm * POINTS_PER_MM;
+
+  ids.forEach((id, index) => {
+    const position = startPosition - 1 + index;
+    if (index > 0 && position % labelsPerPage === 0) {
+      doc.addPage();
+    }
+
+    const slot = position % labelsPerPage;
+    const column = slot % layout.columns;
+    const row = Math.floor(slot / layout.columns);
+
+    drawLabel(
+      doc,
+      itemsById.get(id),
+      toPoints(layout.marginLeft + column * (layout.labelWidth + layout.gapX)),
+      toPoints(layout.marginTop + row * (layout.labelHeight + layout.gapY)),
+      toPoints(layout.labelWidth),
+      toPoints(layout.labelHeight),
+      { codeType, borders }
+    );
+  });
+
+  return {
+    buffer: await renderPdf(doc),
+    filename: `Etiquettes_${generatedAt.toISOString().slice(0, 10)}.pdf`
+  };
+}
+
+export default {
+  LABEL_FORMATS,
+  getLabelFormats,
+  generateAssetLabels,
+  getAssetItemLink
+};
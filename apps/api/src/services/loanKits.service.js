@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Loan kits service - Reusable loan templates
+ *
+ * A kit lists asset models (any available item of the model is picked when
+ * the kit is added to a loan) and stock items, each with a quantity.
+ * Adding a kit to a loan is handled by addLoanKit() in loans.service.js.
+ */
+
+import prisma from '../config/database.js';
+import { ConflictError } from '../utils/errors.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { logCreate, logUpdate, logDelete } from '../utils/auditHelpers.js';
+
+const LOAN_KIT_INCLUDE = {
+  items: {
+    include: {
+      assetModel: true,
+      stockItem: {
+        include: {
+          assetModel: true
+        }
+      }
+    },
+    orderBy: { id: 'asc' }
+  }
+};
+
+/**
+ * Ensure no other kit already uses this name
+ *
+ * @param {string} name - Kit name
+ * @param {string} [excludeId] - Kit being updated
+ * @throws {ConflictError} If the name is taken
+ */
+async function assertNameAvailable(name, excludeId) {
+  const existing = await prisma.loanKit.findUnique({ where: { name } });
+  if (existing && existing.id !== excludeId) {
+    throw new ConflictError('Un kit avec ce nom existe déjà');
+  }
+}
+
+/**
+ * Map validated kit items to Prisma create data
+ *
+ * @param {Array} items - Kit items ({ assetModelId | stockItemId, quantity })
+ * @returns {Array} LoanKitItem create data
+ */
+function toItemsData(items) {
+  return items.map(item => ({
+    assetModelId: item.assetModelId || null,
+    stockItemId: item.stockItemId || null,
+    quantity: item.quantity
+  }));
+}
+
+/**
+ * Get all loan kits with their components
+ *
+ * @returns {Promise<Array>} Kits ordered by name
+ */
+export async function getAllLoanKits() {
+  return prisma.loanKit.findMany({
+    orderBy: { name: 'asc' },
+    include: LOAN_KIT_INCLUDE
+  });
+}
+
+/**
+ * Get a loan kit by ID
+ *
+ * @param {string} id - Kit ID
+ * @returns {Promise<Object>} Kit with components
+ * @throws {NotFoundError} If kit doesn't exist
+ */
+export async function getLoanKitById(id) {
+  return findOneOrFail('loanKit', { id }, {
+    include: LOAN_KIT_INCLUDE,
+    errorMessage: 'Kit non trouvé'
+  });
+}
+
+/**
+ * Create a loan kit
+ *
+ * @param {Object} data - Kit data
+ * @param {string} data.name - Unique kit name
+ * @param {string} [data.description] - Description
+ * @param {Array} data.items - Components ({ assetModelId | stockItemId, quantity })
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Created kit
+ * @throws {ConflictError} If the name is already used
+ *
+ * @example
+ * await createLoanKit({
+ *   name: 'Onboarding développeur',
+ *   items: [
+ *     { assetModelId: 'laptopModel', quantity: 1 },
+ *     { stockItemId: 'hdmiCable', quantity: 2 }
+ *   ]
+ * }, req);
+ */
+export async function createLoanKit(data, req) {
+  await assertNameAvailable(data.name);
+
+  const kit = await prisma.loanKit.create({
+    data: {
+      name: data.name,
+      description: data.description || null,
+      items: {
+        create: toItemsData(data.items)
+      }
+    },
+    include: LOAN_KIT_INCLUDE
+  });
+
+  // Audit trail
+  await logCreate('LoanKit', kit.id, req, data);
+
+  return kit;
+}
+
+/**
+ * Update a loan kit
+ *
+ * When `items` is provided, the component list is replaced as a whole.
+ *
+ * @param {string} id - Kit ID
+ * @param {Object} data - Fields to update (name, description, items)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated kit
+ * @throws {NotFoundError} If kit doesn't exist
+ * @throws {ConflictError} If the new name is already used
+ */
+export async function updateLoanKit(id, data, req) {
+  const kit = await findOneOrFail('loanKit', { id }, {
+    include: LOAN_KIT_INCLUDE,
+    errorMessage: 'Kit non trouvé'
+  });
+
+  if (data.name && data.name !== kit.name) {
+    await assertNameAvailable(data.name, id);
+  }
+
+  const updated = await prisma.loanKit.update({
+    where: { id },
+    data: {
+      ...(data.name && { name: data.name }),
+      ...(data.description !== undefined && { description: data.description || null }),
+      ...(data.items && {
+        items: {
+          deleteMany: {},
+          create: toItemsData(data.items)
+        }
+      })
+    },
+    include: LOAN_KIT_INCLUDE
+  });
+
+  // Audit trail
+  await logUpdate('LoanKit', id, req, kit, data);
+
+  return updated;
+}
+
+/**
+ * Delete a loan kit
+ *
+ * Loans created from the kit are not affected (their lines are independent).
+ *
+ * @param {string} id - Kit ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Deleted kit
+ * @throws {NotFoundError} If kit doesn't exist
+ */
+export async function deleteLoanKit(id, req) {
+  const kit = await findOneOrFail('loanKit', { id }, {
+    errorMessage: 'Kit non trouvé'
+  });
+
+  await prisma.loanKit.delete({ where: { id } });
+
+  // Audit trail
+  await logDelete('LoanKit', id, req, kit);
+
+  return kit;
+}
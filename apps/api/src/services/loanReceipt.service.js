@@ -0,0 +1,262 @@
+/**
+ * @fileoverview Loan receipt service - "bon de prêt" PDF generation
+ *
+ * Renders a printable and archivable receipt for a loan with:
+ * - Employee and loan details (dates, creator)
+ * - Lines with asset tags / serial numbers and return information
+ * - Pickup and return signature images
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { A4_WIDTH, createPdfDocument, drawText, gray, renderPdf } from '../utils/pdfDocument.js';
+import logger from '../config/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const MARGIN = 50;
+const CONTENT_WIDTH = A4_WIDTH - MARGIN * 2;
+const PAGE_BOTTOM = 780;
+const ROW_HEIGHT = 16;
+
+const TABLE_COLUMNS = [
+  { label: 'Article', x: MARGIN, maxChars: 16 },
+  { label: 'N° de série', x: MARGIN + 95, maxChars: 18 },
+  { label: 'Désignation', x: MARGIN + 200, maxChars: 34 },
+  { label: 'Qté', x: MARGIN + 375, maxChars: 5 },
+  { label: 'Retour', x: MARGIN + 405, maxChars: 22 }
+];
+
+const RETURN_CONDITION_LABELS = {
+  OK: 'bon état',
+  DAMAGED: 'endommagé',
+  MISSING: 'manquant'
+};
+
+function formatDate(date) {
+  if (!date) return '-';
+  return new Date(date).toLocaleDateString('fr-FR', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+}
+
+function formatDateTime(date) {
+  if (!date) return '-';
+  return new Date(date).toLocaleString('fr-FR', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+function truncate(text, maxChars) {
+  const value = text ? String(text) : '-';
+  return value.length > maxChars ? `${value.slice(0, maxChars - 1)}…` : value;
+}
+
+function getLineCells(line) {
+  const model = line.assetItem?.assetModel ?? line.stockItem?.assetModel;
+  const designation = model ? `${model.brand} ${model.modelName}` : '-';
+  const returned = line.returnedAt
+    ? `${formatDate(line.returnedAt)}${line.returnCondition ? ` (${RETURN_CONDITION_LABELS[line.returnCondition]})` : ''}`
+    : 'En cours';
+
+  return [
+    line.assetItem?.assetTag ?? 'Consommable',
+    line.assetItem?.serial ?? '-',
+    designation,
+    String(line.quantity),
+    returned
+  ];
+}
+
+/**
+ * Read a stored signature image
+ *
+ * @param {string|null} signatureUrl - e.g. /uploads/signatures/123-abc-signature.png
+ * @returns {Promise<Buffer|null>} File content, null when missing or unreadable
+ */
+async function readSignature(signatureUrl) {
+  if (!signatureUrl) return null;
+
+  // Only the file name is kept (security: prevent path traversal)
+  const signaturesDir = process.env.SIGNATURES_DIR || path.join(__dirname, '../../uploads/signatures');
+  const filePath = path.join(signaturesDir, path.basename(signatureUrl));
+
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    logger.warn(`[LoanReceipt] Signature file unavailable: ${signatureUrl}`, { message: error.message });
+    return null;
+  }
+}
+
+/**
+ * Draw a horizontal rule across the content width
+ */
+function drawRule(doc, y) {
+  doc.moveTo(MARGIN, y).lineTo(MARGIN + CONTENT_WIDTH, y).lineWidth(0.5).strokeColor(gray(0)).stroke();
+}
+
+/**
+ * Draw a signature box (title, date, image or placeholder)
+ */
+function drawSignature(doc, { title, signedAt, image, hasUrl }, x, y, width) {
+  const height = 110;
+  drawText(doc, title, x, y, { size: 11, bold: true });
+  drawText(doc, signedAt ? `Signé le ${formatDateTime(signedAt)}` : 'Non signé', x, y + 14, { size: 9, gray: 0.4 });
+  doc.rect(x, y + 22, width, height).lineWidth(0.5).strokeColor(gray(0.6)).stroke();
+
+  if (image) {
+    try {
+      doc.image(image, x + 5, y + 27, { fit: [width - 10, height - 10] });
+      return;
+    } catch (error) {
+      logger.warn('[LoanReceipt] Unsupported signature image', { message: error.message });
+    }
+  }
+
+  if (hasUrl) {
+    drawText(doc, 'Signature indisponible', x + 10, y + 22 + height / 2, { size: 9, gray: 0.4 });
+  }
+}
+
+/**
+ * Generate the "bon de prêt" PDF of a loan
+ *
+ * Deleted loans can still be printed (archives). Missing signature files
+ * are rendered as "Signature indisponible" instead of failing.
+ *
+ * @param {string} loanId - Loan ID
+ * @returns {Promise<{buffer: Buffer, filename: string}>} PDF content and download file name
+ * @throws {NotFoundError} If loan doesn't exist
+ *
+ * @example
+ * const { buffer, filename } = await generateLoanReceipt('loan123');
+ */
+export async function generateLoanReceipt(loanId) {
+  const loan = await findOneOrFail('loan', { id: loanId }, {
+    include: {
+      employee: true,
+      createdBy: { select: { email: true } },
+      lines: {
+        include: {
+          assetItem: { include: { assetModel: true } },
+          stockItem: { include: { assetModel: true } }
+        },
+        orderBy: { addedAt: 'asc' }
+      }
+    },
+    errorMessage: 'Prêt non trouvé'
+  });
+
+  const [pickupSignature, returnSignature] = await Promise.all([
+    readSignature(loan.pickupSignatureUrl),
+    readSignature(loan.returnSignatureUrl)
+  ]);
+
+  const generatedAt = new Date();
+  const doc = createPdfDocument({ title: `Bon de prêt ${loan.id}`, createdAt: generatedAt });
+  const { employee } = loan;
+
+  // Header
+  drawText(doc, 'Bon de prêt de matériel', MARGIN, 60, { size: 20, bold: true });
+  drawText(doc, `Référence : ${loan.id}`, MARGIN, 80, { size: 9, gray: 0.4 });
+  drawRule(doc, 90);
+
+  // Employee and loan details
+  const details = [
+    ['Employé', `${employee.firstName} ${employee.lastName}`],
+    ['Email', employee.email || '-'],
+    ['Département', employee.dept || '-'],
+    ['Ouvert le', formatDateTime(loan.openedAt)],
+    ['Retour prévu le', formatDate(loan.dueAt)],
+    ['Statut', loan.status === 'CLOSED' ? `Fermé le ${formatDateTime(loan.closedAt)}` : 'En cours'],
+    ['Établi par', loan.createdBy?.email || '-']
+  ];
+  let y = 112;
+  for (const [label, value] of details) {
+    drawText(doc, `${label} :`, MARGIN, y, { bold: true });
+    drawText(doc, truncate(value, 70), MARGIN + 110, y);
+    y += ROW_HEIGHT;
+  }
+
+  // Lines table
+  y += 14;
+  drawText(doc, `Articles prêtés (${loan.lines.length})`, MARGIN, y, { size: 12, bold: true });
+  y += 8;
+
+  const drawTableHeader = () => {
+    drawRule(doc, y);
+    y += 12;
+    for (const column of TABLE_COLUMNS) {
+      drawText(doc, column.label, column.x, y, { size: 9, bold: true });
+    }
+    y += 5;
+    drawRule(doc, y);
+    y += 13;
+  };
+  drawTableHeader();
+
+  if (loan.lines.length === 0) {
+    drawText(doc, 'Aucun article', MARGIN, y, { size: 9, gray: 0.4 });
+    y += ROW_HEIGHT;
+  }
+
+  for (const line of loan.lines) {
+    if (y > PAGE_BOTTOM) {
+      doc.addPage();
+      y = 60;
+      drawTableHeader();
+    }
+    getLineCells(line).forEach((cell, index) => {
+      const column = TABLE_COLUMNS[index];
+      drawText(doc, truncate(cell, column.maxChars), column.x, y, { size: 9 });
+    });
+    y += ROW_HEIGHT;
+  }
+  drawRule(doc, y - 10);
+
+  // Signatures, kept together on one page
+  if (y + 150 > PAGE_BOTTOM) {
+    doc.addPage();
+    y = 60;
+  } else {
+    y += 20;
+  }
+  const signatureWidth = (CONTENT_WIDTH - 30) / 2;
+  drawSignature(doc, {
+    title: 'Signature au retrait',
+    signedAt: loan.pickupSignedAt,
+    image: pickupSignature,
+    hasUrl: Boolean(loan.pickupSignatureUrl)
+  }, MARGIN, y, signatureWidth);
+  drawSignature(doc, {
+    title: 'Signature au retour',
+    signedAt: loan.returnSignedAt,
+    image: returnSignature,
+    hasUrl: Boolean(loan.returnSignatureUrl)
+  }, MARGIN + signatureWidth + 30, y, signatureWidth);
+
+  drawText(doc, `Document généré le ${formatDateTime(generatedAt)}`, MARGIN, 815, { size: 8, gray: 0.5 });
+
+  const employeeName = `${employee.lastName}_${employee.firstName}`
+    .normalize('NFD')
+    .replace(/[^A-Za-z0-9_-]/g, '');
+
+  return {
+    buffer: await renderPdf(doc),
+    filename: `Bon_de_pret_${employeeName}_${generatedAt.toISOString().slice(0, 10)}.pdf`
+  };
+}
+
+export default {
+  generateLoanReceipt
+};
@@ -7,17 +7,20 @@
  * - Digital signature uploads (pickup and return)
  * - Loan status management and closure
  * - Stock quantity and asset status synchronization
+ * - Trash: soft-deleted loans restore and purge
  */
 
 import prisma from '../config/database.js';
-import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
 import { deleteSignatureFile, deleteSignatureFiles } from '../utils/fileUtils.js';
 import { saveBase64Image } from '../utils/saveBase64Image.js';
 import { findOneOrFail } from '../utils/prismaHelpers.js';
 import { logCreate, logUpdate, logDelete } from '../utils/auditHelpers.js';
 import { executePaginatedQuery, buildOrderBy, validateSortParams } from '../utils/pagination.js';
+import { notifyLoanEvent } from './notifications.service.js';
+import { buildStockMovement } from './stockMovements.service.js';
 
-const LOAN_SORT_FIELDS = ['openedAt', 'closedAt', 'createdAt', 'status'];
+const LOAN_SORT_FIELDS = ['openedAt', 'dueAt', 'closedAt', 'createdAt', 'status'];
 import path from 'path';
 import { fileURLToPath } from 'url';
 import logger from '../config/logger.js';
@@ -25,6 +28,132 @@ import logger from '../config/logger.js';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Soft-deleted loans are purged after this many days (LOAN_TRASH_RETENTION_DAYS)
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Build the Prisma WHERE fragment matching overdue loans
+ *
+ * A loan is overdue when it is still OPEN and either its own due date
+ * or the due date of one of its unreturned lines is in the past.
+ *
+ * @param {Date} [now=new Date()] - Reference date
+ * @returns {Object} Prisma WHERE fragment
+ */
+function buildOverdueWhere(now = new Date()) {
+  return {
+    status: 'OPEN',
+    OR: [
+      { dueAt: { lt: now } },
+      { lines: { some: { dueAt: { lt: now }, returnedAt: null } } }
+    ]
+  };
+}
+
+/**
+ * Build the WHERE fragment matching active reservations of other employees
+ * that overlap a loan line running from now until its expected return
+ *
+ * A line without due date (neither its own nor the loan's) is open-ended
+ * and clashes with any upcoming reservation.
+ *
+ * @param {Object} loan - Loan receiving the line (employeeId, dueAt)
+ * @param {Date|null} [dueAt] - Line-specific due date
+ * @returns {Object} Prisma WHERE fragment for Reservation
+ */
+function buildConflictingReservationWhere(loan, dueAt) {
+  const expectedBack = dueAt ?? loan.dueAt;
+  return {
+    status: 'ACTIVE',
+    employeeId: { not: loan.employeeId },
+    endDate: { gt: new Date() },
+    ...(expectedBack && { startDate: { lt: expectedBack } })
+  };
+}
+
+/**
+ * Sum the units of a stock item booked by other employees' active
+ * reservations overlapping a loan line
+ *
+ * These units are not free for the line even though `loaned` does not count
+ * them, so the stock checks subtract them from `quantity - loaned`.
+ *
+ * @param {Object} client - Prisma client or transaction client
+ * @param {string} stockItemId - Stock item lent by the line
+ * @param {Object} loan - Loan receiving the line (employeeId, dueAt)
+ * @param {Date|null} [dueAt] - Line-specific due date
+ * @returns {Promise<number>} Reserved units
+ */
+async function sumReservedStock(client, stockItemId, loan, dueAt) {
+  const { _sum } = await client.reservation.aggregate({
+    where: { stockItemId, ...buildConflictingReservationWhere(loan, dueAt) },
+    _sum: { quantity: true }
+  });
+  return _sum.quantity || 0;
+}
+
+/**
+ * Asset status applied for each return condition
+ * OK → back in stock, damaged → repair, missing → out of service
+ */
+const RETURN_CONDITION_STATUS = {
+  OK: 'EN_STOCK',
+  DAMAGED: 'REPARATION',
+  MISSING: 'HS'
+};
+
+/**
+ * Index return inspections by line ID after checking they target outstanding asset lines
+ *
+ * @param {Array<Object>} lines - Loan lines still out
+ * @param {Array<{lineId: string, condition: string, note?: string}>} inspections - Inspections sent by the client
+ * @returns {Map<string, {condition: string, note: string|null}>} Inspections keyed by line ID
+ * @throws {ValidationError} If an inspection targets an unknown, returned or stock line
+ */
+function buildInspectionMap(lines, inspections = []) {
+  const inspectionMap = new Map();
+
+  for (const inspection of inspections) {
+    const line = lines.find(l => l.id === inspection.lineId);
+    if (!line) {
+      throw new ValidationError('Ligne de prêt inconnue ou déjà retournée dans l\'inspection de retour');
+    }
+    if (!line.assetItemId) {
+      throw new ValidationError('L\'inspection de retour ne concerne que les équipements');
+    }
+    inspectionMap.set(line.id, { condition: inspection.condition, note: inspection.note || null });
+  }
+
+  return inspectionMap;
+}
+
+/**
+ * Record inspected asset items in the audit log (item history)
+ *
+ * @param {Array<Object>} lines - Returned loan lines
+ * @param {Map<string, Object>} inspectionMap - Inspections keyed by line ID
+ * @param {string} loanId - Loan the items came back from
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<void>}
+ */
+async function logReturnInspections(lines, inspectionMap, loanId, req) {
+  for (const line of lines) {
+    const inspection = inspectionMap.get(line.id);
+    if (!inspection) continue;
+
+    await logUpdate('AssetItem', line.assetItemId, req, { status: 'PRETE' }, {
+      action: 'RETURN_INSPECTION',
+      loanId,
+      lineId: line.id,
+      returnCondition: inspection.condition,
+      returnNote: inspection.note,
+      status: RETURN_CONDITION_STATUS[inspection.condition]
+    });
+  }
+}
+
 /**
  * Get all loans with optional filters
  *
@@ -94,6 +223,9 @@ export async function getAllLoans(filters = {}) {
  * @param {Object} options - Query options
  * @param {string} [options.status] - Filter by loan status (OPEN/CLOSED)
  * @param {string} [options.employeeId] - Filter by employee ID
+ * @param {string} [options.departmentId] - Filter by department of the employee
+ * @param {string} [options.companyId] - Filter by company of the employee's department
+ * @param {boolean} [options.overdue] - Only return OPEN loans past their due date
  * @param {number} [options.page=1] - Page number (1-indexed)
  * @param {number} [options.pageSize=20] - Items per page
  * @param {string} [options.sortBy='openedAt'] - Field to sort by
@@ -114,7 +246,10 @@ export async function getAllLoansPaginated(options = {}) {
   const {
     status,
     employeeId,
+    departmentId,
+    companyId,
     search,
+    overdue,
     page = 1,
     pageSize = 20,
     sortBy = 'openedAt',
@@ -134,15 +269,32 @@ export async function getAllLoansPaginated(options = {}) {
     where.employeeId = employeeId;
   }
 
-  // Search by employee name or email
+  // Overdue implies OPEN: overrides any status filter
+  if (overdue) {
+    Object.assign(where, buildOverdueWhere());
+  }
+
+  // Search by employee name or email, filter by the employee's department / company
+  const employeeWhere = {};
+
   if (search && search.length >= 2) {
-    where.employee = {
-      OR: [
-        { firstName: { contains: search, mode: 'insensitive' } },
-        { lastName: { contains: search, mode: 'insensitive' } },
-        { email: { contains: search, mode: 'insensitive' } },
-      ]
-    };
+    employeeWhere.OR = [
+      { firstName: { contains: search, mode: 'insensitive' } },
+      { lastName: { contains: search, mode: 'insensitive' } },
+      { email: { contains: search, mode: 'insensitive' } },
+    ];
+  }
+
+  if (departmentId) {
+    employeeWhere.departmentId = departmentId;
+  }
+
+  if (companyId) {
+    employeeWhere.department = { companyId };
+  }
+
+  if (Object.keys(employeeWhere).length > 0) {
+    where.employee = employeeWhere;
   }
 
   // Validate and build ORDER BY clause
@@ -228,23 +380,32 @@ export async function getLoanById(id) {
  * @param {string} employeeId - The employee ID who is borrowing
  * @param {string} createdById - The user ID creating the loan
  * @param {Object} req - Express request object (for audit trail)
+ * @param {Object} [options={}] - Optional loan attributes
+ * @param {Date|null} [options.dueAt] - Expected return date
  * @returns {Promise<Object>} Newly created loan object
  * @throws {NotFoundError} If employee doesn't exist
+ * @throws {ValidationError} If employee is archived
  *
  * @example
- * const loan = await createLoan('employee_cuid', 'user_cuid', req);
+ * const loan = await createLoan('employee_cuid', 'user_cuid', req, { dueAt: new Date('2026-11-01') });
  */
-export async function createLoan(employeeId, createdById, req) {
+export async function createLoan(employeeId, createdById, req, options = {}) {
+  const { dueAt } = options;
+
   // Validate employee exists before creating loan
-  await findOneOrFail('employee', { id: employeeId }, {
+  const employee = await findOneOrFail('employee', { id: employeeId }, {
     errorMessage: 'Employé non trouvé'
   });
+  if (employee.archivedAt) {
+    throw new ValidationError('Impossible de créer un prêt pour un employé archivé');
+  }
 
   const loan = await prisma.loan.create({
     data: {
       employeeId,
       createdById,
-      status: 'OPEN'  // New loans always start as OPEN
+      status: 'OPEN',  // New loans always start as OPEN
+      dueAt
     },
     include: {
       employee: true,
@@ -260,11 +421,76 @@ export async function createLoan(employeeId, createdById, req) {
   });
 
   // Audit trail
-  await logCreate('Loan', loan.id, req, { employeeId, status: 'OPEN' });
+  await logCreate('Loan', loan.id, req, { employeeId, status: 'OPEN', dueAt: loan.dueAt });
+
+  // Email notification, never blocks the loan workflow
+  void notifyLoanEvent('LOAN_OPENED', loan.id);
 
   return loan;
 }
 
+/**
+ * Update editable attributes of an open loan
+ *
+ * Only the expected return date can be changed; status, lines and
+ * signatures have their own dedicated workflows.
+ *
+ * @param {string} loanId - The loan ID to update
+ * @param {Object} data - Fields to update
+ * @param {Date|null} [data.dueAt] - New expected return date (null clears it)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated loan with employee, creator and lines
+ * @throws {NotFoundError} If loan doesn't exist
+ * @throws {ValidationError} If loan is deleted or closed
+ *
+ * @example
+ * await updateLoan('loan123', { dueAt: new Date('2026-11-01') }, req);
+ */
+export async function updateLoan(loanId, data, req) {
+  const loan = await findOneOrFail('loan', { id: loanId }, {
+    errorMessage: 'Prêt non trouvé'
+  });
+
+  if (loan.deletedAt) {
+    throw new ValidationError('Impossible de modifier un prêt supprimé');
+  }
+  if (loan.status === 'CLOSED') {
+    throw new ValidationError('Impossible de modifier un prêt fermé');
+  }
+
+  const updatedLoan = await prisma.loan.update({
+    where: { id: loanId },
+    data: {
+      dueAt: data.dueAt
+    },
+    include: {
+      employee: true,
+      createdBy: {
+        select: {
+          id: true,
+          email: true,
+          role: true
+        }
+      },
+      lines: {
+        include: {
+          assetItem: {
+            include: {
+              assetModel: true
+            }
+          },
+          stockItem: true
+        }
+      }
+    }
+  });
+
+  // Audit trail
+  await logUpdate('Loan', loanId, req, { dueAt: loan.dueAt }, { dueAt: updatedLoan.dueAt });
+
+  return updatedLoan;
+}
+
 /**
  * Add a line (item) to an existing loan
  *
@@ -279,10 +505,12 @@ export async function createLoan(employeeId, createdById, req) {
  * @param {string} [data.assetItemId] - Asset item ID (for unique equipment)
  * @param {string} [data.stockItemId] - Stock item ID (for consumables)
  * @param {number} [data.quantity] - Quantity (for stock items, default 1)
+ * @param {Date|null} [data.dueAt] - Line-specific expected return date (overrides the loan's)
  * @param {Object} req - Express request object (for audit trail)
  * @returns {Promise<Object>} Created loan line with item details
  * @throws {NotFoundError} If loan, asset, or stock item not found
  * @throws {ValidationError} If loan is closed, item unavailable, or insufficient stock
+ * @throws {ConflictError} If the asset is reserved for another employee during the loan
  *
  * @example
  * // Add an asset item (laptop)
@@ -320,6 +548,22 @@ export async function addLoanLine(loanId, data, req) {
       throw new ValidationError('Cet article n\'est pas disponible');
     }
 
+    // Refuse lending an asset booked by another employee before its expected return
+    const reservation = await prisma.reservation.findFirst({
+      where: {
+        assetItemId: data.assetItemId,
+        ...buildConflictingReservationWhere(loan, data.dueAt)
+      },
+      include: { employee: true },
+      orderBy: { startDate: 'asc' }
+    });
+    if (reservation) {
+      throw new ConflictError(
+        `Cet équipement est réservé pour ${reservation.employee.firstName} ${reservation.employee.lastName} ` +
+        `à partir du ${reservation.startDate.toLocaleDateString('fr-FR')}`
+      );
+    }
+
     // Use transaction to ensure atomicity:
     // Both loan line creation AND asset status update must succeed
     const [loanLine] = await prisma.$transaction([
@@ -327,7 +571,8 @@ export async function addLoanLine(loanId, data, req) {
         data: {
           loanId,
           assetItemId: data.assetItemId,
-          quantity: 1  // Asset items always have quantity of 1
+          quantity: 1,  // Asset items always have quantity of 1
+          dueAt: data.dueAt
         },
         include: {
           assetItem: {
@@ -346,6 +591,8 @@ export async function addLoanLine(loanId, data, req) {
     // Audit trail
     await logUpdate('Loan', loanId, req, {}, { action: 'ADD_ASSET_LINE', assetItemId: data.assetItemId });
 
+    void notifyLoanEvent('LINE_ADDED', loanId, { lineIds: [loanLine.id] });
+
     return loanLine;
   }
 
@@ -354,13 +601,15 @@ export async function addLoanLine(loanId, data, req) {
     const quantity = data.quantity || 1;
 
     // Atomic conditional update avoids read-modify-write race on the `loaned` counter:
-    // the UPDATE itself enforces `quantity - loaned >= requested`, so two concurrent
-    // borrow requests can never both succeed when only one unit is free.
+    // the UPDATE itself enforces `quantity - loaned - reserved >= requested`, so two
+    // concurrent borrow requests can never both succeed when only one unit is free.
+    // Units booked by other employees over the line period are not free.
     const loanLine = await prisma.$transaction(async (tx) => {
+      const reserved = await sumReservedStock(tx, data.stockItemId, loan, data.dueAt);
       const updatedCount = await tx.$executeRaw`
         UPDATE "StockItem"
         SET "loaned" = "loaned" + ${quantity}, "updatedAt" = NOW()
-        WHERE "id" = ${data.stockItemId} AND "quantity" - "loaned" >= ${quantity}
+        WHERE "id" = ${data.stockItemId} AND "quantity" - "loaned" - ${reserved} >= ${quantity}
       `;
 
       if (updatedCount === 0) {
@@ -368,15 +617,23 @@ export async function addLoanLine(loanId, data, req) {
         if (!current) {
           throw new ValidationError('Article de stock non trouvé');
         }
-        const available = current.quantity - (current.loaned || 0);
+        const available = Math.max(current.quantity - (current.loaned || 0) - reserved, 0);
         throw new ValidationError(`Quantité insuffisante en stock (disponible: ${available})`);
       }
 
+      await tx.stockMovement.create({
+        data: {
+          stockItemId: data.stockItemId,
+          ...buildStockMovement('LOAN_OUT', { loanedDelta: quantity, referenceType: 'Loan', referenceId: loanId }, req)
+        }
+      });
+
       return tx.loanLine.create({
         data: {
           loanId,
           stockItemId: data.stockItemId,
-          quantity
+          quantity,
+          dueAt: data.dueAt
         },
         include: {
           stockItem: true
@@ -387,10 +644,170 @@ export async function addLoanLine(loanId, data, req) {
     // Audit trail
     await logUpdate('Loan', loanId, req, {}, { action: 'ADD_STOCK_LINE', stockItemId: data.stockItemId, quantity });
 
+    void notifyLoanEvent('LINE_ADDED', loanId, { lineIds: [loanLine.id] });
+
     return loanLine;
   }
 }
 
+/**
+ * Add all components of a loan kit to a loan
+ *
+ * For each kit component, in a single transaction:
+ * - Asset model: picks the first available items of the model (EN_STOCK,
+ *   not reserved by another employee), ordered by asset tag
+ * - Stock item: same atomic UPDATE "StockItem" as addLoanLine
+ *   (the whole component quantity or nothing)
+ * Components that cannot be satisfied are skipped and reported,
+ * the others are added.
+ *
+ * @param {string} loanId - The loan ID
+ * @param {string} kitId - The loan kit ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} { loan, missing } where missing lists
+ *   unsatisfied components ({ kitItemId, label, requested, added })
+ * @throws {NotFoundError} If loan or kit not found
+ * @throws {ValidationError} If loan is closed or deleted
+ *
+ * @example
+ * const { loan, missing } = await addLoanKit('loan123', 'kit456', req);
+ * // missing = [{ kitItemId, label: 'Dell P2422H', requested: 2, added: 1 }]
+ */
+export async function addLoanKit(loanId, kitId, req) {
+  const loan = await findOneOrFail('loan', { id: loanId }, {
+    errorMessage: 'Prêt non trouvé'
+  });
+
+  if (loan.deletedAt) {
+    throw new ValidationError('Impossible de modifier un prêt supprimé');
+  }
+  if (loan.status === 'CLOSED') {
+    throw new ValidationError('Impossible d\'ajouter des articles à un prêt fermé');
+  }
+
+  const kit = await findOneOrFail('loanKit', { id: kitId }, {
+    include: {
+      items: {
+        include: {
+          assetModel: true,
+          stockItem: {
+            include: {
+              assetModel: true
+            }
+          }
+        },
+        orderBy: { id: 'asc' }
+      }
+    },
+    errorMessage: 'Kit non trouvé'
+  });
+
+  const reservationWhere = buildConflictingReservationWhere(loan);
+  const missing = [];
+  const addedLines = [];
+
+  // Serializable: the loan cannot be closed while the kit lines are added
+  await prisma.$transaction(async (tx) => {
+    const current = await tx.loan.findUnique({ where: { id: loanId }, select: { status: true, deletedAt: true } });
+    if (!current || current.deletedAt || current.status !== 'OPEN') {
+      throw new ValidationError('Impossible d\'ajouter des articles à un prêt fermé');
+    }
+
+    for (const item of kit.items) {
+      if (item.assetModelId) {
+        const candidates = await tx.assetItem.findMany({
+          where: {
+            assetModelId: item.assetModelId,
+            status: 'EN_STOCK',
+            reservations: { none: reservationWhere }
+          },
+          orderBy: { assetTag: 'asc' },
+          take: item.quantity,
+          select: { id: true }
+        });
+
+        let added = 0;
+        for (const candidate of candidates) {
+          // Conditional update: an item lent concurrently since the read is skipped
+          const { count } = await tx.assetItem.updateMany({
+            where: { id: candidate.id, status: 'EN_STOCK' },
+            data: { status: 'PRETE' }
+          });
+          if (count === 0) continue;
+
+          const line = await tx.loanLine.create({
+            data: { loanId, assetItemId: candidate.id, quantity: 1 }
+          });
+          addedLines.push({ lineId: line.id, assetItemId: candidate.id });
+          added++;
+        }
+
+        if (added < item.quantity) {
+          missing.push({
+            kitItemId: item.id,
+            label: `${item.assetModel.brand} ${item.assetModel.modelName}`,
+            requested: item.quantity,
+            added
+          });
+        }
+      } else {
+        const reserved = await sumReservedStock(tx, item.stockItemId, loan);
+        const updatedCount = await tx.$executeRaw`
+          UPDATE "StockItem"
+          SET "loaned" = "loaned" + ${item.quantity}, "updatedAt" = NOW()
+          WHERE "id" = ${item.stockItemId} AND "quantity" - "loaned" - ${reserved} >= ${item.quantity}
+        `;
+
+        if (updatedCount === 0) {
+          const model = item.stockItem.assetModel;
+          missing.push({
+            kitItemId: item.id,
+            label: `${model.brand} ${model.modelName}`,
+            requested: item.quantity,
+            added: 0
+          });
+          continue;
+        }
+
+        await tx.stockMovement.create({
+          data: {
+            stockItemId: item.stockItemId,
+            ...buildStockMovement('LOAN_OUT', {
+              loanedDelta: item.quantity,
+              reason: `Kit ${kit.name}`,
+              referenceType: 'Loan',
+              referenceId: loanId
+            }, req)
+          }
+        });
+
+        const line = await tx.loanLine.create({
+          data: { loanId, stockItemId: item.stockItemId, quantity: item.quantity }
+        });
+        addedLines.push({ lineId: line.id, stockItemId: item.stockItemId, quantity: item.quantity });
+      }
+    }
+  }, { isolationLevel: 'Serializable' });
+
+  // Audit trail
+  await logUpdate('Loan', loanId, req, {}, {
+    action: 'ADD_KIT',
+    kitId,
+    kitName: kit.name,
+    lines: addedLines,
+    missing
+  });
+
+  if (addedLines.length > 0) {
+    void notifyLoanEvent('LINE_ADDED', loanId, { lineIds: addedLines.map(line => line.lineId) });
+  }
+
+  return {
+    loan: await getLoanById(loanId),
+    missing
+  };
+}
+
 /**
  * Remove a line from a loan
  *
@@ -400,14 +817,15 @@ export async function addLoanLine(loanId, data, req) {
  *
  * @param {string} loanId - The loan ID
  * @param {string} lineId - The loan line ID to remove
+ * @param {Object} [req] - Express request object (stock movement actor)
  * @returns {Promise<Object>} Success message
  * @throws {NotFoundError} If loan or line not found
  * @throws {ValidationError} If loan is closed
  *
  * @example
- * await removeLoanLine('loan123', 'line456');
+ * await removeLoanLine('loan123', 'line456', req);
  */
-export async function removeLoanLine(loanId, lineId) {
+export async function removeLoanLine(loanId, lineId, req) {
   // Check if loan exists and is open
   const loan = await findOneOrFail('loan', { id: loanId }, {
     errorMessage: 'Prêt non trouvé'
@@ -434,6 +852,11 @@ export async function removeLoanLine(loanId, lineId) {
     throw new NotFoundError('Ligne de prêt non trouvée');
   }
 
+  // Returned lines already released their item and are kept for history
+  if (loanLine.returnedAt) {
+    throw new ValidationError('Impossible de retirer un article déjà retourné');
+  }
+
   // If asset item, restore status to EN_STOCK
   if (loanLine.assetItemId) {
     await prisma.$transaction([
@@ -452,7 +875,15 @@ export async function removeLoanLine(loanId, lineId) {
       prisma.stockItem.update({
         where: { id: loanLine.stockItemId },
         data: {
-          loaned: { decrement: loanLine.quantity }  // Decrement loaned quantity, total quantity unchanged
+          loaned: { decrement: loanLine.quantity },  // Decrement loaned quantity, total quantity unchanged
+          movements: {
+            create: buildStockMovement('LOAN_CLOSED', {
+              loanedDelta: -loanLine.quantity,
+              reason: 'Ligne retirée du prêt',
+              referenceType: 'Loan',
+              referenceId: loanId
+            }, req)
+          }
         }
       })
     ]);
@@ -462,80 +893,480 @@ export async function removeLoanLine(loanId, lineId) {
 }
 
 /**
- * Upload pickup signature for a loan
+ * Return a single loan line (partial return)
  *
- * Records the signature image and timestamp when employee
- * picks up/receives the loaned items.
+ * Records `returnedAt` on the line and releases only that item:
+ * - Asset status (PRETE → EN_STOCK)
+ * - Stock loaned counter (decrement by line quantity)
+ *
+ * The line is kept for history. When the last unreturned line comes back,
+ * the loan is closed automatically in the same transaction.
+ *
+ * For asset lines, an optional return inspection decides the new status
+ * (OK → EN_STOCK, DAMAGED → REPARATION, MISSING → HS) and is stored on the line.
  *
  * @param {string} loanId - The loan ID
- * @param {Object} file - Multer file object containing signature image
- * @param {string} file.filename - Generated filename for the signature
+ * @param {string} lineId - The loan line ID being returned
  * @param {Object} req - Express request object (for audit trail)
- * @returns {Promise<Object>} Updated loan with signature URL
- * @throws {NotFoundError} If loan doesn't exist
+ * @param {Object} [inspection={}] - Return inspection (asset lines only)
+ * @param {string} [inspection.condition] - OK, DAMAGED or MISSING
+ * @param {string} [inspection.note] - Free-text note on the item state
+ * @returns {Promise<Object>} Updated loan with all lines
+ * @throws {NotFoundError} If loan or line not found
+ * @throws {ValidationError} If loan is closed/deleted or line already returned
  *
  * @example
- * const updatedLoan = await uploadPickupSignature('loan123', req.file, req);
+ * // Employee returns the dock but keeps the laptop
+ * const loan = await returnLoanLine('loan123', 'dockLine456', req);
+ * // loan.status === 'OPEN', dock line has returnedAt set
+ *
+ * // Dock came back with a broken connector
+ * await returnLoanLine('loan123', 'dockLine456', req, { condition: 'DAMAGED', note: 'Connecteur USB-C cassé' });
  */
-export async function uploadPickupSignature(loanId, fileOrBase64, req) {
-  // Check if loan exists
+export async function returnLoanLine(loanId, lineId, req, inspection = {}) {
   const loan = await findOneOrFail('loan', { id: loanId }, {
+    include: {
+      lines: true
+    },
     errorMessage: 'Prêt non trouvé'
   });
 
   if (loan.deletedAt) {
     throw new ValidationError('Impossible de modifier un prêt supprimé');
   }
+  if (loan.status === 'CLOSED') {
+    throw new ValidationError('Impossible de modifier un prêt fermé');
+  }
 
-  let filename;
-
-  // Check if it's a base64 string or multer file
-  if (typeof fileOrBase64 === 'string') {
-    // Base64 string - save it to file
-    const signaturesDir = process.env.SIGNATURES_DIR || path.join(__dirname, '../../uploads/signatures');
-    filename = await saveBase64Image(fileOrBase64, signaturesDir);
-  } else if (fileOrBase64 && fileOrBase64.filename) {
-    // Multer file object
-    filename = fileOrBase64.filename;
-  } else {
-    throw new ValidationError('Aucune signature fournie');
+  const loanLine = loan.lines.find(line => line.id === lineId);
+  if (!loanLine) {
+    throw new NotFoundError('Ligne de prêt non trouvée');
+  }
+  if (loanLine.returnedAt) {
+    throw new ValidationError('Cet article a déjà été retourné');
   }
 
-  // Generate signature URL path (accessible via static file serving)
-  const signatureUrl = `/uploads/signatures/${filename}`;
+  const inspectionMap = inspection.condition
+    ? buildInspectionMap([loanLine], [{ ...inspection, lineId }])
+    : new Map();
+  const lineInspection = inspectionMap.get(lineId);
 
-  // Update loan with pickup signature
-  const updatedLoan = await prisma.loan.update({
-    where: { id: loanId },
-    data: {
-      pickupSignatureUrl: signatureUrl,
-      pickupSignedAt: new Date()  // Record exact timestamp
-    },
-    include: {
-      employee: true,
-      lines: {
-        include: {
-          assetItem: {
-            include: {
-              assetModel: true
-            }
-          },
-          stockItem: true
-        }
+  const now = new Date();
+
+  // Serializable: two last lines returned at once cannot both leave the loan open
+  const isLastLine = await prisma.$transaction(async (tx) => {
+    // Guarded claim: a concurrent return or write-off of the same line wins
+    const { count } = await tx.loanLine.updateMany({
+      where: { id: lineId, loanId, returnedAt: null },
+      data: {
+        returnedAt: now,
+        ...(lineInspection && {
+          returnCondition: lineInspection.condition,
+          returnNote: lineInspection.note
+        })
       }
+    });
+    if (count !== 1) {
+      throw new ValidationError('Cet article a déjà été retourné');
     }
-  });
 
-  // Audit trail
-  await logUpdate('Loan', loanId, req, { pickupSignedAt: loan.pickupSignedAt }, { pickupSignedAt: updatedLoan.pickupSignedAt, pickupSignatureUrl: signatureUrl });
-
-  return updatedLoan;
-}
+    if (loanLine.assetItemId) {
+      await tx.assetItem.update({
+        where: { id: loanLine.assetItemId },
+        // Available again unless the inspection routed it to repair / out of service
+        data: { status: lineInspection ? RETURN_CONDITION_STATUS[lineInspection.condition] : 'EN_STOCK' }
+      });
+    }
 
-/**
- * Upload return signature for a loan
- *
- * Records the signature image and timestamp when employee
+    if (loanLine.stockItemId) {
+      await tx.stockItem.update({
+        where: { id: loanLine.stockItemId },
+        data: {
+          loaned: { decrement: loanLine.quantity },  // Release loaned units, total quantity unchanged
+          movements: {
+            create: buildStockMovement('LOAN_CLOSED', {
+              loanedDelta: -loanLine.quantity,
+              reason: 'Retour de l\'article',
+              referenceType: 'Loan',
+              referenceId: loanId
+            }, req)
+          }
+        }
+      });
+    }
+
+    // Auto-close when this was the last line still out
+    const remaining = await tx.loanLine.count({ where: { loanId, returnedAt: null } });
+    if (remaining === 0) {
+      await tx.loan.update({
+        where: { id: loanId },
+        data: {
+          status: 'CLOSED',
+          closedAt: now
+        }
+      });
+    }
+
+    return remaining === 0;
+  }, { isolationLevel: 'Serializable' });
+
+  // Audit trail
+  await logUpdate('Loan', loanId, req, { status: loan.status }, {
+    action: 'RETURN_LINE',
+    lineId,
+    assetItemId: loanLine.assetItemId,
+    stockItemId: loanLine.stockItemId,
+    quantity: loanLine.quantity,
+    returnCondition: lineInspection?.condition ?? null,
+    status: isLastLine ? 'CLOSED' : loan.status
+  });
+  await logReturnInspections([loanLine], inspectionMap, loanId, req);
+
+  if (isLastLine) {
+    void notifyLoanEvent('LOAN_CLOSED', loanId);
+  }
+
+  return getLoanById(loanId);
+}
+
+/**
+ * Transfer outstanding lines of an open loan to another employee
+ *
+ * Moves the selected lines to a brand-new OPEN loan for the target employee
+ * in a single transaction. Lines are re-attached (not returned and re-added),
+ * so assets stay PRETE and stock `loaned` counters are untouched: there is no
+ * intermediate EN_STOCK state another loan could grab.
+ *
+ * The new loan has no pickup signature: the new employee must sign it.
+ * The source loan is closed when none of its lines remain outstanding.
+ * Both loans reference each other in the audit trail (TRANSFER_OUT / TRANSFER_IN).
+ *
+ * @param {string} loanId - Source loan ID
+ * @param {Object} data - Transfer data
+ * @param {string} data.employeeId - Employee receiving the lines
+ * @param {string[]} data.lineIds - Outstanding lines to transfer
+ * @param {Date|null} [data.dueAt] - Due date of the new loan (defaults to the source loan's)
+ * @param {string} createdById - The user ID performing the transfer
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} The new loan with its lines
+ * @throws {NotFoundError} If loan or target employee doesn't exist
+ * @throws {ValidationError} If loan is closed/deleted, target is the same or an
+ *   archived employee, or a line is unknown / already returned
+ *
+ * @example
+ * // Leaver hands over the laptop to the newcomer, keeps nothing
+ * const newLoan = await transferLoanLines('loan123', {
+ *   employeeId: 'newcomer456',
+ *   lineIds: ['laptopLine789']
+ * }, 'user_cuid', req);
+ */
+export async function transferLoanLines(loanId, data, createdById, req) {
+  const { employeeId, lineIds } = data;
+
+  const loan = await findOneOrFail('loan', { id: loanId }, {
+    include: {
+      lines: true
+    },
+    errorMessage: 'Prêt non trouvé'
+  });
+
+  if (loan.deletedAt) {
+    throw new ValidationError('Impossible de modifier un prêt supprimé');
+  }
+  if (loan.status === 'CLOSED') {
+    throw new ValidationError('Impossible de modifier un prêt fermé');
+  }
+  if (loan.employeeId === employeeId) {
+    throw new ValidationError('Le prêt appartient déjà à cet employé');
+  }
+
+  const uniqueLineIds = [...new Set(lineIds)];
+  const outstandingLines = loan.lines.filter(line => !line.returnedAt);
+  const transferredLines = outstandingLines.filter(line => uniqueLineIds.includes(line.id));
+  if (transferredLines.length !== uniqueLineIds.length) {
+    throw new ValidationError('Ligne de prêt inconnue ou déjà retournée dans le transfert');
+  }
+
+  const targetEmployee = await findOneOrFail('employee', { id: employeeId }, {
+    errorMessage: 'Employé non trouvé'
+  });
+  if (targetEmployee.archivedAt) {
+    throw new ValidationError('Impossible de transférer vers un employé archivé');
+  }
+
+  const dueAt = data.dueAt !== undefined ? data.dueAt : loan.dueAt;
+  const closesSource = transferredLines.length === outstandingLines.length;
+  const now = new Date();
+
+  const newLoan = await prisma.$transaction(async (tx) => {
+    const created = await tx.loan.create({
+      data: {
+        employeeId,
+        createdById,
+        status: 'OPEN',
+        dueAt
+      }
+    });
+
+    // Guarded move: a concurrent return/removal of one of the lines aborts the transfer
+    const { count } = await tx.loanLine.updateMany({
+      where: { id: { in: uniqueLineIds }, loanId, returnedAt: null },
+      data: { loanId: created.id }
+    });
+    if (count !== uniqueLineIds.length) {
+      throw new ValidationError('Les lignes du prêt ont été modifiées pendant le transfert, veuillez réessayer');
+    }
+
+    if (closesSource) {
+      await tx.loan.update({
+        where: { id: loanId },
+        data: { status: 'CLOSED', closedAt: now }
+      });
+    }
+
+    return created;
+  }, { isolationLevel: 'Serializable' });
+
+  // Audit trail: both loans reference each other
+  const transferred = transferredLines.map(line => ({
+    lineId: line.id,
+    assetItemId: line.assetItemId,
+    stockItemId: line.stockItemId,
+    quantity: line.quantity
+  }));
+  await logUpdate('Loan', loanId, req, { status: loan.status, employeeId: loan.employeeId }, {
+    action: 'TRANSFER_OUT',
+    toLoanId: newLoan.id,
+    toEmployeeId: employeeId,
+    lines: transferred,
+    status: closesSource ? 'CLOSED' : loan.status
+  });
+  await logCreate('Loan', newLoan.id, req, {
+    action: 'TRANSFER_IN',
+    employeeId,
+    status: 'OPEN',
+    dueAt: newLoan.dueAt,
+    fromLoanId: loanId,
+    fromEmployeeId: loan.employeeId,
+    lines: transferred
+  });
+
+  void notifyLoanEvent('LOAN_OPENED', newLoan.id);
+
+  return getLoanById(newLoan.id);
+}
+
+/**
+ * Write off an outstanding line that will never come back (lost or stolen)
+ *
+ * The line is closed as MISSING like a return, but the item leaves the fleet:
+ * - asset item: retired (REFORME) with the disposal reason, active
+ *   reservations cancelled
+ * - stock item: the loaned units are removed from the quantity too
+ *   (WRITE_OFF movement)
+ * The loan is closed automatically when this was its last line out.
+ *
+ * Used by the offboarding checklist of a leaver.
+ *
+ * @param {string} loanId - Loan ID
+ * @param {string} lineId - Outstanding line ID
+ * @param {Object} data - Write-off details
+ * @param {string} [data.reason='PERTE'] - PERTE or VOL
+ * @param {string} [data.note] - Free note (circumstances)
+ * @param {Object} req - Express request object (actor and audit trail)
+ * @returns {Promise<Object>} Updated loan with all lines
+ * @throws {NotFoundError} If loan or line not found
+ * @throws {ValidationError} If loan is closed/deleted or line already returned
+ *
+ * @example
+ * // The leaver never gave the headset back
+ * await writeOffLoanLine('loan123', 'headsetLine456', { reason: 'PERTE', note: 'Non restitué au départ' }, req);
+ */
+export async function writeOffLoanLine(loanId, lineId, data, req) {
+  const loan = await findOneOrFail('loan', { id: loanId }, {
+    include: {
+      lines: true
+    },
+    errorMessage: 'Prêt non trouvé'
+  });
+
+  if (loan.deletedAt) {
+    throw new ValidationError('Impossible de modifier un prêt supprimé');
+  }
+  if (loan.status === 'CLOSED') {
+    throw new ValidationError('Impossible de modifier un prêt fermé');
+  }
+
+  const loanLine = loan.lines.find(line => line.id === lineId);
+  if (!loanLine) {
+    throw new NotFoundError('Ligne de prêt non trouvée');
+  }
+  if (loanLine.returnedAt) {
+    throw new ValidationError('Cet article a déjà été retourné');
+  }
+
+  const reason = data.reason ?? 'PERTE';
+  const note = data.note || null;
+  const now = new Date();
+
+  // Serializable: a concurrent return or close cannot release the item a second time
+  const isLastLine = await prisma.$transaction(async (tx) => {
+    // Guarded claim: a concurrent return, write-off or close of the same line wins
+    const { count } = await tx.loanLine.updateMany({
+      where: { id: lineId, loanId, returnedAt: null },
+      data: { returnedAt: now, returnCondition: 'MISSING', returnNote: note }
+    });
+    if (count !== 1) {
+      throw new ValidationError('Cet article a déjà été retourné');
+    }
+
+    if (loanLine.assetItemId) {
+      await tx.reservation.updateMany({
+        where: { assetItemId: loanLine.assetItemId, status: 'ACTIVE' },
+        data: { status: 'CANCELLED' }
+      });
+      await tx.assetItem.update({
+        where: { id: loanLine.assetItemId },
+        data: {
+          status: 'REFORME',
+          disposalReason: reason,
+          disposedAt: now,
+          disposalNote: note,
+          disposedById: req.user.userId
+        }
+      });
+    }
+
+    if (loanLine.stockItemId) {
+      await tx.stockItem.update({
+        where: { id: loanLine.stockItemId },
+        data: {
+          quantity: { decrement: loanLine.quantity },
+          loaned: { decrement: loanLine.quantity },
+          movements: {
+            create: buildStockMovement('WRITE_OFF', {
+              quantityDelta: -loanLine.quantity,
+              loanedDelta: -loanLine.quantity,
+              reason: reason === 'VOL' ? 'Vol chez l\'emprunteur' : 'Perte chez l\'emprunteur',
+              referenceType: 'Loan',
+              referenceId: loanId
+            }, req)
+          }
+        }
+      });
+    }
+
+    // Auto-close when this was the last line still out
+    const remaining = await tx.loanLine.count({ where: { loanId, returnedAt: null } });
+    if (remaining === 0) {
+      await tx.loan.update({
+        where: { id: loanId },
+        data: { status: 'CLOSED', closedAt: now }
+      });
+    }
+    return remaining === 0;
+  }, { isolationLevel: 'Serializable' });
+
+  // Audit trail
+  await logUpdate('Loan', loanId, req, { status: loan.status }, {
+    action: 'WRITE_OFF_LINE',
+    lineId,
+    assetItemId: loanLine.assetItemId,
+    stockItemId: loanLine.stockItemId,
+    quantity: loanLine.quantity,
+    reason,
+    status: isLastLine ? 'CLOSED' : loan.status
+  });
+  if (loanLine.assetItemId) {
+    await logUpdate('AssetItem', loanLine.assetItemId, req, { status: 'PRETE' }, {
+      status: 'REFORME',
+      disposalReason: reason,
+      loanId
+    });
+  }
+
+  if (isLastLine) {
+    void notifyLoanEvent('LOAN_CLOSED', loanId);
+  }
+
+  return getLoanById(loanId);
+}
+
+/**
+ * Upload pickup signature for a loan
+ *
+ * Records the signature image and timestamp when employee
+ * picks up/receives the loaned items.
+ *
+ * @param {string} loanId - The loan ID
+ * @param {Object} file - Multer file object containing signature image
+ * @param {string} file.filename - Generated filename for the signature
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated loan with signature URL
+ * @throws {NotFoundError} If loan doesn't exist
+ *
+ * @example
+ * const updatedLoan = await uploadPickupSignature('loan123', req.file, req);
+ */
+export async function uploadPickupSignature(loanId, fileOrBase64, req) {
+  // Check if loan exists
+  const loan = await findOneOrFail('loan', { id: loanId }, {
+    errorMessage: 'Prêt non trouvé'
+  });
+
+  if (loan.deletedAt) {
+    throw new ValidationError('Impossible de modifier un prêt supprimé');
+  }
+
+  let filename;
+
+  // Check if it's a base64 string or multer file
+  if (typeof fileOrBase64 === 'string') {
+    // Base64 string - save it to file
+    const signaturesDir = process.env.SIGNATURES_DIR || path.join(__dirname, '../../uploads/signatures');
+    filename = await saveBase64Image(fileOrBase64, signaturesDir);
+  } else if (fileOrBase64 && fileOrBase64.filename) {
+    // Multer file object
+    filename = fileOrBase64.filename;
+  } else {
+    throw new ValidationError('Aucune signature fournie');
+  }
+
+  // Generate signature URL path (accessible via static file serving)
+  const signatureUrl = `/uploads/signatures/${filename}`;
+
+  // Update loan with pickup signature
+  const updatedLoan = await prisma.loan.update({
+    where: { id: loanId },
+    data: {
+      pickupSignatureUrl: signatureUrl,
+      pickupSignedAt: new Date()  // Record exact timestamp
+    },
+    include: {
+      employee: true,
+      lines: {
+        include: {
+          assetItem: {
+            include: {
+              assetModel: true
+            }
+          },
+          stockItem: true
+        }
+      }
+    }
+  });
+
+  // Audit trail
+  await logUpdate('Loan', loanId, req, { pickupSignedAt: loan.pickupSignedAt }, { pickupSignedAt: updatedLoan.pickupSignedAt, pickupSignatureUrl: signatureUrl });
+
+  return updatedLoan;
+}
+
+/**
+ * Upload return signature for a loan
+ *
+ * Records the signature image and timestamp when employee
  * returns the loaned items.
  *
  * @param {string} loanId - The loan ID
@@ -606,20 +1437,27 @@ export async function uploadReturnSignature(loanId, fileOrBase64, req) {
 /**
  * Close a loan transaction
  *
- * Marks the loan as CLOSED and restores all asset items to EN_STOCK status.
+ * Marks the loan as CLOSED and restores asset items according to the return
+ * inspection (OK → EN_STOCK, DAMAGED → REPARATION, MISSING → HS). Assets
+ * without inspection go back to EN_STOCK.
  * Stock items are NOT restored (they were consumed).
+ * Lines already returned individually are skipped; the others get `returnedAt`.
  * This is the final step in the loan workflow.
  *
  * @param {string} loanId - The loan ID to close
  * @param {Object} req - Express request object (for audit trail)
+ * @param {Array<{lineId: string, condition: string, note?: string}>} [inspections=[]] - Return checklist for asset lines
  * @returns {Promise<Object>} Updated closed loan
  * @throws {NotFoundError} If loan doesn't exist
- * @throws {ValidationError} If loan is already closed
+ * @throws {ValidationError} If loan is already closed or an inspection targets an invalid line
  *
  * @example
- * const closedLoan = await closeLoan('loan123', req);
+ * const closedLoan = await closeLoan('loan123', req, [
+ *   { lineId: 'line1', condition: 'OK' },
+ *   { lineId: 'line2', condition: 'DAMAGED', note: 'Écran fissuré' }
+ * ]);
  */
-export async function closeLoan(loanId, req) {
+export async function closeLoan(loanId, req, inspections = []) {
   // Get loan with lines to process asset and stock updates
   const loan = await findOneOrFail('loan', { id: loanId }, {
     include: {
@@ -641,39 +1479,71 @@ export async function closeLoan(loanId, req) {
     throw new ValidationError('Ce prêt est déjà fermé');
   }
 
-  // Prepare asset status updates for all loaned equipment
-  const assetItemUpdates = loan.lines
-    .filter(line => line.assetItemId)  // Only process asset items
-    .map(line =>
-      prisma.assetItem.update({
-        where: { id: line.assetItemId },
-        data: { status: 'EN_STOCK' }  // Mark assets as available again
-      })
-    );
-
-  // Prepare stock item updates to decrement loaned counter
-  // Note: Stock quantity is NOT restored (items were consumed)
-  // But loaned counter must be decremented since loan is closed
-  const stockItemUpdates = loan.lines
-    .filter(line => line.stockItemId)  // Only process stock items
-    .map(line =>
-      prisma.stockItem.update({
-        where: { id: line.stockItemId },
-        data: {
-          loaned: { decrement: line.quantity }  // Decrement loaned counter
-        }
-      })
-    );
+  const inspectionMap = buildInspectionMap(loan.lines.filter(line => !line.returnedAt), inspections);
+  const closedAt = new Date();
 
-  // Use transaction to ensure atomicity:
-  // Loan closure and ALL asset/stock updates must succeed together
-  const [updatedLoan] = await prisma.$transaction([
-    prisma.loan.update({
+  const { updatedLoan, outstandingLines } = await prisma.$transaction(async (tx) => {
+    // Guarded close: a concurrent close or last-line return wins
+    const { count } = await tx.loan.updateMany({
+      where: { id: loanId, status: 'OPEN', deletedAt: null },
+      data: { status: 'CLOSED', closedAt }  // Record closure timestamp
+    });
+    if (count !== 1) {
+      throw new ValidationError('Ce prêt est déjà fermé');
+    }
+
+    // Lines returned or written off individually have already released their item
+    const lines = await tx.loanLine.findMany({ where: { loanId, returnedAt: null } });
+
+    // Outstanding lines come back with the loan
+    const { count: claimed } = await tx.loanLine.updateMany({
+      where: { id: { in: lines.map(line => line.id) }, returnedAt: null },
+      data: { returnedAt: closedAt }
+    });
+    if (claimed !== lines.length) {
+      throw new ValidationError('Les lignes du prêt ont été modifiées pendant la clôture, veuillez réessayer');
+    }
+
+    for (const line of lines) {
+      const inspection = inspectionMap.get(line.id);
+      if (inspection) {
+        // Keep the inspection result on the line (item loan history)
+        await tx.loanLine.update({
+          where: { id: line.id },
+          data: { returnCondition: inspection.condition, returnNote: inspection.note }
+        });
+      }
+
+      if (line.assetItemId) {
+        await tx.assetItem.update({
+          where: { id: line.assetItemId },
+          // Available again unless the inspection routed it to repair / out of service
+          data: { status: inspection ? RETURN_CONDITION_STATUS[inspection.condition] : 'EN_STOCK' }
+        });
+      }
+
+      // Stock quantity is NOT restored (items were consumed), but the loaned
+      // counter must be decremented since the loan is closed
+      if (line.stockItemId) {
+        await tx.stockItem.update({
+          where: { id: line.stockItemId },
+          data: {
+            loaned: { decrement: line.quantity },
+            movements: {
+              create: buildStockMovement('LOAN_CLOSED', {
+                loanedDelta: -line.quantity,
+                reason: 'Clôture du prêt',
+                referenceType: 'Loan',
+                referenceId: loanId
+              }, req)
+            }
+          }
+        });
+      }
+    }
+
+    const closed = await tx.loan.findUnique({
       where: { id: loanId },
-      data: {
-        status: 'CLOSED',
-        closedAt: new Date()  // Record closure timestamp
-      },
       include: {
         employee: true,
         createdBy: {
@@ -694,13 +1564,20 @@ export async function closeLoan(loanId, req) {
           }
         }
       }
-    }),
-    ...assetItemUpdates,  // Execute all asset updates in same transaction
-    ...stockItemUpdates   // Execute all stock updates in same transaction
-  ]);
+    });
+
+    return { updatedLoan: closed, outstandingLines: lines };
+  }, { isolationLevel: 'Serializable' });
 
   // Audit trail
-  await logUpdate('Loan', loanId, req, { status: loan.status, closedAt: loan.closedAt }, { status: 'CLOSED', closedAt: updatedLoan.closedAt });
+  await logUpdate('Loan', loanId, req, { status: loan.status, closedAt: loan.closedAt }, {
+    status: 'CLOSED',
+    closedAt: updatedLoan.closedAt,
+    inspections: [...inspectionMap].map(([lineId, inspection]) => ({ lineId, ...inspection }))
+  });
+  await logReturnInspections(outstandingLines, inspectionMap, loanId, req);
+
+  void notifyLoanEvent('LOAN_CLOSED', loanId);
 
   return updatedLoan;
 }
@@ -745,9 +1622,10 @@ export async function deleteLoan(loanId, userId, req) {
   }
 
   // Prepare reversion updates for all loaned items
+  // (lines already returned individually have nothing left to revert)
   const updates = [];
 
-  for (const line of loan.lines) {
+  for (const line of loan.lines.filter(l => !l.returnedAt)) {
     // Restore asset status
     if (line.assetItemId) {
       updates.push(
@@ -764,7 +1642,16 @@ export async function deleteLoan(loanId, userId, req) {
         prisma.stockItem.update({
           where: { id: line.stockItemId },
           data: {
-            loaned: { decrement: line.quantity }  // Only decrement loaned, total quantity unchanged
+            loaned: { decrement: line.quantity },  // Only decrement loaned, total quantity unchanged
+            movements: {
+              create: buildStockMovement('LOAN_CLOSED', {
+                loanedDelta: -line.quantity,
+                reason: 'Prêt supprimé',
+                referenceType: 'Loan',
+                referenceId: loanId,
+                createdById: userId
+              }, req)
+            }
           }
         })
       );
@@ -839,7 +1726,7 @@ export async function batchDeleteLoans(loanIds, userId) {
   const updates = [];
 
   loans.forEach(loan => {
-    loan.lines.forEach(line => {
+    loan.lines.filter(line => !line.returnedAt).forEach(line => {
       // Revert asset item status to EN_STOCK
       if (line.assetItemId) {
         updates.push(
@@ -858,7 +1745,16 @@ export async function batchDeleteLoans(loanIds, userId) {
           prisma.stockItem.update({
             where: { id: line.stockItemId },
             data: {
-              loaned: { decrement: line.quantity }
+              loaned: { decrement: line.quantity },
+              movements: {
+                create: buildStockMovement('LOAN_CLOSED', {
+                  loanedDelta: -line.quantity,
+                  reason: 'Prêt supprimé',
+                  referenceType: 'Loan',
+                  referenceId: loan.id,
+                  createdById: userId
+                })
+              }
             }
           })
         );
@@ -889,6 +1785,257 @@ export async function batchDeleteLoans(loanIds, userId) {
   };
 }
 
+/**
+ * Number of days soft-deleted loans stay in the trash before being purged
+ * (LOAN_TRASH_RETENTION_DAYS, default 30)
+ *
+ * @returns {number} Retention in days
+ */
+export function getTrashRetentionDays() {
+  const days = Number(process.env.LOAN_TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Get soft-deleted loans (trash), most recently deleted first
+ *
+ * Each loan carries `purgeAt`, the date after which the retention policy
+ * deletes it permanently.
+ *
+ * @param {Object} [options={}]
+ * @param {string} [options.search] - Employee name or email (min 2 chars)
+ * @param {number} [options.page=1]
+ * @param {number} [options.pageSize=20]
+ * @returns {Promise<Object>} Paginated response with data and pagination metadata
+ */
+export async function getDeletedLoans(options = {}) {
+  const { search, page = 1, pageSize = 20 } = options;
+
+  const where = {
+    deletedAt: { not: null }
+  };
+
+  if (search && search.length >= 2) {
+    where.employee = {
+      OR: [
+        { firstName: { contains: search, mode: 'insensitive' } },
+        { lastName: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+      ]
+    };
+  }
+
+  const result = await executePaginatedQuery(prisma.loan, {
+    where,
+    orderBy: { deletedAt: 'desc' },
+    include: {
+      employee: true,
+      createdBy: { select: { id: true, email: true, role: true } },
+      deletedBy: { select: { id: true, email: true, role: true } },
+      lines: {
+        include: {
+          assetItem: { include: { assetModel: true } },
+          stockItem: { include: { assetModel: true } }
+        }
+      }
+    },
+    page,
+    pageSize
+  });
+
+  const retentionMs = getTrashRetentionDays() * DAY_MS;
+  return {
+    ...result,
+    data: result.data.map(loan => ({
+      ...loan,
+      purgeAt: new Date(loan.deletedAt.getTime() + retentionMs)
+    }))
+  };
+}
+
+/**
+ * Restore a soft-deleted loan from the trash
+ *
+ * For an OPEN loan, re-applies what deleteLoan reverted for the lines not
+ * yet returned: assets go back to PRETE and stock `loaned` counters are
+ * incremented. A CLOSED loan only comes back to the history, its items
+ * stay where they are.
+ * Fails without changing anything if an asset is no longer EN_STOCK
+ * (lent elsewhere since, or in repair...) or is reserved by another employee
+ * over the line period, or if a stock item does not have enough free units
+ * anymore.
+ *
+ * @param {string} loanId - Loan ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Restored loan
+ * @throws {NotFoundError} If loan doesn't exist
+ * @throws {ValidationError} If loan is not deleted, or is OPEN and its employee is archived
+ * @throws {ConflictError} If some items are not available anymore
+ */
+export async function restoreLoan(loanId, req) {
+  const loan = await findOneOrFail('loan', { id: loanId }, {
+    include: {
+      employee: true,
+      lines: {
+        include: {
+          assetItem: true,
+          stockItem: { include: { assetModel: true } }
+        }
+      }
+    },
+    errorMessage: 'Prêt non trouvé'
+  });
+
+  if (!loan.deletedAt) {
+    throw new ValidationError('Ce prêt n\'est pas dans la corbeille');
+  }
+
+  const isOpen = loan.status === 'OPEN';
+  if (isOpen && loan.employee.archivedAt) {
+    throw new ValidationError('Impossible de restaurer un prêt en cours d\'un employé archivé');
+  }
+
+  const restoredLoan = await prisma.$transaction(async (tx) => {
+    const unavailable = [];
+    const outstandingLines = isOpen ? loan.lines.filter(l => !l.returnedAt) : [];
+
+    for (const line of outstandingLines) {
+      if (line.assetItemId) {
+        // Conditional update: only an asset still in stock and not booked by
+        // another employee over the line period can be lent again
+        const { count } = await tx.assetItem.updateMany({
+          where: {
+            id: line.assetItemId,
+            status: 'EN_STOCK',
+            reservations: { none: buildConflictingReservationWhere(loan, line.dueAt) }
+          },
+          data: { status: 'PRETE' }
+        });
+        if (count === 0) {
+          unavailable.push(line.assetItem.assetTag);
+        }
+      }
+
+      if (line.stockItemId) {
+        const reserved = await sumReservedStock(tx, line.stockItemId, loan, line.dueAt);
+        const updatedCount = await tx.$executeRaw`
+          UPDATE "StockItem"
+          SET "loaned" = "loaned" + ${line.quantity}, "updatedAt" = NOW()
+          WHERE "id" = ${line.stockItemId} AND "quantity" - "loaned" - ${reserved} >= ${line.quantity}
+        `;
+        if (updatedCount === 0) {
+          const model = line.stockItem.assetModel;
+          unavailable.push(`${line.quantity} x ${model ? `${model.brand} ${model.modelName}` : 'article de stock'}`);
+        } else {
+          await tx.stockMovement.create({
+            data: {
+              stockItemId: line.stockItemId,
+              ...buildStockMovement('LOAN_OUT', {
+                loanedDelta: line.quantity,
+                reason: 'Prêt restauré depuis la corbeille',
+                referenceType: 'Loan',
+                referenceId: loanId
+              }, req)
+            }
+          });
+        }
+      }
+    }
+
+    // Throwing rolls back the updates already applied above
+    if (unavailable.length > 0) {
+      throw new ConflictError(
+        `Impossible de restaurer le prêt, matériel plus disponible : ${unavailable.join(', ')}`
+      );
+    }
+
+    return tx.loan.update({
+      where: { id: loanId },
+      data: {
+        deletedAt: null,
+        deletedById: null
+      },
+      include: {
+        employee: true,
+        lines: {
+          include: {
+            assetItem: { include: { assetModel: true } },
+            stockItem: { include: { assetModel: true } }
+          }
+        }
+      }
+    });
+  }, { isolationLevel: 'Serializable' });
+
+  // Audit trail
+  await logUpdate('Loan', loanId, req,
+    { deletedAt: loan.deletedAt, deletedById: loan.deletedById },
+    { action: 'RESTORE', deletedAt: null }
+  );
+
+  return restoredLoan;
+}
+
+/**
+ * Permanently delete a loan from the trash
+ *
+ * Removes the loan with its lines (cascade) and its signature files.
+ *
+ * @param {string} loanId - Loan ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Success message
+ * @throws {NotFoundError} If loan doesn't exist
+ * @throws {ValidationError} If loan is not in the trash
+ */
+export async function purgeLoan(loanId, req) {
+  const loan = await findOneOrFail('loan', { id: loanId }, {
+    errorMessage: 'Prêt non trouvé'
+  });
+
+  if (!loan.deletedAt) {
+    throw new ValidationError('Seuls les prêts de la corbeille peuvent être supprimés définitivement');
+  }
+
+  await prisma.loan.delete({ where: { id: loanId } });
+  await deleteSignatureFiles([loan.pickupSignatureUrl, loan.returnSignatureUrl]);
+
+  // Audit trail
+  await logDelete('Loan', loanId, req, { action: 'PURGE', status: loan.status, deletedAt: loan.deletedAt });
+
+  return { message: 'Prêt supprimé définitivement' };
+}
+
+/**
+ * Permanently delete the loans kept in the trash longer than the retention
+ *
+ * Run daily by the scheduler (loan-trash-purge job), or by an ADMIN.
+ *
+ * @param {Object} [req] - Express request object (for audit trail, none for scheduled runs)
+ * @param {Date} [now=new Date()] - Reference date
+ * @returns {Promise<{ purgedCount: number, retentionDays: number }>}
+ */
+export async function purgeExpiredLoans(req, now = new Date()) {
+  const retentionDays = getTrashRetentionDays();
+  const deletedBefore = new Date(now.getTime() - retentionDays * DAY_MS);
+
+  const loans = await prisma.loan.findMany({
+    where: { deletedAt: { lt: deletedBefore } },
+    select: { id: true, status: true, deletedAt: true, pickupSignatureUrl: true, returnSignatureUrl: true }
+  });
+
+  if (loans.length > 0) {
+    await prisma.loan.deleteMany({ where: { id: { in: loans.map(l => l.id) } } });
+    await deleteSignatureFiles(loans.flatMap(l => [l.pickupSignatureUrl, l.returnSignatureUrl]));
+
+    for (const loan of loans) {
+      await logDelete('Loan', loan.id, req, { action: 'PURGE', status: loan.status, deletedAt: loan.deletedAt });
+    }
+  }
+
+  logger.info(`[Loans] Trash purge: ${loans.length} loan(s) deleted before ${deletedBefore.toISOString()}`);
+  return { purgedCount: loans.length, retentionDays };
+}
+
 /**
  * Delete pickup signature (ADMIN only)
  *
@@ -0,0 +1,336 @@
+/**
+ * @fileoverview Notifications service - Loan emails
+ *
+ * Sends emails when a loan is opened, when lines are added, when it is
+ * closed, when it is overdue and when it has been open for too long:
+ * - The borrowing employee always receives them (when they have an email)
+ * - Their manager (Employee.managerId) only for the events they opted in to
+ *
+ * Every delivery attempt is stored in NotificationLog. Sending never fails
+ * the loan operation that triggered it: errors are logged and recorded.
+ */
+
+import prisma from '../config/database.js';
+import { getMailTransport, MAIL_FROM } from '../config/mailer.js';
+import { renderNotification } from '../utils/notificationTemplates.js';
+import { executePaginatedQuery } from '../utils/pagination.js';
+import logger from '../config/logger.js';
+
+/**
+ * NotificationSetting field holding the manager opt-in of each event
+ */
+const SETTING_FIELDS = {
+  LOAN_OPENED: 'loanOpened',
+  LINE_ADDED: 'lineAdded',
+  LOAN_CLOSED: 'loanClosed',
+  OVERDUE_REMINDER: 'overdueReminder',
+  LONG_LOAN_REMINDER: 'longLoanReminder'
+};
+
+const DEFAULT_SETTINGS = {
+  loanOpened: false,
+  lineAdded: false,
+  loanClosed: false,
+  overdueReminder: false,
+  longLoanReminder: false
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A loan gets at most one overdue reminder per day
+const REMINDER_INTERVAL_MS = DAY_MS;
+
+// ...and at most one long-running loan reminder per week
+const LONG_LOAN_REMINDER_INTERVAL_MS = 7 * DAY_MS;
+
+const LINE_INCLUDE = {
+  assetItem: { include: { assetModel: true } },
+  stockItem: { include: { assetModel: true } }
+};
+
+/**
+ * Keep only the preference flags of a NotificationSetting row
+ */
+function toSettings(setting) {
+  return Object.fromEntries(Object.keys(DEFAULT_SETTINGS).map(field => [field, setting[field]]));
+}
+
+/**
+ * Pick the lines an email is about
+ */
+function selectLines(event, lines, lineIds) {
+  switch (event) {
+    case 'LINE_ADDED':
+      return lines.filter(line => lineIds?.includes(line.id));
+    case 'OVERDUE_REMINDER':
+    case 'LONG_LOAN_REMINDER':
+      return lines.filter(line => !line.returnedAt);
+    default:
+      return lines;
+  }
+}
+
+/**
+ * List recipients of an event: the employee, then the manager if opted in
+ */
+function getRecipients(event, employee) {
+  const recipients = [];
+
+  if (employee.email) {
+    recipients.push({ email: employee.email, type: 'employee' });
+  }
+
+  const manager = employee.manager;
+  const optedIn = manager?.notificationSetting?.[SETTING_FIELDS[event]];
+  if (manager && optedIn && manager.email !== employee.email) {
+    recipients.push({ email: manager.email, type: 'manager' });
+  }
+
+  return recipients;
+}
+
+/**
+ * Send one email and record the attempt
+ *
+ * @returns {Promise<boolean>} true when the email was accepted by the transport
+ */
+async function deliver(transport, { event, loanId, to, content }) {
+  let error = null;
+
+  try {
+    await transport.send({ from: MAIL_FROM, to, ...content });
+  } catch (sendError) {
+    error = sendError.message;
+    logger.warn(`[Notifications] ${event} email to ${to} failed`, { loanId, message: sendError.message });
+  }
+
+  await prisma.notificationLog.create({
+    data: {
+      event,
+      recipient: to,
+      subject: content.subject,
+      status: error ? 'FAILED' : 'SENT',
+      error,
+      transport: transport.name,
+      loanId
+    }
+  });
+
+  return !error;
+}
+
+/**
+ * Email the employee (and opted-in manager) about a loan event
+ *
+ * Meant to be called without awaiting once the loan operation succeeded:
+ * it never throws.
+ *
+ * @param {string} event - LOAN_OPENED, LINE_ADDED, LOAN_CLOSED, OVERDUE_REMINDER or LONG_LOAN_REMINDER
+ * @param {string} loanId - Loan ID
+ * @param {Object} [options]
+ * @param {string[]} [options.lineIds] - Added lines (LINE_ADDED)
+ * @returns {Promise<{sent: number, failed: number}>} Delivery counts
+ *
+ * @example
+ * void notifyLoanEvent('LINE_ADDED', loan.id, { lineIds: [line.id] });
+ */
+export async function notifyLoanEvent(event, loanId, { lineIds } = {}) {
+  const result = { sent: 0, failed: 0 };
+
+  try {
+    const transport = getMailTransport();
+    if (transport.name === 'disabled') {
+      return result;
+    }
+
+    const loan = await prisma.loan.findUnique({
+      where: { id: loanId },
+      include: {
+        employee: {
+          include: {
+            manager: {
+              select: { email: true, notificationSetting: true }
+            }
+          }
+        },
+        lines: {
+          include: LINE_INCLUDE,
+          orderBy: { addedAt: 'asc' }
+        }
+      }
+    });
+    if (!loan) {
+      return result;
+    }
+
+    const lines = selectLines(event, loan.lines, lineIds);
+    for (const recipient of getRecipients(event, loan.employee)) {
+      const content = renderNotification(event, { loan, lines, recipientType: recipient.type });
+      const delivered = await deliver(transport, { event, loanId, to: recipient.email, content });
+      result[delivered ? 'sent' : 'failed'] += 1;
+    }
+  } catch (error) {
+    logger.error(`[Notifications] Unable to process ${event} for loan ${loanId}`, { message: error.message });
+  }
+
+  return result;
+}
+
+/**
+ * Send reminders for overdue loans
+ *
+ * A loan is overdue when it is OPEN with unreturned lines and either its
+ * due date or the due date of one of these lines is in the past. Loans
+ * already reminded successfully in the last 24 hours are skipped.
+ *
+ * @param {Date} [now=new Date()] - Reference date
+ * @returns {Promise<{loans: number, sent: number, failed: number}>} Processed loans and delivery counts
+ */
+export async function sendOverdueReminders(now = new Date()) {
+  const since = new Date(now.getTime() - REMINDER_INTERVAL_MS);
+
+  const loans = await prisma.loan.findMany({
+    where: {
+      status: 'OPEN',
+      deletedAt: null,
+      lines: { some: { returnedAt: null } },
+      OR: [
+        { dueAt: { lt: now } },
+        { lines: { some: { dueAt: { lt: now }, returnedAt: null } } }
+      ],
+      notificationLogs: {
+        none: { event: 'OVERDUE_REMINDER', status: 'SENT', createdAt: { gte: since } }
+      }
+    },
+    select: { id: true },
+    orderBy: { dueAt: 'asc' }
+  });
+
+  const totals = { loans: loans.length, sent: 0, failed: 0 };
+  for (const loan of loans) {
+    const { sent, failed } = await notifyLoanEvent('OVERDUE_REMINDER', loan.id);
+    totals.sent += sent;
+    totals.failed += failed;
+  }
+
+  logger.info(`[Notifications] Overdue reminders: ${totals.loans} loans, ${totals.sent} sent, ${totals.failed} failed`);
+  return totals;
+}
+
+/**
+ * Send reminders for loans open for too long
+ *
+ * Targets OPEN loans with unreturned lines opened more than `days` days
+ * ago, whatever their due date. Loans already reminded successfully in
+ * the last 7 days are skipped.
+ *
+ * @param {number} days - Loan age threshold in days
+ * @param {Date} [now=new Date()] - Reference date
+ * @returns {Promise<{loans: number, sent: number, failed: number}>} Processed loans and delivery counts
+ */
+export async function sendLongRunningLoanReminders(days, now = new Date()) {
+  const openedBefore = new Date(now.getTime() - days * DAY_MS);
+  const since = new Date(now.getTime() - LONG_LOAN_REMINDER_INTERVAL_MS);
+
+  const loans = await prisma.loan.findMany({
+    where: {
+      status: 'OPEN',
+      deletedAt: null,
+      openedAt: { lt: openedBefore },
+      lines: { some: { returnedAt: null } },
+      notificationLogs: {
+        none: { event: 'LONG_LOAN_REMINDER', status: 'SENT', createdAt: { gte: since } }
+      }
+    },
+    select: { id: true },
+    orderBy: { openedAt: 'asc' }
+  });
+
+  const totals = { loans: loans.length, sent: 0, failed: 0 };
+  for (const loan of loans) {
+    const { sent, failed } = await notifyLoanEvent('LONG_LOAN_REMINDER', loan.id);
+    totals.sent += sent;
+    totals.failed += failed;
+  }
+
+  logger.info(`[Notifications] Long-running loan reminders (> ${days} days): ${totals.loans} loans, ${totals.sent} sent, ${totals.failed} failed`);
+  return totals;
+}
+
+/**
+ * Get the notification preferences of a user
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<Object>} { loanOpened, lineAdded, loanClosed, overdueReminder, longLoanReminder }
+ */
+export async function getNotificationSettings(userId) {
+  const setting = await prisma.notificationSetting.findUnique({ where: { userId } });
+  if (!setting) {
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  return toSettings(setting);
+}
+
+/**
+ * Update the notification preferences of a user
+ *
+ * @param {string} userId - User ID
+ * @param {Object} data - Preferences to change (missing ones keep their value)
+ * @returns {Promise<Object>} Updated preferences
+ */
+export async function updateNotificationSettings(userId, data) {
+  const setting = await prisma.notificationSetting.upsert({
+    where: { userId },
+    create: { userId, ...DEFAULT_SETTINGS, ...data },
+    update: data
+  });
+
+  return toSettings(setting);
+}
+
+/**
+ * Get the email delivery log, newest first
+ *
+ * @param {Object} [options={}]
+ * @param {string} [options.status] - SENT or FAILED
+ * @param {string} [options.event] - Notification event
+ * @param {string} [options.loanId] - Loan ID
+ * @param {string} [options.recipient] - Recipient email (partial, case insensitive)
+ * @param {number} [options.page=1]
+ * @param {number} [options.pageSize=20]
+ * @returns {Promise<Object>} Paginated response with data and pagination metadata
+ */
+export async function getNotificationLogs(options = {}) {
+  const { status, event, loanId, recipient, page = 1, pageSize = 20 } = options;
+
+  const where = {};
+  if (status) where.status = status;
+  if (event) where.event = event;
+  if (loanId) where.loanId = loanId;
+  if (recipient) where.recipient = { contains: recipient, mode: 'insensitive' };
+
+  return executePaginatedQuery(prisma.notificationLog, {
+    where,
+    orderBy: { createdAt: 'desc' },
+    include: {
+      loan: {
+        select: {
+          id: true,
+          employee: { select: { id: true, firstName: true, lastName: true } }
+        }
+      }
+    },
+    page,
+    pageSize
+  });
+}
+
+export default {
+  notifyLoanEvent,
+  sendOverdueReminders,
+  sendLongRunningLoanReminders,
+  getNotificationSettings,
+  updateNotificationSettings,
+  getNotificationLogs
+};
@@ -0,0 +1,577 @@
+/**
+ * @fileoverview Purchase orders service - Orders placed with suppliers and goods reception
+ *
+ * This service handles:
+ * - Draft orders: supplier, lines per asset model with quantity and unit price
+ * - Placing the order (DRAFT -> ORDERED), after which lines are frozen
+ * - Receptions, in one transaction:
+ *   - serialized models: one AssetItem per captured serial number, with an
+ *     auto-generated asset tag, the order supplier and unit price, linked back
+ *     to its order line (AssetItem.purchaseOrderLineId)
+ *   - consumable models (CONSUMABLE_TYPES): the stock item of the model is
+ *     incremented with a RECEPTION movement referencing the order
+ *   - received quantities and status (PARTIALLY_RECEIVED, then RECEIVED)
+ *
+ * Amounts are in cents, like AssetItem.purchasePriceCents.
+ */
+
+import prisma from '../config/database.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { logCreate, logUpdate, logDelete } from '../utils/auditHelpers.js';
+import { executePaginatedQuery } from '../utils/pagination.js';
+import { invalidateEntity } from './cache.service.js';
+import { CONSUMABLE_TYPES, generateTagPrefix } from './assetModels.service.js';
+import { findNextAvailableNumber, generateTags } from './assetItems.service.js';
+import { buildStockMovement } from './stockMovements.service.js';
+
+/**
+ * Statuses in which an order can still be received
+ */
+export const RECEIVABLE_STATUSES = ['ORDERED', 'PARTIALLY_RECEIVED'];
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  role: true
+};
+
+const MODEL_SELECT = {
+  select: {
+    id: true,
+    type: true,
+    brand: true,
+    modelName: true
+  }
+};
+
+const ORDER_LIST_INCLUDE = {
+  supplier: { select: { id: true, name: true } },
+  createdBy: { select: USER_SELECT },
+  lines: {
+    include: { assetModel: MODEL_SELECT },
+    orderBy: { id: 'asc' }
+  }
+};
+
+const ORDER_INCLUDE = {
+  createdBy: { select: USER_SELECT },
+  supplier: {
+    select: {
+      id: true,
+      name: true,
+      contactName: true,
+      email: true,
+      phone: true
+    }
+  },
+  lines: {
+    include: {
+      assetModel: MODEL_SELECT,
+      assetItems: {
+        select: {
+          id: true,
+          assetTag: true,
+          serial: true,
+          status: true
+        },
+        orderBy: { createdAt: 'asc' }
+      }
+    },
+    orderBy: { id: 'asc' }
+  }
+};
+
+function isConsumable(assetModel) {
+  return CONSUMABLE_TYPES.includes(assetModel.type);
+}
+
+/**
+ * Add the computed fields of an order: line totals, order total and the
+ * `isConsumable` flag telling the reception screen whether to capture serials
+ */
+function withTotals(order) {
+  const lines = order.lines.map((line) => ({
+    ...line,
+    isConsumable: isConsumable(line.assetModel),
+    totalCents: line.quantity * line.unitPriceCents
+  }));
+
+  return {
+    ...order,
+    lines,
+    totalCents: lines.reduce((sum, line) => sum + line.totalCents, 0)
+  };
+}
+
+async function getOrderOrFail(id) {
+  return findOneOrFail('purchaseOrder', { id }, {
+    errorMessage: 'Bon de commande non trouvé'
+  });
+}
+
+async function getDraftOrder(id) {
+  const order = await getOrderOrFail(id);
+  if (order.status !== 'DRAFT') {
+    throw new ValidationError('Seul un bon de commande en brouillon peut être modifié');
+  }
+  return order;
+}
+
+async function assertSupplierExists(supplierId) {
+  await findOneOrFail('supplier', { id: supplierId }, {
+    errorMessage: 'Fournisseur non trouvé'
+  });
+}
+
+/**
+ * Ensure every ordered asset model exists
+ *
+ * @param {Array<Object>} lines - Order lines ({ assetModelId })
+ * @throws {NotFoundError} If a model doesn't exist
+ */
+async function assertModelsExist(lines) {
+  const ids = [...new Set(lines.map((line) => line.assetModelId))];
+  const count = await prisma.assetModel.count({ where: { id: { in: ids } } });
+  if (count !== ids.length) {
+    throw new NotFoundError('Modèle d\'équipement non trouvé');
+  }
+}
+
+function toLineData(line) {
+  return {
+    assetModelId: line.assetModelId,
+    quantity: line.quantity,
+    unitPriceCents: line.unitPriceCents
+  };
+}
+
+/**
+ * Next order reference of the year (BC-2026-0001, BC-2026-0002...)
+ */
+async function generateReference() {
+  const prefix = `BC-${new Date().getFullYear()}-`;
+  const last = await prisma.purchaseOrder.findFirst({
+    where: { reference: { startsWith: prefix } },
+    orderBy: { reference: 'desc' },
+    select: { reference: true }
+  });
+  const lastNumber = last ? parseInt(last.reference.slice(prefix.length), 10) || 0 : 0;
+  return `${prefix}${(lastNumber + 1).toString().padStart(4, '0')}`;
+}
+
+/**
+ * Get purchase orders, newest first
+ *
+ * @param {Object} [options={}]
+ * @param {string} [options.status] - DRAFT, ORDERED, PARTIALLY_RECEIVED or RECEIVED
+ * @param {string} [options.supplierId] - Filter by supplier
+ * @param {number} [options.page=1]
+ * @param {number} [options.pageSize=20]
+ * @returns {Promise<Object>} Paginated response with data (with totals) and pagination metadata
+ */
+export async function getPurchaseOrders(options = {}) {
+  const { status, supplierId, page = 1, pageSize = 20 } = options;
+
+  const where = {};
+  if (status) where.status = status;
+  if (supplierId) where.supplierId = supplierId;
+
+  const result = await executePaginatedQuery(prisma.purchaseOrder, {
+    where,
+    orderBy: { createdAt: 'desc' },
+    include: ORDER_LIST_INCLUDE,
+    page,
+    pageSize
+  });
+
+  return { ...result, data: result.data.map(withTotals) };
+}
+
+/**
+ * Get a single purchase order with its lines and the asset items received
+ *
+ * @param {string} id - Order ID
+ * @returns {Promise<Object>} Order with supplier, lines (model, received items) and totals
+ * @throws {NotFoundError} If order doesn't exist
+ */
+export async function getPurchaseOrderById(id) {
+  const order = await findOneOrFail('purchaseOrder', { id }, {
+    include: ORDER_INCLUDE,
+    errorMessage: 'Bon de commande non trouvé'
+  });
+
+  return withTotals(order);
+}
+
+/**
+ * Create a draft purchase order
+ *
+ * @param {Object} data - Order data
+ * @param {string} data.supplierId - Supplier
+ * @param {string} [data.notes] - Free-text notes
+ * @param {Array<Object>} data.lines - [{ assetModelId, quantity, unitPriceCents }], one line per model
+ * @param {string} createdById - The user ID creating the order
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Created order
+ * @throws {NotFoundError} If supplier or an asset model doesn't exist
+ *
+ * @example
+ * await createPurchaseOrder({
+ *   supplierId: 'supplier123',
+ *   lines: [{ assetModelId: 'model456', quantity: 10, unitPriceCents: 89900 }]
+ * }, 'user789', req);
+ */
+export async function createPurchaseOrder(data, createdById, req) {
+  await assertSupplierExists(data.supplierId);
+  await assertModelsExist(data.lines);
+
+  const reference = await generateReference();
+
+  const order = await prisma.purchaseOrder.create({
+    data: {
+      reference,
+      supplierId: data.supplierId,
+      notes: data.notes || null,
+      createdById,
+      lines: { create: data.lines.map(toLineData) }
+    },
+    include: ORDER_INCLUDE
+  });
+
+  // Audit trail
+  await logCreate('PurchaseOrder', order.id, req, { reference, ...data });
+
+  return withTotals(order);
+}
+
+/**
+ * Update a draft purchase order (lines, when given, replace the current ones)
+ *
+ * @param {string} id - Order ID
+ * @param {Object} data - Fields to update (supplierId, notes, lines)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated order
+ * @throws {NotFoundError} If order, supplier or an asset model doesn't exist
+ * @throws {ValidationError} If order is no longer a draft
+ */
+export async function updatePurchaseOrder(id, data, req) {
+  const existing = await getDraftOrder(id);
+
+  if (data.supplierId) await assertSupplierExists(data.supplierId);
+  if (data.lines) await assertModelsExist(data.lines);
+
+  const { lines, ...fields } = data;
+
+  const order = await prisma.$transaction(async (tx) => {
+    if (lines) {
+      await tx.purchaseOrderLine.deleteMany({ where: { purchaseOrderId: id } });
+    }
+
+    return tx.purchaseOrder.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(lines && { lines: { create: lines.map(toLineData) } })
+      },
+      include: ORDER_INCLUDE
+    });
+  });
+
+  // Audit trail
+  await logUpdate('PurchaseOrder', id, req,
+    { supplierId: existing.supplierId, notes: existing.notes },
+    data
+  );
+
+  return withTotals(order);
+}
+
+/**
+ * Place a draft order with its supplier (DRAFT -> ORDERED)
+ *
+ * @param {string} id - Order ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Ordered purchase order
+ * @throws {NotFoundError} If order doesn't exist
+ * @throws {ValidationError} If order is no longer a draft
+ */
+export async function placePurchaseOrder(id, req) {
+  await getDraftOrder(id);
+
+  const order = await prisma.purchaseOrder.update({
+    where: { id },
+    data: {
+      status: 'ORDERED',
+      orderedAt: new Date()
+    },
+    include: ORDER_INCLUDE
+  });
+
+  // Audit trail
+  await logUpdate('PurchaseOrder', id, req, { status: 'DRAFT' }, { status: 'ORDERED' });
+
+  return withTotals(order);
+}
+
+/**
+ * Delete a draft purchase order
+ *
+ * @param {string} id - Order ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Deleted order
+ * @throws {NotFoundError} If order doesn't exist
+ * @throws {ValidationError} If order is no longer a draft
+ */
+export async function deletePurchaseOrder(id, req) {
+  const order = await getDraftOrder(id);
+
+  await prisma.purchaseOrder.delete({ where: { id } });
+
+  // Audit trail
+  await logDelete('PurchaseOrder', id, req, order);
+
+  return order;
+}
+
+/**
+ * Check a reception against the order lines
+ *
+ * @returns {Array<Object>} [{ line, quantity, serials }] with the order line of each entry
+ * @throws {ValidationError} If a line is unknown, received twice, over-received,
+ *   or its serial numbers do not match the kind of model
+ */
+function resolveReceptionLines(order, entries) {
+  const linesById = new Map(order.lines.map((line) => [line.id, line]));
+  const seen = new Set();
+
+  return entries.map((entry) => {
+    const line = linesById.get(entry.lineId);
+    if (!line) {
+      throw new ValidationError('Cette ligne n\'appartient pas au bon de commande');
+    }
+    if (seen.has(line.id)) {
+      throw new ValidationError('Chaque ligne ne peut être réceptionnée qu\'une fois par réception');
+    }
+    seen.add(line.id);
+
+    const label = `${line.assetModel.brand} ${line.assetModel.modelName}`;
+    const serials = entry.serials ?? [];
+
+    if (isConsumable(line.assetModel)) {
+      if (serials.length > 0) {
+        throw new ValidationError(`${label} est un consommable : indiquez une quantité, pas de numéros de série`);
+      }
+    } else if (serials.length === 0) {
+      throw new ValidationError(`Saisissez le numéro de série de chaque ${label} reçu`);
+    }
+
+    const quantity = isConsumable(line.assetModel) ? entry.quantity : serials.length;
+    if (!quantity || quantity < 1) {
+      throw new ValidationError(`Indiquez la quantité de ${label} reçue`);
+    }
+
+    const remaining = line.quantity - line.receivedQuantity;
+    if (quantity > remaining) {
+      throw new ValidationError(`Quantité reçue trop élevée pour ${label} : ${remaining} restant(s) à recevoir`);
+    }
+
+    return { line, quantity, serials };
+  });
+}
+
+/**
+ * Ensure the captured serial numbers are unique (in the reception and in the fleet)
+ *
+ * @throws {ConflictError} If a serial number is duplicated or already exists
+ */
+async function assertSerialsAvailable(tx, serials) {
+  const duplicates = serials.filter((serial, index) => serials.indexOf(serial) !== index);
+  if (duplicates.length > 0) {
+    throw new ConflictError(`Numéro(s) de série saisi(s) plusieurs fois : ${[...new Set(duplicates)].join(', ')}`);
+  }
+
+  const existing = await tx.assetItem.findMany({
+    where: { serial: { in: serials } },
+    select: { serial: true }
+  });
+  if (existing.length > 0) {
+    throw new ConflictError(`Ces numéros de série existent déjà : ${existing.map((item) => item.serial).join(', ')}`);
+  }
+}
+
+/**
+ * Receive (part of) a purchase order
+ *
+ * Everything happens in one transaction: the serialized asset items are
+ * created (EN_STOCK, tag generated from the type prefix, supplier, invoice,
+ * purchase date and unit price of the order, linked to their order line),
+ * the consumable stock is incremented with a RECEPTION movement, and the
+ * received quantities and order status are updated.
+ *
+ * Consumables go to the oldest stock item of the model, created (with the
+ * order supplier) when the model has none yet.
+ *
+ * @param {string} id - Order ID
+ * @param {Object} data - Reception
+ * @param {Array<Object>} data.lines - [{ lineId, serials }] for serialized models,
+ *   [{ lineId, quantity }] for consumables
+ * @param {string} [data.invoiceNumber] - Supplier invoice, recorded on the asset items
+ * @param {Date} [data.receivedAt] - Delivery date, purchase date of the asset items (now by default)
+ * @param {string} [data.location] - Where the asset items are stored
+ * @param {Object} req - Express request object (actor and audit trail)
+ * @returns {Promise<Object>} `{ order, assetItems, stockItems }` with the updated order,
+ *   the created asset items and the incremented stock items ({ stockItemId, quantity })
+ * @throws {NotFoundError} If order doesn't exist
+ * @throws {ValidationError} If order cannot be received or a line doesn't match the order
+ * @throws {ConflictError} If a serial number already exists
+ *
+ * @example
+ * await receivePurchaseOrder('order123', {
+ *   invoiceNumber: 'FA-2026-0042',
+ *   lines: [
+ *     { lineId: 'line1', serials: ['5CD1234XYZ', '5CD1234XZA'] },
+ *     { lineId: 'line2', quantity: 20 }
+ *   ]
+ * }, req);
+ */
+export async function receivePurchaseOrder(id, data, req) {
+  const receivedAt = data.receivedAt ?? new Date();
+
+  const result = await prisma.$transaction(async (tx) => {
+    const order = await tx.purchaseOrder.findUnique({
+      where: { id },
+      include: { lines: { include: { assetModel: MODEL_SELECT } } }
+    });
+    if (!order) {
+      throw new NotFoundError('Bon de commande non trouvé');
+    }
+    if (!RECEIVABLE_STATUSES.includes(order.status)) {
+      throw new ValidationError(order.status === 'DRAFT'
+        ? 'Passez la commande avant de la réceptionner'
+        : 'Ce bon de commande est déjà entièrement reçu');
+    }
+
+    const receptions = resolveReceptionLines(order, data.lines);
+    await assertSerialsAvailable(tx, receptions.flatMap((reception) => reception.serials));
+
+    // Next tag number per prefix, several lines may share a type
+    const nextNumbers = new Map();
+    const assetItems = [];
+    const stockItems = [];
+
+    for (const { line, quantity, serials } of receptions) {
+      if (isConsumable(line.assetModel)) {
+        const movement = buildStockMovement('RECEPTION', {
+          quantityDelta: quantity,
+          reason: `Réception ${order.reference}`,
+          referenceType: 'PurchaseOrder',
+          referenceId: order.id
+        }, req);
+        const stockItem = await tx.stockItem.findFirst({
+          where: { assetModelId: line.assetModelId },
+          orderBy: { createdAt: 'asc' }
+        });
+        const updated = stockItem
+          ? await tx.stockItem.update({
+            where: { id: stockItem.id },
+            data: { quantity: { increment: quantity }, movements: { create: movement } }
+          })
+          : await tx.stockItem.create({
+            data: {
+              assetModelId: line.assetModelId,
+              quantity,
+              loaned: 0,
+              supplierId: order.supplierId,
+              location: data.location || null,
+              movements: { create: movement }
+            }
+          });
+        stockItems.push({ stockItemId: updated.id, quantity });
+      } else {
+        const prefix = generateTagPrefix(line.assetModel.type);
+        if (!nextNumbers.has(prefix)) {
+          nextNumbers.set(prefix, await findNextAvailableNumber(prefix));
+        }
+        const tags = generateTags(prefix, nextNumbers.get(prefix), quantity);
+        nextNumbers.set(prefix, nextNumbers.get(prefix) + quantity);
+
+        for (const [index, serial] of serials.entries()) {
+          const item = await tx.assetItem.create({
+            data: {
+              assetModelId: line.assetModelId,
+              assetTag: tags[index],
+              serial,
+              status: 'EN_STOCK',
+              location: data.location || null,
+              supplierId: order.supplierId,
+              invoiceNumber: data.invoiceNumber || null,
+              purchaseDate: receivedAt,
+              purchasePriceCents: line.unitPriceCents,
+              purchaseOrderLineId: line.id
+            },
+            include: { assetModel: true }
+          });
+          assetItems.push(item);
+        }
+      }
+
+      await tx.purchaseOrderLine.update({
+        where: { id: line.id },
+        data: { receivedQuantity: { increment: quantity } }
+      });
+    }
+
+    const receivedByLine = new Map(receptions.map(({ line, quantity }) => [line.id, quantity]));
+    const complete = order.lines.every((line) =>
+      line.receivedQuantity + (receivedByLine.get(line.id) ?? 0) >= line.quantity
+    );
+    const status = complete ? 'RECEIVED' : 'PARTIALLY_RECEIVED';
+
+    const updatedOrder = await tx.purchaseOrder.update({
+      where: { id },
+      data: {
+        status,
+        ...(complete && { receivedAt })
+      },
+      include: ORDER_INCLUDE
+    });
+
+    return { previousStatus: order.status, order: updatedOrder, assetItems, stockItems };
+  }, { isolationLevel: 'Serializable' });
+
+  // Audit trail
+  await logUpdate('PurchaseOrder', id, req,
+    { status: result.previousStatus },
+    {
+      status: result.order.status,
+      invoiceNumber: data.invoiceNumber ?? null,
+      received: data.lines.map(({ lineId, quantity, serials }) => ({ lineId, quantity: serials?.length || quantity })),
+      assetItemIds: result.assetItems.map((item) => item.id)
+    }
+  );
+
+  if (result.assetItems.length > 0) {
+    await invalidateEntity('asset_items');
+    await invalidateEntity('asset_models');
+  }
+  if (result.stockItems.length > 0) {
+    await invalidateEntity('stock_items');
+  }
+
+  return {
+    order: withTotals(result.order),
+    assetItems: result.assetItems,
+    stockItems: result.stockItems
+  };
+}
+
+export default {
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  placePurchaseOrder,
+  deletePurchaseOrder,
+  receivePurchaseOrder
+};
@@ -0,0 +1,304 @@
+/**
+ * @fileoverview Repair tickets service - Follow-up of equipment sent to repair
+ *
+ * This service handles:
+ * - Opening a ticket (fault, vendor, RMA number, quote, expected return),
+ *   which moves the asset item to REPARATION
+ * - Tracking the ticket through OPEN → SENT → QUOTED → IN_REPAIR
+ * - Closing it with the final cost and outcome: REPAIRED puts the item
+ *   back EN_STOCK, SCRAPPED sets it HS
+ *
+ * An asset item has at most one ticket that is not CLOSED. While it is
+ * open, the item status can only change by closing the ticket.
+ * Amounts are stored in cents.
+ */
+
+import prisma from '../config/database.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { logCreate, logUpdate } from '../utils/auditHelpers.js';
+import { executePaginatedQuery } from '../utils/pagination.js';
+import { invalidateEntity } from './cache.service.js';
+
+const REPAIR_TICKET_INCLUDE = {
+  assetItem: {
+    include: {
+      assetModel: true
+    }
+  },
+  createdBy: {
+    select: {
+      id: true,
+      email: true,
+      role: true
+    }
+  },
+  closedBy: {
+    select: {
+      id: true,
+      email: true,
+      role: true
+    }
+  }
+};
+
+/**
+ * Asset status set when a ticket is closed with each outcome
+ */
+const OUTCOME_STATUS = {
+  REPAIRED: 'EN_STOCK',
+  SCRAPPED: 'HS'
+};
+
+async function invalidateAssetCaches() {
+  await invalidateEntity('asset_items');
+  await invalidateEntity('asset_models'); // Update model counts
+}
+
+/**
+ * Get repair tickets with optional filters
+ *
+ * Open tickets (`open: true`) are ordered by expected return date, the
+ * ones without date last, so late repairs come first. Other listings are
+ * ordered by opening date, newest first.
+ *
+ * @param {Object} [options={}]
+ * @param {string} [options.status] - OPEN, SENT, QUOTED, IN_REPAIR or CLOSED
+ * @param {boolean} [options.open] - Only tickets that are not CLOSED
+ * @param {string} [options.assetItemId] - Filter by asset item
+ * @param {string} [options.search] - Vendor, RMA number or asset tag (partial, case insensitive)
+ * @param {number} [options.page=1]
+ * @param {number} [options.pageSize=20]
+ * @returns {Promise<Object>} Paginated response with data and pagination metadata
+ *
+ * @example
+ * // Dashboard widget
+ * const { data } = await getRepairTickets({ open: true, pageSize: 5 });
+ */
+export async function getRepairTickets(options = {}) {
+  const { status, open, assetItemId, search, page = 1, pageSize = 20 } = options;
+
+  const where = {};
+  if (status) where.status = status;
+  if (open) where.status = { not: 'CLOSED' };
+  if (assetItemId) where.assetItemId = assetItemId;
+  if (search) {
+    where.OR = [
+      { vendor: { contains: search, mode: 'insensitive' } },
+      { rmaNumber: { contains: search, mode: 'insensitive' } },
+      { assetItem: { assetTag: { contains: search, mode: 'insensitive' } } }
+    ];
+  }
+
+  return executePaginatedQuery(prisma.repairTicket, {
+    where,
+    orderBy: open
+      ? [{ expectedReturnAt: { sort: 'asc', nulls: 'last' } }, { openedAt: 'asc' }]
+      : { openedAt: 'desc' },
+    include: REPAIR_TICKET_INCLUDE,
+    page,
+    pageSize
+  });
+}
+
+/**
+ * Get a single repair ticket by ID
+ *
+ * @param {string} id - Repair ticket ID
+ * @returns {Promise<Object>} Ticket with asset item, opener and closer
+ * @throws {NotFoundError} If ticket doesn't exist
+ */
+export async function getRepairTicketById(id) {
+  return findOneOrFail('repairTicket', { id }, {
+    include: REPAIR_TICKET_INCLUDE,
+    errorMessage: 'Ticket de réparation non trouvé'
+  });
+}
+
+/**
+ * Get the ticket of an asset item that is not closed yet
+ *
+ * @param {string} assetItemId - Asset item ID
+ * @param {Object} [client=prisma] - Prisma client or transaction
+ * @returns {Promise<Object|null>} Open ticket or null
+ */
+export async function getOpenRepairTicket(assetItemId, client = prisma) {
+  return client.repairTicket.findFirst({
+    where: { assetItemId, status: { not: 'CLOSED' } }
+  });
+}
+
+/**
+ * Open a repair ticket and move the asset item to REPARATION
+ *
+ * @param {Object} data - Ticket data
+ * @param {string} data.assetItemId - Asset item to repair
+ * @param {string} data.fault - Fault description
+ * @param {string} [data.vendor] - Repair vendor (prestataire)
+ * @param {string} [data.rmaNumber] - Vendor RMA number
+ * @param {number} [data.quoteCents] - Quoted amount in cents
+ * @param {Date} [data.expectedReturnAt] - Expected return date
+ * @param {string} createdById - The user ID opening the ticket
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Created ticket
+ * @throws {NotFoundError} If asset item doesn't exist
+ * @throws {ValidationError} If the asset item is currently loaned
+ * @throws {ConflictError} If the asset item already has an open ticket
+ *
+ * @example
+ * await createRepairTicket({
+ *   assetItemId: 'laptop123',
+ *   fault: 'Écran qui clignote',
+ *   vendor: 'Dell ProSupport',
+ *   expectedReturnAt: new Date('2026-11-06')
+ * }, 'user456', req);
+ */
+export async function createRepairTicket(data, createdById, req) {
+  const assetItem = await findOneOrFail('assetItem', { id: data.assetItemId }, {
+    errorMessage: 'Article d\'équipement non trouvé'
+  });
+
+  if (assetItem.status === 'PRETE') {
+    throw new ValidationError('Impossible d\'envoyer en réparation un équipement prêté : enregistrez d\'abord son retour');
+  }
+  if (assetItem.status === 'REFORME') {
+    throw new ValidationError('Impossible d\'envoyer en réparation un équipement réformé');
+  }
+
+  const ticket = await prisma.$transaction(async (tx) => {
+    if (await getOpenRepairTicket(data.assetItemId, tx)) {
+      throw new ConflictError('Un ticket de réparation est déjà ouvert pour cet équipement');
+    }
+
+    // Guarded update: the item may have been loaned or retired since the read
+    const { count } = await tx.assetItem.updateMany({
+      where: { id: data.assetItemId, status: { notIn: ['PRETE', 'REFORME'] } },
+      data: { status: 'REPARATION' }
+    });
+    if (count === 0) {
+      throw new ValidationError('Impossible d\'envoyer en réparation un équipement prêté ou réformé');
+    }
+
+    return tx.repairTicket.create({
+      data: {
+        ...data,
+        createdById
+      },
+      include: REPAIR_TICKET_INCLUDE
+    });
+  }, { isolationLevel: 'Serializable' });
+
+  // Audit trail
+  await logCreate('RepairTicket', ticket.id, req, data);
+  if (assetItem.status !== 'REPARATION') {
+    await logUpdate('AssetItem', assetItem.id, req,
+      { status: assetItem.status },
+      { status: 'REPARATION', repairTicketId: ticket.id }
+    );
+  }
+
+  await invalidateAssetCaches();
+
+  return ticket;
+}
+
+/**
+ * Update the tracking state or details of an open repair ticket
+ *
+ * Closing goes through closeRepairTicket, which also sets the asset status.
+ *
+ * @param {string} id - Repair ticket ID
+ * @param {Object} data - Fields to update (status, fault, vendor, rmaNumber, quoteCents, expectedReturnAt)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated ticket
+ * @throws {NotFoundError} If ticket doesn't exist
+ * @throws {ValidationError} If ticket is already closed
+ */
+export async function updateRepairTicket(id, data, req) {
+  const ticket = await findOneOrFail('repairTicket', { id }, {
+    errorMessage: 'Ticket de réparation non trouvé'
+  });
+
+  if (ticket.status === 'CLOSED') {
+    throw new ValidationError('Un ticket de réparation clôturé ne peut plus être modifié');
+  }
+
+  const updated = await prisma.repairTicket.update({
+    where: { id },
+    data,
+    include: REPAIR_TICKET_INCLUDE
+  });
+
+  // Audit trail
+  await logUpdate('RepairTicket', id, req, ticket, data);
+
+  return updated;
+}
+
+/**
+ * Close a repair ticket and set the asset item status from its outcome
+ *
+ * @param {string} id - Repair ticket ID
+ * @param {Object} data - Closing data
+ * @param {string} data.outcome - REPAIRED (back EN_STOCK) or SCRAPPED (HS)
+ * @param {number} [data.finalCostCents] - Final cost in cents
+ * @param {string} [data.closingNote] - Free-text note
+ * @param {string} closedById - The user ID closing the ticket
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Closed ticket
+ * @throws {NotFoundError} If ticket doesn't exist
+ * @throws {ValidationError} If ticket is already closed
+ *
+ * @example
+ * await closeRepairTicket('ticket123', { outcome: 'REPAIRED', finalCostCents: 12900 }, 'user456', req);
+ */
+export async function closeRepairTicket(id, data, closedById, req) {
+  const ticket = await findOneOrFail('repairTicket', { id }, {
+    include: { assetItem: true },
+    errorMessage: 'Ticket de réparation non trouvé'
+  });
+
+  if (ticket.status === 'CLOSED') {
+    throw new ValidationError('Ce ticket de réparation est déjà clôturé');
+  }
+
+  const assetStatus = OUTCOME_STATUS[data.outcome];
+
+  const closed = await prisma.$transaction(async (tx) => {
+    await tx.assetItem.update({
+      where: { id: ticket.assetItemId },
+      data: { status: assetStatus }
+    });
+
+    return tx.repairTicket.update({
+      where: { id },
+      data: {
+        ...data,
+        status: 'CLOSED',
+        closedAt: new Date(),
+        closedById
+      },
+      include: REPAIR_TICKET_INCLUDE
+    });
+  });
+
+  // Audit trail
+  await logUpdate('RepairTicket', id, req, { status: ticket.status }, { status: 'CLOSED', ...data });
+  await logUpdate('AssetItem', ticket.assetItemId, req,
+    { status: ticket.assetItem.status },
+    { status: assetStatus, repairTicketId: id }
+  );
+
+  await invalidateAssetCaches();
+
+  return closed;
+}
+
+export default {
+  getRepairTickets,
+  getRepairTicketById,
+  getOpenRepairTicket,
+  createRepairTicket,
+  updateRepairTicket,
+  closeRepairTicket
+};
@@ -0,0 +1,468 @@
+/**
+ * @fileoverview Reservations service - Business logic for equipment bookings
+ *
+ * This service handles:
+ * - Earmarking an asset item or a stock quantity for an employee over a period
+ * - Conflict detection against open loans and other active reservations
+ * - Cancellation and one-step conversion of a reservation into a loan
+ *
+ * A reservation does not change AssetItem.status: the item stays EN_STOCK
+ * until the loan is actually created, but loans and other reservations
+ * overlapping the booked period are rejected.
+ */
+
+import prisma from '../config/database.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { logCreate, logUpdate } from '../utils/auditHelpers.js';
+import { getLoanById } from './loans.service.js';
+import { notifyLoanEvent } from './notifications.service.js';
+import { buildStockMovement } from './stockMovements.service.js';
+
+const RESERVATION_INCLUDE = {
+  employee: true,
+  assetItem: {
+    include: {
+      assetModel: true
+    }
+  },
+  stockItem: {
+    include: {
+      assetModel: true
+    }
+  },
+  createdBy: {
+    select: {
+      id: true,
+      email: true,
+      role: true
+    }
+  }
+};
+
+/**
+ * Format a date as dd/mm/yyyy for error messages
+ *
+ * @param {Date|string} date - Date to format
+ * @returns {string} French short date
+ */
+function formatDay(date) {
+  return new Date(date).toLocaleDateString('fr-FR');
+}
+
+/**
+ * Build the Prisma WHERE fragment matching reservations overlapping a period
+ *
+ * Two periods overlap when each one starts before the other ends.
+ *
+ * @param {Date} startDate - Period start
+ * @param {Date} endDate - Period end
+ * @returns {Object} Prisma WHERE fragment
+ */
+function buildOverlapWhere(startDate, endDate) {
+  return {
+    status: 'ACTIVE',
+    startDate: { lt: endDate },
+    endDate: { gt: startDate }
+  };
+}
+
+/**
+ * Ensure the requested item is free for the whole period
+ *
+ * Asset items: no other active reservation overlaps, and no open loan of
+ * another employee keeps the item past the start date (a loan without due
+ * date is considered open-ended).
+ * Stock items: quantity - loaned - units reserved on the period covers the request.
+ *
+ * @param {Object} data - Reservation data
+ * @param {string} [excludeId] - Reservation being updated (ignored in overlap checks)
+ * @throws {NotFoundError} If the asset or stock item doesn't exist
+ * @throws {ValidationError} If the asset is out of service
+ * @throws {ConflictError} If the period is not available
+ */
+async function assertAvailability(data, excludeId) {
+  const { employeeId, assetItemId, stockItemId, quantity = 1, startDate, endDate } = data;
+  const overlapWhere = {
+    ...buildOverlapWhere(startDate, endDate),
+    ...(excludeId && { id: { not: excludeId } })
+  };
+
+  if (assetItemId) {
+    const assetItem = await findOneOrFail('assetItem', { id: assetItemId }, {
+      errorMessage: 'Article d\'équipement non trouvé'
+    });
+    if (assetItem.status === 'HS') {
+      throw new ValidationError('Impossible de réserver un équipement hors service');
+    }
+    if (assetItem.status === 'REFORME') {
+      throw new ValidationError('Impossible de réserver un équipement réformé');
+    }
+
+    const overlapping = await prisma.reservation.findFirst({
+      where: { assetItemId, ...overlapWhere },
+      include: { employee: true },
+      orderBy: { startDate: 'asc' }
+    });
+    if (overlapping) {
+      throw new ConflictError(
+        `Équipement déjà réservé pour ${overlapping.employee.firstName} ${overlapping.employee.lastName} ` +
+        `du ${formatDay(overlapping.startDate)} au ${formatDay(overlapping.endDate)}`
+      );
+    }
+
+    const activeLine = await prisma.loanLine.findFirst({
+      where: {
+        assetItemId,
+        returnedAt: null,
+        loan: { status: 'OPEN', deletedAt: null }
+      },
+      include: {
+        loan: {
+          include: { employee: true }
+        }
+      }
+    });
+    if (activeLine && activeLine.loan.employeeId !== employeeId) {
+      const expectedBack = activeLine.dueAt ?? activeLine.loan.dueAt;
+      if (!expectedBack || expectedBack > startDate) {
+        const { firstName, lastName } = activeLine.loan.employee;
+        throw new ConflictError(expectedBack
+          ? `Équipement prêté à ${firstName} ${lastName} jusqu'au ${formatDay(expectedBack)}`
+          : `Équipement prêté à ${firstName} ${lastName} sans date de retour prévue`);
+      }
+    }
+  }
+
+  if (stockItemId) {
+    const stockItem = await findOneOrFail('stockItem', { id: stockItemId }, {
+      errorMessage: 'Article de stock non trouvé'
+    });
+
+    const { _sum } = await prisma.reservation.aggregate({
+      where: { stockItemId, ...overlapWhere },
+      _sum: { quantity: true }
+    });
+    const available = stockItem.quantity - (stockItem.loaned || 0) - (_sum.quantity || 0);
+    if (quantity > available) {
+      throw new ConflictError(`Quantité insuffisante sur la période (disponible: ${Math.max(available, 0)})`);
+    }
+  }
+}
+
+/**
+ * Get reservations with optional filters
+ *
+ * @param {Object} [filters={}] - Query filters
+ * @param {string} [filters.status] - ACTIVE, CONVERTED or CANCELLED
+ * @param {string} [filters.employeeId] - Filter by employee
+ * @param {string} [filters.assetItemId] - Filter by asset item
+ * @param {string} [filters.stockItemId] - Filter by stock item
+ * @param {Date} [filters.from] - Only reservations ending after this date
+ * @param {Date} [filters.to] - Only reservations starting before this date
+ * @returns {Promise<Array>} Reservations ordered by start date (capped at 500)
+ *
+ * @example
+ * // Upcoming bookings of an employee
+ * const reservations = await getAllReservations({ employeeId: 'emp123', status: 'ACTIVE' });
+ */
+export async function getAllReservations(filters = {}) {
+  const { status, employeeId, assetItemId, stockItemId, from, to } = filters;
+
+  const where = {};
+  if (status) where.status = status;
+  if (employeeId) where.employeeId = employeeId;
+  if (assetItemId) where.assetItemId = assetItemId;
+  if (stockItemId) where.stockItemId = stockItemId;
+  if (from) where.endDate = { gte: from };
+  if (to) where.startDate = { lte: to };
+
+  return prisma.reservation.findMany({
+    where,
+    orderBy: { startDate: 'asc' },
+    take: 500,
+    include: RESERVATION_INCLUDE
+  });
+}
+
+/**
+ * Get a single reservation by ID
+ *
+ * @param {string} id - Reservation ID
+ * @returns {Promise<Object>} Reservation with employee, item and creator
+ * @throws {NotFoundError} If reservation doesn't exist
+ */
+export async function getReservationById(id) {
+  return findOneOrFail('reservation', { id }, {
+    include: RESERVATION_INCLUDE,
+    errorMessage: 'Réservation non trouvée'
+  });
+}
+
+/**
+ * Create a reservation
+ *
+ * @param {Object} data - Reservation data
+ * @param {string} data.employeeId - Employee the item is earmarked for
+ * @param {string} [data.assetItemId] - Asset item to book
+ * @param {string} [data.stockItemId] - Stock item to book
+ * @param {number} [data.quantity=1] - Units to book (stock items only)
+ * @param {Date} data.startDate - First day of the booking
+ * @param {Date} data.endDate - Last day of the booking
+ * @param {string} [data.notes] - Free-text notes
+ * @param {string} createdById - The user ID creating the reservation
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Created reservation
+ * @throws {NotFoundError} If employee or item doesn't exist
+ * @throws {ValidationError} If employee is archived
+ * @throws {ConflictError} If the item is not available over the period
+ *
+ * @example
+ * // Laptop for a new hire starting in two weeks
+ * await createReservation({
+ *   employeeId: 'newcomer123',
+ *   assetItemId: 'laptop456',
+ *   startDate: new Date('2026-11-02'),
+ *   endDate: new Date('2027-11-02')
+ * }, 'user789', req);
+ */
+export async function createReservation(data, createdById, req) {
+  const employee = await findOneOrFail('employee', { id: data.employeeId }, {
+    errorMessage: 'Employé non trouvé'
+  });
+  if (employee.archivedAt) {
+    throw new ValidationError('Impossible de réserver pour un employé archivé');
+  }
+
+  const reservationData = {
+    ...data,
+    // Assets are booked one by one
+    quantity: data.assetItemId ? 1 : (data.quantity || 1)
+  };
+
+  await assertAvailability(reservationData);
+
+  const reservation = await prisma.reservation.create({
+    data: {
+      ...reservationData,
+      createdById
+    },
+    include: RESERVATION_INCLUDE
+  });
+
+  // Audit trail
+  await logCreate('Reservation', reservation.id, req, reservationData);
+
+  return reservation;
+}
+
+/**
+ * Update the period, quantity or notes of an active reservation
+ *
+ * The booked item and employee cannot change: cancel and book again instead.
+ *
+ * @param {string} id - Reservation ID
+ * @param {Object} data - Fields to update (startDate, endDate, quantity, notes)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated reservation
+ * @throws {NotFoundError} If reservation doesn't exist
+ * @throws {ValidationError} If reservation is not active or dates are inverted
+ * @throws {ConflictError} If the new period is not available
+ */
+export async function updateReservation(id, data, req) {
+  const reservation = await findOneOrFail('reservation', { id }, {
+    errorMessage: 'Réservation non trouvée'
+  });
+
+  if (reservation.status !== 'ACTIVE') {
+    throw new ValidationError('Seule une réservation active peut être modifiée');
+  }
+
+  const merged = {
+    employeeId: reservation.employeeId,
+    assetItemId: reservation.assetItemId,
+    stockItemId: reservation.stockItemId,
+    quantity: reservation.assetItemId ? 1 : (data.quantity ?? reservation.quantity),
+    startDate: data.startDate ?? reservation.startDate,
+    endDate: data.endDate ?? reservation.endDate
+  };
+
+  if (merged.endDate <= merged.startDate) {
+    throw new ValidationError('La date de fin doit être postérieure à la date de début');
+  }
+
+  await assertAvailability(merged, id);
+
+  const updated = await prisma.reservation.update({
+    where: { id },
+    data: {
+      quantity: merged.quantity,
+      startDate: merged.startDate,
+      endDate: merged.endDate,
+      ...(data.notes !== undefined && { notes: data.notes })
+    },
+    include: RESERVATION_INCLUDE
+  });
+
+  // Audit trail
+  await logUpdate('Reservation', id, req, reservation, data);
+
+  return updated;
+}
+
+/**
+ * Cancel an active reservation
+ *
+ * The reservation is kept (status CANCELLED) for history.
+ *
+ * @param {string} id - Reservation ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Cancelled reservation
+ * @throws {NotFoundError} If reservation doesn't exist
+ * @throws {ValidationError} If reservation is not active
+ */
+export async function cancelReservation(id, req) {
+  const reservation = await findOneOrFail('reservation', { id }, {
+    errorMessage: 'Réservation non trouvée'
+  });
+
+  if (reservation.status !== 'ACTIVE') {
+    throw new ValidationError('Seule une réservation active peut être annulée');
+  }
+
+  const cancelled = await prisma.reservation.update({
+    where: { id },
+    data: { status: 'CANCELLED' },
+    include: RESERVATION_INCLUDE
+  });
+
+  // Audit trail
+  await logUpdate('Reservation', id, req, { status: reservation.status }, { status: 'CANCELLED' });
+
+  return cancelled;
+}
+
+/**
+ * Convert an active reservation into a loan
+ *
+ * Creates an OPEN loan for the reserved employee (due at the reservation
+ * end date) with one line for the booked item, in a single transaction:
+ * - Asset: conditional EN_STOCK → PRETE update, fails if the item is not in stock
+ * - Stock: same atomic UPDATE "StockItem" as addLoanLine, fails if units are
+ *   missing once the other reservations overlapping the loan are set aside
+ * The reservation becomes CONVERTED and keeps a link to the loan.
+ * The loan still needs its pickup signature.
+ *
+ * @param {string} id - Reservation ID
+ * @param {string} createdById - The user ID creating the loan
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} The new loan with its line
+ * @throws {NotFoundError} If reservation doesn't exist
+ * @throws {ValidationError} If reservation is not active, its employee is archived or the item is unavailable
+ *
+ * @example
+ * const loan = await convertReservationToLoan('reservation123', 'user456', req);
+ * // loan.lines[0].assetItemId === reservation.assetItemId
+ */
+export async function convertReservationToLoan(id, createdById, req) {
+  const reservation = await findOneOrFail('reservation', { id }, {
+    include: { employee: true },
+    errorMessage: 'Réservation non trouvée'
+  });
+
+  if (reservation.status !== 'ACTIVE') {
+    throw new ValidationError('Seule une réservation active peut être convertie en prêt');
+  }
+  if (reservation.employee.archivedAt) {
+    throw new ValidationError('Impossible de créer un prêt pour un employé archivé');
+  }
+
+  const loan = await prisma.$transaction(async (tx) => {
+    const created = await tx.loan.create({
+      data: {
+        employeeId: reservation.employeeId,
+        createdById,
+        status: 'OPEN',
+        dueAt: reservation.endDate
+      }
+    });
+
+    if (reservation.assetItemId) {
+      const { count } = await tx.assetItem.updateMany({
+        where: { id: reservation.assetItemId, status: 'EN_STOCK' },
+        data: { status: 'PRETE' }
+      });
+      if (count === 0) {
+        throw new ValidationError('L\'équipement réservé n\'est pas disponible en stock');
+      }
+
+      await tx.loanLine.create({
+        data: {
+          loanId: created.id,
+          assetItemId: reservation.assetItemId,
+          quantity: 1
+        }
+      });
+    } else {
+      // Units booked by the other reservations over the loan period are not free
+      const { _sum } = await tx.reservation.aggregate({
+        where: {
+          stockItemId: reservation.stockItemId,
+          ...buildOverlapWhere(new Date(), reservation.endDate),
+          id: { not: id }
+        },
+        _sum: { quantity: true }
+      });
+      const reserved = _sum.quantity || 0;
+      const updatedCount = await tx.$executeRaw`
+        UPDATE "StockItem"
+        SET "loaned" = "loaned" + ${reservation.quantity}, "updatedAt" = NOW()
+        WHERE "id" = ${reservation.stockItemId} AND "quantity" - "loaned" - ${reserved} >= ${reservation.quantity}
+      `;
+      if (updatedCount === 0) {
+        throw new ValidationError('Quantité insuffisante en stock pour honorer la réservation');
+      }
+
+      await tx.stockMovement.create({
+        data: {
+          stockItemId: reservation.stockItemId,
+          ...buildStockMovement('LOAN_OUT', {
+            loanedDelta: reservation.quantity,
+            reason: 'Réservation convertie en prêt',
+            referenceType: 'Loan',
+            referenceId: created.id,
+            createdById
+          }, req)
+        }
+      });
+
+      await tx.loanLine.create({
+        data: {
+          loanId: created.id,
+          stockItemId: reservation.stockItemId,
+          quantity: reservation.quantity
+        }
+      });
+    }
+
+    await tx.reservation.update({
+      where: { id },
+      data: { status: 'CONVERTED', loanId: created.id }
+    });
+
+    return created;
+  }, { isolationLevel: 'Serializable' });
+
+  // Audit trail: reservation and loan reference each other
+  await logUpdate('Reservation', id, req, { status: reservation.status }, { status: 'CONVERTED', loanId: loan.id });
+  await logCreate('Loan', loan.id, req, {
+    employeeId: reservation.employeeId,
+    status: 'OPEN',
+    dueAt: loan.dueAt,
+    fromReservationId: id
+  });
+
+  void notifyLoanEvent('LOAN_OPENED', loan.id);
+
+  return getLoanById(loan.id);
+}
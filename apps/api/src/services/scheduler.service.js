@@ -0,0 +1,326 @@
+/**
+ * @fileoverview Scheduler service - Periodic background jobs
+ *
+ * Every API replica runs the scheduler loop, but only the one holding the
+ * Redis leadership lock executes jobs. Each job occurrence is also claimed
+ * in Redis, so a leadership change cannot run the same occurrence twice.
+ * Run history is kept in capped Redis lists (see GET /api/health/jobs).
+ *
+ * Configuration:
+ * - SCHEDULER_ENABLED=false disables the loop (always disabled in tests)
+ * - SCHEDULER_<JOB>_CRON overrides a job schedule (5-field cron expression)
+ * - Jobs depending on an optional integration (directory-sync needs LDAP_URL)
+ *   are only scheduled and listed once it is configured
+ * - LONG_RUNNING_LOAN_DAYS sets the long-running loan threshold (default 90)
+ */
+
+import os from 'os';
+import {
+  acquireLeadership,
+  releaseLeadership,
+  getLeader,
+  claimSlot,
+  pushHistory,
+  getHistory
+} from './cache.service.js';
+import { refreshDashboardStats } from './dashboard.service.js';
+import { sendOverdueReminders, sendLongRunningLoanReminders } from './notifications.service.js';
+import { purgeExpiredLoans } from './loans.service.js';
+import { isDirectorySyncConfigured, syncEmployeesFromDirectory } from './directorySync.service.js';
+import { parseCron, getNextCronDate } from '../utils/cron.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+import logger from '../config/logger.js';
+
+const LEADER_LOCK = 'scheduler';
+const LEADER_TTL_SECONDS = 90;
+const TICK_INTERVAL_MS = 30 * 1000;
+const SLOT_TTL_SECONDS = 24 * 60 * 60;
+const HISTORY_LENGTH = 50;
+
+const DEFAULT_LONG_RUNNING_LOAN_DAYS = 90;
+
+/**
+ * Scheduled jobs
+ */
+const JOBS = [
+  {
+    name: 'dashboard-refresh',
+    description: 'Rafraîchit la vue des statistiques du tableau de bord',
+    scheduleEnv: 'SCHEDULER_DASHBOARD_REFRESH_CRON',
+    defaultSchedule: '*/15 * * * *',
+    run: async () => {
+      await refreshDashboardStats();
+      return null;
+    }
+  },
+  {
+    name: 'overdue-reminders',
+    description: 'Envoie les rappels des prêts en retard',
+    scheduleEnv: 'SCHEDULER_OVERDUE_REMINDERS_CRON',
+    defaultSchedule: '0 8 * * 1-5',
+    run: () => sendOverdueReminders()
+  },
+  {
+    name: 'long-running-loans',
+    description: 'Signale les prêts ouverts depuis trop longtemps',
+    scheduleEnv: 'SCHEDULER_LONG_RUNNING_LOANS_CRON',
+    defaultSchedule: '0 9 * * 1',
+    run: () => sendLongRunningLoanReminders(getLongRunningLoanDays())
+  },
+  {
+    name: 'loan-trash-purge',
+    description: 'Supprime définitivement les prêts restés trop longtemps dans la corbeille',
+    scheduleEnv: 'SCHEDULER_LOAN_TRASH_PURGE_CRON',
+    defaultSchedule: '0 3 * * *',
+    run: () => purgeExpiredLoans()
+  },
+  {
+    name: 'directory-sync',
+    description: 'Synchronise les employés avec l\'annuaire d\'entreprise (LDAP)',
+    scheduleEnv: 'SCHEDULER_DIRECTORY_SYNC_CRON',
+    defaultSchedule: '0 6 * * *',
+    isEnabled: isDirectorySyncConfigured,
+    run: (req) => syncEmployeesFromDirectory(req)
+  }
+];
+
+const instanceId = `${os.hostname()}-${process.pid}`;
+
+let timer = null;
+let isLeader = false;
+const schedules = new Map();
+const nextRuns = new Map();
+const running = new Set();
+
+function getLongRunningLoanDays() {
+  const days = Number(process.env.LONG_RUNNING_LOAN_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_LONG_RUNNING_LOAN_DAYS;
+}
+
+function getSchedule(job) {
+  return process.env[job.scheduleEnv] || job.defaultSchedule;
+}
+
+function isJobEnabled(job) {
+  return !job.isEnabled || job.isEnabled();
+}
+
+function getJob(name) {
+  const job = JOBS.find(candidate => candidate.name === name);
+  if (!job) {
+    throw new NotFoundError('Tâche planifiée non trouvée');
+  }
+  return job;
+}
+
+function historyKey(name) {
+  return `scheduler:history:${name}`;
+}
+
+/**
+ * Run a job now and record the outcome in its history
+ *
+ * @param {string} name - Job name
+ * @param {Object} [options]
+ * @param {string} [options.trigger='schedule'] - schedule or manual
+ * @param {Object} [options.req] - Express request of a manual run, passed to the job (for audit trail)
+ * @returns {Promise<Object>} History entry of the run
+ * @throws {NotFoundError} If the job does not exist
+ * @throws {ConflictError} If the job is already running on this instance
+ */
+export async function runJob(name, { trigger = 'schedule', req } = {}) {
+  const job = getJob(name);
+  if (running.has(name)) {
+    throw new ConflictError('Cette tâche est déjà en cours d\'exécution');
+  }
+
+  const startedAt = new Date();
+  running.add(name);
+
+  let status = 'SUCCESS';
+  let result = null;
+  let error = null;
+  try {
+    result = (await job.run(req)) ?? null;
+  } catch (jobError) {
+    status = 'FAILED';
+    error = jobError.message;
+    logger.error(`[Scheduler] Job ${name} failed`, { message: jobError.message });
+  } finally {
+    running.delete(name);
+  }
+
+  const finishedAt = new Date();
+  const entry = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    status,
+    trigger,
+    result,
+    error,
+    instance: instanceId
+  };
+  await pushHistory(historyKey(name), entry, HISTORY_LENGTH);
+
+  if (status === 'SUCCESS') {
+    logger.info(`[Scheduler] Job ${name} done in ${entry.durationMs}ms`);
+  }
+  return entry;
+}
+
+/**
+ * One scheduler iteration: renew leadership then run the due jobs
+ *
+ * Non-leaders still advance the next run dates, so a replica taking over
+ * does not replay occurrences missed before it became leader.
+ *
+ * @param {Date} [now=new Date()] - Reference date
+ * @returns {Promise<string[]>} Names of the jobs run
+ */
+export async function tick(now = new Date()) {
+  const leader = await acquireLeadership(LEADER_LOCK, instanceId, LEADER_TTL_SECONDS);
+  if (leader !== isLeader) {
+    logger.info(`[Scheduler] ${instanceId} ${leader ? 'is now' : 'is no longer'} the scheduler leader`);
+    isLeader = leader;
+  }
+
+  const ran = [];
+  for (const job of JOBS) {
+    const schedule = schedules.get(job.name);
+    const nextRunAt = nextRuns.get(job.name);
+    if (!schedule || !nextRunAt || now < nextRunAt) {
+      continue;
+    }
+
+    nextRuns.set(job.name, getNextCronDate(schedule, now));
+
+    if (!leader || running.has(job.name)) {
+      continue;
+    }
+
+    const claimed = await claimSlot(`scheduler:run:${job.name}:${nextRunAt.getTime()}`, SLOT_TTL_SECONDS);
+    if (!claimed) {
+      continue;
+    }
+
+    ran.push(job.name);
+    await runJob(job.name);
+  }
+
+  return ran;
+}
+
+/**
+ * Start the scheduler loop
+ *
+ * Jobs with an invalid cron expression are logged and left unscheduled.
+ *
+ * @param {Date} [now=new Date()] - Reference date for the first run dates
+ * @returns {boolean} True if the loop was started
+ */
+export function startScheduler(now = new Date()) {
+  if (timer) {
+    return true;
+  }
+  if (process.env.SCHEDULER_ENABLED === 'false' || process.env.NODE_ENV === 'test') {
+    logger.info('[Scheduler] Disabled');
+    return false;
+  }
+
+  for (const job of JOBS) {
+    if (!isJobEnabled(job)) {
+      logger.info(`[Scheduler] Job ${job.name} not configured, not scheduled`);
+      continue;
+    }
+    try {
+      const schedule = parseCron(getSchedule(job));
+      schedules.set(job.name, schedule);
+      nextRuns.set(job.name, getNextCronDate(schedule, now));
+    } catch (error) {
+      logger.error(`[Scheduler] Job ${job.name} not scheduled: ${error.message}`);
+    }
+  }
+
+  timer = setInterval(() => {
+    tick().catch(error => logger.error('[Scheduler] Tick failed', { message: error.message }));
+  }, TICK_INTERVAL_MS);
+  timer.unref();
+
+  logger.info(`[Scheduler] Started on ${instanceId}`);
+  return true;
+}
+
+/**
+ * Stop the scheduler loop and hand leadership over to another replica
+ */
+export async function stopScheduler() {
+  if (!timer) {
+    return;
+  }
+
+  clearInterval(timer);
+  timer = null;
+  schedules.clear();
+  nextRuns.clear();
+
+  if (isLeader) {
+    isLeader = false;
+    await releaseLeadership(LEADER_LOCK, instanceId);
+  }
+  logger.info('[Scheduler] Stopped');
+}
+
+async function describeJob(job, limit) {
+  return {
+    name: job.name,
+    description: job.description,
+    schedule: getSchedule(job),
+    nextRunAt: nextRuns.get(job.name)?.toISOString() ?? null,
+    running: running.has(job.name),
+    history: await getHistory(historyKey(job.name), limit)
+  };
+}
+
+/**
+ * Get the scheduler state and the recent runs of each job
+ *
+ * @param {Object} [options]
+ * @param {number} [options.limit=20] - History entries per job
+ * @returns {Promise<Object>} { enabled, instanceId, leader, isLeader, jobs }
+ */
+export async function getSchedulerStatus({ limit = 20 } = {}) {
+  const leader = await getLeader(LEADER_LOCK);
+
+  const jobs = await Promise.all(JOBS.filter(isJobEnabled).map(job => describeJob(job, limit)));
+
+  return {
+    enabled: timer !== null,
+    instanceId,
+    leader,
+    isLeader: leader === instanceId,
+    jobs
+  };
+}
+
+/**
+ * Get the schedule, next run and recent runs of one job
+ *
+ * @param {string} name - Job name
+ * @param {Object} [options]
+ * @param {number} [options.limit=20] - History entries
+ * @returns {Promise<Object>} { name, description, schedule, nextRunAt, running, history }
+ * @throws {NotFoundError} If the job does not exist
+ */
+export async function getJobStatus(name, { limit = 20 } = {}) {
+  return describeJob(getJob(name), limit);
+}
+
+export default {
+  startScheduler,
+  stopScheduler,
+  tick,
+  runJob,
+  getSchedulerStatus,
+  getJobStatus
+};
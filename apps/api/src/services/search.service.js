@@ -6,9 +6,11 @@
  * - Ranking by relevance (ts_rank)
  * - Typo tolerance (plainto_tsquery)
  * - Autocomplete for quick suggestions
+ * - Exact code lookup for barcode / QR code scans
  */
 
 import prisma from '../config/database.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { createContextLogger } from '../config/logger.js';
 
 const logger = createContextLogger('SearchService');
@@ -128,6 +130,8 @@ export async function globalSearch({ query, limit = 10 }) {
 /**
  * Autocomplete employees by name or email
  *
+ * Departed (archived) employees are excluded.
+ *
  * @param {string} query - Search query
  * @param {number} [limit=10] - Max results
  * @returns {Promise<Array>} Matching employees
@@ -141,6 +145,7 @@ export async function autocompleteEmployees(query, limit = 10) {
 
   return await prisma.employee.findMany({
     where: {
+      archivedAt: null,  // Departed employees are kept for history only
       OR: [
         { firstName: { contains: query, mode: 'insensitive' } },
         { lastName: { contains: query, mode: 'insensitive' } },
@@ -167,8 +172,8 @@ export async function autocompleteEmployees(query, limit = 10) {
  *
  * @param {string} query - Search query
  * @param {number} [limit=10] - Max results
- * @param {boolean} [availableOnly=true] - Only show EN_STOCK items
- * @returns {Promise<Array>} Matching asset items with model info
+ * @param {boolean} [availableOnly=true] - Only show EN_STOCK items (retired items are always excluded)
+ * @returns {Promise<Array>} Matching asset items with model info and next active reservation
  */
 export async function autocompleteAssetItems(query, limit = 10, availableOnly = true) {
   if (!query || query.length < 2) {
@@ -184,7 +189,7 @@ export async function autocompleteAssetItems(query, limit = 10, availableOnly =
             { serial: { contains: query, mode: 'insensitive' } }
           ]
         },
-        ...(availableOnly ? [{ status: 'EN_STOCK' }] : [])
+        availableOnly ? { status: 'EN_STOCK' } : { status: { not: 'REFORME' } }
       ]
     },
     include: {
@@ -194,6 +199,19 @@ export async function autocompleteAssetItems(query, limit = 10, availableOnly =
           brand: true,
           modelName: true
         }
+      },
+      // Next active booking, shown as a "Réservé" badge in the picker
+      reservations: {
+        where: { status: 'ACTIVE', endDate: { gte: new Date() } },
+        orderBy: { startDate: 'asc' },
+        take: 1,
+        select: {
+          startDate: true,
+          endDate: true,
+          employee: {
+            select: { id: true, firstName: true, lastName: true }
+          }
+        }
       }
     },
     orderBy: { assetTag: 'asc' },
@@ -201,6 +219,71 @@ export async function autocompleteAssetItems(query, limit = 10, availableOnly =
   });
 }
 
+/**
+ * Resolve a scanned code to a single asset item
+ *
+ * Unlike autocomplete, the match is exact (case-insensitive): the asset tag
+ * first, then the serial number. Retired items are returned too so that the
+ * caller can tell the user why the item cannot be used.
+ *
+ * @param {string} code - Scanned asset tag or serial number
+ * @returns {Promise<Object>} Asset item with model info and its outstanding loan line (if loaned)
+ * @throws {ValidationError} If the code is empty
+ * @throws {NotFoundError} If no asset item matches the code
+ *
+ * @example
+ * const item = await resolveAssetItemCode('LAP-001');
+ * // item.loanLines[0]?.loan.employee -> current borrower
+ */
+export async function resolveAssetItemCode(code) {
+  const value = typeof code === 'string' ? code.trim() : '';
+  if (!value) {
+    throw new ValidationError('Code requis');
+  }
+
+  const include = {
+    assetModel: {
+      select: {
+        type: true,
+        brand: true,
+        modelName: true
+      }
+    },
+    // Outstanding line, used to name the current borrower
+    loanLines: {
+      where: { returnedAt: null, loan: { deletedAt: null } },
+      take: 1,
+      select: {
+        id: true,
+        loanId: true,
+        loan: {
+          select: {
+            employee: {
+              select: { id: true, firstName: true, lastName: true }
+            }
+          }
+        }
+      }
+    }
+  };
+
+  const item =
+    await prisma.assetItem.findFirst({
+      where: { assetTag: { equals: value, mode: 'insensitive' } },
+      include
+    }) ??
+    await prisma.assetItem.findFirst({
+      where: { serial: { equals: value, mode: 'insensitive' } },
+      include
+    });
+
+  if (!item) {
+    throw new NotFoundError(`Aucun équipement ne correspond au code ${value}`);
+  }
+
+  return item;
+}
+
 /**
  * Autocomplete asset models
  *
@@ -6,6 +6,8 @@
  * - Quantity tracking and adjustments
  * - Loan history tracking
  * - Stock level management
+ * - Movement ledger entries for every quantity change (see stockMovements.service.js)
+ * - Minimum levels and reorder list grouped by supplier (see utils/stockLevels.js)
  *
  * Stock Items represent consumable supplies (cables, adapters, office supplies)
  * tracked by quantity rather than individual units. Unlike AssetItems, they don't
@@ -17,6 +19,12 @@ import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { findOneOrFail } from '../utils/prismaHelpers.js';
 import { logCreate, logUpdate, logDelete } from '../utils/auditHelpers.js';
 import { getCached, invalidateEntity, generateKey, TTL } from './cache.service.js';
+import { buildStockMovement } from './stockMovements.service.js';
+import { buildReorderList } from '../utils/stockLevels.js';
+
+const SUPPLIER_SELECT = {
+  select: { id: true, name: true }
+};
 
 /**
  * Get all stock items
@@ -40,7 +48,8 @@ export async function getAllStockItems() {
       const stockItems = await prisma.stockItem.findMany({
         orderBy: { createdAt: 'desc' },
         include: {
-          assetModel: true  // Include model details (type, brand, modelName)
+          assetModel: true,  // Include model details (type, brand, modelName)
+          supplier: SUPPLIER_SELECT
         }
       });
 
@@ -70,6 +79,7 @@ export async function getStockItemById(id) {
   const stockItem = await findOneOrFail('stockItem', { id }, {
     include: {
       assetModel: true,  // Include model details
+      supplier: SUPPLIER_SELECT,
       loanLines: {
         take: 50,  // Phase 3.5: Limit to 50 most recent loan lines to avoid N+1
         include: {
@@ -100,10 +110,13 @@ export async function getStockItemById(id) {
  * @param {Object} data - Stock item creation data
  * @param {string} data.assetModelId - Asset model ID (must exist)
  * @param {number} [data.quantity=0] - Initial quantity in stock
+ * @param {number} [data.minQuantity=0] - Minimum available quantity (0 = no alert)
+ * @param {number} [data.reorderQuantity=0] - Usual order size
+ * @param {string} [data.supplierId] - Supplier the item is ordered from
  * @param {string} [data.notes] - Optional notes
  * @param {Object} req - Express request object (for audit trail)
  * @returns {Promise<Object>} Created stock item with assetModel populated
- * @throws {NotFoundError} If asset model doesn't exist
+ * @throws {NotFoundError} If asset model or supplier doesn't exist
  *
  * @example
  * const item = await createStockItem({
@@ -117,9 +130,18 @@ export async function createStockItem(data, req) {
   await findOneOrFail('assetModel', { id: data.assetModelId }, {
     errorMessage: 'Modèle d\'équipement non trouvé'
   });
+  await assertSupplierExists(data.supplierId);
 
+  // Opening balance in the ledger
   const stockItem = await prisma.stockItem.create({
-    data,
+    data: {
+      ...data,
+      ...(data.quantity > 0 && {
+        movements: {
+          create: buildStockMovement('INITIAL', { quantityDelta: data.quantity, reason: 'Création de l\'article' }, req)
+        }
+      })
+    },
     include: {
       assetModel: true  // Include model in response
     }
@@ -134,6 +156,22 @@ export async function createStockItem(data, req) {
   return stockItem;
 }
 
+/**
+ * Validate the referenced supplier exists
+ *
+ * @param {string|null} [supplierId] - Supplier ID (skipped when empty)
+ * @throws {NotFoundError} If supplier doesn't exist
+ */
+async function assertSupplierExists(supplierId) {
+  if (!supplierId) {
+    return;
+  }
+
+  await findOneOrFail('supplier', { id: supplierId }, {
+    errorMessage: 'Fournisseur non trouvé'
+  });
+}
+
 /**
  * Update an existing stock item
  *
@@ -144,10 +182,13 @@ export async function createStockItem(data, req) {
  * @param {Object} data - Updated stock item data
  * @param {string} [data.assetModelId] - Updated asset model ID (must exist)
  * @param {number} [data.quantity] - Updated quantity (prefer adjustStockQuantity)
+ * @param {number} [data.minQuantity] - Updated minimum available quantity
+ * @param {number} [data.reorderQuantity] - Updated usual order size
+ * @param {string|null} [data.supplierId] - Updated supplier (null to clear)
  * @param {string} [data.notes] - Updated notes
  * @param {Object} req - Express request object (for audit trail)
  * @returns {Promise<Object>} Updated stock item with assetModel populated
- * @throws {NotFoundError} If stock item or asset model doesn't exist
+ * @throws {NotFoundError} If stock item, asset model or supplier doesn't exist
  *
  * @example
  * const updated = await updateStockItem('stockId123', {
@@ -166,10 +207,21 @@ export async function updateStockItem(id, data, req) {
       errorMessage: 'Modèle d\'équipement non trouvé'
     });
   }
+  await assertSupplierExists(data.supplierId);
+
+  // A quantity typed in the form is recorded as a manual adjustment
+  const quantityDelta = data.quantity !== undefined ? data.quantity - existingItem.quantity : 0;
 
   const stockItem = await prisma.stockItem.update({
     where: { id },
-    data,
+    data: {
+      ...data,
+      ...(quantityDelta !== 0 && {
+        movements: {
+          create: buildStockMovement('ADJUSTMENT', { quantityDelta, reason: 'Modification de la fiche' }, req)
+        }
+      })
+    },
     include: {
       assetModel: true  // Include model in response
     }
@@ -188,57 +240,92 @@ export async function updateStockItem(id, data, req) {
  * Adjust stock item quantity
  *
  * Adds or removes quantity from stock. Positive values increase stock,
- * negative values decrease it. Prevents negative stock quantities.
+ * negative values decrease it. Stock never goes below zero nor below the
+ * units currently loaned.
  *
  * Note: Loan workflow automatically manages stock quantities:
  * - Adding stock to loan: quantity -= loan quantity
  * - Removing stock from loan: quantity += loan quantity
  *
+ * The change is recorded in the movement ledger with its type: a reception
+ * must add units, a write-off must remove them.
+ *
  * @param {string} id - Stock item ID
  * @param {number} adjustment - Quantity to add (positive) or remove (negative)
  * @param {Object} req - Express request object (for audit trail)
+ * @param {Object} [movement={}] - Ledger details
+ * @param {string} [movement.type='ADJUSTMENT'] - RECEPTION, ADJUSTMENT, WRITE_OFF or INVENTORY_CORRECTION
+ * @param {string} [movement.reason] - Free-text reason
+ * @param {string} [movement.referenceType] - Source record type (e.g. InventoryCampaign)
+ * @param {string} [movement.referenceId] - Source record ID
  * @returns {Promise<Object>} Updated stock item with new quantity
  * @throws {NotFoundError} If stock item doesn't exist
- * @throws {ValidationError} If adjustment would result in negative quantity
+ * @throws {ValidationError} If adjustment would result in negative quantity,
+ *   in fewer units than currently loaned, or doesn't match the movement type
  *
  * @example
  * // Receive new stock (+50 units)
  * await adjustStockQuantity('stockId123', 50, req);
  *
  * @example
- * // Manual removal (-10 units for damaged items)
- * await adjustStockQuantity('stockId123', -10, req);
+ * // Write-off of 10 damaged units
+ * await adjustStockQuantity('stockId123', -10, req, { type: 'WRITE_OFF', reason: 'Câbles endommagés' });
  *
  * @example
  * // This will throw ValidationError if current quantity is 5
  * await adjustStockQuantity('stockId123', -10, req);
  * // Error: "La quantité ne peut pas être négative"
  */
-export async function adjustStockQuantity(id, adjustment, req) {
-  // Check if stock item exists
-  const existingItem = await findOneOrFail('stockItem', { id }, {
-    errorMessage: 'Article de stock non trouvé'
-  });
-
-  // Calculate new quantity
-  const newQuantity = existingItem.quantity + adjustment;
+export async function adjustStockQuantity(id, adjustment, req, movement = {}) {
+  const { type = 'ADJUSTMENT', ...details } = movement;
 
-  // Business rule: Stock quantity cannot be negative
-  // This prevents over-allocation and maintains inventory accuracy
-  if (newQuantity < 0) {
-    throw new ValidationError('La quantité ne peut pas être négative');
+  if (type === 'RECEPTION' && adjustment < 0) {
+    throw new ValidationError('Une réception doit ajouter des unités');
+  }
+  if (type === 'WRITE_OFF' && adjustment > 0) {
+    throw new ValidationError('Une mise au rebut doit retirer des unités');
   }
 
-  const stockItem = await prisma.stockItem.update({
-    where: { id },
-    data: { quantity: newQuantity },
-    include: {
-      assetModel: true  // Include model in response
+  // Atomic conditional increment avoids read-modify-write races with loans and
+  // other adjustments: the UPDATE itself refuses to go below the loaned units
+  const stockItem = await prisma.$transaction(async (tx) => {
+    const updatedCount = await tx.$executeRaw`
+      UPDATE "StockItem"
+      SET "quantity" = "quantity" + ${adjustment}, "updatedAt" = NOW()
+      WHERE "id" = ${id} AND "quantity" + ${adjustment} >= GREATEST("loaned", 0)
+    `;
+
+    if (updatedCount === 0) {
+      const current = await tx.stockItem.findUnique({ where: { id } });
+      if (!current) {
+        throw new NotFoundError('Article de stock non trouvé');
+      }
+      // Business rule: Stock quantity cannot be negative
+      if (current.quantity + adjustment < 0) {
+        throw new ValidationError('La quantité ne peut pas être négative');
+      }
+      throw new ValidationError(`La quantité ne peut pas être inférieure aux unités en prêt (en prêt: ${current.loaned})`);
+    }
+
+    if (adjustment !== 0) {
+      await tx.stockMovement.create({
+        data: {
+          stockItemId: id,
+          ...buildStockMovement(type, { ...details, quantityDelta: adjustment }, req)
+        }
+      });
     }
+
+    return tx.stockItem.findUnique({
+      where: { id },
+      include: {
+        assetModel: true  // Include model in response
+      }
+    });
   });
 
   // Audit trail
-  await logUpdate('StockItem', id, req, { quantity: existingItem.quantity }, { quantity: newQuantity, adjustment });
+  await logUpdate('StockItem', id, req, { quantity: stockItem.quantity - adjustment }, { quantity: stockItem.quantity, adjustment, type });
 
   // Invalidate cache - Phase 3.2
   await invalidateEntity('stock_items');
@@ -246,6 +333,36 @@ export async function adjustStockQuantity(id, adjustment, req) {
   return stockItem;
 }
 
+/**
+ * Get the reorder list
+ *
+ * Stock items whose available quantity is below their minimum level, with the
+ * quantity to order, grouped by supplier (items without supplier last).
+ *
+ * @returns {Promise<Array>} [{ supplier, lines: [{ stockItemId, assetModel, location,
+ *   available, minQuantity, suggestedQuantity }] }]
+ *
+ * @example
+ * const groups = await getReorderList();
+ * // groups = [{ supplier: { id, name, ... }, lines: [{ available: 1, minQuantity: 5, suggestedQuantity: 10, ... }] }]
+ */
+export async function getReorderList() {
+  const items = await prisma.stockItem.findMany({
+    where: { minQuantity: { gt: 0 } },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      assetModel: {
+        select: { type: true, brand: true, modelName: true }
+      },
+      supplier: {
+        select: { id: true, name: true, contactName: true, email: true, phone: true }
+      }
+    }
+  });
+
+  return buildReorderList(items);
+}
+
 /**
  * Delete a stock item
  *
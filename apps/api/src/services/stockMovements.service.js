@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Stock movements service - Ledger of consumable stock changes
+ *
+ * Every change of a StockItem `quantity` or `loaned` counter is recorded as a
+ * movement (reception, loan out, loan closed, manual adjustment, inventory
+ * correction, write-off) with its deltas, reason, actor and reference.
+ *
+ * Movements are written in the same transaction as the counter update:
+ * - as a nested `movements: { create }` of prisma.stockItem.create/update
+ * - as tx.stockMovement.create next to the raw `UPDATE "StockItem"` of loans
+ *
+ * Summing the deltas of an item gives back its counters: any difference
+ * (drift) reveals a change made outside the ledger.
+ */
+
+import prisma from '../config/database.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { executePaginatedQuery } from '../utils/pagination.js';
+
+/**
+ * Movement types (StockMovementType enum)
+ */
+export const STOCK_MOVEMENT_TYPES = [
+  'INITIAL',
+  'RECEPTION',
+  'LOAN_OUT',
+  'LOAN_CLOSED',
+  'ADJUSTMENT',
+  'INVENTORY_CORRECTION',
+  'WRITE_OFF'
+];
+
+/**
+ * Movement types a manager can record through a quantity adjustment
+ */
+export const MANUAL_MOVEMENT_TYPES = ['RECEPTION', 'ADJUSTMENT', 'WRITE_OFF'];
+
+const MOVEMENT_SELECT = {
+  id: true,
+  stockItemId: true,
+  type: true,
+  quantityDelta: true,
+  loanedDelta: true,
+  reason: true,
+  referenceType: true,
+  referenceId: true,
+  createdAt: true,
+  createdBy: {
+    select: {
+      id: true,
+      email: true,
+      role: true
+    }
+  }
+};
+
+/**
+ * Build the data of a movement
+ *
+ * Used as nested `movements: { create }` data of a stock item write,
+ * or spread into tx.stockMovement.create with a stockItemId.
+ *
+ * @param {string} type - Movement type (STOCK_MOVEMENT_TYPES)
+ * @param {Object} movement - Movement details
+ * @param {number} [movement.quantityDelta=0] - Change of the quantity counter
+ * @param {number} [movement.loanedDelta=0] - Change of the loaned counter
+ * @param {string} [movement.reason] - Free-text reason
+ * @param {string} [movement.referenceType] - Source record type (Loan, Reservation...)
+ * @param {string} [movement.referenceId] - Source record ID
+ * @param {string} [movement.createdById] - Actor, when there is no request at hand
+ * @param {Object} [req] - Express request object (actor, none for scheduled runs)
+ * @returns {Object} Movement data
+ *
+ * @example
+ * prisma.stockItem.update({
+ *   where: { id },
+ *   data: {
+ *     loaned: { decrement: 2 },
+ *     movements: { create: buildStockMovement('LOAN_CLOSED', { loanedDelta: -2, referenceType: 'Loan', referenceId: loanId }, req) }
+ *   }
+ * });
+ */
+export function buildStockMovement(type, movement, req) {
+  return {
+    type,
+    quantityDelta: movement.quantityDelta ?? 0,
+    loanedDelta: movement.loanedDelta ?? 0,
+    reason: movement.reason ?? null,
+    referenceType: movement.referenceType ?? null,
+    referenceId: movement.referenceId ?? null,
+    createdById: movement.createdById ?? req?.user?.userId ?? null
+  };
+}
+
+/**
+ * Get the movements of a stock item (newest first)
+ *
+ * @param {string} stockItemId - Stock item ID
+ * @param {Object} [options={}] - Filters and pagination
+ * @param {string} [options.type] - Only this movement type
+ * @param {number} [options.page=1] - Page number
+ * @param {number} [options.pageSize=20] - Items per page
+ * @returns {Promise<Object>} Paginated movements with their actor
+ * @throws {NotFoundError} If stock item doesn't exist
+ */
+export async function getStockMovements(stockItemId, options = {}) {
+  const { type, page = 1, pageSize = 20 } = options;
+
+  await findOneOrFail('stockItem', { id: stockItemId }, {
+    errorMessage: 'Article de stock non trouvé'
+  });
+
+  return executePaginatedQuery(prisma.stockMovement, {
+    where: {
+      stockItemId,
+      ...(type && { type })
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    select: MOVEMENT_SELECT,
+    page,
+    pageSize
+  });
+}
+
+/**
+ * Compare the counters of a stock item with the ones recomputed from its ledger
+ *
+ * @param {Object} stockItem - Stock item ({ id, quantity, loaned })
+ * @param {Object|undefined} sums - Summed deltas ({ quantityDelta, loanedDelta })
+ * @returns {Object} { stockItemId, current, ledger, drift, hasDrift }
+ */
+function toLedgerCheck(stockItem, sums) {
+  const ledger = {
+    quantity: sums?.quantityDelta ?? 0,
+    loaned: sums?.loanedDelta ?? 0
+  };
+  const drift = {
+    quantity: stockItem.quantity - ledger.quantity,
+    loaned: stockItem.loaned - ledger.loaned
+  };
+
+  return {
+    stockItemId: stockItem.id,
+    current: { quantity: stockItem.quantity, loaned: stockItem.loaned },
+    ledger,
+    drift,
+    hasDrift: drift.quantity !== 0 || drift.loaned !== 0
+  };
+}
+
+/**
+ * Recompute the counters of a stock item from its ledger
+ *
+ * @param {string} stockItemId - Stock item ID
+ * @returns {Promise<Object>} { stockItemId, current, ledger, drift, hasDrift }
+ * @throws {NotFoundError} If stock item doesn't exist
+ *
+ * @example
+ * const check = await getStockLedgerCheck('stock123');
+ * // check = { current: { quantity: 10, loaned: 2 }, ledger: { quantity: 12, loaned: 2 },
+ * //           drift: { quantity: -2, loaned: 0 }, hasDrift: true }
+ */
+export async function getStockLedgerCheck(stockItemId) {
+  const stockItem = await findOneOrFail('stockItem', { id: stockItemId }, {
+    select: { id: true, quantity: true, loaned: true },
+    errorMessage: 'Article de stock non trouvé'
+  });
+
+  const { _sum } = await prisma.stockMovement.aggregate({
+    where: { stockItemId },
+    _sum: { quantityDelta: true, loanedDelta: true }
+  });
+
+  return toLedgerCheck(stockItem, _sum);
+}
+
+/**
+ * List the stock items whose counters differ from their ledger
+ *
+ * @returns {Promise<Array>} Ledger checks of the drifting items, with their model
+ */
+export async function getStockLedgerDrifts() {
+  const [stockItems, sums] = await Promise.all([
+    prisma.stockItem.findMany({
+      select: {
+        id: true,
+        quantity: true,
+        loaned: true,
+        assetModel: {
+          select: { type: true, brand: true, modelName: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.stockMovement.groupBy({
+      by: ['stockItemId'],
+      _sum: { quantityDelta: true, loanedDelta: true }
+    })
+  ]);
+
+  const sumsByItem = new Map(sums.map(entry => [entry.stockItemId, entry._sum]));
+
+  return stockItems
+    .map(stockItem => ({
+      ...toLedgerCheck(stockItem, sumsByItem.get(stockItem.id)),
+      assetModel: stockItem.assetModel
+    }))
+    .filter(check => check.hasDrift);
+}
+
+export default {
+  STOCK_MOVEMENT_TYPES,
+  MANUAL_MOVEMENT_TYPES,
+  buildStockMovement,
+  getStockMovements,
+  getStockLedgerCheck,
+  getStockLedgerDrifts
+};
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Suppliers service - Vendors asset items are purchased from
+ *
+ * Suppliers are referenced by asset items along with the invoice number,
+ * purchase date, price and warranty end (see assetItems.service.js).
+ */
+
+import prisma from '../config/database.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+import { findOneOrFail } from '../utils/prismaHelpers.js';
+import { logCreate, logUpdate, logDelete } from '../utils/auditHelpers.js';
+import { invalidateEntity } from './cache.service.js';
+
+const SUPPLIER_INCLUDE = {
+  _count: {
+    select: { assetItems: true, purchaseOrders: true }
+  }
+};
+
+/**
+ * Ensure no other supplier already uses this name
+ *
+ * @param {string} name - Supplier name
+ * @param {string} [excludeId] - Supplier being updated
+ * @throws {ConflictError} If the name is taken
+ */
+async function assertNameAvailable(name, excludeId) {
+  const existing = await prisma.supplier.findUnique({ where: { name } });
+  if (existing && existing.id !== excludeId) {
+    throw new ConflictError('Un fournisseur avec ce nom existe déjà');
+  }
+}
+
+/**
+ * Get all suppliers with their asset item count
+ *
+ * @param {Object} [filters={}] - Optional filters
+ * @param {string} [filters.search] - Search in name or contact (case-insensitive)
+ * @returns {Promise<Array>} Suppliers ordered by name
+ */
+export async function getAllSuppliers(filters = {}) {
+  const { search } = filters;
+
+  const where = search
+    ? {
+      OR: [
+        { name: { contains: search, mode: 'insensitive' } },
+        { contactName: { contains: search, mode: 'insensitive' } }
+      ]
+    }
+    : {};
+
+  return prisma.supplier.findMany({
+    where,
+    orderBy: { name: 'asc' },
+    include: SUPPLIER_INCLUDE
+  });
+}
+
+/**
+ * Get a supplier by ID
+ *
+ * @param {string} id - Supplier ID
+ * @returns {Promise<Object>} Supplier with asset item count
+ * @throws {NotFoundError} If supplier doesn't exist
+ */
+export async function getSupplierById(id) {
+  return findOneOrFail('supplier', { id }, {
+    include: SUPPLIER_INCLUDE,
+    errorMessage: 'Fournisseur non trouvé'
+  });
+}
+
+/**
+ * Create a supplier
+ *
+ * @param {Object} data - Supplier data (name, contactName, email, phone, notes)
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Created supplier
+ * @throws {ConflictError} If the name is already used
+ */
+export async function createSupplier(data, req) {
+  await assertNameAvailable(data.name);
+
+  const supplier = await prisma.supplier.create({
+    data,
+    include: SUPPLIER_INCLUDE
+  });
+
+  // Audit trail
+  await logCreate('Supplier', supplier.id, req, data);
+
+  return supplier;
+}
+
+/**
+ * Update a supplier
+ *
+ * @param {string} id - Supplier ID
+ * @param {Object} data - Fields to update
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Updated supplier
+ * @throws {NotFoundError} If supplier doesn't exist
+ * @throws {ConflictError} If the new name is already used
+ */
+export async function updateSupplier(id, data, req) {
+  const supplier = await findOneOrFail('supplier', { id }, {
+    errorMessage: 'Fournisseur non trouvé'
+  });
+
+  if (data.name && data.name !== supplier.name) {
+    await assertNameAvailable(data.name, id);
+  }
+
+  const updated = await prisma.supplier.update({
+    where: { id },
+    data,
+    include: SUPPLIER_INCLUDE
+  });
+
+  // Audit trail
+  await logUpdate('Supplier', id, req, supplier, data);
+
+  // Asset items embed the supplier name
+  await invalidateEntity('asset_items');
+
+  return updated;
+}
+
+/**
+ * Delete a supplier
+ *
+ * Protection: Cannot delete a supplier still referenced by asset items,
+ * so purchase history is never lost silently.
+ *
+ * @param {string} id - Supplier ID
+ * @param {Object} req - Express request object (for audit trail)
+ * @returns {Promise<Object>} Deleted supplier
+ * @throws {NotFoundError} If supplier doesn't exist
+ * @throws {ValidationError} If asset items reference the supplier
+ */
+export async function deleteSupplier(id, req) {
+  const supplier = await findOneOrFail('supplier', { id }, {
+    include: SUPPLIER_INCLUDE,
+    errorMessage: 'Fournisseur non trouvé'
+  });
+
+  if (supplier._count.assetItems > 0) {
+    throw new ValidationError(
+      `Impossible de supprimer ce fournisseur : il est référencé par ${supplier._count.assetItems} équipement(s)`
+    );
+  }
+
+  if (supplier._count.purchaseOrders > 0) {
+    throw new ValidationError(
+      `Impossible de supprimer ce fournisseur : il est référencé par ${supplier._count.purchaseOrders} bon(s) de commande`
+    );
+  }
+
+  await prisma.supplier.delete({ where: { id } });
+
+  // Audit trail
+  await logDelete('Supplier', id, req, supplier);
+
+  return supplier;
+}
+
+export default {
+  getAllSuppliers,
+  getSupplierById,
+  createSupplier,
+  updateSupplier,
+  deleteSupplier
+};
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Tests for cron expression utilities
+ *
+ * Tests cover:
+ * - parseCron: wildcards, lists, ranges, steps, Sunday alias, invalid input
+ * - getNextCronDate: next occurrence strictly after the reference date
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseCron, getNextCronDate } from '../cron.js';
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('should expand steps, ranges and lists', () => {
+      const schedule = parseCron('*/15 8-10 1,15 * 1-5');
+
+      expect([...schedule.minute]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hour]).toEqual([8, 9, 10]);
+      expect([...schedule.dayOfMonth]).toEqual([1, 15]);
+      expect(schedule.month.size).toBe(12);
+      expect([...schedule.dayOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(schedule.dayOfMonthRestricted).toBe(true);
+      expect(schedule.dayOfWeekRestricted).toBe(true);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect([...parseCron('0 0 * * 7').dayOfWeek]).toEqual([0]);
+    });
+
+    it.each([
+      ['* * * *'],
+      ['60 * * * *'],
+      ['* 24 * * *'],
+      ['* * 0 * *'],
+      ['5-1 * * * *'],
+      ['*/0 * * * *'],
+      ['a * * * *']
+    ])('should reject "%s"', (expression) => {
+      expect(() => parseCron(expression)).toThrow('Expression cron invalide');
+    });
+  });
+
+  describe('getNextCronDate', () => {
+    it('should return the next matching minute strictly after the date', () => {
+      const next = getNextCronDate('*/15 * * * *', new Date(2026, 9, 19, 10, 15, 20));
+
+      expect(next).toEqual(new Date(2026, 9, 19, 10, 30));
+    });
+
+    it('should skip to the next allowed weekday', () => {
+      // Saturday 2026-10-17 -> Monday 2026-10-19
+      const next = getNextCronDate('0 8 * * 1-5', new Date(2026, 9, 17, 10, 0));
+
+      expect(next).toEqual(new Date(2026, 9, 19, 8, 0));
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 1st of the month or Friday: Friday 2026-10-23 comes before 2026-11-01
+      const next = getNextCronDate('0 0 1 * 5', new Date(2026, 9, 19, 12, 0));
+
+      expect(next).toEqual(new Date(2026, 9, 23, 0, 0));
+    });
+
+    it('should roll over months and years', () => {
+      const next = getNextCronDate('30 6 1 1 *', new Date(2026, 9, 19));
+
+      expect(next).toEqual(new Date(2027, 0, 1, 6, 30));
+    });
+
+    it('should throw when the expression never matches', () => {
+      expect(() => getNextCronDate('0 0 31 2 *', new Date(2026, 9, 19))).toThrow('sans occurrence');
+    });
+  });
+});
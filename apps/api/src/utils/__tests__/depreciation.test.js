@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Tests for straight-line depreciation utilities
+ *
+ * Tests cover:
+ * - computeCurrentValueCents: linear decrease, floor at zero, missing data
+ * - buildValuationReport: totals, grouping by type and department ID, ordering
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { computeCurrentValueCents, buildValuationReport } from '../depreciation.js';
+
+const NOW = new Date('2026-07-02T12:00:00.000Z');
+
+// Depreciation counts years of 365.25 days
+function yearsBeforeNow(years) {
+  return new Date(NOW.getTime() - years * 365.25 * 24 * 60 * 60 * 1000);
+}
+
+describe('depreciation', () => {
+  describe('computeCurrentValueCents', () => {
+    it('should decrease linearly over the depreciation period', () => {
+      const item = { purchasePriceCents: 120000, purchaseDate: yearsBeforeNow(1.5) };
+
+      expect(computeCurrentValueCents(item, 3, NOW)).toBe(60000);
+    });
+
+    it('should keep the full price on the purchase date', () => {
+      const item = { purchasePriceCents: 99999, purchaseDate: NOW };
+
+      expect(computeCurrentValueCents(item, 4, NOW)).toBe(99999);
+    });
+
+    it('should not go below zero once fully depreciated', () => {
+      const item = { purchasePriceCents: 50000, purchaseDate: '2020-01-01' };
+
+      expect(computeCurrentValueCents(item, 3, NOW)).toBe(0);
+    });
+
+    it('should not exceed the price for a purchase date in the future', () => {
+      const item = { purchasePriceCents: 50000, purchaseDate: '2027-01-01' };
+
+      expect(computeCurrentValueCents(item, 3, NOW)).toBe(50000);
+    });
+
+    it('should keep the price without depreciation period or purchase date', () => {
+      expect(computeCurrentValueCents({ purchasePriceCents: 50000, purchaseDate: '2020-01-01' }, null, NOW)).toBe(50000);
+      expect(computeCurrentValueCents({ purchasePriceCents: 50000, purchaseDate: null }, 3, NOW)).toBe(50000);
+    });
+
+    it('should return null when the price is unknown', () => {
+      expect(computeCurrentValueCents({ purchasePriceCents: null, purchaseDate: '2025-01-01' }, 3, NOW)).toBeNull();
+    });
+  });
+
+  describe('buildValuationReport', () => {
+    const rules = new Map([['Laptop', 3], ['Écran', null]]);
+    const itMetz = { id: 'dept-1', name: 'IT', company: 'Acme Metz' };
+    const itNancy = { id: 'dept-2', name: 'IT', company: 'Acme Nancy' };
+    const items = [
+      { type: 'Laptop', department: itMetz, purchasePriceCents: 120000, purchaseDate: yearsBeforeNow(1.5) },
+      { type: 'Laptop', department: itNancy, purchasePriceCents: 120000, purchaseDate: '2020-01-01T00:00:00.000Z' },
+      { type: 'Écran', department: null, purchasePriceCents: 20000, purchaseDate: '2024-01-01T00:00:00.000Z' },
+      { type: 'Écran', department: itMetz, purchasePriceCents: null, purchaseDate: null }
+    ];
+
+    it('should compute totals over priced items only', () => {
+      const report = buildValuationReport(items, rules, NOW);
+
+      expect(report.valuedAt).toBe(NOW);
+      expect(report.totals).toEqual({ itemCount: 3, purchaseValueCents: 260000, currentValueCents: 80000 });
+    });
+
+    it('should group by type with the depreciation period applied', () => {
+      const report = buildValuationReport(items, rules, NOW);
+
+      expect(report.byType).toEqual([
+        { type: 'Laptop', depreciationYears: 3, itemCount: 2, purchaseValueCents: 240000, currentValueCents: 60000 },
+        { type: 'Écran', depreciationYears: null, itemCount: 1, purchaseValueCents: 20000, currentValueCents: 20000 }
+      ]);
+    });
+
+    it('should group by department ID with unassigned items under null', () => {
+      const report = buildValuationReport(items, rules, NOW);
+
+      // Homonym departments of two companies are not merged
+      expect(report.byDepartment).toEqual([
+        { departmentId: 'dept-1', department: 'IT', company: 'Acme Metz', itemCount: 1, purchaseValueCents: 120000, currentValueCents: 60000 },
+        { departmentId: null, department: null, company: null, itemCount: 1, purchaseValueCents: 20000, currentValueCents: 20000 },
+        { departmentId: 'dept-2', department: 'IT', company: 'Acme Nancy', itemCount: 1, purchaseValueCents: 120000, currentValueCents: 0 }
+      ]);
+    });
+
+    it('should return empty groups without items', () => {
+      expect(buildValuationReport([], rules, NOW)).toEqual({
+        valuedAt: NOW,
+        totals: { itemCount: 0, purchaseValueCents: 0, currentValueCents: 0 },
+        byType: [],
+        byDepartment: []
+      });
+    });
+  });
+});
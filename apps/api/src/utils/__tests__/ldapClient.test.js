@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Unit tests for ldapClient.js
+ *
+ * Runs the client against a minimal in-process LDAP server (no TLS)
+ * answering binds and paged searches, and against silent servers to check
+ * the connection and StartTLS timeouts.
+ */
+
+import net from 'net';
+import { searchLdap } from '../ldapClient.js';
+
+// --- Minimal BER helpers for the fake server ---
+
+function tlv(tag, content = Buffer.alloc(0)) {
+  const length = content.length < 0x80
+    ? Buffer.from([content.length])
+    : Buffer.from([0x82, content.length >> 8, content.length & 0xff]);
+  return Buffer.concat([Buffer.from([tag]), length, content]);
+}
+const seq = (tag, elements) => tlv(tag, Buffer.concat(elements));
+const str = (value, tag = 0x04) => tlv(tag, Buffer.isBuffer(value) ? value : Buffer.from(value, 'utf8'));
+const int = (value, tag = 0x02) => tlv(tag, Buffer.from([value]));
+
+function read(buffer, offset = 0) {
+  let length = buffer[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = [...buffer.subarray(start, start + count)].reduce((total, byte) => total * 256 + byte, 0);
+    start += count;
+  }
+  return { tag: buffer[offset], end: start + length, content: buffer.subarray(start, start + length) };
+}
+
+function children(element) {
+  const result = [];
+  for (let offset = 0; offset < element.content.length; offset = result[result.length - 1].end) {
+    result.push(read(element.content, offset));
+  }
+  return result;
+}
+
+const PAGED_RESULTS_OID = '1.2.840.113556.1.4.319';
+
+const people = [
+  { dn: 'uid=jdupont,ou=people,dc=example,dc=org', attributes: { givenName: ['Jean'], sn: ['Dupont'], mail: ['jean.dupont@example.org'] } },
+  { dn: 'uid=mmartin,ou=people,dc=example,dc=org', attributes: { givenName: ['Marie'], sn: ['Martin'], mail: ['marie.martin@example.org'] } },
+  { dn: 'uid=lpetit,ou=people,dc=example,dc=org', attributes: { givenName: ['Luc'], sn: ['Petit'], department: ['Metz', 'Woippy'] } },
+];
+
+/**
+ * Start a fake LDAP server recording the requests it receives
+ *
+ * Binds succeed with the password "secret", searches return the people
+ * above, page by page when the paged results control is sent. StartTLS is
+ * accepted, but the TLS handshake is never answered.
+ * `closed` resolves once the client connection is closed.
+ */
+function startFakeServer() {
+  const received = [];
+  let upgrading = false;
+  let onClose;
+  const closed = new Promise(resolve => { onClose = resolve; });
+
+  const server = net.createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    socket.on('close', onClose);
+
+    const reply = (messageId, protocolOp, controls) => {
+      socket.write(seq(0x30, [int(messageId), protocolOp, ...(controls ? [controls] : [])]));
+    };
+    const result = (tag, code, message = '') => seq(tag, [int(code, 0x0a), str(''), str(message)]);
+
+    socket.on('data', (chunk) => {
+      if (upgrading) return;
+      buffer = Buffer.concat([buffer, chunk]);
+      while (buffer.length >= 2 && read(buffer).end <= buffer.length) {
+        const message = read(buffer);
+        buffer = buffer.subarray(message.end);
+        const [id, op, controls] = children(message);
+        const messageId = id.content[0];
+
+        if (op.tag === 0x77) {
+          received.push({ type: 'startTls' });
+          upgrading = true;
+          reply(messageId, result(0x78, 0));
+        } else if (op.tag === 0x42) {
+          received.push({ type: 'unbind' });
+          socket.end();
+        } else if (op.tag === 0x60) {
+          const [, name, password] = children(op);
+          received.push({ type: 'bind', dn: name.content.toString() });
+          reply(messageId, password.content.toString() === 'secret'
+            ? result(0x61, 0)
+            : result(0x61, 49, '80090308: LdapErr: DSID-0C09044E, data 52e'));
+        } else if (op.tag === 0x63) {
+          const [baseDn, , , , , , filter, attributes] = children(op);
+          let pageSize = people.length;
+          let offset = 0;
+          if (controls) {
+            // controlType, optional criticality, controlValue
+            const value = children(children(controls)[0]).at(-1);
+            const [size, cookie] = children(read(value.content));
+            pageSize = size.content[0];
+            offset = cookie.content.length ? Number(cookie.content.toString()) : 0;
+          }
+          received.push({
+            type: 'search',
+            baseDn: baseDn.content.toString(),
+            filter: [filter.tag, ...filter.content],
+            attributes: children(attributes).map(attribute => attribute.content.toString()),
+            offset
+          });
+
+          for (const person of people.slice(offset, offset + pageSize)) {
+            reply(messageId, seq(0x64, [
+              str(person.dn),
+              seq(0x30, Object.entries(person.attributes).map(([type, values]) =>
+                seq(0x30, [str(type), seq(0x31, values.map(value => str(value)))])))
+            ]));
+          }
+          const next = offset + pageSize < people.length ? String(offset + pageSize) : '';
+          reply(messageId, result(0x65, 0), controls && tlv(0xa0, seq(0x30, [
+            str(PAGED_RESULTS_OID),
+            str(seq(0x30, [int(0), str(next)]))
+          ])));
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, url: `ldap://127.0.0.1:${server.address().port}`, received, closed });
+    });
+  });
+}
+
+const account = { bindDn: 'cn=admin,dc=example,dc=org', bindPassword: 'secret' };
+
+describe('ldapClient', () => {
+  describe('searchLdap', () => {
+    let fake;
+
+    afterEach(async () => {
+      if (fake?.server.listening) {
+        await new Promise(resolve => fake.server.close(resolve));
+      }
+    });
+
+    it('should bind, search every page and unbind', async () => {
+      fake = await startFakeServer();
+
+      const entries = await searchLdap({ url: fake.url, ...account }, {
+        baseDn: 'ou=people,dc=example,dc=org',
+        filter: '(mail=*)',
+        attributes: ['givenName', 'sn', 'mail', 'department'],
+        pageSize: 2
+      });
+
+      expect(entries).toHaveLength(3);
+      expect(entries[0]).toEqual({
+        dn: 'uid=jdupont,ou=people,dc=example,dc=org',
+        attributes: { givenname: ['Jean'], sn: ['Dupont'], mail: ['jean.dupont@example.org'] }
+      });
+      expect(entries[2].attributes.department).toEqual(['Metz', 'Woippy']);
+      await fake.closed;
+      expect(fake.received).toEqual([
+        { type: 'bind', dn: 'cn=admin,dc=example,dc=org' },
+        expect.objectContaining({
+          type: 'search',
+          baseDn: 'ou=people,dc=example,dc=org',
+          filter: [0x87, ...Buffer.from('mail')],
+          attributes: ['givenName', 'sn', 'mail', 'department'],
+          offset: 0
+        }),
+        expect.objectContaining({ type: 'search', offset: 2 }),
+        { type: 'unbind' }
+      ]);
+    });
+
+    it('should search in one request without paging', async () => {
+      fake = await startFakeServer();
+
+      const entries = await searchLdap({ url: fake.url, ...account }, { baseDn: 'dc=example,dc=org', pageSize: 0 });
+
+      expect(entries).toHaveLength(3);
+      expect(fake.received.filter(request => request.type === 'search')).toHaveLength(1);
+    });
+
+    it('should reject invalid credentials with the server diagnostic', async () => {
+      fake = await startFakeServer();
+
+      await expect(searchLdap({ url: fake.url, ...account, bindPassword: 'wrong' }, { baseDn: 'dc=example,dc=org' }))
+        .rejects.toThrow('80090308');
+      expect(fake.received.some(request => request.type === 'search')).toBe(false);
+    });
+
+    it('should refuse a bind DN without password before connecting', async () => {
+      fake = await startFakeServer();
+
+      await expect(searchLdap({ url: fake.url, bindDn: account.bindDn }, { baseDn: 'dc=example,dc=org' }))
+        .rejects.toThrow('Mot de passe LDAP manquant');
+      expect(fake.received).toEqual([]);
+    });
+
+    it('should refuse other URLs and scopes before connecting', async () => {
+      await expect(searchLdap({ url: 'http://dc01.example.org' }, { baseDn: 'dc=example,dc=org' }))
+        .rejects.toThrow('URL LDAP invalide');
+      await expect(searchLdap({ url: 'ldap://dc01.example.org' }, { baseDn: 'dc=example,dc=org', scope: 'all' }))
+        .rejects.toThrow('Portée de recherche LDAP invalide');
+    });
+
+    it('should time out when the StartTLS handshake is never answered', async () => {
+      fake = await startFakeServer();
+
+      await expect(searchLdap({ url: fake.url, ...account, startTls: true, timeout: 300 }, { baseDn: 'dc=example,dc=org' }))
+        .rejects.toThrow('Délai dépassé pendant la négociation StartTLS');
+      expect(fake.received).toEqual([{ type: 'startTls' }]);
+    });
+
+    it('should time out when the ldaps:// handshake is never answered', async () => {
+      const sockets = [];
+      const silent = net.createServer(socket => sockets.push(socket));
+      await new Promise(resolve => silent.listen(0, '127.0.0.1', resolve));
+
+      try {
+        await expect(searchLdap(
+          { url: `ldaps://127.0.0.1:${silent.address().port}`, ...account, timeout: 300 },
+          { baseDn: 'dc=example,dc=org' }
+        )).rejects.toThrow('Connection timeout');
+      } finally {
+        sockets.forEach(socket => socket.destroy());
+        await new Promise(resolve => silent.close(resolve));
+      }
+    });
+
+    it('should reject when the server cannot be reached', async () => {
+      fake = await startFakeServer();
+      const { url } = fake;
+      await new Promise(resolve => fake.server.close(resolve));
+
+      await expect(searchLdap({ url, ...account, timeout: 1000 }, { baseDn: 'dc=example,dc=org' }))
+        .rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Unit tests for pdfDocument.js
+ *
+ * Tests:
+ * - Document creation (page size, metadata) and rendering to a Buffer
+ * - Text drawn on its baseline with font, size and gray level
+ */
+
+import zlib from 'zlib';
+import { PAGE_SIZES, createPdfDocument, drawText, gray, renderPdf } from '../pdfDocument.js';
+
+/**
+ * Inflate every page content stream
+ */
+function getPageContents(pdf) {
+  return [...pdf.matchAll(/\/Length (\d+)\n\/Filter \/FlateDecode\n>>\nstream\n/g)].map((header) => {
+    const start = header.index + header[0].length;
+    return zlib.inflateSync(Buffer.from(pdf.slice(start, start + Number(header[1])), 'latin1')).toString('latin1');
+  });
+}
+
+describe('pdfDocument', () => {
+  describe('createPdfDocument / renderPdf', () => {
+    it('should render every page at the requested size', async () => {
+      const doc = createPdfDocument({ title: 'Étiquettes', pageSize: PAGE_SIZES.LETTER });
+      doc.addPage();
+
+      const buffer = await renderPdf(doc);
+      const pdf = buffer.toString('latin1');
+
+      expect(Buffer.isBuffer(buffer)).toBe(true);
+      expect(pdf.startsWith('%PDF-')).toBe(true);
+      expect(pdf).toContain('/Count 2');
+      expect(pdf.match(/\/MediaBox \[0 0 612 792\]/g)).toHaveLength(2);
+      expect(pdf).toContain('/Producer');
+    });
+
+    it('should default to A4', async () => {
+      const pdf = (await renderPdf(createPdfDocument())).toString('latin1');
+
+      expect(pdf).toContain('/MediaBox [0 0 595.28 841.89]');
+    });
+  });
+
+  describe('drawText', () => {
+    it('should draw the text on its baseline from the top-left corner', async () => {
+      const doc = createPdfDocument();
+      drawText(doc, 'Bon de prêt', 50, 60, { size: 18, bold: true, gray: 0.4 });
+      drawText(doc, 'Référence', 50, 80);
+
+      const [content] = getPageContents((await renderPdf(doc)).toString('latin1'));
+
+      // Baseline 60 pt below the top of an A4 page
+      expect(content).toContain('1 0 0 1 50 781.89 Tm');
+      expect(content).toContain('0.4 0.4 0.4 scn');
+      expect(content).toMatch(/\/F\d+ 18 Tf/);
+      expect(content).toContain(`<${Buffer.from('Bon de pr\xeat', 'latin1').toString('hex')}>`);
+      expect(content).toContain('1 0 0 1 50 761.89 Tm');
+    });
+  });
+
+  describe('gray', () => {
+    it('should convert a gray level to RGB components', () => {
+      expect(gray(0)).toEqual([0, 0, 0]);
+      expect(gray(1)).toEqual([255, 255, 255]);
+      expect(gray(0.4)).toEqual([102, 102, 102]);
+    });
+  });
+});
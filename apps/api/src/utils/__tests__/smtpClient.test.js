@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Unit tests for smtpClient.js
+ *
+ * Sends through nodemailer to a minimal in-process SMTP server (no TLS).
+ */
+
+import net from 'net';
+import { createSmtpTransporter, sendSmtpMail } from '../smtpClient.js';
+
+/**
+ * Start a fake SMTP server recording received commands and messages
+ *
+ * @param {Object} [options]
+ * @param {string[]} [options.ehloLines] - Extensions advertised after EHLO
+ * @param {Object} [options.replies] - Reply overrides by command verb
+ */
+function startFakeServer({ ehloLines = [], replies = {} } = {}) {
+  const received = { commands: [], messages: [] };
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.setEncoding('utf8');
+    socket.write('220 fake.smtp ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 OK queued\r\n');
+          } else {
+            received.messages[received.messages.length - 1] += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        received.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (replies[verb]) {
+          socket.write(`${replies[verb]}\r\n`);
+        } else if (verb === 'EHLO') {
+          socket.write(['250-fake.smtp', ...ehloLines.map(extension => `250-${extension}`), '250 8BITMIME']
+            .join('\r\n') + '\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 Authenticated\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          received.messages.push('');
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: server.address().port, received });
+    });
+  });
+}
+
+const message = {
+  from: 'Inventaire <no-reply@example.com>',
+  to: 'jean.dupont@example.com',
+  subject: 'Prêt de matériel ouvert',
+  text: 'Bonjour Jean,',
+  html: '<p>Bonjour Jean,</p>'
+};
+
+describe('smtpClient', () => {
+  describe('sendSmtpMail', () => {
+    let fake;
+
+    const send = (options, content = message) =>
+      sendSmtpMail(createSmtpTransporter({ host: '127.0.0.1', port: fake.port, ...options }), content);
+
+    afterEach(async () => {
+      if (fake.server.listening) {
+        await new Promise(resolve => fake.server.close(resolve));
+      }
+    });
+
+    it('should deliver the message to the server', async () => {
+      fake = await startFakeServer();
+
+      const result = await send();
+
+      expect(result.messageId).toBeDefined();
+      // QUIT may still be in flight when sendMail resolves
+      expect(fake.received.commands.slice(0, 4)).toEqual([
+        expect.stringMatching(/^EHLO /),
+        expect.stringMatching(/^MAIL FROM:<no-reply@example\.com>/),
+        'RCPT TO:<jean.dupont@example.com>',
+        'DATA'
+      ]);
+      const data = fake.received.messages[0];
+      expect(data).toContain(`Message-ID: ${result.messageId}`);
+      expect(data).toContain('From: Inventaire <no-reply@example.com>');
+      expect(data).toContain('Subject: =?UTF-8?');
+      expect(data).toContain('Content-Type: multipart/alternative');
+    });
+
+    it('should authenticate with AUTH PLAIN when credentials are provided', async () => {
+      fake = await startFakeServer({ ehloLines: ['AUTH PLAIN LOGIN'] });
+
+      await send({ user: 'mailer', pass: 'secret' });
+
+      const credentials = Buffer.from('\u0000mailer\u0000secret').toString('base64');
+      expect(fake.received.commands).toContain(`AUTH PLAIN ${credentials}`);
+    });
+
+    it('should keep line breaks of the subject out of the headers', async () => {
+      fake = await startFakeServer();
+
+      await send({}, { ...message, subject: 'Prêt de Jean\r\nBcc: attacker@example.org', html: undefined });
+
+      const data = fake.received.messages[0];
+      expect(data).not.toMatch(/^Bcc:/m);
+      expect(fake.received.commands).not.toContain('RCPT TO:<attacker@example.org>');
+    });
+
+    it('should refuse a recipient spanning several lines', async () => {
+      fake = await startFakeServer();
+
+      await expect(send({}, { ...message, to: 'jean.dupont@example.com\r\nBcc: attacker@example.org' }))
+        .rejects.toThrow('En-tête To invalide');
+      expect(fake.received.commands).toEqual([]);
+    });
+
+    it('should reject when the server refuses the recipient', async () => {
+      fake = await startFakeServer({ replies: { RCPT: '550 No such user' } });
+
+      await expect(send()).rejects.toThrow('550 No such user');
+    });
+
+    it('should reject when the server cannot be reached', async () => {
+      fake = await startFakeServer();
+      await new Promise(resolve => fake.server.close(resolve));
+
+      await expect(send({ timeout: 1000 })).rejects.toThrow();
+    });
+  });
+});
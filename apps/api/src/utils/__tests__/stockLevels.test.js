@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Tests for stock minimum level utilities
+ *
+ * Tests cover:
+ * - isBelowMinimum: available quantity against the item minimum
+ * - getSuggestedOrderQuantity: usual order size or enough to reach the minimum
+ * - buildReorderList: filtering, grouping by supplier, ordering
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { isBelowMinimum, getSuggestedOrderQuantity, buildReorderList } from '../stockLevels.js';
+
+const assetModel = { type: 'Câble', brand: 'Belkin', modelName: 'HDMI 2m' };
+
+function stockItem(overrides) {
+  return {
+    id: 'stock1',
+    quantity: 10,
+    loaned: 0,
+    minQuantity: 0,
+    reorderQuantity: 0,
+    location: null,
+    assetModel,
+    supplier: null,
+    ...overrides
+  };
+}
+
+describe('stockLevels', () => {
+  describe('isBelowMinimum', () => {
+    it('should compare the available quantity with the minimum', () => {
+      expect(isBelowMinimum(stockItem({ quantity: 6, loaned: 2, minQuantity: 5 }))).toBe(true);
+      expect(isBelowMinimum(stockItem({ quantity: 7, loaned: 2, minQuantity: 5 }))).toBe(false);
+    });
+
+    it('should never alert with a minimum of 0', () => {
+      expect(isBelowMinimum(stockItem({ quantity: 0, minQuantity: 0 }))).toBe(false);
+    });
+  });
+
+  describe('getSuggestedOrderQuantity', () => {
+    it('should suggest the usual order size', () => {
+      expect(getSuggestedOrderQuantity(stockItem({ quantity: 3, loaned: 2, minQuantity: 5, reorderQuantity: 10 }))).toBe(10);
+    });
+
+    it('should order enough to reach the minimum when the usual size is not', () => {
+      expect(getSuggestedOrderQuantity(stockItem({ quantity: 0, minQuantity: 8, reorderQuantity: 5 }))).toBe(8);
+      expect(getSuggestedOrderQuantity(stockItem({ quantity: 1, minQuantity: 4, reorderQuantity: 0 }))).toBe(3);
+    });
+  });
+
+  describe('buildReorderList', () => {
+    it('should group the items below their minimum by supplier, without supplier last', () => {
+      const acme = { id: 'sup1', name: 'Acme' };
+      const bureau = { id: 'sup2', name: 'Bureau Pro' };
+
+      const groups = buildReorderList([
+        stockItem({ id: 'stock1', quantity: 1, minQuantity: 5, supplier: null }),
+        stockItem({ id: 'stock2', quantity: 0, minQuantity: 2, supplier: bureau }),
+        stockItem({ id: 'stock3', quantity: 20, minQuantity: 5, supplier: acme }),
+        stockItem({ id: 'stock4', quantity: 2, loaned: 1, minQuantity: 3, reorderQuantity: 10, location: 'Réserve', supplier: acme })
+      ]);
+
+      expect(groups.map(group => group.supplier?.name ?? null)).toEqual(['Acme', 'Bureau Pro', null]);
+      expect(groups[0].lines).toEqual([{
+        stockItemId: 'stock4',
+        assetModel,
+        location: 'Réserve',
+        available: 1,
+        minQuantity: 3,
+        suggestedQuantity: 10
+      }]);
+      expect(groups[2].lines[0].suggestedQuantity).toBe(4);
+    });
+
+    it('should return an empty list when every item is above its minimum', () => {
+      expect(buildReorderList([stockItem({ minQuantity: 5 })])).toEqual([]);
+    });
+  });
+});
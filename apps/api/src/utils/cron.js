@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Cron expression utilities
+ *
+ * Supports the standard 5 fields "minute hour day-of-month month day-of-week"
+ * with `*`, lists (`1,15`), ranges (`1-5`) and steps (`*\/15`, `8-18/2`).
+ * Day of week accepts 0-7 (0 and 7 are Sunday). Like cron, when both day of
+ * month and day of week are restricted, a date matching either one matches.
+ * Dates are evaluated in the server time zone (TZ).
+ */
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'dayOfMonth', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'dayOfWeek', min: 0, max: 7 }
+];
+
+// Upper bound of the next run search (covers "29 2 *" style expressions)
+const MAX_SEARCH_YEARS = 5;
+
+function parseNumber(value, field, expression) {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Expression cron invalide "${expression}": valeur "${value}" pour ${field.name}`);
+  }
+  const number = Number(value);
+  if (number < field.min || number > field.max) {
+    throw new Error(`Expression cron invalide "${expression}": ${field.name} doit être entre ${field.min} et ${field.max}`);
+  }
+  return number;
+}
+
+function parseField(source, field, expression) {
+  const values = new Set();
+
+  for (const part of source.split(',')) {
+    const [range, stepSource] = part.split('/');
+    const step = stepSource === undefined ? 1 : parseNumber(stepSource, { ...field, min: 1 }, expression);
+
+    let start;
+    let end;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseNumber(from, field, expression);
+      end = parseNumber(to, field, expression);
+      if (start > end) {
+        throw new Error(`Expression cron invalide "${expression}": intervalle ${range} inversé`);
+      }
+    } else {
+      start = parseNumber(range, field, expression);
+      end = stepSource === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @param {string} expression - e.g. "*\/15 * * * *" or "0 8 * * 1-5"
+ * @returns {Object} Allowed values per field and day restriction flags
+ * @throws {Error} If the expression is invalid
+ */
+export function parseCron(expression) {
+  const parts = String(expression).trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Expression cron invalide "${expression}": 5 champs attendus`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index], expression));
+
+  // 7 is an alias of Sunday
+  if (dayOfWeek.has(7)) {
+    dayOfWeek.delete(7);
+    dayOfWeek.add(0);
+  }
+
+  return {
+    minute,
+    hour,
+    dayOfMonth,
+    month,
+    dayOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*'
+  };
+}
+
+function matchesDay(schedule, date) {
+  const inMonth = schedule.dayOfMonth.has(date.getDate());
+  const inWeek = schedule.dayOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return inMonth || inWeek;
+  }
+  return inMonth && inWeek;
+}
+
+/**
+ * Compute the next run date strictly after a given date
+ *
+ * @param {string|Object} expression - Cron expression or parseCron() result
+ * @param {Date} [from=new Date()] - Reference date
+ * @returns {Date} Next matching minute
+ * @throws {Error} If the expression is invalid or never matches
+ *
+ * @example
+ * getNextCronDate('0 8 * * 1-5', new Date('2026-10-17T10:00:00')) // Monday 2026-10-19 08:00
+ */
+export function getNextCronDate(expression, from = new Date()) {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const date = new Date(from.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(from.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (date <= limit) {
+    if (!schedule.month.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hour.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minute.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Expression cron sans occurrence: "${typeof expression === 'string' ? expression : 'schedule'}"`);
+}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Straight-line depreciation of asset items
+ *
+ * An equipment type may define a depreciation period in years. The book value
+ * of an item decreases linearly from its purchase price, starting on its
+ * purchase date, and reaches zero at the end of the period. Items of a type
+ * without a period, or without a purchase date, keep their purchase price.
+ * Amounts are integer cents, like every amount stored by the application.
+ */
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Compute the current book value of an item
+ *
+ * @param {Object} item - Asset item purchase data
+ * @param {number|null} item.purchasePriceCents - Purchase price in cents
+ * @param {Date|string|null} item.purchaseDate - Purchase date
+ * @param {number|null} [depreciationYears] - Depreciation period of the item type
+ * @param {Date} [now=new Date()] - Valuation date
+ * @returns {number|null} Book value in cents, null when the price is unknown
+ *
+ * @example
+ * // Halfway through a 3 year period
+ * computeCurrentValueCents({ purchasePriceCents: 120000, purchaseDate }, 3)
+ * // 60000
+ */
+export function computeCurrentValueCents(item, depreciationYears, now = new Date()) {
+  const { purchasePriceCents, purchaseDate } = item;
+
+  if (purchasePriceCents === null || purchasePriceCents === undefined) {
+    return null;
+  }
+  if (!depreciationYears || !purchaseDate) {
+    return purchasePriceCents;
+  }
+
+  const elapsedYears = (now.getTime() - new Date(purchaseDate).getTime()) / MS_PER_YEAR;
+  const remainingRatio = Math.min(1, Math.max(0, 1 - elapsedYears / depreciationYears));
+
+  return Math.round(purchasePriceCents * remainingRatio);
+}
+
+function addToGroup(groups, key, labels, purchaseValueCents, currentValueCents) {
+  const group = groups.get(key) ?? { ...labels, itemCount: 0, purchaseValueCents: 0, currentValueCents: 0 };
+  group.itemCount += 1;
+  group.purchaseValueCents += purchaseValueCents;
+  group.currentValueCents += currentValueCents;
+  groups.set(key, group);
+}
+
+function sortByCurrentValue(rows) {
+  return rows.sort((a, b) => b.currentValueCents - a.currentValueCents);
+}
+
+/**
+ * Build the fleet valuation report
+ *
+ * Items without a purchase price are ignored. Departments are grouped by ID,
+ * so homonym departments of different companies stay apart. Items not
+ * assigned to an employee of a department are grouped under a null department.
+ *
+ * @param {Array<Object>} items - Items with purchasePriceCents, purchaseDate, type
+ *   and department ({ id, name, company } or null)
+ * @param {Map<string, number|null>} depreciationYearsByType - Depreciation period per type name
+ * @param {Date} [now=new Date()] - Valuation date
+ * @returns {{totals: Object, byType: Array<Object>, byDepartment: Array<Object>}}
+ *   Totals and rows sorted by decreasing current value; type rows carry the
+ *   depreciation period applied
+ */
+export function buildValuationReport(items, depreciationYearsByType, now = new Date()) {
+  const totals = { itemCount: 0, purchaseValueCents: 0, currentValueCents: 0 };
+  const byType = new Map();
+  const byDepartment = new Map();
+
+  for (const item of items) {
+    if (item.purchasePriceCents === null || item.purchasePriceCents === undefined) {
+      continue;
+    }
+
+    const currentValueCents = computeCurrentValueCents(item, depreciationYearsByType.get(item.type), now);
+
+    totals.itemCount += 1;
+    totals.purchaseValueCents += item.purchasePriceCents;
+    totals.currentValueCents += currentValueCents;
+    addToGroup(byType, item.type, { type: item.type }, item.purchasePriceCents, currentValueCents);
+    addToGroup(byDepartment, item.department?.id ?? null, {
+      departmentId: item.department?.id ?? null,
+      department: item.department?.name ?? null,
+      company: item.department?.company ?? null
+    }, item.purchasePriceCents, currentValueCents);
+  }
+
+  return {
+    valuedAt: now,
+    totals,
+    byType: sortByCurrentValue([...byType.values()].map(({ type, ...group }) => ({
+      type,
+      depreciationYears: depreciationYearsByType.get(type) ?? null,
+      ...group
+    }))),
+    byDepartment: sortByCurrentValue([...byDepartment.values()])
+  };
+}
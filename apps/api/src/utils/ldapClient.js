@@ -0,0 +1,131 @@
+/**
+ * @fileoverview LDAP directory search (ldapts)
+ *
+ * Runs a single search per connection:
+ * (StartTLS) → simple bind → search, page by page → unbind
+ *
+ * Supports ldap:// and ldaps:// URLs, StartTLS, RFC 4515 filters and the
+ * simple paged results control (Active Directory returns at most 1000
+ * entries per request). Attribute values are decoded as UTF-8 strings.
+ * Works against Active Directory and OpenLDAP, including the openldap
+ * container of docker-compose.yml used in development.
+ */
+
+import { Client } from 'ldapts';
+
+const SCOPES = ['base', 'one', 'sub'];
+
+/**
+ * Reject when a step outlives the timeout (ldapts has none for StartTLS)
+ */
+function withTimeout(promise, timeout, message) {
+  let timer;
+  return Promise.race([
+    promise,
+    new Promise((resolve, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), timeout);
+    })
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Normalize an ldapts entry: attribute names in lower case, values as arrays,
+ * requested attributes missing from the entry left out
+ */
+function toEntry({ dn, ...attributes }) {
+  return {
+    dn,
+    attributes: Object.fromEntries(Object.entries(attributes)
+      .map(([name, value]) => [name.toLowerCase(), (Array.isArray(value) ? value : [value]).map(String)])
+      .filter(([, values]) => values.length > 0))
+  };
+}
+
+/**
+ * Search an LDAP directory
+ *
+ * @param {Object} options - Server settings
+ * @param {string} options.url - ldap://host:389 or ldaps://host:636
+ * @param {string} [options.bindDn] - Service account (anonymous bind without it)
+ * @param {string} [options.bindPassword]
+ * @param {boolean} [options.startTls=false] - Upgrade an ldap:// connection to TLS
+ * @param {boolean} [options.rejectUnauthorized=true] - Check the server certificate
+ * @param {number} [options.timeout=10000] - Connection (TLS handshake included) and
+ *   per-operation timeout (ms)
+ * @param {Object} search - Search settings
+ * @param {string} search.baseDn - Search base
+ * @param {string} [search.filter='(objectClass=*)'] - RFC 4515 filter
+ * @param {string[]} [search.attributes=[]] - Attributes to return (all when empty)
+ * @param {string} [search.scope='sub'] - base, one or sub
+ * @param {number} [search.pageSize=500] - Entries per page, 0 to disable paging
+ * @returns {Promise<Array<{ dn: string, attributes: Object<string, string[]> }>>}
+ *   Entries, attribute names in lower case
+ * @throws {Error} On connection failure or timeout, invalid filter or LDAP error result
+ *
+ * @example
+ * const entries = await searchLdap(
+ *   { url: 'ldap://localhost:389', bindDn: 'cn=admin,dc=example,dc=org', bindPassword: 'admin' },
+ *   { baseDn: 'ou=people,dc=example,dc=org', filter: '(mail=*)', attributes: ['givenName', 'sn', 'mail'] }
+ * );
+ * // entries[0]: { dn: 'uid=jdupont,ou=people,dc=example,dc=org', attributes: { givenname: ['Jean'], ... } }
+ */
+export async function searchLdap(options, search) {
+  const {
+    url,
+    bindDn,
+    bindPassword,
+    startTls = false,
+    rejectUnauthorized = true,
+    timeout = 10000
+  } = options;
+  const {
+    baseDn,
+    filter = '(objectClass=*)',
+    attributes = [],
+    scope = 'sub',
+    pageSize = 500
+  } = search;
+
+  let host;
+  let secure;
+  try {
+    const parsed = new URL(url);
+    if (!['ldap:', 'ldaps:'].includes(parsed.protocol) || !parsed.hostname) throw new Error();
+    host = parsed.hostname.replace(/^\[|\]$/g, '');
+    secure = parsed.protocol === 'ldaps:';
+  } catch {
+    throw new Error(`URL LDAP invalide "${url}" (ldap://hôte:389 ou ldaps://hôte:636)`);
+  }
+  if (!SCOPES.includes(scope)) {
+    throw new Error(`Portée de recherche LDAP invalide "${scope}" (base, one ou sub)`);
+  }
+  // An empty password turns a simple bind into an unauthenticated one that servers accept
+  if (bindDn && !bindPassword) {
+    throw new Error(`Mot de passe LDAP manquant pour ${bindDn}`);
+  }
+
+  const tlsOptions = { servername: host, host, rejectUnauthorized };
+  // ldapts switches to implicit TLS as soon as tlsOptions are given
+  const client = new Client({ url, timeout, connectTimeout: timeout, ...(secure && { tlsOptions }) });
+
+  try {
+    if (startTls && !secure) {
+      await withTimeout(client.startTLS(tlsOptions), timeout, 'Délai dépassé pendant la négociation StartTLS');
+    }
+
+    if (bindDn) {
+      await client.bind(bindDn, bindPassword);
+    }
+
+    const { searchEntries } = await client.search(baseDn, {
+      scope,
+      filter,
+      attributes,
+      paged: pageSize > 0 ? { pageSize } : false
+    });
+
+    return searchEntries.map(toEntry);
+  } finally {
+    await client.unbind().catch(() => {});
+  }
+}
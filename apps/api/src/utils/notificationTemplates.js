@@ -0,0 +1,142 @@
+/**
+ * @fileoverview French email templates for loan notifications
+ *
+ * Each template renders a subject, a plain text body and an HTML body
+ * for one recipient: the borrowing employee or their manager.
+ */
+
+const RETURN_CONDITION_LABELS = {
+  OK: 'bon état',
+  DAMAGED: 'endommagé',
+  MISSING: 'manquant'
+};
+
+function formatDate(date) {
+  return new Date(date).toLocaleDateString('fr-FR');
+}
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Describe a loan line: "LAP-001 - Dell Latitude 5440 (SN123)" or "Belkin USB-C x2"
+ */
+export function describeLine(line) {
+  const model = line.assetItem?.assetModel ?? line.stockItem?.assetModel;
+  const name = model ? `${model.brand} ${model.modelName}` : 'Article';
+
+  if (line.assetItem) {
+    const serial = line.assetItem.serial ? ` (${line.assetItem.serial})` : '';
+    return `${line.assetItem.assetTag} - ${name}${serial}`;
+  }
+  return `${name} x${line.quantity}`;
+}
+
+function describeReturnedLine(line) {
+  const condition = line.returnCondition ? ` : ${RETURN_CONDITION_LABELS[line.returnCondition]}` : '';
+  return `${describeLine(line)}${condition}`;
+}
+
+const TEMPLATES = {
+  LOAN_OPENED: ({ fullName, loan, lines }) => ({
+    subject: `Prêt de matériel ouvert pour ${fullName}`,
+    employeeIntro: 'un prêt de matériel vient d\'être ouvert à votre nom.',
+    managerIntro: `un prêt de matériel vient d'être ouvert pour ${fullName}, membre de votre équipe.`,
+    listTitle: lines.length > 0 ? 'Matériel prêté :' : 'Le matériel sera ajouté au prêt lors du retrait.',
+    items: lines.map(describeLine),
+    outro: loan.dueAt ? `Retour prévu le ${formatDate(loan.dueAt)}.` : null
+  }),
+  LINE_ADDED: ({ fullName, loan, lines }) => ({
+    subject: `Matériel ajouté au prêt de ${fullName}`,
+    employeeIntro: 'du matériel vient d\'être ajouté à votre prêt.',
+    managerIntro: `du matériel vient d'être remis à ${fullName}, membre de votre équipe.`,
+    listTitle: 'Matériel ajouté :',
+    items: lines.map(describeLine),
+    outro: loan.dueAt ? `Retour prévu le ${formatDate(loan.dueAt)}.` : null
+  }),
+  LOAN_CLOSED: ({ fullName, lines }) => ({
+    subject: `Prêt de matériel clôturé pour ${fullName}`,
+    employeeIntro: 'votre prêt de matériel est clôturé, merci d\'avoir restitué le matériel.',
+    managerIntro: `le prêt de matériel de ${fullName}, membre de votre équipe, est clôturé.`,
+    listTitle: 'Matériel restitué :',
+    items: lines.map(describeReturnedLine),
+    outro: null
+  }),
+  OVERDUE_REMINDER: ({ fullName, loan, lines }) => ({
+    subject: `Rappel : matériel à restituer par ${fullName}`,
+    employeeIntro: loan.dueAt
+      ? `le matériel ci-dessous devait être restitué le ${formatDate(loan.dueAt)}.`
+      : 'le matériel ci-dessous devait déjà être restitué.',
+    managerIntro: `${fullName}, membre de votre équipe, n'a pas encore restitué le matériel ci-dessous à la date prévue.`,
+    listTitle: 'Matériel à restituer :',
+    items: lines.map((line) => (line.dueAt ? `${describeLine(line)} (prévu le ${formatDate(line.dueAt)})` : describeLine(line))),
+    outro: 'Merci de le rapporter au service informatique dès que possible.'
+  }),
+  LONG_LOAN_REMINDER: ({ fullName, loan, lines }) => {
+    const days = Math.floor((Date.now() - new Date(loan.openedAt).getTime()) / (24 * 60 * 60 * 1000));
+    return {
+      subject: `Prêt de matériel en cours depuis ${days} jours : ${fullName}`,
+      employeeIntro: `vous avez du matériel en prêt depuis le ${formatDate(loan.openedAt)} (${days} jours).`,
+      managerIntro: `${fullName}, membre de votre équipe, a du matériel en prêt depuis le ${formatDate(loan.openedAt)} (${days} jours).`,
+      listTitle: 'Matériel en prêt :',
+      items: lines.map(describeLine),
+      outro: 'Si ce matériel n\'est plus utilisé, merci de le rapporter au service informatique.'
+    };
+  }
+};
+
+/**
+ * Render a loan notification
+ *
+ * @param {string} event - LOAN_OPENED, LINE_ADDED, LOAN_CLOSED, OVERDUE_REMINDER or LONG_LOAN_REMINDER
+ * @param {Object} context
+ * @param {Object} context.loan - Loan with employee
+ * @param {Object[]} context.lines - Lines to list (added, returned or outstanding)
+ * @param {'employee'|'manager'} context.recipientType
+ * @returns {{ subject: string, text: string, html: string }}
+ * @throws {Error} If the event is unknown
+ *
+ * @example
+ * const { subject, text, html } = renderNotification('LOAN_OPENED', { loan, lines: loan.lines, recipientType: 'employee' });
+ */
+export function renderNotification(event, { loan, lines, recipientType }) {
+  const template = TEMPLATES[event];
+  if (!template) {
+    throw new Error(`Modèle de notification inconnu: ${event}`);
+  }
+
+  const { employee } = loan;
+  const fullName = `${employee.firstName} ${employee.lastName}`;
+  const content = template({ fullName, loan, lines });
+  const greeting = recipientType === 'employee' ? `Bonjour ${employee.firstName},` : 'Bonjour,';
+  const intro = recipientType === 'employee' ? content.employeeIntro : content.managerIntro;
+  const signature = 'Le service informatique';
+
+  const text = [
+    greeting,
+    '',
+    intro.charAt(0).toUpperCase() + intro.slice(1),
+    '',
+    content.listTitle,
+    ...content.items.map((item) => `- ${item}`),
+    ...(content.outro ? ['', content.outro] : []),
+    '',
+    signature
+  ].join('\n');
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro.charAt(0).toUpperCase() + intro.slice(1))}</p>`,
+    `<p>${escapeHtml(content.listTitle)}</p>`,
+    content.items.length > 0 ? `<ul>${content.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '',
+    content.outro ? `<p>${escapeHtml(content.outro)}</p>` : '',
+    `<p>${escapeHtml(signature)}</p>`
+  ].join('\n');
+
+  return { subject: content.subject, text, html };
+}
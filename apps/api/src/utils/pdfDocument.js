@@ -0,0 +1,102 @@
+/**
+ * @fileoverview PDF document helpers (pdfkit)
+ *
+ * Shared setup of the small documents generated by the API (receipts, label
+ * sheets): page size without margins, metadata, standard Helvetica fonts,
+ * and rendering of the pdfkit stream into a Buffer.
+ *
+ * Coordinates are expressed in points from the TOP-LEFT corner of the page
+ * (pdfkit default). Texts drawn with drawText are positioned on their baseline.
+ */
+
+import PDFDocument from 'pdfkit';
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+/** Page sizes in points */
+export const PAGE_SIZES = {
+  A4: { width: A4_WIDTH, height: A4_HEIGHT },
+  LETTER: { width: 612, height: 792 }
+};
+
+const FONTS = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold'
+};
+
+// Single line of text positioned on its baseline, never wrapped nor paginated
+const TEXT_OPTIONS = { lineBreak: false, baseline: 'alphabetic' };
+
+/**
+ * Convert a gray level to a pdfkit RGB color
+ *
+ * @param {number} level - From 0 (black) to 1 (white)
+ * @returns {number[]} RGB components (0-255)
+ */
+export function gray(level) {
+  const value = Math.round(level * 255);
+  return [value, value, value];
+}
+
+/**
+ * Draw a single line of text, `y` being the text baseline
+ *
+ * @param {PDFDocument} doc - pdfkit document
+ * @param {string} text
+ * @param {number} x
+ * @param {number} y
+ * @param {Object} [options]
+ * @param {number} [options.size=10] - Font size in points
+ * @param {boolean} [options.bold=false]
+ * @param {number} [options.gray=0] - Text gray level, from 0 (black) to 1 (white)
+ */
+export function drawText(doc, text, x, y, { size = 10, bold = false, gray: level = 0 } = {}) {
+  doc.font(bold ? FONTS.bold : FONTS.regular)
+    .fontSize(size)
+    .fillColor(gray(level))
+    .text(String(text), x, y, TEXT_OPTIONS);
+}
+
+/**
+ * Create a document with its first page
+ *
+ * @param {Object} [options]
+ * @param {string} [options.title] - Document title (metadata)
+ * @param {Date} [options.createdAt] - Creation date (metadata, defaults to now)
+ * @param {{width: number, height: number}} [options.pageSize] - Page size in points (see PAGE_SIZES)
+ * @returns {PDFDocument} pdfkit document, pages added with `doc.addPage()` keep the size
+ *
+ * @example
+ * const doc = createPdfDocument({ title: 'Bon de prêt' });
+ * drawText(doc, 'Bon de prêt', 50, 60, { size: 18, bold: true });
+ * doc.moveTo(50, 70).lineTo(545, 70).stroke();
+ * const buffer = await renderPdf(doc);
+ */
+export function createPdfDocument({ title, createdAt = new Date(), pageSize = PAGE_SIZES.A4 } = {}) {
+  return new PDFDocument({
+    size: [pageSize.width, pageSize.height],
+    margin: 0,
+    info: {
+      ...(title && { Title: title }),
+      Producer: 'Inventaire',
+      CreationDate: createdAt
+    }
+  });
+}
+
+/**
+ * End the document and collect its content
+ *
+ * @param {PDFDocument} doc - pdfkit document
+ * @returns {Promise<Buffer>} PDF file content
+ */
+export function renderPdf(doc) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    doc.end();
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview SMTP delivery (nodemailer)
+ *
+ * Maps the SMTP_* settings to a nodemailer transporter: implicit TLS
+ * (port 465), opportunistic STARTTLS, AUTH and timeouts. Works against any
+ * SMTP server, including local catchers (Mailpit, MailHog) used in development.
+ *
+ * Header values never contain line breaks: subjects are built from employee
+ * names or directory values, a CR/LF there could inject extra headers.
+ */
+
+import nodemailer from 'nodemailer';
+
+/**
+ * Collapse the line breaks of a header value
+ */
+function toHeaderValue(value) {
+  return String(value).replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Refuse an address header spanning several lines
+ */
+function assertSingleLine(value, header) {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`En-tête ${header} invalide (retour à la ligne)`);
+  }
+  return value;
+}
+
+/**
+ * Create a transporter for an SMTP server
+ *
+ * @param {Object} options - Server settings
+ * @param {string} options.host
+ * @param {number} [options.port=25]
+ * @param {boolean} [options.secure=false] - Implicit TLS (usually port 465)
+ * @param {string} [options.user] - Login (AUTH is skipped without it)
+ * @param {string} [options.pass]
+ * @param {boolean} [options.rejectUnauthorized=true] - Check the server certificate
+ * @param {number} [options.timeout=10000] - Connection, greeting and socket inactivity timeout (ms)
+ * @returns {Object} nodemailer transporter
+ */
+export function createSmtpTransporter({
+  host,
+  port = 25,
+  secure = false,
+  user,
+  pass,
+  rejectUnauthorized = true,
+  timeout = 10000
+}) {
+  return nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    ...(user && { auth: { user, pass: pass ?? '' } }),
+    tls: { rejectUnauthorized },
+    connectionTimeout: timeout,
+    greetingTimeout: timeout,
+    socketTimeout: timeout
+  });
+}
+
+/**
+ * Send one email
+ *
+ * @param {Object} transporter - See createSmtpTransporter()
+ * @param {Object} message
+ * @param {string} message.from - Sender, e.g. "Inventaire <no-reply@example.com>"
+ * @param {string} message.to - Recipient address
+ * @param {string} message.subject
+ * @param {string} message.text - Plain text body
+ * @param {string} [message.html] - HTML body
+ * @returns {Promise<{ messageId: string }>}
+ * @throws {Error} If an address spans several lines, on connection failure or unexpected server reply
+ *
+ * @example
+ * const transporter = createSmtpTransporter({ host: 'localhost', port: 1025 });
+ * await sendSmtpMail(transporter, {
+ *   from: 'Inventaire <no-reply@example.com>',
+ *   to: 'jean.dupont@example.com',
+ *   subject: 'Test',
+ *   text: 'Bonjour'
+ * });
+ */
+export async function sendSmtpMail(transporter, { from, to, subject, text, html }) {
+  const { messageId } = await transporter.sendMail({
+    from: assertSingleLine(from, 'From'),
+    to: assertSingleLine(to, 'To'),
+    subject: toHeaderValue(subject),
+    text,
+    ...(html && { html })
+  });
+
+  return { messageId };
+}
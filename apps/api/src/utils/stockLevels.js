@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Minimum levels and reorder suggestions of stock items
+ *
+ * Each stock item defines its own minimum level (minQuantity) and usual order
+ * size (reorderQuantity). An item is low on stock when its available quantity
+ * (quantity - loaned) falls below its minimum; a minimum of 0 disables the
+ * alert. The suggested order is the usual order size, or more when it is not
+ * enough to get back to the minimum.
+ */
+
+/**
+ * Get the quantity of a stock item that can still be loaned
+ *
+ * @param {Object} item - Stock item ({ quantity, loaned })
+ * @returns {number} Available quantity
+ */
+export function getAvailableQuantity(item) {
+  return item.quantity - item.loaned;
+}
+
+/**
+ * Check whether a stock item is below its minimum level
+ *
+ * @param {Object} item - Stock item ({ quantity, loaned, minQuantity })
+ * @returns {boolean} True when the available quantity is below the minimum
+ */
+export function isBelowMinimum(item) {
+  return getAvailableQuantity(item) < item.minQuantity;
+}
+
+/**
+ * Get the quantity to order for a stock item below its minimum level
+ *
+ * @param {Object} item - Stock item ({ quantity, loaned, minQuantity, reorderQuantity })
+ * @returns {number} Units to order
+ *
+ * @example
+ * // 1 available, minimum 5, usually ordered by 10
+ * getSuggestedOrderQuantity({ quantity: 3, loaned: 2, minQuantity: 5, reorderQuantity: 10 })
+ * // 10
+ */
+export function getSuggestedOrderQuantity(item) {
+  return Math.max(item.reorderQuantity, item.minQuantity - getAvailableQuantity(item));
+}
+
+/**
+ * Build the reorder list of the stock items below their minimum level
+ *
+ * Lines are grouped by supplier so that each group can be sent as one
+ * purchase request; items without a supplier come last under a null supplier.
+ *
+ * @param {Array<Object>} items - Stock items with their assetModel and supplier
+ * @returns {Array<Object>} [{ supplier, lines: [{ stockItemId, assetModel, location,
+ *   available, minQuantity, suggestedQuantity }] }]
+ */
+export function buildReorderList(items) {
+  const groups = new Map();
+
+  for (const item of items) {
+    if (!isBelowMinimum(item)) {
+      continue;
+    }
+
+    const key = item.supplier?.id ?? null;
+    if (!groups.has(key)) {
+      groups.set(key, { supplier: item.supplier ?? null, lines: [] });
+    }
+    groups.get(key).lines.push({
+      stockItemId: item.id,
+      assetModel: item.assetModel,
+      location: item.location ?? null,
+      available: getAvailableQuantity(item),
+      minQuantity: item.minQuantity,
+      suggestedQuantity: getSuggestedOrderQuantity(item)
+    });
+  }
+
+  return [...groups.values()].sort((a, b) => {
+    if (!a.supplier) return 1;
+    if (!b.supplier) return -1;
+    return a.supplier.name.localeCompare(b.supplier.name, 'fr');
+  });
+}
@@ -7,6 +7,9 @@
  * - updateStatusSchema: required enum validation
  * - createAssetItemsBulkSchema: bulk creation with constraints
  * - bulkPreviewSchema: preview parameters
+ * - Purchase and warranty fields, expiringWarrantiesQuerySchema
+ * - retireAssetItemSchema, disposalRegisterQuerySchema
+ * - generateLabelsSchema: defaults, layout overrides, limits
  * - Edge cases and error messages
  */
 
@@ -16,7 +19,11 @@ import {
   updateAssetItemSchema,
   updateStatusSchema,
   createAssetItemsBulkSchema,
-  bulkPreviewSchema
+  bulkPreviewSchema,
+  retireAssetItemSchema,
+  disposalRegisterQuerySchema,
+  expiringWarrantiesQuerySchema,
+  generateLabelsSchema
 } from '../assetItems.validator.js';
 
 const VALID_STATUSES = ['EN_STOCK', 'PRETE', 'HS', 'REPARATION'];
@@ -518,4 +525,181 @@ describe('AssetItem Validators', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  // ============================================
+  // Purchase and warranty fields
+  // ============================================
+
+  describe('Donnees d\'achat et garantie', () => {
+    const purchase = {
+      supplierId: VALID_MODEL_CUID_2,
+      invoiceNumber: 'FA-2025-0042',
+      purchaseDate: '2025-03-10',
+      purchasePriceCents: 89900,
+      warrantyEndsAt: '2028-03-10'
+    };
+
+    it('devrait accepter et convertir les dates d\'achat', () => {
+      const result = createAssetItemSchema.safeParse({ assetModelId: VALID_MODEL_CUID, ...purchase });
+
+      expect(result.success).toBe(true);
+      expect(result.data.purchaseDate).toBeInstanceOf(Date);
+      expect(result.data.warrantyEndsAt).toBeInstanceOf(Date);
+    });
+
+    it('devrait accepter les donnees d\'achat en creation en masse', () => {
+      const result = createAssetItemsBulkSchema.safeParse({
+        assetModelId: VALID_MODEL_CUID,
+        tagPrefix: 'KB-',
+        quantity: 10,
+        ...purchase
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('devrait accepter null pour effacer les donnees d\'achat', () => {
+      const result = updateAssetItemSchema.safeParse({
+        supplierId: null,
+        invoiceNumber: null,
+        purchaseDate: null,
+        purchasePriceCents: null,
+        warrantyEndsAt: null
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.purchaseDate).toBeNull();
+    });
+
+    it('devrait rejeter un prix decimal ou negatif', () => {
+      expect(createAssetItemSchema.safeParse({ assetModelId: VALID_MODEL_CUID, purchasePriceCents: 899.5 }).success).toBe(false);
+      expect(createAssetItemSchema.safeParse({ assetModelId: VALID_MODEL_CUID, purchasePriceCents: -1 }).success).toBe(false);
+    });
+
+    it('devrait rejeter une fin de garantie anterieure a l\'achat', () => {
+      const result = updateAssetItemSchema.safeParse({ purchaseDate: '2025-03-10', warrantyEndsAt: '2025-01-01' });
+
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].path).toEqual(['warrantyEndsAt']);
+    });
+  });
+
+  describe('expiringWarrantiesQuerySchema', () => {
+    it('devrait utiliser 30 jours par defaut', () => {
+      const result = expiringWarrantiesQuerySchema.safeParse({});
+
+      expect(result.success).toBe(true);
+      expect(result.data.days).toBe(30);
+    });
+
+    it('devrait convertir les parametres de requete', () => {
+      const result = expiringWarrantiesQuerySchema.safeParse({ days: '90', pageSize: '5' });
+
+      expect(result.data).toEqual({ days: 90, pageSize: 5 });
+    });
+
+    it('devrait rejeter une fenetre de plus de 365 jours', () => {
+      expect(expiringWarrantiesQuerySchema.safeParse({ days: '400' }).success).toBe(false);
+    });
+  });
+
+  describe('retireAssetItemSchema', () => {
+    it('devrait accepter un vol sans confirmation d\'effacement', () => {
+      const result = retireAssetItemSchema.safeParse({ reason: 'VOL', disposedAt: '2026-10-01' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.disposedAt).toBeInstanceOf(Date);
+      expect(result.data.dataWipeConfirmed).toBe(false);
+    });
+
+    it('devrait exiger la confirmation d\'effacement pour un recyclage ou un don', () => {
+      for (const reason of ['RECYCLAGE', 'DON']) {
+        const result = retireAssetItemSchema.safeParse({ reason, disposedAt: '2026-10-01' });
+
+        expect(result.success).toBe(false);
+        expect(result.error.issues[0].path).toEqual(['dataWipeConfirmed']);
+      }
+    });
+
+    it('devrait accepter un don avec effacement confirme', () => {
+      const result = retireAssetItemSchema.safeParse({
+        reason: 'DON',
+        disposedAt: '2026-10-01',
+        dataWipeConfirmed: true,
+        certificateRef: 'CERT-42'
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('devrait rejeter une date de sortie future', () => {
+      const future = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+      expect(retireAssetItemSchema.safeParse({ reason: 'PERTE', disposedAt: future }).success).toBe(false);
+    });
+
+    it('devrait rejeter un motif inconnu', () => {
+      expect(retireAssetItemSchema.safeParse({ reason: 'VENTE', disposedAt: '2026-10-01' }).success).toBe(false);
+    });
+  });
+
+  describe('disposalRegisterQuerySchema', () => {
+    it('devrait convertir les dates de la periode', () => {
+      const result = disposalRegisterQuerySchema.safeParse({ from: '2026-01-01', to: '2026-12-31', reason: 'DON' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.from).toBeInstanceOf(Date);
+      expect(result.data.reason).toBe('DON');
+    });
+
+    it('devrait rejeter un motif invalide', () => {
+      expect(disposalRegisterQuerySchema.safeParse({ reason: 'VENTE' }).success).toBe(false);
+    });
+  });
+
+  describe('generateLabelsSchema', () => {
+    it('devrait appliquer les valeurs par defaut', () => {
+      const result = generateLabelsSchema.safeParse({ ids: [VALID_MODEL_CUID] });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        ids: [VALID_MODEL_CUID],
+        format: 'AVERY_L7160',
+        codeType: 'BOTH',
+        startPosition: 1,
+        borders: false
+      });
+    });
+
+    it('devrait accepter des ajustements partiels de la mise en page', () => {
+      const result = generateLabelsSchema.safeParse({
+        ids: [VALID_MODEL_CUID, VALID_MODEL_CUID_2],
+        format: 'AVERY_5160',
+        codeType: 'QRCODE',
+        layout: { marginTop: 13.5, gapX: 3 }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.layout).toEqual({ marginTop: 13.5, gapX: 3 });
+    });
+
+    it('devrait exiger au moins un article', () => {
+      const result = generateLabelsSchema.safeParse({ ids: [] });
+
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toBe('Sélectionnez au moins un article');
+    });
+
+    it('devrait limiter le nombre d\'etiquettes', () => {
+      const ids = Array.from({ length: 501 }, () => VALID_MODEL_CUID);
+
+      expect(generateLabelsSchema.safeParse({ ids }).success).toBe(false);
+    });
+
+    it('devrait rejeter un format inconnu, une marge negative ou une position nulle', () => {
+      expect(generateLabelsSchema.safeParse({ ids: [VALID_MODEL_CUID], format: 'AVERY_9999' }).success).toBe(false);
+      expect(generateLabelsSchema.safeParse({ ids: [VALID_MODEL_CUID], layout: { marginLeft: -1 } }).success).toBe(false);
+      expect(generateLabelsSchema.safeParse({ ids: [VALID_MODEL_CUID], startPosition: 0 }).success).toBe(false);
+    });
+  });
 });
@@ -5,6 +5,7 @@
  * - createEmployeeSchema: required fields, optional/nullable fields, formats
  * - updateEmployeeSchema: all fields optional
  * - bulkCreateEmployeesSchema: array validation with min constraint
+ * - startOffboardingSchema: departure date
  * - Edge cases and error messages
  */
 
@@ -12,7 +13,8 @@ import { describe, it, expect } from '@jest/globals';
 import {
   createEmployeeSchema,
   updateEmployeeSchema,
-  bulkCreateEmployeesSchema
+  bulkCreateEmployeesSchema,
+  startOffboardingSchema
 } from '../employees.validator.js';
 
 // Valid CUID for testing
@@ -30,7 +32,7 @@ describe('Employee Validators', () => {
           firstName: 'Jean',
           lastName: 'Dupont',
           email: 'jean.dupont@example.com',
-          dept: 'Informatique',
+          departmentId: VALID_CUID,
           managerId: VALID_CUID
         };
 
@@ -53,7 +55,7 @@ describe('Employee Validators', () => {
           firstName: 'Jean',
           lastName: 'Dupont',
           email: null,
-          dept: null,
+          departmentId: null,
           managerId: null
         };
 
@@ -83,15 +85,16 @@ describe('Employee Validators', () => {
         expect(result.success).toBe(true);
       });
 
-      it('devrait accepter un departement a la limite de 100 caracteres', () => {
+      it('devrait ignorer un departement en texte libre', () => {
         const data = {
           firstName: 'Jean',
           lastName: 'Dupont',
-          dept: 'D'.repeat(100)
+          dept: 'Informatique'
         };
 
         const result = createEmployeeSchema.safeParse(data);
         expect(result.success).toBe(true);
+        expect(result.data).not.toHaveProperty('dept');
       });
     });
 
@@ -168,16 +171,16 @@ describe('Employee Validators', () => {
         expect(result.error?.issues[0].message).toContain('255 caractères');
       });
 
-      it('devrait rejeter un dept de plus de 100 caracteres', () => {
+      it('devrait rejeter un departmentId invalide', () => {
         const data = {
           firstName: 'Jean',
           lastName: 'Dupont',
-          dept: 'D'.repeat(101)
+          departmentId: 'Informatique'
         };
 
         const result = createEmployeeSchema.safeParse(data);
         expect(result.success).toBe(false);
-        expect(result.error?.issues[0].message).toContain('100 caractères');
+        expect(result.error?.issues[0].message).toBe('ID département invalide');
       });
     });
 
@@ -278,7 +281,7 @@ describe('Employee Validators', () => {
         firstName: 'Pierre',
         lastName: 'Martin',
         email: 'pierre.martin@example.com',
-        dept: 'RH',
+        departmentId: VALID_CUID,
         managerId: VALID_CUID
       };
 
@@ -299,7 +302,7 @@ describe('Employee Validators', () => {
     it('devrait accepter null pour les champs nullable', () => {
       const data = {
         email: null,
-        dept: null,
+        departmentId: null,
         managerId: null
       };
 
@@ -391,6 +394,30 @@ describe('Employee Validators', () => {
       expect(result.success).toBe(false);
     });
 
+    it('devrait accepter les noms de departement et de societe', () => {
+      const data = {
+        employees: [
+          { firstName: 'Jean', lastName: 'Dupont', dept: 'D'.repeat(100), company: 'Tilly' }
+        ]
+      };
+
+      const result = bulkCreateEmployeesSchema.safeParse(data);
+      expect(result.success).toBe(true);
+      expect(result.data.employees[0]).toMatchObject({ dept: 'D'.repeat(100), company: 'Tilly' });
+    });
+
+    it('devrait rejeter un dept de plus de 100 caracteres', () => {
+      const data = {
+        employees: [
+          { firstName: 'Jean', lastName: 'Dupont', dept: 'D'.repeat(101) }
+        ]
+      };
+
+      const result = bulkCreateEmployeesSchema.safeParse(data);
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toContain('100 caractères');
+    });
+
     it('devrait valider chaque employe individuellement', () => {
       const data = {
         employees: [
@@ -402,4 +429,18 @@ describe('Employee Validators', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('startOffboardingSchema', () => {
+    it('devrait convertir la date de depart', () => {
+      const result = startOffboardingSchema.safeParse({ departureDate: '2026-10-31' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.departureDate).toBeInstanceOf(Date);
+    });
+
+    it('devrait rejeter une date de depart absente ou invalide', () => {
+      expect(startOffboardingSchema.safeParse({}).success).toBe(false);
+      expect(startOffboardingSchema.safeParse({ departureDate: 'demain' }).success).toBe(false);
+    });
+  });
 });
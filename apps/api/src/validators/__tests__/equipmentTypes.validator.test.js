@@ -181,4 +181,24 @@ describe('EquipmentType Validators', () => {
       }
     });
   });
+
+  describe('depreciationYears', () => {
+    it('devrait accepter une duree d\'amortissement en annees', () => {
+      const result = createEquipmentTypeSchema.safeParse({ name: 'Laptop', depreciationYears: 3 });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.depreciationYears).toBe(3);
+      }
+    });
+
+    it('devrait accepter null pour retirer l\'amortissement', () => {
+      const result = updateEquipmentTypeSchema.safeParse({ depreciationYears: null });
+      expect(result.success).toBe(true);
+    });
+
+    it.each([0, 21, 2.5])('devrait rejeter la duree %s', (depreciationYears) => {
+      const result = updateEquipmentTypeSchema.safeParse({ depreciationYears });
+      expect(result.success).toBe(false);
+    });
+  });
 });
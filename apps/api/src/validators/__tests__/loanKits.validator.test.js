@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Tests for loan kit validation schemas
+ *
+ * Tests cover:
+ * - createLoanKitSchema: name, at least one component, one item kind per component
+ * - updateLoanKitSchema: all fields optional
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createLoanKitSchema, updateLoanKitSchema } from '../loanKits.validator.js';
+
+const VALID_CUID = 'clh1234567890abcdefghijkl';
+
+describe('LoanKit Validators', () => {
+  // ============================================
+  // createLoanKitSchema Tests
+  // ============================================
+
+  describe('createLoanKitSchema', () => {
+    it('devrait accepter un kit valide et appliquer la quantité par défaut', () => {
+      const result = createLoanKitSchema.safeParse({
+        name: '  Onboarding  ',
+        items: [{ assetModelId: VALID_CUID }, { stockItemId: VALID_CUID, quantity: 2 }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.name).toBe('Onboarding');
+      expect(result.data.items[0].quantity).toBe(1);
+    });
+
+    it('devrait exiger au moins un composant', () => {
+      const result = createLoanKitSchema.safeParse({ name: 'Onboarding', items: [] });
+
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toBe('Le kit doit contenir au moins un composant');
+    });
+
+    it('devrait rejeter un composant avec modèle et stock', () => {
+      const result = createLoanKitSchema.safeParse({
+        name: 'Onboarding',
+        items: [{ assetModelId: VALID_CUID, stockItemId: VALID_CUID }]
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  // ============================================
+  // updateLoanKitSchema Tests
+  // ============================================
+
+  describe('updateLoanKitSchema', () => {
+    it('devrait accepter un objet vide', () => {
+      expect(updateLoanKitSchema.safeParse({}).success).toBe(true);
+    });
+
+    it('devrait rejeter un nom trop court', () => {
+      expect(updateLoanKitSchema.safeParse({ name: 'A' }).success).toBe(false);
+    });
+  });
+});
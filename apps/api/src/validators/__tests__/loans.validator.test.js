@@ -2,8 +2,13 @@
  * @fileoverview Tests for loan validation schemas
  *
  * Tests cover:
- * - createLoanSchema: required employeeId with max length
+ * - createLoanSchema: required employeeId with max length, optional dueAt
+ * - updateLoanSchema: nullable dueAt
  * - addLoanLineSchema: optional fields with refine (assetItemId OR stockItemId)
+ * - returnLoanLineSchema / closeLoanSchema: return inspection (condition + note)
+ * - writeOffLoanLineSchema: loss or theft reason
+ * - transferLoanLinesSchema: target employee and at least one line
+ * - addLoanKitSchema: kit CUID
  * - batchDeleteLoansSchema: array of CUIDs with min/max constraints
  * - Edge cases and error messages
  */
@@ -11,7 +16,13 @@
 import { describe, it, expect } from '@jest/globals';
 import {
   createLoanSchema,
+  updateLoanSchema,
   addLoanLineSchema,
+  returnLoanLineSchema,
+  writeOffLoanLineSchema,
+  closeLoanSchema,
+  transferLoanLinesSchema,
+  addLoanKitSchema,
   batchDeleteLoansSchema
 } from '../loans.validator.js';
 
@@ -78,6 +89,48 @@ describe('Loan Validators', () => {
         expect(result.success).toBe(false);
       });
     });
+
+    describe('Date de retour prevue', () => {
+      it('devrait convertir une date ISO en Date', () => {
+        const result = createLoanSchema.safeParse({ employeeId: VALID_CUID, dueAt: '2026-11-01' });
+        expect(result.success).toBe(true);
+        expect(result.data.dueAt).toBeInstanceOf(Date);
+      });
+
+      it('devrait accepter un dueAt null', () => {
+        const result = createLoanSchema.safeParse({ employeeId: VALID_CUID, dueAt: null });
+        expect(result.success).toBe(true);
+      });
+
+      it('devrait rejeter une date invalide', () => {
+        const result = createLoanSchema.safeParse({ employeeId: VALID_CUID, dueAt: 'pas-une-date' });
+        expect(result.success).toBe(false);
+        expect(result.error.issues[0].message).toBe('Date de retour prévue invalide');
+      });
+    });
+  });
+
+  // ============================================
+  // updateLoanSchema Tests
+  // ============================================
+
+  describe('updateLoanSchema', () => {
+    it('devrait accepter une nouvelle date de retour', () => {
+      const result = updateLoanSchema.safeParse({ dueAt: '2026-11-01T00:00:00.000Z' });
+      expect(result.success).toBe(true);
+      expect(result.data.dueAt).toEqual(new Date('2026-11-01T00:00:00.000Z'));
+    });
+
+    it('devrait accepter null pour supprimer l\'echeance', () => {
+      const result = updateLoanSchema.safeParse({ dueAt: null });
+      expect(result.success).toBe(true);
+      expect(result.data.dueAt).toBeNull();
+    });
+
+    it('devrait rejeter une date invalide', () => {
+      const result = updateLoanSchema.safeParse({ dueAt: 'demain' });
+      expect(result.success).toBe(false);
+    });
   });
 
   // ============================================
@@ -100,6 +153,12 @@ describe('Loan Validators', () => {
         expect(result.success).toBe(true);
       });
 
+      it('devrait accepter une ligne avec une date de retour propre', () => {
+        const result = addLoanLineSchema.safeParse({ assetItemId: VALID_CUID_ASSET, dueAt: '2026-11-01' });
+        expect(result.success).toBe(true);
+        expect(result.data.dueAt).toBeInstanceOf(Date);
+      });
+
       it('devrait accepter une ligne avec stockItemId et quantity', () => {
         const data = {
           stockItemId: VALID_CUID_STOCK,
@@ -232,6 +291,125 @@ describe('Loan Validators', () => {
     });
   });
 
+  // ============================================
+  // returnLoanLineSchema / closeLoanSchema Tests
+  // ============================================
+
+  describe('returnLoanLineSchema', () => {
+    it('devrait accepter un corps vide', () => {
+      const result = returnLoanLineSchema.safeParse({});
+      expect(result.success).toBe(true);
+    });
+
+    it('devrait accepter un etat et une note', () => {
+      const result = returnLoanLineSchema.safeParse({ condition: 'DAMAGED', note: '  Écran fissuré ' });
+      expect(result.success).toBe(true);
+      expect(result.data.note).toBe('Écran fissuré');
+    });
+
+    it('devrait rejeter un etat inconnu', () => {
+      const result = returnLoanLineSchema.safeParse({ condition: 'BROKEN' });
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toBe('État de retour invalide');
+    });
+
+    it('devrait rejeter une note trop longue', () => {
+      const result = returnLoanLineSchema.safeParse({ condition: 'OK', note: 'a'.repeat(1001) });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('closeLoanSchema', () => {
+    it('devrait accepter une fermeture sans inspection', () => {
+      const result = closeLoanSchema.safeParse({});
+      expect(result.success).toBe(true);
+    });
+
+    it('devrait accepter une liste d\'inspections', () => {
+      const result = closeLoanSchema.safeParse({
+        inspections: [
+          { lineId: VALID_CUID, condition: 'OK' },
+          { lineId: VALID_CUID_2, condition: 'MISSING', note: 'Non rendu' }
+        ]
+      });
+      expect(result.success).toBe(true);
+      expect(result.data.inspections).toHaveLength(2);
+    });
+
+    it('devrait exiger un etat pour chaque inspection', () => {
+      const result = closeLoanSchema.safeParse({ inspections: [{ lineId: VALID_CUID }] });
+      expect(result.success).toBe(false);
+    });
+
+    it('devrait rejeter un ID de ligne invalide', () => {
+      const result = closeLoanSchema.safeParse({ inspections: [{ lineId: 'bad', condition: 'OK' }] });
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toBe('ID de ligne invalide');
+    });
+  });
+
+  // ============================================
+  // writeOffLoanLineSchema Tests
+  // ============================================
+
+  describe('writeOffLoanLineSchema', () => {
+    it('devrait accepter une perte ou un vol avec une note', () => {
+      expect(writeOffLoanLineSchema.safeParse({}).success).toBe(true);
+      expect(writeOffLoanLineSchema.safeParse({ reason: 'VOL', note: 'Volé dans le train' }).success).toBe(true);
+    });
+
+    it('devrait rejeter un autre motif de sortie', () => {
+      const result = writeOffLoanLineSchema.safeParse({ reason: 'DON' });
+
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toBe('Motif de sortie invalide');
+    });
+  });
+
+  // ============================================
+  // transferLoanLinesSchema Tests
+  // ============================================
+
+  describe('transferLoanLinesSchema', () => {
+    it('devrait accepter un employe et des lignes valides', () => {
+      const result = transferLoanLinesSchema.safeParse({ employeeId: VALID_CUID, lineIds: [VALID_CUID_2] });
+      expect(result.success).toBe(true);
+    });
+
+    it('devrait accepter une date de retour prevue', () => {
+      const result = transferLoanLinesSchema.safeParse({ employeeId: VALID_CUID, lineIds: [VALID_CUID_2], dueAt: '2026-12-31' });
+      expect(result.success).toBe(true);
+      expect(result.data.dueAt).toBeInstanceOf(Date);
+    });
+
+    it('devrait exiger au moins une ligne', () => {
+      const result = transferLoanLinesSchema.safeParse({ employeeId: VALID_CUID, lineIds: [] });
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toBe('Sélectionnez au moins un article à transférer');
+    });
+
+    it('devrait rejeter un ID employe invalide', () => {
+      const result = transferLoanLinesSchema.safeParse({ employeeId: 'bad', lineIds: [VALID_CUID_2] });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  // ============================================
+  // addLoanKitSchema Tests
+  // ============================================
+
+  describe('addLoanKitSchema', () => {
+    it('devrait accepter un ID de kit valide', () => {
+      expect(addLoanKitSchema.safeParse({ kitId: VALID_CUID }).success).toBe(true);
+    });
+
+    it('devrait rejeter un ID de kit invalide', () => {
+      const result = addLoanKitSchema.safeParse({ kitId: 'bad' });
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toBe('ID de kit invalide');
+    });
+  });
+
   // ============================================
   // batchDeleteLoansSchema Tests
   // ============================================
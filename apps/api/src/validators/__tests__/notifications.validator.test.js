@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Tests for notification validation schemas
+ *
+ * Tests cover:
+ * - updateNotificationSettingsSchema: booleans only, unknown fields rejected
+ * - listNotificationLogsQuerySchema: enums and pagination coercion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  updateNotificationSettingsSchema,
+  listNotificationLogsQuerySchema
+} from '../notifications.validator.js';
+
+describe('Notification Validators', () => {
+  describe('updateNotificationSettingsSchema', () => {
+    it('devrait accepter une mise à jour partielle', () => {
+      const result = updateNotificationSettingsSchema.safeParse({ loanOpened: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ loanOpened: true });
+    });
+
+    it('devrait rejeter une valeur non booléenne', () => {
+      const result = updateNotificationSettingsSchema.safeParse({ loanClosed: 'yes' });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('devrait rejeter un champ inconnu', () => {
+      const result = updateNotificationSettingsSchema.safeParse({ userId: 'other' });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('listNotificationLogsQuerySchema', () => {
+    it('devrait accepter les filtres et convertir la pagination', () => {
+      const result = listNotificationLogsQuerySchema.safeParse({
+        status: 'FAILED',
+        event: 'OVERDUE_REMINDER',
+        page: '2',
+        pageSize: '50'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.page).toBe(2);
+      expect(result.data.pageSize).toBe(50);
+    });
+
+    it('devrait rejeter un événement inconnu', () => {
+      const result = listNotificationLogsQuerySchema.safeParse({ event: 'LOAN_DELETED' });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('devrait rejeter une taille de page trop grande', () => {
+      const result = listNotificationLogsQuerySchema.safeParse({ pageSize: '500' });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Tests for purchase order validation schemas
+ *
+ * Tests cover:
+ * - createPurchaseOrderSchema: supplier, at least one line, one line per model
+ * - updatePurchaseOrderSchema: strict, all fields optional
+ * - receivePurchaseOrderSchema: serials or quantity per line
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  receivePurchaseOrderSchema
+} from '../purchaseOrders.validator.js';
+
+const SUPPLIER_ID = 'clsupplier0000000000000001';
+const MODEL_ID = 'clmodel00000000000000000001';
+const OTHER_MODEL_ID = 'clmodel00000000000000000002';
+const LINE_ID = 'clline000000000000000000001';
+
+describe('PurchaseOrder Validators', () => {
+  describe('createPurchaseOrderSchema', () => {
+    it('devrait accepter un bon de commande avec ses lignes', () => {
+      const result = createPurchaseOrderSchema.safeParse({
+        supplierId: SUPPLIER_ID,
+        notes: 'Renouvellement portables',
+        lines: [
+          { assetModelId: MODEL_ID, quantity: 10, unitPriceCents: 89900 },
+          { assetModelId: OTHER_MODEL_ID, quantity: 20, unitPriceCents: 990 }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('devrait rejeter un bon de commande sans ligne', () => {
+      const result = createPurchaseOrderSchema.safeParse({ supplierId: SUPPLIER_ID, lines: [] });
+
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toBe('Le bon de commande doit contenir au moins une ligne');
+    });
+
+    it('devrait rejeter deux lignes pour le même modèle', () => {
+      const result = createPurchaseOrderSchema.safeParse({
+        supplierId: SUPPLIER_ID,
+        lines: [
+          { assetModelId: MODEL_ID, quantity: 1, unitPriceCents: 100 },
+          { assetModelId: MODEL_ID, quantity: 2, unitPriceCents: 100 }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toBe('Chaque modèle ne peut figurer qu\'une fois sur le bon de commande');
+    });
+
+    it('devrait rejeter une quantité nulle ou un prix négatif', () => {
+      expect(createPurchaseOrderSchema.safeParse({
+        supplierId: SUPPLIER_ID,
+        lines: [{ assetModelId: MODEL_ID, quantity: 0, unitPriceCents: 100 }]
+      }).success).toBe(false);
+      expect(createPurchaseOrderSchema.safeParse({
+        supplierId: SUPPLIER_ID,
+        lines: [{ assetModelId: MODEL_ID, quantity: 1, unitPriceCents: -1 }]
+      }).success).toBe(false);
+    });
+  });
+
+  describe('updatePurchaseOrderSchema', () => {
+    it('devrait accepter une modification partielle', () => {
+      expect(updatePurchaseOrderSchema.safeParse({ notes: 'Livraison au siège' }).success).toBe(true);
+    });
+
+    it('devrait rejeter les champs inconnus', () => {
+      expect(updatePurchaseOrderSchema.safeParse({ status: 'RECEIVED' }).success).toBe(false);
+    });
+  });
+
+  describe('receivePurchaseOrderSchema', () => {
+    it('devrait accepter des numéros de série ou une quantité par ligne', () => {
+      const result = receivePurchaseOrderSchema.safeParse({
+        invoiceNumber: 'FA-2026-0042',
+        receivedAt: '2026-10-19',
+        lines: [
+          { lineId: LINE_ID, serials: ['5CD1234XYZ', ' 5CD1234XZA '] },
+          { lineId: 'clline000000000000000000002', quantity: 20 }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.lines[0].serials[1]).toBe('5CD1234XZA');
+      expect(result.data.receivedAt).toBeInstanceOf(Date);
+    });
+
+    it('devrait rejeter une ligne avec à la fois une quantité et des numéros de série', () => {
+      const result = receivePurchaseOrderSchema.safeParse({
+        lines: [{ lineId: LINE_ID, quantity: 2, serials: ['A', 'B'] }]
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('devrait rejeter une ligne sans quantité ni numéro de série', () => {
+      expect(receivePurchaseOrderSchema.safeParse({ lines: [{ lineId: LINE_ID }] }).success).toBe(false);
+    });
+
+    it('devrait rejeter un numéro de série vide', () => {
+      expect(receivePurchaseOrderSchema.safeParse({ lines: [{ lineId: LINE_ID, serials: ['  '] }] }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Tests for reservation validation schemas
+ *
+ * Tests cover:
+ * - createReservationSchema: exactly one item, date order
+ * - updateReservationSchema: all fields optional
+ * - listReservationsQuerySchema: status and date coercion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createReservationSchema,
+  updateReservationSchema,
+  listReservationsQuerySchema
+} from '../reservations.validator.js';
+
+const employeeId = 'clh1234567890abcdefghijkl';
+const assetItemId = 'clh0987654321zyxwvutsrqpo';
+
+describe('Reservation Validators', () => {
+  // ============================================
+  // createReservationSchema Tests
+  // ============================================
+
+  describe('createReservationSchema', () => {
+    it('devrait accepter une réservation d\'équipement et convertir les dates', () => {
+      const result = createReservationSchema.safeParse({
+        employeeId,
+        assetItemId,
+        startDate: '2026-11-02',
+        endDate: '2026-11-30'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.startDate).toBeInstanceOf(Date);
+    });
+
+    it('devrait rejeter une réservation sans article', () => {
+      const result = createReservationSchema.safeParse({
+        employeeId,
+        startDate: '2026-11-02',
+        endDate: '2026-11-30'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].message).toContain('soit un article d\'équipement soit un article de stock');
+    });
+
+    it('devrait rejeter une réservation avec équipement et stock', () => {
+      const result = createReservationSchema.safeParse({
+        employeeId,
+        assetItemId,
+        stockItemId: assetItemId,
+        startDate: '2026-11-02',
+        endDate: '2026-11-30'
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('devrait rejeter une date de fin antérieure au début', () => {
+      const result = createReservationSchema.safeParse({
+        employeeId,
+        assetItemId,
+        startDate: '2026-11-30',
+        endDate: '2026-11-02'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error.issues[0].path).toEqual(['endDate']);
+    });
+  });
+
+  // ============================================
+  // updateReservationSchema Tests
+  // ============================================
+
+  describe('updateReservationSchema', () => {
+    it('devrait accepter un objet vide', () => {
+      expect(updateReservationSchema.safeParse({}).success).toBe(true);
+    });
+
+    it('devrait rejeter une quantité nulle', () => {
+      expect(updateReservationSchema.safeParse({ quantity: 0 }).success).toBe(false);
+    });
+  });
+
+  // ============================================
+  // listReservationsQuerySchema Tests
+  // ============================================
+
+  describe('listReservationsQuerySchema', () => {
+    it('devrait accepter les filtres de statut et de période', () => {
+      const result = listReservationsQuerySchema.safeParse({ status: 'ACTIVE', from: '2026-11-01' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.from).toBeInstanceOf(Date);
+    });
+
+    it('devrait rejeter un statut inconnu', () => {
+      expect(listReservationsQuerySchema.safeParse({ status: 'PENDING' }).success).toBe(false);
+    });
+  });
+});
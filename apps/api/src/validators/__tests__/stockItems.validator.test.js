@@ -12,7 +12,8 @@ import { describe, it, expect } from '@jest/globals';
 import {
   createStockItemSchema,
   updateStockItemSchema,
-  adjustQuantitySchema
+  adjustQuantitySchema,
+  listStockMovementsQuerySchema
 } from '../stockItems.validator.js';
 
 describe('StockItem Validators', () => {
@@ -50,6 +51,29 @@ describe('StockItem Validators', () => {
         expect(result.success).toBe(true);
       });
 
+      it('devrait accepter un stock minimum, une quantite de reapprovisionnement et un fournisseur', () => {
+        const data = {
+          assetModelId: 'model-123',
+          minQuantity: 5,
+          reorderQuantity: 20,
+          supplierId: 'clsupplier0000000000000001'
+        };
+
+        const result = createStockItemSchema.safeParse(data);
+        expect(result.success).toBe(true);
+      });
+
+      it('devrait rejeter un stock minimum negatif', () => {
+        const result = createStockItemSchema.safeParse({ assetModelId: 'model-123', minQuantity: -1 });
+        expect(result.success).toBe(false);
+        expect(result.error.issues[0].message).toBe('Le stock minimum doit être positif');
+      });
+
+      it('devrait rejeter un ID fournisseur invalide', () => {
+        const result = createStockItemSchema.safeParse({ assetModelId: 'model-123', supplierId: 'pas un id' });
+        expect(result.success).toBe(false);
+      });
+
       it('devrait accepter une grande quantite', () => {
         const data = {
           assetModelId: 'model-123',
@@ -242,6 +266,24 @@ describe('StockItem Validators', () => {
         const result = adjustQuantitySchema.safeParse({ quantity: -999999 });
         expect(result.success).toBe(true);
       });
+
+      it('devrait accepter un type de mouvement et un motif', () => {
+        const result = adjustQuantitySchema.safeParse({ quantity: -2, type: 'WRITE_OFF', reason: '  Câbles endommagés ' });
+        expect(result.success).toBe(true);
+        expect(result.data.reason).toBe('Câbles endommagés');
+      });
+    });
+
+    describe('Type de mouvement', () => {
+      it('devrait rejeter un type reserve au systeme', () => {
+        expect(adjustQuantitySchema.safeParse({ quantity: 2, type: 'LOAN_OUT' }).success).toBe(false);
+        expect(adjustQuantitySchema.safeParse({ quantity: 2, type: 'INVENTORY_CORRECTION' }).success).toBe(false);
+      });
+
+      it('devrait rejeter un motif trop long', () => {
+        const result = adjustQuantitySchema.safeParse({ quantity: 2, reason: 'a'.repeat(501) });
+        expect(result.success).toBe(false);
+      });
     });
 
     describe('Champs requis manquants', () => {
@@ -285,4 +327,21 @@ describe('StockItem Validators', () => {
       });
     });
   });
+
+  // ============================================
+  // listStockMovementsQuerySchema Tests
+  // ============================================
+
+  describe('listStockMovementsQuerySchema', () => {
+    it('devrait convertir la pagination et accepter un type', () => {
+      const result = listStockMovementsQuerySchema.safeParse({ type: 'LOAN_CLOSED', page: '2', pageSize: '50' });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ type: 'LOAN_CLOSED', page: 2, pageSize: 50 });
+    });
+
+    it('devrait rejeter un type inconnu ou une page trop grande', () => {
+      expect(listStockMovementsQuerySchema.safeParse({ type: 'VOL' }).success).toBe(false);
+      expect(listStockMovementsQuerySchema.safeParse({ pageSize: '500' }).success).toBe(false);
+    });
+  });
 });
@@ -3,21 +3,42 @@
  */
 import { z } from 'zod';
 
+/**
+ * Purchase and warranty fields, shared by single and bulk creation
+ * (a whole delivery shares the same supplier and invoice)
+ */
+const purchaseFields = {
+  supplierId: z.string().cuid('ID fournisseur invalide').optional().nullable(),
+  invoiceNumber: z.string().trim().max(100, 'Le numéro de facture ne peut pas dépasser 100 caractères').optional().nullable(),
+  purchaseDate: z.coerce.date({ message: 'Date d\'achat invalide' }).optional().nullable(),
+  purchasePriceCents: z.number().int('Le prix doit être exprimé en centimes').min(0, 'Le prix ne peut pas être négatif').optional().nullable(),
+  warrantyEndsAt: z.coerce.date({ message: 'Date de fin de garantie invalide' }).optional().nullable()
+};
+
+const warrantyAfterPurchase = [
+  (data) => !data.purchaseDate || !data.warrantyEndsAt || data.warrantyEndsAt >= data.purchaseDate,
+  { message: 'La fin de garantie doit être postérieure à la date d\'achat', path: ['warrantyEndsAt'] }
+];
+
 export const createAssetItemSchema = z.object({
   assetModelId: z.string().cuid('ID du modèle invalide'),
   assetTag: z.string().max(100, 'Le tag ne peut pas dépasser 100 caractères').optional().nullable(),
   serial: z.string().max(100, 'Le numéro de série ne peut pas dépasser 100 caractères').optional().nullable(),
   status: z.enum(['EN_STOCK', 'PRETE', 'HS', 'REPARATION']).optional(),
-  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable()
-});
+  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable(),
+  location: z.string().trim().max(200, 'L\'emplacement ne peut pas dépasser 200 caractères').optional().nullable(),
+  ...purchaseFields
+}).refine(...warrantyAfterPurchase);
 
 export const updateAssetItemSchema = z.object({
   assetModelId: z.string().cuid('ID du modèle invalide').optional(),
   assetTag: z.string().max(100, 'Le tag ne peut pas dépasser 100 caractères').optional().nullable(),
   serial: z.string().max(100, 'Le numéro de série ne peut pas dépasser 100 caractères').optional().nullable(),
   status: z.enum(['EN_STOCK', 'PRETE', 'HS', 'REPARATION']).optional(),
-  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable()
-});
+  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable(),
+  location: z.string().trim().max(200, 'L\'emplacement ne peut pas dépasser 200 caractères').optional().nullable(),
+  ...purchaseFields
+}).refine(...warrantyAfterPurchase);
 
 export const updateStatusSchema = z.object({
   status: z.enum(['EN_STOCK', 'PRETE', 'HS', 'REPARATION'])
@@ -33,10 +54,66 @@ export const createAssetItemsBulkSchema = z.object({
     .min(1, 'La quantité doit être au moins 1')
     .max(100, 'La quantité ne peut pas dépasser 100'),
   status: z.enum(['EN_STOCK', 'PRETE', 'HS', 'REPARATION']).optional(),
-  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable()
-});
+  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable(),
+  location: z.string().trim().max(200, 'L\'emplacement ne peut pas dépasser 200 caractères').optional().nullable(),
+  ...purchaseFields
+}).refine(...warrantyAfterPurchase);
 
 export const bulkPreviewSchema = z.object({
   tagPrefix: z.string().min(1),
   quantity: z.number().int().min(1).max(100)
 });
+
+/**
+ * Retirement (status REFORME, terminal). Equipment leaving the company
+ * with its storage (recycling, donation) requires a data-wipe confirmation.
+ */
+export const retireAssetItemSchema = z.object({
+  reason: z.enum(['RECYCLAGE', 'DON', 'VOL', 'PERTE'], { message: 'Motif de sortie invalide' }),
+  disposedAt: z.coerce.date({ message: 'Date de sortie invalide' })
+    .refine((date) => date <= new Date(), 'La date de sortie ne peut pas être dans le futur'),
+  certificateRef: z.string().trim().max(100, 'La référence du certificat ne peut pas dépasser 100 caractères').optional().nullable(),
+  dataWipeConfirmed: z.boolean().default(false),
+  note: z.string().trim().max(1000, 'La note ne peut pas dépasser 1000 caractères').optional().nullable()
+}).refine(
+  (data) => !['RECYCLAGE', 'DON'].includes(data.reason) || data.dataWipeConfirmed,
+  { message: 'L\'effacement des données doit être confirmé pour un recyclage ou un don', path: ['dataWipeConfirmed'] }
+);
+
+export const disposalRegisterQuerySchema = z.object({
+  from: z.coerce.date({ message: 'Date de début invalide' }).optional(),
+  to: z.coerce.date({ message: 'Date de fin invalide' }).optional(),
+  reason: z.enum(['RECYCLAGE', 'DON', 'VOL', 'PERTE']).optional()
+});
+
+export const expiringWarrantiesQuerySchema = z.object({
+  days: z.coerce.number().int().min(1, 'Minimum 1 jour').max(365, 'Maximum 365 jours').default(30),
+  page: z.coerce.number().int().min(1, 'La page doit être au moins 1').optional(),
+  pageSize: z.coerce.number().int().min(1).max(100, 'Maximum 100 éléments par page').optional()
+});
+
+/**
+ * Label sheet dimension overrides, in millimeters
+ */
+const labelLayoutSchema = z.object({
+  columns: z.number().int().min(1, 'Au moins 1 colonne').max(10, 'Maximum 10 colonnes'),
+  rows: z.number().int().min(1, 'Au moins 1 ligne').max(30, 'Maximum 30 lignes'),
+  labelWidth: z.number().min(15, 'Largeur minimale 15 mm').max(210, 'Largeur maximale 210 mm'),
+  labelHeight: z.number().min(10, 'Hauteur minimale 10 mm').max(297, 'Hauteur maximale 297 mm'),
+  marginTop: z.number().min(0, 'La marge ne peut pas être négative').max(100),
+  marginLeft: z.number().min(0, 'La marge ne peut pas être négative').max(100),
+  gapX: z.number().min(0, 'L\'espacement ne peut pas être négatif').max(50),
+  gapY: z.number().min(0, 'L\'espacement ne peut pas être négatif').max(50)
+}).partial();
+
+export const generateLabelsSchema = z.object({
+  ids: z.array(z.string().cuid('ID d\'article invalide'))
+    .min(1, 'Sélectionnez au moins un article')
+    .max(500, 'Maximum 500 étiquettes par impression'),
+  format: z.enum(['AVERY_L7160', 'AVERY_L7163', 'AVERY_L7651', 'AVERY_5160'], { message: 'Format d\'étiquettes invalide' })
+    .default('AVERY_L7160'),
+  layout: labelLayoutSchema.optional(),
+  codeType: z.enum(['BOTH', 'QRCODE', 'CODE128']).default('BOTH'),
+  startPosition: z.number().int().min(1, 'La position de départ doit être au moins 1').default(1),
+  borders: z.boolean().default(false)
+});
@@ -0,0 +1,21 @@
+/**
+ * Company validation schemas
+ */
+import { z } from 'zod';
+
+const nameSchema = z.string()
+  .trim()
+  .min(2, 'Le nom doit contenir au moins 2 caractères')
+  .max(100, 'Le nom ne peut pas dépasser 100 caractères');
+
+export const createCompanySchema = z.object({
+  name: nameSchema
+});
+
+export const updateCompanySchema = z.object({
+  name: nameSchema.optional()
+});
+
+export const listCompaniesQuerySchema = z.object({
+  search: z.string().trim().min(1).max(100).optional()
+});
@@ -0,0 +1,29 @@
+/**
+ * Department validation schemas
+ */
+import { z } from 'zod';
+
+const nameSchema = z.string()
+  .trim()
+  .min(2, 'Le nom doit contenir au moins 2 caractères')
+  .max(100, 'Le nom ne peut pas dépasser 100 caractères');
+const companyIdSchema = z.string().cuid('ID société invalide');
+
+export const createDepartmentSchema = z.object({
+  name: nameSchema,
+  companyId: companyIdSchema.optional().nullable()
+});
+
+export const updateDepartmentSchema = z.object({
+  name: nameSchema.optional(),
+  companyId: companyIdSchema.optional().nullable()
+});
+
+export const listDepartmentsQuerySchema = z.object({
+  search: z.string().trim().min(1).max(100).optional(),
+  companyId: companyIdSchema.optional()
+});
+
+export const mergeDepartmentsSchema = z.object({
+  sourceIds: z.array(z.string().cuid('ID département invalide')).min(1, 'Au moins un département à fusionner requis')
+});
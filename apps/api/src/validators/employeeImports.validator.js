@@ -0,0 +1,35 @@
+/**
+ * Employee import (HR file synchronization) validation schemas
+ */
+import { z } from 'zod';
+
+const optionalCell = (max, label) => z.string().max(max, `${label} ne peut pas dépasser ${max} caractères`).optional().nullable();
+
+// Names are checked by the service: a row without name is reported, not rejected
+const importRowSchema = z.object({
+  rowNumber: z.number().int().min(1).optional(),
+  firstName: optionalCell(100, 'Le prénom'),
+  lastName: optionalCell(100, 'Le nom'),
+  email: z.string().email('Email invalide').max(255, 'L\'email ne peut pas dépasser 255 caractères').optional().nullable(),
+  dept: optionalCell(100, 'Le département'),
+  company: optionalCell(100, 'La société')
+});
+
+const rowsSchema = z.array(importRowSchema)
+  .min(1, 'Le fichier ne contient aucune ligne')
+  .max(5000, 'Maximum 5000 lignes par import');
+
+export const previewEmployeeImportSchema = z.object({
+  rows: rowsSchema
+});
+
+export const applyEmployeeImportSchema = z.object({
+  fileName: z.string().min(1, 'Nom du fichier requis').max(255, 'Le nom du fichier ne peut pas dépasser 255 caractères'),
+  rows: rowsSchema,
+  acceptedKeys: z.array(z.string().max(50)).max(10000)
+});
+
+export const listEmployeeImportsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'La page doit être au moins 1').optional(),
+  pageSize: z.coerce.number().int().min(1).max(100, 'Maximum 100 éléments par page').optional()
+});
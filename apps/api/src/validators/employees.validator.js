@@ -7,7 +7,7 @@ export const createEmployeeSchema = z.object({
   firstName: z.string().min(1, 'Prénom requis').max(100, 'Le prénom ne peut pas dépasser 100 caractères'),
   lastName: z.string().min(1, 'Nom requis').max(100, 'Le nom ne peut pas dépasser 100 caractères'),
   email: z.string().email('Email invalide').max(255, 'L\'email ne peut pas dépasser 255 caractères').optional().nullable(),
-  dept: z.string().max(100, 'Le département ne peut pas dépasser 100 caractères').optional().nullable(),
+  departmentId: z.string().cuid('ID département invalide').optional().nullable(),
   managerId: z.string().cuid('ID manager invalide').optional().nullable()
 });
 
@@ -15,10 +15,20 @@ export const updateEmployeeSchema = z.object({
   firstName: z.string().min(1, 'Prénom requis').max(100, 'Le prénom ne peut pas dépasser 100 caractères').optional(),
   lastName: z.string().min(1, 'Nom requis').max(100, 'Le nom ne peut pas dépasser 100 caractères').optional(),
   email: z.string().email('Email invalide').max(255, 'L\'email ne peut pas dépasser 255 caractères').optional().nullable(),
-  dept: z.string().max(100, 'Le département ne peut pas dépasser 100 caractères').optional().nullable(),
+  departmentId: z.string().cuid('ID département invalide').optional().nullable(),
   managerId: z.string().cuid('ID manager invalide').optional().nullable()
 });
 
+// Imported rows carry department and company names, resolved by the service
+const importedEmployeeSchema = createEmployeeSchema.omit({ departmentId: true }).extend({
+  dept: z.string().max(100, 'Le département ne peut pas dépasser 100 caractères').optional().nullable(),
+  company: z.string().max(100, 'La société ne peut pas dépasser 100 caractères').optional().nullable()
+});
+
 export const bulkCreateEmployeesSchema = z.object({
-  employees: z.array(createEmployeeSchema).min(1, 'Au moins un employé requis')
+  employees: z.array(importedEmployeeSchema).min(1, 'Au moins un employé requis')
+});
+
+export const startOffboardingSchema = z.object({
+  departureDate: z.coerce.date({ message: 'Date de départ invalide' })
 });
@@ -5,6 +5,16 @@
  */
 import { z } from 'zod';
 
+/**
+ * Straight-line depreciation period in years, null for no depreciation
+ */
+const depreciationYearsSchema = z.number()
+  .int('La durée d\'amortissement doit être un nombre entier d\'années')
+  .min(1, 'La durée d\'amortissement doit être d\'au moins 1 an')
+  .max(20, 'La durée d\'amortissement ne peut pas dépasser 20 ans')
+  .nullable()
+  .optional();
+
 /**
  * Schema for creating a new equipment type
  */
@@ -12,7 +22,8 @@ export const createEquipmentTypeSchema = z.object({
   name: z.string()
     .min(2, 'Le nom doit contenir au moins 2 caractères')
     .max(50, 'Le nom ne peut pas dépasser 50 caractères')
-    .trim()
+    .trim(),
+  depreciationYears: depreciationYearsSchema
 });
 
 /**
@@ -23,5 +34,6 @@ export const updateEquipmentTypeSchema = z.object({
     .min(2, 'Le nom doit contenir au moins 2 caractères')
     .max(50, 'Le nom ne peut pas dépasser 50 caractères')
     .trim()
-    .optional()
-});
\ No newline at end of file
+    .optional(),
+  depreciationYears: depreciationYearsSchema
+});
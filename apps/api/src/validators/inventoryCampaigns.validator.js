@@ -0,0 +1,38 @@
+/**
+ * Inventory campaign validation schemas
+ */
+import { z } from 'zod';
+
+const optionalText = (max, label) => z.string().trim().max(max, `${label} ne peut pas dépasser ${max} caractères`).optional().nullable();
+
+export const createInventoryCampaignSchema = z.object({
+  name: z.string().trim().min(1, 'Le nom de la campagne est requis').max(200, 'Le nom ne peut pas dépasser 200 caractères'),
+  equipmentType: optionalText(100, 'Le type d\'équipement'),
+  location: optionalText(200, 'L\'emplacement'),
+  notes: optionalText(1000, 'Les notes')
+});
+
+export const checkAssetItemSchema = z.object({
+  assetItemId: z.string().cuid('ID article invalide').optional(),
+  code: z.string().trim().min(1, 'Code requis').max(200, 'Le code ne peut pas dépasser 200 caractères').optional()
+}).refine((data) => Boolean(data.assetItemId) !== Boolean(data.code), {
+  message: 'Indiquez soit l\'ID de l\'équipement, soit le code scanné'
+});
+
+export const countStockItemSchema = z.object({
+  countedQuantity: z.number().int('La quantité doit être un nombre entier').min(0, 'La quantité ne peut pas être négative')
+});
+
+export const applyStockCorrectionsSchema = z.object({
+  stockItemIds: z.array(z.string().cuid('ID article de stock invalide')).min(1).optional()
+});
+
+export const flagMissingItemsSchema = z.object({
+  assetItemIds: z.array(z.string().cuid('ID article invalide')).min(1).optional()
+});
+
+export const listInventoryCampaignsQuerySchema = z.object({
+  status: z.enum(['OPEN', 'CLOSED'], { message: 'Statut de campagne invalide' }).optional(),
+  page: z.coerce.number().int().min(1, 'La page doit être au moins 1').optional(),
+  pageSize: z.coerce.number().int().min(1).max(100, 'Maximum 100 éléments par page').optional()
+});
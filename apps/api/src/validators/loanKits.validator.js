@@ -0,0 +1,33 @@
+/**
+ * Loan kit validation schemas
+ */
+import { z } from 'zod';
+
+const kitItemSchema = z.object({
+  assetModelId: z.string().cuid('ID modèle invalide').optional().nullable(),
+  stockItemId: z.string().cuid('ID stock invalide').optional().nullable(),
+  quantity: z.number().int().min(1, 'La quantité doit être au moins 1').max(50, 'La quantité ne peut pas dépasser 50').default(1)
+}).refine(data => Boolean(data.assetModelId) !== Boolean(data.stockItemId), {
+  message: 'Chaque composant doit être soit un modèle d\'équipement soit un article de stock'
+});
+
+const nameSchema = z.string()
+  .trim()
+  .min(2, 'Le nom doit contenir au moins 2 caractères')
+  .max(100, 'Le nom ne peut pas dépasser 100 caractères');
+
+const itemsSchema = z.array(kitItemSchema)
+  .min(1, 'Le kit doit contenir au moins un composant')
+  .max(50, 'Le kit ne peut pas contenir plus de 50 composants');
+
+export const createLoanKitSchema = z.object({
+  name: nameSchema,
+  description: z.string().trim().max(500, 'La description ne peut pas dépasser 500 caractères').optional().nullable(),
+  items: itemsSchema
+});
+
+export const updateLoanKitSchema = z.object({
+  name: nameSchema.optional(),
+  description: z.string().trim().max(500, 'La description ne peut pas dépasser 500 caractères').optional().nullable(),
+  items: itemsSchema.optional()
+});
@@ -3,18 +3,57 @@
  */
 import { z } from 'zod';
 
+const dueAtSchema = z.coerce.date({ message: 'Date de retour prévue invalide' }).optional().nullable();
+
 export const createLoanSchema = z.object({
-  employeeId: z.string().cuid('ID de l\'employé invalide')
+  employeeId: z.string().cuid('ID de l\'employé invalide'),
+  dueAt: dueAtSchema
+});
+
+export const updateLoanSchema = z.object({
+  dueAt: dueAtSchema
 });
 
 export const addLoanLineSchema = z.object({
   assetItemId: z.string().cuid('ID article invalide').optional().nullable(),
   stockItemId: z.string().cuid('ID stock invalide').optional().nullable(),
-  quantity: z.number().int().min(1, 'La quantité doit être au moins 1').optional()
+  quantity: z.number().int().min(1, 'La quantité doit être au moins 1').optional(),
+  dueAt: dueAtSchema
 }).refine(data => data.assetItemId || data.stockItemId, {
   message: 'Vous devez spécifier soit un article d\'équipement soit un article de stock'
 });
 
+export const addLoanKitSchema = z.object({
+  kitId: z.string().cuid('ID de kit invalide')
+});
+
+const returnConditionSchema = z.enum(['OK', 'DAMAGED', 'MISSING'], { message: 'État de retour invalide' });
+const returnNoteSchema = z.string().trim().max(1000, 'La note ne peut pas dépasser 1000 caractères').optional().nullable();
+
+export const returnLoanLineSchema = z.object({
+  condition: returnConditionSchema.optional(),
+  note: returnNoteSchema
+});
+
+export const writeOffLoanLineSchema = z.object({
+  reason: z.enum(['PERTE', 'VOL'], { message: 'Motif de sortie invalide' }).optional(),
+  note: returnNoteSchema
+});
+
+export const closeLoanSchema = z.object({
+  inspections: z.array(z.object({
+    lineId: z.string().cuid('ID de ligne invalide'),
+    condition: returnConditionSchema,
+    note: returnNoteSchema
+  })).optional()
+});
+
+export const transferLoanLinesSchema = z.object({
+  employeeId: z.string().cuid('ID de l\'employé invalide'),
+  lineIds: z.array(z.string().cuid('ID de ligne invalide')).min(1, 'Sélectionnez au moins un article à transférer'),
+  dueAt: dueAtSchema
+});
+
 export const batchDeleteLoansSchema = z.object({
   loanIds: z.array(z.string().cuid())
     .min(1, 'Au moins un prêt doit être sélectionné')
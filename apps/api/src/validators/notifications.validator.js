@@ -0,0 +1,21 @@
+/**
+ * Notification validation schemas
+ */
+import { z } from 'zod';
+
+export const updateNotificationSettingsSchema = z.object({
+  loanOpened: z.boolean().optional(),
+  lineAdded: z.boolean().optional(),
+  loanClosed: z.boolean().optional(),
+  overdueReminder: z.boolean().optional(),
+  longLoanReminder: z.boolean().optional()
+}).strict();
+
+export const listNotificationLogsQuerySchema = z.object({
+  status: z.enum(['SENT', 'FAILED'], { message: 'Statut d\'envoi invalide' }).optional(),
+  event: z.enum(['LOAN_OPENED', 'LINE_ADDED', 'LOAN_CLOSED', 'OVERDUE_REMINDER', 'LONG_LOAN_REMINDER'], { message: 'Événement invalide' }).optional(),
+  loanId: z.string().cuid('ID du prêt invalide').optional(),
+  recipient: z.string().trim().min(1).max(255).optional(),
+  page: z.coerce.number().int().min(1, 'La page doit être au moins 1').optional(),
+  pageSize: z.coerce.number().int().min(1).max(100, 'Maximum 100 éléments par page').optional()
+});
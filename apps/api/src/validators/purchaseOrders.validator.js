@@ -0,0 +1,55 @@
+/**
+ * Purchase order validation schemas
+ */
+import { z } from 'zod';
+
+const optionalText = (max, label) => z.string().trim().max(max, `${label} ne peut pas dépasser ${max} caractères`).optional().nullable();
+
+const orderLineSchema = z.object({
+  assetModelId: z.string().cuid('ID modèle invalide'),
+  quantity: z.number().int('La quantité doit être un nombre entier').min(1, 'La quantité doit être au moins 1').max(1000, 'La quantité ne peut pas dépasser 1000'),
+  unitPriceCents: z.number().int('Le prix doit être exprimé en centimes').min(0, 'Le prix ne peut pas être négatif')
+});
+
+const orderLinesSchema = z.array(orderLineSchema)
+  .min(1, 'Le bon de commande doit contenir au moins une ligne')
+  .max(100, 'Maximum 100 lignes par bon de commande')
+  .refine((lines) => new Set(lines.map((line) => line.assetModelId)).size === lines.length, {
+    message: 'Chaque modèle ne peut figurer qu\'une fois sur le bon de commande'
+  });
+
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().cuid('ID fournisseur invalide'),
+  notes: optionalText(1000, 'Les notes'),
+  lines: orderLinesSchema
+});
+
+export const updatePurchaseOrderSchema = z.object({
+  supplierId: z.string().cuid('ID fournisseur invalide').optional(),
+  notes: optionalText(1000, 'Les notes'),
+  lines: orderLinesSchema.optional()
+}).strict();
+
+const receptionLineSchema = z.object({
+  lineId: z.string().cuid('ID ligne invalide'),
+  quantity: z.number().int('La quantité doit être un nombre entier').min(1, 'La quantité doit être au moins 1').optional(),
+  serials: z.array(
+    z.string().trim().min(1, 'Numéro de série requis').max(100, 'Le numéro de série ne peut pas dépasser 100 caractères')
+  ).min(1).max(1000).optional()
+}).refine((line) => Boolean(line.quantity) !== Boolean(line.serials), {
+  message: 'Indiquez soit la quantité reçue (consommables), soit les numéros de série'
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  invoiceNumber: optionalText(100, 'Le numéro de facture'),
+  receivedAt: z.coerce.date({ message: 'Date de réception invalide' }).optional(),
+  location: optionalText(200, 'L\'emplacement'),
+  lines: z.array(receptionLineSchema).min(1, 'Indiquez au moins une ligne reçue')
+});
+
+export const listPurchaseOrdersQuerySchema = z.object({
+  status: z.enum(['DRAFT', 'ORDERED', 'PARTIALLY_RECEIVED', 'RECEIVED'], { message: 'Statut de commande invalide' }).optional(),
+  supplierId: z.string().cuid('ID fournisseur invalide').optional(),
+  page: z.coerce.number().int().min(1, 'La page doit être au moins 1').optional(),
+  pageSize: z.coerce.number().int().min(1).max(100, 'Maximum 100 éléments par page').optional()
+});
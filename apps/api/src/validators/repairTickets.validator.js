@@ -0,0 +1,41 @@
+/**
+ * Repair ticket validation schemas
+ */
+import { z } from 'zod';
+
+const trackingStatusSchema = z.enum(['OPEN', 'SENT', 'QUOTED', 'IN_REPAIR'], { message: 'Statut de réparation invalide' });
+const optionalText = (max, label) => z.string().trim().max(max, `${label} ne peut pas dépasser ${max} caractères`).optional().nullable();
+const amountSchema = z.number().int('Le montant doit être exprimé en centimes').min(0, 'Le montant ne peut pas être négatif').optional().nullable();
+
+export const createRepairTicketSchema = z.object({
+  assetItemId: z.string().cuid('ID article invalide'),
+  fault: z.string().trim().min(1, 'La description de la panne est requise').max(2000, 'La description ne peut pas dépasser 2000 caractères'),
+  vendor: optionalText(200, 'Le prestataire'),
+  rmaNumber: optionalText(100, 'Le numéro RMA'),
+  quoteCents: amountSchema,
+  expectedReturnAt: z.coerce.date({ message: 'Date de retour prévue invalide' }).optional().nullable()
+});
+
+export const updateRepairTicketSchema = z.object({
+  status: trackingStatusSchema.optional(),
+  fault: z.string().trim().min(1, 'La description de la panne est requise').max(2000, 'La description ne peut pas dépasser 2000 caractères').optional(),
+  vendor: optionalText(200, 'Le prestataire'),
+  rmaNumber: optionalText(100, 'Le numéro RMA'),
+  quoteCents: amountSchema,
+  expectedReturnAt: z.coerce.date({ message: 'Date de retour prévue invalide' }).optional().nullable()
+}).strict();
+
+export const closeRepairTicketSchema = z.object({
+  outcome: z.enum(['REPAIRED', 'SCRAPPED'], { message: 'Issue de réparation invalide' }),
+  finalCostCents: amountSchema,
+  closingNote: optionalText(1000, 'La note')
+});
+
+export const listRepairTicketsQuerySchema = z.object({
+  status: z.enum(['OPEN', 'SENT', 'QUOTED', 'IN_REPAIR', 'CLOSED'], { message: 'Statut de réparation invalide' }).optional(),
+  open: z.enum(['true', 'false']).optional(),
+  assetItemId: z.string().cuid('ID article invalide').optional(),
+  search: z.string().trim().min(1).max(100).optional(),
+  page: z.coerce.number().int().min(1, 'La page doit être au moins 1').optional(),
+  pageSize: z.coerce.number().int().min(1).max(100, 'Maximum 100 éléments par page').optional()
+});
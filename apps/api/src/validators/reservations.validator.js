@@ -0,0 +1,38 @@
+/**
+ * Reservation validation schemas
+ */
+import { z } from 'zod';
+
+const reservationStatusSchema = z.enum(['ACTIVE', 'CONVERTED', 'CANCELLED'], { message: 'Statut de réservation invalide' });
+const notesSchema = z.string().trim().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable();
+
+export const createReservationSchema = z.object({
+  employeeId: z.string().cuid('ID de l\'employé invalide'),
+  assetItemId: z.string().cuid('ID article invalide').optional().nullable(),
+  stockItemId: z.string().cuid('ID stock invalide').optional().nullable(),
+  quantity: z.number().int().min(1, 'La quantité doit être au moins 1').optional(),
+  startDate: z.coerce.date({ message: 'Date de début invalide' }),
+  endDate: z.coerce.date({ message: 'Date de fin invalide' }),
+  notes: notesSchema
+}).refine(data => Boolean(data.assetItemId) !== Boolean(data.stockItemId), {
+  message: 'Vous devez spécifier soit un article d\'équipement soit un article de stock'
+}).refine(data => data.endDate > data.startDate, {
+  message: 'La date de fin doit être postérieure à la date de début',
+  path: ['endDate']
+});
+
+export const updateReservationSchema = z.object({
+  quantity: z.number().int().min(1, 'La quantité doit être au moins 1').optional(),
+  startDate: z.coerce.date({ message: 'Date de début invalide' }).optional(),
+  endDate: z.coerce.date({ message: 'Date de fin invalide' }).optional(),
+  notes: notesSchema
+});
+
+export const listReservationsQuerySchema = z.object({
+  status: reservationStatusSchema.optional(),
+  employeeId: z.string().cuid('ID de l\'employé invalide').optional(),
+  assetItemId: z.string().cuid('ID article invalide').optional(),
+  stockItemId: z.string().cuid('ID stock invalide').optional(),
+  from: z.coerce.date({ message: 'Date de début invalide' }).optional(),
+  to: z.coerce.date({ message: 'Date de fin invalide' }).optional()
+});
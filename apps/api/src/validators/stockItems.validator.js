@@ -6,15 +6,31 @@ import { z } from 'zod';
 export const createStockItemSchema = z.object({
   assetModelId: z.string().min(1, 'ID du modèle requis'),
   quantity: z.number().int().min(0, 'La quantité doit être positive').optional(),
-  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable()
+  minQuantity: z.number().int().min(0, 'Le stock minimum doit être positif').optional(),
+  reorderQuantity: z.number().int().min(0, 'La quantité de réapprovisionnement doit être positive').optional(),
+  supplierId: z.string().cuid('ID fournisseur invalide').optional().nullable(),
+  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable(),
+  location: z.string().trim().max(200, 'L\'emplacement ne peut pas dépasser 200 caractères').optional().nullable()
 });
 
 export const updateStockItemSchema = z.object({
   assetModelId: z.string().min(1, 'ID du modèle requis').optional(),
   quantity: z.number().int().min(0, 'La quantité doit être positive').optional(),
-  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable()
+  minQuantity: z.number().int().min(0, 'Le stock minimum doit être positif').optional(),
+  reorderQuantity: z.number().int().min(0, 'La quantité de réapprovisionnement doit être positive').optional(),
+  supplierId: z.string().cuid('ID fournisseur invalide').optional().nullable(),
+  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional().nullable(),
+  location: z.string().trim().max(200, 'L\'emplacement ne peut pas dépasser 200 caractères').optional().nullable()
 });
 
 export const adjustQuantitySchema = z.object({
-  quantity: z.number().int()
+  quantity: z.number().int(),
+  type: z.enum(['RECEPTION', 'ADJUSTMENT', 'WRITE_OFF'], { message: 'Type de mouvement invalide' }).optional(),
+  reason: z.string().trim().max(500, 'Le motif ne peut pas dépasser 500 caractères').optional().nullable()
+});
+
+export const listStockMovementsQuerySchema = z.object({
+  type: z.enum(['INITIAL', 'RECEPTION', 'LOAN_OUT', 'LOAN_CLOSED', 'ADJUSTMENT', 'INVENTORY_CORRECTION', 'WRITE_OFF'], { message: 'Type de mouvement invalide' }).optional(),
+  page: z.coerce.number().int().min(1, 'La page doit être au moins 1').optional(),
+  pageSize: z.coerce.number().int().min(1).max(100, 'Maximum 100 éléments par page').optional()
 });
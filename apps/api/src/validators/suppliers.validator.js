@@ -0,0 +1,31 @@
+/**
+ * Supplier validation schemas
+ */
+import { z } from 'zod';
+
+const nameSchema = z.string()
+  .trim()
+  .min(2, 'Le nom doit contenir au moins 2 caractères')
+  .max(100, 'Le nom ne peut pas dépasser 100 caractères');
+const optionalText = (max, label) => z.string().trim().max(max, `${label} ne peut pas dépasser ${max} caractères`).optional().nullable();
+
+const supplierFields = {
+  contactName: optionalText(100, 'Le contact'),
+  email: z.string().email('Email invalide').max(255, 'L\'email ne peut pas dépasser 255 caractères').optional().nullable(),
+  phone: optionalText(30, 'Le téléphone'),
+  notes: optionalText(1000, 'Les notes')
+};
+
+export const createSupplierSchema = z.object({
+  name: nameSchema,
+  ...supplierFields
+});
+
+export const updateSupplierSchema = z.object({
+  name: nameSchema.optional(),
+  ...supplierFields
+});
+
+export const listSuppliersQuerySchema = z.object({
+  search: z.string().trim().min(1).max(100).optional()
+});
@@ -20,12 +20,24 @@ const LoginPage = lazy(() => import('@/pages/LoginPage'))
 const DashboardPage = lazy(() => import('@/pages/DashboardPage'))
 const UsersListPage = lazy(() => import('@/pages/UsersListPage'))
 const EmployeesListPage = lazy(() => import('@/pages/EmployeesListPage'))
+const EmployeeImportsPage = lazy(() => import('@/pages/EmployeeImportsPage'))
 const AssetModelsListPage = lazy(() => import('@/pages/AssetModelsListPage'))
 const AssetItemsListPage = lazy(() => import('@/pages/AssetItemsListPage'))
 const StockItemsListPage = lazy(() => import('@/pages/StockItemsListPage'))
 const LoansListPage = lazy(() => import('@/pages/LoansListPage'))
 const LoanDetailsPage = lazy(() => import('@/pages/LoanDetailsPage'))
+const LoansTrashPage = lazy(() => import('@/pages/LoansTrashPage'))
+const ReservationsListPage = lazy(() => import('@/pages/ReservationsListPage'))
+const RepairTicketsPage = lazy(() => import('@/pages/RepairTicketsPage'))
+const InventoryCampaignsPage = lazy(() => import('@/pages/InventoryCampaignsPage'))
+const InventoryCampaignDetailsPage = lazy(() => import('@/pages/InventoryCampaignDetailsPage'))
+const PurchaseOrdersPage = lazy(() => import('@/pages/PurchaseOrdersPage'))
+const PurchaseOrderDetailsPage = lazy(() => import('@/pages/PurchaseOrderDetailsPage'))
+const SuppliersPage = lazy(() => import('@/pages/SuppliersPage'))
+const DepartmentsPage = lazy(() => import('@/pages/DepartmentsPage'))
+const LoanKitsPage = lazy(() => import('@/pages/LoanKitsPage'))
 const AuditLogsPage = lazy(() => import('@/pages/AuditLogsPage'))
+const NotificationsPage = lazy(() => import('@/pages/NotificationsPage'))
 
 // Create React Query client
 const queryClient = new QueryClient({
@@ -62,14 +74,19 @@ function App() {
               {/* Dashboard - accessible to all roles */}
               <Route path="/dashboard" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><DashboardPage /></Suspense></ErrorBoundary>} />
 
-              {/* Users - ADMIN only */}
+              {/* Notification preferences - accessible to all roles (delivery log shown to ADMIN) */}
+              <Route path="/notifications" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><NotificationsPage /></Suspense></ErrorBoundary>} />
+
+              {/* Users, Loan kits, Loans trash - ADMIN only */}
               <Route
                 element={<ProtectedRoute allowedRoles={[UserRole.ADMIN]} />}
               >
                 <Route path="/users" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><UsersListPage /></Suspense></ErrorBoundary>} />
+                <Route path="/loan-kits" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><LoanKitsPage /></Suspense></ErrorBoundary>} />
+                <Route path="/loans/trash" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><LoansTrashPage /></Suspense></ErrorBoundary>} />
               </Route>
 
-              {/* Employees, Assets, Stock, Loans - ADMIN and GESTIONNAIRE */}
+              {/* Employees, Departments, Assets, Stock, Suppliers, Purchase orders, Loans, Repairs, Inventory - ADMIN and GESTIONNAIRE */}
               <Route
                 element={
                   <ProtectedRoute
@@ -78,11 +95,20 @@ function App() {
                 }
               >
                 <Route path="/employees" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><EmployeesListPage /></Suspense></ErrorBoundary>} />
+                <Route path="/employees/sync" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><EmployeeImportsPage /></Suspense></ErrorBoundary>} />
+                <Route path="/departments" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><DepartmentsPage /></Suspense></ErrorBoundary>} />
                 <Route path="/assets/models" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><AssetModelsListPage /></Suspense></ErrorBoundary>} />
                 <Route path="/assets/items" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><AssetItemsListPage /></Suspense></ErrorBoundary>} />
                 <Route path="/stock" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><StockItemsListPage /></Suspense></ErrorBoundary>} />
+                <Route path="/suppliers" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><SuppliersPage /></Suspense></ErrorBoundary>} />
+                <Route path="/purchase-orders" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><PurchaseOrdersPage /></Suspense></ErrorBoundary>} />
+                <Route path="/purchase-orders/:id" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><PurchaseOrderDetailsPage /></Suspense></ErrorBoundary>} />
                 <Route path="/loans" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><LoansListPage /></Suspense></ErrorBoundary>} />
                 <Route path="/loans/:id" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><LoanDetailsPage /></Suspense></ErrorBoundary>} />
+                <Route path="/reservations" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><ReservationsListPage /></Suspense></ErrorBoundary>} />
+                <Route path="/repairs" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><RepairTicketsPage /></Suspense></ErrorBoundary>} />
+                <Route path="/inventory" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><InventoryCampaignsPage /></Suspense></ErrorBoundary>} />
+                <Route path="/inventory/:id" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><InventoryCampaignDetailsPage /></Suspense></ErrorBoundary>} />
                 <Route path="/audit-logs" element={<ErrorBoundary><Suspense fallback={<PageSkeleton />}><AuditLogsPage /></Suspense></ErrorBoundary>} />
               </Route>
             </Route>
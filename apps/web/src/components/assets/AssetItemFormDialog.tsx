@@ -1,9 +1,9 @@
-/** @fileoverview Dialogue de creation/edition d'un equipement individuel avec gestion du statut */
+/** @fileoverview Dialogue de creation/edition d'un equipement individuel avec gestion du statut et des donnees d'achat */
 import { useEffect, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import type { AssetItem } from '@/lib/types/models.types'
-import { AssetStatus } from '@/lib/types/enums'
+import type { AssetItem, AssetPurchaseDto } from '@/lib/types/models.types'
+import { AssetStatus, AssetStatusLabels, DisposalReasonLabels } from '@/lib/types/enums'
 import { assetItemFormSchema } from '@/lib/schemas/assetItems.schema'
 import type { AssetItemFormData } from '@/lib/schemas/assetItems.schema'
 import {
@@ -13,7 +13,9 @@ import {
   useUpdateAssetItem
 } from '@/lib/hooks/useAssetItems'
 import { useAssetModels } from '@/lib/hooks/useAssetModels'
+import { useSuppliers } from '@/lib/hooks/useSuppliers'
 import { BulkCreationPreview } from './BulkCreationPreview'
+import { PrintLabelsDialog } from './PrintLabelsDialog'
 import {
   Dialog,
   DialogContent,
@@ -39,6 +41,9 @@ import {
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
+import { centsToEuroInput, eurosToCents, formatCents } from '@/lib/utils/money'
+import { toDateInputValue, toDueAtIso, toStartOfDayIso } from '@/lib/utils/loanDueDates'
+import { formatDate } from '@/lib/utils/formatters'
 
 interface AssetItemFormDialogProps {
   item?: AssetItem | null
@@ -46,33 +51,70 @@ interface AssetItemFormDialogProps {
   onClose: () => void
 }
 
+// Radix Select n'accepte pas de valeur vide
+const NO_SUPPLIER = 'none'
+
+// La réforme passe par le dialogue dédié (motif, certificat), pas par ce formulaire
+const EDITABLE_STATUSES = Object.values(AssetStatus).filter((status) => status !== AssetStatus.REFORME)
+
+const EMPTY_VALUES: AssetItemFormData = {
+  quantity: 1,
+  assetTag: '',
+  tagPrefix: '',
+  serial: '',
+  status: AssetStatus.EN_STOCK,
+  notes: '',
+  location: '',
+  assetModelId: '',
+  supplierId: NO_SUPPLIER,
+  invoiceNumber: '',
+  purchaseDate: '',
+  purchasePrice: '',
+  warrantyEndsAt: '',
+}
+
+/**
+ * Données d'achat envoyées à l'API (null efface la valeur en édition)
+ *
+ * La garantie court jusqu'à la fin du jour saisi.
+ */
+function toPurchaseDto(data: AssetItemFormData): AssetPurchaseDto {
+  return {
+    supplierId: data.supplierId && data.supplierId !== NO_SUPPLIER ? data.supplierId : null,
+    invoiceNumber: data.invoiceNumber?.trim() || null,
+    purchaseDate: toStartOfDayIso(data.purchaseDate),
+    purchasePriceCents: eurosToCents(data.purchasePrice) ?? null,
+    warrantyEndsAt: toDueAtIso(data.warrantyEndsAt),
+  }
+}
+
 export function AssetItemFormDialog({ item, open, onClose }: AssetItemFormDialogProps) {
   const isEdit = !!item
+  const isRetired = item?.status === AssetStatus.REFORME
   const createItem = useCreateAssetItem()
   const createItemsBulk = useCreateAssetItemsBulk()
   const updateItem = useUpdateAssetItem()
   const { data: models } = useAssetModels()
+  const { data: suppliers } = useSuppliers()
 
   const [isBulkMode, setIsBulkMode] = useState(false)
+  // Lot tout juste créé : proposé à l'impression des étiquettes
+  const [createdItems, setCreatedItems] = useState<AssetItem[]>([])
 
   const modelsList = Array.isArray(models) ? models : []
+  const suppliersList = Array.isArray(suppliers) ? suppliers : []
 
   const form = useForm<AssetItemFormData>({
     resolver: zodResolver(assetItemFormSchema),
-    defaultValues: {
-      quantity: 1,
-      assetTag: '',
-      tagPrefix: '',
-      serial: '',
-      status: AssetStatus.EN_STOCK,
-      notes: '',
-      assetModelId: '',
-    },
+    defaultValues: EMPTY_VALUES,
   })
 
   // Watch pour détecter le mode
   const quantity = form.watch('quantity') || 1
   const tagPrefix = form.watch('tagPrefix') || ''
+  const invoiceNumber = form.watch('invoiceNumber') || ''
+  const supplierId = form.watch('supplierId')
+  const supplierName = suppliersList.find((supplier) => supplier.id === supplierId)?.name
 
   useEffect(() => {
     setIsBulkMode(quantity > 1)
@@ -88,25 +130,22 @@ export function AssetItemFormDialog({ item, open, onClose }: AssetItemFormDialog
   useEffect(() => {
     if (item) {
       form.reset({
-        quantity: 1,
+        ...EMPTY_VALUES,
         assetTag: item.assetTag,
-        tagPrefix: '',
         serial: item.serial || '',
         status: item.status,
         notes: item.notes || '',
+        location: item.location || '',
         assetModelId: item.assetModelId,
+        supplierId: item.supplierId || NO_SUPPLIER,
+        invoiceNumber: item.invoiceNumber || '',
+        purchaseDate: toDateInputValue(item.purchaseDate),
+        purchasePrice: centsToEuroInput(item.purchasePriceCents),
+        warrantyEndsAt: toDateInputValue(item.warrantyEndsAt),
       })
       setIsBulkMode(false)
     } else if (!open) {
-      form.reset({
-        quantity: 1,
-        assetTag: '',
-        tagPrefix: '',
-        serial: '',
-        status: AssetStatus.EN_STOCK,
-        notes: '',
-        assetModelId: '',
-      })
+      form.reset(EMPTY_VALUES)
       setIsBulkMode(false)
     }
   }, [item, open, form])
@@ -120,20 +159,26 @@ export function AssetItemFormDialog({ item, open, onClose }: AssetItemFormDialog
           data: {
             assetTag: data.assetTag,
             serial: data.serial,
-            status: data.status,
+            // Statut terminal : jamais renvoyé pour un équipement réformé
+            ...(isRetired ? {} : { status: data.status }),
             notes: data.notes,
+            location: data.location?.trim() || null,
             assetModelId: data.assetModelId,
+            ...toPurchaseDto(data),
           }
         })
       } else if (isBulkMode) {
         // Mode création en masse
-        await createItemsBulk.mutateAsync({
+        const created = await createItemsBulk.mutateAsync({
           tagPrefix: data.tagPrefix!,
           quantity: data.quantity,
           assetModelId: data.assetModelId,
           status: data.status,
           notes: data.notes,
+          location: data.location?.trim() || null,
+          ...toPurchaseDto(data),
         })
+        setCreatedItems(created)
       } else {
         // Mode création simple (inchangé)
         await createItem.mutateAsync({
@@ -142,6 +187,8 @@ export function AssetItemFormDialog({ item, open, onClose }: AssetItemFormDialog
           assetModelId: data.assetModelId,
           status: data.status,
           notes: data.notes,
+          location: data.location?.trim() || null,
+          ...toPurchaseDto(data),
         })
       }
 
@@ -155,141 +202,292 @@ export function AssetItemFormDialog({ item, open, onClose }: AssetItemFormDialog
   const isPending = createItem.isPending || createItemsBulk.isPending || updateItem.isPending
 
   return (
-    <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl">
-        <DialogHeader>
-          <DialogTitle>
-            {isEdit
-              ? 'Modifier l\'équipement'
-              : isBulkMode
-                ? 'Créer des équipements en masse'
-                : 'Créer un équipement'
-            }
-          </DialogTitle>
-          <DialogDescription>
-            {isEdit
-              ? 'Modifiez les informations de l\'équipement'
-              : isBulkMode
-                ? 'Créez plusieurs équipements avec des tags auto-générés'
-                : 'Ajoutez un nouvel équipement dans l\'inventaire'
-            }
-          </DialogDescription>
-        </DialogHeader>
-
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            {/* Quantity field - only in create mode */}
-            {!isEdit && (
-              <FormField
-                control={form.control}
-                name="quantity"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Quantité</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        min={1}
-                        max={100}
-                        placeholder="1"
-                        {...field}
-                        onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 1)}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            )}
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {isEdit
+                ? 'Modifier l\'équipement'
+                : isBulkMode
+                  ? 'Créer des équipements en masse'
+                  : 'Créer un équipement'
+              }
+            </DialogTitle>
+            <DialogDescription>
+              {isEdit
+                ? 'Modifiez les informations de l\'équipement'
+                : isBulkMode
+                  ? 'Créez plusieurs équipements avec des tags auto-générés'
+                  : 'Ajoutez un nouvel équipement dans l\'inventaire'
+              }
+            </DialogDescription>
+          </DialogHeader>
 
-            <div className="grid grid-cols-2 gap-4">
-              {/* Asset Tag (simple) OR Tag Prefix (bulk) */}
-              {isBulkMode ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {/* Quantity field - only in create mode */}
+              {!isEdit && (
                 <FormField
                   control={form.control}
-                  name="tagPrefix"
+                  name="quantity"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Préfixe du tag *</FormLabel>
+                      <FormLabel>Quantité</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="KB-"
+                          type="number"
+                          min={1}
+                          max={100}
+                          placeholder="1"
                           {...field}
-                          onChange={(e) => {
-                            const value = e.target.value.toUpperCase()
-                            field.onChange(value)
-                          }}
+                          onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 1)}
                         />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              ) : (
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                {/* Asset Tag (simple) OR Tag Prefix (bulk) */}
+                {isBulkMode ? (
+                  <FormField
+                    control={form.control}
+                    name="tagPrefix"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Préfixe du tag *</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="KB-"
+                            {...field}
+                            onChange={(e) => {
+                              const value = e.target.value.toUpperCase()
+                              field.onChange(value)
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="assetTag"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tag d'actif *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="IT-2024-001" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {/* Serial Number - hidden in bulk mode */}
+                {!isBulkMode && (
+                  <FormField
+                    control={form.control}
+                    name="serial"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Numéro de série</FormLabel>
+                        <FormControl>
+                          <Input placeholder="SN123456789" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              {/* Bulk creation preview */}
+              {isBulkMode && (
+                <BulkCreationPreview
+                  tagPrefix={tagPrefix}
+                  quantity={quantity}
+                  preview={preview}
+                  isLoading={isLoadingPreview}
+                  invoiceNumber={invoiceNumber.trim()}
+                  supplierName={supplierName}
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
-                  name="assetTag"
+                  name="assetModelId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Tag d'actif *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="IT-2024-001" {...field} />
-                      </FormControl>
+                      <FormLabel>Modèle *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Sélectionnez un modèle" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {modelsList.map((model) => (
+                            <SelectItem key={model.id} value={model.id}>
+                              {model.brand} {model.modelName} ({model.type})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              )}
 
-              {/* Serial Number - hidden in bulk mode */}
-              {!isBulkMode && (
                 <FormField
                   control={form.control}
-                  name="serial"
+                  name="status"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Numéro de série</FormLabel>
-                      <FormControl>
-                        <Input placeholder="SN123456789" {...field} />
-                      </FormControl>
+                      <FormLabel>Statut</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={isRetired}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Sélectionnez un statut" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(isRetired ? [AssetStatus.REFORME] : EDITABLE_STATUSES).map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {status}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {isRetired && item?.disposedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          {AssetStatusLabels[AssetStatus.REFORME]} le {formatDate(item.disposedAt)}
+                          {item.disposalReason && ` (${DisposalReasonLabels[item.disposalReason]})`}
+                        </p>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              )}
-            </div>
-
-            {/* Bulk creation preview */}
-            {isBulkMode && (
-              <BulkCreationPreview
-                tagPrefix={tagPrefix}
-                quantity={quantity}
-                preview={preview}
-                isLoading={isLoadingPreview}
-              />
-            )}
+              </div>
+
+              <div className="space-y-4 rounded-lg border p-4">
+                <div>
+                  <p className="text-sm font-medium">Achat et garantie</p>
+                  {isBulkMode && (
+                    <p className="text-xs text-muted-foreground">
+                      Appliqués à tous les équipements de la livraison
+                    </p>
+                  )}
+                  {item?.currentValueCents != null && (
+                    <p className="text-xs text-muted-foreground">
+                      Valeur actuelle après amortissement : {formatCents(item.currentValueCents)}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="supplierId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fournisseur</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || NO_SUPPLIER}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_SUPPLIER}>Aucun</SelectItem>
+                            {suppliersList.map((supplier) => (
+                              <SelectItem key={supplier.id} value={supplier.id}>
+                                {supplier.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="invoiceNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>N° de facture</FormLabel>
+                        <FormControl>
+                          <Input placeholder="FA-2025-0042" {...field} value={field.value || ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="purchaseDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Date d'achat</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} value={field.value || ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="purchasePrice"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{isBulkMode ? 'Prix unitaire (€)' : 'Prix d\'achat (€)'}</FormLabel>
+                        <FormControl>
+                          <Input inputMode="decimal" placeholder="0,00" {...field} value={field.value || ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="warrantyEndsAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fin de garantie</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} value={field.value || ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
 
-            <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="assetModelId"
+                name="location"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Modèle *</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Sélectionnez un modèle" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {modelsList.map((model) => (
-                          <SelectItem key={model.id} value={model.id}>
-                            {model.brand} {model.modelName} ({model.type})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <FormLabel>Emplacement</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: Siège - Salle serveur" {...field} value={field.value || ''} />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -297,69 +495,51 @@ export function AssetItemFormDialog({ item, open, onClose }: AssetItemFormDialog
 
               <FormField
                 control={form.control}
-                name="status"
+                name="notes"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Statut</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Sélectionnez un statut" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {Object.values(AssetStatus).map((status) => (
-                          <SelectItem key={status} value={status}>
-                            {status}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Notes supplémentaires..."
+                        className="resize-none"
+                        {...field}
+                        value={field.value || ''}
+                      />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
-            </div>
-
-            <FormField
-              control={form.control}
-              name="notes"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Notes</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      placeholder="Notes supplémentaires..."
-                      className="resize-none"
-                      {...field}
-                      value={field.value || ''}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <div className="flex gap-2 justify-end">
-              <Button type="button" variant="outline" onClick={onClose}>
-                Annuler
-              </Button>
-              <Button
-                type="submit"
-                disabled={isPending || (isBulkMode && preview?.conflicts && preview.conflicts.length > 0)}
-              >
-                {isPending
-                  ? 'Enregistrement...'
-                  : isEdit
-                  ? 'Modifier'
-                  : isBulkMode
-                  ? `Créer ${quantity} équipement(s)`
-                  : 'Créer'}
-              </Button>
-            </div>
-          </form>
-        </Form>
-      </DialogContent>
-    </Dialog>
+
+              <div className="flex gap-2 justify-end">
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Annuler
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isPending || (isBulkMode && preview?.conflicts && preview.conflicts.length > 0)}
+                >
+                  {isPending
+                    ? 'Enregistrement...'
+                    : isEdit
+                    ? 'Modifier'
+                    : isBulkMode
+                    ? `Créer ${quantity} équipement(s)`
+                    : 'Créer'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <PrintLabelsDialog
+        items={createdItems}
+        open={createdItems.length > 0}
+        onClose={() => setCreatedItems([])}
+        description={`${createdItems.length} équipement(s) créé(s) : imprimer leurs étiquettes maintenant ?`}
+      />
+    </>
   )
 }
@@ -13,12 +13,17 @@ import {
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Card } from '@/components/ui/card'
-import { Pencil, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Archive, Pencil, Printer, Trash2, Wrench } from 'lucide-react'
 import { StatusBadge } from './StatusBadge'
+import { AssetStatus } from '@/lib/types/enums'
 
 // Lazy load dialogs
 const AssetItemFormDialog = lazy(() => import('./AssetItemFormDialog').then(m => ({ default: m.AssetItemFormDialog })))
 const DeleteAssetItemDialog = lazy(() => import('./DeleteAssetItemDialog').then(m => ({ default: m.DeleteAssetItemDialog })))
+const RepairTicketFormDialog = lazy(() => import('@/components/repairs/RepairTicketFormDialog').then(m => ({ default: m.RepairTicketFormDialog })))
+const RetireAssetItemDialog = lazy(() => import('./RetireAssetItemDialog').then(m => ({ default: m.RetireAssetItemDialog })))
+const PrintLabelsDialog = lazy(() => import('./PrintLabelsDialog').then(m => ({ default: m.PrintLabelsDialog })))
 import { useMediaQuery } from '@/lib/hooks/useMediaQuery'
 
 interface AssetItemsTableProps {
@@ -27,6 +32,21 @@ interface AssetItemsTableProps {
   onSelectionChange?: (selectedIds: string[]) => void
 }
 
+// Prêté : enregistrer le retour d'abord. En réparation : clôturer le ticket d'abord.
+function isRetirable(item: AssetItem): boolean {
+  return item.status === AssetStatus.EN_STOCK || item.status === AssetStatus.HS
+}
+
+// Signalé manquant par une campagne d'inventaire, jusqu'à ce qu'il soit retrouvé
+function MissingBadge({ item }: { item: AssetItem }) {
+  if (!item.missingSince) return null
+  return (
+    <Badge variant="destructive" title={`Signalé manquant le ${formatDate(item.missingSince)}`}>
+      Introuvable
+    </Badge>
+  )
+}
+
 // Memoized Asset Item Row Component for Desktop
 interface AssetItemRowProps {
   item: AssetItem
@@ -34,6 +54,9 @@ interface AssetItemRowProps {
   onSelect: (itemId: string, checked: boolean) => void
   onEdit: (item: AssetItem) => void
   onDelete: (item: AssetItem) => void
+  onRepair: (item: AssetItem) => void
+  onRetire: (item: AssetItem) => void
+  onPrintLabel: (item: AssetItem) => void
   showCheckbox: boolean
 }
 
@@ -43,6 +66,9 @@ const AssetItemRow = memo(({
   onSelect,
   onEdit,
   onDelete,
+  onRepair,
+  onRetire,
+  onPrintLabel,
   showCheckbox
 }: AssetItemRowProps) => {
   return (
@@ -64,7 +90,10 @@ const AssetItemRow = memo(({
       </TableCell>
       <TableCell>{item.serial || '-'}</TableCell>
       <TableCell>
-        <StatusBadge status={item.status} />
+        <div className="flex flex-wrap gap-1">
+          <StatusBadge status={item.status} />
+          <MissingBadge item={item} />
+        </div>
       </TableCell>
       <TableCell className="max-w-xs truncate">{item.notes || '-'}</TableCell>
       <TableCell>{formatDate(item.createdAt)}</TableCell>
@@ -77,6 +106,35 @@ const AssetItemRow = memo(({
           >
             <Pencil className="h-4 w-4" />
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onRepair(item)}
+            disabled={item.status === AssetStatus.PRETE || item.status === AssetStatus.REFORME}
+            aria-label="Envoyer en réparation"
+            title="Envoyer en réparation"
+          >
+            <Wrench className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onPrintLabel(item)}
+            aria-label="Imprimer l'étiquette"
+            title="Imprimer l'étiquette"
+          >
+            <Printer className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onRetire(item)}
+            disabled={!isRetirable(item)}
+            aria-label="Réformer"
+            title="Réformer"
+          >
+            <Archive className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -99,6 +157,9 @@ interface AssetItemCardProps {
   onSelect: (itemId: string, checked: boolean) => void
   onEdit: (item: AssetItem) => void
   onDelete: (item: AssetItem) => void
+  onRepair: (item: AssetItem) => void
+  onRetire: (item: AssetItem) => void
+  onPrintLabel: (item: AssetItem) => void
   showCheckbox: boolean
 }
 
@@ -108,6 +169,9 @@ const AssetItemCard = memo(({
   onSelect,
   onEdit,
   onDelete,
+  onRepair,
+  onRetire,
+  onPrintLabel,
   showCheckbox
 }: AssetItemCardProps) => {
   return (
@@ -133,7 +197,10 @@ const AssetItemCard = memo(({
               </p>
             </div>
           </div>
-          <StatusBadge status={item.status} />
+          <div className="flex flex-col items-end gap-1">
+            <StatusBadge status={item.status} />
+            <MissingBadge item={item} />
+          </div>
         </div>
 
         {/* Informations */}
@@ -165,6 +232,35 @@ const AssetItemCard = memo(({
             <Pencil className="h-4 w-4 mr-2" />
             Modifier
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => onRepair(item)}
+            disabled={item.status === AssetStatus.PRETE || item.status === AssetStatus.REFORME}
+          >
+            <Wrench className="h-4 w-4 mr-2" />
+            Réparation
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => onPrintLabel(item)}
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Étiquette
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => onRetire(item)}
+            disabled={!isRetirable(item)}
+          >
+            <Archive className="h-4 w-4 mr-2" />
+            Réformer
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -189,6 +285,9 @@ function AssetItemsTableComponent({
 }: AssetItemsTableProps) {
   const [editingItem, setEditingItem] = useState<AssetItem | null>(null)
   const [deletingItem, setDeletingItem] = useState<AssetItem | null>(null)
+  const [repairingItem, setRepairingItem] = useState<AssetItem | null>(null)
+  const [retiringItem, setRetiringItem] = useState<AssetItem | null>(null)
+  const [printingItem, setPrintingItem] = useState<AssetItem | null>(null)
   const { isMobile } = useMediaQuery()
 
   // Memoized calculations
@@ -226,6 +325,18 @@ function AssetItemsTableComponent({
     setDeletingItem(item)
   }, [])
 
+  const handleRepair = useCallback((item: AssetItem) => {
+    setRepairingItem(item)
+  }, [])
+
+  const handleRetire = useCallback((item: AssetItem) => {
+    setRetiringItem(item)
+  }, [])
+
+  const handlePrintLabel = useCallback((item: AssetItem) => {
+    setPrintingItem(item)
+  }, [])
+
   const handleCloseEdit = useCallback(() => {
     setEditingItem(null)
   }, [])
@@ -234,6 +345,18 @@ function AssetItemsTableComponent({
     setDeletingItem(null)
   }, [])
 
+  const handleCloseRepair = useCallback(() => {
+    setRepairingItem(null)
+  }, [])
+
+  const handleCloseRetire = useCallback(() => {
+    setRetiringItem(null)
+  }, [])
+
+  const handleClosePrintLabel = useCallback(() => {
+    setPrintingItem(null)
+  }, [])
+
   // Vue mobile - Cards empilées
   if (isMobile) {
     if (items.length === 0) {
@@ -271,6 +394,9 @@ function AssetItemsTableComponent({
               onSelect={handleSelectItem}
               onEdit={handleEdit}
               onDelete={handleDelete}
+              onRepair={handleRepair}
+              onRetire={handleRetire}
+              onPrintLabel={handlePrintLabel}
               showCheckbox={!!onSelectionChange}
             />
           ))}
@@ -291,6 +417,30 @@ function AssetItemsTableComponent({
             onClose={handleCloseDelete}
           />
         </Suspense>
+
+        <Suspense fallback={null}>
+          <RepairTicketFormDialog
+            item={repairingItem}
+            open={!!repairingItem}
+            onClose={handleCloseRepair}
+          />
+        </Suspense>
+
+        <Suspense fallback={null}>
+          <RetireAssetItemDialog
+            item={retiringItem}
+            open={!!retiringItem}
+            onClose={handleCloseRetire}
+          />
+        </Suspense>
+
+        <Suspense fallback={null}>
+          <PrintLabelsDialog
+            items={printingItem ? [printingItem] : []}
+            open={!!printingItem}
+            onClose={handleClosePrintLabel}
+          />
+        </Suspense>
       </>
     )
   }
@@ -336,6 +486,9 @@ function AssetItemsTableComponent({
                 onSelect={handleSelectItem}
                 onEdit={handleEdit}
                 onDelete={handleDelete}
+                onRepair={handleRepair}
+                onRetire={handleRetire}
+              onPrintLabel={handlePrintLabel}
                 showCheckbox={!!onSelectionChange}
               />
             ))
@@ -359,6 +512,30 @@ function AssetItemsTableComponent({
           onClose={handleCloseDelete}
         />
       </Suspense>
+
+      <Suspense fallback={null}>
+        <RepairTicketFormDialog
+          item={repairingItem}
+          open={!!repairingItem}
+          onClose={handleCloseRepair}
+        />
+      </Suspense>
+
+      <Suspense fallback={null}>
+        <RetireAssetItemDialog
+          item={retiringItem}
+          open={!!retiringItem}
+          onClose={handleCloseRetire}
+        />
+      </Suspense>
+
+      <Suspense fallback={null}>
+        <PrintLabelsDialog
+          items={printingItem ? [printingItem] : []}
+          open={!!printingItem}
+          onClose={handleClosePrintLabel}
+        />
+      </Suspense>
     </>
   )
 }
@@ -11,13 +11,18 @@ interface BulkCreationPreviewProps {
     startNumber: number
   }
   isLoading?: boolean
+  /** Facture commune à la livraison */
+  invoiceNumber?: string
+  supplierName?: string
 }
 
 export function BulkCreationPreview({
   tagPrefix,
   quantity,
   preview,
-  isLoading
+  isLoading,
+  invoiceNumber,
+  supplierName
 }: BulkCreationPreviewProps) {
   if (!tagPrefix || quantity < 2) {
     return null
@@ -75,6 +80,14 @@ export function BulkCreationPreview({
         <div className="text-xs text-muted-foreground mt-1">
           Numérotation de {String(startNumber).padStart(3, '0')} à {String(startNumber + quantity - 1).padStart(3, '0')}
         </div>
+        {(invoiceNumber || supplierName) && (
+          <div className="text-xs text-muted-foreground mt-1">
+            Livraison commune :
+            {invoiceNumber && ` facture ${invoiceNumber}`}
+            {invoiceNumber && supplierName && ','}
+            {supplierName && ` fournisseur ${supplierName}`}
+          </div>
+        )}
       </AlertDescription>
     </Alert>
   )
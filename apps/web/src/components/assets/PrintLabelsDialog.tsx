@@ -0,0 +1,297 @@
+/** @fileoverview Dialogue d'impression des etiquettes (QR code + Code 128) sur planche standard */
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { printLabelsSchema } from '@/lib/schemas/assetItems.schema'
+import type { PrintLabelsFormData } from '@/lib/schemas/assetItems.schema'
+import { useDownloadAssetLabels, useLabelFormats } from '@/lib/hooks/useAssetItems'
+import type { AssetItem, LabelFormat, LabelLayout } from '@/lib/types/models.types'
+import { LabelCodeType, LabelCodeTypeLabels } from '@/lib/types/enums'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+
+interface PrintLabelsDialogProps {
+  items: AssetItem[]
+  open: boolean
+  onClose: () => void
+  /** Remplace la description par défaut (ex : après une création en masse) */
+  description?: string
+}
+
+const DEFAULT_FORMAT = 'AVERY_L7160'
+
+const LAYOUT_FIELDS: { name: keyof LabelLayout; label: string; step: string }[] = [
+  { name: 'columns', label: 'Colonnes', step: '1' },
+  { name: 'rows', label: 'Lignes', step: '1' },
+  { name: 'labelWidth', label: 'Largeur (mm)', step: '0.1' },
+  { name: 'labelHeight', label: 'Hauteur (mm)', step: '0.1' },
+  { name: 'marginTop', label: 'Marge haute (mm)', step: '0.1' },
+  { name: 'marginLeft', label: 'Marge gauche (mm)', step: '0.1' },
+  { name: 'gapX', label: 'Espace horizontal (mm)', step: '0.1' },
+  { name: 'gapY', label: 'Espace vertical (mm)', step: '0.1' },
+]
+
+function toLayout(format: LabelFormat): LabelLayout {
+  const { columns, rows, labelWidth, labelHeight, marginTop, marginLeft, gapX, gapY } = format
+  return { columns, rows, labelWidth, labelHeight, marginTop, marginLeft, gapX, gapY }
+}
+
+function getDefaultValues(format?: LabelFormat): PrintLabelsFormData {
+  return {
+    format: format?.key ?? DEFAULT_FORMAT,
+    codeType: LabelCodeType.BOTH,
+    startPosition: 1,
+    borders: false,
+    customLayout: false,
+    layout: format
+      ? toLayout(format)
+      : { columns: 3, rows: 7, labelWidth: 63.5, labelHeight: 38.1, marginTop: 15.15, marginLeft: 7.2, gapX: 2.5, gapY: 0 },
+  }
+}
+
+/**
+ * Dialogue « Imprimer les étiquettes »
+ *
+ * Génère un PDF prêt à imprimer (une étiquette par équipement, dans l'ordre
+ * reçu). La position de départ permet de réutiliser une planche entamée ;
+ * les dimensions du format peuvent être ajustées au millimètre.
+ */
+export function PrintLabelsDialog({ items, open, onClose, description }: PrintLabelsDialogProps) {
+  const { data: formats = [] } = useLabelFormats(open)
+  const downloadLabels = useDownloadAssetLabels()
+
+  const form = useForm<PrintLabelsFormData>({
+    resolver: zodResolver(printLabelsSchema),
+    defaultValues: getDefaultValues(),
+  })
+
+  const defaultFormat = formats.find((format) => format.key === DEFAULT_FORMAT) ?? formats[0]
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(defaultFormat))
+    }
+  }, [open, defaultFormat, form])
+
+  const selectedFormat = formats.find((format) => format.key === form.watch('format'))
+  const customLayout = form.watch('customLayout')
+  const columns = form.watch('layout.columns')
+  const rows = form.watch('layout.rows')
+  const labelsPerSheet = customLayout
+    ? columns * rows
+    : (selectedFormat ? selectedFormat.columns * selectedFormat.rows : undefined)
+
+  const handleFormatChange = (key: string) => {
+    form.setValue('format', key)
+    const format = formats.find((candidate) => candidate.key === key)
+    if (format) {
+      form.setValue('layout', toLayout(format))
+    }
+  }
+
+  const onSubmit = async (data: PrintLabelsFormData) => {
+    try {
+      await downloadLabels.mutateAsync({
+        ids: items.map((item) => item.id),
+        format: data.format,
+        codeType: data.codeType,
+        startPosition: data.startPosition,
+        borders: data.borders,
+        ...(data.customLayout ? { layout: data.layout } : {}),
+      })
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Imprimer les étiquettes</DialogTitle>
+          <DialogDescription>
+            {description ?? `${items.length} étiquette(s) : QR code vers la fiche, code-barres du tag, modèle et numéro de série`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="format"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Format de planche *</FormLabel>
+                  <Select onValueChange={handleFormatChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger aria-label="Format de planche">
+                        <SelectValue placeholder="Chargement des formats..." />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {formats.map((format) => (
+                        <SelectItem key={format.key} value={format.key}>
+                          {format.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="codeType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Codes</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger aria-label="Codes imprimés">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(LabelCodeType).map((codeType) => (
+                          <SelectItem key={codeType} value={codeType}>
+                            {LabelCodeTypeLabels[codeType]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="startPosition"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Première position libre</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={labelsPerSheet}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        value={Number.isNaN(field.value) ? '' : field.value}
+                      />
+                    </FormControl>
+                    {labelsPerSheet && (
+                      <p className="text-xs text-muted-foreground">
+                        Planche entamée : de 1 à {labelsPerSheet}, de gauche à droite
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="customLayout"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center space-x-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Ajuster la mise en page</FormLabel>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {customLayout && (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {LAYOUT_FIELDS.map(({ name, label, step }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={`layout.${name}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-xs">{label}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step={step}
+                            min={0}
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            value={Number.isNaN(field.value) ? '' : field.value}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="borders"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center space-x-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Tracer le contour des étiquettes (test d'alignement)</FormLabel>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={downloadLabels.isPending || items.length === 0}>
+                {downloadLabels.isPending ? 'Génération...' : 'Télécharger le PDF'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,210 @@
+/** @fileoverview Dialogue de reforme d'un equipement (motif, date de sortie, certificat, effacement des donnees) */
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { format } from 'date-fns'
+import { retireAssetItemSchema } from '@/lib/schemas/assetItems.schema'
+import type { RetireAssetItemFormData } from '@/lib/schemas/assetItems.schema'
+import { useRetireAssetItem } from '@/lib/hooks/useAssetItems'
+import type { AssetItem } from '@/lib/types/models.types'
+import { DisposalReason, DisposalReasonLabels } from '@/lib/types/enums'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { toStartOfDayIso } from '@/lib/utils/loanDueDates'
+
+interface RetireAssetItemDialogProps {
+  item: AssetItem | null
+  open: boolean
+  onClose: () => void
+}
+
+function getDefaultValues(): RetireAssetItemFormData {
+  return {
+    reason: DisposalReason.RECYCLAGE,
+    disposedAt: format(new Date(), 'yyyy-MM-dd'),
+    certificateRef: '',
+    dataWipeConfirmed: false,
+    note: '',
+  }
+}
+
+/**
+ * Dialogue « Réformer »
+ *
+ * La réforme est définitive : l'équipement reste consultable (recherche,
+ * historique des prêts, registre des sorties) mais disparaît des listes et
+ * des sélecteurs.
+ */
+export function RetireAssetItemDialog({ item, open, onClose }: RetireAssetItemDialogProps) {
+  const retireAssetItem = useRetireAssetItem()
+
+  const form = useForm<RetireAssetItemFormData>({
+    resolver: zodResolver(retireAssetItemSchema),
+    defaultValues: getDefaultValues(),
+  })
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues())
+    }
+  }, [open, form])
+
+  const onSubmit = async (data: RetireAssetItemFormData) => {
+    if (!item) return
+
+    try {
+      await retireAssetItem.mutateAsync({
+        id: item.id,
+        data: {
+          reason: data.reason,
+          disposedAt: toStartOfDayIso(data.disposedAt)!,
+          dataWipeConfirmed: data.dataWipeConfirmed,
+          ...(data.certificateRef?.trim() ? { certificateRef: data.certificateRef.trim() } : {}),
+          ...(data.note?.trim() ? { note: data.note.trim() } : {}),
+        },
+      })
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Réformer l'équipement</DialogTitle>
+          <DialogDescription>
+            {item
+              ? `${item.assetTag}${item.assetModel ? ` - ${item.assetModel.brand} ${item.assetModel.modelName}` : ''}`
+              : 'Sortie définitive du parc'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Motif *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger aria-label="Motif de sortie">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(DisposalReason).map((reason) => (
+                          <SelectItem key={reason} value={reason}>
+                            {DisposalReasonLabels[reason]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="disposedAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date de sortie *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="certificateRef"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Référence du certificat</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex : certificat de recyclage, dépôt de plainte" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="dataWipeConfirmed"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center space-x-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Effacement des données confirmé</FormLabel>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea className="resize-none" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" variant="destructive" disabled={retireAssetItem.isPending}>
+                {retireAssetItem.isPending ? 'Réforme...' : 'Réformer'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
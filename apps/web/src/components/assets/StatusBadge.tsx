@@ -6,22 +6,33 @@ interface StatusBadgeProps {
   status: AssetStatus
 }
 
-const statusConfig = {
+interface StatusConfig {
+  label: string
+  variant: 'default' | 'secondary' | 'destructive' | 'outline'
+  className?: string
+}
+
+const statusConfig: Record<AssetStatus, StatusConfig> = {
   [AssetStatus.EN_STOCK]: {
     label: 'En stock',
-    variant: 'default' as const,
+    variant: 'default',
   },
   [AssetStatus.PRETE]: {
     label: 'Prêté',
-    variant: 'secondary' as const,
+    variant: 'secondary',
   },
   [AssetStatus.HS]: {
     label: 'Hors service',
-    variant: 'destructive' as const,
+    variant: 'destructive',
   },
   [AssetStatus.REPARATION]: {
     label: 'En réparation',
-    variant: 'outline' as const,
+    variant: 'outline',
+  },
+  [AssetStatus.REFORME]: {
+    label: 'Réformé',
+    variant: 'outline',
+    className: 'text-muted-foreground',
   },
 }
 
@@ -38,7 +49,7 @@ export function StatusBadge({ status }: StatusBadgeProps) {
   }
 
   return (
-    <Badge variant={config.variant}>
+    <Badge variant={config.variant} className={config.className}>
       {config.label}
     </Badge>
   )
@@ -1,7 +1,8 @@
 /**
  * @fileoverview Asset item autocomplete component
  *
- * Provides typeahead search for asset items by asset tag or serial number
+ * Provides typeahead search for asset items by asset tag or serial number.
+ * Items with an upcoming reservation show a "Réservé" badge.
  */
 
 import { useState, useEffect, useRef } from 'react'
@@ -9,6 +10,7 @@ import { useQuery } from '@tanstack/react-query'
 import { Search, Loader2, Package } from 'lucide-react'
 import { autocompleteAssetItems, type AutocompleteAssetItem } from '@/lib/api/search.api'
 import { cn } from '@/lib/utils'
+import { formatDate } from '@/lib/utils/formatters'
 
 interface AssetItemAutocompleteProps {
   value?: AutocompleteAssetItem | null
@@ -180,7 +182,15 @@ export function AssetItemAutocomplete({
                       {item.assetModel.type}
                       {item.serial && ` • SN: ${item.serial}`}
                     </div>
-                    <div className="mt-1">{getStatusBadge(item.status)}</div>
+                    <div className="mt-1 flex flex-wrap items-center gap-1">
+                      {getStatusBadge(item.status)}
+                      {item.reservations?.[0] && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                          Réservé : {item.reservations[0].employee.firstName} {item.reservations[0].employee.lastName}
+                          {' '}du {formatDate(item.reservations[0].startDate)} au {formatDate(item.reservations[0].endDate)}
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </button>
               ))}
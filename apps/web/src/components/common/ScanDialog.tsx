@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Scan dialog - camera and USB scanner input for asset labels
+ *
+ * Reads the QR codes / Code 128 barcodes printed on asset labels:
+ * - Camera: native Barcode Detection API (continuous scan)
+ * - USB / Bluetooth scanners: they type the code followed by Enter
+ *   in the focused input, which also accepts manual entry
+ *
+ * Each scan is handed to `onScan`, its outcome is shown in a history with
+ * an audible / vibration feedback (see playScanFeedback).
+ *
+ * Mount it on open: the history and camera state start fresh for each session.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import type { FormEvent, ReactNode } from 'react'
+import { Camera, CameraOff, CheckCircle2, ScanLine, XCircle } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useMediaQuery } from '@/lib/hooks/useMediaQuery'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+import { cn } from '@/lib/utils'
+import { createBarcodeDetector, parseScannedCode, playScanFeedback } from '@/lib/utils/scanning'
+
+export interface ScanOutcome {
+  success: boolean
+  message: string
+}
+
+interface ScanResult extends ScanOutcome {
+  id: number
+  code: string
+}
+
+interface ScanDialogProps {
+  open: boolean
+  onClose: () => void
+  title: string
+  description: string
+  /** Handle a scanned code (already extracted from the label deep link) */
+  onScan: (code: string) => Promise<ScanOutcome>
+  /** Extra controls shown above the scanner (e.g. scan mode) */
+  children?: ReactNode
+}
+
+// Ignore the same code read again by the camera within this delay
+const CAMERA_REPEAT_DELAY_MS = 2500
+const CAMERA_SCAN_INTERVAL_MS = 250
+const MAX_RESULTS = 5
+
+export function ScanDialog({ open, onClose, title, description, onScan, children }: ScanDialogProps) {
+  const { isMobile } = useMediaQuery()
+  const [manualCode, setManualCode] = useState('')
+  const [results, setResults] = useState<ScanResult[]>([])
+  const [isCameraSupported] = useState(() => createBarcodeDetector() !== null)
+  // Phones and tablets have no USB scanner: start on the camera
+  const [isCameraOn, setIsCameraOn] = useState(() => isMobile && isCameraSupported)
+  const [cameraError, setCameraError] = useState<string | null>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const isBusyRef = useRef(false)
+  const lastCameraScanRef = useRef<{ code: string; at: number } | null>(null)
+  const nextIdRef = useRef(0)
+  // Latest handler, so that parent re-renders do not restart the camera
+  const onScanRef = useRef(onScan)
+
+  useEffect(() => {
+    onScanRef.current = onScan
+  }, [onScan])
+
+  const handleCode = useCallback(async (raw: string) => {
+    const code = parseScannedCode(raw)
+    if (!code || isBusyRef.current) return
+
+    isBusyRef.current = true
+    let outcome: ScanOutcome
+    try {
+      outcome = await onScanRef.current(code)
+    } catch (error: unknown) {
+      outcome = { success: false, message: getErrorMessage(error, 'Erreur lors du traitement du scan') }
+    }
+    isBusyRef.current = false
+
+    playScanFeedback(outcome.success)
+    const id = nextIdRef.current++
+    setResults((previous) => [{ ...outcome, id, code }, ...previous].slice(0, MAX_RESULTS))
+    inputRef.current?.focus()
+  }, [])
+
+  // Camera loop: grab a frame every CAMERA_SCAN_INTERVAL_MS while the dialog is open
+  useEffect(() => {
+    if (!open || !isCameraOn) return
+
+    const detector = createBarcodeDetector()
+    if (!detector) return
+
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let cancelled = false
+
+    const scanFrame = async () => {
+      const video = videoRef.current
+      if (cancelled || !video) return
+      try {
+        if (video.readyState >= 2) {
+          const [barcode] = await detector.detect(video)
+          const now = Date.now()
+          const last = lastCameraScanRef.current
+          if (barcode?.rawValue && !(last?.code === barcode.rawValue && now - last.at < CAMERA_REPEAT_DELAY_MS)) {
+            lastCameraScanRef.current = { code: barcode.rawValue, at: now }
+            await handleCode(barcode.rawValue)
+          }
+        }
+      } catch {
+        // Frame not decodable, try the next one
+      }
+      if (!cancelled) timer = setTimeout(scanFrame, CAMERA_SCAN_INTERVAL_MS)
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        stream = mediaStream
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream
+          await videoRef.current.play()
+        }
+        scanFrame()
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setCameraError('Accès à la caméra refusé ou indisponible')
+          setIsCameraOn(false)
+        }
+      })
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [open, isCameraOn, handleCode])
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const code = manualCode
+    setManualCode('')
+    handleCode(code)
+  }
+
+  const [lastResult, ...previousResults] = results
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {children}
+
+          {isCameraOn && (
+            <div className="relative overflow-hidden rounded-lg bg-black">
+              <video ref={videoRef} className="w-full max-h-64 object-cover" muted playsInline />
+              <ScanLine className="absolute inset-0 m-auto h-16 w-16 text-white/60" />
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              ref={inputRef}
+              autoFocus
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder="Scannez ou saisissez un tag / n° de série"
+              aria-label="Code scanné"
+              autoComplete="off"
+            />
+            <Button type="submit" variant="secondary" disabled={!manualCode.trim()}>
+              Valider
+            </Button>
+          </form>
+
+          {isCameraSupported ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => {
+                setCameraError(null)
+                setIsCameraOn((value) => !value)
+              }}
+            >
+              {isCameraOn ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+              {isCameraOn ? 'Arrêter la caméra' : 'Scanner avec la caméra'}
+            </Button>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Ce navigateur ne sait pas lire les codes avec la caméra : utilisez une douchette USB ou la saisie manuelle.
+            </p>
+          )}
+          {cameraError && <p className="text-sm text-destructive">{cameraError}</p>}
+
+          {lastResult && (
+            <div
+              role="status"
+              className={cn(
+                'flex items-start gap-3 rounded-lg border-2 p-3',
+                lastResult.success
+                  ? 'border-green-600 bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-100'
+                  : 'border-destructive bg-destructive/10 text-destructive'
+              )}
+            >
+              {lastResult.success
+                ? <CheckCircle2 className="h-5 w-5 shrink-0" />
+                : <XCircle className="h-5 w-5 shrink-0" />}
+              <div>
+                <p className="font-semibold">{lastResult.code}</p>
+                <p className="text-sm">{lastResult.message}</p>
+              </div>
+            </div>
+          )}
+
+          {previousResults.length > 0 && (
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              {previousResults.map((result) => (
+                <li key={result.id} className="flex items-center gap-2">
+                  {result.success
+                    ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    : <XCircle className="h-4 w-4 text-destructive" />}
+                  <span className="font-medium">{result.code}</span>
+                  <span className="truncate">{result.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Terminer
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
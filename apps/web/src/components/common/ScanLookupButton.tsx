@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Header button opening the scanner to look up an asset item
+ *
+ * A scanned label (or typed tag / serial number) opens the item in the
+ * equipment list; unknown codes are reported in the scan dialog.
+ */
+
+import { useState, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ScanLine } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ScanDialog } from './ScanDialog'
+import { resolveAssetItemCode } from '@/lib/api/search.api'
+import { AssetStatus } from '@/lib/types/enums'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+import { getScannedItemLabel, getScannedItemStatus } from '@/lib/utils/scanning'
+
+export function ScanLookupButton() {
+  const [isOpen, setIsOpen] = useState(false)
+  const navigate = useNavigate()
+
+  const handleScan = useCallback(async (code: string) => {
+    try {
+      const item = await resolveAssetItemCode(code)
+      const params = new URLSearchParams({ search: item.assetTag ?? item.serial ?? code })
+      // Retired items are only listed with their status filter
+      if (item.status === AssetStatus.REFORME) params.set('status', AssetStatus.REFORME)
+
+      setIsOpen(false)
+      navigate(`/assets/items?${params.toString()}`)
+      return { success: true, message: `${getScannedItemLabel(item)} (${getScannedItemStatus(item)})` }
+    } catch (error: unknown) {
+      return { success: false, message: getErrorMessage(error, 'Code inconnu') }
+    }
+  }, [navigate])
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setIsOpen(true)}
+        className="text-white hover:bg-[#EE2722]/10 hover:text-white"
+        aria-label="Scanner une étiquette"
+        title="Scanner une étiquette"
+      >
+        <ScanLine className="h-5 w-5" />
+      </Button>
+
+      {isOpen && (
+        <ScanDialog
+          open={isOpen}
+          onClose={() => setIsOpen(false)}
+          title="Scanner une étiquette"
+          description="Le QR code, le code-barres, le tag ou le numéro de série ouvre la fiche de l'équipement"
+          onScan={handleScan}
+        />
+      )}
+    </>
+  )
+}
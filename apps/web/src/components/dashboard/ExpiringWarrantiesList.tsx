@@ -0,0 +1,117 @@
+/** @fileoverview Liste du tableau de bord des garanties qui expirent dans les N prochains jours */
+import { useState } from 'react'
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { useNavigate } from 'react-router-dom'
+import { useExpiringWarranties } from '@/lib/hooks/useDashboard'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CheckCircle2, ShieldAlert } from 'lucide-react'
+import type { AssetItem } from '@/lib/types/models.types'
+import { formatDate } from '@/lib/utils/formatters'
+
+const MAX_ITEMS = 5
+const WINDOW_OPTIONS = [30, 60, 90]
+
+function getDaysLeft(item: AssetItem, now: Date): number {
+  return item.warrantyEndsAt ? differenceInCalendarDays(parseISO(item.warrantyEndsAt), now) : 0
+}
+
+export function ExpiringWarrantiesList() {
+  const navigate = useNavigate()
+  const [days, setDays] = useState(WINDOW_OPTIONS[0])
+  const { data, isLoading } = useExpiringWarranties(days, MAX_ITEMS)
+
+  const items = data?.data ?? []
+  const total = data?.pagination.totalItems ?? 0
+  const now = new Date()
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              Garanties expirant bientôt
+              {total > 0 && (
+                <Badge variant="secondary" className="gap-1">
+                  <ShieldAlert className="h-3 w-3" />
+                  {total}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>Fin de garantie la plus proche en premier</CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-[130px]" aria-label="Fenêtre d'expiration des garanties">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOW_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>{option} jours</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-600">
+              Aucune garantie n'expire dans les {days} prochains jours.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => {
+              const daysLeft = getDaysLeft(item, now)
+              return (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between p-3 rounded-lg border hover:bg-muted/50 transition-colors cursor-pointer"
+                  onClick={() => navigate('/assets/items')}
+                >
+                  <div className="flex-1">
+                    <p className="font-medium">
+                      {item.assetModel
+                        ? `${item.assetModel.brand} ${item.assetModel.modelName}`
+                        : 'Modèle inconnu'}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Tag: {item.assetTag}
+                      {item.supplier && ` · ${item.supplier.name}`}
+                      {item.invoiceNumber && ` · Facture ${item.invoiceNumber}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm">{formatDate(item.warrantyEndsAt)}</p>
+                    <p className={`text-xs ${daysLeft <= 7 ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                      {daysLeft <= 0 ? 'Aujourd\'hui' : `Dans ${daysLeft} j`}
+                    </p>
+                  </div>
+                </div>
+              )
+            })}
+            {total > items.length && (
+              <p className="text-xs text-center text-muted-foreground pt-2">
+                + {total - items.length} autre{total - items.length > 1 ? 's' : ''} garantie{total - items.length > 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
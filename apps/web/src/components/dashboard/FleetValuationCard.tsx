@@ -0,0 +1,141 @@
+/** @fileoverview Carte du tableau de bord de valorisation du parc (valeur comptable par type et departement) */
+import { useAuth } from '@/lib/hooks/useAuth'
+import { useFleetValuation } from '@/lib/hooks/useDashboard'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { UserRole } from '@/lib/types/enums'
+import type { ValuationTotals } from '@/lib/types/models.types'
+import { formatDate } from '@/lib/utils/formatters'
+import { formatCents } from '@/lib/utils/money'
+
+interface ValuationRow extends ValuationTotals {
+  key: string
+  label: string
+  detail?: string
+}
+
+function ValuationTable({ rows, labelHeader }: { rows: ValuationRow[]; labelHeader: string }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">Aucun équipement avec un prix d'achat</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{labelHeader}</TableHead>
+            <TableHead className="text-right">Équipements</TableHead>
+            <TableHead className="text-right">Valeur d'achat</TableHead>
+            <TableHead className="text-right">Valeur actuelle</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key}>
+              <TableCell>
+                <p className="font-medium">{row.label}</p>
+                {row.detail && <p className="text-xs text-muted-foreground">{row.detail}</p>}
+              </TableCell>
+              <TableCell className="text-right">{row.itemCount}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{formatCents(row.purchaseValueCents)}</TableCell>
+              <TableCell className="text-right whitespace-nowrap font-medium">{formatCents(row.currentValueCents)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+/**
+ * Valorisation du parc
+ *
+ * Réservée aux gestionnaires : la carte n'est pas affichée en lecture seule.
+ * Les départements sont affichés avec leur société ; les équipements non
+ * prêtés sont regroupés sous « Non affecté ».
+ */
+export function FleetValuationCard() {
+  const { user } = useAuth()
+  const isManager = user?.role === UserRole.ADMIN || user?.role === UserRole.GESTIONNAIRE
+  const { data: valuation, isLoading, error } = useFleetValuation(isManager)
+
+  if (!isManager) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Valorisation du parc</CardTitle>
+        <CardDescription>
+          Valeur comptable après amortissement linéaire
+          {valuation && ` au ${formatDate(valuation.valuedAt)}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error || !valuation ? (
+          <p className="text-sm text-destructive">Erreur lors du calcul de la valorisation</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Équipements valorisés</p>
+                <p className="text-2xl font-bold">{valuation.totals.itemCount}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Valeur d'achat</p>
+                <p className="text-2xl font-bold">{formatCents(valuation.totals.purchaseValueCents)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Valeur actuelle</p>
+                <p className="text-2xl font-bold text-primary">{formatCents(valuation.totals.currentValueCents)}</p>
+              </div>
+            </div>
+
+            <Tabs defaultValue="type">
+              <TabsList>
+                <TabsTrigger value="type">Par type</TabsTrigger>
+                <TabsTrigger value="department">Par département</TabsTrigger>
+              </TabsList>
+              <TabsContent value="type">
+                <ValuationTable
+                  labelHeader="Type"
+                  rows={valuation.byType.map((row) => ({
+                    ...row,
+                    key: row.type,
+                    label: row.type,
+                    detail: row.depreciationYears
+                      ? `Amorti sur ${row.depreciationYears} an${row.depreciationYears > 1 ? 's' : ''}`
+                      : 'Non amorti',
+                  }))}
+                />
+              </TabsContent>
+              <TabsContent value="department">
+                <ValuationTable
+                  labelHeader="Département"
+                  rows={valuation.byDepartment.map((row) => ({
+                    ...row,
+                    key: row.departmentId ?? '',
+                    label: row.department ?? 'Non affecté',
+                    detail: row.company ?? undefined,
+                  }))}
+                />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
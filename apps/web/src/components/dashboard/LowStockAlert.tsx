@@ -6,7 +6,6 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AlertTriangle, ArrowRight, Package } from 'lucide-react'
-import { LOW_STOCK_THRESHOLD } from '@/lib/utils/constants'
 
 export function LowStockAlert() {
   const navigate = useNavigate()
@@ -42,7 +41,7 @@ export function LowStockAlert() {
                 </Badge>
               )}
             </CardTitle>
-            <CardDescription>Articles avec stock {'<'} {LOW_STOCK_THRESHOLD}</CardDescription>
+            <CardDescription>Articles sous leur stock minimum</CardDescription>
           </div>
           <Button variant="ghost" size="sm" onClick={() => navigate('/stock')}>
             Voir tout
@@ -86,7 +85,7 @@ export function LowStockAlert() {
                     {item.availableQuantity}
                   </Badge>
                   <p className="text-xs text-muted-foreground mt-1">
-                    {item.itemType === 'stock' ? 'disponible' : 'en stock'}{item.availableQuantity > 1 ? 's' : ''}
+                    {item.itemType === 'stock' ? 'disponible' : 'en stock'}{item.availableQuantity > 1 ? 's' : ''} / min {item.minQuantity}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,118 @@
+/** @fileoverview Liste du tableau de bord des reparations en cours */
+import { useNavigate } from 'react-router-dom'
+import { useRepairTickets } from '@/lib/hooks/useRepairTickets'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ArrowRight, CheckCircle2, Clock, Wrench } from 'lucide-react'
+import { RepairTicketStatusLabels } from '@/lib/types/enums'
+import type { RepairTicket } from '@/lib/types/models.types'
+import { formatDate } from '@/lib/utils/formatters'
+
+const MAX_ITEMS = 5
+
+function isLate(ticket: RepairTicket, now: Date): boolean {
+  return !!ticket.expectedReturnAt && new Date(ticket.expectedReturnAt) < now
+}
+
+export function OpenRepairsList() {
+  const navigate = useNavigate()
+  const { data, isLoading } = useRepairTickets({ open: true, pageSize: MAX_ITEMS })
+
+  const tickets = data?.data ?? []
+  const total = data?.pagination.totalItems ?? 0
+  const now = new Date()
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Réparations en cours</CardTitle>
+          <CardDescription>Équipements chez un prestataire ou en diagnostic</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              Réparations en cours
+              {total > 0 && (
+                <Badge variant="secondary" className="gap-1">
+                  <Wrench className="h-3 w-3" />
+                  {total}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>Retours les plus proches en premier</CardDescription>
+          </div>
+          {total > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => navigate('/repairs')}>
+              Voir tout
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {tickets.length === 0 ? (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-600">
+              Aucune réparation en cours.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-3">
+            {tickets.map((ticket) => (
+              <div
+                key={ticket.id}
+                className="flex items-center justify-between p-3 rounded-lg border hover:bg-muted/50 transition-colors cursor-pointer"
+                onClick={() => navigate('/repairs')}
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <Wrench className="h-4 w-4 text-muted-foreground" />
+                    <p className="font-medium">
+                      {ticket.assetItem?.assetModel
+                        ? `${ticket.assetItem.assetModel.brand} ${ticket.assetItem.assetModel.modelName}`
+                        : 'Modèle inconnu'}
+                    </p>
+                  </div>
+                  <div className="mt-1 ml-6 space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      Tag: {ticket.assetItem?.assetTag ?? '-'}
+                      {ticket.vendor && ` · ${ticket.vendor}`}
+                    </p>
+                    <p className={`text-xs flex items-center gap-1 ${isLate(ticket, now) ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                      <Clock className="h-3 w-3" />
+                      {ticket.expectedReturnAt
+                        ? `Retour prévu le ${formatDate(ticket.expectedReturnAt)}${isLate(ticket, now) ? ' (en retard)' : ''}`
+                        : 'Retour non planifié'}
+                    </p>
+                  </div>
+                </div>
+                <Badge variant="outline">{RepairTicketStatusLabels[ticket.status]}</Badge>
+              </div>
+            ))}
+            {total > tickets.length && (
+              <p className="text-xs text-center text-muted-foreground pt-2">
+                + {total - tickets.length} autre{total - tickets.length > 1 ? 's' : ''} réparation{total - tickets.length > 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,102 @@
+/** @fileoverview Dialogue de creation / renommage d'une societe */
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { companySchema } from '@/lib/schemas/departments.schema'
+import type { CompanyFormData } from '@/lib/schemas/departments.schema'
+import { useCreateCompany, useUpdateCompany } from '@/lib/hooks/useCompanies'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { Company } from '@/lib/types/models.types'
+
+interface CompanyFormDialogProps {
+  company?: Company | null
+  open: boolean
+  onClose: () => void
+}
+
+/**
+ * Dialogue de société
+ *
+ * Le dialogue est monté à l'ouverture pour partir du nom de la société éditée.
+ */
+export function CompanyFormDialog({ company, open, onClose }: CompanyFormDialogProps) {
+  const createCompany = useCreateCompany()
+  const updateCompany = useUpdateCompany()
+  const isEditing = !!company
+  const isPending = createCompany.isPending || updateCompany.isPending
+
+  const form = useForm<CompanyFormData>({
+    resolver: zodResolver(companySchema),
+    defaultValues: { name: company?.name ?? '' },
+  })
+
+  const onSubmit = async (data: CompanyFormData) => {
+    const payload = { name: data.name.trim() }
+
+    try {
+      if (company) {
+        await updateCompany.mutateAsync({ id: company.id, data: payload })
+      } else {
+        await createCompany.mutateAsync(payload)
+      }
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Renommer la société' : 'Nouvelle société'}</DialogTitle>
+          <DialogDescription>
+            Société regroupant des départements (colonne « Société » de l'export RH)
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nom *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex : Groupe Tilly" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? 'Enregistrement...' : isEditing ? 'Enregistrer' : 'Créer'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Doublons de départements
+ *
+ * Groupes de départements d'une même société dont les noms ne diffèrent que
+ * par la casse, les accents, la ponctuation ou une faute de frappe
+ * ("Woippy" / "woipy"). Un ADMIN choisit le département conservé et ceux à
+ * fusionner : leurs employés y sont rattachés puis ils sont supprimés.
+ */
+import { useState } from 'react'
+import { CheckCircle2, Merge } from 'lucide-react'
+import { useDepartmentDuplicates, useMergeDepartments } from '@/lib/hooks/useDepartments'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import type { DepartmentDuplicateGroup } from '@/lib/types/models.types'
+
+interface DuplicateGroupCardProps {
+  group: DepartmentDuplicateGroup
+  canMerge: boolean
+}
+
+function DuplicateGroupCard({ group, canMerge }: DuplicateGroupCardProps) {
+  const mergeDepartments = useMergeDepartments()
+  const { confirm, dialogProps } = useConfirmDialog()
+  const [targetId, setTargetId] = useState(group.suggestedTargetId)
+  // Departments unchecked by the user: same spelling by chance, not merged
+  const [excludedIds, setExcludedIds] = useState<string[]>([])
+
+  const target = group.departments.find((department) => department.id === targetId)
+  const sources = group.departments.filter(
+    (department) => department.id !== targetId && !excludedIds.includes(department.id)
+  )
+
+  const toggleExcluded = (id: string, included: boolean) => {
+    setExcludedIds((ids) => (included ? ids.filter((excluded) => excluded !== id) : [...ids, id]))
+  }
+
+  const handleMerge = async () => {
+    if (!target || sources.length === 0) return
+    const movedEmployees = sources.reduce((total, source) => total + (source._count?.employees ?? 0), 0)
+    if (!await confirm({
+      title: 'Fusionner les départements',
+      description: `${sources.map((source) => `« ${source.name} »`).join(', ')} seront supprimés et leurs ${movedEmployees} employé(s) rattachés à « ${target.name} ».`,
+    })) return
+    try {
+      await mergeDepartments.mutateAsync({ id: target.id, sourceIds: sources.map((source) => source.id) })
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{target?.name}</CardTitle>
+        <CardDescription>
+          {target?.company?.name ?? 'Sans société'} · {group.departments.length} orthographes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <RadioGroup value={targetId} onValueChange={setTargetId} className="space-y-2">
+          {group.departments.map((department) => {
+            const isTarget = department.id === targetId
+            return (
+              <div key={department.id} className="flex items-center justify-between gap-4">
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value={department.id} id={`target-${department.id}`} disabled={!canMerge} />
+                  <Label htmlFor={`target-${department.id}`} className="font-normal cursor-pointer">
+                    {department.name}
+                    <span className="text-muted-foreground"> · {department._count?.employees ?? 0} employé(s)</span>
+                  </Label>
+                </div>
+                {canMerge && !isTarget && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`merge-${department.id}`}
+                      checked={!excludedIds.includes(department.id)}
+                      onCheckedChange={(checked) => toggleExcluded(department.id, checked === true)}
+                    />
+                    <Label htmlFor={`merge-${department.id}`} className="text-xs font-normal cursor-pointer">
+                      Fusionner
+                    </Label>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </RadioGroup>
+        {canMerge && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleMerge} disabled={sources.length === 0 || mergeDepartments.isPending}>
+              <Merge className="h-4 w-4 mr-2" />
+              Fusionner dans « {target?.name} »
+            </Button>
+          </div>
+        )}
+      </CardContent>
+      <ConfirmDialog {...dialogProps} />
+    </Card>
+  )
+}
+
+interface DepartmentDuplicatesPanelProps {
+  canMerge: boolean
+}
+
+export function DepartmentDuplicatesPanel({ canMerge }: DepartmentDuplicatesPanelProps) {
+  const { data: groups, isLoading, error } = useDepartmentDuplicates()
+
+  if (isLoading) {
+    return <p className="text-center text-muted-foreground py-8">Chargement...</p>
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive py-8">Erreur lors de la détection des doublons</p>
+  }
+
+  if (!groups || groups.length === 0) {
+    return (
+      <Alert>
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertDescription>Aucun doublon probable entre les départements.</AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {!canMerge && (
+        <p className="text-sm text-muted-foreground">La fusion des départements est réservée aux administrateurs.</p>
+      )}
+      {groups.map((group) => (
+        // Keyed on the members so a group changed by a merge starts from its new suggestion
+        <DuplicateGroupCard
+          key={group.departments.map((department) => department.id).join(':')}
+          group={group}
+          canMerge={canMerge}
+        />
+      ))}
+    </div>
+  )
+}
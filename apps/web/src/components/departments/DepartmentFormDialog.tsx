@@ -0,0 +1,146 @@
+/** @fileoverview Dialogue de creation / modification d'un departement */
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { departmentSchema } from '@/lib/schemas/departments.schema'
+import type { DepartmentFormData } from '@/lib/schemas/departments.schema'
+import { useCreateDepartment, useUpdateDepartment } from '@/lib/hooks/useDepartments'
+import { useCompanies } from '@/lib/hooks/useCompanies'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { Department } from '@/lib/types/models.types'
+
+const NO_COMPANY = 'none'
+
+interface DepartmentFormDialogProps {
+  department?: Department | null
+  open: boolean
+  onClose: () => void
+}
+
+/**
+ * Dialogue de département
+ *
+ * Un renommage est répercuté par l'API sur les employés du département.
+ * Le dialogue est monté à l'ouverture pour partir des valeurs du département édité.
+ */
+export function DepartmentFormDialog({ department, open, onClose }: DepartmentFormDialogProps) {
+  const createDepartment = useCreateDepartment()
+  const updateDepartment = useUpdateDepartment()
+  const { data: companies = [] } = useCompanies()
+  const isEditing = !!department
+  const isPending = createDepartment.isPending || updateDepartment.isPending
+
+  const form = useForm<DepartmentFormData>({
+    resolver: zodResolver(departmentSchema),
+    defaultValues: {
+      name: department?.name ?? '',
+      companyId: department?.companyId ?? NO_COMPANY,
+    },
+  })
+
+  const onSubmit = async (data: DepartmentFormData) => {
+    const payload = {
+      name: data.name.trim(),
+      companyId: data.companyId !== NO_COMPANY ? data.companyId : null,
+    }
+
+    try {
+      if (department) {
+        await updateDepartment.mutateAsync({ id: department.id, data: payload })
+      } else {
+        await createDepartment.mutateAsync(payload)
+      }
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Modifier le département' : 'Nouveau département'}</DialogTitle>
+          <DialogDescription>
+            Département ou agence auquel les employés sont rattachés
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nom *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex : Woippy" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="companyId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Société</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || NO_COMPANY}>
+                    <FormControl>
+                      <SelectTrigger aria-label="Société">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_COMPANY}>Aucune</SelectItem>
+                      {companies.map((company) => (
+                        <SelectItem key={company.id} value={company.id}>
+                          {company.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? 'Enregistrement...' : isEditing ? 'Enregistrer' : 'Créer'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
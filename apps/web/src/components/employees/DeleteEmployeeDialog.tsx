@@ -1,4 +1,4 @@
-/** @fileoverview Dialogue de confirmation de suppression d'un employe */
+/** @fileoverview Dialogue de confirmation de purge d'un employe sans historique (ADMIN) */
 import type { Employee } from '@/lib/types/models.types'
 import { formatFullName } from '@/lib/utils/formatters'
 import { useDeleteEmployee } from '@/lib/hooks/useEmployees'
@@ -40,9 +40,10 @@ export function DeleteEmployeeDialog({ employee, open, onClose }: DeleteEmployee
         <DialogHeader>
           <DialogTitle>Supprimer l'employé</DialogTitle>
           <DialogDescription>
-            Êtes-vous sûr de vouloir supprimer l'employé{' '}
+            Êtes-vous sûr de vouloir supprimer définitivement l'employé{' '}
             <strong>{formatFullName(employee.firstName, employee.lastName)}</strong> ?
-            Cette action est irréversible.
+            Cette action est irréversible et réservée aux fiches créées par erreur, sans
+            aucun prêt ni réservation. Pour un départ, archivez plutôt l'employé.
           </DialogDescription>
         </DialogHeader>
         <DialogFooter>
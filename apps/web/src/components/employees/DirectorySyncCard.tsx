@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Synchronisation des employés avec l'annuaire d'entreprise
+ *
+ * Paramètres LDAP définis côté serveur, planification et résultat de la
+ * dernière exécution (créés, mis à jour, désactivés). La synchronisation
+ * peut aussi être lancée immédiatement.
+ */
+import { Loader2, RefreshCw } from 'lucide-react'
+import { useDirectorySync, useRunDirectorySync } from '@/lib/hooks/useDirectorySync'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatDateTime } from '@/lib/utils/formatters'
+
+// Errors listed under the last run, the others are only counted
+const MAX_DISPLAYED_ERRORS = 5
+
+export function DirectorySyncCard() {
+  const { data: status, isLoading, error } = useDirectorySync()
+  const runSync = useRunDirectorySync()
+  const { confirm, dialogProps } = useConfirmDialog()
+
+  const handleRun = async () => {
+    if (!await confirm({
+      title: 'Synchroniser avec l\'annuaire',
+      description: 'Les employés de l\'annuaire seront créés ou mis à jour. Les comptes désactivés seront archivés, ou leur départ ouvert s\'ils ont encore du matériel en prêt.',
+    })) return
+
+    try {
+      await runSync.mutateAsync()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  if (isLoading) return null
+
+  const lastRun = status?.job.history[0]
+  const isRunning = runSync.isPending || !!status?.job.running
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Annuaire d'entreprise (LDAP)</CardTitle>
+          <CardDescription>
+            {error
+              ? 'Erreur lors du chargement de la configuration de l\'annuaire'
+              : status?.configured
+                ? `${status.url} · ${status.baseDn ?? 'base de recherche non définie'}`
+                : 'Non configuré : renseignez LDAP_URL et LDAP_BASE_DN côté serveur pour synchroniser les employés avec l\'annuaire.'}
+          </CardDescription>
+        </div>
+        {status?.configured && (
+          <Button variant="outline" onClick={handleRun} disabled={isRunning} className="whitespace-nowrap">
+            {isRunning ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Synchroniser maintenant
+          </Button>
+        )}
+      </CardHeader>
+
+      {status?.configured && (
+        <CardContent className="space-y-2 text-sm">
+          <p className="text-muted-foreground">
+            Planification : <code>{status.job.schedule}</code>
+            {status.job.nextRunAt && ` · prochaine exécution le ${formatDateTime(status.job.nextRunAt)}`}
+          </p>
+
+          {lastRun ? (
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span>Dernière synchronisation le {formatDateTime(lastRun.startedAt)}</span>
+                <Badge variant={lastRun.status === 'SUCCESS' ? 'secondary' : 'destructive'}>
+                  {lastRun.status === 'SUCCESS' ? 'Réussie' : 'Échouée'}
+                </Badge>
+                <span className="text-muted-foreground">{lastRun.trigger === 'manual' ? 'manuelle' : 'planifiée'}</span>
+              </div>
+              {lastRun.result && (
+                <p>
+                  {lastRun.result.entries} compte(s) lu(s) · {lastRun.result.created} créé(s) · {lastRun.result.updated} mis à jour · {lastRun.result.disabled} désactivé(s)
+                  {!!lastRun.result.archived && ` · ${lastRun.result.archived} archivé(s) dans l'application, non réactivé(s)`}
+                </p>
+              )}
+              {lastRun.error && <p className="text-destructive">{lastRun.error}</p>}
+              {lastRun.result && lastRun.result.errorCount > 0 && (
+                <ul className="text-destructive space-y-0.5">
+                  {lastRun.result.errors.slice(0, MAX_DISPLAYED_ERRORS).map((entryError, index) => (
+                    <li key={index}>{entryError.email ?? entryError.dn} : {entryError.error}</li>
+                  ))}
+                  {lastRun.result.errorCount > MAX_DISPLAYED_ERRORS && (
+                    <li>… et {lastRun.result.errorCount - MAX_DISPLAYED_ERRORS} autre(s) erreur(s)</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">Aucune synchronisation pour le moment</p>
+          )}
+        </CardContent>
+      )}
+
+      <ConfirmDialog {...dialogProps} />
+    </Card>
+  )
+}
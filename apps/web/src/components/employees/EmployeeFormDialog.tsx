@@ -6,6 +6,7 @@ import type { Employee } from '@/lib/types/models.types'
 import { createEmployeeSchema, updateEmployeeSchema } from '@/lib/schemas/employees.schema'
 import type { CreateEmployeeFormData, UpdateEmployeeFormData } from '@/lib/schemas/employees.schema'
 import { useCreateEmployee, useUpdateEmployee } from '@/lib/hooks/useEmployees'
+import { useDepartments } from '@/lib/hooks/useDepartments'
 import {
   Dialog,
   DialogContent,
@@ -21,9 +22,18 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 
+const NO_DEPARTMENT = 'none'
+
 interface EmployeeFormDialogProps {
   employee?: Employee | null
   open: boolean
@@ -34,6 +44,12 @@ export function EmployeeFormDialog({ employee, open, onClose }: EmployeeFormDial
   const isEdit = !!employee
   const createEmployee = useCreateEmployee()
   const updateEmployee = useUpdateEmployee()
+  const { data: departments = [] } = useDepartments()
+
+  // The employee's department stays selectable while the list loads
+  const departmentOptions = employee?.department && !departments.some((d) => d.id === employee.department?.id)
+    ? [employee.department, ...departments]
+    : departments
 
   const form = useForm<CreateEmployeeFormData | UpdateEmployeeFormData>({
     resolver: zodResolver(isEdit ? updateEmployeeSchema : createEmployeeSchema),
@@ -41,7 +57,7 @@ export function EmployeeFormDialog({ employee, open, onClose }: EmployeeFormDial
       firstName: '',
       lastName: '',
       email: '',
-      dept: '',
+      departmentId: NO_DEPARTMENT,
     },
   })
 
@@ -51,24 +67,25 @@ export function EmployeeFormDialog({ employee, open, onClose }: EmployeeFormDial
         firstName: employee.firstName,
         lastName: employee.lastName,
         email: employee.email,
-        dept: employee.dept || '',
+        departmentId: employee.departmentId || NO_DEPARTMENT,
       })
     } else {
       form.reset({
         firstName: '',
         lastName: '',
         email: '',
-        dept: '',
+        departmentId: NO_DEPARTMENT,
       })
     }
   }, [employee, form])
 
   const onSubmit = async (data: CreateEmployeeFormData | UpdateEmployeeFormData) => {
+    const departmentId = data.departmentId && data.departmentId !== NO_DEPARTMENT ? data.departmentId : null
     try {
       if (isEdit && employee) {
-        await updateEmployee.mutateAsync({ id: employee.id, data: data as UpdateEmployeeFormData })
+        await updateEmployee.mutateAsync({ id: employee.id, data: { ...(data as UpdateEmployeeFormData), departmentId } })
       } else {
-        await createEmployee.mutateAsync(data as CreateEmployeeFormData)
+        await createEmployee.mutateAsync({ ...(data as CreateEmployeeFormData), departmentId })
       }
       onClose()
     } catch (_error) {
@@ -136,13 +153,25 @@ export function EmployeeFormDialog({ employee, open, onClose }: EmployeeFormDial
 
             <FormField
               control={form.control}
-              name="dept"
+              name="departmentId"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Département (optionnel)</FormLabel>
-                  <FormControl>
-                    <Input placeholder="Informatique" {...field} value={field.value || ''} />
-                  </FormControl>
+                  <Select onValueChange={field.onChange} value={field.value || NO_DEPARTMENT}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_DEPARTMENT}>Aucun</SelectItem>
+                      {departmentOptions.map((department) => (
+                        <SelectItem key={department.id} value={department.id}>
+                          {department.company ? `${department.name} (${department.company.name})` : department.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <FormMessage />
                 </FormItem>
               )}
@@ -0,0 +1,122 @@
+/** @fileoverview Dialogue du rapport d'une synchronisation RH appliquée */
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useEmployeeImport } from '@/lib/hooks/useEmployeeImports'
+import { formatDateTime } from '@/lib/utils/formatters'
+import {
+  EmployeeImportEntryTypeLabels,
+  EmployeeImportOutcomeLabels,
+  formatImportChange,
+} from '@/lib/utils/employeeImports'
+import type { EmployeeImportEntry } from '@/lib/types/models.types'
+
+function describeEntry(entry: EmployeeImportEntry): string {
+  if (entry.type === 'CHANGED') return entry.changes.map(formatImportChange).join(' · ')
+  if (entry.type === 'NEW') return [entry.data?.dept, entry.data?.company, entry.data?.email].filter(Boolean).join(' · ')
+  return entry.dept ?? ''
+}
+
+interface EmployeeImportReportDialogProps {
+  importId: string
+  open: boolean
+  onClose: () => void
+}
+
+export function EmployeeImportReportDialog({ importId, open, onClose }: EmployeeImportReportDialogProps) {
+  const { data: report, isLoading, error } = useEmployeeImport(importId)
+  const entries = report?.report
+    ? [
+        ...report.report.applied,
+        ...report.report.rejected,
+      ]
+    : []
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rapport de synchronisation</DialogTitle>
+          <DialogDescription>
+            {report ? `${report.fileName} · ${formatDateTime(report.createdAt)} · ${report.createdBy?.email ?? 'Utilisateur supprimé'}` : 'Chargement...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Chargement...</p>
+        ) : error || !report ? (
+          <p className="text-center text-destructive py-8">Erreur lors du chargement du rapport</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">
+              {report.totalRows} ligne(s) · {report.createdCount} créé(s) · {report.updatedCount} mis à jour ·{' '}
+              {report.archivedCount} archivé(s) · {report.offboardingCount} départ(s) ouvert(s) ·{' '}
+              {report.rejectedCount} écarté(s) · {report.errorCount} ligne(s) en erreur
+            </p>
+
+            <div className="border rounded-lg overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employé</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Détail</TableHead>
+                    <TableHead>Résultat</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground py-8">Aucune différence</TableCell>
+                    </TableRow>
+                  ) : (
+                    entries.map((entry) => (
+                      <TableRow key={entry.key}>
+                        <TableCell className="font-medium">{entry.name}</TableCell>
+                        <TableCell className="text-sm">{EmployeeImportEntryTypeLabels[entry.type]}</TableCell>
+                        <TableCell className="text-sm">{describeEntry(entry)}</TableCell>
+                        <TableCell>
+                          {entry.outcome ? (
+                            <Badge variant="secondary">{EmployeeImportOutcomeLabels[entry.outcome]}</Badge>
+                          ) : (
+                            <Badge variant="outline">Écarté</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {report.report && report.report.errors.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold mb-2">Lignes en erreur</h3>
+                <ul className="text-sm space-y-1 text-muted-foreground">
+                  {report.report.errors.map((rowError) => (
+                    <li key={rowError.rowNumber}>
+                      Ligne {rowError.rowNumber} - {rowError.name} : {rowError.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Revue des différences d'une synchronisation RH
+ *
+ * Différences calculées par le serveur entre le fichier RH et la base des
+ * employés, regroupées par type (nouveaux, modifiés, absents du fichier).
+ * Chaque ligne est acceptée ou écartée individuellement avant l'application ;
+ * les lignes inexploitables du fichier sont listées à part.
+ */
+import { AlertCircle } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { EmployeeImportEntryTypeLabels, formatImportChange } from '@/lib/utils/employeeImports'
+import type { EmployeeImportEntry, EmployeeImportEntryType, EmployeeImportPreview } from '@/lib/types/models.types'
+
+const ENTRY_TYPES: EmployeeImportEntryType[] = ['NEW', 'CHANGED', 'MISSING']
+
+function EntryDetails({ entry }: { entry: EmployeeImportEntry }) {
+  if (entry.type === 'NEW') {
+    const { data } = entry
+    const department = data?.dept ? [data.dept, data.company].filter(Boolean).join(' · ') : 'Sans département'
+    return (
+      <span className="text-sm text-muted-foreground">
+        {department}
+        {data?.email && ` · ${data.email}`}
+      </span>
+    )
+  }
+
+  if (entry.type === 'CHANGED') {
+    return (
+      <ul className="text-sm space-y-0.5">
+        {entry.changes.map((change) => (
+          <li key={change.field}>{formatImportChange(change)}</li>
+        ))}
+      </ul>
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-muted-foreground">{entry.dept || 'Sans département'}</span>
+      {entry.outstandingLines ? (
+        <Badge variant="destructive">{entry.outstandingLines} article(s) en prêt : départ ouvert</Badge>
+      ) : (
+        <Badge variant="outline">Sera archivé</Badge>
+      )}
+    </div>
+  )
+}
+
+interface EmployeeSyncReviewProps {
+  preview: EmployeeImportPreview
+  acceptedKeys: string[]
+  onAcceptedKeysChange: (keys: string[]) => void
+  disabled?: boolean
+}
+
+export function EmployeeSyncReview({ preview, acceptedKeys, onAcceptedKeysChange, disabled = false }: EmployeeSyncReviewProps) {
+  const isAccepted = (key: string) => acceptedKeys.includes(key)
+
+  const toggle = (keys: string[], accepted: boolean) => {
+    const others = acceptedKeys.filter((key) => !keys.includes(key))
+    onAcceptedKeysChange(accepted ? [...others, ...keys] : others)
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {preview.totalRows} ligne(s) lue(s) · {preview.summary.unchanged} employé(s) déjà à jour
+      </p>
+
+      {preview.entries.length === 0 && (
+        <Alert>
+          <AlertDescription>La base des employés est alignée sur le fichier RH.</AlertDescription>
+        </Alert>
+      )}
+
+      {ENTRY_TYPES.map((type) => {
+        const entries = preview.entries.filter((entry) => entry.type === type)
+        if (entries.length === 0) return null
+
+        const keys = entries.map((entry) => entry.key)
+        const acceptedCount = keys.filter(isAccepted).length
+
+        return (
+          <Card key={type}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">
+                {EmployeeImportEntryTypeLabels[type]} ({acceptedCount}/{entries.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={acceptedCount === entries.length}
+                        onCheckedChange={(checked) => toggle(keys, checked === true)}
+                        disabled={disabled}
+                        aria-label={`Tout accepter : ${EmployeeImportEntryTypeLabels[type]}`}
+                      />
+                    </TableHead>
+                    <TableHead className="w-16">Ligne</TableHead>
+                    <TableHead>Employé</TableHead>
+                    <TableHead>Détail</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.key}>
+                      <TableCell>
+                        <Checkbox
+                          checked={isAccepted(entry.key)}
+                          onCheckedChange={(checked) => toggle([entry.key], checked === true)}
+                          disabled={disabled}
+                          aria-label={`Accepter ${entry.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{entry.rowNumber ?? '-'}</TableCell>
+                      <TableCell className="font-medium">{entry.name}</TableCell>
+                      <TableCell>
+                        <EntryDetails entry={entry} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      {preview.errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="font-semibold mb-2">{preview.errors.length} ligne(s) ignorée(s)</div>
+            <ul className="space-y-1 text-sm">
+              {preview.errors.map((error) => (
+                <li key={error.rowNumber}>
+                  Ligne {error.rowNumber} - {error.name} : {error.error}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
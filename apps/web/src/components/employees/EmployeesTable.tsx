@@ -1,4 +1,4 @@
-/** @fileoverview Tableau des employes avec tri, pagination et actions CRUD en ligne */
+/** @fileoverview Tableau des employes avec tri, pagination, actions CRUD, depart et archivage en ligne */
 import { useState, useMemo, useCallback, memo, lazy, Suspense } from 'react'
 import type { Employee } from '@/lib/types/models.types'
 import { formatDate, formatFullName } from '@/lib/utils/formatters'
@@ -13,11 +13,17 @@ import {
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Card } from '@/components/ui/card'
-import { Pencil, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Archive, ArchiveRestore, Pencil, Trash2, UserMinus } from 'lucide-react'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { useArchiveEmployee, useUnarchiveEmployee } from '@/lib/hooks/useEmployees'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { useAuth } from '@/lib/hooks/useAuth'
 
 // Lazy load dialogs
 const EmployeeFormDialog = lazy(() => import('./EmployeeFormDialog').then(m => ({ default: m.EmployeeFormDialog })))
 const DeleteEmployeeDialog = lazy(() => import('./DeleteEmployeeDialog').then(m => ({ default: m.DeleteEmployeeDialog })))
+const OffboardingDialog = lazy(() => import('./OffboardingDialog').then(m => ({ default: m.OffboardingDialog })))
 import { useMediaQuery } from '@/lib/hooks/useMediaQuery'
 
 interface EmployeesTableProps {
@@ -26,6 +32,17 @@ interface EmployeesTableProps {
   onSelectionChange?: (selectedIds: string[]) => void
 }
 
+// Departure status: pending offboarding or departed (archived)
+function DepartureBadge({ employee }: { employee: Employee }) {
+  if (employee.archivedAt) {
+    return <Badge variant="secondary">Parti</Badge>
+  }
+  if (employee.departureDate) {
+    return <Badge variant="outline">Départ le {formatDate(employee.departureDate)}</Badge>
+  }
+  return null
+}
+
 // Memoized Employee Row Component for Desktop
 interface EmployeeRowProps {
   employee: Employee
@@ -33,6 +50,10 @@ interface EmployeeRowProps {
   onSelect: (employeeId: string, checked: boolean) => void
   onEdit: (employee: Employee) => void
   onDelete: (employee: Employee) => void
+  onOffboard: (employee: Employee) => void
+  onArchive: (employee: Employee) => void
+  onUnarchive: (employee: Employee) => void
+  canPurge: boolean
   showCheckbox: boolean
 }
 
@@ -42,6 +63,10 @@ const EmployeeRow = memo(({
   onSelect,
   onEdit,
   onDelete,
+  onOffboard,
+  onArchive,
+  onUnarchive,
+  canPurge,
   showCheckbox
 }: EmployeeRowProps) => {
   return (
@@ -56,10 +81,18 @@ const EmployeeRow = memo(({
         </TableCell>
       )}
       <TableCell className="font-medium">
-        {formatFullName(employee.firstName, employee.lastName)}
+        <div className="flex items-center gap-2">
+          {formatFullName(employee.firstName, employee.lastName)}
+          <DepartureBadge employee={employee} />
+        </div>
       </TableCell>
       <TableCell>{employee.email}</TableCell>
-      <TableCell>{employee.dept || '-'}</TableCell>
+      <TableCell>
+        {employee.dept || '-'}
+        {employee.department?.company && (
+          <div className="text-xs text-muted-foreground">{employee.department.company.name}</div>
+        )}
+      </TableCell>
       <TableCell>{formatDate(employee.createdAt)}</TableCell>
       <TableCell className="text-right">
         <div className="flex gap-2 justify-end">
@@ -70,13 +103,44 @@ const EmployeeRow = memo(({
           >
             <Pencil className="h-4 w-4" />
           </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => onDelete(employee)}
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          {employee.archivedAt ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onUnarchive(employee)}
+              aria-label={`Réactiver ${formatFullName(employee.firstName, employee.lastName)}`}
+            >
+              <ArchiveRestore className="h-4 w-4" />
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onOffboard(employee)}
+                aria-label={`Départ de ${formatFullName(employee.firstName, employee.lastName)}`}
+              >
+                <UserMinus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onArchive(employee)}
+                aria-label={`Archiver ${formatFullName(employee.firstName, employee.lastName)}`}
+              >
+                <Archive className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {canPurge && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(employee)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </TableCell>
     </TableRow>
@@ -92,6 +156,10 @@ interface EmployeeCardProps {
   onSelect: (employeeId: string, checked: boolean) => void
   onEdit: (employee: Employee) => void
   onDelete: (employee: Employee) => void
+  onOffboard: (employee: Employee) => void
+  onArchive: (employee: Employee) => void
+  onUnarchive: (employee: Employee) => void
+  canPurge: boolean
   showCheckbox: boolean
 }
 
@@ -101,6 +169,10 @@ const EmployeeCard = memo(({
   onSelect,
   onEdit,
   onDelete,
+  onOffboard,
+  onArchive,
+  onUnarchive,
+  canPurge,
   showCheckbox
 }: EmployeeCardProps) => {
   return (
@@ -118,9 +190,12 @@ const EmployeeCard = memo(({
               />
             )}
             <div className="flex-1">
-              <p className="font-semibold text-base">
-                {formatFullName(employee.firstName, employee.lastName)}
-              </p>
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="font-semibold text-base">
+                  {formatFullName(employee.firstName, employee.lastName)}
+                </p>
+                <DepartureBadge employee={employee} />
+              </div>
               <p className="text-sm text-muted-foreground mt-1">{employee.email}</p>
             </div>
           </div>
@@ -131,6 +206,9 @@ const EmployeeCard = memo(({
           <div>
             <span className="text-muted-foreground">Département</span>
             <p className="font-medium">{employee.dept || '-'}</p>
+            {employee.department?.company && (
+              <p className="text-xs text-muted-foreground">{employee.department.company.name}</p>
+            )}
           </div>
           <div>
             <span className="text-muted-foreground">Créé le</span>
@@ -149,15 +227,49 @@ const EmployeeCard = memo(({
             <Pencil className="h-4 w-4 mr-2" />
             Modifier
           </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            className="flex-1"
-            onClick={() => onDelete(employee)}
-          >
-            <Trash2 className="h-4 w-4 mr-2" />
-            Supprimer
-          </Button>
+          {employee.archivedAt ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={() => onUnarchive(employee)}
+            >
+              <ArchiveRestore className="h-4 w-4 mr-2" />
+              Réactiver
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => onOffboard(employee)}
+              >
+                <UserMinus className="h-4 w-4 mr-2" />
+                Départ
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => onArchive(employee)}
+              >
+                <Archive className="h-4 w-4 mr-2" />
+                Archiver
+              </Button>
+            </>
+          )}
+          {canPurge && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={() => onDelete(employee)}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Supprimer
+            </Button>
+          )}
         </div>
       </div>
     </Card>
@@ -173,7 +285,13 @@ function EmployeesTableComponent({
 }: EmployeesTableProps) {
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null)
   const [deletingEmployee, setDeletingEmployee] = useState<Employee | null>(null)
+  const [offboardingEmployee, setOffboardingEmployee] = useState<Employee | null>(null)
   const { isMobile } = useMediaQuery()
+  const { user } = useAuth()
+  const canPurge = user?.role === 'ADMIN'
+  const { mutate: archiveEmployee } = useArchiveEmployee()
+  const { mutate: unarchiveEmployee } = useUnarchiveEmployee()
+  const { confirm, dialogProps } = useConfirmDialog()
 
   // Memoized calculations
   const isAllSelected = useMemo(
@@ -210,6 +328,22 @@ function EmployeesTableComponent({
     setDeletingEmployee(employee)
   }, [])
 
+  const handleOffboard = useCallback((employee: Employee) => {
+    setOffboardingEmployee(employee)
+  }, [])
+
+  const handleArchive = useCallback(async (employee: Employee) => {
+    if (!await confirm({
+      title: 'Archiver l\'employé',
+      description: `${formatFullName(employee.firstName, employee.lastName)} ne sera plus proposé(e) dans les prêts. Son historique est conservé et l'employé pourra être réactivé.`,
+    })) return
+    archiveEmployee(employee.id)
+  }, [confirm, archiveEmployee])
+
+  const handleUnarchive = useCallback((employee: Employee) => {
+    unarchiveEmployee(employee.id)
+  }, [unarchiveEmployee])
+
   const handleCloseEdit = useCallback(() => {
     setEditingEmployee(null)
   }, [])
@@ -218,6 +352,10 @@ function EmployeesTableComponent({
     setDeletingEmployee(null)
   }, [])
 
+  const handleCloseOffboarding = useCallback(() => {
+    setOffboardingEmployee(null)
+  }, [])
+
   // Vue mobile - Cards empilées
   if (isMobile) {
     if (employees.length === 0) {
@@ -255,6 +393,10 @@ function EmployeesTableComponent({
               onSelect={handleSelectEmployee}
               onEdit={handleEdit}
               onDelete={handleDelete}
+              onOffboard={handleOffboard}
+              onArchive={handleArchive}
+              onUnarchive={handleUnarchive}
+              canPurge={canPurge}
               showCheckbox={!!onSelectionChange}
             />
           ))}
@@ -275,6 +417,18 @@ function EmployeesTableComponent({
             onClose={handleCloseDelete}
           />
         </Suspense>
+
+        {offboardingEmployee && (
+          <Suspense fallback={null}>
+            <OffboardingDialog
+              employee={offboardingEmployee}
+              open={!!offboardingEmployee}
+              onClose={handleCloseOffboarding}
+            />
+          </Suspense>
+        )}
+
+        <ConfirmDialog {...dialogProps} />
       </>
     )
   }
@@ -318,6 +472,10 @@ function EmployeesTableComponent({
                 onSelect={handleSelectEmployee}
                 onEdit={handleEdit}
                 onDelete={handleDelete}
+                onOffboard={handleOffboard}
+                onArchive={handleArchive}
+                onUnarchive={handleUnarchive}
+                canPurge={canPurge}
                 showCheckbox={!!onSelectionChange}
               />
             ))
@@ -341,6 +499,18 @@ function EmployeesTableComponent({
           onClose={handleCloseDelete}
         />
       </Suspense>
+
+      {offboardingEmployee && (
+        <Suspense fallback={null}>
+          <OffboardingDialog
+            employee={offboardingEmployee}
+            open={!!offboardingEmployee}
+            onClose={handleCloseOffboarding}
+          />
+        </Suspense>
+      )}
+
+      <ConfirmDialog {...dialogProps} />
     </>
   )
 }
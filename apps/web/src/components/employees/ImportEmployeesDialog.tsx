@@ -6,6 +6,7 @@
  * - Bulk employee creation from spreadsheet data
  * - Email generation (prenom.nom@groupetilly.com)
  * - Duplicate detection (skips existing emails)
+ * - Department / company linking (Agence / Société matched or created by the API)
  * - Error reporting with row numbers and details
  * - Import result summary (success, skipped, errors)
  *
@@ -33,7 +34,6 @@
  */
 import { useState } from 'react'
 import { useQueryClient } from '@tanstack/react-query'
-// Dynamic import: exceljs loaded only when import button clicked
 import {
   Dialog,
   DialogContent,
@@ -48,6 +48,8 @@ import { useToast } from '@/lib/hooks/use-toast'
 import { getErrorMessage } from '@/lib/utils/getErrorMessage'
 import { useEmployees } from '@/lib/hooks/useEmployees'
 import { bulkCreateEmployeesApi } from '@/lib/api/employees.api'
+import { readEmployeeFile } from '@/lib/utils/employeeFile'
+import type { ImportEmployeeDto } from '@/lib/types/models.types'
 import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, Loader2, Info } from 'lucide-react'
 
 /**
@@ -62,27 +64,6 @@ interface ImportEmployeesDialogProps {
   onClose: () => void
 }
 
-/**
- * Excel row structure for employee import
- *
- * Matches expected column headers in the Excel file.
- * All fields are optional in TypeScript but Nom and Prénom are validated as required.
- *
- * @interface EmployeeRow
- */
-interface EmployeeRow {
-  /** Company name (optional, not used in current implementation) */
-  Société?: string
-  /** Department/Agency name (maps to dept field) */
-  Agence?: string
-  /** Title/Civility (Mr/Mme/Mlle, optional, not used) */
-  Civilité?: string
-  /** Last name (required for employee creation) */
-  Nom?: string
-  /** First name (required for employee creation) */
-  Prénom?: string
-}
-
 /**
  * Result of bulk import operation
  *
@@ -172,41 +153,8 @@ export function ImportEmployeesDialog({ open, onClose }: ImportEmployeesDialogPr
     const importResult: ImportResult = { success: 0, skipped: 0, errors: [] }
 
     try {
-      // Dynamically import exceljs library (only loaded when needed)
-      const ExcelJS = await import('exceljs')
-
-      // Read Excel file
-      const buffer = await file.arrayBuffer()
-      const workbook = new ExcelJS.Workbook()
-      await workbook.xlsx.load(buffer)
-
-      // Get first worksheet
-      const worksheet = workbook.worksheets[0]
-      if (!worksheet) {
-        throw new Error('Aucune feuille trouvée dans le fichier Excel')
-      }
-
-      // Extract column headers from first row
-      const headerRow = worksheet.getRow(1)
-      const headers: string[] = []
-      headerRow.eachCell((cell, colNumber) => {
-        headers[colNumber] = cell.value?.toString() || ''
-      })
-
-      // Parse rows into EmployeeRow objects
-      const rows: EmployeeRow[] = []
-      worksheet.eachRow((row, rowNumber) => {
-        if (rowNumber === 1) return // Skip header row
-
-        const rowData: EmployeeRow = {}
-        row.eachCell((cell, colNumber) => {
-          const header = headers[colNumber]
-          if (header && cell.value) {
-            rowData[header as keyof EmployeeRow] = cell.value.toString()
-          }
-        })
-        rows.push(rowData)
-      })
+      // Parse the first worksheet (exceljs loaded on demand)
+      const rows = await readEmployeeFile(file)
 
       // Build set of existing emails for fast lookup
       const existingEmails = new Set(
@@ -214,16 +162,10 @@ export function ImportEmployeesDialog({ open, onClose }: ImportEmployeesDialogPr
       )
 
       // Validate all rows and prepare employees for bulk creation
-      const employeesToCreate: Array<{
-        firstName: string
-        lastName: string
-        email: string
-        dept?: string
-      }> = []
+      const employeesToCreate: ImportEmployeeDto[] = []
 
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i]
-        const rowNumber = i + 2 // +2 because Excel starts at 1 and has header row
+      for (const row of rows) {
+        const { rowNumber } = row
 
         // Validate required fields
         if (!row.Nom || !row.Prénom) {
@@ -252,6 +194,7 @@ export function ImportEmployeesDialog({ open, onClose }: ImportEmployeesDialogPr
           lastName: row.Nom.trim(),
           email: email,
           dept: row.Agence?.trim() || undefined,
+          company: row.Société?.trim() || undefined,
         })
       }
 
@@ -404,8 +347,8 @@ export function ImportEmployeesDialog({ open, onClose }: ImportEmployeesDialogPr
               <div className="text-sm">
                 <strong>Format du fichier Excel:</strong>
                 <ul className="mt-2 space-y-1 list-disc list-inside">
-                  <li><strong>Société</strong> - Nom de la société (optionnel)</li>
-                  <li><strong>Agence</strong> - Département/Agence de l'employé</li>
+                  <li><strong>Société</strong> - Société du département (optionnel)</li>
+                  <li><strong>Agence</strong> - Département/Agence de l'employé, rapproché des départements existants</li>
                   <li><strong>Civilité</strong> - Mr/Mme/Mlle (optionnel)</li>
                   <li><strong>Nom</strong> - Nom de famille (requis)</li>
                   <li><strong>Prénom</strong> - Prénom (requis)</li>
@@ -0,0 +1,325 @@
+/** @fileoverview Dialogue de depart d'un employe : date de depart et checklist du materiel a recuperer */
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { EmployeeAutocomplete } from '@/components/common/EmployeeAutocomplete'
+import { ArrowRightLeft, CheckCircle2, PackageX, Undo2, UserMinus } from 'lucide-react'
+import {
+  useEmployeeOffboarding,
+  useStartOffboarding,
+  useCancelOffboarding,
+  useCompleteOffboarding,
+} from '@/lib/hooks/useEmployees'
+import { useReturnLoanLine, useTransferLoanLines, useWriteOffLoanLine } from '@/lib/hooks/useLoans'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { DisposalReason, DisposalReasonLabels } from '@/lib/types/enums'
+import { formatDate, formatFullName } from '@/lib/utils/formatters'
+import { toDateInputValue } from '@/lib/utils/loanDueDates'
+import type { AutocompleteEmployee } from '@/lib/api/search.api'
+import type { Employee, OffboardingLine } from '@/lib/types/models.types'
+
+interface OffboardingDialogProps {
+  employee: Employee | null
+  open: boolean
+  onClose: () => void
+}
+
+type WriteOffReason = typeof DisposalReason.PERTE | typeof DisposalReason.VOL
+
+type LineAction = { lineId: string; kind: 'transfer' | 'writeOff' }
+
+function getLineLabel(line: OffboardingLine): string {
+  if (line.assetItem) {
+    const model = line.assetItem.assetModel
+    const tag = line.assetItem.assetTag ?? line.assetItem.serial ?? 'Équipement'
+    return model ? `${tag} - ${model.brand} ${model.modelName}` : tag
+  }
+  return line.stockItem?.assetModel
+    ? `${line.stockItem.assetModel.brand} ${line.stockItem.assetModel.modelName} (x${line.quantity})`
+    : `Stock (x${line.quantity})`
+}
+
+/**
+ * Dialogue de départ
+ *
+ * Chaque article encore prêté doit être restitué, transféré à un collègue ou
+ * passé en perte avant de pouvoir finaliser le départ. L'employé finalisé
+ * n'est plus proposé dans les prêts mais son historique est conservé.
+ */
+export function OffboardingDialog({ employee, open, onClose }: OffboardingDialogProps) {
+  const employeeId = employee?.id ?? ''
+  const { data: checklist, isLoading } = useEmployeeOffboarding(open ? employeeId : '')
+  const startOffboarding = useStartOffboarding()
+  const cancelOffboarding = useCancelOffboarding()
+  const completeOffboarding = useCompleteOffboarding()
+  const returnLine = useReturnLoanLine()
+  const transferLines = useTransferLoanLines()
+  const writeOffLine = useWriteOffLoanLine()
+  const { confirm, dialogProps } = useConfirmDialog()
+
+  const current = checklist?.employee ?? employee
+  const [departureDate, setDepartureDate] = useState(() => toDateInputValue(employee?.departureDate))
+  const [action, setAction] = useState<LineAction | null>(null)
+  const [transferTo, setTransferTo] = useState<AutocompleteEmployee | null>(null)
+  const [writeOffReason, setWriteOffReason] = useState<WriteOffReason>(DisposalReason.PERTE)
+
+  if (!employee || !current) return null
+
+  const fullName = formatFullName(current.firstName, current.lastName)
+  const isStarted = !!current.departureDate
+  const isArchived = !!current.archivedAt
+  const lines = checklist?.outstandingLines ?? []
+  const isLineBusy = returnLine.isPending || transferLines.isPending || writeOffLine.isPending
+
+  const openAction = (lineId: string, kind: LineAction['kind']) => {
+    setAction({ lineId, kind })
+    setTransferTo(null)
+    setWriteOffReason(DisposalReason.PERTE)
+  }
+
+  const handleStart = async () => {
+    if (!departureDate) return
+    try {
+      await startOffboarding.mutateAsync({ id: employee.id, departureDate })
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!await confirm({
+      title: 'Annuler le départ',
+      description: `La date de départ de ${fullName} sera effacée.`,
+    })) return
+    try {
+      await cancelOffboarding.mutateAsync(employee.id)
+      setDepartureDate('')
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  const handleReturn = async (line: OffboardingLine) => {
+    try {
+      await returnLine.mutateAsync({ loanId: line.loanId, lineId: line.id })
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  const handleTransfer = async (line: OffboardingLine) => {
+    if (!transferTo) return
+    try {
+      await transferLines.mutateAsync({
+        loanId: line.loanId,
+        data: { employeeId: transferTo.id, lineIds: [line.id] },
+      })
+      setAction(null)
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  const handleWriteOff = async (line: OffboardingLine) => {
+    try {
+      await writeOffLine.mutateAsync({
+        loanId: line.loanId,
+        lineId: line.id,
+        data: { reason: writeOffReason },
+      })
+      setAction(null)
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  const handleComplete = async () => {
+    const reservations = checklist?.activeReservations ?? 0
+    if (!await confirm({
+      title: 'Finaliser le départ',
+      description: reservations > 0
+        ? `${fullName} sera marqué(e) comme parti(e) et ses ${reservations} réservation(s) active(s) seront annulées.`
+        : `${fullName} sera marqué(e) comme parti(e) et ne sera plus proposé(e) dans les prêts.`,
+    })) return
+    try {
+      await completeOffboarding.mutateAsync(employee.id)
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[650px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserMinus className="h-5 w-5" />
+            Départ de {fullName}
+          </DialogTitle>
+          <DialogDescription>
+            Tout le matériel encore prêté doit être restitué, transféré ou passé en perte
+            avant de finaliser le départ.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isArchived ? (
+          <p className="text-sm text-muted-foreground py-2">
+            Départ finalisé le {formatDate(current.archivedAt)} (dernier jour : {formatDate(current.departureDate)}).
+          </p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="offboarding-departure-date">Date de départ *</Label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  id="offboarding-departure-date"
+                  type="date"
+                  value={departureDate}
+                  onChange={(e) => setDepartureDate(e.target.value)}
+                  className="sm:w-[200px]"
+                />
+                <Button
+                  variant={isStarted ? 'outline' : 'default'}
+                  onClick={handleStart}
+                  disabled={!departureDate || startOffboarding.isPending}
+                >
+                  {isStarted ? 'Modifier la date' : 'Démarrer le départ'}
+                </Button>
+                {isStarted && (
+                  <Button variant="ghost" onClick={handleCancel} disabled={cancelOffboarding.isPending}>
+                    Annuler le départ
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Matériel à récupérer</Label>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Chargement...</p>
+              ) : lines.length === 0 ? (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Aucun article en cours de prêt
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {lines.map((line) => {
+                    const isActive = action?.lineId === line.id
+                    return (
+                      <li key={line.id} className="rounded-md border p-3 space-y-2">
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                          <div>
+                            <p className="text-sm font-medium">{getLineLabel(line)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              <Link to={`/loans/${line.loanId}`} className="underline-offset-2 hover:underline">
+                                Prêt du {formatDate(line.loan.openedAt)}
+                              </Link>
+                              {(line.dueAt ?? line.loan.dueAt) && ` · retour prévu le ${formatDate(line.dueAt ?? line.loan.dueAt)}`}
+                            </p>
+                          </div>
+                          <div className="flex flex-wrap gap-1">
+                            <Button variant="outline" size="sm" onClick={() => handleReturn(line)} disabled={isLineBusy}>
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Restituer
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => openAction(line.id, 'transfer')} disabled={isLineBusy}>
+                              <ArrowRightLeft className="h-4 w-4 mr-1" />
+                              Transférer
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => openAction(line.id, 'writeOff')} disabled={isLineBusy}>
+                              <PackageX className="h-4 w-4 mr-1" />
+                              Perte
+                            </Button>
+                          </div>
+                        </div>
+
+                        {isActive && action.kind === 'transfer' && (
+                          <div className="flex flex-col sm:flex-row gap-2">
+                            <EmployeeAutocomplete
+                              value={transferTo}
+                              onSelect={setTransferTo}
+                              placeholder="Collègue repreneur..."
+                              className="flex-1"
+                            />
+                            <Button
+                              size="sm"
+                              onClick={() => handleTransfer(line)}
+                              disabled={!transferTo || transferTo.id === employee.id || isLineBusy}
+                            >
+                              Confirmer le transfert
+                            </Button>
+                          </div>
+                        )}
+
+                        {isActive && action.kind === 'writeOff' && (
+                          <div className="flex flex-col sm:flex-row gap-2">
+                            <Select value={writeOffReason} onValueChange={(value) => setWriteOffReason(value as WriteOffReason)}>
+                              <SelectTrigger className="sm:w-[160px]" aria-label="Motif de sortie">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={DisposalReason.PERTE}>{DisposalReasonLabels[DisposalReason.PERTE]}</SelectItem>
+                                <SelectItem value={DisposalReason.VOL}>{DisposalReasonLabels[DisposalReason.VOL]}</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Button size="sm" variant="destructive" onClick={() => handleWriteOff(line)} disabled={isLineBusy}>
+                              Confirmer la perte
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {!!checklist?.activeReservations && (
+              <div className="text-xs text-muted-foreground">
+                <Badge variant="outline" className="mr-2">{checklist.activeReservations}</Badge>
+                réservation(s) active(s) seront annulées à la finalisation.
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Fermer
+          </Button>
+          {!isArchived && (
+            <Button
+              onClick={handleComplete}
+              disabled={!isStarted || !checklist?.canComplete || completeOffboarding.isPending}
+            >
+              <UserMinus className="h-4 w-4 mr-2" />
+              Finaliser le départ
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+      <ConfirmDialog {...dialogProps} />
+    </Dialog>
+  )
+}
@@ -17,6 +17,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -49,6 +50,7 @@ export function EquipmentTypeFormDialog({
     resolver: zodResolver(equipmentTypeFormSchema),
     defaultValues: {
       name: '',
+      depreciationYears: '',
     },
   });
 
@@ -58,24 +60,31 @@ export function EquipmentTypeFormDialog({
       if (equipmentType) {
         form.reset({
           name: equipmentType.name,
+          depreciationYears: equipmentType.depreciationYears?.toString() ?? '',
         });
       } else {
         form.reset({
           name: '',
+          depreciationYears: '',
         });
       }
     }
   }, [open, equipmentType, form]);
 
   const onSubmit = async (data: EquipmentTypeFormData) => {
+    const payload = {
+      name: data.name,
+      depreciationYears: data.depreciationYears ? Number(data.depreciationYears) : null,
+    };
+
     try {
       if (isEditing && equipmentType) {
         await updateMutation.mutateAsync({
           id: equipmentType.id,
-          data,
+          data: payload,
         });
       } else {
-        await createMutation.mutateAsync(data);
+        await createMutation.mutateAsync(payload);
       }
       handleClose();
     } catch (_error) {
@@ -124,6 +133,28 @@ export function EquipmentTypeFormDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="depreciationYears"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amortissement (années)</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="numeric"
+                      placeholder="Aucun"
+                      {...field}
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Amortissement linéaire à partir de la date d'achat. Laissez vide pour ne pas amortir.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button
                 type="button"
@@ -22,6 +22,10 @@ import { DeleteEquipmentTypeDialog } from './DeleteEquipmentTypeDialog';
 import type { EquipmentType } from '@/lib/types/models.types';
 import { useMediaQuery } from '@/lib/hooks/useMediaQuery';
 
+function formatDepreciation(years: number | null): string {
+  return years ? `${years} an${years > 1 ? 's' : ''}` : 'Non amorti';
+}
+
 export function EquipmentTypesTable() {
   const { data: equipmentTypes, isLoading } = useEquipmentTypes();
   const [editingType, setEditingType] = useState<EquipmentType | null>(null);
@@ -101,8 +105,8 @@ export function EquipmentTypesTable() {
                       {/* Informations */}
                       <div className="grid grid-cols-2 gap-2 text-sm">
                         <div>
-                          <span className="text-muted-foreground">Nom</span>
-                          <p className="font-medium">{type.name}</p>
+                          <span className="text-muted-foreground">Amortissement</span>
+                          <p className="font-medium">{formatDepreciation(type.depreciationYears)}</p>
                         </div>
                         <div>
                           <span className="text-muted-foreground">Créé le</span>
@@ -179,6 +183,7 @@ export function EquipmentTypesTable() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Nom</TableHead>
+                  <TableHead>Amortissement</TableHead>
                   <TableHead>Date de création</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -187,6 +192,7 @@ export function EquipmentTypesTable() {
                 {equipmentTypes.map((type) => (
                   <TableRow key={type.id}>
                     <TableCell className="font-medium">{type.name}</TableCell>
+                    <TableCell>{formatDepreciation(type.depreciationYears)}</TableCell>
                     <TableCell>
                       {new Date(type.createdAt).toLocaleDateString('fr-FR')}
                     </TableCell>
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Liste de pointage des équipements d'une campagne d'inventaire
+ *
+ * Équipements attendus (trouvés puis manquants) à cocher, puis équipements
+ * pointés mais inattendus (hors périmètre, prêtés, en réparation ou réformés).
+ * En lecture seule une fois la campagne clôturée.
+ */
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { X } from 'lucide-react'
+import { AssetStatusLabels } from '@/lib/types/enums'
+import type { InventoryReport } from '@/lib/types/models.types'
+import { formatDate } from '@/lib/utils/formatters'
+import { getInventoryEntryLabel } from '@/lib/utils/inventory'
+
+interface InventoryAssetChecklistProps {
+  report: InventoryReport
+  isOpen: boolean
+  isPending: boolean
+  onCheck: (assetItemId: string) => void
+  onUncheck: (assetItemId: string) => void
+}
+
+export function InventoryAssetChecklist({ report, isOpen, isPending, onCheck, onUncheck }: InventoryAssetChecklistProps) {
+  const expected = [
+    ...report.found.map((entry) => ({ ...entry, found: true, flaggedAt: null })),
+    ...report.missing.map((entry) => ({ ...entry, found: false })),
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">Trouvé</TableHead>
+              <TableHead>Équipement</TableHead>
+              <TableHead>Emplacement</TableHead>
+              <TableHead>Statut</TableHead>
+              <TableHead>Pointé le</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {expected.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                  Aucun équipement attendu dans ce périmètre
+                </TableCell>
+              </TableRow>
+            ) : (
+              expected.map((entry) => (
+                <TableRow key={entry.assetItemId}>
+                  <TableCell>
+                    <Checkbox
+                      checked={entry.found}
+                      disabled={!isOpen || isPending}
+                      onCheckedChange={(checked) => checked ? onCheck(entry.assetItemId) : onUncheck(entry.assetItemId)}
+                      aria-label={`Pointer ${getInventoryEntryLabel(entry)}`}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">{getInventoryEntryLabel(entry)}</TableCell>
+                  <TableCell className="text-sm">{entry.location ?? '-'}</TableCell>
+                  <TableCell className="text-sm">{AssetStatusLabels[entry.status]}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {entry.found ? formatDate(entry.checkedAt) : entry.flaggedAt ? (
+                      <Badge variant="destructive">Signalé le {formatDate(entry.flaggedAt)}</Badge>
+                    ) : isOpen ? '-' : (
+                      <Badge variant="outline">Manquant</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {report.unexpected.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Équipements inattendus ({report.unexpected.length})</h3>
+          <p className="text-sm text-muted-foreground">
+            Trouvés sur place alors qu'ils sont hors du périmètre ou ne devraient pas être en stock
+          </p>
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableBody>
+                {report.unexpected.map((entry) => (
+                  <TableRow key={entry.assetItemId}>
+                    <TableCell className="font-medium">{getInventoryEntryLabel(entry)}</TableCell>
+                    <TableCell className="text-sm">{entry.location ?? '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">
+                        {entry.inScope ? AssetStatusLabels[entry.status] : 'Hors périmètre'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatDate(entry.checkedAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {isOpen && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={isPending}
+                          onClick={() => onUncheck(entry.assetItemId)}
+                          aria-label={`Annuler le pointage de ${getInventoryEntryLabel(entry)}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+/** @fileoverview Dialogue d'ouverture d'une campagne d'inventaire (ADMIN) */
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useNavigate } from 'react-router-dom'
+import { inventoryCampaignSchema } from '@/lib/schemas/inventoryCampaigns.schema'
+import type { InventoryCampaignFormData } from '@/lib/schemas/inventoryCampaigns.schema'
+import { useCreateInventoryCampaign } from '@/lib/hooks/useInventoryCampaigns'
+import { useEquipmentTypes } from '@/lib/hooks/useEquipmentTypes'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+
+interface InventoryCampaignFormDialogProps {
+  open: boolean
+  onClose: () => void
+}
+
+const ALL_TYPES = 'all'
+
+/**
+ * Dialogue de campagne d'inventaire
+ *
+ * Monté à l'ouverture ; la campagne créée s'ouvre directement pour le pointage.
+ */
+export function InventoryCampaignFormDialog({ open, onClose }: InventoryCampaignFormDialogProps) {
+  const navigate = useNavigate()
+  const createCampaign = useCreateInventoryCampaign()
+  const { data: equipmentTypes = [] } = useEquipmentTypes()
+
+  const form = useForm<InventoryCampaignFormData>({
+    resolver: zodResolver(inventoryCampaignSchema),
+    defaultValues: {
+      name: `Inventaire ${new Date().getFullYear()}`,
+      equipmentType: ALL_TYPES,
+      location: '',
+      notes: '',
+    },
+  })
+
+  const onSubmit = async (data: InventoryCampaignFormData) => {
+    try {
+      const campaign = await createCampaign.mutateAsync({
+        name: data.name.trim(),
+        ...(data.equipmentType && data.equipmentType !== ALL_TYPES ? { equipmentType: data.equipmentType } : {}),
+        ...(data.location?.trim() ? { location: data.location.trim() } : {}),
+        ...(data.notes?.trim() ? { notes: data.notes.trim() } : {}),
+      })
+      onClose()
+      navigate(`/inventory/${campaign.id}`)
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nouvelle campagne d'inventaire</DialogTitle>
+          <DialogDescription>
+            Les équipements en stock ou hors service du périmètre sont attendus sur place
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nom *</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="equipmentType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type d'équipement</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ALL_TYPES}>Tous les types</SelectItem>
+                      {equipmentTypes.map((type) => (
+                        <SelectItem key={type.id} value={type.name}>{type.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Emplacement</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex : Siège - Salle serveur" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormDescription>Laisser vide pour inventorier tous les emplacements</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea className="resize-none" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={createCampaign.isPending}>
+                {createCampaign.isPending ? 'Ouverture...' : 'Ouvrir la campagne'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
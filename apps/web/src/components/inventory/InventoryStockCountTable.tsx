@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Comptage des articles de stock d'une campagne d'inventaire
+ *
+ * La quantité attendue est la quantité en rayon (quantité - prêtés) ;
+ * l'écart est appliqué comme ajustement une fois la campagne clôturée.
+ */
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { InventoryReport } from '@/lib/types/models.types'
+import { formatDate } from '@/lib/utils/formatters'
+import { getInventoryEntryLabel } from '@/lib/utils/inventory'
+import { cn } from '@/lib/utils/cn'
+
+interface StockRow {
+  stockItemId: string
+  label: string
+  location: string | null
+  expectedQuantity: number
+  countedQuantity: number | null
+  correctionAppliedAt: string | null
+}
+
+interface InventoryStockCountTableProps {
+  report: InventoryReport
+  isOpen: boolean
+  isPending: boolean
+  onCount: (stockItemId: string, countedQuantity: number) => void
+}
+
+function formatVariance(variance: number): string {
+  return variance > 0 ? `+${variance}` : `${variance}`
+}
+
+function CountInput({ row, disabled, onCount }: { row: StockRow; disabled: boolean; onCount: InventoryStockCountTableProps['onCount'] }) {
+  const [value, setValue] = useState(row.countedQuantity?.toString() ?? '')
+  const quantity = Number(value)
+  const isValid = value !== '' && Number.isInteger(quantity) && quantity >= 0
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (isValid && quantity !== row.countedQuantity) onCount(row.stockItemId, quantity)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <Input
+        type="number"
+        min="0"
+        className="w-24"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        aria-label={`Quantité comptée pour ${row.label}`}
+      />
+      <Button type="submit" variant="secondary" size="sm" disabled={disabled || !isValid || quantity === row.countedQuantity}>
+        Valider
+      </Button>
+    </form>
+  )
+}
+
+export function InventoryStockCountTable({ report, isOpen, isPending, onCount }: InventoryStockCountTableProps) {
+  const rows: StockRow[] = [
+    ...report.uncountedStock.map((entry) => ({
+      stockItemId: entry.stockItemId,
+      label: getInventoryEntryLabel(entry),
+      location: entry.location,
+      expectedQuantity: entry.expectedQuantity,
+      countedQuantity: null,
+      correctionAppliedAt: null,
+    })),
+    ...report.stockCounts.map((entry) => ({
+      stockItemId: entry.stockItemId,
+      label: getInventoryEntryLabel(entry),
+      location: entry.location,
+      expectedQuantity: entry.expectedQuantity,
+      countedQuantity: entry.countedQuantity,
+      correctionAppliedAt: entry.correctionAppliedAt,
+    })),
+  ]
+
+  return (
+    <div className="border rounded-lg overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Article</TableHead>
+            <TableHead>Emplacement</TableHead>
+            <TableHead>Attendu en rayon</TableHead>
+            <TableHead>Compté</TableHead>
+            <TableHead>Écart</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                Aucun article de stock dans ce périmètre
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => {
+              const variance = row.countedQuantity === null ? null : row.countedQuantity - row.expectedQuantity
+              return (
+                <TableRow key={row.stockItemId}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className="text-sm">{row.location ?? '-'}</TableCell>
+                  <TableCell className="text-sm">{row.expectedQuantity}</TableCell>
+                  <TableCell>
+                    {isOpen ? (
+                      <CountInput
+                        key={row.countedQuantity ?? 'uncounted'}
+                        row={row}
+                        disabled={isPending}
+                        onCount={onCount}
+                      />
+                    ) : (
+                      <span className="text-sm">{row.countedQuantity ?? 'Non compté'}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {variance === null ? '-' : (
+                      <div className="flex items-center gap-2">
+                        <span className={cn(variance !== 0 && 'font-semibold text-destructive')}>
+                          {formatVariance(variance)}
+                        </span>
+                        {row.correctionAppliedAt && (
+                          <Badge variant="secondary">Corrigé le {formatDate(row.correctionAppliedAt)}</Badge>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              )
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
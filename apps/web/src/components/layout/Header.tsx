@@ -13,6 +13,7 @@ import {
 import { MobileNav } from './MobileNav'
 import { GlobalSearch } from '@/components/common/GlobalSearch'
 import { ThemeToggle } from '@/components/common/ThemeToggle'
+import { ScanLookupButton } from '@/components/common/ScanLookupButton'
 import { User, LogOut, Settings } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
 
@@ -63,6 +64,7 @@ export function Header() {
 
       {/* User menu */}
       <div className="flex items-center gap-4">
+        <ScanLookupButton />
         <ThemeToggle />
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
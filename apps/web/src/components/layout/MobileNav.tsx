@@ -24,6 +24,14 @@ import {
   Menu,
   LogOut,
   History,
+  CalendarClock,
+  PackagePlus,
+  Bell,
+  Wrench,
+  Truck,
+  ClipboardCheck,
+  ShoppingCart,
+  Building2,
 } from 'lucide-react'
 
 const iconMap = {
@@ -35,6 +43,14 @@ const iconMap = {
   FileText,
   UserCog,
   History,
+  CalendarClock,
+  PackagePlus,
+  Bell,
+  Wrench,
+  Truck,
+  ClipboardCheck,
+  ShoppingCart,
+  Building2,
 }
 
 export function MobileNav() {
@@ -12,6 +12,14 @@ import {
   FileText,
   UserCog,
   History,
+  CalendarClock,
+  PackagePlus,
+  Bell,
+  Wrench,
+  Truck,
+  ClipboardCheck,
+  ShoppingCart,
+  Building2,
 } from 'lucide-react'
 
 const iconMap = {
@@ -23,6 +31,14 @@ const iconMap = {
   FileText,
   UserCog,
   History,
+  CalendarClock,
+  PackagePlus,
+  Bell,
+  Wrench,
+  Truck,
+  ClipboardCheck,
+  ShoppingCart,
+  Building2,
 }
 
 export function Sidebar() {
@@ -0,0 +1,248 @@
+/** @fileoverview Dialogue de creation / modification d'un kit de pret */
+import { useMemo } from 'react'
+import { useFieldArray, useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { loanKitSchema } from '@/lib/schemas/loanKits.schema'
+import type { LoanKitFormData } from '@/lib/schemas/loanKits.schema'
+import { useCreateLoanKit, useUpdateLoanKit } from '@/lib/hooks/useLoanKits'
+import { useAssetModels } from '@/lib/hooks/useAssetModels'
+import { useStockItems } from '@/lib/hooks/useStockItems'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Plus, Trash2 } from 'lucide-react'
+import type { LoanKit, LoanKitItemDto } from '@/lib/types/models.types'
+
+interface LoanKitFormDialogProps {
+  kit?: LoanKit | null
+  open: boolean
+  onClose: () => void
+}
+
+function toFormValues(kit?: LoanKit | null): LoanKitFormData {
+  if (!kit) {
+    return { name: '', description: '', items: [{ component: '', quantity: 1 }] }
+  }
+  return {
+    name: kit.name,
+    description: kit.description ?? '',
+    items: kit.items.map((item) => ({
+      component: item.assetModelId ? `asset:${item.assetModelId}` : `stock:${item.stockItemId}`,
+      quantity: item.quantity,
+    })),
+  }
+}
+
+function toItemDto({ component, quantity }: LoanKitFormData['items'][number]): LoanKitItemDto {
+  const [kind, id] = component.split(':')
+  return kind === 'asset' ? { assetModelId: id, quantity } : { stockItemId: id, quantity }
+}
+
+/**
+ * Dialogue de kit
+ *
+ * Un composant est soit un modèle d'équipement (un article en stock de ce
+ * modèle est choisi à l'ajout au prêt), soit un article de stock consommable.
+ * Le dialogue est monté à l'ouverture pour partir des valeurs du kit édité.
+ */
+export function LoanKitFormDialog({ kit, open, onClose }: LoanKitFormDialogProps) {
+  const createKit = useCreateLoanKit()
+  const updateKit = useUpdateLoanKit()
+  const { data: assetModels } = useAssetModels()
+  const { data: stockItems } = useStockItems()
+  const isEditing = !!kit
+  const isPending = createKit.isPending || updateKit.isPending
+
+  const modelsList = useMemo(() => {
+    return Array.isArray(assetModels)
+      ? [...assetModels].sort((a, b) => `${a.brand} ${a.modelName}`.localeCompare(`${b.brand} ${b.modelName}`, 'fr'))
+      : []
+  }, [assetModels])
+
+  const stockList = Array.isArray(stockItems) ? stockItems : []
+
+  const form = useForm<LoanKitFormData>({
+    resolver: zodResolver(loanKitSchema),
+    defaultValues: toFormValues(kit),
+  })
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'items' })
+
+  const onSubmit = async (data: LoanKitFormData) => {
+    const payload = {
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      items: data.items.map(toItemDto),
+    }
+
+    try {
+      if (kit) {
+        await updateKit.mutateAsync({ id: kit.id, data: payload })
+      } else {
+        await createKit.mutateAsync(payload)
+      }
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Modifier le kit' : 'Nouveau kit de prêt'}</DialogTitle>
+          <DialogDescription>
+            Regroupez les équipements et consommables prêtés ensemble
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nom *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex : Kit télétravail" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea className="resize-none" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <FormLabel>Composants *</FormLabel>
+              {fields.map((row, index) => (
+                <div key={row.id} className="flex items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`items.${index}.component`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger aria-label={`Composant ${index + 1}`}>
+                              <SelectValue placeholder="Sélectionnez un composant" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectGroup>
+                              <SelectLabel>Équipements</SelectLabel>
+                              {modelsList.map((model) => (
+                                <SelectItem key={model.id} value={`asset:${model.id}`}>
+                                  {model.brand} {model.modelName}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                            <SelectGroup>
+                              <SelectLabel>Consommables</SelectLabel>
+                              {stockList.map((stock) => (
+                                <SelectItem key={stock.id} value={`stock:${stock.id}`}>
+                                  {stock.assetModel?.brand} {stock.assetModel?.modelName}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`items.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            aria-label={`Quantité ${index + 1}`}
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                    aria-label={`Retirer le composant ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append({ component: '', quantity: 1 })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Ajouter un composant
+              </Button>
+              {form.formState.errors.items?.root && (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.items.root.message}</p>
+              )}
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? 'Enregistrement...' : 'Enregistrer'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
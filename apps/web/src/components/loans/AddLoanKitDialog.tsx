@@ -0,0 +1,146 @@
+/** @fileoverview Dialogue d'ajout d'un kit de pret (plusieurs lignes en une fois) */
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { AlertTriangle, PackagePlus } from 'lucide-react'
+import { useAddLoanKit } from '@/lib/hooks/useLoans'
+import { useLoanKits } from '@/lib/hooks/useLoanKits'
+import { getLoanKitItemLabel } from '@/lib/utils/loanKits'
+import type { LoanKitMissingItem } from '@/lib/types/models.types'
+
+interface AddLoanKitDialogProps {
+  loanId: string
+  open: boolean
+  onClose: () => void
+}
+
+/**
+ * Dialogue d'ajout de kit
+ *
+ * Les composants disponibles sont ajoutés au prêt. Si certains composants
+ * manquent, le dialogue reste ouvert et liste ce qui n'a pas pu être ajouté.
+ */
+export function AddLoanKitDialog({ loanId, open, onClose }: AddLoanKitDialogProps) {
+  const addKit = useAddLoanKit()
+  const { data: kits = [], isLoading } = useLoanKits()
+
+  const [kitId, setKitId] = useState('')
+  const [missing, setMissing] = useState<LoanKitMissingItem[] | null>(null)
+
+  const selectedKit = kits.find((kit) => kit.id === kitId)
+
+  const handleSubmit = async () => {
+    if (!kitId) return
+
+    try {
+      const result = await addKit.mutateAsync({ loanId, kitId })
+      if (result.missing.length > 0) {
+        setMissing(result.missing)
+      } else {
+        onClose()
+      }
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackagePlus className="h-5 w-5" />
+            Ajouter un kit
+          </DialogTitle>
+          <DialogDescription>
+            Ajoute en une fois tous les articles disponibles du kit au prêt.
+          </DialogDescription>
+        </DialogHeader>
+
+        {missing ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Kit ajouté partiellement</AlertTitle>
+            <AlertDescription>
+              <p>Les composants suivants n'ont pas pu être ajoutés entièrement :</p>
+              <ul className="list-disc pl-5 mt-2 space-y-1">
+                {missing.map((item) => (
+                  <li key={item.kitItemId}>
+                    {item.label} : {item.added}/{item.requested} ajouté(s)
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="loan-kit">Kit *</Label>
+              <Select value={kitId} onValueChange={setKitId} disabled={isLoading}>
+                <SelectTrigger id="loan-kit">
+                  <SelectValue placeholder={isLoading ? 'Chargement...' : 'Sélectionner un kit'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {kits.length === 0 ? (
+                    <div className="p-2 text-sm text-muted-foreground">Aucun kit défini</div>
+                  ) : (
+                    kits.map((kit) => (
+                      <SelectItem key={kit.id} value={kit.id}>
+                        {kit.name}
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedKit && (
+              <div className="space-y-2 rounded-md border p-3">
+                {selectedKit.description && (
+                  <p className="text-sm text-muted-foreground">{selectedKit.description}</p>
+                )}
+                <ul className="text-sm list-disc pl-5 space-y-1">
+                  {selectedKit.items.map((item) => (
+                    <li key={item.id}>{getLoanKitItemLabel(item)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {missing ? (
+            <Button onClick={onClose}>Fermer</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose} disabled={addKit.isPending}>
+                Annuler
+              </Button>
+              <Button onClick={handleSubmit} disabled={!kitId || addKit.isPending}>
+                <PackagePlus className="h-4 w-4 mr-2" />
+                {addKit.isPending ? 'Ajout...' : 'Ajouter le kit'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
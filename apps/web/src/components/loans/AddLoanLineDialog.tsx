@@ -30,6 +30,8 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toDueAtIso } from '@/lib/utils/loanDueDates'
 
 interface AddLoanLineDialogProps {
   loanId: string
@@ -50,6 +52,7 @@ function AddLoanLineDialogComponent({ loanId, open, onClose }: AddLoanLineDialog
     resolver: zodResolver(addLoanLineSchema),
     defaultValues: {
       assetItemId: undefined,
+      dueAt: '',
     },
   })
 
@@ -57,6 +60,7 @@ function AddLoanLineDialogComponent({ loanId, open, onClose }: AddLoanLineDialog
     if (!open) {
       form.reset({
         assetItemId: undefined,
+        dueAt: '',
       })
     }
   }, [open, form])
@@ -64,7 +68,14 @@ function AddLoanLineDialogComponent({ loanId, open, onClose }: AddLoanLineDialog
   // Memoized: Prevent function recreation on every render
   const onSubmit = useCallback(async (data: AddLoanLineFormData) => {
     try {
-      await addLine.mutateAsync({ loanId, data: { assetItemId: data.assetItemId } })
+      await addLine.mutateAsync({
+        loanId,
+        data: {
+          assetItemId: data.assetItemId,
+          // Only send a per-line due date when one was picked (otherwise the loan's applies)
+          ...(data.dueAt ? { dueAt: toDueAtIso(data.dueAt) } : {}),
+        },
+      })
       onClose()
     } catch (_error) {
       // Error handled by mutation hook
@@ -114,6 +125,20 @@ function AddLoanLineDialogComponent({ loanId, open, onClose }: AddLoanLineDialog
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="dueAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date de retour prévue (optionnelle)</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="flex gap-2 justify-end">
               <Button type="button" variant="outline" onClick={onClose}>
                 Annuler
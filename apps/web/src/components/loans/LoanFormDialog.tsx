@@ -1,6 +1,6 @@
 /** @fileoverview Dialogue de creation d'un pret avec selection d'employe et lignes de pret */
 import { useEffect, useMemo, useCallback, memo } from 'react'
-import { useForm } from 'react-hook-form'
+import { useForm, useWatch } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { createLoanSchema } from '@/lib/schemas/loans.schema'
 import type { CreateLoanFormData } from '@/lib/schemas/loans.schema'
@@ -30,7 +30,10 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { EmployeeReservationsPanel } from '@/components/reservations/EmployeeReservationsPanel'
 import { formatFullNameLastFirst } from '@/lib/utils/formatters'
+import { toDueAtIso } from '@/lib/utils/loanDueDates'
 
 interface LoanFormDialogProps {
   open: boolean
@@ -54,19 +57,25 @@ function LoanFormDialogComponent({ open, onClose, onSuccess }: LoanFormDialogPro
     resolver: zodResolver(createLoanSchema),
     defaultValues: {
       employeeId: '',
+      dueAt: '',
     },
   })
 
+  const employeeId = useWatch({ control: form.control, name: 'employeeId' })
+
   useEffect(() => {
     if (!open) {
-      form.reset({ employeeId: '' })
+      form.reset({ employeeId: '', dueAt: '' })
     }
   }, [open, form])
 
   // Memoized: Prevent function recreation on every render
   const onSubmit = useCallback(async (data: CreateLoanFormData) => {
     try {
-      const loan = await createLoan.mutateAsync(data)
+      const loan = await createLoan.mutateAsync({
+        employeeId: data.employeeId,
+        dueAt: toDueAtIso(data.dueAt),
+      })
 
       // Set loan in cache immediately before navigation
       queryClient.setQueryData(['loans', loan.id], loan)
@@ -80,6 +89,12 @@ function LoanFormDialogComponent({ open, onClose, onSuccess }: LoanFormDialogPro
     }
   }, [createLoan, queryClient, onClose, onSuccess])
 
+  // A converted reservation already is a loan: open it like a freshly created one
+  const handleReservationConverted = useCallback((loanId: string) => {
+    onClose()
+    onSuccess?.(loanId)
+  }, [onClose, onSuccess])
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent>
@@ -118,6 +133,22 @@ function LoanFormDialogComponent({ open, onClose, onSuccess }: LoanFormDialogPro
               )}
             />
 
+            <EmployeeReservationsPanel employeeId={employeeId} onConverted={handleReservationConverted} />
+
+            <FormField
+              control={form.control}
+              name="dueAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date de retour prévue</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="flex gap-2 justify-end">
               <Button type="button" variant="outline" onClick={onClose}>
                 Annuler
@@ -5,16 +5,25 @@
  * - Employee name and email
  * - Creation date
  * - Closure date (if closed)
+ * - Expected return date (editable while the loan is open) with overdue badge
  *
  * Extracted from LoanDetailsPage for better maintainability - Phase 3.3
  */
-import { memo } from 'react'
+import { memo, useState } from 'react'
+import { Pencil } from 'lucide-react'
 import type { Loan } from '@/lib/types/models.types'
 import { formatDate, formatFullName } from '@/lib/utils/formatters'
+import { isLoanOverdue, toDateInputValue, toDueAtIso } from '@/lib/utils/loanDueDates'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 
 interface LoanInfoCardProps {
   loan: Loan
+  canEditDueDate?: boolean
+  onUpdateDueDate?: (dueAt: string | null) => Promise<void>
+  isUpdatingDueDate?: boolean
 }
 
 /**
@@ -26,7 +35,31 @@ interface LoanInfoCardProps {
  * @param {LoanInfoCardProps} props - Component props
  * @returns {JSX.Element} Loan information card
  */
-function LoanInfoCardComponent({ loan }: LoanInfoCardProps) {
+function LoanInfoCardComponent({
+  loan,
+  canEditDueDate = false,
+  onUpdateDueDate,
+  isUpdatingDueDate = false,
+}: LoanInfoCardProps) {
+  const [isEditingDueDate, setIsEditingDueDate] = useState(false)
+  const [dueDateValue, setDueDateValue] = useState('')
+  const overdue = isLoanOverdue(loan)
+
+  const handleStartEdit = () => {
+    setDueDateValue(toDateInputValue(loan.dueAt))
+    setIsEditingDueDate(true)
+  }
+
+  const handleSaveDueDate = async () => {
+    if (!onUpdateDueDate) return
+    try {
+      await onUpdateDueDate(toDueAtIso(dueDateValue))
+      setIsEditingDueDate(false)
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -54,6 +87,41 @@ function LoanInfoCardComponent({ loan }: LoanInfoCardProps) {
             <p className="text-sm text-muted-foreground">Fermé le</p>
             <p className="font-medium">{loan.closedAt ? formatDate(loan.closedAt) : '-'}</p>
           </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Retour prévu le</p>
+            {isEditingDueDate ? (
+              <div className="flex flex-wrap items-center gap-2 mt-1">
+                <Input
+                  type="date"
+                  aria-label="Date de retour prévue"
+                  value={dueDateValue}
+                  onChange={(e) => setDueDateValue(e.target.value)}
+                  className="w-auto"
+                />
+                <Button size="sm" onClick={handleSaveDueDate} disabled={isUpdatingDueDate}>
+                  {isUpdatingDueDate ? 'Enregistrement...' : 'Enregistrer'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIsEditingDueDate(false)}>
+                  Annuler
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <p className="font-medium">{formatDate(loan.dueAt)}</p>
+                {overdue && <Badge variant="destructive">En retard</Badge>}
+                {canEditDueDate && onUpdateDueDate && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleStartEdit}
+                    aria-label="Modifier la date de retour prévue"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -4,13 +4,16 @@
  * Displays loan lines (borrowed items) with:
  * - Mobile: Stacked cards view
  * - Desktop: Table view
- * - Add/Remove actions when loan is open
+ * - Add/Remove/Return actions when loan is open (single item or whole kit)
+ * - Returned lines kept visible (partial returns) with their return condition
  * - Status badges and out-of-service highlighting
+ * - Expected return date per line (falls back to the loan's due date)
  *
  * Extracted from LoanDetailsPage for better maintainability - Phase 3.3
  */
 import { memo } from 'react'
-import type { Loan } from '@/lib/types/models.types'
+import type { Loan, LoanLine } from '@/lib/types/models.types'
+import { ReturnCondition, ReturnConditionLabels } from '@/lib/types/enums'
 import { formatDate } from '@/lib/utils/formatters'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -24,15 +27,18 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import { Plus, Trash2, AlertCircle } from 'lucide-react'
+import { Plus, Trash2, AlertCircle, Undo2, PackagePlus } from 'lucide-react'
 import { useMediaQuery } from '@/lib/hooks/useMediaQuery'
 
 interface LoanLinesTableProps {
   loan: Loan
   isOpen: boolean
   onAddLine: () => void
+  onAddKit?: () => void
   onRemoveLine: (lineId: string) => void
   isRemoving: boolean
+  onReturnLine: (lineId: string) => void
+  isReturning: boolean
 }
 
 /**
@@ -63,6 +69,23 @@ function getStatusVariant(status?: string): 'default' | 'destructive' | 'seconda
   }
 }
 
+/**
+ * Render the return condition (and note) of a returned line
+ */
+function ReturnConditionInfo({ line }: { line: LoanLine }) {
+  if (!line.returnCondition) return null
+  return (
+    <>
+      <Badge variant={line.returnCondition === ReturnCondition.OK ? 'outline' : 'destructive'}>
+        {ReturnConditionLabels[line.returnCondition]}
+      </Badge>
+      {line.returnNote && (
+        <p className="text-xs text-muted-foreground">{line.returnNote}</p>
+      )}
+    </>
+  )
+}
+
 /**
  * Loan lines table component
  *
@@ -76,11 +99,15 @@ function LoanLinesTableComponent({
   loan,
   isOpen,
   onAddLine,
+  onAddKit,
   onRemoveLine,
-  isRemoving
+  isRemoving,
+  onReturnLine,
+  isReturning
 }: LoanLinesTableProps) {
   const { isMobile } = useMediaQuery()
   const hasLines = (loan.lines?.length || 0) > 0
+  const returnedCount = loan.lines?.filter((line) => line.returnedAt).length || 0
 
   return (
     <Card>
@@ -88,13 +115,24 @@ function LoanLinesTableComponent({
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
           <div>
             <CardTitle className="text-lg md:text-xl">Articles prêtés</CardTitle>
-            <CardDescription>{loan.lines?.length || 0} article(s)</CardDescription>
+            <CardDescription>
+              {loan.lines?.length || 0} article(s)
+              {returnedCount > 0 && ` dont ${returnedCount} retourné(s)`}
+            </CardDescription>
           </div>
           {isOpen && (
-            <Button onClick={onAddLine} size="sm" className="w-full sm:w-auto">
-              <Plus className="h-4 w-4 mr-2" />
-              Ajouter
-            </Button>
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+              {onAddKit && (
+                <Button onClick={onAddKit} size="sm" variant="outline" className="w-full sm:w-auto">
+                  <PackagePlus className="h-4 w-4 mr-2" />
+                  Ajouter un kit
+                </Button>
+              )}
+              <Button onClick={onAddLine} size="sm" className="w-full sm:w-auto">
+                <Plus className="h-4 w-4 mr-2" />
+                Ajouter
+              </Button>
+            </div>
           )}
         </div>
       </CardHeader>
@@ -111,10 +149,11 @@ function LoanLinesTableComponent({
           <div className="space-y-3">
             {loan.lines?.map((line) => {
               const isOutOfService = line.assetItem?.status === 'HS'
+              const isReturned = !!line.returnedAt
               return (
                 <Card
                   key={line.id}
-                  className={`p-4 animate-fadeIn ${isOutOfService ? 'border-destructive bg-destructive/5' : ''}`}
+                  className={`p-4 animate-fadeIn ${isOutOfService ? 'border-destructive bg-destructive/5' : ''} ${isReturned ? 'opacity-60' : ''}`}
                 >
                   <div className="space-y-3">
                     {/* En-tête avec type et article */}
@@ -128,7 +167,16 @@ function LoanLinesTableComponent({
                           {isOutOfService && (
                             <Badge variant="destructive">Hors service</Badge>
                           )}
+                          {isReturned && (
+                            <Badge variant="secondary">Retourné le {formatDate(line.returnedAt)}</Badge>
+                          )}
+                          {isReturned && line.returnCondition && line.returnCondition !== ReturnCondition.OK && (
+                            <Badge variant="destructive">{ReturnConditionLabels[line.returnCondition]}</Badge>
+                          )}
                         </div>
+                        {isReturned && line.returnNote && (
+                          <p className="text-xs text-muted-foreground mb-1">{line.returnNote}</p>
+                        )}
                         <p className="font-semibold text-base">
                           {line.assetItem
                             ? `${line.assetItem.assetTag} - ${line.assetItem.assetModel?.brand} ${line.assetItem.assetModel?.modelName}`
@@ -149,15 +197,29 @@ function LoanLinesTableComponent({
                           {line.addedAt ? formatDate(line.addedAt) : formatDate(loan.createdAt)}
                         </p>
                       </div>
+                      <div>
+                        <span className="text-muted-foreground">Retour prévu</span>
+                        <p className="font-medium">{formatDate(line.dueAt ?? loan.dueAt)}</p>
+                      </div>
                     </div>
 
                     {/* Actions */}
-                    {isOpen && (
-                      <div className="pt-2 border-t">
+                    {isOpen && !isReturned && (
+                      <div className="flex gap-2 pt-2 border-t">
                         <Button
                           variant="outline"
                           size="sm"
-                          className="w-full"
+                          className="flex-1"
+                          onClick={() => onReturnLine(line.id)}
+                          disabled={isReturning}
+                        >
+                          <Undo2 className="h-4 w-4 mr-2" />
+                          Retourner
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-1"
                           onClick={() => onRemoveLine(line.id)}
                           disabled={isRemoving}
                         >
@@ -183,16 +245,18 @@ function LoanLinesTableComponent({
                   <TableHead>Statut</TableHead>
                   <TableHead>Quantité</TableHead>
                   <TableHead>Date du prêt</TableHead>
+                  <TableHead>Retour prévu</TableHead>
                   {isOpen && <TableHead className="text-right">Actions</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {loan.lines?.map((line) => {
                   const isOutOfService = line.assetItem?.status === 'HS'
+                  const isReturned = !!line.returnedAt
                   return (
                     <TableRow
                       key={line.id}
-                      className={isOutOfService ? 'bg-destructive/5 border-l-4 border-l-destructive' : ''}
+                      className={`${isOutOfService ? 'bg-destructive/5 border-l-4 border-l-destructive' : ''} ${isReturned ? 'text-muted-foreground' : ''}`}
                     >
                       <TableCell>
                         <Badge variant="outline">
@@ -208,7 +272,12 @@ function LoanLinesTableComponent({
                         {line.assetItem?.serial || '-'}
                       </TableCell>
                       <TableCell>
-                        {line.assetItem ? (
+                        {isReturned ? (
+                          <div className="flex flex-col items-start gap-1">
+                            <Badge variant="secondary">Retourné le {formatDate(line.returnedAt)}</Badge>
+                            <ReturnConditionInfo line={line} />
+                          </div>
+                        ) : line.assetItem ? (
                           <Badge variant={getStatusVariant(line.assetItem.status)}>
                             {getStatusLabel(line.assetItem.status)}
                           </Badge>
@@ -220,16 +289,33 @@ function LoanLinesTableComponent({
                       <TableCell className="text-sm text-muted-foreground">
                         {line.addedAt ? formatDate(line.addedAt) : formatDate(loan.createdAt)}
                       </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDate(line.dueAt ?? loan.dueAt)}
+                      </TableCell>
                       {isOpen && (
                         <TableCell className="text-right">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => onRemoveLine(line.id)}
-                            disabled={isRemoving}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {!isReturned && (
+                            <div className="flex gap-1 justify-end">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => onReturnLine(line.id)}
+                                disabled={isReturning}
+                                title="Marquer comme retourné"
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => onRemoveLine(line.id)}
+                                disabled={isRemoving}
+                                title="Retirer du prêt"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
                         </TableCell>
                       )}
                     </TableRow>
@@ -3,6 +3,7 @@ import { useState, useMemo, useCallback, memo } from 'react'
 import { useNavigate } from 'react-router-dom'
 import type { Loan } from '@/lib/types/models.types'
 import { formatDate, formatFullName } from '@/lib/utils/formatters'
+import { getEarliestDueAt, isLoanOverdue } from '@/lib/utils/loanDueDates'
 import {
   Table,
   TableBody,
@@ -43,6 +44,8 @@ const LoanRow = memo(({
   onDelete,
   showCheckbox
 }: LoanRowProps) => {
+  const overdue = isLoanOverdue(loan)
+
   return (
     <TableRow
       onClick={() => onView(loan.id)}
@@ -63,12 +66,18 @@ const LoanRow = memo(({
           : 'Employé supprimé'}
       </TableCell>
       <TableCell>
-        <Badge variant={loan.status === 'OPEN' ? 'default' : 'secondary'}>
-          {loan.status === 'OPEN' ? 'Ouvert' : 'Fermé'}
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Badge variant={loan.status === 'OPEN' ? 'default' : 'secondary'}>
+            {loan.status === 'OPEN' ? 'Ouvert' : 'Fermé'}
+          </Badge>
+          {overdue && <Badge variant="destructive">En retard</Badge>}
+        </div>
       </TableCell>
       <TableCell>{loan.lines?.length || 0}</TableCell>
       <TableCell>{formatDate(loan.createdAt)}</TableCell>
+      <TableCell className={overdue ? 'text-destructive font-medium' : undefined}>
+        {formatDate(getEarliestDueAt(loan))}
+      </TableCell>
       <TableCell>{loan.closedAt ? formatDate(loan.closedAt) : '-'}</TableCell>
       <TableCell className="text-right">
         <div className="flex gap-2 justify-end">
@@ -117,6 +126,8 @@ const LoanCard = memo(({
   onDelete,
   showCheckbox
 }: LoanCardProps) => {
+  const overdue = isLoanOverdue(loan)
+
   return (
     <Card
       className="p-4 animate-fadeIn cursor-pointer hover:bg-muted/50 transition-colors"
@@ -145,6 +156,7 @@ const LoanCard = memo(({
                 <Badge variant={loan.status === 'OPEN' ? 'default' : 'secondary'}>
                   {loan.status === 'OPEN' ? 'Ouvert' : 'Fermé'}
                 </Badge>
+                {overdue && <Badge variant="destructive">En retard</Badge>}
                 <span className="text-sm text-muted-foreground">
                   {loan.lines?.length || 0} article(s)
                 </span>
@@ -159,6 +171,12 @@ const LoanCard = memo(({
             <span className="text-muted-foreground">Créé le</span>
             <p className="font-medium">{formatDate(loan.createdAt)}</p>
           </div>
+          <div>
+            <span className="text-muted-foreground">Retour prévu</span>
+            <p className={overdue ? 'font-medium text-destructive' : 'font-medium'}>
+              {formatDate(getEarliestDueAt(loan))}
+            </p>
+          </div>
           <div>
             <span className="text-muted-foreground">Fermé le</span>
             <p className="font-medium">{loan.closedAt ? formatDate(loan.closedAt) : '-'}</p>
@@ -319,6 +337,7 @@ export function LoansTable({ loans, selectedLoans = [], onSelectionChange }: Loa
             <TableHead>Statut</TableHead>
             <TableHead>Articles</TableHead>
             <TableHead>Créé le</TableHead>
+            <TableHead>Retour prévu</TableHead>
             <TableHead>Fermé le</TableHead>
             <TableHead className="text-right">Actions</TableHead>
           </TableRow>
@@ -326,7 +345,7 @@ export function LoansTable({ loans, selectedLoans = [], onSelectionChange }: Loa
         <TableBody>
           {loans.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={onSelectionChange ? 7 : 6} className="text-center text-muted-foreground">
+              <TableCell colSpan={onSelectionChange ? 8 : 7} className="text-center text-muted-foreground">
                 Aucun prêt trouvé
               </TableCell>
             </TableRow>
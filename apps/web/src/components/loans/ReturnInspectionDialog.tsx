@@ -0,0 +1,167 @@
+/** @fileoverview Dialogue d'inspection des équipements au retour d'un prêt (OK / endommagé / manquant) */
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { ClipboardCheck } from 'lucide-react'
+import { ReturnCondition, ReturnConditionLabels } from '@/lib/types/enums'
+import type { LoanLine, LoanLineInspectionDto } from '@/lib/types/models.types'
+
+interface ReturnInspectionDialogProps {
+  open: boolean
+  onClose: () => void
+  lines: LoanLine[]
+  title: string
+  description: string
+  confirmLabel: string
+  onConfirm: (inspections: LoanLineInspectionDto[]) => void | Promise<void>
+  isSubmitting?: boolean
+}
+
+interface InspectionState {
+  condition: ReturnCondition
+  note: string
+}
+
+const DEFAULT_INSPECTION: InspectionState = { condition: ReturnCondition.OK, note: '' }
+
+const CONDITION_HINTS: Record<ReturnCondition, string> = {
+  [ReturnCondition.OK]: 'remis en stock',
+  [ReturnCondition.DAMAGED]: 'envoyé en réparation',
+  [ReturnCondition.MISSING]: 'passé hors service',
+}
+
+function getLineLabel(line: LoanLine): string {
+  if (line.assetItem) {
+    const model = line.assetItem.assetModel
+    return model ? `${line.assetItem.assetTag} - ${model.brand} ${model.modelName}` : line.assetItem.assetTag
+  }
+  return line.stockItem?.assetModel
+    ? `${line.stockItem.assetModel.brand} ${line.stockItem.assetModel.modelName}`
+    : 'Inconnu'
+}
+
+export function ReturnInspectionDialog({
+  open,
+  onClose,
+  lines,
+  title,
+  description,
+  confirmLabel,
+  onConfirm,
+  isSubmitting = false,
+}: ReturnInspectionDialogProps) {
+  const [inspections, setInspections] = useState<Record<string, InspectionState>>({})
+
+  const getInspection = (lineId: string): InspectionState =>
+    inspections[lineId] ?? DEFAULT_INSPECTION
+
+  const updateInspection = (lineId: string, patch: Partial<InspectionState>) => {
+    setInspections((prev) => ({
+      ...prev,
+      [lineId]: { ...(prev[lineId] ?? DEFAULT_INSPECTION), ...patch },
+    }))
+  }
+
+  const handleClose = () => {
+    setInspections({})
+    onClose()
+  }
+
+  const handleConfirm = async () => {
+    const payload = lines
+      .filter((line) => line.assetItemId)
+      .map((line) => {
+        const { condition, note } = getInspection(line.id)
+        return {
+          lineId: line.id,
+          condition,
+          ...(note.trim() ? { note: note.trim() } : {}),
+        }
+      })
+    await onConfirm(payload)
+    setInspections({})
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {lines.map((line) => {
+            if (!line.assetItemId) {
+              return (
+                <div key={line.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                  <span>{getLineLabel(line)}</span>
+                  <Badge variant="outline">Stock x{line.quantity}</Badge>
+                </div>
+              )
+            }
+
+            const inspection = getInspection(line.id)
+            return (
+              <div key={line.id} className="space-y-3 rounded-md border p-3">
+                <p className="font-medium text-sm">{getLineLabel(line)}</p>
+                <RadioGroup
+                  value={inspection.condition}
+                  onValueChange={(value) => updateInspection(line.id, { condition: value as ReturnCondition })}
+                  className="flex flex-wrap gap-4"
+                >
+                  {Object.values(ReturnCondition).map((condition) => (
+                    <div key={condition} className="flex items-center space-x-2">
+                      <RadioGroupItem value={condition} id={`${line.id}-${condition}`} />
+                      <Label htmlFor={`${line.id}-${condition}`} className="font-normal cursor-pointer">
+                        {ReturnConditionLabels[condition]}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                <p className="text-xs text-muted-foreground">
+                  L'équipement sera {CONDITION_HINTS[inspection.condition]}
+                </p>
+                <div className="space-y-1">
+                  <Label htmlFor={`${line.id}-note`}>Note</Label>
+                  <Textarea
+                    id={`${line.id}-note`}
+                    value={inspection.note}
+                    onChange={(e) => updateInspection(line.id, { note: e.target.value })}
+                    placeholder="Observations sur l'état de l'équipement (optionnel)"
+                    maxLength={1000}
+                    rows={2}
+                  />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+            Annuler
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSubmitting}>
+            <ClipboardCheck className="h-4 w-4 mr-2" />
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,150 @@
+/** @fileoverview Dialogue de transfert de lignes d'un pret vers un autre employe */
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { EmployeeAutocomplete } from '@/components/common/EmployeeAutocomplete'
+import { ArrowRightLeft } from 'lucide-react'
+import { useTransferLoanLines } from '@/lib/hooks/useLoans'
+import { toDateInputValue, toDueAtIso } from '@/lib/utils/loanDueDates'
+import type { AutocompleteEmployee } from '@/lib/api/search.api'
+import type { Loan, LoanLine } from '@/lib/types/models.types'
+
+interface TransferLoanDialogProps {
+  loan: Loan
+  open: boolean
+  onClose: () => void
+  onSuccess?: (loanId: string) => void
+}
+
+function getLineLabel(line: LoanLine): string {
+  if (line.assetItem) {
+    const model = line.assetItem.assetModel
+    return model ? `${line.assetItem.assetTag} - ${model.brand} ${model.modelName}` : line.assetItem.assetTag
+  }
+  return line.stockItem?.assetModel
+    ? `${line.stockItem.assetModel.brand} ${line.stockItem.assetModel.modelName} (x${line.quantity})`
+    : `Stock (x${line.quantity})`
+}
+
+/**
+ * Dialogue de transfert
+ *
+ * Les lignes sélectionnées passent sur un nouveau prêt du nouvel employé,
+ * sans repasser en stock. Le nouveau prêt doit être signé au retrait.
+ */
+export function TransferLoanDialog({ loan, open, onClose, onSuccess }: TransferLoanDialogProps) {
+  const transfer = useTransferLoanLines()
+  const outstandingLines = loan.lines?.filter((line) => !line.returnedAt) ?? []
+
+  const [employee, setEmployee] = useState<AutocompleteEmployee | null>(null)
+  const [selectedLineIds, setSelectedLineIds] = useState<string[]>(() => outstandingLines.map((line) => line.id))
+  const [dueAt, setDueAt] = useState(() => toDateInputValue(loan.dueAt))
+
+  const isSameEmployee = employee?.id === loan.employeeId
+  const canSubmit = !!employee && !isSameEmployee && selectedLineIds.length > 0 && !transfer.isPending
+
+  const toggleLine = (lineId: string, checked: boolean) => {
+    setSelectedLineIds((prev) =>
+      checked ? [...prev, lineId] : prev.filter((id) => id !== lineId)
+    )
+  }
+
+  const handleSubmit = async () => {
+    if (!employee) return
+
+    try {
+      const newLoan = await transfer.mutateAsync({
+        loanId: loan.id,
+        data: {
+          employeeId: employee.id,
+          lineIds: selectedLineIds,
+          dueAt: toDueAtIso(dueAt),
+        },
+      })
+      onClose()
+      onSuccess?.(newLoan.id)
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Transférer à un autre employé
+          </DialogTitle>
+          <DialogDescription>
+            Les articles sélectionnés passent sur un nouveau prêt sans repasser en stock.
+            Le nouvel employé devra signer le retrait.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Nouvel employé *</Label>
+            <EmployeeAutocomplete value={employee} onSelect={setEmployee} />
+            {isSameEmployee && (
+              <p className="text-sm text-destructive">Le prêt appartient déjà à cet employé</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Articles à transférer *</Label>
+            <div className="space-y-2 rounded-md border p-3">
+              {outstandingLines.map((line) => (
+                <div key={line.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`transfer-${line.id}`}
+                    checked={selectedLineIds.includes(line.id)}
+                    onCheckedChange={(checked) => toggleLine(line.id, checked as boolean)}
+                  />
+                  <Label htmlFor={`transfer-${line.id}`} className="font-normal cursor-pointer">
+                    {getLineLabel(line)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {selectedLineIds.length === outstandingLines.length && (
+              <p className="text-xs text-muted-foreground">
+                Tous les articles en cours sont transférés : le prêt actuel sera fermé.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-due-at">Date de retour prévue</Label>
+            <Input
+              id="transfer-due-at"
+              type="date"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={transfer.isPending}>
+            Annuler
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            {transfer.isPending ? 'Transfert...' : 'Transférer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,266 @@
+/** @fileoverview Dialogue de creation / modification d'un bon de commande en brouillon */
+import { useMemo } from 'react'
+import { useFieldArray, useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { purchaseOrderSchema } from '@/lib/schemas/purchaseOrders.schema'
+import type { PurchaseOrderFormData } from '@/lib/schemas/purchaseOrders.schema'
+import { useCreatePurchaseOrder, useUpdatePurchaseOrder } from '@/lib/hooks/usePurchaseOrders'
+import { useAssetModels } from '@/lib/hooks/useAssetModels'
+import { useSuppliers } from '@/lib/hooks/useSuppliers'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Plus, Trash2 } from 'lucide-react'
+import type { PurchaseOrder } from '@/lib/types/models.types'
+import { centsToEuroInput, eurosToCents, formatCents } from '@/lib/utils/money'
+
+interface PurchaseOrderFormDialogProps {
+  order?: PurchaseOrder | null
+  open: boolean
+  onClose: () => void
+  onCreated?: (order: PurchaseOrder) => void
+}
+
+const EMPTY_LINE = { assetModelId: '', quantity: 1, unitPrice: '' }
+
+function toFormValues(order?: PurchaseOrder | null): PurchaseOrderFormData {
+  if (!order) {
+    return { supplierId: '', notes: '', lines: [EMPTY_LINE] }
+  }
+  return {
+    supplierId: order.supplierId,
+    notes: order.notes ?? '',
+    lines: order.lines.map((line) => ({
+      assetModelId: line.assetModelId,
+      quantity: line.quantity,
+      unitPrice: centsToEuroInput(line.unitPriceCents),
+    })),
+  }
+}
+
+/**
+ * Dialogue de bon de commande
+ *
+ * Une ligne par modèle d'équipement, avec sa quantité et son prix unitaire HT.
+ * Le dialogue est monté à l'ouverture pour partir des valeurs du bon édité.
+ */
+export function PurchaseOrderFormDialog({ order, open, onClose, onCreated }: PurchaseOrderFormDialogProps) {
+  const createOrder = useCreatePurchaseOrder()
+  const updateOrder = useUpdatePurchaseOrder()
+  const { data: suppliers } = useSuppliers()
+  const { data: assetModels } = useAssetModels()
+  const isEditing = !!order
+  const isPending = createOrder.isPending || updateOrder.isPending
+
+  const suppliersList = Array.isArray(suppliers) ? suppliers : []
+  const modelsList = useMemo(() => {
+    return Array.isArray(assetModels)
+      ? [...assetModels].sort((a, b) => `${a.brand} ${a.modelName}`.localeCompare(`${b.brand} ${b.modelName}`, 'fr'))
+      : []
+  }, [assetModels])
+
+  const form = useForm<PurchaseOrderFormData>({
+    resolver: zodResolver(purchaseOrderSchema),
+    defaultValues: toFormValues(order),
+  })
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'lines' })
+  const lines = form.watch('lines')
+  const totalCents = lines.reduce((sum, line) => sum + (eurosToCents(line.unitPrice) ?? 0) * (line.quantity || 0), 0)
+
+  const onSubmit = async (data: PurchaseOrderFormData) => {
+    const payload = {
+      supplierId: data.supplierId,
+      notes: data.notes?.trim() || null,
+      lines: data.lines.map((line) => ({
+        assetModelId: line.assetModelId,
+        quantity: line.quantity,
+        unitPriceCents: eurosToCents(line.unitPrice) ?? 0,
+      })),
+    }
+
+    try {
+      if (order) {
+        await updateOrder.mutateAsync({ id: order.id, data: payload })
+      } else {
+        const created = await createOrder.mutateAsync(payload)
+        onCreated?.(created)
+      }
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? `Modifier ${order.reference}` : 'Nouveau bon de commande'}</DialogTitle>
+          <DialogDescription>
+            Le bon reste modifiable tant que la commande n'est pas passée
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="supplierId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fournisseur *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger aria-label="Fournisseur">
+                        <SelectValue placeholder="Sélectionnez un fournisseur" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {suppliersList.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <FormLabel>Lignes *</FormLabel>
+              {fields.map((row, index) => (
+                <div key={row.id} className="flex items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.assetModelId`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger aria-label={`Modèle ${index + 1}`}>
+                              <SelectValue placeholder="Sélectionnez un modèle" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {modelsList.map((model) => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {model.brand} {model.modelName} ({model.type})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            aria-label={`Quantité ${index + 1}`}
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.unitPrice`}
+                    render={({ field }) => (
+                      <FormItem className="w-28">
+                        <FormControl>
+                          <Input inputMode="decimal" placeholder="Prix € HT" aria-label={`Prix unitaire ${index + 1}`} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                    aria-label={`Retirer la ligne ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append(EMPTY_LINE)}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Ajouter une ligne
+                </Button>
+                <p className="text-sm text-muted-foreground">
+                  Total HT : <span className="font-medium text-foreground">{formatCents(totalCents)}</span>
+                </p>
+              </div>
+              {form.formState.errors.lines?.root && (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.lines.root.message}</p>
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea className="resize-none" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? 'Enregistrement...' : 'Enregistrer'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
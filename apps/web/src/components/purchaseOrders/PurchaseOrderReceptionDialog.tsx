@@ -0,0 +1,251 @@
+/** @fileoverview Dialogue de réception d'une livraison sur un bon de commande */
+import { useState, useCallback } from 'react'
+import type { KeyboardEvent } from 'react'
+import { format } from 'date-fns'
+import { PackageCheck, ScanLine, X } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ScanDialog } from '@/components/common/ScanDialog'
+import type { ScanOutcome } from '@/components/common/ScanDialog'
+import { useReceivePurchaseOrder } from '@/lib/hooks/usePurchaseOrders'
+import type { PurchaseOrder, PurchaseOrderLine } from '@/lib/types/models.types'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+import { buildReceptionLines, findCapturedSerial, getRemainingQuantity } from '@/lib/utils/purchaseOrders'
+
+interface PurchaseOrderReceptionDialogProps {
+  order: PurchaseOrder
+  open: boolean
+  onClose: () => void
+}
+
+function getModelLabel(line: PurchaseOrderLine): string {
+  return `${line.assetModel.brand} ${line.assetModel.modelName}`
+}
+
+/**
+ * Dialogue de réception
+ *
+ * Les numéros de série des équipements sont saisis un par un (clavier,
+ * douchette ou caméra) ; les consommables sont reçus en quantité. La
+ * validation crée les équipements et incrémente le stock en une seule fois.
+ */
+export function PurchaseOrderReceptionDialog({ order, open, onClose }: PurchaseOrderReceptionDialogProps) {
+  const receive = useReceivePurchaseOrder(order.id)
+  const pendingLines = order.lines.filter((line) => getRemainingQuantity(line) > 0)
+
+  const [invoiceNumber, setInvoiceNumber] = useState('')
+  const [receivedAt, setReceivedAt] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const [location, setLocation] = useState('')
+  const [serialsByLine, setSerialsByLine] = useState<Record<string, string[]>>({})
+  const [serialInputs, setSerialInputs] = useState<Record<string, string>>({})
+  const [quantitiesByLine, setQuantitiesByLine] = useState<Record<string, number>>(() =>
+    Object.fromEntries(pendingLines.filter((line) => line.isConsumable).map((line) => [line.id, getRemainingQuantity(line)]))
+  )
+  const [lineErrors, setLineErrors] = useState<Record<string, string>>({})
+  const [scanningLine, setScanningLine] = useState<PurchaseOrderLine | null>(null)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+
+  const receptionLines = buildReceptionLines(pendingLines, serialsByLine, quantitiesByLine)
+  const hasInvalidQuantity = pendingLines.some((line) =>
+    line.isConsumable && (quantitiesByLine[line.id] ?? 0) > getRemainingQuantity(line)
+  )
+  const canSubmit = receptionLines.length > 0 && !hasInvalidQuantity && !receive.isPending
+
+  /**
+   * Add a serial number to a line, refusing duplicates and extra units
+   */
+  const addSerial = useCallback((line: PurchaseOrderLine, raw: string): ScanOutcome => {
+    const serial = raw.trim()
+    if (!serial) return { success: false, message: 'Numéro de série vide' }
+
+    const captured = serialsByLine[line.id] ?? []
+    if (findCapturedSerial(serialsByLine, serial)) {
+      return { success: false, message: `${serial} : déjà saisi` }
+    }
+    if (captured.length >= getRemainingQuantity(line)) {
+      return { success: false, message: `${getModelLabel(line)} : toutes les unités attendues sont saisies` }
+    }
+
+    setSerialsByLine((prev) => ({ ...prev, [line.id]: [...(prev[line.id] ?? []), serial] }))
+    return { success: true, message: `${serial} : ${getModelLabel(line)} (${captured.length + 1}/${getRemainingQuantity(line)})` }
+  }, [serialsByLine])
+
+  const handleSerialKeyDown = (line: PurchaseOrderLine, e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return
+    e.preventDefault()
+
+    const outcome = addSerial(line, serialInputs[line.id] ?? '')
+    setLineErrors((prev) => ({ ...prev, [line.id]: outcome.success ? '' : outcome.message }))
+    if (outcome.success) {
+      setSerialInputs((prev) => ({ ...prev, [line.id]: '' }))
+    }
+  }
+
+  const removeSerial = (lineId: string, serial: string) => {
+    setSerialsByLine((prev) => ({ ...prev, [lineId]: (prev[lineId] ?? []).filter((captured) => captured !== serial) }))
+  }
+
+  const handleScan = useCallback(async (code: string): Promise<ScanOutcome> => {
+    return scanningLine ? addSerial(scanningLine, code) : { success: false, message: 'Aucune ligne sélectionnée' }
+  }, [scanningLine, addSerial])
+
+  const handleSubmit = async () => {
+    setSubmitError(null)
+    try {
+      await receive.mutateAsync({
+        invoiceNumber: invoiceNumber.trim() || null,
+        receivedAt,
+        location: location.trim() || null,
+        lines: receptionLines,
+      })
+      onClose()
+    } catch (error: unknown) {
+      setSubmitError(getErrorMessage(error, 'Impossible d\'enregistrer la réception'))
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Réceptionner {order.reference}</DialogTitle>
+          <DialogDescription>
+            Saisissez les numéros de série un par un (Entrée pour valider) et les quantités de consommables reçues
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reception-invoice">N° de facture</Label>
+              <Input id="reception-invoice" value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reception-date">Date de réception</Label>
+              <Input id="reception-date" type="date" value={receivedAt} onChange={(e) => setReceivedAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reception-location">Emplacement</Label>
+              <Input id="reception-location" placeholder="Ex: Réserve" value={location} onChange={(e) => setLocation(e.target.value)} />
+            </div>
+          </div>
+
+          {pendingLines.map((line) => {
+            const remaining = getRemainingQuantity(line)
+            const serials = serialsByLine[line.id] ?? []
+
+            return (
+              <div key={line.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-sm">{getModelLabel(line)}</p>
+                  <span className="text-sm text-muted-foreground">
+                    {line.isConsumable
+                      ? `${remaining} attendu(s)`
+                      : `${serials.length} / ${remaining} saisi(s)`}
+                  </span>
+                </div>
+
+                {line.isConsumable ? (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`reception-quantity-${line.id}`} className="font-normal">Quantité reçue</Label>
+                    <Input
+                      id={`reception-quantity-${line.id}`}
+                      type="number"
+                      min="0"
+                      max={remaining}
+                      className="w-24"
+                      value={quantitiesByLine[line.id] ?? 0}
+                      onChange={(e) => setQuantitiesByLine((prev) => ({ ...prev, [line.id]: parseInt(e.target.value) || 0 }))}
+                    />
+                    {(quantitiesByLine[line.id] ?? 0) > remaining && (
+                      <span className="text-sm text-destructive">Maximum {remaining}</span>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Numéro de série puis Entrée"
+                        aria-label={`Numéro de série ${getModelLabel(line)}`}
+                        value={serialInputs[line.id] ?? ''}
+                        onChange={(e) => setSerialInputs((prev) => ({ ...prev, [line.id]: e.target.value }))}
+                        onKeyDown={(e) => handleSerialKeyDown(line, e)}
+                        disabled={serials.length >= remaining}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setScanningLine(line)}
+                        disabled={serials.length >= remaining}
+                        aria-label={`Scanner les numéros de série ${getModelLabel(line)}`}
+                      >
+                        <ScanLine className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {lineErrors[line.id] && (
+                      <p className="text-sm text-destructive">{lineErrors[line.id]}</p>
+                    )}
+                    {serials.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {serials.map((serial) => (
+                          <Badge key={serial} variant="secondary" className="gap-1">
+                            {serial}
+                            <button
+                              type="button"
+                              onClick={() => removeSerial(line.id, serial)}
+                              aria-label={`Retirer ${serial}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )
+          })}
+
+          {submitError && (
+            <Alert variant="destructive">
+              <AlertDescription>{submitError}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={receive.isPending}>
+            Annuler
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            <PackageCheck className="h-4 w-4 mr-2" />
+            {receive.isPending ? 'Réception...' : 'Valider la réception'}
+          </Button>
+        </DialogFooter>
+
+        {scanningLine && (
+          <ScanDialog
+            open={!!scanningLine}
+            onClose={() => setScanningLine(null)}
+            title={`Numéros de série ${getModelLabel(scanningLine)}`}
+            description="Scannez l'étiquette constructeur de chaque unité livrée"
+            onScan={handleScan}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,164 @@
+/** @fileoverview Dialogue de cloture d'un ticket de reparation (cout final et issue) */
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { closeRepairTicketSchema } from '@/lib/schemas/repairTickets.schema'
+import type { CloseRepairTicketFormData } from '@/lib/schemas/repairTickets.schema'
+import { useCloseRepairTicket } from '@/lib/hooks/useRepairTickets'
+import type { RepairTicket } from '@/lib/types/models.types'
+import { RepairOutcome, RepairOutcomeLabels } from '@/lib/types/enums'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { centsToEuroInput, eurosToCents } from '@/lib/utils/money'
+
+interface CloseRepairTicketDialogProps {
+  ticket: RepairTicket | null
+  open: boolean
+  onClose: () => void
+}
+
+const EMPTY_VALUES: CloseRepairTicketFormData = {
+  outcome: RepairOutcome.REPAIRED,
+  finalCost: '',
+  closingNote: '',
+}
+
+/**
+ * Dialogue de clôture
+ *
+ * Le coût final est prérempli avec le devis. L'issue décide du statut de
+ * l'équipement : réparé → en stock, irréparable → hors service.
+ */
+export function CloseRepairTicketDialog({ ticket, open, onClose }: CloseRepairTicketDialogProps) {
+  const closeRepairTicket = useCloseRepairTicket()
+
+  const form = useForm<CloseRepairTicketFormData>({
+    resolver: zodResolver(closeRepairTicketSchema),
+    defaultValues: EMPTY_VALUES,
+  })
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ ...EMPTY_VALUES, finalCost: centsToEuroInput(ticket?.quoteCents) })
+    }
+  }, [open, ticket, form])
+
+  const onSubmit = async (data: CloseRepairTicketFormData) => {
+    if (!ticket) return
+
+    const finalCostCents = eurosToCents(data.finalCost)
+
+    try {
+      await closeRepairTicket.mutateAsync({
+        id: ticket.id,
+        data: {
+          outcome: data.outcome,
+          ...(finalCostCents !== undefined ? { finalCostCents } : {}),
+          ...(data.closingNote?.trim() ? { closingNote: data.closingNote.trim() } : {}),
+        },
+      })
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Clôturer la réparation</DialogTitle>
+          <DialogDescription>
+            {ticket?.assetItem?.assetTag ?? 'Équipement'}
+            {ticket?.vendor ? ` - ${ticket.vendor}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="outcome"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Issue *</FormLabel>
+                  <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-1">
+                    {Object.values(RepairOutcome).map((outcome) => (
+                      <div key={outcome} className="flex items-center space-x-2">
+                        <RadioGroupItem value={outcome} id={`repair-outcome-${outcome}`} />
+                        <Label htmlFor={`repair-outcome-${outcome}`} className="font-normal">
+                          {RepairOutcomeLabels[outcome]}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="finalCost"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Coût final (€)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" placeholder="0,00" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="closingNote"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Ex : carte mère remplacée sous garantie"
+                      className="resize-none"
+                      {...field}
+                      value={field.value || ''}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={closeRepairTicket.isPending}>
+                {closeRepairTicket.isPending ? 'Clôture...' : 'Clôturer'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
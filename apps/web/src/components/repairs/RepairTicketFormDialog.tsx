@@ -0,0 +1,188 @@
+/** @fileoverview Dialogue d'ouverture d'un ticket de reparation pour un equipement */
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { createRepairTicketSchema } from '@/lib/schemas/repairTickets.schema'
+import type { CreateRepairTicketFormData } from '@/lib/schemas/repairTickets.schema'
+import { useCreateRepairTicket } from '@/lib/hooks/useRepairTickets'
+import type { AssetItem } from '@/lib/types/models.types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { eurosToCents } from '@/lib/utils/money'
+import { toDueAtIso } from '@/lib/utils/loanDueDates'
+
+interface RepairTicketFormDialogProps {
+  item: AssetItem | null
+  open: boolean
+  onClose: () => void
+}
+
+const DEFAULT_VALUES: CreateRepairTicketFormData = {
+  fault: '',
+  vendor: '',
+  rmaNumber: '',
+  quote: '',
+  expectedReturnAt: '',
+}
+
+/**
+ * Dialogue « Envoyer en réparation »
+ *
+ * L'équipement passe au statut « En réparation » à l'ouverture du ticket.
+ * Le devis est saisi en euros et transmis en centimes.
+ */
+export function RepairTicketFormDialog({ item, open, onClose }: RepairTicketFormDialogProps) {
+  const createRepairTicket = useCreateRepairTicket()
+
+  const form = useForm<CreateRepairTicketFormData>({
+    resolver: zodResolver(createRepairTicketSchema),
+    defaultValues: DEFAULT_VALUES,
+  })
+
+  useEffect(() => {
+    if (!open) {
+      form.reset(DEFAULT_VALUES)
+    }
+  }, [open, form])
+
+  const onSubmit = async (data: CreateRepairTicketFormData) => {
+    if (!item) return
+
+    const quoteCents = eurosToCents(data.quote)
+    const expectedReturnAt = toDueAtIso(data.expectedReturnAt)
+
+    try {
+      await createRepairTicket.mutateAsync({
+        assetItemId: item.id,
+        fault: data.fault.trim(),
+        ...(data.vendor?.trim() ? { vendor: data.vendor.trim() } : {}),
+        ...(data.rmaNumber?.trim() ? { rmaNumber: data.rmaNumber.trim() } : {}),
+        ...(quoteCents !== undefined ? { quoteCents } : {}),
+        ...(expectedReturnAt ? { expectedReturnAt } : {}),
+      })
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Envoyer en réparation</DialogTitle>
+          <DialogDescription>
+            {item
+              ? `${item.assetTag ?? 'Équipement'}${item.assetModel ? ` - ${item.assetModel.brand} ${item.assetModel.modelName}` : ''}`
+              : 'Ouvrez un ticket de réparation'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="fault"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description de la panne *</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Ex : l'écran clignote au démarrage"
+                      className="resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="vendor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prestataire</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex : Dell ProSupport" {...field} value={field.value || ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="rmaNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>N° RMA</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="quote"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Devis (€)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="0,00" {...field} value={field.value || ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expectedReturnAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Retour prévu</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value || ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={createRepairTicket.isPending}>
+                {createRepairTicket.isPending ? 'Envoi...' : 'Envoyer en réparation'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
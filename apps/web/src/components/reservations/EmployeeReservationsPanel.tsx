@@ -0,0 +1,75 @@
+/** @fileoverview Réservations actives d'un employé avec conversion en prêt */
+import { useReservations, useConvertReservation } from '@/lib/hooks/useReservations'
+import { ReservationStatus } from '@/lib/types/enums'
+import type { Reservation } from '@/lib/types/models.types'
+import { formatDate } from '@/lib/utils/formatters'
+import { Button } from '@/components/ui/button'
+import { CalendarClock } from 'lucide-react'
+
+interface EmployeeReservationsPanelProps {
+  employeeId: string
+  onConverted: (loanId: string) => void
+}
+
+function getItemLabel(reservation: Reservation): string {
+  if (reservation.assetItem) {
+    const model = reservation.assetItem.assetModel
+    return model
+      ? `${reservation.assetItem.assetTag} - ${model.brand} ${model.modelName}`
+      : reservation.assetItem.assetTag
+  }
+  const model = reservation.stockItem?.assetModel
+  return model ? `${model.brand} ${model.modelName} (x${reservation.quantity})` : `Stock (x${reservation.quantity})`
+}
+
+/**
+ * Liste les réservations actives de l'employé sélectionné
+ *
+ * Rien n'est affiché si l'employé n'a aucune réservation active.
+ */
+export function EmployeeReservationsPanel({ employeeId, onConverted }: EmployeeReservationsPanelProps) {
+  const { data: reservations = [] } = useReservations(
+    { employeeId, status: ReservationStatus.ACTIVE },
+    { enabled: !!employeeId }
+  )
+  const convertReservation = useConvertReservation()
+
+  if (!employeeId || reservations.length === 0) return null
+
+  const handleConvert = async (reservationId: string) => {
+    try {
+      const loan = await convertReservation.mutateAsync(reservationId)
+      onConverted(loan.id)
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <CalendarClock className="h-4 w-4" />
+        Réservations de cet employé
+      </p>
+      {reservations.map((reservation) => (
+        <div key={reservation.id} className="flex items-center justify-between gap-2 text-sm">
+          <div>
+            <p>{getItemLabel(reservation)}</p>
+            <p className="text-xs text-muted-foreground">
+              Du {formatDate(reservation.startDate)} au {formatDate(reservation.endDate)}
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => handleConvert(reservation.id)}
+            disabled={convertReservation.isPending}
+          >
+            Convertir en prêt
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
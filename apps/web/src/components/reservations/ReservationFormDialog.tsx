@@ -0,0 +1,283 @@
+/** @fileoverview Dialogue de creation d'une reservation (equipement ou consommable) */
+import { useEffect, useMemo, useState } from 'react'
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { createReservationSchema } from '@/lib/schemas/reservations.schema'
+import type { CreateReservationFormData } from '@/lib/schemas/reservations.schema'
+import { useCreateReservation } from '@/lib/hooks/useReservations'
+import { useEmployees } from '@/lib/hooks/useEmployees'
+import { useStockItems } from '@/lib/hooks/useStockItems'
+import { AssetItemAutocomplete } from '@/components/common/AssetItemAutocomplete'
+import type { AutocompleteAssetItem } from '@/lib/api/search.api'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { formatFullNameLastFirst } from '@/lib/utils/formatters'
+import { toDueAtIso, toStartOfDayIso } from '@/lib/utils/loanDueDates'
+
+interface ReservationFormDialogProps {
+  open: boolean
+  onClose: () => void
+}
+
+const DEFAULT_VALUES: CreateReservationFormData = {
+  employeeId: '',
+  itemType: 'asset',
+  assetItemId: undefined,
+  stockItemId: undefined,
+  quantity: 1,
+  startDate: '',
+  endDate: '',
+  notes: '',
+}
+
+/**
+ * Dialogue de réservation
+ *
+ * La réservation couvre des journées entières : du début du premier jour
+ * à la fin du dernier. Les conflits (prêt en cours, autre réservation)
+ * sont vérifiés par le serveur.
+ */
+export function ReservationFormDialog({ open, onClose }: ReservationFormDialogProps) {
+  const createReservation = useCreateReservation()
+  const { data: employees } = useEmployees()
+  const { data: stockItems } = useStockItems()
+  const [selectedAsset, setSelectedAsset] = useState<AutocompleteAssetItem | null>(null)
+
+  const employeesList = useMemo(() => {
+    return Array.isArray(employees)
+      ? [...employees].sort((a, b) => a.lastName.localeCompare(b.lastName, 'fr'))
+      : []
+  }, [employees])
+
+  const stockList = Array.isArray(stockItems) ? stockItems : []
+
+  const form = useForm<CreateReservationFormData>({
+    resolver: zodResolver(createReservationSchema),
+    defaultValues: DEFAULT_VALUES,
+  })
+
+  const itemType = useWatch({ control: form.control, name: 'itemType' })
+  const stockItemId = useWatch({ control: form.control, name: 'stockItemId' })
+
+  useEffect(() => {
+    if (!open) {
+      form.reset(DEFAULT_VALUES)
+    }
+  }, [open, form])
+
+  const handleClose = () => {
+    setSelectedAsset(null)
+    onClose()
+  }
+
+  const handleAssetSelect = (item: AutocompleteAssetItem | null) => {
+    setSelectedAsset(item)
+    form.setValue('assetItemId', item?.id, { shouldValidate: form.formState.isSubmitted })
+  }
+
+  const onSubmit = async (data: CreateReservationFormData) => {
+    try {
+      await createReservation.mutateAsync({
+        employeeId: data.employeeId,
+        ...(data.itemType === 'asset'
+          ? { assetItemId: data.assetItemId }
+          : { stockItemId: data.stockItemId, quantity: data.quantity }),
+        startDate: toStartOfDayIso(data.startDate) as string,
+        endDate: toDueAtIso(data.endDate) as string,
+        ...(data.notes?.trim() ? { notes: data.notes.trim() } : {}),
+      })
+      handleClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nouvelle réservation</DialogTitle>
+          <DialogDescription>
+            Réservez un équipement ou du stock pour un employé sur une période
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="employeeId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Employé *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sélectionnez un employé" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {employeesList.map((employee) => (
+                        <SelectItem key={employee.id} value={employee.id}>
+                          {formatFullNameLastFirst(employee.firstName, employee.lastName)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="itemType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Article *</FormLabel>
+                  <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-4">
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="asset" id="reservation-type-asset" />
+                      <Label htmlFor="reservation-type-asset" className="font-normal">Équipement</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="stock" id="reservation-type-stock" />
+                      <Label htmlFor="reservation-type-stock" className="font-normal">Stock</Label>
+                    </div>
+                  </RadioGroup>
+                  {itemType === 'asset' ? (
+                    <AssetItemAutocomplete
+                      value={selectedAsset}
+                      onSelect={handleAssetSelect}
+                      availableOnly={false}
+                    />
+                  ) : (
+                    <Select
+                      onValueChange={(value) => form.setValue('stockItemId', value)}
+                      value={stockItemId}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sélectionnez un article de stock" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {stockList.map((stock) => (
+                          <SelectItem key={stock.id} value={stock.id}>
+                            {stock.assetModel?.brand} {stock.assetModel?.modelName} ({stock.quantity - stock.loaned} disponible(s))
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {itemType === 'stock' && (
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantité *</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Du *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Au *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Ex : arrivée prévue le lundi"
+                      className="resize-none"
+                      {...field}
+                      value={field.value || ''}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={createReservation.isPending}>
+                {createReservation.isPending ? 'Réservation...' : 'Réserver'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Liste de réapprovisionnement
+ *
+ * Articles dont la quantité disponible est sous leur stock minimum, avec la
+ * quantité à commander, regroupés par fournisseur pour envoyer une demande
+ * d'achat par fournisseur (export Excel : une feuille par fournisseur).
+ */
+import { useState } from 'react'
+import { Download, PackageCheck } from 'lucide-react'
+import { useReorderList } from '@/lib/hooks/useStockItems'
+import { useToast } from '@/lib/hooks/use-toast'
+import { exportReorderList } from '@/lib/api/export.api'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+export function ReorderListPanel() {
+  const { data: groups, isLoading, error } = useReorderList()
+  const { toast } = useToast()
+  const [isExporting, setIsExporting] = useState(false)
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true)
+      await exportReorderList()
+      toast({
+        title: 'Export réussi',
+        description: 'Liste de réapprovisionnement exportée vers Excel',
+      })
+    } catch (exportError: unknown) {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur d\'export',
+        description: getErrorMessage(exportError, 'Impossible d\'exporter la liste de réapprovisionnement'),
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-center text-muted-foreground py-8">Chargement...</p>
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive py-8">Erreur lors du chargement de la liste de réapprovisionnement</p>
+  }
+
+  if (!groups || groups.length === 0) {
+    return (
+      <Alert>
+        <PackageCheck className="h-4 w-4" />
+        <AlertDescription>Aucun article sous son stock minimum.</AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? 'Export...' : 'Exporter (Excel)'}
+        </Button>
+      </div>
+
+      {groups.map((group) => (
+        <Card key={group.supplier?.id ?? 'none'}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">{group.supplier?.name ?? 'Sans fournisseur'}</CardTitle>
+            {group.supplier && (
+              <CardDescription>
+                {[group.supplier.contactName, group.supplier.email, group.supplier.phone].filter(Boolean).join(' · ') || 'Aucun contact'}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Article</TableHead>
+                  <TableHead>Emplacement</TableHead>
+                  <TableHead>Disponible</TableHead>
+                  <TableHead>Minimum</TableHead>
+                  <TableHead>À commander</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {group.lines.map((line) => (
+                  <TableRow key={line.stockItemId}>
+                    <TableCell className="font-medium">
+                      {line.assetModel.brand} {line.assetModel.modelName}
+                      <p className="text-xs text-muted-foreground">{line.assetModel.type}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">{line.location ?? '-'}</TableCell>
+                    <TableCell className="text-sm text-destructive">{line.available}</TableCell>
+                    <TableCell className="text-sm">{line.minQuantity}</TableCell>
+                    <TableCell className="font-semibold">{line.suggestedQuantity}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
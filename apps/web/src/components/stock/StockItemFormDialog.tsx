@@ -6,6 +6,7 @@ import { createStockItemSchema, updateStockItemSchema } from '@/lib/schemas/stoc
 import type { CreateStockItemFormData, UpdateStockItemFormData } from '@/lib/schemas/stockItems.schema'
 import { useCreateStockItem, useUpdateStockItem } from '@/lib/hooks/useStockItems'
 import { useAssetModels } from '@/lib/hooks/useAssetModels'
+import { useSuppliers } from '@/lib/hooks/useSuppliers'
 import {
   Dialog,
   DialogContent,
@@ -16,6 +17,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -32,6 +34,18 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
 
+const NO_SUPPLIER = 'none'
+
+const EMPTY_VALUES = {
+  assetModelId: '',
+  quantity: 0,
+  minQuantity: 0,
+  reorderQuantity: 0,
+  supplierId: NO_SUPPLIER,
+  notes: '',
+  location: '',
+}
+
 interface StockItemFormDialogProps {
   item?: StockItem | null
   open: boolean
@@ -43,16 +57,14 @@ export function StockItemFormDialog({ item, open, onClose }: StockItemFormDialog
   const createItem = useCreateStockItem()
   const updateItem = useUpdateStockItem()
   const { data: models } = useAssetModels()
+  const { data: suppliers } = useSuppliers()
 
   const modelsList = Array.isArray(models) ? models : []
+  const suppliersList = Array.isArray(suppliers) ? suppliers : []
 
   const form = useForm<CreateStockItemFormData | UpdateStockItemFormData>({
     resolver: zodResolver(isEdit ? updateStockItemSchema : createStockItemSchema),
-    defaultValues: {
-      assetModelId: '',
-      quantity: 0,
-      notes: '',
-    },
+    defaultValues: EMPTY_VALUES,
   })
 
   useEffect(() => {
@@ -60,30 +72,29 @@ export function StockItemFormDialog({ item, open, onClose }: StockItemFormDialog
       form.reset({
         assetModelId: item.assetModelId,
         quantity: item.quantity,
+        minQuantity: item.minQuantity,
+        reorderQuantity: item.reorderQuantity,
+        supplierId: item.supplierId || NO_SUPPLIER,
         notes: item.notes || '',
+        location: item.location || '',
       })
     } else {
-      form.reset({
-        assetModelId: '',
-        quantity: 0,
-        notes: '',
-      })
+      form.reset(EMPTY_VALUES)
     }
   }, [item, form])
 
   const onSubmit = async (data: CreateStockItemFormData | UpdateStockItemFormData) => {
     try {
+      // Emplacement vide : aucun emplacement (null efface la valeur en édition)
+      const location = data.location?.trim() || null
+      const supplierId = data.supplierId && data.supplierId !== NO_SUPPLIER ? data.supplierId : null
       if (isEdit && item) {
-        await updateItem.mutateAsync({ id: item.id, data: data as UpdateStockItemFormData })
+        await updateItem.mutateAsync({ id: item.id, data: { ...(data as UpdateStockItemFormData), location, supplierId } })
       } else {
-        await createItem.mutateAsync(data as CreateStockItemFormData)
+        await createItem.mutateAsync({ ...(data as CreateStockItemFormData), location, supplierId })
       }
       // Reset form after successful creation
-      form.reset({
-        assetModelId: '',
-        quantity: 0,
-        notes: '',
-      })
+      form.reset(EMPTY_VALUES)
       onClose()
     } catch (_error) {
       // Error handled by mutation hooks
@@ -150,6 +161,88 @@ export function StockItemFormDialog({ item, open, onClose }: StockItemFormDialog
               )}
             />
 
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="minQuantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stock minimum</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormDescription>Alerte sous ce nombre disponible (0 : aucune)</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reorderQuantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Commande habituelle</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormDescription>Unités commandées en réapprovisionnement</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="supplierId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fournisseur</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || NO_SUPPLIER}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_SUPPLIER}>Aucun</SelectItem>
+                      {suppliersList.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Emplacement</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Siège - Réserve" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="notes"
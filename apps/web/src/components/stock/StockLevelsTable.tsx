@@ -0,0 +1,99 @@
+/** @fileoverview Tableau des articles de stock (quantité, prêtés, disponible, stock minimum) avec accès au journal des mouvements */
+import { AlertTriangle, History, Pencil } from 'lucide-react'
+import type { StockItem } from '@/lib/types/models.types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils/cn'
+import { isBelowMinimum } from '@/lib/utils/stock'
+
+interface StockLevelsTableProps {
+  items: StockItem[]
+  onShowMovements: (item: StockItem) => void
+  onEdit: (item: StockItem) => void
+}
+
+export function StockLevelsTable({ items, onShowMovements, onEdit }: StockLevelsTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Article</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Emplacement</TableHead>
+            <TableHead>Quantité</TableHead>
+            <TableHead>Prêtés</TableHead>
+            <TableHead>Disponible</TableHead>
+            <TableHead>Minimum</TableHead>
+            <TableHead>Fournisseur</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+                Aucun article de stock trouvé
+              </TableCell>
+            </TableRow>
+          ) : (
+            items.map((item) => {
+              const available = item.quantity - item.loaned
+              const isLowStock = isBelowMinimum(item)
+              const label = item.assetModel ? `${item.assetModel.brand} ${item.assetModel.modelName}` : 'Article'
+              return (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{label}</TableCell>
+                  <TableCell className="text-sm">{item.assetModel?.type ?? '-'}</TableCell>
+                  <TableCell className="text-sm">{item.location ?? '-'}</TableCell>
+                  <TableCell className="text-sm">{item.quantity}</TableCell>
+                  <TableCell className="text-sm">{item.loaned}</TableCell>
+                  <TableCell className={cn('text-sm', (available <= 0 || isLowStock) && 'font-semibold text-destructive')}>
+                    <div className="flex items-center gap-2">
+                      {available}
+                      {isLowStock && (
+                        <Badge variant="destructive" className="gap-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          Stock bas
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{item.minQuantity > 0 ? item.minQuantity : '-'}</TableCell>
+                  <TableCell className="text-sm">{item.supplier?.name ?? '-'}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onEdit(item)}
+                      aria-label={`Modifier ${label}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onShowMovements(item)}
+                      aria-label={`Mouvements de ${label}`}
+                    >
+                      <History className="h-4 w-4 mr-2" />
+                      Mouvements
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+/**
+ * @fileoverview Journal des mouvements d'un article de stock
+ *
+ * Affiche les mouvements (réceptions, prêts, retours, ajustements, corrections
+ * d'inventaire, mises au rebut), permet d'en saisir un et compare les compteurs
+ * de l'article avec ceux recalculés depuis le journal.
+ */
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { AlertTriangle, CheckCircle } from 'lucide-react'
+import { stockMovementFormSchema } from '@/lib/schemas/stockItems.schema'
+import type { StockMovementFormData } from '@/lib/schemas/stockItems.schema'
+import { useAdjustStockQuantity, useStockLedgerCheck, useStockMovements } from '@/lib/hooks/useStockItems'
+import type { StockItem } from '@/lib/types/models.types'
+import {
+  MANUAL_STOCK_MOVEMENT_TYPES,
+  StockMovementType,
+  StockMovementTypeLabels,
+} from '@/lib/types/enums'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Pagination } from '@/components/common/Pagination'
+import { formatDateTime } from '@/lib/utils/formatters'
+import { formatStockDelta, getSignedStockAdjustment, getStockMovementReferencePath } from '@/lib/utils/stock'
+import { cn } from '@/lib/utils/cn'
+
+interface StockMovementsDialogProps {
+  item: StockItem
+  open: boolean
+  onClose: () => void
+}
+
+const ALL_TYPES = 'all'
+const PAGE_SIZE_OPTIONS = [10, 20, 50]
+
+const EMPTY_VALUES: StockMovementFormData = {
+  type: StockMovementType.RECEPTION,
+  quantity: 1,
+  reason: '',
+}
+
+export function StockMovementsDialog({ item, open, onClose }: StockMovementsDialogProps) {
+  const [typeFilter, setTypeFilter] = useState<StockMovementType | typeof ALL_TYPES>(ALL_TYPES)
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(10)
+
+  const { data, isLoading, error } = useStockMovements(item.id, {
+    page,
+    pageSize,
+    ...(typeFilter !== ALL_TYPES && { type: typeFilter }),
+  })
+  const { data: ledgerCheck } = useStockLedgerCheck(item.id)
+  const adjustQuantity = useAdjustStockQuantity()
+
+  const form = useForm<StockMovementFormData>({
+    resolver: zodResolver(stockMovementFormSchema),
+    defaultValues: EMPTY_VALUES,
+  })
+  const movementType = form.watch('type')
+
+  const onSubmit = async (values: StockMovementFormData) => {
+    try {
+      await adjustQuantity.mutateAsync({
+        id: item.id,
+        data: {
+          type: values.type,
+          quantity: getSignedStockAdjustment(values.type, values.quantity),
+          ...(values.reason?.trim() ? { reason: values.reason.trim() } : {}),
+        },
+      })
+      form.reset(EMPTY_VALUES)
+      setPage(1)
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  const movements = data?.data ?? []
+  const label = item.assetModel ? `${item.assetModel.brand} ${item.assetModel.modelName}` : 'Article de stock'
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Mouvements de stock</DialogTitle>
+          <DialogDescription>
+            {label} · {item.quantity} en stock dont {item.loaned} prêté(s)
+          </DialogDescription>
+        </DialogHeader>
+
+        {ledgerCheck && (ledgerCheck.hasDrift ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Écart avec le journal</AlertTitle>
+            <AlertDescription>
+              Le journal donne une quantité de {ledgerCheck.ledger.quantity} et {ledgerCheck.ledger.loaned} prêté(s),
+              soit un écart de {formatStockDelta(ledgerCheck.drift.quantity)} sur la quantité
+              et {formatStockDelta(ledgerCheck.drift.loaned)} sur les prêtés.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            Journal cohérent avec les quantités de l'article
+          </p>
+        ))}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4 sm:grid-cols-[180px_120px_1fr_auto] sm:items-end">
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mouvement</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger aria-label="Type de mouvement">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MANUAL_STOCK_MOVEMENT_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{StockMovementTypeLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="quantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{movementType === StockMovementType.ADJUSTMENT ? 'Variation' : 'Unités'}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Motif</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex : bon de livraison BL-1042" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" disabled={adjustQuantity.isPending}>
+              {adjustQuantity.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </form>
+        </Form>
+
+        <div className="flex justify-end">
+          <Select
+            value={typeFilter}
+            onValueChange={(value) => { setTypeFilter(value as typeof typeFilter); setPage(1) }}
+          >
+            <SelectTrigger className="w-full sm:w-[220px]" aria-label="Filtrer les mouvements">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TYPES}>Tous les mouvements</SelectItem>
+              {Object.values(StockMovementType).map((type) => (
+                <SelectItem key={type} value={type}>{StockMovementTypeLabels[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Mouvement</TableHead>
+                <TableHead>Quantité</TableHead>
+                <TableHead>Prêtés</TableHead>
+                <TableHead>Motif</TableHead>
+                <TableHead>Auteur</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Chargement...</TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-destructive py-8">Erreur lors du chargement des mouvements</TableCell>
+                </TableRow>
+              ) : movements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Aucun mouvement</TableCell>
+                </TableRow>
+              ) : (
+                movements.map((movement) => {
+                  const referencePath = getStockMovementReferencePath(movement)
+                  return (
+                    <TableRow key={movement.id}>
+                      <TableCell className="text-sm whitespace-nowrap">{formatDateTime(movement.createdAt)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{StockMovementTypeLabels[movement.type]}</Badge>
+                      </TableCell>
+                      <TableCell className={cn('text-sm', movement.quantityDelta < 0 && 'text-destructive')}>
+                        {movement.quantityDelta !== 0 ? formatStockDelta(movement.quantityDelta) : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {movement.loanedDelta !== 0 ? formatStockDelta(movement.loanedDelta) : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-xs">
+                        <p className="truncate">{movement.reason ?? '-'}</p>
+                        {referencePath && (
+                          <Link to={referencePath} className="text-xs text-primary hover:underline" onClick={onClose}>
+                            {movement.referenceType === 'Loan' ? 'Voir le prêt' : 'Voir l\'inventaire'}
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{movement.createdBy?.email ?? 'Système'}</TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+
+          {data && data.pagination.totalItems > 0 && (
+            <Pagination
+              currentPage={page}
+              totalPages={data.pagination.totalPages}
+              pageSize={pageSize}
+              totalItems={data.pagination.totalItems}
+              onPageChange={setPage}
+              onPageSizeChange={(size) => { setPageSize(size); setPage(1) }}
+              pageSizeOptions={PAGE_SIZE_OPTIONS}
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
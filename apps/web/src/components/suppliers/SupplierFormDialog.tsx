@@ -0,0 +1,177 @@
+/** @fileoverview Dialogue de creation / modification d'un fournisseur */
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { supplierSchema } from '@/lib/schemas/suppliers.schema'
+import type { SupplierFormData } from '@/lib/schemas/suppliers.schema'
+import { useCreateSupplier, useUpdateSupplier } from '@/lib/hooks/useSuppliers'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import type { Supplier } from '@/lib/types/models.types'
+
+interface SupplierFormDialogProps {
+  supplier?: Supplier | null
+  open: boolean
+  onClose: () => void
+}
+
+function toFormValues(supplier?: Supplier | null): SupplierFormData {
+  return {
+    name: supplier?.name ?? '',
+    contactName: supplier?.contactName ?? '',
+    email: supplier?.email ?? '',
+    phone: supplier?.phone ?? '',
+    notes: supplier?.notes ?? '',
+  }
+}
+
+/**
+ * Dialogue de fournisseur
+ *
+ * Les champs de contact vides sont envoyés à null pour pouvoir les effacer.
+ * Le dialogue est monté à l'ouverture pour partir des valeurs du fournisseur édité.
+ */
+export function SupplierFormDialog({ supplier, open, onClose }: SupplierFormDialogProps) {
+  const createSupplier = useCreateSupplier()
+  const updateSupplier = useUpdateSupplier()
+  const isEditing = !!supplier
+  const isPending = createSupplier.isPending || updateSupplier.isPending
+
+  const form = useForm<SupplierFormData>({
+    resolver: zodResolver(supplierSchema),
+    defaultValues: toFormValues(supplier),
+  })
+
+  const onSubmit = async (data: SupplierFormData) => {
+    const payload = {
+      name: data.name.trim(),
+      contactName: data.contactName?.trim() || null,
+      email: data.email?.trim() || null,
+      phone: data.phone?.trim() || null,
+      notes: data.notes?.trim() || null,
+    }
+
+    try {
+      if (supplier) {
+        await updateSupplier.mutateAsync({ id: supplier.id, data: payload })
+      } else {
+        await createSupplier.mutateAsync(payload)
+      }
+      onClose()
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Modifier le fournisseur' : 'Nouveau fournisseur'}</DialogTitle>
+          <DialogDescription>
+            Fournisseur auprès duquel les équipements sont achetés
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nom *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex : LDLC Pro" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contactName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contact</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} value={field.value || ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Téléphone</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea className="resize-none" {...field} value={field.value || ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? 'Enregistrement...' : isEditing ? 'Enregistrer' : 'Créer'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,7 +7,8 @@
  * (e.g., a specific laptop with serial #SN12345, asset tag #INV-2024-001).
  * Each item references an AssetModel template and has unique identifiers.
  *
- * Status workflow: EN_STOCK → PRETE → EN_STOCK (or HS/REPARATION)
+ * Status workflow: EN_STOCK → PRETE → EN_STOCK (or HS/REPARATION),
+ * REFORME once the item is retired (terminal).
  *
  * Requires ADMIN or GESTIONNAIRE role for modifications.
  */
@@ -17,8 +18,11 @@ import type {
   AssetItem,
   CreateAssetItemDto,
   UpdateAssetItemDto,
+  RetireAssetItemDto,
   CreateBulkAssetItemsDto,
   BulkCreationPreview,
+  GenerateLabelsDto,
+  LabelFormat,
   ApiResponse,
 } from '@/lib/types/models.types'
 import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination.types'
@@ -29,7 +33,9 @@ import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination
  * Returns all physical equipment items with model details.
  * Backend caps the unpaginated response at UNPAGINATED_MAX_ITEMS (1000).
  * For larger datasets, switch to getAssetItemsApiPaginated.
+ * Retired items (REFORME) are only returned when filtering on that status.
  *
+ * @param status - Optional status filter
  * @returns Promise resolving to array of asset items
  *
  * @example
@@ -43,8 +49,8 @@ import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination
  * //   ...
  * // ]
  */
-export async function getAllAssetItemsApi(): Promise<AssetItem[]> {
-  const response = await apiClient.get<any>('/asset-items')
+export async function getAllAssetItemsApi(status?: string): Promise<AssetItem[]> {
+  const response = await apiClient.get<any>('/asset-items', { params: status ? { status } : undefined })
   const data = response.data.data
   return Array.isArray(data) ? data : data.items || []
 }
@@ -153,6 +159,22 @@ export async function updateAssetItemApi(id: string, data: UpdateAssetItemDto):
   return response.data.data
 }
 
+/**
+ * Retire asset item
+ *
+ * Moves the item to the terminal status REFORME with its disposal details.
+ * The item and its loan history are kept; active reservations are cancelled.
+ *
+ * @param id - Asset item ID to retire
+ * @param data - Disposal reason, date, certificate reference and data-wipe confirmation
+ * @returns Promise resolving to retired AssetItem
+ * @throws {ValidationError} If the item is loaned, under repair or already retired (400)
+ */
+export async function retireAssetItemApi(id: string, data: RetireAssetItemDto): Promise<AssetItem> {
+  const response = await apiClient.post<ApiResponse<AssetItem>>(`/asset-items/${id}/retire`, data)
+  return response.data.data
+}
+
 /**
  * Delete asset item
  *
@@ -220,6 +242,7 @@ export async function previewBulkCreationApi(
  * - Same asset model
  * - Same status (default EN_STOCK)
  * - Same notes (if provided)
+ * - Same purchase data (supplier, invoice, date, unit price, warranty end)
  * - NULL serial numbers (individual serial numbers can be added later via update)
  *
  * Server performs atomic transaction - all items created or none.
@@ -230,6 +253,7 @@ export async function previewBulkCreationApi(
  * @param data.quantity - Number of items to create (1-100)
  * @param data.status - Initial status for all items (default: "EN_STOCK")
  * @param data.notes - Optional notes applied to all items
+ * @param data.invoiceNumber - Invoice shared by the whole delivery
  * @returns Promise resolving to array of created AssetItems with model
  * @throws {NotFoundError} If asset model doesn't exist (404)
  * @throws {ValidationError} If quantity is out of range (400)
@@ -259,3 +283,70 @@ export async function createAssetItemsBulkApi(
   )
   return response.data.data
 }
+
+/**
+ * Fetch asset items whose warranty ends within the next `days` days
+ *
+ * Soonest warranty end first, with model and supplier.
+ *
+ * @param params - Window in days (default 30 on the server) and pagination
+ * @returns Promise resolving to paginated asset items
+ *
+ * @example
+ * const { data } = await getExpiringWarrantiesApi({ days: 60, pageSize: 5 });
+ */
+export async function getExpiringWarrantiesApi(
+  params: PaginationParams & { days?: number } = {}
+): Promise<PaginatedResponse<AssetItem>> {
+  const queryParams = new URLSearchParams()
+
+  if (params.days) queryParams.append('days', params.days.toString())
+  if (params.page) queryParams.append('page', params.page.toString())
+  if (params.pageSize) queryParams.append('pageSize', params.pageSize.toString())
+
+  const response = await apiClient.get<PaginatedResponse<AssetItem>>(`/asset-items/warranties/expiring?${queryParams.toString()}`)
+  return response.data
+}
+
+/**
+ * Fetch the standard label sheet formats (Avery grids, dimensions in mm)
+ *
+ * @returns Promise resolving to the available formats
+ */
+export async function getLabelFormatsApi(): Promise<LabelFormat[]> {
+  const response = await apiClient.get<ApiResponse<LabelFormat[]>>('/asset-items/labels/formats')
+  return response.data.data
+}
+
+/**
+ * Download a label sheet PDF for the given items
+ *
+ * Each label carries a QR code linking to the item, a Code 128 barcode
+ * of the asset tag and the tag, model and serial number in clear text.
+ * The file is saved by the browser under the name provided by the server.
+ *
+ * @param data - Item IDs (printed in this order), format and layout options
+ * @throws {ValidationError} If the layout does not fit on the page (400)
+ * @throws {NotFoundError} If an item doesn't exist (404)
+ *
+ * @example
+ * await downloadAssetLabelsApi({ ids: ['item1', 'item2'], format: 'AVERY_L7160', startPosition: 4 });
+ */
+export async function downloadAssetLabelsApi(data: GenerateLabelsDto): Promise<void> {
+  const response = await apiClient.post<Blob>('/asset-items/labels', data, {
+    responseType: 'blob',
+  })
+
+  const disposition = String(response.headers['content-disposition'] ?? '')
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1]
+    ?? `Etiquettes_${new Date().toISOString().slice(0, 10)}.pdf`
+
+  const url = window.URL.createObjectURL(response.data)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
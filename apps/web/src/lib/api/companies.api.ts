@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Companies API client
+ *
+ * Provides functions to interact with /api/companies endpoints.
+ *
+ * Companies group departments (the "Société" column of the HR export).
+ *
+ * Listing and changes require ADMIN or GESTIONNAIRE role, deletion requires ADMIN.
+ */
+
+import apiClient from './client'
+import type {
+  Company,
+  CreateCompanyDto,
+  UpdateCompanyDto,
+  ApiResponse,
+} from '@/lib/types/models.types'
+
+/**
+ * Fetch all companies
+ *
+ * @returns Promise resolving to companies ordered by name, with their department count
+ */
+export async function getCompaniesApi(): Promise<Company[]> {
+  const response = await apiClient.get<ApiResponse<Company[]>>('/companies')
+  return response.data.data
+}
+
+/**
+ * Create company
+ *
+ * @param data - Company name
+ * @returns Promise resolving to created Company
+ * @throws {ConflictError} If a company with the same name exists (409)
+ */
+export async function createCompanyApi(data: CreateCompanyDto): Promise<Company> {
+  const response = await apiClient.post<ApiResponse<Company>>('/companies', data)
+  return response.data.data
+}
+
+/**
+ * Update company
+ *
+ * @param id - Company ID
+ * @param data - Fields to update
+ * @returns Promise resolving to updated Company
+ * @throws {NotFoundError} If company doesn't exist (404)
+ * @throws {ConflictError} If the new name is already used (409)
+ */
+export async function updateCompanyApi(id: string, data: UpdateCompanyDto): Promise<Company> {
+  const response = await apiClient.patch<ApiResponse<Company>>(`/companies/${id}`, data)
+  return response.data.data
+}
+
+/**
+ * Delete company
+ *
+ * @param id - Company ID
+ * @throws {NotFoundError} If company doesn't exist (404)
+ * @throws {ValidationError} If departments still belong to the company (400)
+ */
+export async function deleteCompanyApi(id: string): Promise<void> {
+  await apiClient.delete(`/companies/${id}`)
+}
@@ -13,8 +13,10 @@
  */
 
 import { apiClient } from './client'
-import type { ApiResponse, DashboardStats, Loan, StockItem, Employee, AssetItem, LowStockAlertItem, EquipmentByType } from '@/lib/types/models.types'
+import type { ApiResponse, DashboardStats, Loan, StockItem, Employee, AssetItem, LowStockAlertItem, EquipmentByType, FleetValuation } from '@/lib/types/models.types'
 import { LOW_STOCK_THRESHOLD } from '@/lib/utils/constants'
+import { isLoanOverdue } from '@/lib/utils/loanDueDates'
+import { isBelowMinimum } from '@/lib/utils/stock'
 
 /**
  * Get dashboard statistics
@@ -26,7 +28,8 @@ import { LOW_STOCK_THRESHOLD } from '@/lib/utils/constants'
  * - totalEmployees: Count of all employees
  * - totalAssets: Count of all physical asset items
  * - activeLoans: Count of loans with status='OPEN'
- * - loanedAssets: Total count of lines in all active loans
+ * - overdueLoans: Count of open loans past their due date (loan or any line)
+ * - loanedAssets: Total count of unreturned lines in all active loans
  * - outOfServiceAssets: Count of assets with status='HS' (hors service)
  *
  * Returns default values (all zeros) if any endpoint fails to prevent
@@ -40,6 +43,7 @@ import { LOW_STOCK_THRESHOLD } from '@/lib/utils/constants'
  * //   totalEmployees: 125,
  * //   totalAssets: 450,
  * //   activeLoans: 23,
+ * //   overdueLoans: 3,
  * //   loanedAssets: 67,  // Sum of all lines in active loans
  * //   outOfServiceAssets: 8  // Assets with status='HS'
  * // }
@@ -69,6 +73,10 @@ export async function getDashboardStatsApi(): Promise<DashboardStats> {
     // Filter active loans (status='OPEN')
     const activeLoans = loans.filter(loan => loan.status === 'OPEN').length
 
+    // Open loans whose due date (on the loan or one of its lines) has passed
+    const now = new Date()
+    const overdueLoans = loans.filter(loan => isLoanOverdue(loan, now)).length
+
     // Count total loaned items (sum of line counts in active loans)
     // Each loan line represents one loaned item or stock quantity
     // Exclude items with status='HS' (out of service)
@@ -76,6 +84,10 @@ export async function getDashboardStatsApi(): Promise<DashboardStats> {
       .filter(loan => loan.status === 'OPEN')
       .reduce((sum, loan) => {
         const validLines = loan.lines?.filter(line => {
+          // Exclude lines already returned (partial return)
+          if (line.returnedAt) {
+            return false
+          }
           // Exclude AssetItems that are out of service (HS)
           if (line.assetItem && line.assetItem.status === 'HS') {
             return false
@@ -92,6 +104,7 @@ export async function getDashboardStatsApi(): Promise<DashboardStats> {
       totalEmployees: employees.length,
       totalAssets: assets.length,
       activeLoans,
+      overdueLoans,
       loanedAssets,
       outOfServiceAssets,
     }
@@ -102,6 +115,7 @@ export async function getDashboardStatsApi(): Promise<DashboardStats> {
       totalEmployees: 0,
       totalAssets: 0,
       activeLoans: 0,
+      overdueLoans: 0,
       loanedAssets: 0,
       outOfServiceAssets: 0,
     }
@@ -146,21 +160,19 @@ export async function getRecentLoansApi(): Promise<Loan[]> {
  * Get low stock items (unified for StockItems and AssetItems)
  *
  * Fetches both stock items (consumables) and asset items (individual equipment),
- * and returns alerts for items below the low stock threshold.
+ * and returns alerts for items below their minimum level.
  *
  * Logic:
- * - StockItems: Alert if (quantity - loaned) < threshold
- * - AssetItems: Group by model, count EN_STOCK items, alert if count < threshold
- *
- * Threshold imported from constants (currently 2).
+ * - StockItems: Alert if (quantity - loaned) < minQuantity of the item (0 = no alert)
+ * - AssetItems: Group by model, count EN_STOCK items, alert if count < LOW_STOCK_THRESHOLD
  *
  * @returns Promise resolving to array of low stock alert items
  *
  * @example
  * const lowStock = await getLowStockItemsApi();
  * // lowStock = [
- * //   { id, assetModelId, assetModel, availableQuantity: 1, itemType: 'stock' },
- * //   { id, assetModelId, assetModel, availableQuantity: 0, itemType: 'asset' },
+ * //   { id, assetModelId, assetModel, availableQuantity: 1, minQuantity: 5, itemType: 'stock' },
+ * //   { id, assetModelId, assetModel, availableQuantity: 0, minQuantity: 2, itemType: 'asset' },
  * //   ...
  * // ]
  */
@@ -182,14 +194,13 @@ export async function getLowStockItemsApi(): Promise<LowStockAlertItem[]> {
 
     // Process StockItems (consumables)
     stockItems.forEach(item => {
-      const available = item.quantity - item.loaned
-
-      if (available < LOW_STOCK_THRESHOLD) {
+      if (isBelowMinimum(item)) {
         alerts.push({
           id: item.id,
           assetModelId: item.assetModelId,
           assetModel: item.assetModel,
-          availableQuantity: available,
+          availableQuantity: item.quantity - item.loaned,
+          minQuantity: item.minQuantity,
           itemType: 'stock'
         })
       }
@@ -219,6 +230,7 @@ export async function getLowStockItemsApi(): Promise<LowStockAlertItem[]> {
           assetModelId: modelId,
           assetModel: assetModel,
           availableQuantity: inStockCount,
+          minQuantity: LOW_STOCK_THRESHOLD,
           itemType: 'asset'
         })
       }
@@ -306,3 +318,18 @@ export async function getEquipmentByTypeApi(): Promise<EquipmentByType[]> {
     return []
   }
 }
+
+/**
+ * Get the fleet valuation report
+ *
+ * Computed by the server (GET /dashboard/valuation): book value of the items
+ * with a purchase price, depreciated over the period of their equipment type,
+ * grouped by type and by department of the employee holding the item.
+ * Requires ADMIN or GESTIONNAIRE role. Errors are left to React Query.
+ *
+ * @returns Promise resolving to the valuation report (amounts in cents)
+ */
+export async function getFleetValuationApi(): Promise<FleetValuation> {
+  const response = await apiClient.get<ApiResponse<FleetValuation>>('/dashboard/valuation')
+  return response.data.data
+}
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Departments API client
+ *
+ * Provides functions to interact with /api/departments endpoints.
+ *
+ * Employees are linked to a department, optionally attached to a company.
+ * Near-duplicate departments (case, accents, typos) can be merged.
+ *
+ * Listing and changes require ADMIN or GESTIONNAIRE role, merge and deletion require ADMIN.
+ */
+
+import apiClient from './client'
+import type {
+  Department,
+  DepartmentDuplicateGroup,
+  CreateDepartmentDto,
+  UpdateDepartmentDto,
+  ApiResponse,
+} from '@/lib/types/models.types'
+
+/**
+ * Fetch all departments
+ *
+ * @returns Promise resolving to departments ordered by name, with their company and employee count
+ */
+export async function getDepartmentsApi(): Promise<Department[]> {
+  const response = await apiClient.get<ApiResponse<Department[]>>('/departments')
+  return response.data.data
+}
+
+/**
+ * Fetch groups of departments that are most likely the same one
+ *
+ * @returns Promise resolving to duplicate groups, each with a suggested merge target
+ */
+export async function getDepartmentDuplicatesApi(): Promise<DepartmentDuplicateGroup[]> {
+  const response = await apiClient.get<ApiResponse<DepartmentDuplicateGroup[]>>('/departments/duplicates')
+  return response.data.data
+}
+
+/**
+ * Create department
+ *
+ * @param data - Name and optional company
+ * @returns Promise resolving to created Department
+ * @throws {ConflictError} If the company already has a department with this name (409)
+ */
+export async function createDepartmentApi(data: CreateDepartmentDto): Promise<Department> {
+  const response = await apiClient.post<ApiResponse<Department>>('/departments', data)
+  return response.data.data
+}
+
+/**
+ * Update department
+ *
+ * A rename is applied to the employees of the department.
+ *
+ * @param id - Department ID
+ * @param data - Fields to update
+ * @returns Promise resolving to updated Department
+ * @throws {NotFoundError} If department doesn't exist (404)
+ * @throws {ConflictError} If the new name is already used in the company (409)
+ */
+export async function updateDepartmentApi(id: string, data: UpdateDepartmentDto): Promise<Department> {
+  const response = await apiClient.patch<ApiResponse<Department>>(`/departments/${id}`, data)
+  return response.data.data
+}
+
+/**
+ * Merge departments into a target department (ADMIN only)
+ *
+ * @param id - Department kept
+ * @param sourceIds - Departments merged into it, then deleted
+ * @returns Promise resolving to the target Department
+ */
+export async function mergeDepartmentsApi(id: string, sourceIds: string[]): Promise<Department> {
+  const response = await apiClient.post<ApiResponse<Department>>(`/departments/${id}/merge`, { sourceIds })
+  return response.data.data
+}
+
+/**
+ * Delete department (ADMIN only)
+ *
+ * @param id - Department ID
+ * @throws {NotFoundError} If department doesn't exist (404)
+ * @throws {ValidationError} If employees still belong to the department (400)
+ */
+export async function deleteDepartmentApi(id: string): Promise<void> {
+  await apiClient.delete(`/departments/${id}`)
+}
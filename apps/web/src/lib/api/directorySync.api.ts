@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Directory sync API client
+ *
+ * Provides functions to interact with /api/directory-sync endpoints.
+ *
+ * Synchronization of the employees with the company directory (LDAP /
+ * Active Directory), configured on the server and run every day by the
+ * scheduler or on demand.
+ *
+ * Requires ADMIN or GESTIONNAIRE role.
+ */
+
+import apiClient from './client'
+import type { ApiResponse, DirectorySyncRun, DirectorySyncStatus } from '@/lib/types/models.types'
+
+/**
+ * Fetch the directory settings, schedule and recent runs
+ *
+ * @returns Promise resolving to DirectorySyncStatus
+ */
+export async function getDirectorySyncApi(): Promise<DirectorySyncStatus> {
+  const response = await apiClient.get<ApiResponse<DirectorySyncStatus>>('/directory-sync')
+  return response.data.data
+}
+
+/**
+ * Run the directory synchronization now
+ *
+ * A failed synchronization (directory unreachable, invalid credentials)
+ * still resolves, with status FAILED and the error.
+ *
+ * @returns Promise resolving to the run, with created/updated/disabled counts
+ */
+export async function runDirectorySyncApi(): Promise<DirectorySyncRun> {
+  const response = await apiClient.post<ApiResponse<DirectorySyncRun>>('/directory-sync/run')
+  return response.data.data
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Employee imports API client
+ *
+ * Provides functions to interact with /api/employee-imports endpoints.
+ *
+ * Synchronization of the employee base with the monthly HR export: the rows
+ * of the file are compared on the server (new employees, changed fields,
+ * probable leavers), then the differences accepted by the reviewer are
+ * applied in one transaction and an import report is stored.
+ *
+ * Requires ADMIN or GESTIONNAIRE role.
+ */
+
+import apiClient from './client'
+import type {
+  EmployeeImport,
+  EmployeeImportPreview,
+  EmployeeImportRow,
+  ApplyEmployeeImportDto,
+  ApiResponse,
+} from '@/lib/types/models.types'
+import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination.types'
+
+/**
+ * Fetch the import reports, newest first (counters only)
+ *
+ * @param params - Pagination parameters
+ * @returns Promise resolving to paginated reports
+ */
+export async function getEmployeeImportsApi(params: PaginationParams = {}): Promise<PaginatedResponse<EmployeeImport>> {
+  const queryParams = new URLSearchParams()
+
+  if (params.page) queryParams.append('page', params.page.toString())
+  if (params.pageSize) queryParams.append('pageSize', params.pageSize.toString())
+
+  const response = await apiClient.get<PaginatedResponse<EmployeeImport>>(`/employee-imports?${queryParams.toString()}`)
+  return response.data
+}
+
+/**
+ * Fetch an import report with its applied, rejected and error entries
+ *
+ * @param id - Import ID
+ * @returns Promise resolving to EmployeeImport
+ */
+export async function getEmployeeImportApi(id: string): Promise<EmployeeImport> {
+  const response = await apiClient.get<ApiResponse<EmployeeImport>>(`/employee-imports/${id}`)
+  return response.data.data
+}
+
+/**
+ * Compare the rows of an HR file with the employee base (nothing is written)
+ *
+ * @param rows - Rows read from the HR file
+ * @returns Promise resolving to the differences and unusable rows
+ *
+ * @example
+ * const preview = await previewEmployeeImportApi([{ firstName: 'Jean', lastName: 'Dupont', dept: 'Woippy' }])
+ * // preview.entries = [{ key: 'row:1', type: 'NEW', ... }]
+ */
+export async function previewEmployeeImportApi(rows: EmployeeImportRow[]): Promise<EmployeeImportPreview> {
+  const response = await apiClient.post<ApiResponse<EmployeeImportPreview>>('/employee-imports/preview', { rows })
+  return response.data.data
+}
+
+/**
+ * Apply the accepted differences and store the import report
+ *
+ * The same rows as the preview must be sent: the server compares them again
+ * and refuses the import if the employee base changed meanwhile.
+ *
+ * @param data - File name, rows and keys of the accepted entries
+ * @returns Promise resolving to the stored report
+ */
+export async function applyEmployeeImportApi(data: ApplyEmployeeImportDto): Promise<EmployeeImport> {
+  const response = await apiClient.post<ApiResponse<EmployeeImport>>('/employee-imports', data)
+  return response.data.data
+}
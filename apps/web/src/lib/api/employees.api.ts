@@ -13,7 +13,9 @@ import apiClient from './client'
 import type {
   Employee,
   CreateEmployeeDto,
+  ImportEmployeeDto,
   UpdateEmployeeDto,
+  EmployeeOffboarding,
   ApiResponse,
 } from '@/lib/types/models.types'
 import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination.types'
@@ -22,8 +24,11 @@ import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination
  * Fetch all employees
  *
  * Returns all employees with loan count information.
+ * Archived employees are excluded unless requested.
  * Backend caps the unpaginated response at UNPAGINATED_MAX_ITEMS (1000).
  *
+ * @param params - Optional filters
+ * @param params.includeArchived - Also return archived employees
  * @returns Promise resolving to array of employees
  *
  * @example
@@ -33,8 +38,10 @@ import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination
  * //   ...
  * // ]
  */
-export async function getAllEmployeesApi(): Promise<Employee[]> {
-  const response = await apiClient.get<any>('/employees')
+export async function getAllEmployeesApi(params: { includeArchived?: boolean } = {}): Promise<Employee[]> {
+  const response = await apiClient.get<any>('/employees', {
+    params: params.includeArchived ? { includeArchived: 'true' } : undefined,
+  })
   // Handle both formats: direct array or {employees, pagination}
   const data = response.data.data
   return Array.isArray(data) ? data : data.employees
@@ -47,7 +54,13 @@ export async function getAllEmployeesApi(): Promise<Employee[]> {
  * @returns Promise resolving to paginated response
  */
 export async function getEmployeesApiPaginated(
-  params: PaginationParams & { search?: string; dept?: string } = {}
+  params: PaginationParams & {
+    search?: string
+    dept?: string
+    departmentId?: string
+    companyId?: string
+    includeArchived?: boolean
+  } = {}
 ): Promise<PaginatedResponse<Employee>> {
   const queryParams = new URLSearchParams()
 
@@ -57,6 +70,9 @@ export async function getEmployeesApiPaginated(
   if (params.sortOrder) queryParams.append('sortOrder', params.sortOrder)
   if (params.search) queryParams.append('search', params.search)
   if (params.dept) queryParams.append('dept', params.dept)
+  if (params.departmentId) queryParams.append('departmentId', params.departmentId)
+  if (params.companyId) queryParams.append('companyId', params.companyId)
+  if (params.includeArchived) queryParams.append('includeArchived', 'true')
 
   const response = await apiClient.get<PaginatedResponse<Employee>>(`/employees?${queryParams.toString()}`)
   return response.data
@@ -94,7 +110,7 @@ export async function getEmployeeApi(id: string): Promise<Employee> {
  * @param data.firstName - Employee first name
  * @param data.lastName - Employee last name
  * @param data.email - Employee email (optional, must be unique)
- * @param data.dept - Department or agency (optional)
+ * @param data.departmentId - Department or agency (optional)
  * @returns Promise resolving to created Employee
  * @throws {ConflictError} If email already exists (409)
  *
@@ -103,7 +119,7 @@ export async function getEmployeeApi(id: string): Promise<Employee> {
  *   firstName: 'Jean',
  *   lastName: 'Dupont',
  *   email: 'jean.dupont@example.com',
- *   dept: 'Woippy'
+ *   departmentId: 'deptWoippyId'
  * });
  */
 export async function createEmployeeApi(data: CreateEmployeeDto): Promise<Employee> {
@@ -118,7 +134,7 @@ export async function createEmployeeApi(data: CreateEmployeeDto): Promise<Employ
  * Skips employees with duplicate emails (both with existing database records
  * and within the batch). Returns detailed result with success/skip/error counts.
  *
- * @param employees - Array of employee creation data
+ * @param employees - Array of imported rows, department and company given by name
  * @returns Promise resolving to import result
  *
  * @example
@@ -129,7 +145,7 @@ export async function createEmployeeApi(data: CreateEmployeeDto): Promise<Employ
  * // result = { created: 2, skipped: 0, errors: [] }
  */
 export async function bulkCreateEmployeesApi(
-  employees: CreateEmployeeDto[]
+  employees: ImportEmployeeDto[]
 ): Promise<{ created: number; skipped: number; errors: Array<{ row: number; data: any; error: string }> }> {
   const response = await apiClient.post<ApiResponse<any>>('/employees/bulk', { employees })
   return response.data.data
@@ -146,14 +162,14 @@ export async function bulkCreateEmployeesApi(
  * @param data.firstName - Updated first name
  * @param data.lastName - Updated last name
  * @param data.email - Updated email (must be unique)
- * @param data.dept - Updated department
+ * @param data.departmentId - Updated department (null to clear)
  * @returns Promise resolving to updated Employee
  * @throws {NotFoundError} If employee doesn't exist (404)
  * @throws {ConflictError} If new email already exists (409)
  *
  * @example
  * const updated = await updateEmployeeApi('empId123', {
- *   dept: 'Paris'
+ *   departmentId: 'deptParisId'
  * });
  */
 export async function updateEmployeeApi(id: string, data: UpdateEmployeeDto): Promise<Employee> {
@@ -162,15 +178,16 @@ export async function updateEmployeeApi(id: string, data: UpdateEmployeeDto): Pr
 }
 
 /**
- * Delete employee
+ * Purge employee (ADMIN only)
  *
- * IMPORTANT: Employees with ANY loan history cannot be deleted.
- * This preserves audit trail and data integrity.
+ * IMPORTANT: Employees with ANY loan or reservation history cannot be
+ * deleted, even when their loans are in the trash: archive them instead.
  *
  * @param id - Employee ID to delete
  * @returns Promise resolving when deletion is complete
  * @throws {NotFoundError} If employee doesn't exist (404)
  * @throws {ValidationError} If employee has loan history (400)
+ * @throws {ForbiddenError} If the user is not an administrator (403)
  *
  * @example
  * await deleteEmployeeApi('empId123');
@@ -179,3 +196,80 @@ export async function updateEmployeeApi(id: string, data: UpdateEmployeeDto): Pr
 export async function deleteEmployeeApi(id: string): Promise<void> {
   await apiClient.delete(`/employees/${id}`)
 }
+
+/**
+ * Archive employee
+ *
+ * The employee is hidden from the pickers and the default listing, their
+ * history is kept. Refused while equipment is still on loan.
+ *
+ * @param id - Employee ID
+ * @returns Promise resolving to the archived Employee
+ * @throws {ValidationError} If already archived or lines are outstanding (400)
+ */
+export async function archiveEmployeeApi(id: string): Promise<Employee> {
+  const response = await apiClient.post<ApiResponse<Employee>>(`/employees/${id}/archive`)
+  return response.data.data
+}
+
+/**
+ * Reactivate an archived employee (departure date cleared)
+ *
+ * @param id - Employee ID
+ * @returns Promise resolving to the reactivated Employee
+ * @throws {ValidationError} If the employee is not archived (400)
+ */
+export async function unarchiveEmployeeApi(id: string): Promise<Employee> {
+  const response = await apiClient.post<ApiResponse<Employee>>(`/employees/${id}/unarchive`)
+  return response.data.data
+}
+
+/**
+ * Fetch the offboarding checklist of an employee
+ *
+ * Lists the lines still held on open loans: each must be returned,
+ * transferred or written off before the departure can be completed.
+ *
+ * @param id - Employee ID
+ * @returns Promise resolving to the checklist
+ */
+export async function getEmployeeOffboardingApi(id: string): Promise<EmployeeOffboarding> {
+  const response = await apiClient.get<ApiResponse<EmployeeOffboarding>>(`/employees/${id}/offboarding`)
+  return response.data.data
+}
+
+/**
+ * Start (or reschedule) the offboarding of an employee
+ *
+ * @param id - Employee ID
+ * @param departureDate - Last working day (yyyy-MM-dd)
+ * @returns Promise resolving to the checklist
+ * @throws {ValidationError} If the departure is already completed (400)
+ */
+export async function startEmployeeOffboardingApi(id: string, departureDate: string): Promise<EmployeeOffboarding> {
+  const response = await apiClient.post<ApiResponse<EmployeeOffboarding>>(`/employees/${id}/offboarding`, { departureDate })
+  return response.data.data
+}
+
+/**
+ * Cancel a pending offboarding
+ *
+ * @param id - Employee ID
+ * @returns Promise resolving to the updated Employee
+ */
+export async function cancelEmployeeOffboardingApi(id: string): Promise<Employee> {
+  const response = await apiClient.delete<ApiResponse<Employee>>(`/employees/${id}/offboarding`)
+  return response.data.data
+}
+
+/**
+ * Complete the offboarding: the employee is marked as departed
+ *
+ * @param id - Employee ID
+ * @returns Promise resolving to the archived Employee
+ * @throws {ValidationError} If lines are still outstanding (400)
+ */
+export async function completeEmployeeOffboardingApi(id: string): Promise<Employee> {
+  const response = await apiClient.post<ApiResponse<Employee>>(`/employees/${id}/offboarding/complete`)
+  return response.data.data
+}
@@ -9,6 +9,8 @@ import apiClient from './client'
 interface ExportEmployeesFilters {
   search?: string
   dept?: string
+  departmentId?: string
+  companyId?: string
 }
 
 interface ExportAssetModelsFilters {
@@ -26,9 +28,17 @@ interface ExportStockItemsFilters {
   lowStock?: boolean
 }
 
+interface ExportDisposalRegisterFilters {
+  from?: string
+  to?: string
+  reason?: string
+}
+
 interface ExportLoansFilters {
   status?: string
   employeeId?: string
+  departmentId?: string
+  companyId?: string
   startDate?: string
   endDate?: string
 }
@@ -54,6 +64,8 @@ export async function exportEmployees(filters: ExportEmployeesFilters = {}) {
   const params = new URLSearchParams()
   if (filters.search) params.append('search', filters.search)
   if (filters.dept) params.append('dept', filters.dept)
+  if (filters.departmentId) params.append('departmentId', filters.departmentId)
+  if (filters.companyId) params.append('companyId', filters.companyId)
 
   const response = await apiClient.get(`/export/employees?${params.toString()}`, {
     responseType: 'blob',
@@ -113,6 +125,18 @@ export async function exportStockItems(filters: ExportStockItemsFilters = {}) {
   downloadExcelFile(response.data, filename)
 }
 
+/**
+ * Export liste de réapprovisionnement vers Excel (une feuille par fournisseur)
+ */
+export async function exportReorderList() {
+  const response = await apiClient.get('/export/reorder-list', {
+    responseType: 'blob',
+  })
+
+  const filename = `Reapprovisionnement_${new Date().toISOString().slice(0, 10)}.xlsx`
+  downloadExcelFile(response.data, filename)
+}
+
 /**
  * Export prêts vers Excel
  */
@@ -120,6 +144,8 @@ export async function exportLoans(filters: ExportLoansFilters = {}) {
   const params = new URLSearchParams()
   if (filters.status) params.append('status', filters.status)
   if (filters.employeeId) params.append('employeeId', filters.employeeId)
+  if (filters.departmentId) params.append('departmentId', filters.departmentId)
+  if (filters.companyId) params.append('companyId', filters.companyId)
   if (filters.startDate) params.append('startDate', filters.startDate)
   if (filters.endDate) params.append('endDate', filters.endDate)
 
@@ -131,6 +157,23 @@ export async function exportLoans(filters: ExportLoansFilters = {}) {
   downloadExcelFile(response.data, filename)
 }
 
+/**
+ * Export registre des sorties (équipements réformés) vers Excel
+ */
+export async function exportDisposalRegister(filters: ExportDisposalRegisterFilters = {}) {
+  const params = new URLSearchParams()
+  if (filters.from) params.append('from', filters.from)
+  if (filters.to) params.append('to', filters.to)
+  if (filters.reason) params.append('reason', filters.reason)
+
+  const response = await apiClient.get(`/export/disposals?${params.toString()}`, {
+    responseType: 'blob',
+  })
+
+  const filename = `Registre_Sorties_${new Date().toISOString().slice(0, 10)}.xlsx`
+  downloadExcelFile(response.data, filename)
+}
+
 /**
  * Export dashboard complet (multi-feuilles)
  */
@@ -148,6 +191,8 @@ export default {
   exportAssetModels,
   exportAssetItems,
   exportStockItems,
+  exportReorderList,
   exportLoans,
+  exportDisposalRegister,
   exportDashboard,
 }
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Inventory campaigns API client
+ *
+ * Provides functions to interact with /api/inventory-campaigns endpoints.
+ *
+ * A campaign is a physical count (stocktake), optionally scoped by equipment
+ * type and/or location: asset items are checked off, stock items counted,
+ * then the reconciliation report lists found, missing and unexpected items
+ * and stock variances.
+ *
+ * Requires ADMIN or GESTIONNAIRE role; opening, closing and applying the
+ * results are reserved to ADMIN.
+ */
+
+import apiClient from './client'
+import type {
+  InventoryCampaign,
+  InventoryCampaignFilters,
+  InventoryReport,
+  InventoryAssetCheck,
+  CheckInventoryAssetDto,
+  CreateInventoryCampaignDto,
+  StockCorrectionsResult,
+  ApiResponse,
+} from '@/lib/types/models.types'
+import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination.types'
+
+/**
+ * Fetch inventory campaigns, newest first
+ *
+ * @param params - Pagination parameters and status filter
+ * @returns Promise resolving to paginated campaigns
+ */
+export async function getInventoryCampaignsApi(
+  params: PaginationParams & InventoryCampaignFilters = {}
+): Promise<PaginatedResponse<InventoryCampaign>> {
+  const queryParams = new URLSearchParams()
+
+  if (params.page) queryParams.append('page', params.page.toString())
+  if (params.pageSize) queryParams.append('pageSize', params.pageSize.toString())
+  if (params.status) queryParams.append('status', params.status)
+
+  const response = await apiClient.get<PaginatedResponse<InventoryCampaign>>(`/inventory-campaigns?${queryParams.toString()}`)
+  return response.data
+}
+
+/**
+ * Fetch a single inventory campaign
+ *
+ * @param id - Campaign ID
+ * @returns Promise resolving to InventoryCampaign
+ */
+export async function getInventoryCampaignApi(id: string): Promise<InventoryCampaign> {
+  const response = await apiClient.get<ApiResponse<InventoryCampaign>>(`/inventory-campaigns/${id}`)
+  return response.data.data
+}
+
+/**
+ * Fetch the reconciliation report of a campaign
+ *
+ * Live while the campaign is open (missing = not checked yet), frozen once closed.
+ *
+ * @param id - Campaign ID
+ * @returns Promise resolving to InventoryReport
+ */
+export async function getInventoryReportApi(id: string): Promise<InventoryReport> {
+  const response = await apiClient.get<ApiResponse<InventoryReport>>(`/inventory-campaigns/${id}/report`)
+  return response.data.data
+}
+
+/**
+ * Open an inventory campaign (ADMIN)
+ *
+ * @param data - Name, optional scope (equipment type, location) and notes
+ * @returns Promise resolving to created InventoryCampaign
+ */
+export async function createInventoryCampaignApi(data: CreateInventoryCampaignDto): Promise<InventoryCampaign> {
+  const response = await apiClient.post<ApiResponse<InventoryCampaign>>('/inventory-campaigns', data)
+  return response.data.data
+}
+
+/**
+ * Check off an asset item found on site, by ID or scanned code
+ *
+ * @param id - Campaign ID
+ * @param data - `assetItemId` or `code` (asset tag or serial number)
+ * @returns Promise resolving to the check, with `alreadyChecked` and `expected`
+ * @throws {NotFoundError} If no asset item matches the code (404)
+ */
+export async function checkInventoryAssetApi(id: string, data: CheckInventoryAssetDto): Promise<InventoryAssetCheck> {
+  const response = await apiClient.post<ApiResponse<InventoryAssetCheck>>(`/inventory-campaigns/${id}/asset-checks`, data)
+  return response.data.data
+}
+
+/**
+ * Undo the check of an asset item
+ *
+ * @param id - Campaign ID
+ * @param assetItemId - Asset item ID
+ */
+export async function uncheckInventoryAssetApi(id: string, assetItemId: string): Promise<void> {
+  await apiClient.delete(`/inventory-campaigns/${id}/asset-checks/${assetItemId}`)
+}
+
+/**
+ * Record the counted shelf quantity of a stock item (replaces a previous count)
+ *
+ * @param id - Campaign ID
+ * @param stockItemId - Stock item ID
+ * @param countedQuantity - Quantity found on the shelf
+ */
+export async function countInventoryStockApi(id: string, stockItemId: string, countedQuantity: number): Promise<void> {
+  await apiClient.put(`/inventory-campaigns/${id}/stock-counts/${stockItemId}`, { countedQuantity })
+}
+
+/**
+ * Close a campaign and freeze its report (ADMIN)
+ *
+ * @param id - Campaign ID
+ * @returns Promise resolving to closed InventoryCampaign
+ */
+export async function closeInventoryCampaignApi(id: string): Promise<InventoryCampaign> {
+  const response = await apiClient.post<ApiResponse<InventoryCampaign>>(`/inventory-campaigns/${id}/close`)
+  return response.data.data
+}
+
+/**
+ * Apply the stock variances of a closed campaign as quantity adjustments (ADMIN)
+ *
+ * @param id - Campaign ID
+ * @param stockItemIds - Only these stock items (all variances by default)
+ * @returns Promise resolving to applied and failed corrections
+ */
+export async function applyStockCorrectionsApi(id: string, stockItemIds?: string[]): Promise<StockCorrectionsResult> {
+  const response = await apiClient.post<ApiResponse<StockCorrectionsResult>>(
+    `/inventory-campaigns/${id}/apply-stock-corrections`,
+    stockItemIds ? { stockItemIds } : {}
+  )
+  return response.data.data
+}
+
+/**
+ * Flag the missing asset items of a closed campaign (ADMIN)
+ *
+ * @param id - Campaign ID
+ * @param assetItemIds - Only these items (all missing items by default)
+ * @returns Promise resolving to the IDs of the flagged items
+ */
+export async function flagMissingItemsApi(id: string, assetItemIds?: string[]): Promise<{ flagged: string[] }> {
+  const response = await apiClient.post<ApiResponse<{ flagged: string[] }>>(
+    `/inventory-campaigns/${id}/flag-missing`,
+    assetItemIds ? { assetItemIds } : {}
+  )
+  return response.data.data
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Loan kits API client
+ *
+ * Provides functions to interact with /api/loan-kits endpoints.
+ *
+ * A loan kit is a named bundle of components (asset models and/or stock
+ * items with a quantity), e.g. "Kit télétravail" = laptop + dock + headset.
+ * Adding a kit to a loan picks available items for each component.
+ *
+ * Listing requires ADMIN or GESTIONNAIRE role, changes require ADMIN.
+ */
+
+import apiClient from './client'
+import type {
+  LoanKit,
+  CreateLoanKitDto,
+  UpdateLoanKitDto,
+  ApiResponse,
+} from '@/lib/types/models.types'
+
+/**
+ * Fetch all loan kits
+ *
+ * @returns Promise resolving to kits ordered by name, with their components
+ *
+ * @example
+ * const kits = await getLoanKitsApi();
+ */
+export async function getLoanKitsApi(): Promise<LoanKit[]> {
+  const response = await apiClient.get<ApiResponse<LoanKit[]>>('/loan-kits')
+  return response.data.data
+}
+
+/**
+ * Create loan kit
+ *
+ * @param data - Name, description and components
+ * @returns Promise resolving to created LoanKit
+ * @throws {ValidationError} If data is invalid (400)
+ * @throws {ConflictError} If a kit with the same name exists (409)
+ *
+ * @example
+ * await createLoanKitApi({
+ *   name: 'Kit télétravail',
+ *   items: [{ assetModelId: 'laptopModelId', quantity: 1 }, { stockItemId: 'headsetId', quantity: 1 }]
+ * });
+ */
+export async function createLoanKitApi(data: CreateLoanKitDto): Promise<LoanKit> {
+  const response = await apiClient.post<ApiResponse<LoanKit>>('/loan-kits', data)
+  return response.data.data
+}
+
+/**
+ * Update loan kit
+ *
+ * When `items` is provided, it replaces all the kit components.
+ *
+ * @param id - Kit ID
+ * @param data - Fields to update
+ * @returns Promise resolving to updated LoanKit
+ * @throws {NotFoundError} If kit doesn't exist (404)
+ * @throws {ConflictError} If the new name is already used (409)
+ */
+export async function updateLoanKitApi(id: string, data: UpdateLoanKitDto): Promise<LoanKit> {
+  const response = await apiClient.patch<ApiResponse<LoanKit>>(`/loan-kits/${id}`, data)
+  return response.data.data
+}
+
+/**
+ * Delete loan kit
+ *
+ * Loans created from the kit are not affected.
+ *
+ * @param id - Kit ID
+ * @throws {NotFoundError} If kit doesn't exist (404)
+ */
+export async function deleteLoanKitApi(id: string): Promise<void> {
+  await apiClient.delete(`/loan-kits/${id}`)
+}
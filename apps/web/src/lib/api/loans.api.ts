@@ -19,7 +19,15 @@ import apiClient from './client'
 import type {
   Loan,
   CreateLoanDto,
+  UpdateLoanDto,
   AddLoanLineDto,
+  ReturnInspectionDto,
+  LoanLineInspectionDto,
+  TransferLoanLinesDto,
+  WriteOffLoanLineDto,
+  AddLoanKitResult,
+  DeletedLoan,
+  PurgeLoansResult,
   ApiResponse,
 } from '@/lib/types/models.types'
 import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination.types'
@@ -61,6 +69,9 @@ export async function getAllLoansApi(): Promise<Loan[]> {
  * @param params.pageSize - Items per page (default: 20, max: 100)
  * @param params.status - Filter by status ('OPEN' or 'CLOSED')
  * @param params.employeeId - Filter by employee ID
+ * @param params.departmentId - Filter by the borrower's department
+ * @param params.companyId - Filter by the company of the borrower's department
+ * @param params.overdue - Only return open loans past their due date
  * @param params.sortBy - Field to sort by (default: 'openedAt')
  * @param params.sortOrder - Sort order (default: 'desc')
  * @returns Promise resolving to paginated response
@@ -87,7 +98,14 @@ export async function getAllLoansApi(): Promise<Loan[]> {
  * // }
  */
 export async function getLoansApiPaginated(
-  params: PaginationParams & { status?: string; employeeId?: string; search?: string } = {}
+  params: PaginationParams & {
+    status?: string
+    employeeId?: string
+    departmentId?: string
+    companyId?: string
+    search?: string
+    overdue?: boolean
+  } = {}
 ): Promise<PaginatedResponse<Loan>> {
   const queryParams = new URLSearchParams()
 
@@ -97,7 +115,10 @@ export async function getLoansApiPaginated(
   if (params.sortOrder) queryParams.append('sortOrder', params.sortOrder)
   if (params.status) queryParams.append('status', params.status)
   if (params.employeeId) queryParams.append('employeeId', params.employeeId)
+  if (params.departmentId) queryParams.append('departmentId', params.departmentId)
+  if (params.companyId) queryParams.append('companyId', params.companyId)
   if (params.search) queryParams.append('search', params.search)
+  if (params.overdue) queryParams.append('overdue', 'true')
 
   const response = await apiClient.get<PaginatedResponse<Loan>>(`/loans?${queryParams.toString()}`)
   return response.data
@@ -138,6 +159,7 @@ export async function getLoanApi(id: string): Promise<Loan> {
  *
  * @param data - Loan creation data
  * @param data.employeeId - Employee borrowing the equipment
+ * @param data.dueAt - Optional expected return date (ISO string)
  * @returns Promise resolving to created Loan (empty lines array)
  * @throws {NotFoundError} If employee doesn't exist (404)
  *
@@ -152,6 +174,28 @@ export async function createLoanApi(data: CreateLoanDto): Promise<Loan> {
   return response.data.data
 }
 
+/**
+ * Update loan
+ *
+ * Updates editable fields of an OPEN loan (currently the expected return date).
+ *
+ * @param loanId - Loan ID to update
+ * @param data - Fields to update
+ * @param data.dueAt - Expected return date (ISO string), null to clear it
+ * @returns Promise resolving to updated Loan
+ * @throws {NotFoundError} If loan doesn't exist (404)
+ * @throws {ValidationError} If loan is closed or deleted (400)
+ *
+ * @example
+ * const loan = await updateLoanApi('loanId123', {
+ *   dueAt: '2024-02-15T22:59:59.000Z'
+ * });
+ */
+export async function updateLoanApi(loanId: string, data: UpdateLoanDto): Promise<Loan> {
+  const response = await apiClient.patch<ApiResponse<Loan>>(`/loans/${loanId}`, data)
+  return response.data.data
+}
+
 /**
  * Add line to loan
  *
@@ -166,6 +210,7 @@ export async function createLoanApi(data: CreateLoanDto): Promise<Loan> {
  * @param data.assetItemId - Asset item to add (mutually exclusive with stockItemId)
  * @param data.stockItemId - Stock item to add (mutually exclusive with assetItemId)
  * @param data.quantity - Quantity for stock items (default: 1, required for stock)
+ * @param data.dueAt - Optional expected return date for this line (ISO string)
  * @returns Promise resolving to updated Loan with new line
  * @throws {NotFoundError} If loan or item doesn't exist (404)
  * @throws {ValidationError} If loan is closed or item unavailable (400)
@@ -212,6 +257,138 @@ export async function removeLoanLineApi(loanId: string, lineId: string): Promise
   return response.data.data
 }
 
+/**
+ * Return loan line (partial return)
+ *
+ * Marks a single line as returned without removing it from the loan.
+ * For asset items: status reverted to EN_STOCK.
+ * For stock items: loaned quantity released.
+ *
+ * The loan is closed automatically when its last line is returned.
+ *
+ * An optional inspection routes the asset: OK → EN_STOCK,
+ * DAMAGED → REPARATION, MISSING → HS.
+ *
+ * @param loanId - Loan ID
+ * @param lineId - Line ID being returned
+ * @param inspection - Optional return inspection (asset lines only)
+ * @returns Promise resolving to updated Loan (line has returnedAt set)
+ * @throws {NotFoundError} If loan or line doesn't exist (404)
+ * @throws {ValidationError} If loan is closed or line already returned (400)
+ *
+ * @example
+ * const loan = await returnLoanLineApi('loanId123', 'dockLineId', {
+ *   condition: 'DAMAGED',
+ *   note: 'Connecteur cassé'
+ * });
+ * // loan.lines[n].returnedAt = '2024-01-15T10:30:00Z'
+ */
+export async function returnLoanLineApi(
+  loanId: string,
+  lineId: string,
+  inspection?: ReturnInspectionDto
+): Promise<Loan> {
+  const response = await apiClient.patch<ApiResponse<Loan>>(`/loans/${loanId}/lines/${lineId}/return`, inspection ?? {})
+  return response.data.data
+}
+
+/**
+ * Write off an outstanding line that will never come back
+ *
+ * The line is closed as missing; the asset item is retired with the
+ * reason (PERTE / VOL), the stock units are removed from the quantity.
+ *
+ * @param loanId - Loan ID
+ * @param lineId - Outstanding line ID
+ * @param data - Reason and note
+ * @returns Promise resolving to the updated Loan
+ */
+export async function writeOffLoanLineApi(loanId: string, lineId: string, data: WriteOffLoanLineDto = {}): Promise<Loan> {
+  const response = await apiClient.patch<ApiResponse<Loan>>(`/loans/${loanId}/lines/${lineId}/write-off`, data)
+  return response.data.data
+}
+
+/**
+ * Transfer loan lines to another employee
+ *
+ * Moves the selected outstanding lines to a new OPEN loan for another
+ * employee in a single transaction. Items stay PRETE (never back in stock).
+ * The new loan has no pickup signature yet: the new employee must sign it.
+ * The source loan is closed when no outstanding line is left.
+ *
+ * @param loanId - Source loan ID
+ * @param data - Target employee, lines to move and optional due date
+ * @returns Promise resolving to the new Loan
+ * @throws {NotFoundError} If loan or employee doesn't exist (404)
+ * @throws {ValidationError} If loan is closed, same employee or invalid lines (400)
+ *
+ * @example
+ * const newLoan = await transferLoanLinesApi('loanId123', {
+ *   employeeId: 'newcomerId',
+ *   lineIds: ['laptopLineId']
+ * });
+ * navigate(`/loans/${newLoan.id}`);
+ */
+export async function transferLoanLinesApi(loanId: string, data: TransferLoanLinesDto): Promise<Loan> {
+  const response = await apiClient.post<ApiResponse<Loan>>(`/loans/${loanId}/transfer`, data)
+  return response.data.data
+}
+
+/**
+ * Add a loan kit to a loan
+ *
+ * Adds one line per available item for each kit component, in a single
+ * transaction. Components that cannot be fully satisfied (not enough
+ * items in stock, or items reserved for someone else) are reported in
+ * `missing` instead of failing the whole request.
+ *
+ * @param loanId - Loan ID
+ * @param kitId - Loan kit ID
+ * @returns Promise resolving to the updated loan and the missing components
+ * @throws {NotFoundError} If loan or kit doesn't exist (404)
+ * @throws {ValidationError} If loan is closed (400)
+ *
+ * @example
+ * const { loan, missing } = await addLoanKitApi('loanId123', 'kitId456');
+ * if (missing.length > 0) console.warn(missing);
+ */
+export async function addLoanKitApi(loanId: string, kitId: string): Promise<AddLoanKitResult> {
+  const response = await apiClient.post<ApiResponse<AddLoanKitResult>>(`/loans/${loanId}/kit`, { kitId })
+  return response.data.data
+}
+
+/**
+ * Download the loan receipt ("bon de prêt") PDF
+ *
+ * The server renders the employee, the lines (asset tags, serial numbers,
+ * returns) and both signature images. The file is saved by the browser
+ * under the name provided by the server.
+ *
+ * @param loanId - Loan ID
+ * @throws {NotFoundError} If loan doesn't exist (404)
+ *
+ * @example
+ * await downloadLoanReceiptApi('loanId123');
+ */
+export async function downloadLoanReceiptApi(loanId: string): Promise<void> {
+  const response = await apiClient.get<Blob>(`/loans/${loanId}/receipt`, {
+    responseType: 'blob',
+  })
+
+  const disposition = String(response.headers['content-disposition'] ?? '')
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1]
+    ?? `Bon_de_pret_${new Date().toISOString().slice(0, 10)}.pdf`
+
+  const url = window.URL.createObjectURL(response.data)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
+
 /**
  * Upload pickup signature
  *
@@ -309,19 +486,27 @@ export async function uploadReturnSignatureApi(loanId: string, fileOrBase64: Fil
  * Marks loan as CLOSED and sets closedAt timestamp.
  * Requires at least one line and pickup signature.
  *
+ * The return checklist decides what happens to each asset:
+ * OK → EN_STOCK, DAMAGED → REPARATION, MISSING → HS.
+ * Assets without inspection go back to EN_STOCK.
+ *
  * Once closed, loan cannot be modified (no adding/removing lines).
  *
  * @param loanId - Loan ID to close
+ * @param inspections - Optional return checklist (one entry per asset line)
  * @returns Promise resolving to closed Loan with status='CLOSED' and closedAt
  * @throws {NotFoundError} If loan doesn't exist (404)
  * @throws {ValidationError} If no lines or no pickup signature (400)
  *
  * @example
- * const loan = await closeLoanApi('loanId123');
+ * const loan = await closeLoanApi('loanId123', [
+ *   { lineId: 'line1', condition: 'OK' },
+ *   { lineId: 'line2', condition: 'DAMAGED', note: 'Écran fissuré' }
+ * ]);
  * // loan.status = 'CLOSED', loan.closedAt = '2024-01-15T10:30:00Z'
  */
-export async function closeLoanApi(loanId: string): Promise<Loan> {
-  const response = await apiClient.patch<ApiResponse<Loan>>(`/loans/${loanId}/close`)
+export async function closeLoanApi(loanId: string, inspections?: LoanLineInspectionDto[]): Promise<Loan> {
+  const response = await apiClient.patch<ApiResponse<Loan>>(`/loans/${loanId}/close`, { inspections })
   return response.data.data
 }
 
@@ -375,6 +560,60 @@ export async function batchDeleteLoansApi(loanIds: string[]): Promise<{
   return response.data.data;
 }
 
+/**
+ * Fetch soft-deleted loans (trash, ADMIN only)
+ *
+ * Most recently deleted first, with who deleted them and `purgeAt`,
+ * the date the retention policy deletes them permanently.
+ *
+ * @param params - Pagination parameters and employee search
+ * @returns Promise resolving to paginated deleted loans
+ */
+export async function getDeletedLoansApi(
+  params: PaginationParams & { search?: string } = {}
+): Promise<PaginatedResponse<DeletedLoan>> {
+  const queryParams = new URLSearchParams()
+
+  if (params.page) queryParams.append('page', params.page.toString())
+  if (params.pageSize) queryParams.append('pageSize', params.pageSize.toString())
+  if (params.search) queryParams.append('search', params.search)
+
+  const response = await apiClient.get<PaginatedResponse<DeletedLoan>>(`/loans/trash?${queryParams.toString()}`)
+  return response.data
+}
+
+/**
+ * Restore a soft-deleted loan (ADMIN only)
+ *
+ * Fails with 409 if an item was lent elsewhere since the deletion.
+ *
+ * @param id - Loan ID
+ * @returns Promise resolving to the restored loan
+ */
+export async function restoreLoanApi(id: string): Promise<Loan> {
+  const response = await apiClient.post<ApiResponse<Loan>>(`/loans/trash/${id}/restore`)
+  return response.data.data
+}
+
+/**
+ * Permanently delete a loan from the trash (ADMIN only)
+ *
+ * @param id - Loan ID
+ */
+export async function purgeLoanApi(id: string): Promise<void> {
+  await apiClient.delete(`/loans/trash/${id}`)
+}
+
+/**
+ * Permanently delete loans kept in the trash longer than the retention (ADMIN only)
+ *
+ * @returns Promise resolving to the number of purged loans
+ */
+export async function purgeExpiredLoansApi(): Promise<PurgeLoansResult> {
+  const response = await apiClient.post<ApiResponse<PurgeLoansResult>>('/loans/trash/purge')
+  return response.data.data
+}
+
 /**
  * Delete pickup signature (ADMIN only)
  *
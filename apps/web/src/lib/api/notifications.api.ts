@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Notifications API client
+ *
+ * Provides functions to interact with /api/notifications endpoints.
+ *
+ * Employees always receive emails about their own loans. Users choose which
+ * loan emails they receive for the employees they manage; admins can browse
+ * the delivery log and trigger overdue reminders.
+ */
+
+import apiClient from './client'
+import type {
+  NotificationSettings,
+  UpdateNotificationSettingsDto,
+  NotificationLog,
+  NotificationLogFilters,
+  OverdueRemindersResult,
+  ApiResponse,
+} from '@/lib/types/models.types'
+import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination.types'
+
+/**
+ * Fetch the notification preferences of the current user
+ *
+ * @returns Promise resolving to preferences (all false until changed)
+ */
+export async function getNotificationSettingsApi(): Promise<NotificationSettings> {
+  const response = await apiClient.get<ApiResponse<NotificationSettings>>('/notifications/settings')
+  return response.data.data
+}
+
+/**
+ * Update the notification preferences of the current user
+ *
+ * @param data - Preferences to change
+ * @returns Promise resolving to the updated preferences
+ *
+ * @example
+ * await updateNotificationSettingsApi({ overdueReminder: true });
+ */
+export async function updateNotificationSettingsApi(data: UpdateNotificationSettingsDto): Promise<NotificationSettings> {
+  const response = await apiClient.put<ApiResponse<NotificationSettings>>('/notifications/settings', data)
+  return response.data.data
+}
+
+/**
+ * Fetch the email delivery log, newest first (ADMIN)
+ *
+ * @param params - Pagination and filters
+ * @returns Promise resolving to paginated response
+ */
+export async function getNotificationLogsApi(
+  params: Pick<PaginationParams, 'page' | 'pageSize'> & NotificationLogFilters = {}
+): Promise<PaginatedResponse<NotificationLog>> {
+  const queryParams = new URLSearchParams()
+
+  if (params.page) queryParams.append('page', params.page.toString())
+  if (params.pageSize) queryParams.append('pageSize', params.pageSize.toString())
+  if (params.status) queryParams.append('status', params.status)
+  if (params.event) queryParams.append('event', params.event)
+  if (params.loanId) queryParams.append('loanId', params.loanId)
+  if (params.recipient) queryParams.append('recipient', params.recipient)
+
+  const response = await apiClient.get<PaginatedResponse<NotificationLog>>(`/notifications/logs?${queryParams.toString()}`)
+  return response.data
+}
+
+/**
+ * Send reminders for overdue loans now (ADMIN)
+ *
+ * Loans already reminded in the last 24 hours are skipped.
+ *
+ * @returns Promise resolving to processed loans and delivery counts
+ */
+export async function sendOverdueRemindersApi(): Promise<OverdueRemindersResult> {
+  const response = await apiClient.post<ApiResponse<OverdueRemindersResult>>('/notifications/overdue-reminders')
+  return response.data.data
+}
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Purchase orders API client
+ *
+ * Provides functions to interact with /api/purchase-orders endpoints.
+ *
+ * An order is drafted with its supplier and lines (asset model, quantity,
+ * unit price in cents), then placed. Each reception creates the serialized
+ * asset items (one per serial number) and increments the consumable stock,
+ * in one transaction on the server.
+ *
+ * Requires ADMIN or GESTIONNAIRE role.
+ */
+
+import apiClient from './client'
+import type {
+  PurchaseOrder,
+  PurchaseOrderFilters,
+  CreatePurchaseOrderDto,
+  UpdatePurchaseOrderDto,
+  ReceivePurchaseOrderDto,
+  PurchaseOrderReceptionResult,
+  ApiResponse,
+} from '@/lib/types/models.types'
+import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination.types'
+
+/**
+ * Fetch purchase orders, newest first
+ *
+ * @param params - Pagination parameters, status and supplier filters
+ * @returns Promise resolving to paginated orders
+ */
+export async function getPurchaseOrdersApi(
+  params: PaginationParams & PurchaseOrderFilters = {}
+): Promise<PaginatedResponse<PurchaseOrder>> {
+  const queryParams = new URLSearchParams()
+
+  if (params.page) queryParams.append('page', params.page.toString())
+  if (params.pageSize) queryParams.append('pageSize', params.pageSize.toString())
+  if (params.status) queryParams.append('status', params.status)
+  if (params.supplierId) queryParams.append('supplierId', params.supplierId)
+
+  const response = await apiClient.get<PaginatedResponse<PurchaseOrder>>(`/purchase-orders?${queryParams.toString()}`)
+  return response.data
+}
+
+/**
+ * Fetch a single purchase order with the asset items received on each line
+ *
+ * @param id - Order ID
+ * @returns Promise resolving to PurchaseOrder
+ */
+export async function getPurchaseOrderApi(id: string): Promise<PurchaseOrder> {
+  const response = await apiClient.get<ApiResponse<PurchaseOrder>>(`/purchase-orders/${id}`)
+  return response.data.data
+}
+
+/**
+ * Create a draft purchase order
+ *
+ * @param data - Supplier, notes and lines
+ * @returns Promise resolving to created PurchaseOrder
+ */
+export async function createPurchaseOrderApi(data: CreatePurchaseOrderDto): Promise<PurchaseOrder> {
+  const response = await apiClient.post<ApiResponse<PurchaseOrder>>('/purchase-orders', data)
+  return response.data.data
+}
+
+/**
+ * Update a draft purchase order (lines replace the current ones)
+ *
+ * @param id - Order ID
+ * @param data - Fields to update
+ * @returns Promise resolving to updated PurchaseOrder
+ */
+export async function updatePurchaseOrderApi(id: string, data: UpdatePurchaseOrderDto): Promise<PurchaseOrder> {
+  const response = await apiClient.patch<ApiResponse<PurchaseOrder>>(`/purchase-orders/${id}`, data)
+  return response.data.data
+}
+
+/**
+ * Place a draft order with its supplier (lines are frozen afterwards)
+ *
+ * @param id - Order ID
+ * @returns Promise resolving to ordered PurchaseOrder
+ */
+export async function placePurchaseOrderApi(id: string): Promise<PurchaseOrder> {
+  const response = await apiClient.post<ApiResponse<PurchaseOrder>>(`/purchase-orders/${id}/place`)
+  return response.data.data
+}
+
+/**
+ * Receive (part of) a purchase order
+ *
+ * @param id - Order ID
+ * @param data - Serial numbers or quantity per line, invoice number, delivery date and location
+ * @returns Promise resolving to the updated order, created asset items and incremented stock items
+ * @throws {ConflictError} If a serial number already exists (409)
+ */
+export async function receivePurchaseOrderApi(id: string, data: ReceivePurchaseOrderDto): Promise<PurchaseOrderReceptionResult> {
+  const response = await apiClient.post<ApiResponse<PurchaseOrderReceptionResult>>(`/purchase-orders/${id}/receptions`, data)
+  return response.data.data
+}
+
+/**
+ * Delete a draft purchase order
+ *
+ * @param id - Order ID
+ */
+export async function deletePurchaseOrderApi(id: string): Promise<void> {
+  await apiClient.delete(`/purchase-orders/${id}`)
+}
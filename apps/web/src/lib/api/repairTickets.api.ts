@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Repair tickets API client
+ *
+ * Provides functions to interact with /api/repair-tickets endpoints.
+ *
+ * Opening a ticket moves the asset item to REPARATION; closing it sets
+ * the item back EN_STOCK (REPAIRED) or HS (SCRAPPED). Amounts are in cents.
+ *
+ * Requires ADMIN or GESTIONNAIRE role.
+ */
+
+import apiClient from './client'
+import type {
+  RepairTicket,
+  CreateRepairTicketDto,
+  UpdateRepairTicketDto,
+  CloseRepairTicketDto,
+  RepairTicketFilters,
+  ApiResponse,
+} from '@/lib/types/models.types'
+import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination.types'
+
+/**
+ * Fetch repair tickets
+ *
+ * With `open: true`, only tickets not closed yet are returned, the
+ * earliest expected return first. Otherwise newest first.
+ *
+ * @param params - Pagination parameters and filters
+ * @returns Promise resolving to paginated repair tickets
+ *
+ * @example
+ * const { data } = await getRepairTicketsApi({ open: true, pageSize: 5 });
+ */
+export async function getRepairTicketsApi(
+  params: PaginationParams & RepairTicketFilters = {}
+): Promise<PaginatedResponse<RepairTicket>> {
+  const queryParams = new URLSearchParams()
+
+  if (params.page) queryParams.append('page', params.page.toString())
+  if (params.pageSize) queryParams.append('pageSize', params.pageSize.toString())
+  if (params.status) queryParams.append('status', params.status)
+  if (params.open) queryParams.append('open', 'true')
+  if (params.assetItemId) queryParams.append('assetItemId', params.assetItemId)
+  if (params.search) queryParams.append('search', params.search)
+
+  const response = await apiClient.get<PaginatedResponse<RepairTicket>>(`/repair-tickets?${queryParams.toString()}`)
+  return response.data
+}
+
+/**
+ * Open a repair ticket
+ *
+ * @param data - Asset item, fault, vendor, RMA number, quote and expected return
+ * @returns Promise resolving to created RepairTicket
+ * @throws {ValidationError} If the asset item is loaned (400)
+ * @throws {ConflictError} If the asset item already has an open ticket (409)
+ */
+export async function createRepairTicketApi(data: CreateRepairTicketDto): Promise<RepairTicket> {
+  const response = await apiClient.post<ApiResponse<RepairTicket>>('/repair-tickets', data)
+  return response.data.data
+}
+
+/**
+ * Update the tracking status or details of an open repair ticket
+ *
+ * @param id - Repair ticket ID
+ * @param data - Fields to update
+ * @returns Promise resolving to updated RepairTicket
+ */
+export async function updateRepairTicketApi(id: string, data: UpdateRepairTicketDto): Promise<RepairTicket> {
+  const response = await apiClient.patch<ApiResponse<RepairTicket>>(`/repair-tickets/${id}`, data)
+  return response.data.data
+}
+
+/**
+ * Close a repair ticket with its outcome and final cost
+ *
+ * @param id - Repair ticket ID
+ * @param data - Outcome, final cost and closing note
+ * @returns Promise resolving to closed RepairTicket
+ */
+export async function closeRepairTicketApi(id: string, data: CloseRepairTicketDto): Promise<RepairTicket> {
+  const response = await apiClient.post<ApiResponse<RepairTicket>>(`/repair-tickets/${id}/close`, data)
+  return response.data.data
+}
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Reservations API client
+ *
+ * Provides functions to interact with /api/reservations endpoints.
+ *
+ * A reservation earmarks an asset item (or a stock quantity) for an
+ * employee over a period, e.g. a laptop for a new hire starting in two
+ * weeks. It does not change the item status: the backend only rejects
+ * loans and other reservations that overlap the booked period.
+ *
+ * Requires ADMIN or GESTIONNAIRE role.
+ */
+
+import apiClient from './client'
+import type {
+  Reservation,
+  CreateReservationDto,
+  UpdateReservationDto,
+  ReservationFilters,
+  Loan,
+  ApiResponse,
+} from '@/lib/types/models.types'
+
+/**
+ * Fetch reservations
+ *
+ * Returns reservations ordered by start date (500 max).
+ * `from` / `to` return the reservations overlapping that period.
+ *
+ * @param filters - Optional status, employee, item and period filters
+ * @returns Promise resolving to array of reservations
+ *
+ * @example
+ * const upcoming = await getReservationsApi({ employeeId: 'empId', status: 'ACTIVE' });
+ */
+export async function getReservationsApi(filters: ReservationFilters = {}): Promise<Reservation[]> {
+  const queryParams = new URLSearchParams()
+
+  if (filters.status) queryParams.append('status', filters.status)
+  if (filters.employeeId) queryParams.append('employeeId', filters.employeeId)
+  if (filters.assetItemId) queryParams.append('assetItemId', filters.assetItemId)
+  if (filters.stockItemId) queryParams.append('stockItemId', filters.stockItemId)
+  if (filters.from) queryParams.append('from', filters.from)
+  if (filters.to) queryParams.append('to', filters.to)
+
+  const response = await apiClient.get<ApiResponse<Reservation[]>>(`/reservations?${queryParams.toString()}`)
+  return response.data.data
+}
+
+/**
+ * Create reservation
+ *
+ * @param data - Employee, asset or stock item, period and notes
+ * @returns Promise resolving to created Reservation
+ * @throws {ValidationError} If data is invalid (400)
+ * @throws {ConflictError} If the item is not available over the period (409)
+ *
+ * @example
+ * await createReservationApi({
+ *   employeeId: 'newcomerId',
+ *   assetItemId: 'laptopId',
+ *   startDate: '2026-11-02',
+ *   endDate: '2027-11-02'
+ * });
+ */
+export async function createReservationApi(data: CreateReservationDto): Promise<Reservation> {
+  const response = await apiClient.post<ApiResponse<Reservation>>('/reservations', data)
+  return response.data.data
+}
+
+/**
+ * Update reservation
+ *
+ * Changes the period, quantity or notes of an active reservation.
+ *
+ * @param id - Reservation ID
+ * @param data - Fields to update
+ * @returns Promise resolving to updated Reservation
+ * @throws {ConflictError} If the new period is not available (409)
+ */
+export async function updateReservationApi(id: string, data: UpdateReservationDto): Promise<Reservation> {
+  const response = await apiClient.patch<ApiResponse<Reservation>>(`/reservations/${id}`, data)
+  return response.data.data
+}
+
+/**
+ * Cancel reservation
+ *
+ * The reservation is kept with status CANCELLED.
+ *
+ * @param id - Reservation ID
+ * @returns Promise resolving to cancelled Reservation
+ */
+export async function cancelReservationApi(id: string): Promise<Reservation> {
+  const response = await apiClient.patch<ApiResponse<Reservation>>(`/reservations/${id}/cancel`)
+  return response.data.data
+}
+
+/**
+ * Convert reservation into a loan
+ *
+ * Creates an OPEN loan for the employee with the reserved item,
+ * due at the reservation end date. The pickup signature is still required.
+ *
+ * @param id - Reservation ID
+ * @returns Promise resolving to the new Loan
+ * @throws {ValidationError} If the item is no longer available (400)
+ *
+ * @example
+ * const loan = await convertReservationApi('reservationId');
+ * navigate(`/loans/${loan.id}`);
+ */
+export async function convertReservationApi(id: string): Promise<Loan> {
+  const response = await apiClient.post<ApiResponse<Loan>>(`/reservations/${id}/convert`)
+  return response.data.data
+}
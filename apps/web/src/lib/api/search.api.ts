@@ -5,6 +5,7 @@
  */
 
 import { apiClient } from './client'
+import type { AssetStatus } from '@/lib/types/enums'
 
 export interface GlobalSearchResult {
   employees: Array<{
@@ -62,6 +63,30 @@ export interface AutocompleteAssetItem {
     brand: string
     modelName: string
   }
+  /** Next active reservation (at most one) */
+  reservations?: {
+    startDate: string
+    endDate: string
+    employee: { id: string; firstName: string; lastName: string }
+  }[]
+}
+
+export interface ScannedAssetItem {
+  id: string
+  assetTag: string | null
+  serial: string | null
+  status: AssetStatus
+  assetModel: {
+    type: string
+    brand: string
+    modelName: string
+  } | null
+  /** Outstanding loan line (at most one) when the item is loaned */
+  loanLines: {
+    id: string
+    loanId: string
+    loan: { employee: { id: string; firstName: string; lastName: string } }
+  }[]
 }
 
 export interface AutocompleteAssetModel {
@@ -146,3 +171,20 @@ export const autocompleteAssetModels = async (
   )
   return response.data.data
 }
+
+/**
+ * Resolve a scanned code to a single asset item
+ *
+ * @param code - Asset tag or serial number (exact, case-insensitive)
+ * @returns The matching asset item with its outstanding loan line
+ * @throws 404 when no asset item matches the code
+ */
+export const resolveAssetItemCode = async (code: string): Promise<ScannedAssetItem> => {
+  const response = await apiClient.get<{ success: boolean; data: ScannedAssetItem }>(
+    '/search/resolve/asset-item',
+    {
+      params: { code },
+    }
+  )
+  return response.data.data
+}
@@ -10,6 +10,13 @@
  * Quantity management: Automatically decremented when added to loans,
  * incremented when returned.
  *
+ * Every quantity change is recorded in a movement ledger (receptions, loans,
+ * adjustments, inventory corrections, write-offs); recomputing the counters
+ * from the ledger reveals changes made outside of it (drift).
+ *
+ * Each item has its own minimum level and usual order size; the reorder list
+ * gathers the items below their minimum, grouped by supplier.
+ *
  * Requires ADMIN or GESTIONNAIRE role for modifications.
  */
 
@@ -18,8 +25,15 @@ import type {
   StockItem,
   CreateStockItemDto,
   UpdateStockItemDto,
+  AdjustStockQuantityDto,
+  ReorderGroup,
+  StockMovement,
+  StockMovementFilters,
+  StockLedgerCheck,
+  StockLedgerDrift,
   ApiResponse,
 } from '@/lib/types/models.types'
+import type { PaginatedResponse, PaginationParams } from '@/lib/types/pagination.types'
 
 /**
  * Fetch all stock items
@@ -140,3 +154,71 @@ export async function updateStockItemApi(id: string, data: UpdateStockItemDto):
 export async function deleteStockItemApi(id: string): Promise<void> {
   await apiClient.delete(`/stock-items/${id}`)
 }
+
+/**
+ * Record a manual stock movement (reception, adjustment, write-off)
+ *
+ * @param id - Stock item ID
+ * @param data - Units added (positive) or removed (negative), movement type and reason
+ * @returns Promise resolving to the updated StockItem
+ * @throws {ValidationError} If the quantity would become negative or doesn't match the type (400)
+ *
+ * @example
+ * await adjustStockQuantityApi('stockId123', { quantity: -2, type: 'WRITE_OFF', reason: 'Câbles endommagés' });
+ */
+export async function adjustStockQuantityApi(id: string, data: AdjustStockQuantityDto): Promise<StockItem> {
+  const response = await apiClient.patch<ApiResponse<StockItem>>(`/stock-items/${id}/quantity`, data)
+  return response.data.data
+}
+
+/**
+ * Fetch the movement ledger of a stock item, newest first
+ *
+ * @param id - Stock item ID
+ * @param params - Pagination parameters and type filter
+ * @returns Promise resolving to paginated movements
+ */
+export async function getStockMovementsApi(
+  id: string,
+  params: PaginationParams & StockMovementFilters = {}
+): Promise<PaginatedResponse<StockMovement>> {
+  const queryParams = new URLSearchParams()
+
+  if (params.page) queryParams.append('page', params.page.toString())
+  if (params.pageSize) queryParams.append('pageSize', params.pageSize.toString())
+  if (params.type) queryParams.append('type', params.type)
+
+  const response = await apiClient.get<PaginatedResponse<StockMovement>>(`/stock-items/${id}/movements?${queryParams.toString()}`)
+  return response.data
+}
+
+/**
+ * Compare the counters of a stock item with the ones recomputed from its ledger
+ *
+ * @param id - Stock item ID
+ * @returns Promise resolving to the current / ledger counters and their drift
+ */
+export async function getStockLedgerCheckApi(id: string): Promise<StockLedgerCheck> {
+  const response = await apiClient.get<ApiResponse<StockLedgerCheck>>(`/stock-items/${id}/ledger-check`)
+  return response.data.data
+}
+
+/**
+ * Fetch the stock items whose counters differ from their ledger
+ *
+ * @returns Promise resolving to the drifting items
+ */
+export async function getStockLedgerDriftsApi(): Promise<StockLedgerDrift[]> {
+  const response = await apiClient.get<ApiResponse<StockLedgerDrift[]>>('/stock-items/ledger-drift')
+  return response.data.data
+}
+
+/**
+ * Fetch the reorder list (items below their minimum, grouped by supplier)
+ *
+ * @returns Promise resolving to the supplier groups
+ */
+export async function getReorderListApi(): Promise<ReorderGroup[]> {
+  const response = await apiClient.get<ApiResponse<ReorderGroup[]>>('/stock-items/reorder-list')
+  return response.data.data
+}
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Suppliers API client
+ *
+ * Provides functions to interact with /api/suppliers endpoints.
+ *
+ * Suppliers are referenced by asset items with their purchase data
+ * (invoice number, purchase date, price, warranty end).
+ *
+ * Listing and changes require ADMIN or GESTIONNAIRE role, deletion requires ADMIN.
+ */
+
+import apiClient from './client'
+import type {
+  Supplier,
+  CreateSupplierDto,
+  UpdateSupplierDto,
+  ApiResponse,
+} from '@/lib/types/models.types'
+
+/**
+ * Fetch all suppliers
+ *
+ * @returns Promise resolving to suppliers ordered by name, with their asset item count
+ *
+ * @example
+ * const suppliers = await getSuppliersApi();
+ */
+export async function getSuppliersApi(): Promise<Supplier[]> {
+  const response = await apiClient.get<ApiResponse<Supplier[]>>('/suppliers')
+  return response.data.data
+}
+
+/**
+ * Create supplier
+ *
+ * @param data - Name and contact details
+ * @returns Promise resolving to created Supplier
+ * @throws {ValidationError} If data is invalid (400)
+ * @throws {ConflictError} If a supplier with the same name exists (409)
+ */
+export async function createSupplierApi(data: CreateSupplierDto): Promise<Supplier> {
+  const response = await apiClient.post<ApiResponse<Supplier>>('/suppliers', data)
+  return response.data.data
+}
+
+/**
+ * Update supplier
+ *
+ * @param id - Supplier ID
+ * @param data - Fields to update
+ * @returns Promise resolving to updated Supplier
+ * @throws {NotFoundError} If supplier doesn't exist (404)
+ * @throws {ConflictError} If the new name is already used (409)
+ */
+export async function updateSupplierApi(id: string, data: UpdateSupplierDto): Promise<Supplier> {
+  const response = await apiClient.patch<ApiResponse<Supplier>>(`/suppliers/${id}`, data)
+  return response.data.data
+}
+
+/**
+ * Delete supplier
+ *
+ * @param id - Supplier ID
+ * @throws {NotFoundError} If supplier doesn't exist (404)
+ * @throws {ValidationError} If asset items still reference the supplier (400)
+ */
+export async function deleteSupplierApi(id: string): Promise<void> {
+  await apiClient.delete(`/suppliers/${id}`)
+}
@@ -12,7 +12,7 @@
  * - Optimistic UI updates with cache invalidation and refetch
  * - Toast notifications for user feedback
  * - Error handling with user-friendly messages
- * - Status workflow tracking (EN_STOCK, PRETE, HS, REPARATION)
+ * - Status workflow tracking (EN_STOCK, PRETE, HS, REPARATION, REFORME)
  *
  * Each AssetItem belongs to an AssetModel and has unique identifiers.
  */
@@ -25,12 +25,17 @@ import {
   createAssetItemsBulkApi,
   previewBulkCreationApi,
   updateAssetItemApi,
+  retireAssetItemApi,
   deleteAssetItemApi,
+  getLabelFormatsApi,
+  downloadAssetLabelsApi,
 } from '@/lib/api/assetItems.api'
 import type {
   CreateAssetItemDto,
   CreateBulkAssetItemsDto,
   UpdateAssetItemDto,
+  RetireAssetItemDto,
+  GenerateLabelsDto,
 } from '@/lib/types/models.types'
 import { useToast } from '@/lib/hooks/use-toast'
 import { AxiosError } from 'axios'
@@ -40,8 +45,10 @@ import { getErrorMessage } from '@/lib/utils/getErrorMessage'
  * Hook to fetch all asset items
  *
  * Returns cached list of individual equipment instances with their models.
- * Cache key: ['assetItems']
+ * Retired items (REFORME) are excluded unless that status is requested.
+ * Cache key: ['assetItems'] or ['assetItems', { status }]
  *
+ * @param status - Optional status filter applied by the server
  * @returns React Query result object
  * @returns {AssetItem[] | undefined} data - Array of items with assetModel relation
  * @returns {boolean} isLoading - Whether initial fetch is in progress
@@ -64,10 +71,10 @@ import { getErrorMessage } from '@/lib/utils/getErrorMessage'
  *   );
  * }
  */
-export function useAssetItems() {
+export function useAssetItems(status?: string) {
   return useQuery({
-    queryKey: ['assetItems'],
-    queryFn: getAllAssetItemsApi,
+    queryKey: status ? ['assetItems', { status }] : ['assetItems'],
+    queryFn: () => getAllAssetItemsApi(status),
     staleTime: 30_000,
   })
 }
@@ -230,6 +237,43 @@ export function useUpdateAssetItem() {
   })
 }
 
+/**
+ * Hook to retire an asset item (status REFORME)
+ *
+ * On success:
+ * - Resets asset items, models, dashboard and reservations caches
+ *   (active reservations of the item are cancelled by the server)
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ */
+export function useRetireAssetItem() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RetireAssetItemDto }) =>
+      retireAssetItemApi(id, data),
+    onSuccess: async () => {
+      await queryClient.resetQueries({ queryKey: ['assetModels'] })
+      await queryClient.resetQueries({ queryKey: ['assetItems'] })
+      await queryClient.resetQueries({ queryKey: ['dashboard'] })
+      await queryClient.invalidateQueries({ queryKey: ['reservations'] })
+      toast({
+        title: 'Équipement réformé',
+        description: 'L\'équipement a été sorti du parc',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de réformer l\'équipement'),
+      })
+    },
+  })
+}
+
 /**
  * Hook to delete asset item
  *
@@ -420,3 +464,48 @@ export function useCreateAssetItemsBulk() {
     },
   })
 }
+
+/**
+ * Hook to fetch the label sheet formats
+ *
+ * Formats are static on the server, they are fetched once per session.
+ * Cache key: ['labelFormats']
+ *
+ * @param enabled - Fetch only when the print dialog is open
+ * @returns React Query result with the formats
+ */
+export function useLabelFormats(enabled = true) {
+  return useQuery({
+    queryKey: ['labelFormats'],
+    queryFn: getLabelFormatsApi,
+    staleTime: Infinity,
+    enabled,
+  })
+}
+
+/**
+ * Hook to download a label sheet PDF
+ *
+ * No cache is involved: the mutation only tracks the pending state
+ * and shows an error toast if the generation fails.
+ *
+ * @returns Mutation object taking the labels request
+ *
+ * @example
+ * const downloadLabels = useDownloadAssetLabels();
+ * await downloadLabels.mutateAsync({ ids: selectedItems, format: 'AVERY_L7160' });
+ */
+export function useDownloadAssetLabels() {
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: GenerateLabelsDto) => downloadAssetLabelsApi(data),
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de générer les étiquettes'),
+      })
+    },
+  })
+}
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Companies hooks with React Query
+ *
+ * Provides listing and management of companies with cache invalidation
+ * and toast notifications.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getCompaniesApi,
+  createCompanyApi,
+  updateCompanyApi,
+  deleteCompanyApi,
+} from '@/lib/api/companies.api'
+import type { CreateCompanyDto, UpdateCompanyDto } from '@/lib/types/models.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch all companies
+ *
+ * Cache key: ['companies']
+ *
+ * @returns React Query result object
+ *
+ * @example
+ * const { data: companies = [] } = useCompanies();
+ */
+export function useCompanies() {
+  return useQuery({
+    queryKey: ['companies'],
+    queryFn: getCompaniesApi,
+  })
+}
+
+/**
+ * Hook to create a company
+ *
+ * @returns Mutation object
+ */
+export function useCreateCompany() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: CreateCompanyDto) => createCompanyApi(data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['companies'] })
+      toast({
+        title: 'Société créée',
+        description: 'La société a été créée avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de créer la société'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to rename a company
+ *
+ * Departments and employees embed their company, so their cache is invalidated too.
+ *
+ * @returns Mutation object
+ */
+export function useUpdateCompany() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateCompanyDto }) => updateCompanyApi(id, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['companies'] })
+      await queryClient.invalidateQueries({ queryKey: ['departments'] })
+      await queryClient.invalidateQueries({ queryKey: ['employees'] })
+      toast({
+        title: 'Société modifiée',
+        description: 'La société a été modifiée avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de modifier la société'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to delete a company
+ *
+ * @returns Mutation object
+ */
+export function useDeleteCompany() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => deleteCompanyApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['companies'] })
+      toast({
+        title: 'Société supprimée',
+        description: 'La société a été supprimée avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de supprimer la société'),
+      })
+    },
+  })
+}
@@ -5,6 +5,7 @@
  * - Overall statistics (employees, assets, loans)
  * - Recent loan activity
  * - Low stock alerts
+ * - Expiring warranties
  *
  * All hooks use automatic caching and background refetching
  * provided by React Query.
@@ -13,8 +14,9 @@
  * by the API client functions (see dashboard.api.ts).
  */
 
-import { useQuery } from '@tanstack/react-query'
-import { getDashboardStatsApi, getRecentLoansApi, getLowStockItemsApi, getOutOfServiceItemsApi, getEquipmentByTypeApi } from '@/lib/api/dashboard.api'
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { getDashboardStatsApi, getRecentLoansApi, getLowStockItemsApi, getOutOfServiceItemsApi, getEquipmentByTypeApi, getFleetValuationApi } from '@/lib/api/dashboard.api'
+import { getExpiringWarrantiesApi } from '@/lib/api/assetItems.api'
 
 /**
  * Hook to get dashboard statistics
@@ -198,3 +200,46 @@ export const useEquipmentByType = () => {
     queryFn: getEquipmentByTypeApi,
   })
 }
+
+/**
+ * Hook to get asset items whose warranty ends within the next `days` days
+ *
+ * Unlike the other dashboard widgets, the list is filtered by the server.
+ * Cached under ['dashboard'] so asset item mutations refresh it.
+ *
+ * @param days - Window in days, starting today
+ * @param pageSize - Number of items to fetch
+ * @returns React Query result object with paginated asset items
+ *
+ * @example
+ * const { data } = useExpiringWarranties(30, 5);
+ * // data.pagination.totalItems = number of warranties ending in 30 days
+ */
+export const useExpiringWarranties = (days: number, pageSize: number) => {
+  return useQuery({
+    queryKey: ['dashboard', 'expiring-warranties', days, pageSize],
+    queryFn: () => getExpiringWarrantiesApi({ days, pageSize }),
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Hook to get the fleet valuation report
+ *
+ * The endpoint is reserved to ADMIN and GESTIONNAIRE: pass `enabled: false`
+ * for other roles.
+ *
+ * @param enabled - Whether the query should run
+ * @returns React Query result object with the FleetValuation report
+ *
+ * @example
+ * const { data: valuation } = useFleetValuation(isManager);
+ * // valuation.totals.currentValueCents = book value of the fleet
+ */
+export const useFleetValuation = (enabled = true) => {
+  return useQuery({
+    queryKey: ['dashboard', 'valuation'],
+    queryFn: getFleetValuationApi,
+    enabled,
+  })
+}
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Departments hooks with React Query
+ *
+ * Provides listing, management and merging of departments with cache
+ * invalidation and toast notifications.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getDepartmentsApi,
+  getDepartmentDuplicatesApi,
+  createDepartmentApi,
+  updateDepartmentApi,
+  mergeDepartmentsApi,
+  deleteDepartmentApi,
+} from '@/lib/api/departments.api'
+import type { CreateDepartmentDto, UpdateDepartmentDto } from '@/lib/types/models.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch all departments
+ *
+ * Cache key: ['departments']
+ *
+ * @returns React Query result object
+ *
+ * @example
+ * const { data: departments = [] } = useDepartments();
+ */
+export function useDepartments() {
+  return useQuery({
+    queryKey: ['departments'],
+    queryFn: getDepartmentsApi,
+  })
+}
+
+/**
+ * Hook to fetch the near-duplicate department groups
+ *
+ * Cache key: ['departments', 'duplicates'] (refreshed with the departments)
+ *
+ * @returns React Query result object
+ */
+export function useDepartmentDuplicates() {
+  return useQuery({
+    queryKey: ['departments', 'duplicates'],
+    queryFn: getDepartmentDuplicatesApi,
+  })
+}
+
+/**
+ * Hook to create a department
+ *
+ * @returns Mutation object
+ */
+export function useCreateDepartment() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: CreateDepartmentDto) => createDepartmentApi(data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['departments'] })
+      await queryClient.invalidateQueries({ queryKey: ['companies'] })
+      toast({
+        title: 'Département créé',
+        description: 'Le département a été créé avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de créer le département'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to update a department
+ *
+ * A rename is applied to the employees of the department, so their cache is invalidated too.
+ *
+ * @returns Mutation object
+ */
+export function useUpdateDepartment() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateDepartmentDto }) => updateDepartmentApi(id, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['departments'] })
+      await queryClient.invalidateQueries({ queryKey: ['companies'] })
+      await queryClient.invalidateQueries({ queryKey: ['employees'] })
+      toast({
+        title: 'Département modifié',
+        description: 'Le département a été modifié avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de modifier le département'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to merge departments into a target department (ADMIN only)
+ *
+ * @returns Mutation object
+ *
+ * @example
+ * const mergeDepartments = useMergeDepartments();
+ * await mergeDepartments.mutateAsync({ id: 'woippyId', sourceIds: ['woipyId'] });
+ */
+export function useMergeDepartments() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, sourceIds }: { id: string; sourceIds: string[] }) => mergeDepartmentsApi(id, sourceIds),
+    onSuccess: async (department) => {
+      await queryClient.invalidateQueries({ queryKey: ['departments'] })
+      await queryClient.invalidateQueries({ queryKey: ['companies'] })
+      await queryClient.invalidateQueries({ queryKey: ['employees'] })
+      toast({
+        title: 'Départements fusionnés',
+        description: `Les employés ont été rattachés à « ${department.name} »`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de fusionner les départements'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to delete a department (ADMIN only)
+ *
+ * @returns Mutation object
+ */
+export function useDeleteDepartment() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => deleteDepartmentApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['departments'] })
+      await queryClient.invalidateQueries({ queryKey: ['companies'] })
+      toast({
+        title: 'Département supprimé',
+        description: 'Le département a été supprimé avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de supprimer le département'),
+      })
+    },
+  })
+}
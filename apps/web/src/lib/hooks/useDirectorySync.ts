@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Directory sync hooks with React Query
+ *
+ * Provides the directory settings with the recent runs and the on-demand run.
+ * A run creates, updates and archives employees and may create departments
+ * and companies, so it invalidates those caches too.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getDirectorySyncApi, runDirectorySyncApi } from '@/lib/api/directorySync.api'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch the directory settings and recent runs
+ *
+ * Cache key: ['directorySync']
+ *
+ * @returns React Query result object with the directory sync status
+ */
+export function useDirectorySync() {
+  return useQuery({
+    queryKey: ['directorySync'],
+    queryFn: getDirectorySyncApi,
+  })
+}
+
+/**
+ * Hook to run the directory synchronization now
+ *
+ * @returns Mutation object, resolving to the run
+ */
+export function useRunDirectorySync() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: runDirectorySyncApi,
+    onSuccess: async (run) => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['directorySync'] }),
+        queryClient.invalidateQueries({ queryKey: ['employees'] }),
+        queryClient.invalidateQueries({ queryKey: ['departments'] }),
+        queryClient.invalidateQueries({ queryKey: ['companies'] }),
+      ])
+
+      if (run.status === 'FAILED' || !run.result) {
+        toast({
+          variant: 'destructive',
+          title: 'Échec de la synchronisation',
+          description: run.error ?? 'Impossible de synchroniser avec l\'annuaire',
+        })
+        return
+      }
+
+      toast({
+        title: 'Synchronisation avec l\'annuaire terminée',
+        description: `${run.result.created} créé(s), ${run.result.updated} mis à jour, ${run.result.disabled} désactivé(s)`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de lancer la synchronisation'),
+      })
+    },
+  })
+}
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Employee imports hooks with React Query
+ *
+ * Provides the HR file comparison, the application of the accepted
+ * differences and the history of import reports.
+ *
+ * Applying an import creates, updates and archives employees and may create
+ * departments and companies, so it invalidates those caches too.
+ */
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import {
+  getEmployeeImportsApi,
+  getEmployeeImportApi,
+  previewEmployeeImportApi,
+  applyEmployeeImportApi,
+} from '@/lib/api/employeeImports.api'
+import type { ApplyEmployeeImportDto, EmployeeImportRow } from '@/lib/types/models.types'
+import type { PaginationParams } from '@/lib/types/pagination.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch the import reports
+ *
+ * Cache key: ['employeeImports', params]
+ *
+ * @param params - Pagination parameters
+ * @returns React Query result object with paginated reports
+ */
+export function useEmployeeImports(params: PaginationParams = {}) {
+  return useQuery({
+    queryKey: ['employeeImports', params],
+    queryFn: () => getEmployeeImportsApi(params),
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Hook to fetch a single import report
+ *
+ * Cache key: ['employeeImports', id]
+ *
+ * @param id - Import ID (query disabled when null)
+ * @returns React Query result object with the report
+ */
+export function useEmployeeImport(id: string | null) {
+  return useQuery({
+    queryKey: ['employeeImports', id],
+    queryFn: () => getEmployeeImportApi(id as string),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Hook to compare an HR file with the employee base
+ *
+ * @returns Mutation object, resolving to the preview
+ */
+export function usePreviewEmployeeImport() {
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (rows: EmployeeImportRow[]) => previewEmployeeImportApi(rows),
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de comparer le fichier RH'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to apply the accepted differences of an HR file
+ *
+ * @returns Mutation object, resolving to the stored report
+ */
+export function useApplyEmployeeImport() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: ApplyEmployeeImportDto) => applyEmployeeImportApi(data),
+    onSuccess: async (report) => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['employeeImports'] }),
+        queryClient.invalidateQueries({ queryKey: ['employees'] }),
+        queryClient.invalidateQueries({ queryKey: ['departments'] }),
+        queryClient.invalidateQueries({ queryKey: ['companies'] }),
+      ])
+      toast({
+        title: 'Synchronisation appliquée',
+        description: `${report.createdCount} créé(s), ${report.updatedCount} mis à jour, ${report.archivedCount + report.offboardingCount} départ(s)`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'appliquer la synchronisation'),
+      })
+    },
+  })
+}
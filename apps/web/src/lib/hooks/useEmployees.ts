@@ -13,7 +13,9 @@
  * - Toast notifications for user feedback
  * - Error handling with user-friendly messages
  *
- * Deletion restriction: Employees with loan history cannot be deleted.
+ * Deletion restriction: Employees with any history cannot be deleted (admin
+ * purge only). Leavers go through the offboarding checklist or are archived,
+ * archived employees can be reactivated.
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
@@ -23,6 +25,12 @@ import {
   createEmployeeApi,
   updateEmployeeApi,
   deleteEmployeeApi,
+  archiveEmployeeApi,
+  unarchiveEmployeeApi,
+  getEmployeeOffboardingApi,
+  startEmployeeOffboardingApi,
+  cancelEmployeeOffboardingApi,
+  completeEmployeeOffboardingApi,
 } from '@/lib/api/employees.api'
 import type {
   CreateEmployeeDto,
@@ -35,8 +43,11 @@ import { getErrorMessage } from '@/lib/utils/getErrorMessage'
  * Hook to fetch all employees
  *
  * Returns cached list of employees with loan counts.
- * Cache key: ['employees']
+ * Archived employees are excluded unless requested.
+ * Cache key: ['employees', { includeArchived }]
  *
+ * @param options - Optional filters
+ * @param options.includeArchived - Also return archived employees
  * @returns React Query result object
  * @returns {Employee[] | undefined} data - Array of employees with _count.loans
  * @returns {boolean} isLoading - Whether initial fetch is in progress
@@ -58,10 +69,10 @@ import { getErrorMessage } from '@/lib/utils/getErrorMessage'
  *   );
  * }
  */
-export function useEmployees() {
+export function useEmployees({ includeArchived = false }: { includeArchived?: boolean } = {}) {
   return useQuery({
-    queryKey: ['employees'],
-    queryFn: getAllEmployeesApi,
+    queryKey: ['employees', { includeArchived }],
+    queryFn: () => getAllEmployeesApi({ includeArchived }),
     staleTime: 30_000,
   })
 }
@@ -125,7 +136,7 @@ export function useEmployee(id: string) {
  *       <Input name="firstName" />
  *       <Input name="lastName" />
  *       <Input name="email" />
- *       <Input name="dept" placeholder="Department/Agency" />
+ *       <Select name="departmentId" />
  *       <Button disabled={createEmployee.isPending}>Create</Button>
  *     </Form>
  *   );
@@ -207,10 +218,10 @@ export function useUpdateEmployee() {
 }
 
 /**
- * Hook to delete employee
+ * Hook to purge employee (ADMIN only)
  *
- * IMPORTANT: Employees with ANY loan history cannot be deleted.
- * Backend will return ValidationError if employee has loans.
+ * IMPORTANT: Employees with ANY loan or reservation history cannot be deleted.
+ * Backend will return ValidationError if employee has loans: archive instead.
  *
  * On success:
  * - Invalidates and refetches employees cache
@@ -273,3 +284,171 @@ export function useDeleteEmployee() {
     },
   })
 }
+
+/**
+ * Hook to archive employee
+ *
+ * On success:
+ * - Invalidates employees, offboarding and reservations caches
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ */
+export function useArchiveEmployee() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => archiveEmployeeApi(id),
+    onSuccess: async (employee) => {
+      await queryClient.invalidateQueries({ queryKey: ['employees'] })
+      await queryClient.invalidateQueries({ queryKey: ['employeeOffboarding'] })
+      await queryClient.invalidateQueries({ queryKey: ['reservations'] })
+      toast({
+        title: 'Employé archivé',
+        description: `${employee.firstName} ${employee.lastName} n'est plus proposé(e) dans les prêts`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'archiver l\'employé'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to reactivate an archived employee
+ *
+ * @returns Mutation object
+ */
+export function useUnarchiveEmployee() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => unarchiveEmployeeApi(id),
+    onSuccess: async (employee) => {
+      await queryClient.invalidateQueries({ queryKey: ['employees'] })
+      await queryClient.invalidateQueries({ queryKey: ['employeeOffboarding'] })
+      toast({
+        title: 'Employé réactivé',
+        description: `${employee.firstName} ${employee.lastName} peut de nouveau emprunter du matériel`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de réactiver l\'employé'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to fetch the offboarding checklist of an employee
+ *
+ * Cache key: ['employeeOffboarding', id] - also invalidated by the loan line
+ * return / transfer / write-off hooks
+ *
+ * @param id - Employee ID
+ * @returns React Query result object with the checklist
+ */
+export function useEmployeeOffboarding(id: string) {
+  return useQuery({
+    queryKey: ['employeeOffboarding', id],
+    queryFn: () => getEmployeeOffboardingApi(id),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Hook to start (or reschedule) the offboarding of an employee
+ *
+ * @returns Mutation object
+ */
+export function useStartOffboarding() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, departureDate }: { id: string; departureDate: string }) =>
+      startEmployeeOffboardingApi(id, departureDate),
+    onSuccess: async (checklist, variables) => {
+      queryClient.setQueryData(['employeeOffboarding', variables.id], checklist)
+      await queryClient.invalidateQueries({ queryKey: ['employees'] })
+      toast({
+        title: 'Départ planifié',
+        description: `${checklist.outstandingLines.length} article(s) à traiter avant le départ`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'enregistrer la date de départ'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to cancel a pending offboarding
+ *
+ * @returns Mutation object
+ */
+export function useCancelOffboarding() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => cancelEmployeeOffboardingApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['employeeOffboarding'] })
+      await queryClient.invalidateQueries({ queryKey: ['employees'] })
+      toast({
+        title: 'Départ annulé',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'annuler le départ'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to complete the offboarding (employee marked as departed)
+ *
+ * @returns Mutation object
+ */
+export function useCompleteOffboarding() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => completeEmployeeOffboardingApi(id),
+    onSuccess: async (employee) => {
+      await queryClient.invalidateQueries({ queryKey: ['employeeOffboarding'] })
+      await queryClient.invalidateQueries({ queryKey: ['employees'] })
+      await queryClient.invalidateQueries({ queryKey: ['reservations'] })
+      toast({
+        title: 'Départ finalisé',
+        description: `${employee.firstName} ${employee.lastName} est archivé(e), son historique est conservé`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de finaliser le départ'),
+      })
+    },
+  })
+}
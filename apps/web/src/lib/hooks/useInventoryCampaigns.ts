@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Inventory campaigns hooks with React Query
+ *
+ * Provides campaign listing, checking off asset items, stock counts,
+ * closing and the follow-up actions of the reconciliation report, with
+ * cache invalidation and toast notifications.
+ *
+ * Checks and counts refresh the live report. Stock corrections and missing
+ * flags also invalidate the stock and inventory caches.
+ */
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import {
+  getInventoryCampaignsApi,
+  getInventoryCampaignApi,
+  getInventoryReportApi,
+  createInventoryCampaignApi,
+  checkInventoryAssetApi,
+  uncheckInventoryAssetApi,
+  countInventoryStockApi,
+  closeInventoryCampaignApi,
+  applyStockCorrectionsApi,
+  flagMissingItemsApi,
+} from '@/lib/api/inventoryCampaigns.api'
+import type {
+  CheckInventoryAssetDto,
+  CreateInventoryCampaignDto,
+  InventoryCampaignFilters,
+} from '@/lib/types/models.types'
+import type { PaginationParams } from '@/lib/types/pagination.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch inventory campaigns
+ *
+ * Cache key: ['inventoryCampaigns', params]
+ *
+ * @param params - Pagination parameters and status filter
+ * @returns React Query result object with paginated campaigns
+ */
+export function useInventoryCampaigns(params: PaginationParams & InventoryCampaignFilters = {}) {
+  return useQuery({
+    queryKey: ['inventoryCampaigns', params],
+    queryFn: () => getInventoryCampaignsApi(params),
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Hook to fetch a single inventory campaign
+ *
+ * Cache key: ['inventoryCampaigns', id]
+ *
+ * @param id - Campaign ID
+ * @returns React Query result object with the campaign
+ */
+export function useInventoryCampaign(id: string) {
+  return useQuery({
+    queryKey: ['inventoryCampaigns', id],
+    queryFn: () => getInventoryCampaignApi(id),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Hook to fetch the reconciliation report of a campaign
+ *
+ * Cache key: ['inventoryCampaigns', id, 'report']
+ *
+ * @param id - Campaign ID
+ * @returns React Query result object with the report
+ */
+export function useInventoryReport(id: string) {
+  return useQuery({
+    queryKey: ['inventoryCampaigns', id, 'report'],
+    queryFn: () => getInventoryReportApi(id),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Hook to open an inventory campaign (ADMIN)
+ *
+ * @returns Mutation object
+ */
+export function useCreateInventoryCampaign() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: CreateInventoryCampaignDto) => createInventoryCampaignApi(data),
+    onSuccess: async (campaign) => {
+      await queryClient.invalidateQueries({ queryKey: ['inventoryCampaigns'] })
+      toast({
+        title: 'Campagne d\'inventaire ouverte',
+        description: campaign.name,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'ouvrir la campagne d\'inventaire'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to check off an asset item (by ID or scanned code)
+ *
+ * No success toast: the scan dialog and the report show the outcome.
+ * Errors are left to the caller (the scan dialog reports unknown codes).
+ *
+ * @param campaignId - Campaign ID
+ * @returns Mutation object
+ */
+export function useCheckInventoryAsset(campaignId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CheckInventoryAssetDto) => checkInventoryAssetApi(campaignId, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['inventoryCampaigns', campaignId] })
+      // A found item loses its missing flag
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+    },
+  })
+}
+
+/**
+ * Hook to undo the check of an asset item
+ *
+ * @param campaignId - Campaign ID
+ * @returns Mutation object
+ */
+export function useUncheckInventoryAsset(campaignId: string) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (assetItemId: string) => uncheckInventoryAssetApi(campaignId, assetItemId),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['inventoryCampaigns', campaignId] })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'annuler le pointage'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to record the counted quantity of a stock item
+ *
+ * @param campaignId - Campaign ID
+ * @returns Mutation object
+ */
+export function useCountInventoryStock(campaignId: string) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ stockItemId, countedQuantity }: { stockItemId: string; countedQuantity: number }) =>
+      countInventoryStockApi(campaignId, stockItemId, countedQuantity),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['inventoryCampaigns', campaignId] })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'enregistrer le comptage'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to close a campaign and freeze its report (ADMIN)
+ *
+ * @returns Mutation object
+ */
+export function useCloseInventoryCampaign() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => closeInventoryCampaignApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['inventoryCampaigns'] })
+      toast({
+        title: 'Campagne clôturée',
+        description: 'Le rapport de rapprochement est figé',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de clôturer la campagne'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to apply the stock variances of a closed campaign (ADMIN)
+ *
+ * On success:
+ * - Invalidates campaign, stock and dashboard caches
+ * - Shows a toast with the number of corrections (and failures)
+ *
+ * @param campaignId - Campaign ID
+ * @returns Mutation object
+ */
+export function useApplyStockCorrections(campaignId: string) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (stockItemIds?: string[]) => applyStockCorrectionsApi(campaignId, stockItemIds),
+    onSuccess: async ({ applied, failed }) => {
+      await queryClient.invalidateQueries({ queryKey: ['inventoryCampaigns', campaignId] })
+      await queryClient.invalidateQueries({ queryKey: ['stockItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      toast({
+        variant: failed.length > 0 ? 'destructive' : 'default',
+        title: 'Corrections de stock appliquées',
+        description: failed.length > 0
+          ? `${applied.length} correction(s) appliquée(s), ${failed.length} en échec : ${failed.map((entry) => entry.message).join(', ')}`
+          : `${applied.length} correction(s) appliquée(s)`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'appliquer les corrections de stock'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to flag the missing asset items of a closed campaign (ADMIN)
+ *
+ * @param campaignId - Campaign ID
+ * @returns Mutation object
+ */
+export function useFlagMissingItems(campaignId: string) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (assetItemIds?: string[]) => flagMissingItemsApi(campaignId, assetItemIds),
+    onSuccess: async ({ flagged }) => {
+      await queryClient.invalidateQueries({ queryKey: ['inventoryCampaigns', campaignId] })
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+      toast({
+        title: 'Équipements signalés manquants',
+        description: `${flagged.length} équipement(s) signalé(s) introuvable(s)`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de signaler les équipements manquants'),
+      })
+    },
+  })
+}
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Loan kits hooks with React Query
+ *
+ * Provides listing and admin management of loan kits with cache
+ * invalidation and toast notifications.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getLoanKitsApi,
+  createLoanKitApi,
+  updateLoanKitApi,
+  deleteLoanKitApi,
+} from '@/lib/api/loanKits.api'
+import type { CreateLoanKitDto, UpdateLoanKitDto } from '@/lib/types/models.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch all loan kits
+ *
+ * Cache key: ['loanKits']
+ *
+ * @returns React Query result object
+ *
+ * @example
+ * const { data: kits = [], isLoading } = useLoanKits();
+ */
+export function useLoanKits() {
+  return useQuery({
+    queryKey: ['loanKits'],
+    queryFn: getLoanKitsApi,
+  })
+}
+
+/**
+ * Hook to create a loan kit
+ *
+ * @returns Mutation object
+ */
+export function useCreateLoanKit() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: CreateLoanKitDto) => createLoanKitApi(data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['loanKits'] })
+      toast({
+        title: 'Kit créé',
+        description: 'Le kit de prêt a été créé avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de créer le kit'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to update a loan kit
+ *
+ * @returns Mutation object
+ */
+export function useUpdateLoanKit() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateLoanKitDto }) => updateLoanKitApi(id, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['loanKits'] })
+      toast({
+        title: 'Kit modifié',
+        description: 'Le kit de prêt a été modifié avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de modifier le kit'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to delete a loan kit
+ *
+ * @returns Mutation object
+ */
+export function useDeleteLoanKit() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => deleteLoanKitApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['loanKits'] })
+      toast({
+        title: 'Kit supprimé',
+        description: 'Le kit de prêt a été supprimé avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de supprimer le kit'),
+      })
+    },
+  })
+}
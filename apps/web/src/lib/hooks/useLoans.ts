@@ -28,20 +28,36 @@ import {
   getLoansApiPaginated,
   getLoanApi,
   createLoanApi,
+  updateLoanApi,
   addLoanLineApi,
   removeLoanLineApi,
+  returnLoanLineApi,
+  writeOffLoanLineApi,
+  transferLoanLinesApi,
+  addLoanKitApi,
+  downloadLoanReceiptApi,
   uploadPickupSignatureApi,
   uploadReturnSignatureApi,
   closeLoanApi,
   deleteLoanApi,
   batchDeleteLoansApi,
+  getDeletedLoansApi,
+  restoreLoanApi,
+  purgeLoanApi,
+  purgeExpiredLoansApi,
   deletePickupSignatureApi,
   deleteReturnSignatureApi,
 } from '@/lib/api/loans.api'
 import type {
   Loan,
   CreateLoanDto,
+  UpdateLoanDto,
   AddLoanLineDto,
+  ReturnInspectionDto,
+  LoanLineInspectionDto,
+  TransferLoanLinesDto,
+  WriteOffLoanLineDto,
+  AddLoanKitResult,
 } from '@/lib/types/models.types'
 import type { PaginationParams } from '@/lib/types/pagination.types'
 import { useToast } from '@/lib/hooks/use-toast'
@@ -97,6 +113,7 @@ export function useLoans() {
  * @param params.pageSize - Items per page (default: 20)
  * @param params.status - Filter by status ('OPEN' or 'CLOSED')
  * @param params.employeeId - Filter by employee ID
+ * @param params.overdue - Only return open loans past their due date
  * @param params.sortBy - Field to sort by (default: 'openedAt')
  * @param params.sortOrder - Sort order (default: 'desc')
  * @returns React Query result with paginated data
@@ -131,7 +148,7 @@ export function useLoans() {
  * }
  */
 export function useLoansPaginated(
-  params: PaginationParams & { status?: string; employeeId?: string; search?: string } = {}
+  params: PaginationParams & { status?: string; employeeId?: string; search?: string; overdue?: boolean } = {}
 ) {
   return useQuery({
     queryKey: ['loans', 'paginated', params],
@@ -243,6 +260,56 @@ export function useCreateLoan() {
   })
 }
 
+/**
+ * Hook to update loan
+ *
+ * Updates editable fields of an OPEN loan (expected return date).
+ *
+ * On success:
+ * - Invalidates both loans list and specific loan cache
+ * - Invalidates dashboard (overdue count may change)
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ *
+ * @example
+ * function DueDateEditor({ loan }) {
+ *   const updateLoan = useUpdateLoan();
+ *
+ *   const handleSave = (dueAt: string | null) => {
+ *     updateLoan.mutate({ loanId: loan.id, data: { dueAt } });
+ *   };
+ *
+ *   return <DatePicker value={loan.dueAt} onChange={handleSave} />;
+ * }
+ */
+export function useUpdateLoan() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ loanId, data }: { loanId: string; data: UpdateLoanDto }) =>
+      updateLoanApi(loanId, data),
+    onSuccess: async (_, variables) => {
+      // Invalidate all related queries
+      await queryClient.invalidateQueries({ queryKey: ['loans'] })
+      await queryClient.invalidateQueries({ queryKey: ['loans', variables.loanId] })
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      toast({
+        title: 'Prêt modifié',
+        description: 'La date de retour prévue a été mise à jour',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de modifier le prêt'),
+      })
+    },
+  })
+}
+
 /**
  * Hook to add line to loan
  *
@@ -371,6 +438,246 @@ export function useRemoveLoanLine() {
   })
 }
 
+/**
+ * Hook to return a single loan line (partial return)
+ *
+ * Marks the line as returned and releases its AssetItem/StockItem.
+ * An optional inspection routes the asset to EN_STOCK, REPARATION or HS.
+ * The line stays visible on the loan. When the last line is returned,
+ * the backend closes the loan automatically.
+ *
+ * On success:
+ * - Invalidates loans list, specific loan and inventory caches
+ * - Shows success toast (mentions closure when the loan was closed)
+ *
+ * @returns Mutation object
+ *
+ * @example
+ * function ReturnLineButton({ loanId, line }) {
+ *   const returnLine = useReturnLoanLine();
+ *
+ *   return (
+ *     <Button onClick={() => returnLine.mutate({ loanId, lineId: line.id, inspection: { condition: 'OK' } })}>
+ *       Retourner
+ *     </Button>
+ *   );
+ * }
+ */
+export function useReturnLoanLine() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ loanId, lineId, inspection }: { loanId: string; lineId: string; inspection?: ReturnInspectionDto }) =>
+      returnLoanLineApi(loanId, lineId, inspection),
+    onSuccess: async (loan: Loan, variables) => {
+      // Invalidate all related queries
+      await queryClient.invalidateQueries({ queryKey: ['loans'] })
+      await queryClient.invalidateQueries({ queryKey: ['loans', variables.loanId] })
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetModels'] })
+      await queryClient.invalidateQueries({ queryKey: ['stockItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      await queryClient.invalidateQueries({ queryKey: ['employeeOffboarding'] })
+      toast({
+        title: 'Article retourné',
+        description: loan?.status === 'CLOSED'
+          ? 'Dernier article retourné, le prêt a été fermé'
+          : 'L\'article a été marqué comme retourné',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de retourner l\'article'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to write off an outstanding line (lost or stolen)
+ *
+ * The asset item is retired, the stock units are removed from the quantity.
+ *
+ * On success:
+ * - Invalidates loans, inventory, dashboard and offboarding caches
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ */
+export function useWriteOffLoanLine() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ loanId, lineId, data }: { loanId: string; lineId: string; data?: WriteOffLoanLineDto }) =>
+      writeOffLoanLineApi(loanId, lineId, data),
+    onSuccess: async (loan: Loan, variables) => {
+      await queryClient.invalidateQueries({ queryKey: ['loans'] })
+      await queryClient.invalidateQueries({ queryKey: ['loans', variables.loanId] })
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetModels'] })
+      await queryClient.invalidateQueries({ queryKey: ['stockItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      await queryClient.invalidateQueries({ queryKey: ['employeeOffboarding'] })
+      toast({
+        title: 'Article passé en perte',
+        description: loan?.status === 'CLOSED'
+          ? 'Dernier article en cours, le prêt a été fermé'
+          : 'L\'article a été sorti du parc',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de passer l\'article en perte'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to transfer loan lines to another employee
+ *
+ * Moves the selected lines to a new loan for the target employee.
+ * The new loan must then be signed at pickup by that employee.
+ *
+ * On success:
+ * - Caches the new loan
+ * - Invalidates loans list, source loan and inventory caches
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ *
+ * @example
+ * function TransferButton({ loan, lineIds, employeeId }) {
+ *   const transfer = useTransferLoanLines();
+ *
+ *   return (
+ *     <Button onClick={() => transfer.mutate(
+ *       { loanId: loan.id, data: { employeeId, lineIds } },
+ *       { onSuccess: (newLoan) => navigate(`/loans/${newLoan.id}`) }
+ *     )}>
+ *       Transférer
+ *     </Button>
+ *   );
+ * }
+ */
+export function useTransferLoanLines() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ loanId, data }: { loanId: string; data: TransferLoanLinesDto }) =>
+      transferLoanLinesApi(loanId, data),
+    onSuccess: async (loan: Loan, variables) => {
+      queryClient.setQueryData(['loans', loan.id], loan)
+
+      // Invalidate all related queries
+      await queryClient.invalidateQueries({ queryKey: ['loans'] })
+      await queryClient.invalidateQueries({ queryKey: ['loans', variables.loanId] })
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      await queryClient.invalidateQueries({ queryKey: ['employeeOffboarding'] })
+      toast({
+        title: 'Articles transférés',
+        description: 'Un nouveau prêt a été créé, la signature de retrait du nouvel employé est requise',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de transférer les articles'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to add a loan kit to a loan
+ *
+ * On success:
+ * - Updates loan cache with the new lines
+ * - Invalidates loans, inventory and dashboard caches
+ * - Shows a success toast, or a warning listing how many components are missing
+ *
+ * @returns Mutation object resolving to `{ loan, missing }`
+ *
+ * @example
+ * function AddKitButton({ loanId, kitId }) {
+ *   const addKit = useAddLoanKit();
+ *   return <Button onClick={() => addKit.mutate({ loanId, kitId })}>Ajouter le kit</Button>;
+ * }
+ */
+export function useAddLoanKit() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ loanId, kitId }: { loanId: string; kitId: string }) =>
+      addLoanKitApi(loanId, kitId),
+    onSuccess: async ({ loan, missing }: AddLoanKitResult) => {
+      queryClient.setQueryData(['loans', loan.id], loan)
+
+      await queryClient.invalidateQueries({ queryKey: ['loans'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['stockItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+
+      if (missing.length > 0) {
+        toast({
+          variant: 'destructive',
+          title: 'Kit ajouté partiellement',
+          description: `${missing.length} composant(s) n'ont pas pu être ajoutés`,
+        })
+      } else {
+        toast({
+          title: 'Kit ajouté',
+          description: 'Les articles du kit ont été ajoutés au prêt',
+        })
+      }
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'ajouter le kit'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to download the loan receipt PDF
+ *
+ * No cache is involved: the mutation only tracks the pending state
+ * and shows an error toast if the generation fails.
+ *
+ * @returns Mutation object taking the loan ID
+ *
+ * @example
+ * const downloadReceipt = useDownloadLoanReceipt();
+ * <Button onClick={() => downloadReceipt.mutate(loan.id)}>Bon de prêt</Button>
+ */
+export function useDownloadLoanReceipt() {
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (loanId: string) => downloadLoanReceiptApi(loanId),
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de générer le bon de prêt'),
+      })
+    },
+  })
+}
+
 /**
  * Hook to upload pickup signature
  *
@@ -499,6 +806,7 @@ export function useUploadReturnSignature() {
  * Hook to close loan
  *
  * Closes an OPEN loan by setting status to CLOSED and closedAt timestamp.
+ * The optional return checklist routes damaged/missing assets to REPARATION/HS.
  *
  * IMPORTANT: Backend enforces requirements:
  * - Loan must have at least one line
@@ -528,7 +836,7 @@ export function useUploadReturnSignature() {
  *       return;
  *     }
  *     if (confirm('Close this loan? This cannot be undone.')) {
- *       closeLoan.mutate(loan.id);
+ *       closeLoan.mutate({ loanId: loan.id, inspections: [{ lineId: 'line1', condition: 'OK' }] });
  *     }
  *   };
  *
@@ -544,8 +852,9 @@ export function useCloseLoan() {
   const { toast } = useToast()
 
   return useMutation({
-    mutationFn: (loanId: string) => closeLoanApi(loanId),
-    onSuccess: async (_, loanId) => {
+    mutationFn: ({ loanId, inspections }: { loanId: string; inspections?: LoanLineInspectionDto[] }) =>
+      closeLoanApi(loanId, inspections),
+    onSuccess: async (_, { loanId }) => {
       // Invalidate all related queries
       await queryClient.invalidateQueries({ queryKey: ['loans'] })
       await queryClient.invalidateQueries({ queryKey: ['loans', loanId] })
@@ -677,6 +986,112 @@ export function useBatchDeleteLoans() {
   })
 }
 
+/**
+ * Hook to fetch soft-deleted loans (trash, ADMIN only)
+ *
+ * Shares the ['loans'] key prefix, so deleting or restoring a loan
+ * refreshes the trash as well.
+ *
+ * @param params - Pagination parameters and employee search
+ * @returns Query result with paginated deleted loans
+ */
+export function useDeletedLoans(params: PaginationParams & { search?: string } = {}) {
+  return useQuery({
+    queryKey: ['loans', 'trash', params],
+    queryFn: () => getDeletedLoansApi(params),
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Restore a soft-deleted loan mutation (ADMIN only)
+ *
+ * Items go back on loan: asset, stock and dashboard caches are refreshed.
+ *
+ * @returns Mutation object
+ */
+export function useRestoreLoan() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => restoreLoanApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['loans'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetModels'] })
+      await queryClient.invalidateQueries({ queryKey: ['stockItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      toast({
+        title: 'Prêt restauré',
+        description: 'Le prêt est de nouveau visible dans la liste des prêts',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Restauration impossible',
+        description: getErrorMessage(error, 'Impossible de restaurer le prêt'),
+      })
+    },
+  })
+}
+
+/**
+ * Permanently delete a loan from the trash mutation (ADMIN only)
+ *
+ * @returns Mutation object
+ */
+export function usePurgeLoan() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => purgeLoanApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['loans', 'trash'] })
+      toast({
+        title: 'Prêt supprimé définitivement',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de supprimer le prêt'),
+      })
+    },
+  })
+}
+
+/**
+ * Purge loans kept in the trash longer than the retention mutation (ADMIN only)
+ *
+ * @returns Mutation object
+ */
+export function usePurgeExpiredLoans() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: () => purgeExpiredLoansApi(),
+    onSuccess: async (result) => {
+      await queryClient.invalidateQueries({ queryKey: ['loans', 'trash'] })
+      toast({
+        title: 'Corbeille vidée',
+        description: `${result.purgedCount} prêt(s) supprimé(s) depuis plus de ${result.retentionDays} jours`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de vider la corbeille'),
+      })
+    },
+  })
+}
+
 /**
  * Delete pickup signature mutation (ADMIN only)
  *
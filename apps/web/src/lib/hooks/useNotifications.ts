@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Notifications hooks with React Query
+ *
+ * Provides the current user's email preferences and, for admins,
+ * the delivery log and manual overdue reminders.
+ */
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import {
+  getNotificationSettingsApi,
+  updateNotificationSettingsApi,
+  getNotificationLogsApi,
+  sendOverdueRemindersApi,
+} from '@/lib/api/notifications.api'
+import type { NotificationLogFilters, UpdateNotificationSettingsDto } from '@/lib/types/models.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch the current user's notification preferences
+ *
+ * Cache key: ['notifications', 'settings']
+ */
+export function useNotificationSettings() {
+  return useQuery({
+    queryKey: ['notifications', 'settings'],
+    queryFn: getNotificationSettingsApi,
+  })
+}
+
+/**
+ * Hook to update the current user's notification preferences
+ *
+ * @returns Mutation object
+ */
+export function useUpdateNotificationSettings() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: UpdateNotificationSettingsDto) => updateNotificationSettingsApi(data),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['notifications', 'settings'], settings)
+      toast({
+        title: 'Préférences enregistrées',
+        description: 'Vos préférences de notification ont été mises à jour',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'enregistrer les préférences'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to fetch the email delivery log (ADMIN)
+ *
+ * Cache key: ['notifications', 'logs', params]
+ *
+ * @param params - Page, page size and filters
+ * @param enabled - Skip the request for non-admin users
+ */
+export function useNotificationLogs(
+  params: { page?: number; pageSize?: number } & NotificationLogFilters = {},
+  enabled = true
+) {
+  return useQuery({
+    queryKey: ['notifications', 'logs', params],
+    queryFn: () => getNotificationLogsApi(params),
+    placeholderData: keepPreviousData,
+    enabled,
+  })
+}
+
+/**
+ * Hook to send overdue loan reminders now (ADMIN)
+ *
+ * @returns Mutation object
+ */
+export function useSendOverdueReminders() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: sendOverdueRemindersApi,
+    onSuccess: async (result) => {
+      await queryClient.invalidateQueries({ queryKey: ['notifications', 'logs'] })
+      toast({
+        title: 'Rappels envoyés',
+        description: result.loans === 0
+          ? 'Aucun prêt en retard à relancer'
+          : `${result.loans} prêt(s) relancé(s) : ${result.sent} email(s) envoyé(s), ${result.failed} échec(s)`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'envoyer les rappels'),
+      })
+    },
+  })
+}
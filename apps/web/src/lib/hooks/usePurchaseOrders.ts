@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Purchase orders hooks with React Query
+ *
+ * Provides order listing, draft edition, placing and reception, with cache
+ * invalidation and toast notifications.
+ *
+ * A reception creates asset items and increments stock items, so it also
+ * invalidates the asset, model and stock caches.
+ */
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import {
+  getPurchaseOrdersApi,
+  getPurchaseOrderApi,
+  createPurchaseOrderApi,
+  updatePurchaseOrderApi,
+  placePurchaseOrderApi,
+  receivePurchaseOrderApi,
+  deletePurchaseOrderApi,
+} from '@/lib/api/purchaseOrders.api'
+import type {
+  CreatePurchaseOrderDto,
+  UpdatePurchaseOrderDto,
+  ReceivePurchaseOrderDto,
+  PurchaseOrderFilters,
+} from '@/lib/types/models.types'
+import type { PaginationParams } from '@/lib/types/pagination.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch purchase orders
+ *
+ * Cache key: ['purchaseOrders', params]
+ *
+ * @param params - Pagination parameters, status and supplier filters
+ * @returns React Query result object with paginated orders
+ */
+export function usePurchaseOrders(params: PaginationParams & PurchaseOrderFilters = {}) {
+  return useQuery({
+    queryKey: ['purchaseOrders', params],
+    queryFn: () => getPurchaseOrdersApi(params),
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Hook to fetch a single purchase order
+ *
+ * Cache key: ['purchaseOrders', id]
+ *
+ * @param id - Order ID
+ * @returns React Query result object with the order
+ */
+export function usePurchaseOrder(id: string) {
+  return useQuery({
+    queryKey: ['purchaseOrders', id],
+    queryFn: () => getPurchaseOrderApi(id),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Hook to create a draft purchase order
+ *
+ * @returns Mutation object
+ */
+export function useCreatePurchaseOrder() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: CreatePurchaseOrderDto) => createPurchaseOrderApi(data),
+    onSuccess: async (order) => {
+      await queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] })
+      toast({
+        title: 'Bon de commande créé',
+        description: order.reference,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de créer le bon de commande'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to update a draft purchase order
+ *
+ * @returns Mutation object
+ */
+export function useUpdatePurchaseOrder() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdatePurchaseOrderDto }) => updatePurchaseOrderApi(id, data),
+    onSuccess: async (order) => {
+      await queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] })
+      toast({
+        title: 'Bon de commande modifié',
+        description: order.reference,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de modifier le bon de commande'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to place a draft order with its supplier
+ *
+ * @returns Mutation object
+ */
+export function usePlacePurchaseOrder() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => placePurchaseOrderApi(id),
+    onSuccess: async (order) => {
+      await queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] })
+      toast({
+        title: 'Commande passée',
+        description: `${order.reference} est en attente de livraison`,
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de passer la commande'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to receive (part of) a purchase order
+ *
+ * Errors are left to the caller: the reception dialog shows them next to
+ * the captured serial numbers so they can be corrected.
+ *
+ * @param orderId - Order ID
+ * @returns Mutation object
+ */
+export function useReceivePurchaseOrder(orderId: string) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: ReceivePurchaseOrderDto) => receivePurchaseOrderApi(orderId, data),
+    onSuccess: async (result) => {
+      await queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetModels'] })
+      await queryClient.invalidateQueries({ queryKey: ['stockItems'] })
+      const received = result.assetItems.length + result.stockItems.reduce((sum, entry) => sum + entry.quantity, 0)
+      toast({
+        title: 'Réception enregistrée',
+        description: `${received} article(s) reçu(s) sur ${result.order.reference}`,
+      })
+    },
+  })
+}
+
+/**
+ * Hook to delete a draft purchase order
+ *
+ * @returns Mutation object
+ */
+export function useDeletePurchaseOrder() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => deletePurchaseOrderApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] })
+      toast({
+        title: 'Bon de commande supprimé',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de supprimer le bon de commande'),
+      })
+    },
+  })
+}
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Repair tickets hooks with React Query
+ *
+ * Provides listing, opening, tracking and closing of repair tickets with
+ * cache invalidation and toast notifications.
+ *
+ * Opening and closing a ticket change the asset item status, so they also
+ * invalidate the inventory and dashboard caches.
+ */
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import type { QueryClient } from '@tanstack/react-query'
+import {
+  getRepairTicketsApi,
+  createRepairTicketApi,
+  updateRepairTicketApi,
+  closeRepairTicketApi,
+} from '@/lib/api/repairTickets.api'
+import type {
+  CloseRepairTicketDto,
+  CreateRepairTicketDto,
+  RepairTicketFilters,
+  UpdateRepairTicketDto,
+} from '@/lib/types/models.types'
+import type { PaginationParams } from '@/lib/types/pagination.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+async function invalidateAssetCaches(queryClient: QueryClient) {
+  await queryClient.invalidateQueries({ queryKey: ['repairTickets'] })
+  await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+  await queryClient.invalidateQueries({ queryKey: ['assetModels'] })
+  await queryClient.invalidateQueries({ queryKey: ['autocompleteAssetItems'] })
+  await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+}
+
+/**
+ * Hook to fetch repair tickets
+ *
+ * Cache key: ['repairTickets', params]
+ *
+ * @param params - Pagination parameters and filters (status, open, asset item, search)
+ * @returns React Query result object with paginated tickets
+ *
+ * @example
+ * const { data } = useRepairTickets({ open: true, pageSize: 5 });
+ */
+export function useRepairTickets(params: PaginationParams & RepairTicketFilters = {}) {
+  return useQuery({
+    queryKey: ['repairTickets', params],
+    queryFn: () => getRepairTicketsApi(params),
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Hook to open a repair ticket
+ *
+ * On success:
+ * - Invalidates repair tickets, inventory and dashboard caches (asset goes REPARATION)
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ */
+export function useCreateRepairTicket() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: CreateRepairTicketDto) => createRepairTicketApi(data),
+    onSuccess: async () => {
+      await invalidateAssetCaches(queryClient)
+      toast({
+        title: 'Ticket de réparation ouvert',
+        description: 'L\'équipement est passé en réparation',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'ouvrir le ticket de réparation'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to update a repair ticket (tracking status, vendor, RMA, quote, expected return)
+ *
+ * @returns Mutation object
+ */
+export function useUpdateRepairTicket() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateRepairTicketDto }) => updateRepairTicketApi(id, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['repairTickets'] })
+      toast({
+        title: 'Ticket de réparation modifié',
+        description: 'Le suivi de la réparation a été mis à jour',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de modifier le ticket de réparation'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to close a repair ticket
+ *
+ * On success:
+ * - Invalidates repair tickets, inventory and dashboard caches (asset goes EN_STOCK or HS)
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ */
+export function useCloseRepairTicket() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CloseRepairTicketDto }) => closeRepairTicketApi(id, data),
+    onSuccess: async (ticket) => {
+      await invalidateAssetCaches(queryClient)
+      toast({
+        title: 'Ticket de réparation clôturé',
+        description: ticket.outcome === 'SCRAPPED'
+          ? 'L\'équipement est passé hors service'
+          : 'L\'équipement est de retour en stock',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de clôturer le ticket de réparation'),
+      })
+    },
+  })
+}
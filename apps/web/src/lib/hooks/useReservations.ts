@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Reservations hooks with React Query
+ *
+ * Provides listing, creation, cancellation and conversion of equipment
+ * reservations with cache invalidation and toast notifications.
+ *
+ * Converting a reservation creates a loan, so it also invalidates the
+ * loans, inventory and dashboard caches.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getReservationsApi,
+  createReservationApi,
+  updateReservationApi,
+  cancelReservationApi,
+  convertReservationApi,
+} from '@/lib/api/reservations.api'
+import type {
+  CreateReservationDto,
+  Loan,
+  ReservationFilters,
+  UpdateReservationDto,
+} from '@/lib/types/models.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch reservations
+ *
+ * Cache key: ['reservations', filters]
+ *
+ * @param filters - Optional filters (status, employee, item, period)
+ * @param options.enabled - Disable the query (e.g. until an employee is selected)
+ * @returns React Query result object
+ *
+ * @example
+ * const { data: reservations = [] } = useReservations({ employeeId, status: 'ACTIVE' }, { enabled: !!employeeId });
+ */
+export function useReservations(filters: ReservationFilters = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['reservations', filters],
+    queryFn: () => getReservationsApi(filters),
+    enabled: options.enabled ?? true,
+  })
+}
+
+/**
+ * Hook to create a reservation
+ *
+ * On success:
+ * - Invalidates reservations and asset item autocomplete caches
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ */
+export function useCreateReservation() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: CreateReservationDto) => createReservationApi(data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['reservations'] })
+      await queryClient.invalidateQueries({ queryKey: ['autocompleteAssetItems'] })
+      toast({
+        title: 'Réservation créée',
+        description: 'L\'article est réservé pour la période demandée',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de créer la réservation'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to update a reservation (period, quantity, notes)
+ *
+ * @returns Mutation object
+ */
+export function useUpdateReservation() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateReservationDto }) => updateReservationApi(id, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['reservations'] })
+      await queryClient.invalidateQueries({ queryKey: ['autocompleteAssetItems'] })
+      toast({
+        title: 'Réservation modifiée',
+        description: 'La réservation a été mise à jour',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de modifier la réservation'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to cancel a reservation
+ *
+ * @returns Mutation object
+ */
+export function useCancelReservation() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => cancelReservationApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['reservations'] })
+      await queryClient.invalidateQueries({ queryKey: ['autocompleteAssetItems'] })
+      toast({
+        title: 'Réservation annulée',
+        description: 'L\'article est de nouveau disponible sur la période',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'annuler la réservation'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to convert a reservation into a loan
+ *
+ * On success:
+ * - Caches the new loan
+ * - Invalidates reservations, loans, inventory and dashboard caches
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ *
+ * @example
+ * const convert = useConvertReservation();
+ * const loan = await convert.mutateAsync(reservation.id);
+ * navigate(`/loans/${loan.id}`);
+ */
+export function useConvertReservation() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => convertReservationApi(id),
+    onSuccess: async (loan: Loan) => {
+      queryClient.setQueryData(['loans', loan.id], loan)
+
+      await queryClient.invalidateQueries({ queryKey: ['reservations'] })
+      await queryClient.invalidateQueries({ queryKey: ['loans'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['stockItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      toast({
+        title: 'Prêt créé',
+        description: 'La réservation a été convertie en prêt, la signature de retrait est requise',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de convertir la réservation'),
+      })
+    },
+  })
+}
@@ -14,22 +14,32 @@
  * - Toast notifications for user feedback
  * - Error handling with user-friendly messages
  * - Quantity management and low stock tracking
+ * - Movement ledger per item and drift between counters and ledger
+ * - Reorder list of the items below their own minimum level
  *
- * Low stock threshold: Items with quantity < 5 trigger alerts.
+ * Low stock: available quantity (quantity - loaned) below the item minQuantity.
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
 import {
   getAllStockItemsApi,
   getStockItemApi,
   createStockItemApi,
   updateStockItemApi,
   deleteStockItemApi,
+  adjustStockQuantityApi,
+  getStockMovementsApi,
+  getStockLedgerCheckApi,
+  getStockLedgerDriftsApi,
+  getReorderListApi,
 } from '@/lib/api/stockItems.api'
 import type {
+  AdjustStockQuantityDto,
   CreateStockItemDto,
+  StockMovementFilters,
   UpdateStockItemDto,
 } from '@/lib/types/models.types'
+import type { PaginationParams } from '@/lib/types/pagination.types'
 import { useToast } from '@/lib/hooks/use-toast'
 import { getErrorMessage } from '@/lib/utils/getErrorMessage'
 
@@ -282,3 +292,100 @@ export function useDeleteStockItem() {
     },
   })
 }
+
+/**
+ * Hook to record a manual stock movement (reception, adjustment, write-off)
+ *
+ * On success:
+ * - Invalidates stock items (counters and ledgers) and dashboard caches
+ * - Shows success toast
+ *
+ * @returns Mutation object
+ */
+export function useAdjustStockQuantity() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: AdjustStockQuantityDto }) =>
+      adjustStockQuantityApi(id, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['stockItems'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetModels'] })
+      await queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      toast({
+        title: 'Mouvement enregistré',
+        description: 'La quantité en stock a été mise à jour',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible d\'enregistrer le mouvement'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to fetch the movement ledger of a stock item
+ *
+ * Cache key: ['stockItems', id, 'movements', params]
+ *
+ * @param id - Stock item ID
+ * @param params - Pagination parameters and type filter
+ * @returns React Query result object with paginated movements
+ */
+export function useStockMovements(id: string, params: PaginationParams & StockMovementFilters = {}) {
+  return useQuery({
+    queryKey: ['stockItems', id, 'movements', params],
+    queryFn: () => getStockMovementsApi(id, params),
+    enabled: !!id,
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Hook to recompute the counters of a stock item from its ledger
+ *
+ * Cache key: ['stockItems', id, 'ledger']
+ *
+ * @param id - Stock item ID
+ * @returns React Query result object with current / ledger counters and drift
+ */
+export function useStockLedgerCheck(id: string) {
+  return useQuery({
+    queryKey: ['stockItems', id, 'ledger'],
+    queryFn: () => getStockLedgerCheckApi(id),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Hook to fetch the stock items whose counters differ from their ledger
+ *
+ * Cache key: ['stockItems', 'ledger-drift']
+ *
+ * @returns React Query result object with the drifting items
+ */
+export function useStockLedgerDrifts() {
+  return useQuery({
+    queryKey: ['stockItems', 'ledger-drift'],
+    queryFn: getStockLedgerDriftsApi,
+  })
+}
+
+/**
+ * Hook to fetch the reorder list
+ *
+ * Cache key: ['stockItems', 'reorder-list']
+ *
+ * @returns React Query result object with the items to order, grouped by supplier
+ */
+export function useReorderList() {
+  return useQuery({
+    queryKey: ['stockItems', 'reorder-list'],
+    queryFn: getReorderListApi,
+  })
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Suppliers hooks with React Query
+ *
+ * Provides listing and management of suppliers with cache invalidation
+ * and toast notifications.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getSuppliersApi,
+  createSupplierApi,
+  updateSupplierApi,
+  deleteSupplierApi,
+} from '@/lib/api/suppliers.api'
+import type { CreateSupplierDto, UpdateSupplierDto } from '@/lib/types/models.types'
+import { useToast } from '@/lib/hooks/use-toast'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+
+/**
+ * Hook to fetch all suppliers
+ *
+ * Cache key: ['suppliers']
+ *
+ * @returns React Query result object
+ *
+ * @example
+ * const { data: suppliers = [], isLoading } = useSuppliers();
+ */
+export function useSuppliers() {
+  return useQuery({
+    queryKey: ['suppliers'],
+    queryFn: getSuppliersApi,
+  })
+}
+
+/**
+ * Hook to create a supplier
+ *
+ * @returns Mutation object
+ */
+export function useCreateSupplier() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (data: CreateSupplierDto) => createSupplierApi(data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['suppliers'] })
+      toast({
+        title: 'Fournisseur créé',
+        description: 'Le fournisseur a été créé avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de créer le fournisseur'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to update a supplier
+ *
+ * Asset items embed their supplier, so their cache is invalidated too.
+ *
+ * @returns Mutation object
+ */
+export function useUpdateSupplier() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateSupplierDto }) => updateSupplierApi(id, data),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['suppliers'] })
+      await queryClient.invalidateQueries({ queryKey: ['assetItems'] })
+      toast({
+        title: 'Fournisseur modifié',
+        description: 'Le fournisseur a été modifié avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de modifier le fournisseur'),
+      })
+    },
+  })
+}
+
+/**
+ * Hook to delete a supplier
+ *
+ * @returns Mutation object
+ */
+export function useDeleteSupplier() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: (id: string) => deleteSupplierApi(id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['suppliers'] })
+      toast({
+        title: 'Fournisseur supprimé',
+        description: 'Le fournisseur a été supprimé avec succès',
+      })
+    },
+    onError: (error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de supprimer le fournisseur'),
+      })
+    },
+  })
+}
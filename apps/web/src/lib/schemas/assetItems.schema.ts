@@ -1,5 +1,6 @@
 import { z } from 'zod'
-import { AssetStatus } from '@/lib/types/enums'
+import { AssetStatus, DisposalReason, LabelCodeType } from '@/lib/types/enums'
+import { isValidEuroInput } from '@/lib/utils/money'
 
 export const createAssetItemSchema = z.object({
   assetTag: z.string().min(1, 'Le tag est requis'),
@@ -33,14 +34,23 @@ export const createBulkAssetItemsSchema = z.object({
 })
 
 // Schema unifié pour le formulaire (mode conditionnel)
+// Achat : dates au format yyyy-MM-dd, prix saisi en euros (converti en centimes)
 export const assetItemFormSchema = z.object({
   quantity: z.number().int().min(1).max(100),
   assetModelId: z.string().min(1, 'Le modèle est requis'),
   status: z.nativeEnum(AssetStatus).optional(),
   notes: z.string().optional(),
+  location: z.string().max(200, 'L\'emplacement ne peut pas dépasser 200 caractères').optional(),
   assetTag: z.string().optional(),
   tagPrefix: z.string().optional(),
   serial: z.string().optional(),
+  supplierId: z.string().optional(),
+  invoiceNumber: z.string().max(100, 'Le numéro de facture ne peut pas dépasser 100 caractères').optional(),
+  purchaseDate: z.string().optional(),
+  purchasePrice: z.string().optional().refine(isValidEuroInput, {
+    message: 'Montant invalide (ex : 899,90)',
+  }),
+  warrantyEndsAt: z.string().optional(),
 }).refine(
   (data) => {
     // Si quantity === 1, assetTag requis
@@ -54,9 +64,57 @@ export const assetItemFormSchema = z.object({
     message: 'Tag d\'actif ou préfixe requis selon le mode',
     path: ['assetTag'],
   }
+).refine(
+  (data) => !data.purchaseDate || !data.warrantyEndsAt || data.warrantyEndsAt >= data.purchaseDate,
+  {
+    message: 'La fin de garantie doit être postérieure à la date d\'achat',
+    path: ['warrantyEndsAt'],
+  }
 )
 
 export type CreateAssetItemFormData = z.infer<typeof createAssetItemSchema>
 export type UpdateAssetItemFormData = z.infer<typeof updateAssetItemSchema>
 export type CreateBulkAssetItemsFormData = z.infer<typeof createBulkAssetItemsSchema>
 export type AssetItemFormData = z.infer<typeof assetItemFormSchema>
+
+// Réforme : l'effacement des données est obligatoire pour un recyclage ou un don
+export const retireAssetItemSchema = z.object({
+  reason: z.nativeEnum(DisposalReason, { message: 'Le motif de sortie est requis' }),
+  disposedAt: z.string().min(1, 'La date de sortie est requise'),
+  certificateRef: z.string().max(100, 'La référence ne peut pas dépasser 100 caractères').optional(),
+  dataWipeConfirmed: z.boolean(),
+  note: z.string().max(1000, 'La note ne peut pas dépasser 1000 caractères').optional(),
+}).refine(
+  (data) => (data.reason !== DisposalReason.RECYCLAGE && data.reason !== DisposalReason.DON) || data.dataWipeConfirmed,
+  {
+    message: 'Confirmez l\'effacement des données avant un recyclage ou un don',
+    path: ['dataWipeConfirmed'],
+  }
+)
+
+export type RetireAssetItemFormData = z.infer<typeof retireAssetItemSchema>
+
+// Étiquettes : dimensions de la planche en millimètres (ajustement facultatif du format)
+const millimeters = (min: number, max: number) => z.number({ message: 'Valeur requise' })
+  .min(min, `Minimum ${min} mm`)
+  .max(max, `Maximum ${max} mm`)
+
+export const printLabelsSchema = z.object({
+  format: z.string().min(1, 'Le format est requis'),
+  codeType: z.nativeEnum(LabelCodeType),
+  startPosition: z.number({ message: 'Position requise' }).int('Nombre entier requis').min(1, 'Minimum 1'),
+  borders: z.boolean(),
+  customLayout: z.boolean(),
+  layout: z.object({
+    columns: z.number({ message: 'Valeur requise' }).int('Nombre entier requis').min(1, 'Minimum 1').max(10, 'Maximum 10'),
+    rows: z.number({ message: 'Valeur requise' }).int('Nombre entier requis').min(1, 'Minimum 1').max(30, 'Maximum 30'),
+    labelWidth: millimeters(15, 210),
+    labelHeight: millimeters(10, 297),
+    marginTop: millimeters(0, 100),
+    marginLeft: millimeters(0, 100),
+    gapX: millimeters(0, 50),
+    gapY: millimeters(0, 50),
+  }),
+})
+
+export type PrintLabelsFormData = z.infer<typeof printLabelsSchema>
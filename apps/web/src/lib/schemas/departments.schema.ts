@@ -0,0 +1,15 @@
+import { z } from 'zod'
+
+const nameSchema = z.string().trim().min(2, 'Le nom doit contenir au moins 2 caractères').max(100, 'Le nom ne peut pas dépasser 100 caractères')
+
+export const departmentSchema = z.object({
+  name: nameSchema,
+  companyId: z.string(),
+})
+
+export const companySchema = z.object({
+  name: nameSchema,
+})
+
+export type DepartmentFormData = z.infer<typeof departmentSchema>
+export type CompanyFormData = z.infer<typeof companySchema>
@@ -4,14 +4,14 @@ export const createEmployeeSchema = z.object({
   firstName: z.string().min(2, 'Le prénom doit contenir au moins 2 caractères'),
   lastName: z.string().min(2, 'Le nom doit contenir au moins 2 caractères'),
   email: z.string().email('Email invalide'),
-  dept: z.string().optional(),
+  departmentId: z.string().optional(),
 })
 
 export const updateEmployeeSchema = z.object({
   firstName: z.string().min(2, 'Le prénom doit contenir au moins 2 caractères').optional(),
   lastName: z.string().min(2, 'Le nom doit contenir au moins 2 caractères').optional(),
   email: z.string().email('Email invalide').optional(),
-  dept: z.string().optional().nullable(),
+  departmentId: z.string().optional().nullable(),
 })
 
 export type CreateEmployeeFormData = z.infer<typeof createEmployeeSchema>
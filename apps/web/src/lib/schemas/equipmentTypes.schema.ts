@@ -12,6 +12,13 @@ export const equipmentTypeFormSchema = z.object({
     .min(2, 'Le nom doit contenir au moins 2 caractères')
     .max(50, 'Le nom ne peut pas dépasser 50 caractères')
     .trim(),
+  // Durée d'amortissement linéaire en années, vide pour ne pas amortir
+  depreciationYears: z
+    .string()
+    .refine(
+      (value) => value === '' || (/^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 20),
+      'La durée d\'amortissement doit être un nombre entier entre 1 et 20'
+    ),
 });
 
 export type EquipmentTypeFormData = z.infer<typeof equipmentTypeFormSchema>;
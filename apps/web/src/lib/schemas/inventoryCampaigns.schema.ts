@@ -0,0 +1,11 @@
+import { z } from 'zod'
+
+// Périmètre facultatif : tout le parc si aucun type ni emplacement
+export const inventoryCampaignSchema = z.object({
+  name: z.string().trim().min(1, 'Le nom de la campagne est requis').max(200, 'Le nom ne peut pas dépasser 200 caractères'),
+  equipmentType: z.string().optional(),
+  location: z.string().max(200, 'L\'emplacement ne peut pas dépasser 200 caractères').optional(),
+  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional(),
+})
+
+export type InventoryCampaignFormData = z.infer<typeof inventoryCampaignSchema>
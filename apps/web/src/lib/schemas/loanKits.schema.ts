@@ -0,0 +1,16 @@
+import { z } from 'zod'
+
+/**
+ * A kit component is picked in a single select mixing asset models and
+ * stock items: `component` is "asset:<modelId>" or "stock:<stockItemId>".
+ */
+export const loanKitSchema = z.object({
+  name: z.string().trim().min(2, 'Le nom doit contenir au moins 2 caractères').max(100, 'Le nom ne peut pas dépasser 100 caractères'),
+  description: z.string().max(500, 'La description ne peut pas dépasser 500 caractères').optional(),
+  items: z.array(z.object({
+    component: z.string().min(1, 'Sélectionnez un composant'),
+    quantity: z.number().int().min(1, 'La quantité doit être au moins 1').max(50, 'La quantité ne peut pas dépasser 50'),
+  })).min(1, 'Le kit doit contenir au moins un composant').max(50, 'Le kit ne peut pas contenir plus de 50 composants'),
+})
+
+export type LoanKitFormData = z.infer<typeof loanKitSchema>
@@ -2,12 +2,14 @@ import { z } from 'zod'
 
 export const createLoanSchema = z.object({
   employeeId: z.string().min(1, 'L\'employé est requis'),
+  dueAt: z.string().optional(),
 })
 
 export const addLoanLineSchema = z.object({
   assetItemId: z.string().optional(),
   stockItemId: z.string().optional(),
   quantity: z.number().min(1, 'La quantité doit être au moins 1').int().optional(),
+  dueAt: z.string().optional(),
 }).refine(
   (data) => data.assetItemId || data.stockItemId,
   {
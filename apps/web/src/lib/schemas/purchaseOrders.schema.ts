@@ -0,0 +1,20 @@
+import { z } from 'zod'
+import { isValidEuroInput } from '@/lib/utils/money'
+
+// Prix unitaire saisi en euros, envoyé en centimes
+export const purchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, 'Le fournisseur est requis'),
+  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional(),
+  lines: z.array(z.object({
+    assetModelId: z.string().min(1, 'Sélectionnez un modèle'),
+    quantity: z.number().int().min(1, 'La quantité doit être au moins 1').max(1000, 'La quantité ne peut pas dépasser 1000'),
+    unitPrice: z.string().trim().min(1, 'Le prix unitaire est requis').refine(isValidEuroInput, {
+      message: 'Montant invalide (ex : 129,90)',
+    }),
+  })).min(1, 'Le bon de commande doit contenir au moins une ligne').max(100, 'Maximum 100 lignes par bon de commande')
+    .refine((lines) => new Set(lines.map((line) => line.assetModelId)).size === lines.length, {
+      message: 'Chaque modèle ne peut figurer qu\'une fois sur le bon de commande',
+    }),
+})
+
+export type PurchaseOrderFormData = z.infer<typeof purchaseOrderSchema>
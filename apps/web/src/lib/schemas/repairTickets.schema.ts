@@ -0,0 +1,24 @@
+import { z } from 'zod'
+import { isValidEuroInput } from '@/lib/utils/money'
+
+const euroAmountSchema = z.string().optional().refine(isValidEuroInput, {
+  message: 'Montant invalide (ex : 129,90)',
+})
+
+export const createRepairTicketSchema = z.object({
+  fault: z.string().trim().min(1, 'La description de la panne est requise').max(2000, 'La description ne peut pas dépasser 2000 caractères'),
+  vendor: z.string().max(200, 'Le prestataire ne peut pas dépasser 200 caractères').optional(),
+  rmaNumber: z.string().max(100, 'Le numéro RMA ne peut pas dépasser 100 caractères').optional(),
+  quote: euroAmountSchema,
+  expectedReturnAt: z.string().optional(),
+})
+
+export type CreateRepairTicketFormData = z.infer<typeof createRepairTicketSchema>
+
+export const closeRepairTicketSchema = z.object({
+  outcome: z.enum(['REPAIRED', 'SCRAPPED'], { message: 'L\'issue de la réparation est requise' }),
+  finalCost: euroAmountSchema,
+  closingNote: z.string().max(1000, 'La note ne peut pas dépasser 1000 caractères').optional(),
+})
+
+export type CloseRepairTicketFormData = z.infer<typeof closeRepairTicketSchema>
@@ -0,0 +1,27 @@
+import { z } from 'zod'
+
+export const createReservationSchema = z.object({
+  employeeId: z.string().min(1, 'L\'employé est requis'),
+  itemType: z.enum(['asset', 'stock']),
+  assetItemId: z.string().optional(),
+  stockItemId: z.string().optional(),
+  quantity: z.number().min(1, 'La quantité doit être au moins 1').int(),
+  startDate: z.string().min(1, 'La date de début est requise'),
+  endDate: z.string().min(1, 'La date de fin est requise'),
+  notes: z.string().max(1000, 'Les notes ne peuvent pas dépasser 1000 caractères').optional(),
+}).refine(
+  (data) => (data.itemType === 'asset' ? !!data.assetItemId : !!data.stockItemId),
+  {
+    message: 'Vous devez sélectionner l\'article à réserver',
+    path: ['itemType'],
+  }
+).refine(
+  // yyyy-MM-dd strings compare chronologically
+  (data) => !data.startDate || !data.endDate || data.endDate >= data.startDate,
+  {
+    message: 'La date de fin doit être postérieure à la date de début',
+    path: ['endDate'],
+  }
+)
+
+export type CreateReservationFormData = z.infer<typeof createReservationSchema>
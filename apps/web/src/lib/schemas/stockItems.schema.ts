@@ -3,14 +3,33 @@ import { z } from 'zod'
 export const createStockItemSchema = z.object({
   assetModelId: z.string().min(1, 'Le modèle est requis'),
   quantity: z.number().min(0, 'La quantité doit être positive').int('La quantité doit être un nombre entier'),
+  minQuantity: z.number().min(0, 'Le stock minimum doit être positif').int('Le stock minimum doit être un nombre entier'),
+  reorderQuantity: z.number().min(0, 'La commande habituelle doit être positive').int('La commande habituelle doit être un nombre entier'),
+  supplierId: z.string().optional().nullable(),
   notes: z.string().optional(),
+  location: z.string().max(200, 'L\'emplacement ne peut pas dépasser 200 caractères').optional(),
 })
 
 export const updateStockItemSchema = z.object({
   assetModelId: z.string().min(1, 'Le modèle est requis').optional(),
   quantity: z.number().min(0, 'La quantité doit être positive').int('La quantité doit être un nombre entier').optional(),
+  minQuantity: z.number().min(0, 'Le stock minimum doit être positif').int('Le stock minimum doit être un nombre entier').optional(),
+  reorderQuantity: z.number().min(0, 'La commande habituelle doit être positive').int('La commande habituelle doit être un nombre entier').optional(),
+  supplierId: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
+  location: z.string().max(200, 'L\'emplacement ne peut pas dépasser 200 caractères').optional().nullable(),
+})
+
+// Reception and write-off take a number of units, an adjustment a signed change
+export const stockMovementFormSchema = z.object({
+  type: z.enum(['RECEPTION', 'ADJUSTMENT', 'WRITE_OFF']),
+  quantity: z.number().int('La quantité doit être un nombre entier').refine((value) => value !== 0, 'La quantité ne peut pas être nulle'),
+  reason: z.string().max(500, 'Le motif ne peut pas dépasser 500 caractères').optional(),
+}).refine((data) => data.type === 'ADJUSTMENT' || data.quantity > 0, {
+  message: 'Indiquez un nombre d\'unités positif',
+  path: ['quantity'],
 })
 
 export type CreateStockItemFormData = z.infer<typeof createStockItemSchema>
 export type UpdateStockItemFormData = z.infer<typeof updateStockItemSchema>
+export type StockMovementFormData = z.infer<typeof stockMovementFormSchema>
@@ -0,0 +1,11 @@
+import { z } from 'zod'
+
+export const supplierSchema = z.object({
+  name: z.string().trim().min(2, 'Le nom doit contenir au moins 2 caractères').max(100, 'Le nom ne peut pas dépasser 100 caractères'),
+  contactName: z.string().max(100, 'Le contact ne peut pas dépasser 100 caractères').optional(),
+  email: z.union([z.literal(''), z.string().trim().email('Email invalide')]).optional(),
+  phone: z.string().max(30, 'Le téléphone ne peut pas dépasser 30 caractères').optional(),
+  notes: z.string().max(500, 'Les notes ne peuvent pas dépasser 500 caractères').optional(),
+})
+
+export type SupplierFormData = z.infer<typeof supplierSchema>
@@ -13,10 +13,28 @@ export const AssetStatus = {
   PRETE: 'PRETE',
   HS: 'HS',
   REPARATION: 'REPARATION',
+  REFORME: 'REFORME',
 } as const
 
 export type AssetStatus = typeof AssetStatus[keyof typeof AssetStatus]
 
+export const DisposalReason = {
+  RECYCLAGE: 'RECYCLAGE',
+  DON: 'DON',
+  VOL: 'VOL',
+  PERTE: 'PERTE',
+} as const
+
+export type DisposalReason = typeof DisposalReason[keyof typeof DisposalReason]
+
+export const LabelCodeType = {
+  BOTH: 'BOTH',
+  QRCODE: 'QRCODE',
+  CODE128: 'CODE128',
+} as const
+
+export type LabelCodeType = typeof LabelCodeType[keyof typeof LabelCodeType]
+
 export const LoanStatus = {
   OPEN: 'OPEN',
   CLOSED: 'CLOSED',
@@ -24,6 +42,93 @@ export const LoanStatus = {
 
 export type LoanStatus = typeof LoanStatus[keyof typeof LoanStatus]
 
+export const ReturnCondition = {
+  OK: 'OK',
+  DAMAGED: 'DAMAGED',
+  MISSING: 'MISSING',
+} as const
+
+export type ReturnCondition = typeof ReturnCondition[keyof typeof ReturnCondition]
+
+export const ReservationStatus = {
+  ACTIVE: 'ACTIVE',
+  CONVERTED: 'CONVERTED',
+  CANCELLED: 'CANCELLED',
+} as const
+
+export type ReservationStatus = typeof ReservationStatus[keyof typeof ReservationStatus]
+
+export const RepairTicketStatus = {
+  OPEN: 'OPEN',
+  SENT: 'SENT',
+  QUOTED: 'QUOTED',
+  IN_REPAIR: 'IN_REPAIR',
+  CLOSED: 'CLOSED',
+} as const
+
+export type RepairTicketStatus = typeof RepairTicketStatus[keyof typeof RepairTicketStatus]
+
+export const RepairOutcome = {
+  REPAIRED: 'REPAIRED',
+  SCRAPPED: 'SCRAPPED',
+} as const
+
+export type RepairOutcome = typeof RepairOutcome[keyof typeof RepairOutcome]
+
+export const InventoryCampaignStatus = {
+  OPEN: 'OPEN',
+  CLOSED: 'CLOSED',
+} as const
+
+export type InventoryCampaignStatus = typeof InventoryCampaignStatus[keyof typeof InventoryCampaignStatus]
+
+export const PurchaseOrderStatus = {
+  DRAFT: 'DRAFT',
+  ORDERED: 'ORDERED',
+  PARTIALLY_RECEIVED: 'PARTIALLY_RECEIVED',
+  RECEIVED: 'RECEIVED',
+} as const
+
+export type PurchaseOrderStatus = typeof PurchaseOrderStatus[keyof typeof PurchaseOrderStatus]
+
+export const StockMovementType = {
+  INITIAL: 'INITIAL',
+  RECEPTION: 'RECEPTION',
+  LOAN_OUT: 'LOAN_OUT',
+  LOAN_CLOSED: 'LOAN_CLOSED',
+  ADJUSTMENT: 'ADJUSTMENT',
+  INVENTORY_CORRECTION: 'INVENTORY_CORRECTION',
+  WRITE_OFF: 'WRITE_OFF',
+} as const
+
+export type StockMovementType = typeof StockMovementType[keyof typeof StockMovementType]
+
+// Movement types a manager records by hand, the others come from loans and inventories
+export const MANUAL_STOCK_MOVEMENT_TYPES = [
+  StockMovementType.RECEPTION,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.WRITE_OFF,
+] as const
+
+export type ManualStockMovementType = typeof MANUAL_STOCK_MOVEMENT_TYPES[number]
+
+export const NotificationEvent = {
+  LOAN_OPENED: 'LOAN_OPENED',
+  LINE_ADDED: 'LINE_ADDED',
+  LOAN_CLOSED: 'LOAN_CLOSED',
+  OVERDUE_REMINDER: 'OVERDUE_REMINDER',
+  LONG_LOAN_REMINDER: 'LONG_LOAN_REMINDER',
+} as const
+
+export type NotificationEvent = typeof NotificationEvent[keyof typeof NotificationEvent]
+
+export const NotificationStatus = {
+  SENT: 'SENT',
+  FAILED: 'FAILED',
+} as const
+
+export type NotificationStatus = typeof NotificationStatus[keyof typeof NotificationStatus]
+
 export const AssetType = {
   LAPTOP: 'LAPTOP',
   DESKTOP: 'DESKTOP',
@@ -52,6 +157,20 @@ export const AssetStatusLabels: Record<AssetStatus, string> = {
   [AssetStatus.PRETE]: 'Prêté',
   [AssetStatus.HS]: 'Hors service',
   [AssetStatus.REPARATION]: 'En réparation',
+  [AssetStatus.REFORME]: 'Réformé',
+}
+
+export const DisposalReasonLabels: Record<DisposalReason, string> = {
+  [DisposalReason.RECYCLAGE]: 'Recyclage',
+  [DisposalReason.DON]: 'Don',
+  [DisposalReason.VOL]: 'Vol',
+  [DisposalReason.PERTE]: 'Perte',
+}
+
+export const LabelCodeTypeLabels: Record<LabelCodeType, string> = {
+  [LabelCodeType.BOTH]: 'QR code + code-barres',
+  [LabelCodeType.QRCODE]: 'QR code seul',
+  [LabelCodeType.CODE128]: 'Code-barres seul (Code 128)',
 }
 
 export const LoanStatusLabels: Record<LoanStatus, string> = {
@@ -59,6 +178,66 @@ export const LoanStatusLabels: Record<LoanStatus, string> = {
   [LoanStatus.CLOSED]: 'Fermé',
 }
 
+export const ReturnConditionLabels: Record<ReturnCondition, string> = {
+  [ReturnCondition.OK]: 'OK',
+  [ReturnCondition.DAMAGED]: 'Endommagé',
+  [ReturnCondition.MISSING]: 'Manquant',
+}
+
+export const ReservationStatusLabels: Record<ReservationStatus, string> = {
+  [ReservationStatus.ACTIVE]: 'Active',
+  [ReservationStatus.CONVERTED]: 'Convertie en prêt',
+  [ReservationStatus.CANCELLED]: 'Annulée',
+}
+
+export const RepairTicketStatusLabels: Record<RepairTicketStatus, string> = {
+  [RepairTicketStatus.OPEN]: 'Ouvert',
+  [RepairTicketStatus.SENT]: 'Envoyé au prestataire',
+  [RepairTicketStatus.QUOTED]: 'Devis reçu',
+  [RepairTicketStatus.IN_REPAIR]: 'En réparation',
+  [RepairTicketStatus.CLOSED]: 'Clôturé',
+}
+
+export const RepairOutcomeLabels: Record<RepairOutcome, string> = {
+  [RepairOutcome.REPAIRED]: 'Réparé (retour en stock)',
+  [RepairOutcome.SCRAPPED]: 'Irréparable (hors service)',
+}
+
+export const InventoryCampaignStatusLabels: Record<InventoryCampaignStatus, string> = {
+  [InventoryCampaignStatus.OPEN]: 'En cours',
+  [InventoryCampaignStatus.CLOSED]: 'Clôturée',
+}
+
+export const PurchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  [PurchaseOrderStatus.DRAFT]: 'Brouillon',
+  [PurchaseOrderStatus.ORDERED]: 'Commandé',
+  [PurchaseOrderStatus.PARTIALLY_RECEIVED]: 'Reçu partiellement',
+  [PurchaseOrderStatus.RECEIVED]: 'Reçu',
+}
+
+export const StockMovementTypeLabels: Record<StockMovementType, string> = {
+  [StockMovementType.INITIAL]: 'Solde initial',
+  [StockMovementType.RECEPTION]: 'Réception',
+  [StockMovementType.LOAN_OUT]: 'Sortie en prêt',
+  [StockMovementType.LOAN_CLOSED]: 'Retour de prêt',
+  [StockMovementType.ADJUSTMENT]: 'Ajustement',
+  [StockMovementType.INVENTORY_CORRECTION]: 'Correction d\'inventaire',
+  [StockMovementType.WRITE_OFF]: 'Mise au rebut',
+}
+
+export const NotificationEventLabels: Record<NotificationEvent, string> = {
+  [NotificationEvent.LOAN_OPENED]: 'Prêt ouvert',
+  [NotificationEvent.LINE_ADDED]: 'Matériel ajouté',
+  [NotificationEvent.LOAN_CLOSED]: 'Prêt clôturé',
+  [NotificationEvent.OVERDUE_REMINDER]: 'Rappel de retard',
+  [NotificationEvent.LONG_LOAN_REMINDER]: 'Prêt de longue durée',
+}
+
+export const NotificationStatusLabels: Record<NotificationStatus, string> = {
+  [NotificationStatus.SENT]: 'Envoyé',
+  [NotificationStatus.FAILED]: 'Échec',
+}
+
 export const AssetTypeLabels: Record<AssetType, string> = {
   [AssetType.LAPTOP]: 'Ordinateur portable',
   [AssetType.DESKTOP]: 'Ordinateur fixe',
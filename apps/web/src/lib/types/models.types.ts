@@ -1,4 +1,5 @@
-import { UserRole, AssetStatus, LoanStatus } from './enums'
+import { UserRole, AssetStatus, DisposalReason, LabelCodeType, LoanStatus, ReturnCondition, ReservationStatus, RepairTicketStatus, RepairOutcome, InventoryCampaignStatus, PurchaseOrderStatus, StockMovementType, NotificationEvent, NotificationStatus } from './enums'
+import type { ManualStockMovementType } from './enums'
 
 // User types
 export interface User {
@@ -38,39 +39,100 @@ export interface Employee {
   firstName: string
   lastName: string
   email: string
-  dept: string | null
+  dept: string | null // Name of the linked department, kept in sync by the API
+  departmentId?: string | null
+  department?: EmployeeDepartment | null
+  departureDate?: string | null // Offboarding started (last working day)
+  archivedAt?: string | null // Offboarding completed: departed, hidden from pickers
   createdAt: string
   updatedAt: string
 }
 
 export interface CreateEmployeeDto {
+  firstName: string
+  lastName: string
+  email: string
+  departmentId?: string | null
+}
+
+// Excel import row: department and company names are matched or created by the API
+export interface ImportEmployeeDto {
   firstName: string
   lastName: string
   email: string
   dept?: string
+  company?: string
 }
 
 export interface UpdateEmployeeDto {
   firstName?: string
   lastName?: string
   email?: string
-  dept?: string | null
+  departmentId?: string | null
+}
+
+// Department / Company types
+export interface Company {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  _count?: {
+    departments: number
+  }
+}
+
+export interface CreateCompanyDto {
+  name: string
+}
+
+export type UpdateCompanyDto = Partial<CreateCompanyDto>
+
+export interface Department {
+  id: string
+  name: string
+  companyId: string | null
+  company?: Pick<Company, 'id' | 'name'> | null
+  createdAt: string
+  updatedAt: string
+  _count?: {
+    employees: number
+  }
+}
+
+export interface CreateDepartmentDto {
+  name: string
+  companyId?: string | null
+}
+
+export type UpdateDepartmentDto = Partial<CreateDepartmentDto>
+
+// Department as embedded in employees
+export type EmployeeDepartment = Pick<Department, 'id' | 'name' | 'company'>
+
+// Near-duplicate departments, suggested for merging
+export interface DepartmentDuplicateGroup {
+  suggestedTargetId: string
+  departments: Department[]
 }
 
 // Equipment Type types
 export interface EquipmentType {
   id: string
   name: string
+  depreciationYears: number | null
   createdAt: string
   updatedAt: string
 }
 
 export interface CreateEquipmentTypeDto {
   name: string
+  depreciationYears?: number | null
 }
 
 export interface UpdateEquipmentTypeDto {
   name?: string
+  depreciationYears?: number | null
 }
 
 // Asset Model types
@@ -100,6 +162,32 @@ export interface UpdateAssetModelDto {
   quantity?: number
 }
 
+// Supplier types
+export interface Supplier {
+  id: string
+  name: string
+  contactName: string | null
+  email: string | null
+  phone: string | null
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+  _count?: {
+    assetItems: number
+    purchaseOrders?: number
+  }
+}
+
+export interface CreateSupplierDto {
+  name: string
+  contactName?: string | null
+  email?: string | null
+  phone?: string | null
+  notes?: string | null
+}
+
+export type UpdateSupplierDto = Partial<CreateSupplierDto>
+
 // Asset Item types
 export interface AssetItem {
   id: string
@@ -108,33 +196,99 @@ export interface AssetItem {
   status: AssetStatus
   notes: string | null
   assetModelId: string
+  supplierId: string | null
+  invoiceNumber: string | null
+  purchaseDate: string | null
+  purchasePriceCents: number | null
+  warrantyEndsAt: string | null
+  location?: string | null
+  // Set when an inventory campaign reported the item missing, cleared once found again
+  missingSince?: string | null
+  // Disposal details, set when the item is retired (status REFORME)
+  disposalReason?: DisposalReason | null
+  disposedAt?: string | null
+  disposalCertificateRef?: string | null
+  dataWipeConfirmed?: boolean
+  disposalNote?: string | null
   createdAt: string
   updatedAt: string
   assetModel?: AssetModel
+  supplier?: Supplier | null
+  // Purchase order line the item was received from
+  purchaseOrderLineId?: string | null
+  orderLine?: { id: string; purchaseOrder: Pick<PurchaseOrder, 'id' | 'reference'> } | null
+  currentValueCents?: number | null // Book value, computed by the server
 }
 
-export interface CreateAssetItemDto {
+// Purchase and warranty data, amounts in cents
+export interface AssetPurchaseDto {
+  supplierId?: string | null
+  invoiceNumber?: string | null
+  purchaseDate?: string | null
+  purchasePriceCents?: number | null
+  warrantyEndsAt?: string | null
+}
+
+export interface CreateAssetItemDto extends AssetPurchaseDto {
   assetTag: string
   serial?: string
   status?: AssetStatus
   notes?: string
+  location?: string | null
   assetModelId: string
 }
 
-export interface UpdateAssetItemDto {
+export interface UpdateAssetItemDto extends AssetPurchaseDto {
   assetTag?: string
   serial?: string | null
   status?: AssetStatus
   notes?: string | null
+  location?: string | null
   assetModelId?: string
 }
 
-export interface CreateBulkAssetItemsDto {
+export interface CreateBulkAssetItemsDto extends AssetPurchaseDto {
   assetModelId: string
   tagPrefix: string
   quantity: number
   status?: AssetStatus
   notes?: string
+  location?: string | null
+}
+
+export interface RetireAssetItemDto {
+  reason: DisposalReason
+  disposedAt: string
+  certificateRef?: string
+  dataWipeConfirmed: boolean
+  note?: string
+}
+
+/** Dimensions d'une planche d'étiquettes, en millimètres */
+export interface LabelLayout {
+  columns: number
+  rows: number
+  labelWidth: number
+  labelHeight: number
+  marginTop: number
+  marginLeft: number
+  gapX: number
+  gapY: number
+}
+
+export interface LabelFormat extends LabelLayout {
+  key: string
+  name: string
+  pageSize: 'A4' | 'LETTER'
+}
+
+export interface GenerateLabelsDto {
+  ids: string[]
+  format?: string
+  layout?: Partial<LabelLayout>
+  codeType?: LabelCodeType
+  startPosition?: number
+  borders?: boolean
 }
 
 export interface BulkCreationPreview {
@@ -149,22 +303,86 @@ export interface StockItem {
   assetModelId: string
   quantity: number
   loaned: number
+  minQuantity: number // Low stock below this available quantity, 0 = no alert
+  reorderQuantity: number // Usual order size, 0 = just enough to reach the minimum
+  supplierId: string | null
   notes: string | null
+  location?: string | null
   createdAt: string
   updatedAt: string
   assetModel?: AssetModel
+  supplier?: Pick<Supplier, 'id' | 'name'> | null
 }
 
 export interface CreateStockItemDto {
   assetModelId: string
   quantity: number
+  minQuantity?: number
+  reorderQuantity?: number
+  supplierId?: string | null
   notes?: string
+  location?: string | null
 }
 
 export interface UpdateStockItemDto {
   assetModelId?: string
   quantity?: number
+  minQuantity?: number
+  reorderQuantity?: number
+  supplierId?: string | null
   notes?: string | null
+  location?: string | null
+}
+
+export interface AdjustStockQuantityDto {
+  quantity: number // Units added (positive) or removed (negative)
+  type?: ManualStockMovementType
+  reason?: string | null
+}
+
+// Ledger entry: summing the deltas of an item gives back quantity and loaned
+export interface StockMovement {
+  id: string
+  stockItemId: string
+  type: StockMovementType
+  quantityDelta: number
+  loanedDelta: number
+  reason: string | null
+  referenceType: string | null // Loan, Reservation, InventoryCampaign...
+  referenceId: string | null
+  createdAt: string
+  createdBy: Pick<User, 'id' | 'email' | 'role'> | null
+}
+
+export interface StockMovementFilters {
+  type?: StockMovementType
+}
+
+export interface StockLedgerCheck {
+  stockItemId: string
+  current: { quantity: number; loaned: number }
+  ledger: { quantity: number; loaned: number }
+  drift: { quantity: number; loaned: number }
+  hasDrift: boolean
+}
+
+export interface StockLedgerDrift extends StockLedgerCheck {
+  assetModel: Pick<AssetModel, 'type' | 'brand' | 'modelName'>
+}
+
+// Reorder list: stock items below their minimum, grouped by supplier
+export interface ReorderLine {
+  stockItemId: string
+  assetModel: Pick<AssetModel, 'type' | 'brand' | 'modelName'>
+  location: string | null
+  available: number
+  minQuantity: number
+  suggestedQuantity: number
+}
+
+export interface ReorderGroup {
+  supplier: Pick<Supplier, 'id' | 'name' | 'contactName' | 'email' | 'phone'> | null // null = items without supplier
+  lines: ReorderLine[]
 }
 
 // Loan types
@@ -174,6 +392,10 @@ export interface LoanLine {
   assetItemId: string | null
   stockItemId: string | null
   quantity: number
+  dueAt: string | null
+  returnedAt: string | null
+  returnCondition: ReturnCondition | null
+  returnNote: string | null
   addedAt: string
   createdAt: string
   assetItem?: AssetItem
@@ -188,6 +410,7 @@ export interface Loan {
   pickupSignedAt: string | null
   returnSignatureUrl: string | null
   returnSignedAt: string | null
+  dueAt: string | null
   closedAt: string | null
   createdAt: string
   updatedAt: string
@@ -195,14 +418,562 @@ export interface Loan {
   lines?: LoanLine[]
 }
 
+export interface DeletedLoan extends Loan {
+  openedAt: string
+  deletedAt: string
+  deletedBy: Pick<User, 'id' | 'email' | 'role'> | null
+  purgeAt: string
+}
+
+export interface PurgeLoansResult {
+  purgedCount: number
+  retentionDays: number
+}
+
 export interface CreateLoanDto {
   employeeId: string
+  dueAt?: string | null
+}
+
+export interface UpdateLoanDto {
+  dueAt?: string | null
+}
+
+export interface ReturnInspectionDto {
+  condition: ReturnCondition
+  note?: string
+}
+
+export interface LoanLineInspectionDto extends ReturnInspectionDto {
+  lineId: string
 }
 
 export interface AddLoanLineDto {
   assetItemId?: string
   stockItemId?: string
   quantity?: number
+  dueAt?: string | null
+}
+
+export interface TransferLoanLinesDto {
+  employeeId: string
+  lineIds: string[]
+  dueAt?: string | null
+}
+
+export interface WriteOffLoanLineDto {
+  reason?: Extract<DisposalReason, 'PERTE' | 'VOL'>
+  note?: string
+}
+
+// Offboarding types
+type OffboardingModel = Pick<AssetModel, 'id' | 'type' | 'brand' | 'modelName'>
+
+export interface OffboardingLine extends Pick<LoanLine, 'id' | 'loanId' | 'assetItemId' | 'stockItemId' | 'quantity' | 'dueAt' | 'addedAt'> {
+  loan: { id: string; openedAt: string; dueAt: string | null }
+  assetItem: (Pick<AssetItem, 'id' | 'assetTag' | 'serial' | 'status'> & { assetModel: OffboardingModel | null }) | null
+  stockItem: { id: string; assetModel: OffboardingModel | null } | null
+}
+
+export interface EmployeeOffboarding {
+  employee: Employee
+  outstandingLines: OffboardingLine[]
+  activeReservations: number // Cancelled when the departure is completed
+  canComplete: boolean
+}
+
+// HR file synchronization types
+export interface EmployeeImportRow {
+  rowNumber?: number // Line of the Excel file, for the report
+  firstName: string | null
+  lastName: string | null
+  email?: string | null
+  dept?: string | null
+  company?: string | null
+}
+
+export type EmployeeImportEntryType = 'NEW' | 'CHANGED' | 'MISSING'
+
+export type EmployeeImportField = 'firstName' | 'lastName' | 'email' | 'dept' | 'company' | 'archivedAt'
+
+export type EmployeeImportOutcome = 'CREATED' | 'UPDATED' | 'ARCHIVED' | 'OFFBOARDING_STARTED'
+
+export interface EmployeeImportChange {
+  field: EmployeeImportField
+  from: string | null
+  to: string | null
+}
+
+export interface EmployeeImportEntry {
+  key: string // Sent back in acceptedKeys to apply the entry
+  type: EmployeeImportEntryType
+  name: string
+  rowNumber?: number
+  employeeId?: string
+  data?: EmployeeImportRow
+  changes: EmployeeImportChange[]
+  // MISSING only
+  dept?: string | null
+  departureDate?: string | null
+  outstandingLines?: number // Leaver still holding equipment: offboarding started instead of archiving
+  // Stored reports only
+  outcome?: EmployeeImportOutcome
+}
+
+export interface EmployeeImportRowError {
+  rowNumber: number
+  name: string
+  error: string
+}
+
+export interface EmployeeImportPreview {
+  totalRows: number
+  summary: {
+    new: number
+    changed: number
+    missing: number
+    unchanged: number
+    errors: number
+  }
+  entries: EmployeeImportEntry[]
+  errors: EmployeeImportRowError[]
+}
+
+export interface ApplyEmployeeImportDto {
+  fileName: string
+  rows: EmployeeImportRow[]
+  acceptedKeys: string[]
+}
+
+export interface EmployeeImport {
+  id: string
+  fileName: string
+  totalRows: number
+  createdCount: number
+  updatedCount: number
+  archivedCount: number
+  offboardingCount: number
+  rejectedCount: number
+  errorCount: number
+  createdAt: string
+  createdBy: Pick<User, 'id' | 'email' | 'role'> | null
+  // Detail only
+  report?: {
+    applied: EmployeeImportEntry[]
+    rejected: EmployeeImportEntry[]
+    errors: EmployeeImportRowError[]
+  }
+}
+
+// Directory sync types (LDAP / Active Directory)
+export type DirectorySyncField = 'firstName' | 'lastName' | 'email' | 'dept' | 'company' | 'manager' | 'disabled'
+
+export interface DirectorySyncResult {
+  entries: number
+  created: number
+  updated: number
+  disabled: number
+  unchanged: number
+  archived?: number // Archived in the app but active in the directory: left untouched (missing in older runs)
+  skipped: number
+  errorCount: number
+  // First 50 errors: directory entry (dn) or employee (email)
+  errors: Array<{ dn?: string; email?: string; error: string }>
+}
+
+export interface DirectorySyncRun {
+  startedAt: string
+  finishedAt: string
+  durationMs: number
+  status: 'SUCCESS' | 'FAILED'
+  trigger: 'schedule' | 'manual'
+  result: DirectorySyncResult | null
+  error: string | null
+  instance: string
+}
+
+export interface DirectorySyncStatus {
+  configured: boolean
+  url: string | null
+  bindDn: string | null
+  baseDn: string | null
+  filter: string
+  startTls: boolean
+  attributes: Record<DirectorySyncField, string | null>
+  job: {
+    schedule: string
+    nextRunAt: string | null
+    running: boolean
+    history: DirectorySyncRun[]
+  }
+}
+
+// Loan kit types
+export interface LoanKitItem {
+  id: string
+  kitId: string
+  assetModelId: string | null
+  stockItemId: string | null
+  quantity: number
+  assetModel?: AssetModel | null
+  stockItem?: StockItem | null
+}
+
+export interface LoanKit {
+  id: string
+  name: string
+  description: string | null
+  createdAt: string
+  updatedAt: string
+  items: LoanKitItem[]
+}
+
+export interface LoanKitItemDto {
+  assetModelId?: string
+  stockItemId?: string
+  quantity: number
+}
+
+export interface CreateLoanKitDto {
+  name: string
+  description?: string | null
+  items: LoanKitItemDto[]
+}
+
+export type UpdateLoanKitDto = Partial<CreateLoanKitDto>
+
+export interface LoanKitMissingItem {
+  kitItemId: string
+  label: string
+  requested: number
+  added: number
+}
+
+export interface AddLoanKitResult {
+  loan: Loan
+  missing: LoanKitMissingItem[]
+}
+
+// Reservation types
+export interface Reservation {
+  id: string
+  employeeId: string
+  assetItemId: string | null
+  stockItemId: string | null
+  quantity: number
+  startDate: string
+  endDate: string
+  status: ReservationStatus
+  notes: string | null
+  loanId: string | null
+  createdById: string
+  createdAt: string
+  updatedAt: string
+  employee?: Employee
+  assetItem?: AssetItem
+  stockItem?: StockItem
+}
+
+export interface CreateReservationDto {
+  employeeId: string
+  assetItemId?: string
+  stockItemId?: string
+  quantity?: number
+  startDate: string
+  endDate: string
+  notes?: string
+}
+
+export interface UpdateReservationDto {
+  quantity?: number
+  startDate?: string
+  endDate?: string
+  notes?: string | null
+}
+
+export interface ReservationFilters {
+  status?: ReservationStatus
+  employeeId?: string
+  assetItemId?: string
+  stockItemId?: string
+  from?: string
+  to?: string
+}
+
+// Repair ticket types (amounts in cents)
+export interface RepairTicket {
+  id: string
+  assetItemId: string
+  status: RepairTicketStatus
+  fault: string
+  vendor: string | null
+  rmaNumber: string | null
+  quoteCents: number | null
+  expectedReturnAt: string | null
+  finalCostCents: number | null
+  outcome: RepairOutcome | null
+  closingNote: string | null
+  openedAt: string
+  closedAt: string | null
+  createdById: string
+  closedById: string | null
+  createdAt: string
+  updatedAt: string
+  assetItem?: AssetItem
+  createdBy?: Pick<User, 'id' | 'email' | 'role'>
+  closedBy?: Pick<User, 'id' | 'email' | 'role'> | null
+}
+
+export interface CreateRepairTicketDto {
+  assetItemId: string
+  fault: string
+  vendor?: string
+  rmaNumber?: string
+  quoteCents?: number
+  expectedReturnAt?: string
+}
+
+export interface UpdateRepairTicketDto {
+  status?: Exclude<RepairTicketStatus, 'CLOSED'>
+  fault?: string
+  vendor?: string | null
+  rmaNumber?: string | null
+  quoteCents?: number | null
+  expectedReturnAt?: string | null
+}
+
+export interface CloseRepairTicketDto {
+  outcome: RepairOutcome
+  finalCostCents?: number
+  closingNote?: string
+}
+
+export interface RepairTicketFilters {
+  status?: RepairTicketStatus
+  open?: boolean
+  assetItemId?: string
+  search?: string
+}
+
+// Inventory campaign (stocktake) types
+export interface InventoryCampaign {
+  id: string
+  name: string
+  status: InventoryCampaignStatus
+  equipmentType: string | null // AssetModel.type
+  location: string | null
+  notes: string | null
+  openedAt: string
+  closedAt: string | null
+  createdAt: string
+  updatedAt: string
+  createdBy?: Pick<User, 'id' | 'email' | 'role'>
+  closedBy?: Pick<User, 'id' | 'email' | 'role'> | null
+  _count?: {
+    assetChecks: number
+    stockCounts: number
+  }
+}
+
+export interface CreateInventoryCampaignDto {
+  name: string
+  equipmentType?: string
+  location?: string
+  notes?: string
+}
+
+export interface InventoryCampaignFilters {
+  status?: InventoryCampaignStatus
+}
+
+export interface InventoryAssetEntry {
+  assetItemId: string
+  assetTag: string | null
+  serial: string | null
+  status: AssetStatus
+  location: string | null
+  type: string | null
+  brand: string | null
+  modelName: string | null
+  checkedAt: string | null
+}
+
+export interface InventoryStockEntry {
+  stockItemId: string
+  location: string | null
+  type: string | null
+  brand: string | null
+  modelName: string | null
+}
+
+// Shelf quantities: expected = quantity - loaned when counted
+export interface InventoryStockCountEntry extends InventoryStockEntry {
+  countId: string
+  expectedQuantity: number
+  countedQuantity: number
+  variance: number
+  countedAt: string
+  correctionAppliedAt: string | null
+}
+
+export interface InventoryUncountedStockEntry extends InventoryStockEntry {
+  quantity: number
+  loaned: number
+  expectedQuantity: number
+}
+
+/**
+ * Reconciliation report, live while the campaign is open, frozen at closing
+ */
+export interface InventoryReport {
+  generatedAt: string
+  summary: {
+    expected: number
+    found: number
+    missing: number
+    unexpected: number
+    stockCounted: number
+    stockVariances: number
+    uncountedStock: number
+  }
+  found: InventoryAssetEntry[]
+  missing: Array<InventoryAssetEntry & { flaggedAt: string | null }>
+  // Checked but not expected: out of scope, or loaned / in repair / retired
+  unexpected: Array<InventoryAssetEntry & { inScope: boolean }>
+  stockCounts: InventoryStockCountEntry[]
+  uncountedStock: InventoryUncountedStockEntry[]
+}
+
+export interface InventoryAssetCheck {
+  id: string
+  campaignId: string
+  assetItemId: string
+  checkedById: string
+  checkedAt: string
+  assetItem: Pick<AssetItem, 'id' | 'assetTag' | 'serial' | 'status' | 'location' | 'missingSince'> & {
+    assetModel: Pick<AssetModel, 'type' | 'brand' | 'modelName'>
+  }
+  alreadyChecked: boolean
+  expected: boolean
+}
+
+export interface CheckInventoryAssetDto {
+  assetItemId?: string
+  code?: string
+}
+
+export interface StockCorrectionsResult {
+  applied: Array<{ stockItemId: string; variance: number }>
+  failed: Array<{ stockItemId: string; variance: number; message: string }>
+}
+
+// Purchase order types, amounts in cents
+export interface PurchaseOrderLine {
+  id: string
+  purchaseOrderId: string
+  assetModelId: string
+  quantity: number
+  unitPriceCents: number
+  receivedQuantity: number
+  totalCents: number
+  isConsumable: boolean // Received as a quantity (stock) instead of serial numbers
+  assetModel: Pick<AssetModel, 'id' | 'type' | 'brand' | 'modelName'>
+  assetItems?: Array<Pick<AssetItem, 'id' | 'assetTag' | 'serial' | 'status'>>
+}
+
+export interface PurchaseOrder {
+  id: string
+  reference: string // BC-<year>-<number>
+  supplierId: string
+  status: PurchaseOrderStatus
+  notes: string | null
+  orderedAt: string | null
+  receivedAt: string | null
+  createdAt: string
+  updatedAt: string
+  totalCents: number
+  supplier: Pick<Supplier, 'id' | 'name'> & Partial<Pick<Supplier, 'contactName' | 'email' | 'phone'>>
+  createdBy?: Pick<User, 'id' | 'email' | 'role'>
+  lines: PurchaseOrderLine[]
+}
+
+export interface PurchaseOrderLineDto {
+  assetModelId: string
+  quantity: number
+  unitPriceCents: number
+}
+
+export interface CreatePurchaseOrderDto {
+  supplierId: string
+  notes?: string | null
+  lines: PurchaseOrderLineDto[]
+}
+
+export type UpdatePurchaseOrderDto = Partial<CreatePurchaseOrderDto>
+
+export interface PurchaseOrderFilters {
+  status?: PurchaseOrderStatus
+  supplierId?: string
+}
+
+// Serialized lines are received by serial number, consumable lines by quantity
+export interface ReceptionLineDto {
+  lineId: string
+  serials?: string[]
+  quantity?: number
+}
+
+export interface ReceivePurchaseOrderDto {
+  invoiceNumber?: string | null
+  receivedAt?: string
+  location?: string | null
+  lines: ReceptionLineDto[]
+}
+
+export interface PurchaseOrderReceptionResult {
+  order: PurchaseOrder
+  assetItems: AssetItem[]
+  stockItems: Array<{ stockItemId: string; quantity: number }>
+}
+
+// Notification types
+export interface NotificationSettings {
+  loanOpened: boolean
+  lineAdded: boolean
+  loanClosed: boolean
+  overdueReminder: boolean
+  longLoanReminder: boolean
+}
+
+export type UpdateNotificationSettingsDto = Partial<NotificationSettings>
+
+export interface NotificationLog {
+  id: string
+  event: NotificationEvent
+  recipient: string
+  subject: string
+  status: NotificationStatus
+  error: string | null
+  transport: string
+  loanId: string | null
+  createdAt: string
+  loan?: {
+    id: string
+    employee: Pick<Employee, 'id' | 'firstName' | 'lastName'>
+  } | null
+}
+
+export interface NotificationLogFilters {
+  status?: NotificationStatus
+  event?: NotificationEvent
+  loanId?: string
+  recipient?: string
+}
+
+export interface OverdueRemindersResult {
+  loans: number
+  sent: number
+  failed: number
 }
 
 // Authentication types
@@ -242,6 +1013,7 @@ export interface DashboardStats {
   totalEmployees: number
   totalAssets: number
   activeLoans: number
+  overdueLoans: number
   loanedAssets: number
   outOfServiceAssets: number
 }
@@ -252,6 +1024,7 @@ export interface LowStockAlertItem {
   assetModelId: string
   assetModel?: AssetModel
   availableQuantity: number // For StockItem: quantity - loaned, For AssetItem: count of EN_STOCK items
+  minQuantity: number // For StockItem: its own minimum, For AssetItem: LOW_STOCK_THRESHOLD
   itemType: 'stock' | 'asset' // Distinguish between StockItem and grouped AssetItem
 }
 
@@ -261,3 +1034,28 @@ export interface EquipmentByType {
   count: number
   percentage: number
 }
+
+// Fleet valuation (book value after straight-line depreciation), amounts in cents
+export interface ValuationTotals {
+  itemCount: number
+  purchaseValueCents: number
+  currentValueCents: number
+}
+
+export interface ValuationByType extends ValuationTotals {
+  type: string
+  depreciationYears: number | null
+}
+
+export interface ValuationByDepartment extends ValuationTotals {
+  departmentId: string | null // null: items not loaned to an employee of a department
+  department: string | null
+  company: string | null
+}
+
+export interface FleetValuation {
+  valuedAt: string
+  totals: ValuationTotals
+  byType: ValuationByType[]
+  byDepartment: ValuationByDepartment[]
+}
@@ -19,7 +19,7 @@ export const QUERY_STALE_TIME = 30 * 1000
 export const MAX_SIGNATURE_SIZE = 5 * 1024 * 1024 // 5MB
 export const ALLOWED_SIGNATURE_TYPES = ['image/png', 'image/jpeg', 'image/jpg']
 
-// Low stock threshold
+// Low stock threshold of asset models (EN_STOCK items); stock items use their own minQuantity
 export const LOW_STOCK_THRESHOLD = 2
 
 // Navigation links
@@ -36,6 +36,12 @@ export const NAVIGATION_ITEMS = [
     icon: 'Users',
     allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
   },
+  {
+    label: 'Départements',
+    path: '/departments',
+    icon: 'Building2',
+    allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
+  },
   {
     label: 'Modèles d\'équipement',
     path: '/assets/models',
@@ -54,18 +60,60 @@ export const NAVIGATION_ITEMS = [
     icon: 'Boxes',
     allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
   },
+  {
+    label: 'Fournisseurs',
+    path: '/suppliers',
+    icon: 'Truck',
+    allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
+  },
+  {
+    label: 'Commandes',
+    path: '/purchase-orders',
+    icon: 'ShoppingCart',
+    allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
+  },
+  {
+    label: 'Réparations',
+    path: '/repairs',
+    icon: 'Wrench',
+    allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
+  },
+  {
+    label: 'Inventaires',
+    path: '/inventory',
+    icon: 'ClipboardCheck',
+    allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
+  },
   {
     label: 'Prêts',
     path: '/loans',
     icon: 'FileText',
     allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
   },
+  {
+    label: 'Réservations',
+    path: '/reservations',
+    icon: 'CalendarClock',
+    allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
+  },
+  {
+    label: 'Kits de prêt',
+    path: '/loan-kits',
+    icon: 'PackagePlus',
+    allowedRoles: [UserRole.ADMIN],
+  },
   {
     label: 'Audit Trail',
     path: '/audit-logs',
     icon: 'History',
     allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE],
   },
+  {
+    label: 'Notifications',
+    path: '/notifications',
+    icon: 'Bell',
+    allowedRoles: [UserRole.ADMIN, UserRole.GESTIONNAIRE, UserRole.LECTURE],
+  },
   {
     label: 'Utilisateurs',
     path: '/users',
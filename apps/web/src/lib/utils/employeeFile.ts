@@ -0,0 +1,79 @@
+/**
+ * Excel row of an employee file (HR export)
+ *
+ * Matches the expected column headers. Every cell is optional here, Nom and
+ * Prénom are checked by the callers.
+ */
+export interface EmployeeFileRow {
+  /** Line in the Excel file (header is line 1) */
+  rowNumber: number
+  /** Company name (company of the department) */
+  Société?: string
+  /** Department/Agency name (matched to an existing department or created) */
+  Agence?: string
+  /** Title/Civility (Mr/Mme/Mlle, optional, not used) */
+  Civilité?: string
+  /** Last name */
+  Nom?: string
+  /** First name */
+  Prénom?: string
+  /** Professional email, when the export has it */
+  Email?: string
+}
+
+type EmployeeFileColumn = Exclude<keyof EmployeeFileRow, 'rowNumber'>
+
+// Emails typed in Excel become hyperlink cells ({ text, hyperlink })
+function cellText(value: unknown): string {
+  if (value && typeof value === 'object' && 'text' in value) {
+    return String(value.text)
+  }
+  return String(value)
+}
+
+/**
+ * Read the first worksheet of an employee Excel file
+ *
+ * The first row holds the column headers (Société | Agence | Civilité | Nom |
+ * Prénom, optionally Email). exceljs is loaded on demand.
+ *
+ * @param file - Excel file (.xlsx)
+ * @returns Rows keyed by header, with their line number
+ * @throws Error if the workbook has no worksheet
+ */
+export async function readEmployeeFile(file: File): Promise<EmployeeFileRow[]> {
+  // Dynamically import exceljs library (only loaded when needed)
+  const ExcelJS = await import('exceljs')
+
+  const buffer = await file.arrayBuffer()
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer)
+
+  // Get first worksheet
+  const worksheet = workbook.worksheets[0]
+  if (!worksheet) {
+    throw new Error('Aucune feuille trouvée dans le fichier Excel')
+  }
+
+  // Extract column headers from first row
+  const headers: string[] = []
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    headers[colNumber] = cell.value ? cellText(cell.value).trim() : ''
+  })
+
+  const rows: EmployeeFileRow[] = []
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return // Skip header row
+
+    const rowData: EmployeeFileRow = { rowNumber }
+    row.eachCell((cell, colNumber) => {
+      const header = headers[colNumber]
+      if (header && cell.value) {
+        rowData[header as EmployeeFileColumn] = cellText(cell.value)
+      }
+    })
+    rows.push(rowData)
+  })
+
+  return rows
+}
@@ -0,0 +1,64 @@
+import type {
+  EmployeeImportChange,
+  EmployeeImportEntry,
+  EmployeeImportEntryType,
+  EmployeeImportField,
+  EmployeeImportOutcome,
+  EmployeeImportRow,
+} from '@/lib/types/models.types'
+import type { EmployeeFileRow } from './employeeFile'
+import { formatDate } from './formatters'
+
+export const EmployeeImportEntryTypeLabels: Record<EmployeeImportEntryType, string> = {
+  NEW: 'Nouveaux employés',
+  CHANGED: 'Modifications',
+  MISSING: 'Absents du fichier (départs probables)',
+}
+
+export const EmployeeImportFieldLabels: Record<EmployeeImportField, string> = {
+  firstName: 'Prénom',
+  lastName: 'Nom',
+  email: 'Email',
+  dept: 'Département',
+  company: 'Société',
+  archivedAt: 'Archivé',
+}
+
+export const EmployeeImportOutcomeLabels: Record<EmployeeImportOutcome, string> = {
+  CREATED: 'Créé',
+  UPDATED: 'Mis à jour',
+  ARCHIVED: 'Archivé',
+  OFFBOARDING_STARTED: 'Départ en cours',
+}
+
+/**
+ * Convert an Excel row of the HR file into a row sent to the API
+ */
+export function toEmployeeImportRow(row: EmployeeFileRow): EmployeeImportRow {
+  return {
+    rowNumber: row.rowNumber,
+    firstName: row.Prénom ?? null,
+    lastName: row.Nom ?? null,
+    email: row.Email?.trim() || null,
+    dept: row.Agence ?? null,
+    company: row.Société ?? null,
+  }
+}
+
+/**
+ * Describe a changed field ("Département : Woippy → Metz")
+ */
+export function formatImportChange(change: EmployeeImportChange): string {
+  if (change.field === 'archivedAt') {
+    return `Réactivation (archivé le ${formatDate(change.from)})`
+  }
+  return `${EmployeeImportFieldLabels[change.field]} : ${change.from ?? '-'} → ${change.to ?? '-'}`
+}
+
+/**
+ * Keys accepted by default: new and changed employees. Leavers are
+ * archived, so they must be checked explicitly.
+ */
+export function getDefaultAcceptedKeys(entries: EmployeeImportEntry[]): string[] {
+  return entries.filter((entry) => entry.type !== 'MISSING').map((entry) => entry.key)
+}
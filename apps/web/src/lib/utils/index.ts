@@ -2,3 +2,10 @@
 export * from './cn'
 export * from './constants'
 export * from './formatters'
+export * from './loanDueDates'
+export * from './loanKits'
+export * from './money'
+export * from './scanning'
+export * from './inventory'
+export * from './stock'
+export * from './purchaseOrders'
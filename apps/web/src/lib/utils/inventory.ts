@@ -0,0 +1,18 @@
+import type { InventoryAssetEntry, InventoryCampaign, InventoryStockEntry } from '@/lib/types/models.types'
+
+/**
+ * Get the scope of a campaign ("Ordinateur portable - Siège", "Tout le parc")
+ */
+export function getCampaignScopeLabel(campaign: Pick<InventoryCampaign, 'equipmentType' | 'location'>): string {
+  const parts = [campaign.equipmentType, campaign.location].filter(Boolean)
+  return parts.length > 0 ? parts.join(' - ') : 'Tout le parc'
+}
+
+/**
+ * Get the display label of a report entry ("LAP-001 - Dell Latitude 5440")
+ */
+export function getInventoryEntryLabel(entry: InventoryAssetEntry | InventoryStockEntry): string {
+  const model = entry.brand ? `${entry.brand} ${entry.modelName}` : 'Modèle inconnu'
+  if (!('assetItemId' in entry)) return model
+  return `${entry.assetTag ?? entry.serial ?? 'Sans tag'} - ${model}`
+}
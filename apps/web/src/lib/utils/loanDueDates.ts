@@ -0,0 +1,57 @@
+import { format, parseISO } from 'date-fns'
+import type { Loan } from '@/lib/types/models.types'
+
+/**
+ * Get the earliest due date of a loan, considering the loan itself and its unreturned lines
+ */
+export function getEarliestDueAt(loan: Pick<Loan, 'dueAt' | 'lines'>): string | null {
+  const outstandingLines = (loan.lines ?? []).filter((line) => !line.returnedAt)
+  const candidates = [loan.dueAt, ...outstandingLines.map((line) => line.dueAt)].filter(
+    (value): value is string => Boolean(value)
+  )
+
+  if (candidates.length === 0) return null
+
+  return candidates.reduce((earliest, current) =>
+    new Date(current).getTime() < new Date(earliest).getTime() ? current : earliest
+  )
+}
+
+/**
+ * Check whether an open loan (or one of its lines) is past its due date
+ */
+export function isLoanOverdue(loan: Pick<Loan, 'status' | 'dueAt' | 'lines'>, now: Date = new Date()): boolean {
+  if (loan.status !== 'OPEN') return false
+
+  const earliest = getEarliestDueAt(loan)
+  return earliest !== null && new Date(earliest).getTime() < now.getTime()
+}
+
+/**
+ * Convert a date input value (yyyy-MM-dd) to an ISO string at the end of that local day
+ */
+export function toDueAtIso(value: string | null | undefined): string | null {
+  if (!value) return null
+  return new Date(`${value}T23:59:59`).toISOString()
+}
+
+/**
+ * Convert an ISO due date to a date input value (yyyy-MM-dd)
+ */
+export function toDateInputValue(date: string | null | undefined): string {
+  if (!date) return ''
+
+  try {
+    return format(parseISO(date), 'yyyy-MM-dd')
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Convert a date input value (yyyy-MM-dd) to an ISO string at the start of that local day
+ */
+export function toStartOfDayIso(value: string | null | undefined): string | null {
+  if (!value) return null
+  return new Date(`${value}T00:00:00`).toISOString()
+}
@@ -0,0 +1,11 @@
+import type { LoanKitItem } from '@/lib/types/models.types'
+
+/**
+ * Get the display label of a kit component ("Dell Latitude 5440 (équipement) x1")
+ */
+export function getLoanKitItemLabel(item: LoanKitItem): string {
+  const model = item.assetModel ?? item.stockItem?.assetModel
+  const name = model ? `${model.brand} ${model.modelName}` : 'Composant inconnu'
+  const kind = item.assetModelId ? 'équipement' : 'consommable'
+  return `${name} (${kind}) x${item.quantity}`
+}
@@ -0,0 +1,41 @@
+import { formatCurrency } from '@/lib/utils/formatters'
+
+/**
+ * Matches a euro amount typed in a form: "129", "129,9" or "129.90"
+ */
+const EUROS_PATTERN = /^\d+([.,]\d{1,2})?$/
+
+/**
+ * Check that a form input is an empty string or a valid euro amount
+ */
+export function isValidEuroInput(value: string | undefined): boolean {
+  const trimmed = (value ?? '').trim()
+  return trimmed === '' || EUROS_PATTERN.test(trimmed)
+}
+
+/**
+ * Convert a euro amount typed in a form to cents (the API unit)
+ *
+ * Returns undefined for an empty input.
+ */
+export function eurosToCents(value: string | undefined): number | undefined {
+  const trimmed = (value ?? '').trim()
+  if (trimmed === '') return undefined
+  return Math.round(Number(trimmed.replace(',', '.')) * 100)
+}
+
+/**
+ * Convert cents to a euro amount for a form input ("129,90")
+ */
+export function centsToEuroInput(cents: number | null | undefined): string {
+  if (cents === null || cents === undefined) return ''
+  return (cents / 100).toFixed(2).replace('.', ',')
+}
+
+/**
+ * Format an amount in cents in EUR
+ */
+export function formatCents(cents: number | null | undefined): string {
+  if (cents === null || cents === undefined) return '-'
+  return formatCurrency(cents / 100)
+}
@@ -0,0 +1,71 @@
+import { PurchaseOrderStatus } from '@/lib/types/enums'
+import type { PurchaseOrder, PurchaseOrderLine, ReceptionLineDto } from '@/lib/types/models.types'
+
+/**
+ * Get the quantity of a line still expected from the supplier
+ */
+export function getRemainingQuantity(line: Pick<PurchaseOrderLine, 'quantity' | 'receivedQuantity'>): number {
+  return Math.max(line.quantity - line.receivedQuantity, 0)
+}
+
+/**
+ * Check whether deliveries can still be received on an order
+ */
+export function canReceivePurchaseOrder(order: Pick<PurchaseOrder, 'status'>): boolean {
+  return order.status === PurchaseOrderStatus.ORDERED || order.status === PurchaseOrderStatus.PARTIALLY_RECEIVED
+}
+
+/**
+ * Get the received and ordered unit totals of an order ("12 / 30 reçus")
+ */
+export function getReceptionProgress(order: Pick<PurchaseOrder, 'lines'>): { received: number; ordered: number } {
+  return order.lines.reduce(
+    (progress, line) => ({
+      received: progress.received + line.receivedQuantity,
+      ordered: progress.ordered + line.quantity,
+    }),
+    { received: 0, ordered: 0 }
+  )
+}
+
+/**
+ * Find which line of the reception already holds a serial number
+ * (serials are unique across the fleet, so across the lines too)
+ *
+ * @returns ID of the line holding the serial, or null
+ */
+export function findCapturedSerial(serialsByLine: Record<string, string[]>, serial: string): string | null {
+  const wanted = serial.trim().toLowerCase()
+  const entry = Object.entries(serialsByLine).find(([, serials]) =>
+    serials.some((captured) => captured.toLowerCase() === wanted)
+  )
+  return entry ? entry[0] : null
+}
+
+/**
+ * Build the reception lines sent to the API: serial numbers for serialized
+ * lines, quantity for consumables; lines with nothing received are left out
+ */
+export function buildReceptionLines(
+  lines: PurchaseOrderLine[],
+  serialsByLine: Record<string, string[]>,
+  quantitiesByLine: Record<string, number>
+): ReceptionLineDto[] {
+  return lines.flatMap((line): ReceptionLineDto[] => {
+    if (line.isConsumable) {
+      const quantity = quantitiesByLine[line.id] ?? 0
+      return quantity > 0 ? [{ lineId: line.id, quantity }] : []
+    }
+    const serials = serialsByLine[line.id] ?? []
+    return serials.length > 0 ? [{ lineId: line.id, serials }] : []
+  })
+}
+
+/**
+ * Badge variant of an order status: drafts stand out from orders awaiting delivery
+ */
+export function getPurchaseOrderStatusVariant(status: PurchaseOrderStatus): 'default' | 'secondary' | 'outline' {
+  if (status === PurchaseOrderStatus.DRAFT) return 'outline'
+  if (status === PurchaseOrderStatus.RECEIVED) return 'secondary'
+  return 'default'
+}
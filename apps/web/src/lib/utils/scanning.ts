@@ -0,0 +1,95 @@
+import type { ScannedAssetItem } from '@/lib/api/search.api'
+import { AssetStatusLabels } from '@/lib/types/enums'
+
+/**
+ * Minimal typing of the Barcode Detection API (Chromium, Android, Safari 17+),
+ * not part of the TypeScript DOM library yet
+ */
+export interface DetectedBarcode {
+  rawValue: string
+  format: string
+}
+
+export interface BarcodeDetectorInstance {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance
+
+/** Formats printed on the asset labels */
+export const SCANNED_BARCODE_FORMATS = ['qr_code', 'code_128']
+
+/**
+ * Create a native barcode detector, or null when the browser has none
+ * (camera scanning is then unavailable, USB scanners still work)
+ */
+export function createBarcodeDetector(): BarcodeDetectorInstance | null {
+  const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+  if (!Detector || !navigator.mediaDevices?.getUserMedia) return null
+  return new Detector({ formats: SCANNED_BARCODE_FORMATS })
+}
+
+/**
+ * Extract the asset code from a scan
+ *
+ * QR codes of the labels hold a deep link (".../assets/items?search=LAP-001"),
+ * barcodes and USB scanners give the tag or serial directly.
+ */
+export function parseScannedCode(raw: string): string {
+  const value = raw.trim()
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      const search = new URL(value).searchParams.get('search')
+      if (search) return search.trim()
+    } catch {
+      // Not a valid URL: use the raw value
+    }
+  }
+  return value
+}
+
+let audioContext: AudioContext | null = null
+
+/**
+ * Beep (and vibrate on mobile) after a scan: one high beep on success,
+ * two low beeps when the item cannot be used
+ */
+export function playScanFeedback(success: boolean): void {
+  navigator.vibrate?.(success ? 80 : [120, 80, 120])
+
+  const AudioContextClass = globalThis.AudioContext
+  if (!AudioContextClass) return
+  audioContext ??= new AudioContextClass()
+
+  const beeps = success ? [0] : [0, 0.18]
+  beeps.forEach((delay) => {
+    const oscillator = audioContext!.createOscillator()
+    const gain = audioContext!.createGain()
+    const start = audioContext!.currentTime + delay
+    oscillator.type = 'square'
+    oscillator.frequency.value = success ? 1320 : 330
+    gain.gain.value = 0.08
+    oscillator.connect(gain)
+    gain.connect(audioContext!.destination)
+    oscillator.start(start)
+    oscillator.stop(start + (success ? 0.09 : 0.14))
+  })
+}
+
+/**
+ * Get the display label of a scanned item ("LAP-001 - Dell Latitude 5440")
+ */
+export function getScannedItemLabel(item: ScannedAssetItem): string {
+  const code = item.assetTag ?? item.serial ?? 'Sans tag'
+  return item.assetModel ? `${code} - ${item.assetModel.brand} ${item.assetModel.modelName}` : code
+}
+
+/**
+ * Describe the status of a scanned item, naming the borrower when loaned
+ * ("Prêté à Jean Dupont", "En réparation")
+ */
+export function getScannedItemStatus(item: ScannedAssetItem): string {
+  const borrower = item.loanLines[0]?.loan.employee
+  if (borrower) return `${AssetStatusLabels[item.status]} à ${borrower.firstName} ${borrower.lastName}`
+  return AssetStatusLabels[item.status]
+}
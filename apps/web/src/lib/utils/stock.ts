@@ -0,0 +1,36 @@
+import { StockMovementType } from '@/lib/types/enums'
+import type { ManualStockMovementType } from '@/lib/types/enums'
+import type { StockItem, StockMovement } from '@/lib/types/models.types'
+
+/**
+ * Check whether a stock item is below its minimum level (0 = no alert)
+ */
+export function isBelowMinimum(item: Pick<StockItem, 'quantity' | 'loaned' | 'minQuantity'>): boolean {
+  return item.quantity - item.loaned < item.minQuantity
+}
+
+/**
+ * Get the signed change of a manual movement: a write-off removes the units
+ * entered, a reception adds them, an adjustment is already signed
+ */
+export function getSignedStockAdjustment(type: ManualStockMovementType, quantity: number): number {
+  return type === StockMovementType.WRITE_OFF ? -Math.abs(quantity) : quantity
+}
+
+/**
+ * Format a ledger delta with its sign ("+5", "-2", "0")
+ */
+export function formatStockDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : `${delta}`
+}
+
+/**
+ * Get the page of the record behind a movement, if it has one
+ */
+export function getStockMovementReferencePath(movement: Pick<StockMovement, 'referenceType' | 'referenceId'>): string | null {
+  if (!movement.referenceId) return null
+  if (movement.referenceType === 'Loan') return `/loans/${movement.referenceId}`
+  if (movement.referenceType === 'InventoryCampaign') return `/inventory/${movement.referenceId}`
+  if (movement.referenceType === 'PurchaseOrder') return `/purchase-orders/${movement.referenceId}`
+  return null
+}
@@ -1,11 +1,13 @@
 /** @fileoverview Page de gestion des biens individuels avec filtres, recherche et actions CRUD */
 import { useState, useEffect, useDeferredValue, useMemo, lazy, Suspense } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { useAssetItems, useDeleteAssetItem } from '@/lib/hooks/useAssetItems'
 import { useAssetModels } from '@/lib/hooks/useAssetModels'
 import { AssetItemsTable } from '@/components/assets/AssetItemsTable'
 
-// Lazy load dialog
+// Lazy load dialogs
 const AssetItemFormDialog = lazy(() => import('@/components/assets/AssetItemFormDialog').then(m => ({ default: m.AssetItemFormDialog })))
+const PrintLabelsDialog = lazy(() => import('@/components/assets/PrintLabelsDialog').then(m => ({ default: m.PrintLabelsDialog })))
 import { Pagination } from '@/components/common/Pagination'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -17,22 +19,35 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Search, Trash2 } from 'lucide-react'
+import { Download, Printer, Search, Trash2 } from 'lucide-react'
 import { AssetStatus, AssetStatusLabels } from '@/lib/types/enums'
 import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
 import { useToast } from '@/lib/hooks/use-toast'
 import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+import { exportDisposalRegister } from '@/lib/api/export.api'
 import { ConfirmDialog } from '@/components/common/ConfirmDialog'
 import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
 
+const isAssetStatus = (value: string | null): value is AssetStatus =>
+  Object.values(AssetStatus).includes(value as AssetStatus)
+
 export function AssetItemsListPage() {
-  const { data: items, isLoading, error } = useAssetItems()
+  // ?search= et ?status= sont utilisés par les étiquettes et le mode scan
+  const [searchParams] = useSearchParams()
+  const urlSearch = searchParams.get('search')
+  const urlStatus = searchParams.get('status')
+  const [statusFilter, setStatusFilter] = useState<string>(() => isAssetStatus(urlStatus) ? urlStatus : 'all')
+  // Les équipements réformés ne sont renvoyés par le serveur que sur demande
+  const { data: items, isLoading, error } = useAssetItems(
+    statusFilter === AssetStatus.REFORME ? AssetStatus.REFORME : undefined
+  )
   const { data: models } = useAssetModels()
   const deleteItem = useDeleteAssetItem()
   const { toast } = useToast()
   const [isCreating, setIsCreating] = useState(false)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [statusFilter, setStatusFilter] = useState<string>('all')
+  const [isExporting, setIsExporting] = useState(false)
+  const [isPrintingLabels, setIsPrintingLabels] = useState(false)
+  const [searchTerm, setSearchTerm] = useState(urlSearch ?? '')
   const [modelFilter, setModelFilter] = useState<string>('all')
   const [currentPage, setCurrentPage] = useState(1)
   const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
@@ -41,6 +56,7 @@ export function AssetItemsListPage() {
 
   const itemsList = Array.isArray(items) ? items : []
   const modelsList = Array.isArray(models) ? models : []
+  const selectedItemsList = itemsList.filter((item) => selectedItems.includes(item.id))
 
   // Defer search term to avoid blocking UI during typing
   const deferredSearchTerm = useDeferredValue(searchTerm)
@@ -63,6 +79,12 @@ export function AssetItemsListPage() {
     [itemsList, deferredSearchTerm, statusFilter, modelFilter]
   )
 
+  // Scans performed while already on this page only change the URL
+  useEffect(() => {
+    if (urlSearch !== null) setSearchTerm(urlSearch)
+    setStatusFilter(isAssetStatus(urlStatus) ? urlStatus : 'all')
+  }, [urlSearch, urlStatus])
+
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1)
@@ -132,6 +154,25 @@ export function AssetItemsListPage() {
     setSelectedItems([])
   }
 
+  const handleExportDisposals = async () => {
+    try {
+      setIsExporting(true)
+      await exportDisposalRegister()
+      toast({
+        title: 'Export réussi',
+        description: 'Registre des sorties exporté vers Excel',
+      })
+    } catch (error: unknown) {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur d\'export',
+        description: getErrorMessage(error, 'Impossible d\'exporter le registre des sorties'),
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -155,11 +196,17 @@ export function AssetItemsListPage() {
 
   return (
     <div className="space-y-4 md:space-y-6">
-      <div>
-        <h1 className="text-2xl md:text-3xl font-bold">Équipements</h1>
-        <p className="text-muted-foreground mt-2">
-          Gestion du parc informatique et des équipements individuels
-        </p>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Équipements</h1>
+          <p className="text-muted-foreground mt-2">
+            Gestion du parc informatique et des équipements individuels
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleExportDisposals} disabled={isExporting} className="w-full sm:w-auto">
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? 'Export...' : 'Registre des sorties'}
+        </Button>
       </div>
 
       <div className="flex flex-col gap-4">
@@ -173,6 +220,12 @@ export function AssetItemsListPage() {
               className="pl-10"
             />
           </div>
+          {selectedItems.length > 0 && (
+            <Button variant="outline" onClick={() => setIsPrintingLabels(true)} className="w-full sm:w-auto">
+              <Printer className="h-4 w-4 mr-2" />
+              Étiquettes ({selectedItems.length})
+            </Button>
+          )}
           {selectedItems.length > 0 && (
             <Button variant="destructive" onClick={handleBulkDelete} className="w-full sm:w-auto">
               <Trash2 className="h-4 w-4 mr-2" />
@@ -251,6 +304,14 @@ export function AssetItemsListPage() {
         />
       </Suspense>
 
+      <Suspense fallback={null}>
+        <PrintLabelsDialog
+          items={selectedItemsList}
+          open={isPrintingLabels}
+          onClose={() => setIsPrintingLabels(false)}
+        />
+      </Suspense>
+
       <ConfirmDialog {...dialogProps} />
     </div>
   )
@@ -5,10 +5,13 @@ import { StatsCard } from '@/components/dashboard/StatsCard'
 import { RecentLoans } from '@/components/dashboard/RecentLoans'
 import { LowStockAlert } from '@/components/dashboard/LowStockAlert'
 import { OutOfServiceList } from '@/components/dashboard/OutOfServiceList'
+import { OpenRepairsList } from '@/components/dashboard/OpenRepairsList'
+import { ExpiringWarrantiesList } from '@/components/dashboard/ExpiringWarrantiesList'
+import { FleetValuationCard } from '@/components/dashboard/FleetValuationCard'
 
 // Lazy load chart component (heavy dependency on recharts)
 const EquipmentByTypeChart = lazy(() => import('@/components/dashboard/EquipmentByTypeChart').then(m => ({ default: m.EquipmentByTypeChart })))
-import { Users, Laptop, FileText, TrendingUp, AlertTriangle, Download } from 'lucide-react'
+import { Users, Laptop, FileText, TrendingUp, AlertTriangle, Download, Clock } from 'lucide-react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AlertCircle } from 'lucide-react'
 import { Button } from '@/components/ui/button'
@@ -71,13 +74,13 @@ export function DashboardPage() {
 
       {/* Statistics Cards */}
       {isLoading ? (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 md:gap-6">
-          {[1, 2, 3, 4, 5].map((i) => (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4 md:gap-6">
+          {[1, 2, 3, 4, 5, 6].map((i) => (
             <div key={i} className="h-32 bg-muted/50 animate-pulse rounded-lg" />
           ))}
         </div>
       ) : stats ? (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 md:gap-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4 md:gap-6">
           <div className="animate-slideIn" style={{ animationDelay: '100ms' }}>
             <StatsCard
               title="Employés"
@@ -105,6 +108,15 @@ export function DashboardPage() {
               description="Prêts en cours"
             />
           </div>
+          <div className="animate-slideIn" style={{ animationDelay: '350ms' }}>
+            <StatsCard
+              title="En retard"
+              value={stats.overdueLoans}
+              icon={Clock}
+              color="danger"
+              description="Prêts dépassant la date de retour"
+            />
+          </div>
           <div className="animate-slideIn" style={{ animationDelay: '400ms' }}>
             <StatsCard
               title="Articles prêtés"
@@ -132,9 +144,15 @@ export function DashboardPage() {
         <LowStockAlert />
       </div>
 
-      {/* Additional Widgets - Hors Service & Equipment Chart */}
+      {/* Equipment needing attention - Open repairs & Hors Service */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
+        <OpenRepairsList />
         <OutOfServiceList />
+      </div>
+
+      {/* Expiring warranties & Equipment Chart */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
+        <ExpiringWarrantiesList />
         <Suspense fallback={
           <div className="border rounded-lg p-6 bg-card">
             <h3 className="font-semibold mb-4">Répartition par type</h3>
@@ -146,6 +164,9 @@ export function DashboardPage() {
           <EquipmentByTypeChart />
         </Suspense>
       </div>
+
+      {/* Fleet valuation (managers only) */}
+      <FleetValuationCard />
     </div>
   )
 }
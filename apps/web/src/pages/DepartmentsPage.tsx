@@ -0,0 +1,224 @@
+/** @fileoverview Page de gestion des departements, des societes et de la fusion des doublons */
+import { useState, lazy, Suspense } from 'react'
+import { useDepartments, useDepartmentDuplicates, useDeleteDepartment } from '@/lib/hooks/useDepartments'
+import { useCompanies, useDeleteCompany } from '@/lib/hooks/useCompanies'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { useAuth } from '@/lib/hooks/useAuth'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { DepartmentDuplicatesPanel } from '@/components/departments/DepartmentDuplicatesPanel'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Plus, Pencil, Trash2 } from 'lucide-react'
+import { UserRole } from '@/lib/types/enums'
+import type { Company, Department } from '@/lib/types/models.types'
+
+const DepartmentFormDialog = lazy(() => import('@/components/departments/DepartmentFormDialog').then(m => ({ default: m.DepartmentFormDialog })))
+const CompanyFormDialog = lazy(() => import('@/components/departments/CompanyFormDialog').then(m => ({ default: m.CompanyFormDialog })))
+
+export function DepartmentsPage() {
+  // undefined: closed, null: creating, entity: editing
+  const [editedDepartment, setEditedDepartment] = useState<Department | null | undefined>(undefined)
+  const [editedCompany, setEditedCompany] = useState<Company | null | undefined>(undefined)
+  const { user } = useAuth()
+  const { data: departments = [], isLoading, error } = useDepartments()
+  const { data: companies = [] } = useCompanies()
+  const { data: duplicates = [] } = useDepartmentDuplicates()
+  const deleteDepartment = useDeleteDepartment()
+  const deleteCompany = useDeleteCompany()
+  const { confirm, dialogProps } = useConfirmDialog()
+  const isAdmin = user?.role === UserRole.ADMIN
+
+  const handleDeleteDepartment = async (department: Department) => {
+    if (!await confirm({ title: 'Supprimer le département', description: `Voulez-vous vraiment supprimer le département « ${department.name} » ?` })) return
+    await deleteDepartment.mutateAsync(department.id)
+  }
+
+  const handleDeleteCompany = async (company: Company) => {
+    if (!await confirm({ title: 'Supprimer la société', description: `Voulez-vous vraiment supprimer la société « ${company.name} » ?` })) return
+    await deleteCompany.mutateAsync(company.id)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Chargement...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <p className="text-destructive">Erreur lors du chargement des départements</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Départements</h1>
+        <p className="text-muted-foreground mt-2">
+          Départements et sociétés de rattachement des employés
+        </p>
+      </div>
+
+      <Tabs defaultValue="departments">
+        <TabsList>
+          <TabsTrigger value="departments">Départements ({departments.length})</TabsTrigger>
+          <TabsTrigger value="companies">Sociétés ({companies.length})</TabsTrigger>
+          <TabsTrigger value="duplicates">Doublons ({duplicates.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="departments" className="space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={() => setEditedDepartment(null)} className="w-full sm:w-auto">
+              <Plus className="h-4 w-4 mr-2" />
+              Nouveau département
+            </Button>
+          </div>
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nom</TableHead>
+                  <TableHead>Société</TableHead>
+                  <TableHead>Employés</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {departments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                      Aucun département
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  departments.map((department) => {
+                    const employeeCount = department._count?.employees ?? 0
+                    return (
+                      <TableRow key={department.id}>
+                        <TableCell className="font-medium">{department.name}</TableCell>
+                        <TableCell className="text-sm">{department.company?.name ?? '-'}</TableCell>
+                        <TableCell className="text-sm">{employeeCount}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex gap-1 justify-end">
+                            <Button variant="ghost" size="sm" onClick={() => setEditedDepartment(department)} title="Modifier le département">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {isAdmin && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDeleteDepartment(department)}
+                                disabled={deleteDepartment.isPending || employeeCount > 0}
+                                title={employeeCount > 0 ? 'Des employés sont rattachés à ce département' : 'Supprimer le département'}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="companies" className="space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={() => setEditedCompany(null)} className="w-full sm:w-auto">
+              <Plus className="h-4 w-4 mr-2" />
+              Nouvelle société
+            </Button>
+          </div>
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nom</TableHead>
+                  <TableHead>Départements</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {companies.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+                      Aucune société
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  companies.map((company) => {
+                    const departmentCount = company._count?.departments ?? 0
+                    return (
+                      <TableRow key={company.id}>
+                        <TableCell className="font-medium">{company.name}</TableCell>
+                        <TableCell className="text-sm">{departmentCount}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex gap-1 justify-end">
+                            <Button variant="ghost" size="sm" onClick={() => setEditedCompany(company)} title="Renommer la société">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {isAdmin && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDeleteCompany(company)}
+                                disabled={deleteCompany.isPending || departmentCount > 0}
+                                title={departmentCount > 0 ? 'La société contient des départements' : 'Supprimer la société'}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="duplicates">
+          <DepartmentDuplicatesPanel canMerge={isAdmin} />
+        </TabsContent>
+      </Tabs>
+
+      {editedDepartment !== undefined && (
+        <Suspense fallback={null}>
+          <DepartmentFormDialog department={editedDepartment} open={true} onClose={() => setEditedDepartment(undefined)} />
+        </Suspense>
+      )}
+
+      {editedCompany !== undefined && (
+        <Suspense fallback={null}>
+          <CompanyFormDialog company={editedCompany} open={true} onClose={() => setEditedCompany(undefined)} />
+        </Suspense>
+      )}
+
+      <ConfirmDialog {...dialogProps} />
+    </div>
+  )
+}
+
+export default DepartmentsPage
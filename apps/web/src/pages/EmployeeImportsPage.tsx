@@ -0,0 +1,264 @@
+/** @fileoverview Page de synchronisation des employés avec le fichier RH (aperçu, revue ligne à ligne, rapports) et l'annuaire d'entreprise */
+import { useState, lazy, Suspense } from 'react'
+import { Link } from 'react-router-dom'
+import { ArrowLeft, Eye, FileSpreadsheet, Loader2, RefreshCw } from 'lucide-react'
+import { useEmployeeImports, usePreviewEmployeeImport, useApplyEmployeeImport } from '@/lib/hooks/useEmployeeImports'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { useToast } from '@/lib/hooks/use-toast'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { Pagination } from '@/components/common/Pagination'
+import { EmployeeSyncReview } from '@/components/employees/EmployeeSyncReview'
+import { DirectorySyncCard } from '@/components/employees/DirectorySyncCard'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
+import { formatDateTime } from '@/lib/utils/formatters'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+import { readEmployeeFile } from '@/lib/utils/employeeFile'
+import { getDefaultAcceptedKeys, toEmployeeImportRow } from '@/lib/utils/employeeImports'
+import type { EmployeeImportPreview, EmployeeImportRow } from '@/lib/types/models.types'
+
+const EmployeeImportReportDialog = lazy(() => import('@/components/employees/EmployeeImportReportDialog').then(m => ({ default: m.EmployeeImportReportDialog })))
+
+export function EmployeeImportsPage() {
+  const [file, setFile] = useState<File | null>(null)
+  // Remounts the file input once an import is applied
+  const [fileInputKey, setFileInputKey] = useState(0)
+  const [isReading, setIsReading] = useState(false)
+  // Rows sent again when applying: the server recomputes the diff from them
+  const [rows, setRows] = useState<EmployeeImportRow[]>([])
+  const [preview, setPreview] = useState<EmployeeImportPreview | null>(null)
+  const [acceptedKeys, setAcceptedKeys] = useState<string[]>([])
+  const [viewedImportId, setViewedImportId] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
+
+  const { data: imports, isLoading, error } = useEmployeeImports({ page, pageSize })
+  const previewImport = usePreviewEmployeeImport()
+  const applyImport = useApplyEmployeeImport()
+  const { confirm, dialogProps } = useConfirmDialog()
+  const { toast } = useToast()
+
+  const reset = () => {
+    setRows([])
+    setPreview(null)
+    setAcceptedKeys([])
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null)
+    reset()
+  }
+
+  const handleCompare = async () => {
+    if (!file) return
+
+    let fileRows: EmployeeImportRow[]
+    try {
+      setIsReading(true)
+      fileRows = (await readEmployeeFile(file)).map(toEmployeeImportRow)
+    } catch (readError: unknown) {
+      toast({
+        variant: 'destructive',
+        title: 'Erreur',
+        description: getErrorMessage(readError, 'Impossible de lire le fichier Excel'),
+      })
+      return
+    } finally {
+      setIsReading(false)
+    }
+
+    try {
+      const result = await previewImport.mutateAsync(fileRows)
+      setRows(fileRows)
+      setPreview(result)
+      setAcceptedKeys(getDefaultAcceptedKeys(result.entries))
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  const handleApply = async () => {
+    if (!file || !preview) return
+
+    const leavers = preview.entries.filter((entry) => entry.type === 'MISSING' && acceptedKeys.includes(entry.key)).length
+    if (!await confirm({
+      title: 'Appliquer la synchronisation',
+      description: `${acceptedKeys.length} différence(s) seront appliquées en une fois${leavers > 0 ? `, dont ${leavers} départ(s)` : ''}. Les différences décochées sont conservées dans le rapport comme écartées.`,
+    })) return
+
+    try {
+      const report = await applyImport.mutateAsync({ fileName: file.name, rows, acceptedKeys })
+      reset()
+      setFile(null)
+      setFileInputKey((key) => key + 1)
+      setViewedImportId(report.id)
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  const reports = imports?.data ?? []
+  const isComparing = isReading || previewImport.isPending
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+          <Link to="/employees">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Employés
+          </Link>
+        </Button>
+        <h1 className="text-2xl md:text-3xl font-bold">Synchronisation RH</h1>
+        <p className="text-muted-foreground mt-2">
+          Alignez chaque mois la base des employés sur l'export RH : nouveaux employés, changements et départs
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Fichier RH</CardTitle>
+          <CardDescription>
+            Colonnes attendues : Société | Agence | Civilité | Nom | Prénom, et Email si l'export le contient.
+            Les employés sont rapprochés par email, sinon par nom.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              key={fileInputKey}
+              type="file"
+              accept=".xlsx"
+              onChange={handleFileChange}
+              disabled={isComparing || applyImport.isPending}
+              aria-label="Fichier RH"
+            />
+            <Button onClick={handleCompare} disabled={!file || isComparing || applyImport.isPending} className="whitespace-nowrap">
+              {isComparing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+              )}
+              Comparer
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <>
+          <EmployeeSyncReview
+            preview={preview}
+            acceptedKeys={acceptedKeys}
+            onAcceptedKeysChange={setAcceptedKeys}
+            disabled={applyImport.isPending}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={reset} disabled={applyImport.isPending}>
+              Annuler
+            </Button>
+            <Button onClick={handleApply} disabled={applyImport.isPending}>
+              {applyImport.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Appliquer ({acceptedKeys.length})
+            </Button>
+          </div>
+        </>
+      )}
+
+      <DirectorySyncCard />
+
+      <div className="space-y-2">
+        <h2 className="text-lg font-semibold">Historique des imports</h2>
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Fichier</TableHead>
+                <TableHead>Par</TableHead>
+                <TableHead>Créés</TableHead>
+                <TableHead>Mis à jour</TableHead>
+                <TableHead>Départs</TableHead>
+                <TableHead>Écartés</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">Chargement...</TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-destructive py-8">Erreur lors du chargement des imports</TableCell>
+                </TableRow>
+              ) : reports.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">Aucun import</TableCell>
+                </TableRow>
+              ) : (
+                reports.map((report) => (
+                  <TableRow key={report.id}>
+                    <TableCell className="text-sm whitespace-nowrap">{formatDateTime(report.createdAt)}</TableCell>
+                    <TableCell className="font-medium">{report.fileName}</TableCell>
+                    <TableCell className="text-sm">{report.createdBy?.email ?? '-'}</TableCell>
+                    <TableCell className="text-sm">{report.createdCount}</TableCell>
+                    <TableCell className="text-sm">{report.updatedCount}</TableCell>
+                    <TableCell className="text-sm">{report.archivedCount + report.offboardingCount}</TableCell>
+                    <TableCell className="text-sm">{report.rejectedCount}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => setViewedImportId(report.id)}>
+                        <Eye className="h-4 w-4 mr-1" />
+                        Rapport
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {imports && imports.pagination.totalItems > 0 && (
+            <Pagination
+              currentPage={imports.pagination.page}
+              totalPages={imports.pagination.totalPages}
+              pageSize={imports.pagination.pageSize}
+              totalItems={imports.pagination.totalItems}
+              onPageChange={setPage}
+              onPageSizeChange={(size) => { setPageSize(size); setPage(1) }}
+              pageSizeOptions={PAGE_SIZE_OPTIONS}
+            />
+          )}
+        </div>
+      </div>
+
+      {viewedImportId && (
+        <Suspense fallback={null}>
+          <EmployeeImportReportDialog
+            importId={viewedImportId}
+            open={true}
+            onClose={() => setViewedImportId(null)}
+          />
+        </Suspense>
+      )}
+
+      <ConfirmDialog {...dialogProps} />
+    </div>
+  )
+}
+
+export default EmployeeImportsPage
@@ -1,6 +1,10 @@
-/** @fileoverview Page de gestion des employés avec import CSV, export et actions CRUD */
+/** @fileoverview Page de gestion des employés avec import CSV, export, archivage et actions CRUD */
 import { useState, useEffect, useDeferredValue, useMemo, lazy, Suspense } from 'react'
-import { useEmployees, useDeleteEmployee } from '@/lib/hooks/useEmployees'
+import { Link } from 'react-router-dom'
+import { useEmployees, useDeleteEmployee, useArchiveEmployee } from '@/lib/hooks/useEmployees'
+import { useAuth } from '@/lib/hooks/useAuth'
+import { useDepartments } from '@/lib/hooks/useDepartments'
+import { useCompanies } from '@/lib/hooks/useCompanies'
 import { EmployeesTable } from '@/components/employees/EmployeesTable'
 
 // Lazy load dialogs
@@ -9,8 +13,11 @@ const ImportEmployeesDialog = lazy(() => import('@/components/employees/ImportEm
 import { Pagination } from '@/components/common/Pagination'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Plus, Search, Upload, Trash2, Download } from 'lucide-react'
+import { Plus, Search, Upload, Trash2, Download, Archive, RefreshCw } from 'lucide-react'
 import { formatFullName } from '@/lib/utils/formatters'
 import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
 import { useToast } from '@/lib/hooks/use-toast'
@@ -20,13 +27,21 @@ import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
 import { exportEmployees } from '@/lib/api/export.api'
 
 export function EmployeesListPage() {
-  const { data: employees, isLoading, error } = useEmployees()
+  const [includeArchived, setIncludeArchived] = useState(false)
+  const { data: employees, isLoading, error } = useEmployees({ includeArchived })
   const deleteEmployee = useDeleteEmployee()
+  const archiveEmployee = useArchiveEmployee()
+  const { data: departments = [] } = useDepartments()
+  const { data: companies = [] } = useCompanies()
+  const { user } = useAuth()
+  const isAdmin = user?.role === 'ADMIN'
   const { toast } = useToast()
   const [isCreating, setIsCreating] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
+  const [departmentFilter, setDepartmentFilter] = useState<string>('all')
+  const [companyFilter, setCompanyFilter] = useState<string>('all')
   const [currentPage, setCurrentPage] = useState(1)
   const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
   const [selectedEmployees, setSelectedEmployees] = useState<string[]>([])
@@ -37,24 +52,32 @@ export function EmployeesListPage() {
   // Defer search term to avoid blocking UI during typing
   const deferredSearchTerm = useDeferredValue(searchTerm)
 
+  // Departments offered in the filter: those of the selected company only
+  const departmentOptions = companyFilter === 'all'
+    ? departments
+    : departments.filter((department) => department.companyId === companyFilter)
+
   // Use deferred search term for filtering with useMemo
   const filteredEmployees = useMemo(
     () =>
-      employeesList.filter(
-        (employee) =>
+      employeesList.filter((employee) => {
+        const matchesSearch =
           formatFullName(employee.firstName, employee.lastName)
             .toLowerCase()
             .includes(deferredSearchTerm.toLowerCase()) ||
           employee.email?.toLowerCase().includes(deferredSearchTerm.toLowerCase()) ||
           employee.dept?.toLowerCase().includes(deferredSearchTerm.toLowerCase())
-      ),
-    [employeesList, deferredSearchTerm]
+        const matchesDepartment = departmentFilter === 'all' || employee.departmentId === departmentFilter
+        const matchesCompany = companyFilter === 'all' || employee.department?.company?.id === companyFilter
+        return matchesSearch && matchesDepartment && matchesCompany
+      }),
+    [employeesList, deferredSearchTerm, departmentFilter, companyFilter]
   )
 
-  // Reset to page 1 when deferred search term changes
+  // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1)
-  }, [deferredSearchTerm])
+  }, [deferredSearchTerm, departmentFilter, companyFilter])
 
   // Calculate pagination
   const totalItems = filteredEmployees.length
@@ -72,23 +95,15 @@ export function EmployeesListPage() {
     setCurrentPage(1) // Reset to first page when changing page size
   }
 
-  const handleBulkDelete = async () => {
-    if (selectedEmployees.length === 0) return
-
-    const confirmed = await confirm({
-      title: 'Supprimer les employés',
-      description: `Voulez-vous vraiment supprimer ${selectedEmployees.length} employé(s) ? Cette action est irréversible.`,
-    })
-
-    if (!confirmed) return
-
+  // Sequential to keep one toast per failure readable and the API load low
+  const runOnSelection = async (action: (employeeId: string) => Promise<unknown>) => {
     let successCount = 0
     let errorCount = 0
     const errors: string[] = []
 
     for (const employeeId of selectedEmployees) {
       try {
-        await deleteEmployee.mutateAsync(employeeId)
+        await action(employeeId)
         successCount++
       } catch (error: unknown) {
         errorCount++
@@ -97,6 +112,44 @@ export function EmployeesListPage() {
       }
     }
 
+    return { successCount, errorCount, errors }
+  }
+
+  const handleBulkArchive = async () => {
+    if (selectedEmployees.length === 0) return
+
+    const confirmed = await confirm({
+      title: 'Archiver les employés',
+      description: `${selectedEmployees.length} employé(s) ne seront plus proposés dans les prêts. Leur historique est conservé et ils pourront être réactivés.`,
+    })
+
+    if (!confirmed) return
+
+    const { successCount, errorCount } = await runOnSelection(archiveEmployee.mutateAsync)
+
+    if (successCount > 0 && errorCount > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Certains archivages ont échoué',
+        description: `${successCount} employé(s) archivé(s), ${errorCount} employé(s) ont encore du matériel en prêt`,
+      })
+    }
+
+    setSelectedEmployees([])
+  }
+
+  const handleBulkDelete = async () => {
+    if (selectedEmployees.length === 0) return
+
+    const confirmed = await confirm({
+      title: 'Supprimer les employés',
+      description: `Voulez-vous vraiment supprimer ${selectedEmployees.length} employé(s) ? Cette action est irréversible.`,
+    })
+
+    if (!confirmed) return
+
+    const { successCount, errorCount, errors } = await runOnSelection(deleteEmployee.mutateAsync)
+
     if (successCount > 0) {
       toast({
         title: 'Suppression réussie',
@@ -128,6 +181,8 @@ export function EmployeesListPage() {
       setIsExporting(true)
       await exportEmployees({
         search: deferredSearchTerm || undefined,
+        departmentId: departmentFilter === 'all' ? undefined : departmentFilter,
+        companyId: companyFilter === 'all' ? undefined : companyFilter,
       })
       toast({
         title: 'Export réussi',
@@ -184,8 +239,28 @@ export function EmployeesListPage() {
             className="pl-10"
           />
         </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="include-archived"
+            checked={includeArchived}
+            onCheckedChange={(checked) => {
+              setIncludeArchived(checked === true)
+              setSelectedEmployees([])
+              setCurrentPage(1)
+            }}
+          />
+          <Label htmlFor="include-archived" className="font-normal cursor-pointer whitespace-nowrap">
+            Inclure les archivés
+          </Label>
+        </div>
         <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
           {selectedEmployees.length > 0 && (
+            <Button variant="outline" onClick={handleBulkArchive} className="w-full sm:w-auto">
+              <Archive className="h-4 w-4 mr-2" />
+              Archiver ({selectedEmployees.length})
+            </Button>
+          )}
+          {selectedEmployees.length > 0 && isAdmin && (
             <Button variant="destructive" onClick={handleBulkDelete} className="w-full sm:w-auto">
               <Trash2 className="h-4 w-4 mr-2" />
               Supprimer ({selectedEmployees.length})
@@ -199,6 +274,12 @@ export function EmployeesListPage() {
             <Upload className="h-4 w-4 mr-2" />
             Importer Excel
           </Button>
+          <Button variant="outline" asChild className="w-full sm:w-auto">
+            <Link to="/employees/sync">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Synchroniser RH
+            </Link>
+          </Button>
           <Button onClick={() => setIsCreating(true)} className="w-full sm:w-auto">
             <Plus className="h-4 w-4 mr-2" />
             Nouvel employé
@@ -206,6 +287,42 @@ export function EmployeesListPage() {
         </div>
       </div>
 
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Select
+          value={companyFilter}
+          onValueChange={(value) => {
+            setCompanyFilter(value)
+            setDepartmentFilter('all')
+          }}
+        >
+          <SelectTrigger className="w-full sm:w-[200px]" aria-label="Filtrer par société">
+            <SelectValue placeholder="Filtrer par société" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Toutes les sociétés</SelectItem>
+            {companies.map((company) => (
+              <SelectItem key={company.id} value={company.id}>
+                {company.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+          <SelectTrigger className="w-full sm:w-[200px]" aria-label="Filtrer par département">
+            <SelectValue placeholder="Filtrer par département" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tous les départements</SelectItem>
+            {departmentOptions.map((department) => (
+              <SelectItem key={department.id} value={department.id}>
+                {department.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {selectedEmployees.length > 0 && (
         <Alert>
           <AlertDescription>
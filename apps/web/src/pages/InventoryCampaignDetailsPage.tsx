@@ -0,0 +1,278 @@
+/**
+ * @fileoverview InventoryCampaignDetailsPage - Pointage et rapprochement d'une campagne d'inventaire
+ *
+ * This page provides:
+ * - Progress of the campaign (expected, found, missing, unexpected, stock variances)
+ * - Scan mode: scanned labels check the asset items off
+ * - Manual checklist of the expected asset items and stock counts
+ * - Closing (ADMIN), which freezes the reconciliation report
+ * - Report actions on a closed campaign (ADMIN): apply the stock corrections,
+ *   flag the missing items
+ *
+ * Route: /inventory/:id
+ */
+import { useState, useCallback } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { AlertTriangle, ArrowLeft, CheckCircle, PackageCheck, ScanLine } from 'lucide-react'
+import {
+  useInventoryCampaign,
+  useInventoryReport,
+  useCheckInventoryAsset,
+  useUncheckInventoryAsset,
+  useCountInventoryStock,
+  useCloseInventoryCampaign,
+  useApplyStockCorrections,
+  useFlagMissingItems,
+} from '@/lib/hooks/useInventoryCampaigns'
+import { useAuth } from '@/lib/hooks/useAuth'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { ScanDialog } from '@/components/common/ScanDialog'
+import type { ScanOutcome } from '@/components/common/ScanDialog'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { InventoryAssetChecklist } from '@/components/inventory/InventoryAssetChecklist'
+import { InventoryStockCountTable } from '@/components/inventory/InventoryStockCountTable'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  AssetStatus,
+  AssetStatusLabels,
+  InventoryCampaignStatus,
+  InventoryCampaignStatusLabels,
+  UserRole,
+} from '@/lib/types/enums'
+import type { InventoryAssetCheck } from '@/lib/types/models.types'
+import { formatDate } from '@/lib/utils/formatters'
+import { getErrorMessage } from '@/lib/utils/getErrorMessage'
+import { getCampaignScopeLabel } from '@/lib/utils/inventory'
+
+function getCheckedItemLabel(check: InventoryAssetCheck): string {
+  const { assetItem } = check
+  const code = assetItem.assetTag ?? assetItem.serial ?? 'Sans tag'
+  return `${code} - ${assetItem.assetModel.brand} ${assetItem.assetModel.modelName}`
+}
+
+/**
+ * Describe the outcome of a check in the scan dialog
+ */
+function getCheckOutcome(check: InventoryAssetCheck): ScanOutcome {
+  const label = getCheckedItemLabel(check)
+  if (!check.expected) {
+    const { status } = check.assetItem
+    const reason = status === AssetStatus.EN_STOCK || status === AssetStatus.HS
+      ? 'hors périmètre'
+      : AssetStatusLabels[status].toLowerCase()
+    return { success: false, message: `${label} : inattendu (${reason})` }
+  }
+  return { success: true, message: check.alreadyChecked ? `${label} : déjà pointé` : `${label} : trouvé` }
+}
+
+export function InventoryCampaignDetailsPage() {
+  const { id = '' } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const isAdmin = user?.role === UserRole.ADMIN
+
+  const { data: campaign, isLoading, error } = useInventoryCampaign(id)
+  const { data: report } = useInventoryReport(id)
+  const checkAsset = useCheckInventoryAsset(id)
+  const uncheckAsset = useUncheckInventoryAsset(id)
+  const countStock = useCountInventoryStock(id)
+  const closeCampaign = useCloseInventoryCampaign()
+  const applyCorrections = useApplyStockCorrections(id)
+  const flagMissing = useFlagMissingItems(id)
+  const { confirm, dialogProps } = useConfirmDialog()
+  const [isScanning, setIsScanning] = useState(false)
+
+  const { mutateAsync: checkAssetAsync } = checkAsset
+  const handleScan = useCallback(async (code: string): Promise<ScanOutcome> => {
+    try {
+      return getCheckOutcome(await checkAssetAsync({ code }))
+    } catch (scanError: unknown) {
+      return { success: false, message: getErrorMessage(scanError, 'Code inconnu') }
+    }
+  }, [checkAssetAsync])
+
+  const handleCheck = async (assetItemId: string) => {
+    try {
+      await checkAsset.mutateAsync({ assetItemId })
+    } catch (_error) {
+      // Unknown item: the checklist is refreshed below
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (error || !campaign) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-destructive">Campagne d'inventaire introuvable</p>
+      </div>
+    )
+  }
+
+  const isOpen = campaign.status === InventoryCampaignStatus.OPEN
+  const pendingCorrections = report?.stockCounts.filter((entry) => entry.variance !== 0 && !entry.correctionAppliedAt) ?? []
+  const unflaggedMissing = report?.missing.filter((entry) => !entry.flaggedAt) ?? []
+
+  const handleClose = async () => {
+    const missing = report?.summary.missing ?? 0
+    const uncounted = report?.summary.uncountedStock ?? 0
+    if (!await confirm({
+      title: 'Clôturer la campagne',
+      description: `${missing} équipement(s) non pointé(s) seront reportés manquants et ${uncounted} article(s) de stock ne sont pas comptés. Le rapport sera figé.`,
+    })) return
+    await closeCampaign.mutateAsync(campaign.id)
+  }
+
+  const handleApplyCorrections = async () => {
+    if (!await confirm({
+      title: 'Appliquer les corrections de stock',
+      description: `Les quantités de ${pendingCorrections.length} article(s) seront ajustées de l'écart constaté.`,
+    })) return
+    await applyCorrections.mutateAsync(undefined)
+  }
+
+  const handleFlagMissing = async () => {
+    if (!await confirm({
+      title: 'Signaler les équipements manquants',
+      description: `${unflaggedMissing.length} équipement(s) seront signalés introuvables jusqu'à ce qu'ils soient retrouvés.`,
+    })) return
+    await flagMissing.mutateAsync(undefined)
+  }
+
+  const summaryCards = report ? [
+    { label: 'Attendus', value: report.summary.expected },
+    { label: 'Trouvés', value: report.summary.found },
+    { label: isOpen ? 'Restant à pointer' : 'Manquants', value: report.summary.missing, alert: !isOpen && report.summary.missing > 0 },
+    { label: 'Inattendus', value: report.summary.unexpected, alert: report.summary.unexpected > 0 },
+    { label: 'Écarts de stock', value: report.summary.stockVariances, alert: report.summary.stockVariances > 0 },
+    { label: 'Stock non compté', value: report.summary.uncountedStock },
+  ] : []
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/inventory')} aria-label="Retour aux inventaires">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl md:text-3xl font-bold">{campaign.name}</h1>
+              <Badge variant={isOpen ? 'default' : 'secondary'}>{InventoryCampaignStatusLabels[campaign.status]}</Badge>
+            </div>
+            <p className="text-muted-foreground mt-1">
+              {getCampaignScopeLabel(campaign)} · ouverte le {formatDate(campaign.openedAt)}
+              {campaign.closedAt && ` · clôturée le ${formatDate(campaign.closedAt)}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {isOpen && (
+            <Button variant="outline" onClick={() => setIsScanning(true)}>
+              <ScanLine className="h-4 w-4 mr-2" />
+              Scanner
+            </Button>
+          )}
+          {isOpen && isAdmin && (
+            <Button onClick={handleClose} disabled={closeCampaign.isPending}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Clôturer
+            </Button>
+          )}
+          {!isOpen && isAdmin && (
+            <>
+              <Button
+                variant="outline"
+                onClick={handleApplyCorrections}
+                disabled={pendingCorrections.length === 0 || applyCorrections.isPending}
+              >
+                <PackageCheck className="h-4 w-4 mr-2" />
+                Appliquer les corrections de stock ({pendingCorrections.length})
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleFlagMissing}
+                disabled={unflaggedMissing.length === 0 || flagMissing.isPending}
+              >
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                Signaler les manquants ({unflaggedMissing.length})
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {summaryCards.map((card) => (
+              <Card key={card.label}>
+                <CardHeader className="pb-2">
+                  <CardDescription>{card.label}</CardDescription>
+                  <CardTitle className={card.alert ? 'text-destructive' : undefined}>{card.value}</CardTitle>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+
+          <Tabs defaultValue="assets">
+            <TabsList>
+              <TabsTrigger value="assets">Équipements ({report.summary.found}/{report.summary.expected})</TabsTrigger>
+              <TabsTrigger value="stock">Stock ({report.summary.stockCounted}/{report.summary.stockCounted + report.summary.uncountedStock})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="assets">
+              <InventoryAssetChecklist
+                report={report}
+                isOpen={isOpen}
+                isPending={checkAsset.isPending || uncheckAsset.isPending}
+                onCheck={handleCheck}
+                onUncheck={(assetItemId) => uncheckAsset.mutate(assetItemId)}
+              />
+            </TabsContent>
+            <TabsContent value="stock">
+              <InventoryStockCountTable
+                report={report}
+                isOpen={isOpen}
+                isPending={countStock.isPending}
+                onCount={(stockItemId, countedQuantity) => countStock.mutate({ stockItemId, countedQuantity })}
+              />
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+
+      {campaign.notes && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Notes</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm whitespace-pre-wrap">{campaign.notes}</CardContent>
+        </Card>
+      )}
+
+      {isScanning && (
+        <ScanDialog
+          open={isScanning}
+          onClose={() => setIsScanning(false)}
+          title="Pointer des équipements"
+          description="Chaque étiquette scannée marque l'équipement comme trouvé"
+          onScan={handleScan}
+        />
+      )}
+
+      <ConfirmDialog {...dialogProps} />
+    </div>
+  )
+}
+
+export default InventoryCampaignDetailsPage
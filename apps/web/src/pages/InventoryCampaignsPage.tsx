@@ -0,0 +1,160 @@
+/** @fileoverview Page des campagnes d'inventaire physique (pointage, comptage, rapprochement) */
+import { useState, lazy, Suspense } from 'react'
+import { Link } from 'react-router-dom'
+import { ClipboardCheck, Plus } from 'lucide-react'
+import { useInventoryCampaigns } from '@/lib/hooks/useInventoryCampaigns'
+import { useAuth } from '@/lib/hooks/useAuth'
+import { Pagination } from '@/components/common/Pagination'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  InventoryCampaignStatus,
+  InventoryCampaignStatusLabels,
+  UserRole,
+} from '@/lib/types/enums'
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
+import { formatDate } from '@/lib/utils/formatters'
+import { getCampaignScopeLabel } from '@/lib/utils/inventory'
+
+const InventoryCampaignFormDialog = lazy(() => import('@/components/inventory/InventoryCampaignFormDialog').then(m => ({ default: m.InventoryCampaignFormDialog })))
+
+const ALL_STATUSES = 'all'
+
+export function InventoryCampaignsPage() {
+  const { user } = useAuth()
+  const isAdmin = user?.role === UserRole.ADMIN
+  const [status, setStatus] = useState<InventoryCampaignStatus | typeof ALL_STATUSES>(ALL_STATUSES)
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const { data, isLoading, error } = useInventoryCampaigns({
+    page,
+    pageSize,
+    ...(status !== ALL_STATUSES ? { status } : {}),
+  })
+
+  const campaigns = data?.data ?? []
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Inventaires</h1>
+          <p className="text-muted-foreground mt-2">
+            Campagnes d'inventaire physique : pointage des équipements, comptage du stock et rapprochement
+          </p>
+        </div>
+        {isAdmin && (
+          <Button onClick={() => setIsCreating(true)} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 mr-2" />
+            Nouvelle campagne
+          </Button>
+        )}
+      </div>
+
+      <Select value={status} onValueChange={(value) => { setStatus(value as typeof status); setPage(1) }}>
+        <SelectTrigger className="w-full sm:w-[200px]" aria-label="Filtrer les campagnes">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_STATUSES}>Toutes</SelectItem>
+          {Object.values(InventoryCampaignStatus).map((value) => (
+            <SelectItem key={value} value={value}>{InventoryCampaignStatusLabels[value]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Campagne</TableHead>
+              <TableHead>Périmètre</TableHead>
+              <TableHead>Ouverte le</TableHead>
+              <TableHead>Clôturée le</TableHead>
+              <TableHead>Pointés</TableHead>
+              <TableHead>Comptés</TableHead>
+              <TableHead>Statut</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-8">Chargement...</TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-destructive py-8">Erreur lors du chargement des campagnes</TableCell>
+              </TableRow>
+            ) : campaigns.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-8">Aucune campagne d'inventaire</TableCell>
+              </TableRow>
+            ) : (
+              campaigns.map((campaign) => (
+                <TableRow key={campaign.id}>
+                  <TableCell className="font-medium">{campaign.name}</TableCell>
+                  <TableCell className="text-sm">{getCampaignScopeLabel(campaign)}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{formatDate(campaign.openedAt)}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{formatDate(campaign.closedAt)}</TableCell>
+                  <TableCell className="text-sm">{campaign._count?.assetChecks ?? 0}</TableCell>
+                  <TableCell className="text-sm">{campaign._count?.stockCounts ?? 0}</TableCell>
+                  <TableCell>
+                    <Badge variant={campaign.status === InventoryCampaignStatus.OPEN ? 'default' : 'secondary'}>
+                      {InventoryCampaignStatusLabels[campaign.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" asChild>
+                      <Link to={`/inventory/${campaign.id}`}>
+                        <ClipboardCheck className="h-4 w-4 mr-1" />
+                        {campaign.status === InventoryCampaignStatus.OPEN ? 'Pointer' : 'Rapport'}
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        {data && data.pagination.totalItems > 0 && (
+          <Pagination
+            currentPage={data.pagination.page}
+            totalPages={data.pagination.totalPages}
+            pageSize={data.pagination.pageSize}
+            totalItems={data.pagination.totalItems}
+            onPageChange={setPage}
+            onPageSizeChange={(size) => { setPageSize(size); setPage(1) }}
+            pageSizeOptions={PAGE_SIZE_OPTIONS}
+          />
+        )}
+      </div>
+
+      {isCreating && (
+        <Suspense fallback={null}>
+          <InventoryCampaignFormDialog open={isCreating} onClose={() => setIsCreating(false)} />
+        </Suspense>
+      )}
+    </div>
+  )
+}
+
+export default InventoryCampaignsPage
@@ -4,9 +4,12 @@
  * This page provides:
  * - Loan overview (employee, status, dates)
  * - Loan lines management (add/remove equipment)
+ * - Transfer of outstanding lines to another employee
  * - Pickup signature upload and display
  * - Return signature upload and display
- * - Loan closure functionality
+ * - Loan closure functionality with return inspection (OK / damaged / missing)
+ * - "Bon de prêt" PDF download with both signatures (server-generated)
+ * - Scan mode: scanned labels are added as lines or marked returned
  *
  * Refactored in Phase 3.3 to use sub-components for better maintainability.
  * Reduced from 566 lines to ~200 lines.
@@ -15,6 +18,8 @@
  * - LoanInfoCard - Employee and date information
  * - LoanLinesTable - Borrowed items table/cards
  * - SignatureSection - Signature display and management
+ * - ReturnInspectionDialog - Return checklist routing assets to stock/repair/HS
+ * - TransferLoanDialog - Move lines to a new loan for another employee
  *
  * Route: /loans/:id
  */
@@ -22,31 +27,43 @@ import { useState, lazy, Suspense } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import {
   useLoan,
+  useUpdateLoan,
+  useAddLoanLine,
   useRemoveLoanLine,
+  useReturnLoanLine,
   useUploadPickupSignature,
   useUploadReturnSignature,
   useCloseLoan,
   useDeletePickupSignature,
-  useDeleteReturnSignature
+  useDeleteReturnSignature,
+  useDownloadLoanReceipt
 } from '@/lib/hooks/useLoans'
 
 // Sub-components - Phase 3.3
 import { LoanInfoCard } from '@/components/loans/LoanInfoCard'
 import { LoanLinesTable } from '@/components/loans/LoanLinesTable'
 import { SignatureSection } from '@/components/loans/SignatureSection'
+import { ReturnInspectionDialog } from '@/components/loans/ReturnInspectionDialog'
+import { TransferLoanDialog } from '@/components/loans/TransferLoanDialog'
 
 // Lazy load dialog
 const AddLoanLineDialog = lazy(() => import('@/components/loans/AddLoanLineDialog').then(m => ({ default: m.AddLoanLineDialog })))
+const AddLoanKitDialog = lazy(() => import('@/components/loans/AddLoanKitDialog').then(m => ({ default: m.AddLoanKitDialog })))
 
 import { ErrorBoundary } from '@/components/common/ErrorBoundary'
+import { ScanDialog } from '@/components/common/ScanDialog'
+import type { ScanOutcome } from '@/components/common/ScanDialog'
 import { ConfirmDialog } from '@/components/common/ConfirmDialog'
 import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { ArrowLeft, CheckCircle } from 'lucide-react'
+import { ArrowLeft, ArrowRightLeft, CheckCircle, FileDown, ScanLine } from 'lucide-react'
 import { useAuthStore } from '@/lib/stores/authStore'
-import { UserRole } from '@/lib/types/enums'
+import { AssetStatus, ReturnCondition, UserRole } from '@/lib/types/enums'
+import { resolveAssetItemCode } from '@/lib/api/search.api'
+import { getScannedItemLabel, getScannedItemStatus } from '@/lib/utils/scanning'
+import type { LoanLineInspectionDto } from '@/lib/types/models.types'
 
 /**
  * Loan details page component
@@ -65,15 +82,25 @@ export function LoanDetailsPage() {
   const { data: loan, isLoading } = useLoan(id || '')
 
   // Mutations
+  const updateLoan = useUpdateLoan()
+  const addLine = useAddLoanLine()
   const removeLine = useRemoveLoanLine()
+  const returnLine = useReturnLoanLine()
   const uploadPickup = useUploadPickupSignature()
   const uploadReturn = useUploadReturnSignature()
   const closeLoan = useCloseLoan()
   const deletePickup = useDeletePickupSignature()
   const deleteReturn = useDeleteReturnSignature()
+  const downloadReceipt = useDownloadLoanReceipt()
 
   // Local state
   const [isAddingLine, setIsAddingLine] = useState(false)
+  const [isAddingKit, setIsAddingKit] = useState(false)
+  const [isTransferring, setIsTransferring] = useState(false)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanMode, setScanMode] = useState<'add' | 'return'>('add')
+  // null = closed, 'close' = whole loan, otherwise the id of the line being returned
+  const [inspectionTarget, setInspectionTarget] = useState<string | null>(null)
   const { confirm, dialogProps } = useConfirmDialog()
 
   // Computed values
@@ -82,13 +109,59 @@ export function LoanDetailsPage() {
   const hasLines = (loan?.lines?.length || 0) > 0
   const hasPickupSignature = !!loan?.pickupSignatureUrl
   const canClose = isOpen && hasLines && hasPickupSignature
+  const outstandingLines = loan?.lines?.filter((line) => !line.returnedAt) ?? []
+  const inspectedLines = inspectionTarget === 'close'
+    ? outstandingLines
+    : outstandingLines.filter((line) => line.id === inspectionTarget)
 
   // Event handlers
+  const handleUpdateDueDate = async (dueAt: string | null) => {
+    await updateLoan.mutateAsync({ loanId: loan!.id, data: { dueAt } })
+  }
+
   const handleRemoveLine = async (lineId: string) => {
     if (!await confirm({ title: 'Retirer l\'article', description: 'Voulez-vous vraiment retirer cet article du prêt ?' })) return
     await removeLine.mutateAsync({ loanId: loan!.id, lineId })
   }
 
+  const handleReturnLine = async (lineId: string) => {
+    const line = loan!.lines?.find((l) => l.id === lineId)
+    if (line?.assetItemId) {
+      setInspectionTarget(lineId)
+      return
+    }
+    if (!await confirm({ title: 'Retourner l\'article', description: 'Confirmez-vous le retour de cet article ? Le prêt sera fermé automatiquement au retour du dernier article.' })) return
+    await returnLine.mutateAsync({ loanId: loan!.id, lineId })
+  }
+
+  // Scanned asset items are returned in good condition; damages go through the return button
+  const handleScan = async (code: string): Promise<ScanOutcome> => {
+    const item = await resolveAssetItemCode(code)
+    const label = getScannedItemLabel(item)
+    const outstandingLine = outstandingLines.find((line) => line.assetItemId === item.id)
+
+    if (scanMode === 'return') {
+      if (!outstandingLine) {
+        return { success: false, message: `${label} ne fait pas partie des articles à rendre` }
+      }
+      await returnLine.mutateAsync({
+        loanId: loan!.id,
+        lineId: outstandingLine.id,
+        inspection: { condition: ReturnCondition.OK },
+      })
+      return { success: true, message: `${label} rendu` }
+    }
+
+    if (outstandingLine) {
+      return { success: false, message: `${label} est déjà dans ce prêt` }
+    }
+    if (item.status !== AssetStatus.EN_STOCK) {
+      return { success: false, message: `${label} indisponible : ${getScannedItemStatus(item)}` }
+    }
+    await addLine.mutateAsync({ loanId: loan!.id, data: { assetItemId: item.id } })
+    return { success: true, message: `${label} ajouté au prêt` }
+  }
+
   const handleSavePickupSignature = async (dataUrl: string) => {
     await uploadPickup.mutateAsync({ loanId: loan!.id, signature: dataUrl })
   }
@@ -98,8 +171,22 @@ export function LoanDetailsPage() {
   }
 
   const handleCloseLoan = async () => {
+    if (outstandingLines.some((line) => line.assetItemId)) {
+      setInspectionTarget('close')
+      return
+    }
     if (!await confirm({ title: 'Fermer le prêt', description: 'Voulez-vous vraiment fermer ce prêt ? Cette action est irréversible.' })) return
-    await closeLoan.mutateAsync(loan!.id)
+    await closeLoan.mutateAsync({ loanId: loan!.id })
+  }
+
+  const handleConfirmInspection = async (inspections: LoanLineInspectionDto[]) => {
+    if (inspectionTarget === 'close') {
+      await closeLoan.mutateAsync({ loanId: loan!.id, inspections })
+    } else if (inspectionTarget) {
+      const [{ condition, note }] = inspections
+      await returnLine.mutateAsync({ loanId: loan!.id, lineId: inspectionTarget, inspection: { condition, note } })
+    }
+    setInspectionTarget(null)
   }
 
   const handleDeletePickupSignature = async () => {
@@ -141,21 +228,51 @@ export function LoanDetailsPage() {
         <div className="flex-1">
           <h1 className="text-2xl md:text-3xl font-bold">Détails du prêt</h1>
         </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadReceipt.mutate(loan.id)}
+          disabled={downloadReceipt.isPending}
+          className="w-full sm:w-auto"
+        >
+          <FileDown className="h-4 w-4 mr-2" />
+          {downloadReceipt.isPending ? 'Génération...' : 'Bon de prêt (PDF)'}
+        </Button>
+        {isOpen && (
+          <Button variant="outline" size="sm" onClick={() => setIsScanning(true)} className="w-full sm:w-auto">
+            <ScanLine className="h-4 w-4 mr-2" />
+            Scanner
+          </Button>
+        )}
+        {isOpen && outstandingLines.length > 0 && (
+          <Button variant="outline" size="sm" onClick={() => setIsTransferring(true)} className="w-full sm:w-auto">
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            Transférer
+          </Button>
+        )}
         <Badge variant={isOpen ? 'default' : 'secondary'} className="text-base sm:text-lg px-4 py-2">
           {isOpen ? 'Ouvert' : 'Fermé'}
         </Badge>
       </div>
 
       {/* Employee Info - Phase 3.3 */}
-      <LoanInfoCard loan={loan} />
+      <LoanInfoCard
+        loan={loan}
+        canEditDueDate={isOpen || false}
+        onUpdateDueDate={handleUpdateDueDate}
+        isUpdatingDueDate={updateLoan.isPending}
+      />
 
       {/* Loan Lines - Phase 3.3 */}
       <LoanLinesTable
         loan={loan}
         isOpen={isOpen || false}
         onAddLine={() => setIsAddingLine(true)}
+        onAddKit={() => setIsAddingKit(true)}
         onRemoveLine={handleRemoveLine}
         isRemoving={removeLine.isPending}
+        onReturnLine={handleReturnLine}
+        isReturning={returnLine.isPending}
       />
 
       {/* Signatures - Phase 3.3 */}
@@ -231,6 +348,75 @@ export function LoanDetailsPage() {
         </Suspense>
       </ErrorBoundary>
 
+      {/* Add Kit Dialog - mounted on open so the kit selection starts empty */}
+      {isAddingKit && (
+        <ErrorBoundary>
+          <Suspense fallback={null}>
+            <AddLoanKitDialog
+              loanId={loan.id}
+              open={isAddingKit}
+              onClose={() => setIsAddingKit(false)}
+            />
+          </Suspense>
+        </ErrorBoundary>
+      )}
+
+      {/* Mounted on open so the line selection starts from the current loan */}
+      {isTransferring && (
+        <TransferLoanDialog
+          loan={loan}
+          open={isTransferring}
+          onClose={() => setIsTransferring(false)}
+          onSuccess={(newLoanId) => navigate(`/loans/${newLoanId}`)}
+        />
+      )}
+
+      {/* Mounted on open so each scan session starts with an empty history */}
+      {isScanning && (
+        <ScanDialog
+          open={isScanning}
+          onClose={() => setIsScanning(false)}
+          title="Scanner des équipements"
+          description={scanMode === 'add'
+            ? 'Chaque équipement scanné est ajouté au prêt s\'il est en stock'
+            : 'Chaque équipement scanné est rendu en bon état (utilisez « Retourner » pour signaler un dommage)'}
+          onScan={handleScan}
+        >
+          <div className="grid grid-cols-2 gap-2" role="group" aria-label="Mode de scan">
+            <Button
+              type="button"
+              variant={scanMode === 'add' ? 'default' : 'outline'}
+              onClick={() => setScanMode('add')}
+              aria-pressed={scanMode === 'add'}
+            >
+              Ajouter au prêt
+            </Button>
+            <Button
+              type="button"
+              variant={scanMode === 'return' ? 'default' : 'outline'}
+              onClick={() => setScanMode('return')}
+              aria-pressed={scanMode === 'return'}
+              disabled={!outstandingLines.some((line) => line.assetItemId)}
+            >
+              Marquer rendu
+            </Button>
+          </div>
+        </ScanDialog>
+      )}
+
+      <ReturnInspectionDialog
+        open={inspectionTarget !== null}
+        onClose={() => setInspectionTarget(null)}
+        lines={inspectedLines}
+        title={inspectionTarget === 'close' ? 'Fermer le prêt' : 'Retourner l\'article'}
+        description={inspectionTarget === 'close'
+          ? 'Indiquez l\'état de chaque équipement rendu. Cette action est irréversible.'
+          : 'Indiquez l\'état de l\'équipement rendu. Le prêt sera fermé automatiquement au retour du dernier article.'}
+        confirmLabel={inspectionTarget === 'close' ? 'Fermer le prêt' : 'Valider le retour'}
+        onConfirm={handleConfirmInspection}
+        isSubmitting={closeLoan.isPending || returnLine.isPending}
+      />
+
       <ConfirmDialog {...dialogProps} />
     </div>
   )
@@ -0,0 +1,135 @@
+/** @fileoverview Page d'administration des kits de prêt */
+import { useState, lazy, Suspense } from 'react'
+import { useLoanKits, useDeleteLoanKit } from '@/lib/hooks/useLoanKits'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Plus, Pencil, Trash2 } from 'lucide-react'
+import type { LoanKit } from '@/lib/types/models.types'
+import { getLoanKitItemLabel } from '@/lib/utils/loanKits'
+
+const LoanKitFormDialog = lazy(() => import('@/components/loanKits/LoanKitFormDialog').then(m => ({ default: m.LoanKitFormDialog })))
+
+export function LoanKitsPage() {
+  // undefined: closed, null: creating, LoanKit: editing
+  const [editedKit, setEditedKit] = useState<LoanKit | null | undefined>(undefined)
+  const { data: kits = [], isLoading, error } = useLoanKits()
+  const deleteKit = useDeleteLoanKit()
+  const { confirm, dialogProps } = useConfirmDialog()
+
+  const handleDelete = async (kit: LoanKit) => {
+    if (!await confirm({ title: 'Supprimer le kit', description: `Voulez-vous vraiment supprimer le kit « ${kit.name} » ? Les prêts existants ne sont pas modifiés.` })) return
+    await deleteKit.mutateAsync(kit.id)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Chargement...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <p className="text-destructive">Erreur lors du chargement des kits</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Kits de prêt</h1>
+          <p className="text-muted-foreground mt-2">
+            Ensembles d'équipements et de consommables ajoutés en une fois à un prêt
+          </p>
+        </div>
+        <Button onClick={() => setEditedKit(null)} className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Nouveau kit
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nom</TableHead>
+              <TableHead>Composants</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {kits.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+                  Aucun kit défini
+                </TableCell>
+              </TableRow>
+            ) : (
+              kits.map((kit) => (
+                <TableRow key={kit.id}>
+                  <TableCell>
+                    <p className="font-medium">{kit.name}</p>
+                    {kit.description && (
+                      <p className="text-xs text-muted-foreground">{kit.description}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <ul className="space-y-0.5">
+                      {kit.items.map((item) => (
+                        <li key={item.id}>{getLoanKitItemLabel(item)}</li>
+                      ))}
+                    </ul>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex gap-1 justify-end">
+                      <Button variant="ghost" size="sm" onClick={() => setEditedKit(kit)} title="Modifier le kit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(kit)}
+                        disabled={deleteKit.isPending}
+                        title="Supprimer le kit"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {editedKit !== undefined && (
+        <Suspense fallback={null}>
+          <LoanKitFormDialog kit={editedKit} open={true} onClose={() => setEditedKit(undefined)} />
+        </Suspense>
+      )}
+
+      <ConfirmDialog {...dialogProps} />
+    </div>
+  )
+}
+
+export default LoanKitsPage
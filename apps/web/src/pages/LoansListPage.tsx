@@ -21,15 +21,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Plus, Search, Trash2, Printer } from 'lucide-react'
+import { Plus, Search, Trash2, Printer, ArchiveRestore } from 'lucide-react'
 import { LoanStatus } from '@/lib/types/enums'
 import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
 import { formatFullName } from '@/lib/utils/formatters'
 
+const OVERDUE_FILTER = 'overdue'
+
 export function LoansListPage() {
   const navigate = useNavigate()
   const { user } = useAuth()
-  const { data: employees = [] } = useEmployees()
+  // Departed employees keep their printable loan history
+  const { data: employees = [] } = useEmployees({ includeArchived: true })
   const [isCreating, setIsCreating] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>('all')
@@ -49,7 +52,9 @@ export function LoansListPage() {
   const { data: paginatedData, isLoading, error } = useLoansPaginated({
     page: currentPage,
     pageSize,
-    status: statusFilter === 'all' ? undefined : statusFilter,
+    // 'overdue' is a pseudo-status: open loans past their due date
+    status: statusFilter === 'all' || statusFilter === OVERDUE_FILTER ? undefined : statusFilter,
+    overdue: statusFilter === OVERDUE_FILTER || undefined,
     search: deferredSearch.length >= 2 ? deferredSearch : undefined,
     sortBy: 'openedAt',
     sortOrder: 'desc',
@@ -152,6 +157,7 @@ export function LoansListPage() {
               <SelectItem value="all">Tous les statuts</SelectItem>
               <SelectItem value={LoanStatus.OPEN}>Ouvert</SelectItem>
               <SelectItem value={LoanStatus.CLOSED}>Fermé</SelectItem>
+              <SelectItem value={OVERDUE_FILTER}>En retard</SelectItem>
             </SelectContent>
           </Select>
           <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
@@ -175,6 +181,16 @@ export function LoansListPage() {
                 Imprimer l'historique
               </Button>
             )}
+            {isAdmin && (
+              <Button
+                variant="outline"
+                onClick={() => navigate('/loans/trash')}
+                className="w-full sm:w-auto"
+              >
+                <ArchiveRestore className="h-4 w-4 mr-2" />
+                Corbeille
+              </Button>
+            )}
             <Button onClick={() => setIsCreating(true)} className="w-full sm:w-auto">
               <Plus className="h-4 w-4 mr-2" />
               Nouveau prêt
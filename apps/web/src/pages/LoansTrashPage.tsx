@@ -0,0 +1,216 @@
+/** @fileoverview Corbeille des prêts supprimés : restauration et suppression définitive (ADMIN) */
+import { useState, useDeferredValue } from 'react'
+import { Link } from 'react-router-dom'
+import { ArrowLeft, RotateCcw, Search, Trash2 } from 'lucide-react'
+import {
+  useDeletedLoans,
+  useRestoreLoan,
+  usePurgeLoan,
+  usePurgeExpiredLoans,
+} from '@/lib/hooks/useLoans'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { Pagination } from '@/components/common/Pagination'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { LoanStatus, LoanStatusLabels } from '@/lib/types/enums'
+import type { DeletedLoan } from '@/lib/types/models.types'
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
+import { formatDate, formatDateTime, formatFullName } from '@/lib/utils/formatters'
+
+function countOutstandingLines(loan: DeletedLoan): number {
+  return (loan.lines ?? []).filter((line) => !line.returnedAt).length
+}
+
+export function LoansTrashPage() {
+  const [searchTerm, setSearchTerm] = useState('')
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
+  const deferredSearch = useDeferredValue(searchTerm)
+  const { confirm, dialogProps } = useConfirmDialog()
+
+  const { data, isLoading, error } = useDeletedLoans({
+    page,
+    pageSize,
+    search: deferredSearch.length >= 2 ? deferredSearch : undefined,
+  })
+  const restoreLoan = useRestoreLoan()
+  const purgeLoan = usePurgeLoan()
+  const purgeExpiredLoans = usePurgeExpiredLoans()
+
+  const loans = data?.data ?? []
+
+  const handleRestore = async (loan: DeletedLoan) => {
+    const employeeName = loan.employee ? formatFullName(loan.employee.firstName, loan.employee.lastName) : 'cet employé'
+    const outstanding = countOutstandingLines(loan)
+    const confirmed = await confirm({
+      title: 'Restaurer le prêt',
+      description: outstanding > 0
+        ? `Le prêt de ${employeeName} sera restauré et ses ${outstanding} article(s) non rendu(s) repasseront en prêt.`
+        : `Le prêt de ${employeeName} sera restauré.`,
+    })
+    if (confirmed) {
+      restoreLoan.mutate(loan.id)
+    }
+  }
+
+  const handlePurge = async (loan: DeletedLoan) => {
+    const employeeName = loan.employee ? formatFullName(loan.employee.firstName, loan.employee.lastName) : 'cet employé'
+    const confirmed = await confirm({
+      title: 'Supprimer définitivement',
+      description: `Le prêt de ${employeeName}, ses lignes et ses signatures seront supprimés. Cette action est irréversible.`,
+    })
+    if (confirmed) {
+      purgeLoan.mutate(loan.id)
+    }
+  }
+
+  const handlePurgeExpired = async () => {
+    const confirmed = await confirm({
+      title: 'Vider la corbeille',
+      description: 'Les prêts dont la date de suppression définitive est dépassée seront supprimés. Cette action est irréversible.',
+    })
+    if (confirmed) {
+      purgeExpiredLoans.mutate()
+    }
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <Link to="/loans" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Prêts
+        </Link>
+        <h1 className="text-2xl md:text-3xl font-bold mt-2">Corbeille</h1>
+        <p className="text-muted-foreground mt-2">
+          Prêts supprimés, restaurables jusqu'à leur suppression définitive
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+        <div className="relative flex-1 w-full sm:max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Rechercher par employé..."
+            value={searchTerm}
+            onChange={(e) => { setSearchTerm(e.target.value); setPage(1) }}
+            className="pl-10"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={handlePurgeExpired}
+          disabled={purgeExpiredLoans.isPending}
+          className="w-full sm:w-auto"
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          {purgeExpiredLoans.isPending ? 'Suppression...' : 'Vider les prêts expirés'}
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employé</TableHead>
+              <TableHead>Ouvert le</TableHead>
+              <TableHead>Statut</TableHead>
+              <TableHead>Articles</TableHead>
+              <TableHead>Supprimé</TableHead>
+              <TableHead>Suppression définitive</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-8">Chargement...</TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-destructive py-8">Erreur lors du chargement de la corbeille</TableCell>
+              </TableRow>
+            ) : loans.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-8">La corbeille est vide</TableCell>
+              </TableRow>
+            ) : (
+              loans.map((loan) => (
+                <TableRow key={loan.id}>
+                  <TableCell className="font-medium">
+                    {loan.employee ? formatFullName(loan.employee.firstName, loan.employee.lastName) : '-'}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatDate(loan.openedAt)}</TableCell>
+                  <TableCell>
+                    <Badge variant={loan.status === LoanStatus.OPEN ? 'default' : 'secondary'}>
+                      {LoanStatusLabels[loan.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {loan.lines?.length ?? 0}
+                    {countOutstandingLines(loan) > 0 && (
+                      <span className="text-muted-foreground"> ({countOutstandingLines(loan)} non rendu(s))</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <p className="whitespace-nowrap">{formatDateTime(loan.deletedAt)}</p>
+                    <p className="text-xs text-muted-foreground">{loan.deletedBy?.email ?? 'Utilisateur supprimé'}</p>
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{formatDate(loan.purgeAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(loan)}
+                        disabled={restoreLoan.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restaurer
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handlePurge(loan)}
+                        disabled={purgeLoan.isPending}
+                        aria-label="Supprimer définitivement"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        {data && data.pagination.totalItems > 0 && (
+          <Pagination
+            currentPage={data.pagination.page}
+            totalPages={data.pagination.totalPages}
+            pageSize={data.pagination.pageSize}
+            totalItems={data.pagination.totalItems}
+            onPageChange={setPage}
+            onPageSizeChange={(size) => { setPageSize(size); setPage(1) }}
+            pageSizeOptions={PAGE_SIZE_OPTIONS}
+          />
+        )}
+      </div>
+
+      <ConfirmDialog {...dialogProps} />
+    </div>
+  )
+}
+
+export default LoansTrashPage
@@ -0,0 +1,249 @@
+/** @fileoverview Page des notifications email : préférences et journal des envois */
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { format } from 'date-fns'
+import { fr } from 'date-fns/locale'
+import { Send } from 'lucide-react'
+import {
+  useNotificationSettings,
+  useUpdateNotificationSettings,
+  useNotificationLogs,
+  useSendOverdueReminders,
+} from '@/lib/hooks/useNotifications'
+import { useAuth } from '@/lib/hooks/useAuth'
+import { Pagination } from '@/components/common/Pagination'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  UserRole,
+  NotificationEvent,
+  NotificationEventLabels,
+  NotificationStatus,
+  NotificationStatusLabels,
+} from '@/lib/types/enums'
+import type { NotificationSettings } from '@/lib/types/models.types'
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
+
+const SETTING_OPTIONS: { key: keyof NotificationSettings; event: NotificationEvent; description: string }[] = [
+  { key: 'loanOpened', event: NotificationEvent.LOAN_OPENED, description: 'Un prêt est ouvert pour un membre de votre équipe' },
+  { key: 'lineAdded', event: NotificationEvent.LINE_ADDED, description: 'Du matériel est ajouté à l\'un de ses prêts' },
+  { key: 'loanClosed', event: NotificationEvent.LOAN_CLOSED, description: 'Un de ses prêts est clôturé' },
+  { key: 'overdueReminder', event: NotificationEvent.OVERDUE_REMINDER, description: 'Un de ses prêts dépasse la date de retour prévue' },
+  { key: 'longLoanReminder', event: NotificationEvent.LONG_LOAN_REMINDER, description: 'Un de ses prêts est ouvert depuis plusieurs mois (rappel hebdomadaire)' },
+]
+
+function NotificationPreferences() {
+  const { data: settings, isLoading, error } = useNotificationSettings()
+  const updateSettings = useUpdateNotificationSettings()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Mes préférences</CardTitle>
+        <CardDescription>
+          Emails reçus pour les prêts des employés dont vous êtes le manager.
+          Les employés reçoivent toujours les emails de leurs propres prêts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Chargement...</p>
+        ) : error || !settings ? (
+          <p className="text-sm text-destructive">Erreur lors du chargement des préférences</p>
+        ) : (
+          <div className="space-y-4">
+            {SETTING_OPTIONS.map((option) => (
+              <div key={option.key} className="flex items-start gap-3">
+                <Checkbox
+                  id={`notification-${option.key}`}
+                  checked={settings[option.key]}
+                  disabled={updateSettings.isPending}
+                  onCheckedChange={(checked) => updateSettings.mutate({ [option.key]: checked === true })}
+                />
+                <div className="space-y-0.5">
+                  <Label htmlFor={`notification-${option.key}`}>{NotificationEventLabels[option.event]}</Label>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function NotificationLogs() {
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
+  const [statusFilter, setStatusFilter] = useState<NotificationStatus | 'all'>('all')
+  const [eventFilter, setEventFilter] = useState<NotificationEvent | 'all'>('all')
+  const sendReminders = useSendOverdueReminders()
+
+  const { data, isLoading, error } = useNotificationLogs({
+    page,
+    pageSize,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    event: eventFilter === 'all' ? undefined : eventFilter,
+  })
+  const logs = data?.data ?? []
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Journal des envois</CardTitle>
+          <CardDescription>Chaque tentative d'envoi, réussie ou non</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => sendReminders.mutate()}
+          disabled={sendReminders.isPending}
+          className="w-full sm:w-auto"
+        >
+          <Send className="h-4 w-4 mr-2" />
+          {sendReminders.isPending ? 'Envoi...' : 'Envoyer les rappels'}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => { setStatusFilter(value as NotificationStatus | 'all'); setPage(1) }}
+          >
+            <SelectTrigger className="w-full sm:w-[180px]" aria-label="Filtrer par statut">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tous les statuts</SelectItem>
+              {Object.values(NotificationStatus).map((status) => (
+                <SelectItem key={status} value={status}>{NotificationStatusLabels[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={eventFilter}
+            onValueChange={(value) => { setEventFilter(value as NotificationEvent | 'all'); setPage(1) }}
+          >
+            <SelectTrigger className="w-full sm:w-[200px]" aria-label="Filtrer par événement">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tous les événements</SelectItem>
+              {Object.values(NotificationEvent).map((event) => (
+                <SelectItem key={event} value={event}>{NotificationEventLabels[event]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Événement</TableHead>
+                <TableHead>Destinataire</TableHead>
+                <TableHead>Prêt</TableHead>
+                <TableHead>Statut</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">Chargement...</TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-destructive py-8">Erreur lors du chargement du journal</TableCell>
+                </TableRow>
+              ) : logs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">Aucun envoi</TableCell>
+                </TableRow>
+              ) : (
+                logs.map((log) => (
+                  <TableRow key={log.id}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(log.createdAt), 'dd/MM/yyyy HH:mm', { locale: fr })}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{NotificationEventLabels[log.event]}</p>
+                      <p className="text-xs text-muted-foreground">{log.subject}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">{log.recipient}</TableCell>
+                    <TableCell className="text-sm">
+                      {log.loan ? (
+                        <Link to={`/loans/${log.loan.id}`} className="text-primary hover:underline">
+                          {log.loan.employee.firstName} {log.loan.employee.lastName}
+                        </Link>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={log.status === NotificationStatus.SENT ? 'secondary' : 'destructive'}>
+                        {NotificationStatusLabels[log.status]}
+                      </Badge>
+                      {log.error && <p className="text-xs text-destructive mt-1">{log.error}</p>}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {data && data.pagination.totalItems > 0 && (
+            <Pagination
+              currentPage={data.pagination.page}
+              totalPages={data.pagination.totalPages}
+              pageSize={data.pagination.pageSize}
+              totalItems={data.pagination.totalItems}
+              onPageChange={setPage}
+              onPageSizeChange={(size) => { setPageSize(size); setPage(1) }}
+              pageSizeOptions={PAGE_SIZE_OPTIONS}
+            />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function NotificationsPage() {
+  const { user } = useAuth()
+  const isAdmin = user?.role === UserRole.ADMIN
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Notifications</h1>
+        <p className="text-muted-foreground mt-2">
+          Emails envoyés à l'ouverture, à la clôture et en cas de retard des prêts
+        </p>
+      </div>
+
+      <NotificationPreferences />
+
+      {isAdmin && <NotificationLogs />}
+    </div>
+  )
+}
+
+export default NotificationsPage
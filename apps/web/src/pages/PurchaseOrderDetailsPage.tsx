@@ -0,0 +1,232 @@
+/**
+ * @fileoverview PurchaseOrderDetailsPage - Détail et réception d'un bon de commande
+ *
+ * This page provides:
+ * - Order lines with ordered / received quantities and amounts
+ * - Draft actions: edit, place the order with the supplier, delete
+ * - Reception of deliveries (serial numbers one by one, consumable quantities)
+ * - Asset items created by each reception, linked to their line
+ *
+ * Route: /purchase-orders/:id
+ */
+import { useState, lazy, Suspense } from 'react'
+import { Link, useParams, useNavigate } from 'react-router-dom'
+import { ArrowLeft, Edit, PackageCheck, Send, Trash2 } from 'lucide-react'
+import {
+  usePurchaseOrder,
+  usePlacePurchaseOrder,
+  useDeletePurchaseOrder,
+} from '@/lib/hooks/usePurchaseOrders'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PurchaseOrderStatus, PurchaseOrderStatusLabels } from '@/lib/types/enums'
+import { formatDate } from '@/lib/utils/formatters'
+import { formatCents } from '@/lib/utils/money'
+import { canReceivePurchaseOrder, getPurchaseOrderStatusVariant, getReceptionProgress } from '@/lib/utils/purchaseOrders'
+
+const PurchaseOrderFormDialog = lazy(() => import('@/components/purchaseOrders/PurchaseOrderFormDialog').then(m => ({ default: m.PurchaseOrderFormDialog })))
+const PurchaseOrderReceptionDialog = lazy(() => import('@/components/purchaseOrders/PurchaseOrderReceptionDialog').then(m => ({ default: m.PurchaseOrderReceptionDialog })))
+
+export function PurchaseOrderDetailsPage() {
+  const { id = '' } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { data: order, isLoading, error } = usePurchaseOrder(id)
+  const placeOrder = usePlacePurchaseOrder()
+  const deleteOrder = useDeletePurchaseOrder()
+  const { confirm, dialogProps } = useConfirmDialog()
+  const [isEditing, setIsEditing] = useState(false)
+  const [isReceiving, setIsReceiving] = useState(false)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (error || !order) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-destructive">Bon de commande introuvable</p>
+      </div>
+    )
+  }
+
+  const isDraft = order.status === PurchaseOrderStatus.DRAFT
+  const progress = getReceptionProgress(order)
+
+  const handlePlace = async () => {
+    if (!await confirm({
+      title: 'Passer la commande',
+      description: `${order.reference} ne sera plus modifiable et pourra être réceptionné.`,
+    })) return
+    await placeOrder.mutateAsync(order.id)
+  }
+
+  const handleDelete = async () => {
+    if (!await confirm({
+      title: 'Supprimer le bon de commande',
+      description: `Le brouillon ${order.reference} sera supprimé définitivement.`,
+    })) return
+    try {
+      await deleteOrder.mutateAsync(order.id)
+      navigate('/purchase-orders')
+    } catch (_error) {
+      // Error handled by mutation hook
+    }
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/purchase-orders')} aria-label="Retour aux commandes">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl md:text-3xl font-bold font-mono">{order.reference}</h1>
+              <Badge variant={getPurchaseOrderStatusVariant(order.status)}>{PurchaseOrderStatusLabels[order.status]}</Badge>
+            </div>
+            <p className="text-muted-foreground mt-1">
+              {order.supplier.name} · créé le {formatDate(order.createdAt)}
+              {order.orderedAt && ` · commandé le ${formatDate(order.orderedAt)}`}
+              {order.receivedAt && ` · reçu le ${formatDate(order.receivedAt)}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {isDraft && (
+            <>
+              <Button variant="outline" onClick={() => setIsEditing(true)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Modifier
+              </Button>
+              <Button variant="outline" onClick={handleDelete} disabled={deleteOrder.isPending}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Supprimer
+              </Button>
+              <Button onClick={handlePlace} disabled={placeOrder.isPending}>
+                <Send className="h-4 w-4 mr-2" />
+                Passer la commande
+              </Button>
+            </>
+          )}
+          {canReceivePurchaseOrder(order) && (
+            <Button onClick={() => setIsReceiving(true)}>
+              <PackageCheck className="h-4 w-4 mr-2" />
+              Réceptionner
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            Lignes · {progress.received} / {progress.ordered} reçu(s) · {formatCents(order.totalCents)} HT
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Modèle</TableHead>
+                <TableHead>Quantité</TableHead>
+                <TableHead>Reçus</TableHead>
+                <TableHead>Prix unitaire HT</TableHead>
+                <TableHead>Total HT</TableHead>
+                <TableHead>Équipements reçus</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.lines.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell className="font-medium">
+                    {line.assetModel.brand} {line.assetModel.modelName}
+                    <p className="text-xs text-muted-foreground">{line.assetModel.type}</p>
+                  </TableCell>
+                  <TableCell className="text-sm">{line.quantity}</TableCell>
+                  <TableCell className="text-sm">{line.receivedQuantity}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{formatCents(line.unitPriceCents)}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{formatCents(line.totalCents)}</TableCell>
+                  <TableCell className="text-sm">
+                    {line.isConsumable ? (
+                      <span className="text-muted-foreground">Stock consommable</span>
+                    ) : line.assetItems && line.assetItems.length > 0 ? (
+                      <div className="flex flex-wrap gap-1">
+                        {line.assetItems.map((item) => (
+                          <Link
+                            key={item.id}
+                            to={`/assets/items?search=${encodeURIComponent(item.assetTag ?? item.serial ?? '')}`}
+                            className="font-mono text-xs underline-offset-2 hover:underline"
+                            title={item.serial ?? undefined}
+                          >
+                            {item.assetTag ?? item.serial}
+                          </Link>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Fournisseur</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm space-y-1">
+            <p className="font-medium">{order.supplier.name}</p>
+            {order.supplier.contactName && <p>{order.supplier.contactName}</p>}
+            {order.supplier.email && <p className="text-muted-foreground">{order.supplier.email}</p>}
+            {order.supplier.phone && <p className="text-muted-foreground">{order.supplier.phone}</p>}
+          </CardContent>
+        </Card>
+        {order.notes && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Notes</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm whitespace-pre-wrap">{order.notes}</CardContent>
+          </Card>
+        )}
+      </div>
+
+      {isEditing && (
+        <Suspense fallback={null}>
+          <PurchaseOrderFormDialog order={order} open={isEditing} onClose={() => setIsEditing(false)} />
+        </Suspense>
+      )}
+
+      {isReceiving && (
+        <Suspense fallback={null}>
+          <PurchaseOrderReceptionDialog order={order} open={isReceiving} onClose={() => setIsReceiving(false)} />
+        </Suspense>
+      )}
+
+      <ConfirmDialog {...dialogProps} />
+    </div>
+  )
+}
+
+export default PurchaseOrderDetailsPage
@@ -0,0 +1,178 @@
+/** @fileoverview Page des bons de commande fournisseurs (brouillon, commande, réception) */
+import { useState, lazy, Suspense } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Eye, Plus } from 'lucide-react'
+import { usePurchaseOrders } from '@/lib/hooks/usePurchaseOrders'
+import { useSuppliers } from '@/lib/hooks/useSuppliers'
+import { Pagination } from '@/components/common/Pagination'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PurchaseOrderStatus, PurchaseOrderStatusLabels } from '@/lib/types/enums'
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
+import { formatDate } from '@/lib/utils/formatters'
+import { formatCents } from '@/lib/utils/money'
+import { getPurchaseOrderStatusVariant, getReceptionProgress } from '@/lib/utils/purchaseOrders'
+
+const PurchaseOrderFormDialog = lazy(() => import('@/components/purchaseOrders/PurchaseOrderFormDialog').then(m => ({ default: m.PurchaseOrderFormDialog })))
+
+const ALL = 'all'
+
+export function PurchaseOrdersPage() {
+  const navigate = useNavigate()
+  const [status, setStatus] = useState<PurchaseOrderStatus | typeof ALL>(ALL)
+  const [supplierId, setSupplierId] = useState<string>(ALL)
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const { data: suppliers } = useSuppliers()
+  const { data, isLoading, error } = usePurchaseOrders({
+    page,
+    pageSize,
+    ...(status !== ALL ? { status } : {}),
+    ...(supplierId !== ALL ? { supplierId } : {}),
+  })
+
+  const orders = data?.data ?? []
+  const suppliersList = Array.isArray(suppliers) ? suppliers : []
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Commandes</h1>
+          <p className="text-muted-foreground mt-2">
+            Bons de commande fournisseurs et réception des livraisons
+          </p>
+        </div>
+        <Button onClick={() => setIsCreating(true)} className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Nouveau bon de commande
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={status} onValueChange={(value) => { setStatus(value as typeof status); setPage(1) }}>
+          <SelectTrigger className="w-full sm:w-[200px]" aria-label="Filtrer par statut">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tous les statuts</SelectItem>
+            {Object.values(PurchaseOrderStatus).map((value) => (
+              <SelectItem key={value} value={value}>{PurchaseOrderStatusLabels[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={supplierId} onValueChange={(value) => { setSupplierId(value); setPage(1) }}>
+          <SelectTrigger className="w-full sm:w-[220px]" aria-label="Filtrer par fournisseur">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tous les fournisseurs</SelectItem>
+            {suppliersList.map((supplier) => (
+              <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Référence</TableHead>
+              <TableHead>Fournisseur</TableHead>
+              <TableHead>Créé le</TableHead>
+              <TableHead>Commandé le</TableHead>
+              <TableHead>Reçus</TableHead>
+              <TableHead>Total HT</TableHead>
+              <TableHead>Statut</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-8">Chargement...</TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-destructive py-8">Erreur lors du chargement des bons de commande</TableCell>
+              </TableRow>
+            ) : orders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-8">Aucun bon de commande</TableCell>
+              </TableRow>
+            ) : (
+              orders.map((order) => {
+                const progress = getReceptionProgress(order)
+                return (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-medium font-mono">{order.reference}</TableCell>
+                    <TableCell className="text-sm">{order.supplier.name}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatDate(order.createdAt)}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatDate(order.orderedAt)}</TableCell>
+                    <TableCell className="text-sm">{progress.received} / {progress.ordered}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatCents(order.totalCents)}</TableCell>
+                    <TableCell>
+                      <Badge variant={getPurchaseOrderStatusVariant(order.status)}>
+                        {PurchaseOrderStatusLabels[order.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" asChild>
+                        <Link to={`/purchase-orders/${order.id}`}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          Voir
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+
+        {data && data.pagination.totalItems > 0 && (
+          <Pagination
+            currentPage={data.pagination.page}
+            totalPages={data.pagination.totalPages}
+            pageSize={data.pagination.pageSize}
+            totalItems={data.pagination.totalItems}
+            onPageChange={setPage}
+            onPageSizeChange={(size) => { setPageSize(size); setPage(1) }}
+            pageSizeOptions={PAGE_SIZE_OPTIONS}
+          />
+        )}
+      </div>
+
+      {isCreating && (
+        <Suspense fallback={null}>
+          <PurchaseOrderFormDialog
+            open={isCreating}
+            onClose={() => setIsCreating(false)}
+            onCreated={(order) => navigate(`/purchase-orders/${order.id}`)}
+          />
+        </Suspense>
+      )}
+    </div>
+  )
+}
+
+export default PurchaseOrdersPage
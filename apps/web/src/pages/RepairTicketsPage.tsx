@@ -0,0 +1,222 @@
+/** @fileoverview Page de suivi des equipements en reparation (prestataire, devis, retour, cout final) */
+import { useState, useDeferredValue } from 'react'
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { CheckCircle2, Search } from 'lucide-react'
+import { useRepairTickets, useUpdateRepairTicket } from '@/lib/hooks/useRepairTickets'
+import { CloseRepairTicketDialog } from '@/components/repairs/CloseRepairTicketDialog'
+import { Pagination } from '@/components/common/Pagination'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  RepairOutcome,
+  RepairTicketStatus,
+  RepairTicketStatusLabels,
+} from '@/lib/types/enums'
+import type { RepairTicket } from '@/lib/types/models.types'
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
+import { formatDate } from '@/lib/utils/formatters'
+import { formatCents } from '@/lib/utils/money'
+
+type TrackingStatus = Exclude<RepairTicketStatus, 'CLOSED'>
+
+const TRACKING_STATUSES = Object.values(RepairTicketStatus).filter(
+  (status): status is TrackingStatus => status !== RepairTicketStatus.CLOSED
+)
+
+function getAssetLabel(ticket: RepairTicket): string {
+  const model = ticket.assetItem?.assetModel
+  const tag = ticket.assetItem?.assetTag ?? 'Sans tag'
+  return model ? `${tag} - ${model.brand} ${model.modelName}` : tag
+}
+
+/**
+ * Durée d'immobilisation en jours, jusqu'à la clôture ou jusqu'à aujourd'hui
+ */
+function getTurnaroundDays(ticket: RepairTicket, now: Date): number {
+  const end = ticket.closedAt ? parseISO(ticket.closedAt) : now
+  return differenceInCalendarDays(end, parseISO(ticket.openedAt))
+}
+
+function isLate(ticket: RepairTicket, now: Date): boolean {
+  return ticket.status !== RepairTicketStatus.CLOSED
+    && !!ticket.expectedReturnAt
+    && parseISO(ticket.expectedReturnAt) < now
+}
+
+export function RepairTicketsPage() {
+  const [view, setView] = useState<'open' | 'closed' | 'all'>('open')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
+  const [closingTicket, setClosingTicket] = useState<RepairTicket | null>(null)
+  const deferredSearch = useDeferredValue(searchTerm)
+
+  const { data, isLoading, error } = useRepairTickets({
+    page,
+    pageSize,
+    ...(view === 'open' ? { open: true } : {}),
+    ...(view === 'closed' ? { status: RepairTicketStatus.CLOSED } : {}),
+    search: deferredSearch.length >= 2 ? deferredSearch : undefined,
+  })
+  const updateRepairTicket = useUpdateRepairTicket()
+
+  const tickets = data?.data ?? []
+  const now = new Date()
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Réparations</h1>
+        <p className="text-muted-foreground mt-2">
+          Suivi des équipements envoyés en réparation. Les tickets s'ouvrent depuis la liste des équipements.
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+        <div className="relative flex-1 w-full sm:max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Rechercher par prestataire, RMA ou tag..."
+            value={searchTerm}
+            onChange={(e) => { setSearchTerm(e.target.value); setPage(1) }}
+            className="pl-10"
+          />
+        </div>
+        <Select value={view} onValueChange={(value) => { setView(value as typeof view); setPage(1) }}>
+          <SelectTrigger className="w-full sm:w-[200px]" aria-label="Filtrer les réparations">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">En cours</SelectItem>
+            <SelectItem value="closed">Clôturées</SelectItem>
+            <SelectItem value="all">Toutes</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Équipement</TableHead>
+              <TableHead>Panne</TableHead>
+              <TableHead>Prestataire</TableHead>
+              <TableHead>Devis / Coût</TableHead>
+              <TableHead>Retour prévu</TableHead>
+              <TableHead>Durée</TableHead>
+              <TableHead>Statut</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-8">Chargement...</TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-destructive py-8">Erreur lors du chargement des réparations</TableCell>
+              </TableRow>
+            ) : tickets.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-8">Aucune réparation</TableCell>
+              </TableRow>
+            ) : (
+              tickets.map((ticket) => (
+                <TableRow key={ticket.id}>
+                  <TableCell className="font-medium">{getAssetLabel(ticket)}</TableCell>
+                  <TableCell className="max-w-xs">
+                    <p className="truncate">{ticket.fault}</p>
+                    <p className="text-xs text-muted-foreground">Ouvert le {formatDate(ticket.openedAt)}</p>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <p>{ticket.vendor ?? '-'}</p>
+                    {ticket.rmaNumber && <p className="text-xs text-muted-foreground">RMA {ticket.rmaNumber}</p>}
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {ticket.status === RepairTicketStatus.CLOSED
+                      ? formatCents(ticket.finalCostCents)
+                      : formatCents(ticket.quoteCents)}
+                  </TableCell>
+                  <TableCell className={`text-sm whitespace-nowrap ${isLate(ticket, now) ? 'text-destructive font-medium' : ''}`}>
+                    {formatDate(ticket.expectedReturnAt)}
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{getTurnaroundDays(ticket, now)} j</TableCell>
+                  <TableCell>
+                    {ticket.status === RepairTicketStatus.CLOSED ? (
+                      <Badge variant={ticket.outcome === RepairOutcome.SCRAPPED ? 'destructive' : 'secondary'}>
+                        {ticket.outcome === RepairOutcome.SCRAPPED ? 'Irréparable' : 'Réparé'}
+                      </Badge>
+                    ) : (
+                      <Select
+                        value={ticket.status}
+                        onValueChange={(status) => updateRepairTicket.mutate({
+                          id: ticket.id,
+                          data: { status: status as TrackingStatus },
+                        })}
+                        disabled={updateRepairTicket.isPending}
+                      >
+                        <SelectTrigger className="w-[190px]" aria-label={`Statut de ${getAssetLabel(ticket)}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TRACKING_STATUSES.map((status) => (
+                            <SelectItem key={status} value={status}>{RepairTicketStatusLabels[status]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {ticket.status !== RepairTicketStatus.CLOSED && (
+                      <Button variant="outline" size="sm" onClick={() => setClosingTicket(ticket)}>
+                        <CheckCircle2 className="h-4 w-4 mr-1" />
+                        Clôturer
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        {data && data.pagination.totalItems > 0 && (
+          <Pagination
+            currentPage={data.pagination.page}
+            totalPages={data.pagination.totalPages}
+            pageSize={data.pagination.pageSize}
+            totalItems={data.pagination.totalItems}
+            onPageChange={setPage}
+            onPageSizeChange={(size) => { setPageSize(size); setPage(1) }}
+            pageSizeOptions={PAGE_SIZE_OPTIONS}
+          />
+        )}
+      </div>
+
+      <CloseRepairTicketDialog
+        ticket={closingTicket}
+        open={!!closingTicket}
+        onClose={() => setClosingTicket(null)}
+      />
+    </div>
+  )
+}
+
+export default RepairTicketsPage
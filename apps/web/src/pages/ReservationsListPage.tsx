@@ -0,0 +1,205 @@
+/** @fileoverview Page de gestion des réservations d'équipements avec conversion en prêt */
+import { useState, lazy, Suspense } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useReservations, useCancelReservation, useConvertReservation } from '@/lib/hooks/useReservations'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Plus, ArrowRight, X } from 'lucide-react'
+import { ReservationStatus, ReservationStatusLabels } from '@/lib/types/enums'
+import type { Reservation } from '@/lib/types/models.types'
+import { formatDate, formatFullName } from '@/lib/utils/formatters'
+
+const ReservationFormDialog = lazy(() => import('@/components/reservations/ReservationFormDialog').then(m => ({ default: m.ReservationFormDialog })))
+
+function getItemLabel(reservation: Reservation): string {
+  if (reservation.assetItem) {
+    const model = reservation.assetItem.assetModel
+    return model
+      ? `${reservation.assetItem.assetTag} - ${model.brand} ${model.modelName}`
+      : reservation.assetItem.assetTag
+  }
+  const model = reservation.stockItem?.assetModel
+  return model ? `${model.brand} ${model.modelName} (x${reservation.quantity})` : `Stock (x${reservation.quantity})`
+}
+
+function getStatusVariant(status: ReservationStatus): 'default' | 'secondary' | 'outline' {
+  switch (status) {
+    case ReservationStatus.ACTIVE: return 'default'
+    case ReservationStatus.CONVERTED: return 'secondary'
+    default: return 'outline'
+  }
+}
+
+export function ReservationsListPage() {
+  const navigate = useNavigate()
+  const [isCreating, setIsCreating] = useState(false)
+  const [statusFilter, setStatusFilter] = useState<string>(ReservationStatus.ACTIVE)
+  const { data: reservations = [], isLoading, error } = useReservations(
+    statusFilter === 'all' ? {} : { status: statusFilter as ReservationStatus }
+  )
+  const cancelReservation = useCancelReservation()
+  const convertReservation = useConvertReservation()
+  const { confirm, dialogProps } = useConfirmDialog()
+
+  const handleCancel = async (reservation: Reservation) => {
+    if (!await confirm({ title: 'Annuler la réservation', description: 'Voulez-vous vraiment annuler cette réservation ?' })) return
+    await cancelReservation.mutateAsync(reservation.id)
+  }
+
+  const handleConvert = async (reservation: Reservation) => {
+    if (!await confirm({ title: 'Convertir en prêt', description: 'Un prêt va être créé pour l\'employé avec l\'article réservé. Continuer ?' })) return
+    const loan = await convertReservation.mutateAsync(reservation.id)
+    navigate(`/loans/${loan.id}`)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Chargement...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <p className="text-destructive">Erreur lors du chargement des réservations</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Réservations</h1>
+        <p className="text-muted-foreground mt-2">
+          Équipements réservés pour des prêts à venir
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-full sm:w-[200px]">
+            <SelectValue placeholder="Filtrer par statut" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tous les statuts</SelectItem>
+            {Object.values(ReservationStatus).map((status) => (
+              <SelectItem key={status} value={status}>{ReservationStatusLabels[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={() => setIsCreating(true)} className="w-full sm:w-auto sm:ml-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Nouvelle réservation
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employé</TableHead>
+              <TableHead>Article</TableHead>
+              <TableHead>Période</TableHead>
+              <TableHead>Statut</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reservations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  Aucune réservation
+                </TableCell>
+              </TableRow>
+            ) : (
+              reservations.map((reservation) => (
+                <TableRow key={reservation.id}>
+                  <TableCell className="font-medium">
+                    {reservation.employee
+                      ? formatFullName(reservation.employee.firstName, reservation.employee.lastName)
+                      : '-'}
+                  </TableCell>
+                  <TableCell>{getItemLabel(reservation)}</TableCell>
+                  <TableCell className="text-sm">
+                    {formatDate(reservation.startDate)} → {formatDate(reservation.endDate)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={getStatusVariant(reservation.status)}>
+                      {ReservationStatusLabels[reservation.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-[200px] truncate">
+                    {reservation.notes || '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {reservation.status === ReservationStatus.ACTIVE ? (
+                      <div className="flex gap-1 justify-end">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleConvert(reservation)}
+                          disabled={convertReservation.isPending}
+                        >
+                          <ArrowRight className="h-4 w-4 mr-1" />
+                          Convertir en prêt
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancel(reservation)}
+                          disabled={cancelReservation.isPending}
+                          title="Annuler la réservation"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : reservation.loanId ? (
+                      <Button variant="link" size="sm" onClick={() => navigate(`/loans/${reservation.loanId}`)}>
+                        Voir le prêt
+                      </Button>
+                    ) : null}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {isCreating && (
+        <Suspense fallback={null}>
+          <ReservationFormDialog open={isCreating} onClose={() => setIsCreating(false)} />
+        </Suspense>
+      )}
+
+      <ConfirmDialog {...dialogProps} />
+    </div>
+  )
+}
+
+export default ReservationsListPage
@@ -1,20 +1,34 @@
-/** @fileoverview Page de consultation des consommables avec alerte de stock bas et recherche */
+/** @fileoverview Page de consultation des consommables avec alerte de stock bas, recherche, journal des mouvements et réapprovisionnement */
 import { useState, useEffect, useDeferredValue, useMemo } from 'react'
 import { useAssetModels } from '@/lib/hooks/useAssetModels'
+import { useStockItems, useStockLedgerDrifts, useReorderList } from '@/lib/hooks/useStockItems'
 import { StockItemsTable } from '@/components/stock/StockItemsTable'
+import { StockLevelsTable } from '@/components/stock/StockLevelsTable'
+import { StockMovementsDialog } from '@/components/stock/StockMovementsDialog'
+import { StockItemFormDialog } from '@/components/stock/StockItemFormDialog'
+import { ReorderListPanel } from '@/components/stock/ReorderListPanel'
 import { Pagination } from '@/components/common/Pagination'
 import { Input } from '@/components/ui/input'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Search, AlertTriangle } from 'lucide-react'
 import { LOW_STOCK_THRESHOLD, DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/utils/constants'
+import type { StockItem } from '@/lib/types/models.types'
 
 export function StockItemsListPage() {
   const { data: models, isLoading, error } = useAssetModels()
   const [searchTerm, setSearchTerm] = useState('')
   const [currentPage, setCurrentPage] = useState(1)
   const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE)
+  const { data: stockItems } = useStockItems()
+  const { data: ledgerDrifts } = useStockLedgerDrifts()
+  const { data: reorderGroups } = useReorderList()
+  const [movementsItemId, setMovementsItemId] = useState<string | null>(null)
+  const [editedItem, setEditedItem] = useState<StockItem | null>(null)
 
   const itemsList = Array.isArray(models) ? models : []
+  // Looked up from the list so the counters follow the recorded movements
+  const movementsItem = stockItems?.find((item) => item.id === movementsItemId)
 
   // Defer search term to avoid blocking UI during typing
   const deferredSearchTerm = useDeferredValue(searchTerm)
@@ -31,6 +45,18 @@ export function StockItemsListPage() {
     [itemsList, deferredSearchTerm]
   )
 
+  const filteredStockItems = useMemo(
+    () =>
+      (stockItems ?? []).filter(
+        (item) =>
+          item.assetModel?.brand?.toLowerCase().includes(deferredSearchTerm.toLowerCase()) ||
+          item.assetModel?.modelName?.toLowerCase().includes(deferredSearchTerm.toLowerCase()) ||
+          item.assetModel?.type?.toLowerCase().includes(deferredSearchTerm.toLowerCase()) ||
+          item.location?.toLowerCase().includes(deferredSearchTerm.toLowerCase())
+      ),
+    [stockItems, deferredSearchTerm]
+  )
+
   const lowStockItems = itemsList.filter(item => (item._count?.items || 0) < LOW_STOCK_THRESHOLD)
 
   // Reset to page 1 when deferred search term changes
@@ -94,6 +120,17 @@ export function StockItemsListPage() {
         </Alert>
       )}
 
+      {ledgerDrifts && ledgerDrifts.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Écart avec le journal des mouvements</AlertTitle>
+          <AlertDescription>
+            {ledgerDrifts.length} article(s) de stock ont des quantités différentes de celles recalculées
+            depuis leurs mouvements : {ledgerDrifts.map((drift) => `${drift.assetModel.brand} ${drift.assetModel.modelName}`).join(', ')}.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
         <div className="relative flex-1 w-full sm:max-w-sm">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -110,21 +147,60 @@ export function StockItemsListPage() {
         </Button> */}
       </div>
 
-      <div className="border rounded-lg">
-        <StockItemsTable items={paginatedItems} />
-
-        {totalItems > 0 && (
-          <Pagination
-            currentPage={currentPage}
-            totalPages={totalPages}
-            pageSize={pageSize}
-            totalItems={totalItems}
-            onPageChange={handlePageChange}
-            onPageSizeChange={handlePageSizeChange}
-            pageSizeOptions={PAGE_SIZE_OPTIONS}
-          />
-        )}
-      </div>
+      <Tabs defaultValue="models">
+        <TabsList>
+          <TabsTrigger value="models">Modèles</TabsTrigger>
+          <TabsTrigger value="stock">Articles de stock ({stockItems?.length ?? 0})</TabsTrigger>
+          <TabsTrigger value="reorder">
+            À commander ({reorderGroups?.reduce((count, group) => count + group.lines.length, 0) ?? 0})
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="models">
+          <div className="border rounded-lg">
+            <StockItemsTable items={paginatedItems} />
+
+            {totalItems > 0 && (
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                pageSize={pageSize}
+                totalItems={totalItems}
+                onPageChange={handlePageChange}
+                onPageSizeChange={handlePageSizeChange}
+                pageSizeOptions={PAGE_SIZE_OPTIONS}
+              />
+            )}
+          </div>
+        </TabsContent>
+        <TabsContent value="stock">
+          <div className="border rounded-lg">
+            <StockLevelsTable
+              items={filteredStockItems}
+              onShowMovements={(item) => setMovementsItemId(item.id)}
+              onEdit={setEditedItem}
+            />
+          </div>
+        </TabsContent>
+        <TabsContent value="reorder">
+          <ReorderListPanel />
+        </TabsContent>
+      </Tabs>
+
+      {movementsItem && (
+        <StockMovementsDialog
+          item={movementsItem}
+          open={!!movementsItem}
+          onClose={() => setMovementsItemId(null)}
+        />
+      )}
+
+      {editedItem && (
+        <StockItemFormDialog
+          item={editedItem}
+          open={!!editedItem}
+          onClose={() => setEditedItem(null)}
+        />
+      )}
     </div>
   )
 }
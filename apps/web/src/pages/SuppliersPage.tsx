@@ -0,0 +1,146 @@
+/** @fileoverview Page de gestion des fournisseurs */
+import { useState, lazy, Suspense } from 'react'
+import { useSuppliers, useDeleteSupplier } from '@/lib/hooks/useSuppliers'
+import { useConfirmDialog } from '@/lib/hooks/useConfirmDialog'
+import { useAuth } from '@/lib/hooks/useAuth'
+import { ConfirmDialog } from '@/components/common/ConfirmDialog'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Plus, Pencil, Trash2 } from 'lucide-react'
+import { UserRole } from '@/lib/types/enums'
+import type { Supplier } from '@/lib/types/models.types'
+
+const SupplierFormDialog = lazy(() => import('@/components/suppliers/SupplierFormDialog').then(m => ({ default: m.SupplierFormDialog })))
+
+export function SuppliersPage() {
+  // undefined: closed, null: creating, Supplier: editing
+  const [editedSupplier, setEditedSupplier] = useState<Supplier | null | undefined>(undefined)
+  const { user } = useAuth()
+  const { data: suppliers = [], isLoading, error } = useSuppliers()
+  const deleteSupplier = useDeleteSupplier()
+  const { confirm, dialogProps } = useConfirmDialog()
+  const isAdmin = user?.role === UserRole.ADMIN
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!await confirm({ title: 'Supprimer le fournisseur', description: `Voulez-vous vraiment supprimer le fournisseur « ${supplier.name} » ?` })) return
+    await deleteSupplier.mutateAsync(supplier.id)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Chargement...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <p className="text-destructive">Erreur lors du chargement des fournisseurs</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Fournisseurs</h1>
+          <p className="text-muted-foreground mt-2">
+            Fournisseurs référencés dans les données d'achat des équipements
+          </p>
+        </div>
+        <Button onClick={() => setEditedSupplier(null)} className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Nouveau fournisseur
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nom</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Équipements</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {suppliers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                  Aucun fournisseur
+                </TableCell>
+              </TableRow>
+            ) : (
+              suppliers.map((supplier) => {
+                const itemCount = supplier._count?.assetItems ?? 0
+                return (
+                  <TableRow key={supplier.id}>
+                    <TableCell>
+                      <p className="font-medium">{supplier.name}</p>
+                      {supplier.notes && (
+                        <p className="text-xs text-muted-foreground">{supplier.notes}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{supplier.contactName ?? '-'}</p>
+                      {(supplier.email || supplier.phone) && (
+                        <p className="text-xs text-muted-foreground">
+                          {[supplier.email, supplier.phone].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{itemCount}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex gap-1 justify-end">
+                        <Button variant="ghost" size="sm" onClick={() => setEditedSupplier(supplier)} title="Modifier le fournisseur">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {isAdmin && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(supplier)}
+                            disabled={deleteSupplier.isPending || itemCount > 0}
+                            title={itemCount > 0 ? 'Fournisseur référencé par des équipements' : 'Supprimer le fournisseur'}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {editedSupplier !== undefined && (
+        <Suspense fallback={null}>
+          <SupplierFormDialog supplier={editedSupplier} open={true} onClose={() => setEditedSupplier(undefined)} />
+        </Suspense>
+      )}
+
+      <ConfirmDialog {...dialogProps} />
+    </div>
+  )
+}
+
+export default SuppliersPage
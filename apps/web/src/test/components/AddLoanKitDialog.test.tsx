@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Unit tests for AddLoanKitDialog component
+ *
+ * Tests:
+ * - Kit components preview
+ * - Dialog closes when the whole kit was added
+ * - Missing components listed after a partial add
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { AddLoanKitDialog } from '@/components/loans/AddLoanKitDialog'
+import * as useLoansHook from '@/lib/hooks/useLoans'
+import * as useLoanKitsHook from '@/lib/hooks/useLoanKits'
+import type { LoanKit } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useLoans')
+vi.mock('@/lib/hooks/useLoanKits')
+
+// Replace the Radix select by a native one
+vi.mock('@/components/ui/select', () => ({
+  Select: ({ children, onValueChange, value }: any) => (
+    <select aria-label="Kit" value={value} onChange={(e) => onValueChange?.(e.target.value)}>
+      <option value="">-</option>
+      {children}
+    </select>
+  ),
+  SelectContent: ({ children }: any) => <>{children}</>,
+  SelectItem: ({ children, value }: any) => <option value={value}>{children}</option>,
+  SelectTrigger: () => null,
+  SelectValue: () => null,
+}))
+
+const mockKit: LoanKit = {
+  id: 'kit1',
+  name: 'Kit télétravail',
+  description: 'Pour les nouveaux arrivants',
+  createdAt: '2024-01-01T10:00:00Z',
+  updatedAt: '2024-01-01T10:00:00Z',
+  items: [
+    {
+      id: 'kitItem1',
+      kitId: 'kit1',
+      assetModelId: 'model1',
+      stockItemId: null,
+      quantity: 1,
+      assetModel: { id: 'model1', type: 'Laptop', brand: 'Dell', modelName: 'Latitude 5440', createdAt: '', updatedAt: '' },
+    },
+    {
+      id: 'kitItem2',
+      kitId: 'kit1',
+      assetModelId: null,
+      stockItemId: 'stock1',
+      quantity: 2,
+      stockItem: {
+        id: 'stock1',
+        assetModelId: 'model2',
+        quantity: 10,
+        loaned: 0,
+        notes: null,
+        createdAt: '',
+        updatedAt: '',
+        assetModel: { id: 'model2', type: 'Câble', brand: 'Belkin', modelName: 'USB-C', createdAt: '', updatedAt: '' },
+      },
+    },
+  ],
+}
+
+describe('AddLoanKitDialog', () => {
+  let mockMutateAsync: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockMutateAsync = vi.fn().mockResolvedValue({ loan: { id: 'loan1' }, missing: [] })
+    vi.mocked(useLoansHook.useAddLoanKit).mockReturnValue({
+      mutateAsync: mockMutateAsync,
+      isPending: false,
+    } as any)
+    vi.mocked(useLoanKitsHook.useLoanKits).mockReturnValue({
+      data: [mockKit],
+      isLoading: false,
+    } as any)
+  })
+
+  it('should preview the selected kit components', async () => {
+    const user = userEvent.setup()
+    render(<AddLoanKitDialog loanId="loan1" open={true} onClose={vi.fn()} />)
+
+    expect(screen.getByRole('button', { name: /ajouter le kit/i })).toBeDisabled()
+
+    await user.selectOptions(screen.getByLabelText('Kit'), 'kit1')
+
+    expect(screen.getByText('Dell Latitude 5440 (équipement) x1')).toBeInTheDocument()
+    expect(screen.getByText('Belkin USB-C (consommable) x2')).toBeInTheDocument()
+  })
+
+  it('should close once the whole kit is added', async () => {
+    const user = userEvent.setup()
+    const onClose = vi.fn()
+    render(<AddLoanKitDialog loanId="loan1" open={true} onClose={onClose} />)
+
+    await user.selectOptions(screen.getByLabelText('Kit'), 'kit1')
+    await user.click(screen.getByRole('button', { name: /ajouter le kit/i }))
+
+    expect(mockMutateAsync).toHaveBeenCalledWith({ loanId: 'loan1', kitId: 'kit1' })
+    expect(onClose).toHaveBeenCalled()
+  })
+
+  it('should list the missing components after a partial add', async () => {
+    mockMutateAsync.mockResolvedValue({
+      loan: { id: 'loan1' },
+      missing: [{ kitItemId: 'kitItem1', label: 'Dell Latitude 5440', requested: 1, added: 0 }],
+    })
+    const user = userEvent.setup()
+    const onClose = vi.fn()
+    render(<AddLoanKitDialog loanId="loan1" open={true} onClose={onClose} />)
+
+    await user.selectOptions(screen.getByLabelText('Kit'), 'kit1')
+    await user.click(screen.getByRole('button', { name: /ajouter le kit/i }))
+
+    expect(onClose).not.toHaveBeenCalled()
+    expect(screen.getByText('Kit ajouté partiellement')).toBeInTheDocument()
+    expect(screen.getByText('Dell Latitude 5440 : 0/1 ajouté(s)')).toBeInTheDocument()
+  })
+})
@@ -199,6 +199,42 @@ describe('AssetItemsTable', () => {
 
       // Dialog should open (DeleteAssetItemDialog component)
     });
+
+    it('should offer to send items to repair unless they are loaned', () => {
+      render(<AssetItemsTable items={mockAssetItems} />, { wrapper: createWrapper() });
+
+      const repairButtons = screen.getAllByRole('button', { name: 'Envoyer en réparation' });
+
+      expect(repairButtons).toHaveLength(3);
+      expect(repairButtons[0]).not.toBeDisabled();
+      expect(repairButtons[1]).toBeDisabled(); // MON-002 is PRETE
+      expect(repairButtons[2]).not.toBeDisabled();
+    });
+
+    it('should offer to retire items only when in stock or out of service', () => {
+      const items: AssetItem[] = [
+        ...mockAssetItems.slice(0, 3),
+        { ...mockAssetItems[0], id: 'item4', assetTag: 'LAP-004', status: 'REFORME' },
+      ];
+      render(<AssetItemsTable items={items} />, { wrapper: createWrapper() });
+
+      const retireButtons = screen.getAllByRole('button', { name: 'Réformer' });
+
+      expect(retireButtons).toHaveLength(4);
+      expect(retireButtons[0]).not.toBeDisabled();
+      expect(retireButtons[1]).toBeDisabled(); // MON-002 is PRETE
+      expect(retireButtons[2]).not.toBeDisabled();
+      expect(retireButtons[3]).toBeDisabled(); // Already retired
+    });
+
+    it('should offer to print the label of every item', () => {
+      render(<AssetItemsTable items={mockAssetItems} />, { wrapper: createWrapper() });
+
+      const printButtons = screen.getAllByRole('button', { name: 'Imprimer l\'étiquette' });
+
+      expect(printButtons).toHaveLength(3);
+      printButtons.forEach((button) => expect(button).not.toBeDisabled());
+    });
   });
 
   describe('Selection', () => {
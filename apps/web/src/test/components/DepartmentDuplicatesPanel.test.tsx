@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Unit tests for DepartmentDuplicatesPanel component
+ *
+ * Tests:
+ * - Duplicate groups with the suggested target
+ * - Merge of the checked spellings after confirmation
+ * - Read-only view for non-admins
+ * - Empty state
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { DepartmentDuplicatesPanel } from '@/components/departments/DepartmentDuplicatesPanel'
+import * as useDepartmentsHook from '@/lib/hooks/useDepartments'
+import type { Department, DepartmentDuplicateGroup } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useDepartments')
+
+const department = (id: string, name: string, employees: number): Department => ({
+  id,
+  name,
+  companyId: 'company-1',
+  company: { id: 'company-1', name: 'Tilly' },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  _count: { employees },
+})
+
+const mockGroups: DepartmentDuplicateGroup[] = [
+  {
+    suggestedTargetId: 'd1',
+    departments: [department('d1', 'Woippy', 12), department('d2', 'Woipy', 1), department('d3', 'woippy', 2)],
+  },
+]
+
+const mockMutateAsync = vi.fn()
+
+describe('DepartmentDuplicatesPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(useDepartmentsHook.useDepartmentDuplicates).mockReturnValue({
+      data: mockGroups,
+      isLoading: false,
+      error: null,
+    } as any)
+    vi.mocked(useDepartmentsHook.useMergeDepartments).mockReturnValue({
+      mutateAsync: mockMutateAsync,
+      isPending: false,
+    } as any)
+  })
+
+  it('should list each spelling with its employee count', () => {
+    render(<DepartmentDuplicatesPanel canMerge={true} />)
+
+    expect(screen.getByText('Tilly · 3 orthographes')).toBeInTheDocument()
+    expect(screen.getByText('Woipy')).toBeInTheDocument()
+    expect(screen.getByText('· 12 employé(s)')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Fusionner dans « Woippy »/ })).toBeInTheDocument()
+  })
+
+  it('should merge only the checked spellings into the target', async () => {
+    const user = userEvent.setup()
+    render(<DepartmentDuplicatesPanel canMerge={true} />)
+
+    await user.click(screen.getByLabelText('Fusionner', { selector: '#merge-d3' }))
+    await user.click(screen.getByRole('button', { name: /Fusionner dans « Woippy »/ }))
+    await user.click(await screen.findByRole('button', { name: 'Confirmer' }))
+
+    await waitFor(() => {
+      expect(mockMutateAsync).toHaveBeenCalledWith({ id: 'd1', sourceIds: ['d2'] })
+    })
+  })
+
+  it('should not offer the merge to non-admins', () => {
+    render(<DepartmentDuplicatesPanel canMerge={false} />)
+
+    expect(screen.getByText('La fusion des départements est réservée aux administrateurs.')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Fusionner dans/ })).not.toBeInTheDocument()
+  })
+
+  it('should show an empty state without duplicates', () => {
+    vi.mocked(useDepartmentsHook.useDepartmentDuplicates).mockReturnValue({ data: [], isLoading: false, error: null } as any)
+
+    render(<DepartmentDuplicatesPanel canMerge={true} />)
+
+    expect(screen.getByText('Aucun doublon probable entre les départements.')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Unit tests for DirectorySyncCard component
+ *
+ * Tests:
+ * - Hint when the directory is not configured
+ * - Settings, schedule and counts of the last run
+ * - Run on demand after confirmation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { DirectorySyncCard } from '@/components/employees/DirectorySyncCard'
+import * as useDirectorySyncHook from '@/lib/hooks/useDirectorySync'
+import type { DirectorySyncStatus } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useDirectorySync')
+
+const mockStatus: DirectorySyncStatus = {
+  configured: true,
+  url: 'ldap://dc01.example.org',
+  bindDn: 'CN=svc-inventaire,DC=example,DC=org',
+  baseDn: 'OU=Utilisateurs,DC=example,DC=org',
+  filter: '(&(objectClass=person)(mail=*))',
+  startTls: false,
+  attributes: {
+    firstName: 'givenName',
+    lastName: 'sn',
+    email: 'mail',
+    dept: 'department',
+    company: 'company',
+    manager: 'manager',
+    disabled: 'userAccountControl',
+  },
+  job: {
+    schedule: '0 6 * * *',
+    nextRunAt: '2026-10-20T06:00:00.000Z',
+    running: false,
+    history: [
+      {
+        startedAt: '2026-10-19T06:00:00.000Z',
+        finishedAt: '2026-10-19T06:00:02.000Z',
+        durationMs: 2000,
+        status: 'SUCCESS',
+        trigger: 'schedule',
+        result: {
+          entries: 240,
+          created: 3,
+          updated: 5,
+          disabled: 2,
+          unchanged: 228,
+          archived: 1,
+          skipped: 0,
+          errorCount: 1,
+          errors: [{ dn: 'CN=Salle Reunion,DC=example,DC=org', error: 'Prénom, nom ou email manquant' }],
+        },
+        error: null,
+        instance: 'api-1',
+      },
+    ],
+  },
+}
+
+const mockMutateAsync = vi.fn()
+
+function mockDirectorySync(status: DirectorySyncStatus) {
+  vi.mocked(useDirectorySyncHook.useDirectorySync).mockReturnValue({
+    data: status,
+    isLoading: false,
+    error: null,
+  } as any)
+}
+
+describe('DirectorySyncCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockDirectorySync(mockStatus)
+    vi.mocked(useDirectorySyncHook.useRunDirectorySync).mockReturnValue({
+      mutateAsync: mockMutateAsync,
+      isPending: false,
+    } as any)
+  })
+
+  it('should explain how to configure the directory', () => {
+    mockDirectorySync({ ...mockStatus, configured: false, url: null, baseDn: null, job: { ...mockStatus.job, history: [] } })
+
+    render(<DirectorySyncCard />)
+
+    expect(screen.getByText(/Non configuré : renseignez LDAP_URL et LDAP_BASE_DN/)).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Synchroniser maintenant/ })).not.toBeInTheDocument()
+  })
+
+  it('should show the settings and the counts of the last run', () => {
+    render(<DirectorySyncCard />)
+
+    expect(screen.getByText('ldap://dc01.example.org · OU=Utilisateurs,DC=example,DC=org')).toBeInTheDocument()
+    expect(screen.getByText('0 6 * * *')).toBeInTheDocument()
+    expect(screen.getByText('Réussie')).toBeInTheDocument()
+    expect(
+      screen.getByText("240 compte(s) lu(s) · 3 créé(s) · 5 mis à jour · 2 désactivé(s) · 1 archivé(s) dans l'application, non réactivé(s)")
+    ).toBeInTheDocument()
+    expect(screen.getByText('CN=Salle Reunion,DC=example,DC=org : Prénom, nom ou email manquant')).toBeInTheDocument()
+  })
+
+  it('should run the synchronization after confirmation', async () => {
+    const user = userEvent.setup()
+    render(<DirectorySyncCard />)
+
+    await user.click(screen.getByRole('button', { name: /Synchroniser maintenant/ }))
+    await user.click(await screen.findByRole('button', { name: 'Confirmer' }))
+
+    await waitFor(() => {
+      expect(mockMutateAsync).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -4,6 +4,16 @@ import userEvent from '@testing-library/user-event';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { EmployeeFormDialog } from '@/components/employees/EmployeeFormDialog';
 
+vi.mock('@/lib/hooks/useDepartments', () => ({
+  useDepartments: () => ({
+    data: [
+      { id: 'dept-hr', name: 'HR', companyId: 'company-1', company: { id: 'company-1', name: 'Tilly' } },
+      { id: 'dept-it', name: 'IT', companyId: null, company: null },
+    ],
+    isLoading: false,
+  }),
+}));
+
 /**
  * Tests for EmployeeFormDialog component
  * Tests form validation, submission, and error handling
@@ -103,7 +113,6 @@ describe('EmployeeFormDialog', () => {
     await user.type(screen.getByLabelText('Prénom'), 'John');
     await user.type(screen.getByLabelText('Nom'), 'Doe');
     await user.type(screen.getByLabelText(/email/i), 'john.doe@example.com');
-    await user.type(screen.getByLabelText(/département/i), 'IT');
 
     await user.click(screen.getByRole('button', { name: /créer/i }));
 
@@ -119,6 +128,7 @@ describe('EmployeeFormDialog', () => {
       lastName: 'Smith',
       email: 'jane.smith@example.com',
       dept: 'HR',
+      departmentId: 'dept-hr',
     };
 
     render(
@@ -130,7 +140,7 @@ describe('EmployeeFormDialog', () => {
     expect(screen.getByLabelText('Prénom')).toHaveValue('Jane');
     expect(screen.getByLabelText('Nom')).toHaveValue('Smith');
     expect(screen.getByLabelText(/email/i)).toHaveValue('jane.smith@example.com');
-    expect(screen.getByLabelText(/département/i)).toHaveValue('HR');
+    expect(screen.getByLabelText(/département/i)).toHaveTextContent('HR (Tilly)');
   });
 
   it('should show "Modifier" button when editing', () => {
@@ -140,6 +150,7 @@ describe('EmployeeFormDialog', () => {
       lastName: 'Smith',
       email: 'jane.smith@example.com',
       dept: 'HR',
+      departmentId: 'dept-hr',
     };
 
     render(
@@ -177,7 +188,6 @@ describe('EmployeeFormDialog', () => {
     await user.type(screen.getByLabelText('Prénom'), 'John');
     await user.type(screen.getByLabelText('Nom'), 'Doe');
     await user.type(screen.getByLabelText(/email/i), 'john.doe@example.com');
-    await user.type(screen.getByLabelText(/département/i), 'IT');
 
     await user.click(screen.getByRole('button', { name: /créer/i }));
 
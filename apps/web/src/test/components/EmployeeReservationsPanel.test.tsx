@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Unit tests for EmployeeReservationsPanel component
+ *
+ * Tests:
+ * - Hidden without employee or active reservation
+ * - Active reservations listing
+ * - Conversion into a loan
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { EmployeeReservationsPanel } from '@/components/reservations/EmployeeReservationsPanel'
+import * as useReservationsHook from '@/lib/hooks/useReservations'
+import type { Reservation } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useReservations')
+
+const mockReservation: Reservation = {
+  id: 'res1',
+  employeeId: 'emp1',
+  assetItemId: 'asset1',
+  stockItemId: null,
+  quantity: 1,
+  startDate: '2026-11-02T00:00:00Z',
+  endDate: '2026-11-30T22:59:59Z',
+  status: 'ACTIVE',
+  notes: null,
+  loanId: null,
+  createdById: 'user1',
+  createdAt: '2026-10-19T10:00:00Z',
+  updatedAt: '2026-10-19T10:00:00Z',
+  assetItem: {
+    id: 'asset1',
+    assetTag: 'LAP-001',
+    serial: 'SN1',
+    status: 'EN_STOCK',
+    notes: null,
+    assetModelId: 'model1',
+    createdAt: '2024-01-01T10:00:00Z',
+    updatedAt: '2024-01-01T10:00:00Z',
+    assetModel: {
+      id: 'model1',
+      type: 'LAPTOP',
+      brand: 'Dell',
+      modelName: 'Latitude 5440',
+    } as any,
+  },
+}
+
+describe('EmployeeReservationsPanel', () => {
+  let mockMutateAsync: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockMutateAsync = vi.fn().mockResolvedValue({ id: 'loan1' })
+    vi.mocked(useReservationsHook.useReservations).mockReturnValue({ data: [mockReservation] } as any)
+    vi.mocked(useReservationsHook.useConvertReservation).mockReturnValue({
+      mutateAsync: mockMutateAsync,
+      isPending: false,
+    } as any)
+  })
+
+  it('should render nothing without active reservation', () => {
+    vi.mocked(useReservationsHook.useReservations).mockReturnValue({ data: [] } as any)
+
+    const { container } = render(<EmployeeReservationsPanel employeeId="emp1" onConverted={vi.fn()} />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should query active reservations of the employee', () => {
+    render(<EmployeeReservationsPanel employeeId="emp1" onConverted={vi.fn()} />)
+
+    expect(useReservationsHook.useReservations).toHaveBeenCalledWith(
+      { employeeId: 'emp1', status: 'ACTIVE' },
+      { enabled: true }
+    )
+    expect(screen.getByText('LAP-001 - Dell Latitude 5440')).toBeInTheDocument()
+    expect(screen.getByText(/Du 02\/11\/2026 au/)).toBeInTheDocument()
+  })
+
+  it('should convert the reservation and report the new loan', async () => {
+    const user = userEvent.setup()
+    const onConverted = vi.fn()
+    render(<EmployeeReservationsPanel employeeId="emp1" onConverted={onConverted} />)
+
+    await user.click(screen.getByRole('button', { name: /convertir en prêt/i }))
+
+    expect(mockMutateAsync).toHaveBeenCalledWith('res1')
+    expect(onConverted).toHaveBeenCalledWith('loan1')
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Unit tests for EmployeeSyncReview component
+ *
+ * Tests:
+ * - Differences grouped by type with their details
+ * - Per-row and per-group acceptance
+ * - Unusable rows of the file
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { EmployeeSyncReview } from '@/components/employees/EmployeeSyncReview'
+import type { EmployeeImportPreview } from '@/lib/types/models.types'
+
+const preview: EmployeeImportPreview = {
+  totalRows: 4,
+  summary: { new: 1, changed: 1, missing: 2, unchanged: 1, errors: 1 },
+  entries: [
+    {
+      key: 'row:2',
+      type: 'NEW',
+      rowNumber: 3,
+      name: 'Luc Petit',
+      data: { firstName: 'Luc', lastName: 'Petit', email: null, dept: 'Metz', company: 'Tilly' },
+      changes: [],
+    },
+    {
+      key: 'employee:emp-2',
+      type: 'CHANGED',
+      rowNumber: 2,
+      name: 'Marie Martin',
+      employeeId: 'emp-2',
+      changes: [{ field: 'dept', from: 'Woippy', to: 'Metz' }],
+    },
+    { key: 'employee:emp-3', type: 'MISSING', name: 'Paul Leroy', employeeId: 'emp-3', dept: 'Woippy', outstandingLines: 2, changes: [] },
+    { key: 'employee:emp-4', type: 'MISSING', name: 'Anne Roux', employeeId: 'emp-4', dept: null, outstandingLines: 0, changes: [] },
+  ],
+  errors: [{ rowNumber: 5, name: 'Martin', error: 'Nom ou Prénom manquant' }],
+}
+
+describe('EmployeeSyncReview', () => {
+  it('should list the differences grouped by type', () => {
+    render(<EmployeeSyncReview preview={preview} acceptedKeys={['row:2', 'employee:emp-2']} onAcceptedKeysChange={vi.fn()} />)
+
+    expect(screen.getByText('Nouveaux employés (1/1)')).toBeInTheDocument()
+    expect(screen.getByText('Metz · Tilly')).toBeInTheDocument()
+    expect(screen.getByText('Département : Woippy → Metz')).toBeInTheDocument()
+    expect(screen.getByText('Absents du fichier (départs probables) (0/2)')).toBeInTheDocument()
+    expect(screen.getByText('2 article(s) en prêt : départ ouvert')).toBeInTheDocument()
+    expect(screen.getByText('Sera archivé')).toBeInTheDocument()
+    expect(screen.getByText('Ligne 5 - Martin : Nom ou Prénom manquant')).toBeInTheDocument()
+  })
+
+  it('should accept or reject a single row', async () => {
+    const user = userEvent.setup()
+    const onAcceptedKeysChange = vi.fn()
+    render(<EmployeeSyncReview preview={preview} acceptedKeys={['row:2', 'employee:emp-2']} onAcceptedKeysChange={onAcceptedKeysChange} />)
+
+    await user.click(screen.getByRole('checkbox', { name: 'Accepter Marie Martin' }))
+    expect(onAcceptedKeysChange).toHaveBeenLastCalledWith(['row:2'])
+
+    await user.click(screen.getByRole('checkbox', { name: 'Accepter Anne Roux' }))
+    expect(onAcceptedKeysChange).toHaveBeenLastCalledWith(['row:2', 'employee:emp-2', 'employee:emp-4'])
+  })
+
+  it('should accept a whole group at once', async () => {
+    const user = userEvent.setup()
+    const onAcceptedKeysChange = vi.fn()
+    render(<EmployeeSyncReview preview={preview} acceptedKeys={['row:2']} onAcceptedKeysChange={onAcceptedKeysChange} />)
+
+    await user.click(screen.getByRole('checkbox', { name: 'Tout accepter : Absents du fichier (départs probables)' }))
+
+    expect(onAcceptedKeysChange).toHaveBeenCalledWith(['row:2', 'employee:emp-3', 'employee:emp-4'])
+  })
+})
@@ -144,6 +144,22 @@ describe('EmployeesTable', () => {
     });
   });
 
+  describe('Archiving', () => {
+    it('should offer reactivation for archived employees', () => {
+      const archived: Employee = {
+        ...mockEmployees[0],
+        departureDate: '2026-10-31T00:00:00Z',
+        archivedAt: '2026-11-02T10:00:00Z',
+      };
+      render(<EmployeesTable employees={[archived, mockEmployees[1]]} />, { wrapper: createWrapper() });
+
+      expect(screen.getByText('Parti')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Réactiver John Doe' })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Archiver John Doe' })).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Archiver Jane Smith' })).toBeInTheDocument();
+    });
+  });
+
   describe('Selection', () => {
     it('should render checkbox column when onSelectionChange is provided', () => {
       const onSelectionChange = vi.fn();
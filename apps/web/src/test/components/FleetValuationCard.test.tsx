@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Unit tests for FleetValuationCard
+ *
+ * Tests:
+ * - Totals and rows by type with their depreciation period
+ * - Departments shown with their company, unassigned items labelled
+ * - Hidden for read-only users
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FleetValuationCard } from '@/components/dashboard/FleetValuationCard'
+import * as useDashboardHook from '@/lib/hooks/useDashboard'
+import * as useAuthHook from '@/lib/hooks/useAuth'
+
+vi.mock('@/lib/hooks/useDashboard')
+vi.mock('@/lib/hooks/useAuth')
+
+const valuation = {
+  valuedAt: '2026-10-19T08:00:00.000Z',
+  totals: { itemCount: 3, purchaseValueCents: 260000, currentValueCents: 80000 },
+  byType: [
+    { type: 'Ordinateur portable', depreciationYears: 3, itemCount: 2, purchaseValueCents: 240000, currentValueCents: 60000 },
+    { type: 'Écran', depreciationYears: null, itemCount: 1, purchaseValueCents: 20000, currentValueCents: 20000 },
+  ],
+  byDepartment: [
+    { departmentId: 'dept-1', department: 'Comptabilité', company: 'Acme Metz', itemCount: 1, purchaseValueCents: 120000, currentValueCents: 40000 },
+    { departmentId: 'dept-2', department: 'Comptabilité', company: 'Acme Nancy', itemCount: 1, purchaseValueCents: 120000, currentValueCents: 20000 },
+    { departmentId: null, department: null, company: null, itemCount: 1, purchaseValueCents: 20000, currentValueCents: 20000 },
+  ],
+}
+
+function mockRole(role: string) {
+  vi.mocked(useAuthHook.useAuth).mockReturnValue({ user: { id: 'user-1', email: 'u@example.com', role } } as any)
+}
+
+describe('FleetValuationCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockRole('GESTIONNAIRE')
+    vi.mocked(useDashboardHook.useFleetValuation).mockReturnValue({ data: valuation, isLoading: false, error: null } as any)
+  })
+
+  it('should show totals and the valuation by type', () => {
+    render(<FleetValuationCard />)
+
+    expect(screen.getByText('Valorisation du parc')).toBeDefined()
+    expect(screen.getByText(/au 19\/10\/2026/)).toBeDefined()
+    expect(screen.getByText('Ordinateur portable')).toBeDefined()
+    expect(screen.getByText('Amorti sur 3 ans')).toBeDefined()
+    expect(screen.getByText('Non amorti')).toBeDefined()
+    expect(useDashboardHook.useFleetValuation).toHaveBeenCalledWith(true)
+  })
+
+  it('should show departments with their company and label unassigned items', async () => {
+    const user = userEvent.setup()
+    render(<FleetValuationCard />)
+
+    await user.click(screen.getByRole('tab', { name: 'Par département' }))
+
+    expect(screen.getAllByText('Comptabilité')).toHaveLength(2)
+    expect(screen.getByText('Acme Metz')).toBeDefined()
+    expect(screen.getByText('Acme Nancy')).toBeDefined()
+    expect(screen.getByText('Non affecté')).toBeDefined()
+  })
+
+  it('should not be shown to read-only users', () => {
+    mockRole('LECTURE')
+    const { container } = render(<FleetValuationCard />)
+
+    expect(container.innerHTML).toBe('')
+    expect(useDashboardHook.useFleetValuation).toHaveBeenCalledWith(false)
+  })
+})
@@ -21,6 +21,11 @@ import * as useEmployeesHook from '@/lib/hooks/useEmployees'
 vi.mock('@/lib/hooks/useLoans')
 vi.mock('@/lib/hooks/useEmployees')
 
+// Reservations of the selected employee are covered by EmployeeReservationsPanel tests
+vi.mock('@/components/reservations/EmployeeReservationsPanel', () => ({
+  EmployeeReservationsPanel: () => null,
+}))
+
 // Mock the UI components
 vi.mock('@/components/ui/dialog', () => ({
   Dialog: ({ open, children, onOpenChange }: any) =>
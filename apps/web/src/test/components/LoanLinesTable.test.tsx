@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { LoanLinesTable } from '@/components/loans/LoanLinesTable';
+import type { Loan } from '@/lib/types/models.types';
+
+/**
+ * Tests for LoanLinesTable component
+ * Tests rendering of outstanding/returned lines and line actions (desktop view)
+ */
+
+const mockLoan: Loan = {
+  id: 'loan1',
+  employeeId: 'emp1',
+  status: 'OPEN',
+  pickupSignatureUrl: null,
+  pickupSignedAt: null,
+  returnSignatureUrl: null,
+  returnSignedAt: null,
+  dueAt: null,
+  closedAt: null,
+  createdAt: '2024-01-15T10:00:00Z',
+  updatedAt: '2024-01-15T10:00:00Z',
+  lines: [
+    {
+      id: 'line1',
+      loanId: 'loan1',
+      assetItemId: 'asset1',
+      stockItemId: null,
+      quantity: 1,
+      dueAt: null,
+      returnedAt: null,
+      returnCondition: null,
+      returnNote: null,
+      addedAt: '2024-01-15T10:00:00Z',
+      createdAt: '2024-01-15T10:00:00Z',
+      assetItem: {
+        id: 'asset1',
+        assetTag: 'LAP-001',
+        serial: 'SN1',
+        status: 'PRETE',
+        notes: null,
+        assetModelId: 'model1',
+        createdAt: '2024-01-01T10:00:00Z',
+        updatedAt: '2024-01-01T10:00:00Z',
+      },
+    },
+    {
+      id: 'line2',
+      loanId: 'loan1',
+      assetItemId: 'asset2',
+      stockItemId: null,
+      quantity: 1,
+      dueAt: null,
+      returnedAt: '2024-01-20T10:00:00Z',
+      returnCondition: 'DAMAGED',
+      returnNote: 'Connecteur tordu',
+      addedAt: '2024-01-15T10:00:00Z',
+      createdAt: '2024-01-15T10:00:00Z',
+      assetItem: {
+        id: 'asset2',
+        assetTag: 'DOCK-001',
+        serial: 'SN2',
+        status: 'EN_STOCK',
+        notes: null,
+        assetModelId: 'model2',
+        createdAt: '2024-01-01T10:00:00Z',
+        updatedAt: '2024-01-01T10:00:00Z',
+      },
+    },
+  ],
+};
+
+const renderTable = (loan: Loan = mockLoan, isOpen = true) => {
+  const props = {
+    loan,
+    isOpen,
+    onAddLine: vi.fn(),
+    onRemoveLine: vi.fn(),
+    isRemoving: false,
+    onReturnLine: vi.fn(),
+    isReturning: false,
+  };
+  render(<LoanLinesTable {...props} />);
+  return props;
+};
+
+describe('LoanLinesTable', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should keep returned lines visible with their return date', () => {
+    renderTable();
+
+    const rows = screen.getAllByRole('row');
+    expect(within(rows[2]).getByText(/DOCK-001/)).toBeInTheDocument();
+    expect(within(rows[2]).getByText('Retourné le 20/01/2024')).toBeInTheDocument();
+    expect(screen.getByText(/dont 1 retourné\(s\)/)).toBeInTheDocument();
+  });
+
+  it('should display the return condition and note of returned lines', () => {
+    renderTable();
+
+    const rows = screen.getAllByRole('row');
+    expect(within(rows[2]).getByText('Endommagé')).toBeInTheDocument();
+    expect(within(rows[2]).getByText('Connecteur tordu')).toBeInTheDocument();
+  });
+
+  it('should only offer return/remove actions on outstanding lines', () => {
+    renderTable();
+
+    const rows = screen.getAllByRole('row');
+    expect(within(rows[1]).getByTitle('Marquer comme retourné')).toBeInTheDocument();
+    expect(within(rows[2]).queryByTitle('Marquer comme retourné')).not.toBeInTheDocument();
+    expect(within(rows[2]).queryByTitle('Retirer du prêt')).not.toBeInTheDocument();
+  });
+
+  it('should call onReturnLine with the line id', async () => {
+    const user = userEvent.setup();
+    const props = renderTable();
+
+    await user.click(screen.getByTitle('Marquer comme retourné'));
+
+    expect(props.onReturnLine).toHaveBeenCalledWith('line1');
+  });
+
+  it('should hide actions when loan is closed', () => {
+    renderTable({ ...mockLoan, status: 'CLOSED' }, false);
+
+    expect(screen.queryByTitle('Marquer comme retourné')).not.toBeInTheDocument();
+    expect(screen.queryByText('Actions')).not.toBeInTheDocument();
+  });
+});
@@ -48,6 +48,7 @@ const mockLoans: Loan[] = [
     pickupSignedAt: null,
     returnSignatureUrl: null,
     returnSignedAt: null,
+    dueAt: '2099-12-31T22:59:59Z',
     closedAt: null,
     createdAt: '2024-01-15T10:00:00Z',
     updatedAt: '2024-01-15T10:00:00Z',
@@ -67,6 +68,8 @@ const mockLoans: Loan[] = [
         assetItemId: 'asset1',
         stockItemId: null,
         quantity: 1,
+        dueAt: null,
+        returnedAt: null,
         addedAt: '2024-01-15T10:00:00Z',
         createdAt: '2024-01-15T10:00:00Z',
       },
@@ -80,6 +83,7 @@ const mockLoans: Loan[] = [
     pickupSignedAt: '2024-01-10T10:00:00Z',
     returnSignatureUrl: '/signatures/return.png',
     returnSignedAt: '2024-01-20T10:00:00Z',
+    dueAt: null,
     closedAt: '2024-01-20T10:00:00Z',
     createdAt: '2024-01-10T10:00:00Z',
     updatedAt: '2024-01-20T10:00:00Z',
@@ -99,6 +103,8 @@ const mockLoans: Loan[] = [
         assetItemId: null,
         stockItemId: 'stock1',
         quantity: 2,
+        dueAt: null,
+        returnedAt: null,
         addedAt: '2024-01-10T10:00:00Z',
         createdAt: '2024-01-10T10:00:00Z',
       },
@@ -134,6 +140,7 @@ describe('LoansTable', () => {
       expect(screen.getByText('Statut')).toBeInTheDocument();
       expect(screen.getByText('Articles')).toBeInTheDocument();
       expect(screen.getByText('Créé le')).toBeInTheDocument();
+      expect(screen.getByText('Retour prévu')).toBeInTheDocument();
       expect(screen.getByText('Fermé le')).toBeInTheDocument();
       expect(screen.getByText('Actions')).toBeInTheDocument();
     });
@@ -153,6 +160,43 @@ describe('LoansTable', () => {
       expect(within(rows[1]).getByText('-')).toBeInTheDocument();
     });
 
+    it('should display "En retard" badge for open loans past their due date', () => {
+      const overdueLoan: Loan = {
+        ...mockLoans[0],
+        dueAt: '2024-01-20T22:59:59Z',
+      };
+
+      render(<LoansTable loans={[overdueLoan, mockLoans[1]]} />, { wrapper: createWrapper() });
+
+      const rows = screen.getAllByRole('row');
+      expect(within(rows[1]).getByText('En retard')).toBeInTheDocument();
+      expect(within(rows[2]).queryByText('En retard')).not.toBeInTheDocument();
+    });
+
+    it('should flag loans with an overdue line even without a loan due date', () => {
+      const loanWithOverdueLine: Loan = {
+        ...mockLoans[0],
+        dueAt: null,
+        lines: [{ ...mockLoans[0].lines![0], dueAt: '2024-01-20T22:59:59Z' }],
+      };
+
+      render(<LoansTable loans={[loanWithOverdueLine]} />, { wrapper: createWrapper() });
+
+      expect(screen.getByText('En retard')).toBeInTheDocument();
+      expect(screen.getByText('20/01/2024')).toBeInTheDocument();
+    });
+
+    it('should not flag closed loans as overdue', () => {
+      const closedLoan: Loan = {
+        ...mockLoans[1],
+        dueAt: '2024-01-15T22:59:59Z',
+      };
+
+      render(<LoansTable loans={[closedLoan]} />, { wrapper: createWrapper() });
+
+      expect(screen.queryByText('En retard')).not.toBeInTheDocument();
+    });
+
     it('should handle deleted employee', () => {
       const loanWithoutEmployee: Loan = {
         ...mockLoans[0],
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Unit tests for OffboardingDialog component
+ *
+ * Tests:
+ * - Checklist of outstanding lines and completion guard
+ * - Start with a departure date
+ * - Per-line actions (return, transfer, write-off)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter } from 'react-router-dom'
+import { OffboardingDialog } from '@/components/employees/OffboardingDialog'
+import * as useEmployeesHook from '@/lib/hooks/useEmployees'
+import * as useLoansHook from '@/lib/hooks/useLoans'
+import type { Employee, EmployeeOffboarding } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useEmployees')
+vi.mock('@/lib/hooks/useLoans')
+
+// Replace the typeahead by a button selecting a fixed colleague
+vi.mock('@/components/common/EmployeeAutocomplete', () => ({
+  EmployeeAutocomplete: ({ onSelect }: any) => (
+    <button type="button" onClick={() => onSelect({ id: 'emp2', firstName: 'Marie', lastName: 'Martin', email: 'marie@test.com', dept: 'IT' })}>
+      Choisir Marie
+    </button>
+  ),
+}))
+
+const mockEmployee: Employee = {
+  id: 'emp1',
+  firstName: 'Jean',
+  lastName: 'Dupont',
+  email: 'jean@test.com',
+  dept: 'IT',
+  departureDate: '2026-10-31T00:00:00.000Z',
+  archivedAt: null,
+  createdAt: '2024-01-01T10:00:00Z',
+  updatedAt: '2024-01-01T10:00:00Z',
+}
+
+const mockChecklist: EmployeeOffboarding = {
+  employee: mockEmployee,
+  outstandingLines: [
+    {
+      id: 'line1',
+      loanId: 'loan1',
+      assetItemId: 'asset1',
+      stockItemId: null,
+      quantity: 1,
+      dueAt: null,
+      addedAt: '2026-01-15T10:00:00Z',
+      loan: { id: 'loan1', openedAt: '2026-01-15T10:00:00Z', dueAt: null },
+      assetItem: {
+        id: 'asset1',
+        assetTag: 'LAP-001',
+        serial: 'SN1',
+        status: 'PRETE',
+        assetModel: { id: 'model1', type: 'Laptop', brand: 'Dell', modelName: 'Latitude 5440' },
+      },
+      stockItem: null,
+    },
+  ],
+  activeReservations: 1,
+  canComplete: false,
+}
+
+function renderDialog(employee: Employee = mockEmployee) {
+  return render(
+    <MemoryRouter>
+      <OffboardingDialog employee={employee} open={true} onClose={vi.fn()} />
+    </MemoryRouter>
+  )
+}
+
+describe('OffboardingDialog', () => {
+  const mutation = (mutateAsync = vi.fn().mockResolvedValue({})) => ({ mutateAsync, isPending: false }) as any
+
+  let startMutate: ReturnType<typeof vi.fn>
+  let returnMutate: ReturnType<typeof vi.fn>
+  let transferMutate: ReturnType<typeof vi.fn>
+  let writeOffMutate: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    startMutate = vi.fn().mockResolvedValue(mockChecklist)
+    returnMutate = vi.fn().mockResolvedValue({})
+    transferMutate = vi.fn().mockResolvedValue({})
+    writeOffMutate = vi.fn().mockResolvedValue({})
+
+    vi.mocked(useEmployeesHook.useEmployeeOffboarding).mockReturnValue({ data: mockChecklist, isLoading: false } as any)
+    vi.mocked(useEmployeesHook.useStartOffboarding).mockReturnValue(mutation(startMutate))
+    vi.mocked(useEmployeesHook.useCancelOffboarding).mockReturnValue(mutation())
+    vi.mocked(useEmployeesHook.useCompleteOffboarding).mockReturnValue(mutation())
+    vi.mocked(useLoansHook.useReturnLoanLine).mockReturnValue(mutation(returnMutate))
+    vi.mocked(useLoansHook.useTransferLoanLines).mockReturnValue(mutation(transferMutate))
+    vi.mocked(useLoansHook.useWriteOffLoanLine).mockReturnValue(mutation(writeOffMutate))
+  })
+
+  it('should list outstanding lines and block completion', () => {
+    renderDialog()
+
+    expect(screen.getByText('LAP-001 - Dell Latitude 5440')).toBeInTheDocument()
+    expect(screen.getByText(/réservation\(s\) active\(s\) seront annulées/)).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /finaliser le départ/i })).toBeDisabled()
+  })
+
+  it('should allow completion once everything is resolved', () => {
+    vi.mocked(useEmployeesHook.useEmployeeOffboarding).mockReturnValue({
+      data: { ...mockChecklist, outstandingLines: [], canComplete: true },
+      isLoading: false,
+    } as any)
+    renderDialog()
+
+    expect(screen.getByText('Aucun article en cours de prêt')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /finaliser le départ/i })).toBeEnabled()
+  })
+
+  it('should start the offboarding with the departure date', async () => {
+    const user = userEvent.setup()
+    const employee = { ...mockEmployee, departureDate: null }
+    vi.mocked(useEmployeesHook.useEmployeeOffboarding).mockReturnValue({
+      data: { ...mockChecklist, employee },
+      isLoading: false,
+    } as any)
+    renderDialog(employee)
+
+    const button = screen.getByRole('button', { name: /démarrer le départ/i })
+    expect(button).toBeDisabled()
+
+    await user.type(screen.getByLabelText(/date de départ/i), '2026-11-30')
+    await user.click(button)
+
+    expect(startMutate).toHaveBeenCalledWith({ id: 'emp1', departureDate: '2026-11-30' })
+  })
+
+  it('should return a line from the checklist', async () => {
+    const user = userEvent.setup()
+    renderDialog()
+
+    await user.click(screen.getByRole('button', { name: /restituer/i }))
+
+    expect(returnMutate).toHaveBeenCalledWith({ loanId: 'loan1', lineId: 'line1' })
+  })
+
+  it('should transfer a line to a colleague', async () => {
+    const user = userEvent.setup()
+    renderDialog()
+
+    await user.click(screen.getByRole('button', { name: /^transférer$/i }))
+    await user.click(screen.getByText('Choisir Marie'))
+    await user.click(screen.getByRole('button', { name: /confirmer le transfert/i }))
+
+    expect(transferMutate).toHaveBeenCalledWith({
+      loanId: 'loan1',
+      data: { employeeId: 'emp2', lineIds: ['line1'] },
+    })
+  })
+
+  it('should write off a line as lost', async () => {
+    const user = userEvent.setup()
+    renderDialog()
+
+    await user.click(screen.getByRole('button', { name: /^perte$/i }))
+    await user.click(screen.getByRole('button', { name: /confirmer la perte/i }))
+
+    expect(writeOffMutate).toHaveBeenCalledWith({
+      loanId: 'loan1',
+      lineId: 'line1',
+      data: { reason: 'PERTE' },
+    })
+  })
+})
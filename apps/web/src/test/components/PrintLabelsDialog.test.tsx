@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Unit tests for PrintLabelsDialog component
+ *
+ * Tests:
+ * - Default payload (format, codes, start position)
+ * - Layout overrides prefilled from the selected format
+ * - Start position validation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PrintLabelsDialog } from '@/components/assets/PrintLabelsDialog'
+import * as useAssetItemsHook from '@/lib/hooks/useAssetItems'
+import type { AssetItem, LabelFormat } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useAssetItems')
+
+// Checkbox and Select measure themselves (not implemented by jsdom)
+vi.stubGlobal('ResizeObserver', class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+})
+
+const mockFormats: LabelFormat[] = [
+  {
+    key: 'AVERY_L7160',
+    name: 'Avery L7160 - 21 étiquettes 63,5 × 38,1 mm (A4)',
+    pageSize: 'A4',
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.2,
+    gapX: 2.5,
+    gapY: 0,
+  },
+]
+
+const mockItems = [
+  { id: 'item1', assetTag: 'LAP-001' },
+  { id: 'item2', assetTag: 'LAP-002' },
+] as AssetItem[]
+
+describe('PrintLabelsDialog', () => {
+  const mutateAsync = vi.fn()
+  const onClose = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mutateAsync.mockResolvedValue(undefined)
+    vi.mocked(useAssetItemsHook.useLabelFormats).mockReturnValue({ data: mockFormats } as any)
+    vi.mocked(useAssetItemsHook.useDownloadAssetLabels).mockReturnValue({
+      mutateAsync,
+      isPending: false,
+    } as any)
+  })
+
+  it('should download the labels of all items with the default settings', async () => {
+    const user = userEvent.setup()
+    render(<PrintLabelsDialog items={mockItems} open onClose={onClose} />)
+
+    expect(screen.getByText('Planche entamée : de 1 à 21, de gauche à droite')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Télécharger le PDF' }))
+
+    await waitFor(() => {
+      expect(mutateAsync).toHaveBeenCalledWith({
+        ids: ['item1', 'item2'],
+        format: 'AVERY_L7160',
+        codeType: 'BOTH',
+        startPosition: 1,
+        borders: false,
+      })
+      expect(onClose).toHaveBeenCalled()
+    })
+  })
+
+  it('should send the adjusted layout', async () => {
+    const user = userEvent.setup()
+    render(<PrintLabelsDialog items={mockItems} open onClose={onClose} />)
+
+    await user.click(screen.getByRole('checkbox', { name: 'Ajuster la mise en page' }))
+    const marginTop = screen.getByLabelText('Marge haute (mm)')
+    expect(marginTop).toHaveValue(15.15)
+
+    await user.clear(marginTop)
+    await user.type(marginTop, '16')
+    await user.clear(screen.getByLabelText('Première position libre'))
+    await user.type(screen.getByLabelText('Première position libre'), '4')
+    await user.click(screen.getByRole('button', { name: 'Télécharger le PDF' }))
+
+    await waitFor(() => {
+      expect(mutateAsync).toHaveBeenCalledWith(expect.objectContaining({
+        startPosition: 4,
+        layout: expect.objectContaining({ marginTop: 16, columns: 3, rows: 7 }),
+      }))
+    })
+  })
+
+  it('should require a start position', async () => {
+    const user = userEvent.setup()
+    render(<PrintLabelsDialog items={mockItems} open onClose={onClose} />)
+
+    await user.clear(screen.getByLabelText('Première position libre'))
+    await user.click(screen.getByRole('button', { name: 'Télécharger le PDF' }))
+
+    expect(await screen.findByText('Position requise')).toBeInTheDocument()
+    expect(mutateAsync).not.toHaveBeenCalled()
+  })
+})
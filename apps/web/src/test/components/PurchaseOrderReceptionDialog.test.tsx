@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Unit tests for PurchaseOrderReceptionDialog component
+ *
+ * Tests:
+ * - Serial numbers captured one by one, duplicates refused
+ * - Consumable quantity defaulting to the remaining quantity
+ * - Submission payload, server errors shown in the dialog
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PurchaseOrderReceptionDialog } from '@/components/purchaseOrders/PurchaseOrderReceptionDialog'
+import * as usePurchaseOrdersHook from '@/lib/hooks/usePurchaseOrders'
+import { PurchaseOrderStatus } from '@/lib/types/enums'
+import type { PurchaseOrder } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/usePurchaseOrders')
+
+const mockOrder: PurchaseOrder = {
+  id: 'po1',
+  reference: 'BC-2026-0001',
+  supplierId: 'sup1',
+  status: PurchaseOrderStatus.ORDERED,
+  notes: null,
+  orderedAt: '2026-10-01T10:00:00Z',
+  receivedAt: null,
+  createdAt: '2026-10-01T09:00:00Z',
+  updatedAt: '2026-10-01T10:00:00Z',
+  totalCents: 189700,
+  supplier: { id: 'sup1', name: 'Dell France' },
+  lines: [
+    {
+      id: 'line1',
+      purchaseOrderId: 'po1',
+      assetModelId: 'model1',
+      quantity: 3,
+      unitPriceCents: 59900,
+      receivedQuantity: 1,
+      totalCents: 179700,
+      isConsumable: false,
+      assetModel: { id: 'model1', type: 'Ordinateur portable', brand: 'Dell', modelName: 'Latitude 5440' },
+    },
+    {
+      id: 'line2',
+      purchaseOrderId: 'po1',
+      assetModelId: 'model2',
+      quantity: 10,
+      unitPriceCents: 1000,
+      receivedQuantity: 0,
+      totalCents: 10000,
+      isConsumable: true,
+      assetModel: { id: 'model2', type: 'Souris', brand: 'Logitech', modelName: 'M185' },
+    },
+  ],
+}
+
+describe('PurchaseOrderReceptionDialog', () => {
+  let mockMutateAsync: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockMutateAsync = vi.fn().mockResolvedValue({ order: mockOrder, assetItems: [], stockItems: [] })
+    vi.mocked(usePurchaseOrdersHook.useReceivePurchaseOrder).mockReturnValue({
+      mutateAsync: mockMutateAsync,
+      isPending: false,
+    } as any)
+  })
+
+  it('should capture serial numbers one by one and refuse duplicates', async () => {
+    const user = userEvent.setup()
+    render(<PurchaseOrderReceptionDialog order={mockOrder} open={true} onClose={vi.fn()} />)
+
+    const input = screen.getByLabelText('Numéro de série Dell Latitude 5440')
+    expect(screen.getByText('0 / 2 saisi(s)')).toBeInTheDocument()
+
+    await user.type(input, 'SN-001{Enter}')
+    expect(screen.getByText('SN-001')).toBeInTheDocument()
+    expect(screen.getByText('1 / 2 saisi(s)')).toBeInTheDocument()
+
+    await user.type(input, 'sn-001{Enter}')
+    expect(screen.getByText('sn-001 : déjà saisi')).toBeInTheDocument()
+
+    await user.clear(input)
+    await user.type(input, 'SN-002{Enter}')
+    expect(screen.getByText('2 / 2 saisi(s)')).toBeInTheDocument()
+    expect(input).toBeDisabled()
+  })
+
+  it('should submit the serials and the consumable quantity', async () => {
+    const user = userEvent.setup()
+    const onClose = vi.fn()
+    render(<PurchaseOrderReceptionDialog order={mockOrder} open={true} onClose={onClose} />)
+
+    expect(screen.getByLabelText('Quantité reçue')).toHaveValue(10)
+
+    await user.type(screen.getByLabelText('N° de facture'), 'FA-42')
+    await user.type(screen.getByLabelText('Numéro de série Dell Latitude 5440'), 'SN-001{Enter}')
+    await user.click(screen.getByRole('button', { name: /valider la réception/i }))
+
+    expect(mockMutateAsync).toHaveBeenCalledWith(expect.objectContaining({
+      invoiceNumber: 'FA-42',
+      location: null,
+      lines: [
+        { lineId: 'line1', serials: ['SN-001'] },
+        { lineId: 'line2', quantity: 10 },
+      ],
+    }))
+    expect(onClose).toHaveBeenCalled()
+  })
+
+  it('should show the server error and stay open', async () => {
+    mockMutateAsync.mockRejectedValue(new Error('Numéro(s) de série déjà enregistré(s) : SN-001'))
+    const user = userEvent.setup()
+    const onClose = vi.fn()
+    render(<PurchaseOrderReceptionDialog order={mockOrder} open={true} onClose={onClose} />)
+
+    await user.click(screen.getByRole('button', { name: /valider la réception/i }))
+
+    expect(await screen.findByText(/déjà enregistré/)).toBeInTheDocument()
+    expect(onClose).not.toHaveBeenCalled()
+  })
+})
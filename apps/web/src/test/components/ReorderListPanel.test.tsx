@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Unit tests for ReorderListPanel component
+ *
+ * Tests:
+ * - Groups by supplier with the quantities to order
+ * - Empty state
+ * - Excel export
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ReorderListPanel } from '@/components/stock/ReorderListPanel'
+import * as useStockItemsHook from '@/lib/hooks/useStockItems'
+import * as exportApi from '@/lib/api/export.api'
+import type { ReorderGroup } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useStockItems')
+vi.mock('@/lib/api/export.api')
+
+const mockGroups: ReorderGroup[] = [
+  {
+    supplier: { id: 'sup1', name: 'Acme', contactName: 'Jean Martin', email: 'jean@acme.fr', phone: null },
+    lines: [
+      {
+        stockItemId: 'stock1',
+        assetModel: { type: 'Câble', brand: 'Belkin', modelName: 'HDMI 2m' },
+        location: 'Réserve',
+        available: 1,
+        minQuantity: 5,
+        suggestedQuantity: 10,
+      },
+    ],
+  },
+  {
+    supplier: null,
+    lines: [
+      {
+        stockItemId: 'stock2',
+        assetModel: { type: 'Souris', brand: 'Logitech', modelName: 'M185' },
+        location: null,
+        available: 0,
+        minQuantity: 3,
+        suggestedQuantity: 3,
+      },
+    ],
+  },
+]
+
+describe('ReorderListPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(useStockItemsHook.useReorderList).mockReturnValue({
+      data: mockGroups,
+      isLoading: false,
+      error: null,
+    } as any)
+  })
+
+  it('should list the items to order grouped by supplier', () => {
+    render(<ReorderListPanel />)
+
+    expect(screen.getByText('Acme')).toBeInTheDocument()
+    expect(screen.getByText('Jean Martin · jean@acme.fr')).toBeInTheDocument()
+    expect(screen.getByText('Sans fournisseur')).toBeInTheDocument()
+    expect(screen.getByText('Belkin HDMI 2m')).toBeInTheDocument()
+    expect(screen.getByText('10')).toBeInTheDocument()
+  })
+
+  it('should show an empty state when nothing is below its minimum', () => {
+    vi.mocked(useStockItemsHook.useReorderList).mockReturnValue({ data: [], isLoading: false, error: null } as any)
+
+    render(<ReorderListPanel />)
+
+    expect(screen.getByText('Aucun article sous son stock minimum.')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Exporter/ })).not.toBeInTheDocument()
+  })
+
+  it('should export the reorder list to Excel', async () => {
+    const user = userEvent.setup()
+    vi.mocked(exportApi.exportReorderList).mockResolvedValue(undefined)
+
+    render(<ReorderListPanel />)
+    await user.click(screen.getByRole('button', { name: 'Exporter (Excel)' }))
+
+    await waitFor(() => {
+      expect(exportApi.exportReorderList).toHaveBeenCalledOnce()
+    })
+  })
+})
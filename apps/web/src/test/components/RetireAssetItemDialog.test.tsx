@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Unit tests for RetireAssetItemDialog component
+ *
+ * Tests:
+ * - Data-wipe confirmation required for recycling
+ * - Submission payload and close on success
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { RetireAssetItemDialog } from '@/components/assets/RetireAssetItemDialog'
+import * as useAssetItemsHook from '@/lib/hooks/useAssetItems'
+import type { AssetItem } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useAssetItems')
+
+// The data-wipe Checkbox measures itself (not implemented by jsdom)
+vi.stubGlobal('ResizeObserver', class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+})
+
+const mockItem = {
+  id: 'item1',
+  assetTag: 'LAP-001',
+  serial: 'SN1',
+  status: 'HS',
+  notes: null,
+  assetModelId: 'model1',
+  createdAt: '2024-01-01T10:00:00Z',
+  updatedAt: '2024-01-01T10:00:00Z',
+} as AssetItem
+
+describe('RetireAssetItemDialog', () => {
+  const mutateAsync = vi.fn()
+  const onClose = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mutateAsync.mockResolvedValue({ ...mockItem, status: 'REFORME' })
+    vi.mocked(useAssetItemsHook.useRetireAssetItem).mockReturnValue({
+      mutateAsync,
+      isPending: false,
+    } as any)
+  })
+
+  it('should require the data-wipe confirmation for recycling', async () => {
+    const user = userEvent.setup()
+    render(<RetireAssetItemDialog item={mockItem} open onClose={onClose} />)
+
+    await user.click(screen.getByRole('button', { name: 'Réformer' }))
+
+    expect(await screen.findByText('Confirmez l\'effacement des données avant un recyclage ou un don')).toBeInTheDocument()
+    expect(mutateAsync).not.toHaveBeenCalled()
+  })
+
+  it('should retire the item once the data wipe is confirmed', async () => {
+    const user = userEvent.setup()
+    render(<RetireAssetItemDialog item={mockItem} open onClose={onClose} />)
+
+    await user.type(screen.getByLabelText('Référence du certificat'), 'CERT-42')
+    await user.click(screen.getByRole('checkbox'))
+    await user.click(screen.getByRole('button', { name: 'Réformer' }))
+
+    await waitFor(() => {
+      expect(mutateAsync).toHaveBeenCalledWith({
+        id: 'item1',
+        data: expect.objectContaining({
+          reason: 'RECYCLAGE',
+          certificateRef: 'CERT-42',
+          dataWipeConfirmed: true,
+          disposedAt: expect.any(String),
+        }),
+      })
+      expect(onClose).toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReturnInspectionDialog } from '@/components/loans/ReturnInspectionDialog';
+import type { LoanLine } from '@/lib/types/models.types';
+
+/**
+ * Tests for ReturnInspectionDialog component
+ * Tests the return checklist (condition + note per asset line)
+ */
+
+const baseLine = {
+  loanId: 'loan1',
+  quantity: 1,
+  dueAt: null,
+  returnedAt: null,
+  returnCondition: null,
+  returnNote: null,
+  addedAt: '2024-01-15T10:00:00Z',
+  createdAt: '2024-01-15T10:00:00Z',
+};
+
+const mockLines: LoanLine[] = [
+  {
+    ...baseLine,
+    id: 'line1',
+    assetItemId: 'asset1',
+    stockItemId: null,
+    assetItem: {
+      id: 'asset1',
+      assetTag: 'LAP-001',
+      serial: 'SN1',
+      status: 'PRETE',
+      notes: null,
+      assetModelId: 'model1',
+      createdAt: '2024-01-01T10:00:00Z',
+      updatedAt: '2024-01-01T10:00:00Z',
+    },
+  },
+  {
+    ...baseLine,
+    id: 'line2',
+    assetItemId: 'asset2',
+    stockItemId: null,
+    assetItem: {
+      id: 'asset2',
+      assetTag: 'DOCK-001',
+      serial: 'SN2',
+      status: 'PRETE',
+      notes: null,
+      assetModelId: 'model2',
+      createdAt: '2024-01-01T10:00:00Z',
+      updatedAt: '2024-01-01T10:00:00Z',
+    },
+  },
+  {
+    ...baseLine,
+    id: 'line3',
+    assetItemId: null,
+    stockItemId: 'stock1',
+    quantity: 3,
+  },
+];
+
+const renderDialog = (lines: LoanLine[] = mockLines) => {
+  const props = {
+    open: true,
+    onClose: vi.fn(),
+    lines,
+    title: 'Fermer le prêt',
+    description: 'Indiquez l\'état de chaque équipement rendu.',
+    confirmLabel: 'Valider',
+    onConfirm: vi.fn(),
+  };
+  render(<ReturnInspectionDialog {...props} />);
+  return props;
+};
+
+describe('ReturnInspectionDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should default every asset line to OK', async () => {
+    const user = userEvent.setup();
+    const props = renderDialog();
+
+    await user.click(screen.getByRole('button', { name: /valider/i }));
+
+    expect(props.onConfirm).toHaveBeenCalledWith([
+      { lineId: 'line1', condition: 'OK' },
+      { lineId: 'line2', condition: 'OK' },
+    ]);
+  });
+
+  it('should send the selected condition and note per line', async () => {
+    const user = userEvent.setup();
+    const props = renderDialog();
+
+    await user.click(screen.getAllByLabelText('Endommagé')[0]);
+    await user.type(screen.getAllByLabelText('Note')[0], '  Écran fissuré ');
+    await user.click(screen.getAllByLabelText('Manquant')[1]);
+    await user.click(screen.getByRole('button', { name: /valider/i }));
+
+    expect(props.onConfirm).toHaveBeenCalledWith([
+      { lineId: 'line1', condition: 'DAMAGED', note: 'Écran fissuré' },
+      { lineId: 'line2', condition: 'MISSING' },
+    ]);
+  });
+
+  it('should explain where the equipment will go', async () => {
+    const user = userEvent.setup();
+    renderDialog([mockLines[0]]);
+
+    expect(screen.getByText(/sera remis en stock/)).toBeInTheDocument();
+
+    await user.click(screen.getByLabelText('Endommagé'));
+
+    expect(screen.getByText(/sera envoyé en réparation/)).toBeInTheDocument();
+  });
+
+  it('should list stock lines without inspection', () => {
+    renderDialog();
+
+    expect(screen.getByText('Stock x3')).toBeInTheDocument();
+    expect(screen.getAllByLabelText('Note')).toHaveLength(2);
+  });
+});
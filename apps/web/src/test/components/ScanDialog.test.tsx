@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Unit tests for ScanDialog component
+ *
+ * Tests:
+ * - Keyboard / USB scanner input handed to onScan
+ * - Success and error feedback history
+ * - Fallback message without camera support (jsdom)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ScanDialog } from '@/components/common/ScanDialog'
+
+describe('ScanDialog', () => {
+  const onScan = vi.fn()
+  const onClose = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const renderDialog = () =>
+    render(
+      <ScanDialog open onClose={onClose} title="Scanner" description="Scannez une étiquette" onScan={onScan} />
+    )
+
+  it('should hand the scanned code to onScan and show the outcome', async () => {
+    const user = userEvent.setup()
+    onScan.mockResolvedValue({ success: true, message: 'Ajouté au prêt' })
+    renderDialog()
+
+    // USB scanners type the code followed by Enter
+    await user.type(screen.getByLabelText('Code scanné'), 'https://inventaire.example.com/assets/items?search=LAP-001{Enter}')
+
+    await waitFor(() => {
+      expect(onScan).toHaveBeenCalledWith('LAP-001')
+    })
+    expect(await screen.findByRole('status')).toHaveTextContent('LAP-001Ajouté au prêt')
+    expect(screen.getByLabelText('Code scanné')).toHaveValue('')
+  })
+
+  it('should report errors and keep the previous scans', async () => {
+    const user = userEvent.setup()
+    onScan
+      .mockResolvedValueOnce({ success: true, message: 'Ajouté au prêt' })
+      .mockRejectedValueOnce(new Error('Aucun équipement ne correspond au code XX'))
+    renderDialog()
+
+    await user.type(screen.getByLabelText('Code scanné'), 'LAP-001{Enter}')
+    await screen.findByRole('status')
+    await user.type(screen.getByLabelText('Code scanné'), 'XX{Enter}')
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Aucun équipement ne correspond au code XX')
+    })
+    expect(screen.getByRole('listitem')).toHaveTextContent('LAP-001')
+  })
+
+  it('should fall back to scanner and manual entry without camera support', () => {
+    renderDialog()
+
+    expect(screen.getByText(/ne sait pas lire les codes avec la caméra/)).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Scanner avec la caméra' })).toBeNull()
+  })
+})
@@ -31,6 +31,13 @@ describe('StatusBadge', () => {
     expect(badge).toBeInTheDocument();
   });
 
+  it('should render REFORME status', () => {
+    render(<StatusBadge status="REFORME" />);
+
+    const badge = screen.getByText('Réformé');
+    expect(badge).toBeInTheDocument();
+  });
+
   it('should handle unknown status gracefully', () => {
     render(<StatusBadge status={"UNKNOWN" as any} />);
 
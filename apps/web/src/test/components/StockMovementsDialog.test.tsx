@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Unit tests for StockMovementsDialog component
+ *
+ * Tests:
+ * - Movements list with signed deltas, actor and reference link
+ * - Ledger drift warning
+ * - Recording a reception
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter } from 'react-router-dom'
+import { StockMovementsDialog } from '@/components/stock/StockMovementsDialog'
+import * as useStockItemsHook from '@/lib/hooks/useStockItems'
+import type { StockItem, StockLedgerCheck, StockMovement } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useStockItems')
+
+const mockItem = {
+  id: 'stock1',
+  assetModelId: 'model1',
+  quantity: 10,
+  loaned: 2,
+  notes: null,
+  location: 'Réserve',
+  createdAt: '2024-01-01T10:00:00Z',
+  updatedAt: '2024-01-01T10:00:00Z',
+  assetModel: { id: 'model1', type: 'Câble', brand: 'Belkin', modelName: 'HDMI 2m' },
+} as StockItem
+
+const mockMovements: StockMovement[] = [
+  {
+    id: 'mov2',
+    stockItemId: 'stock1',
+    type: 'LOAN_OUT',
+    quantityDelta: 0,
+    loanedDelta: 2,
+    reason: null,
+    referenceType: 'Loan',
+    referenceId: 'loan1',
+    createdAt: '2024-02-01T10:00:00Z',
+    createdBy: { id: 'user1', email: 'manager@example.com', role: 'GESTIONNAIRE' },
+  },
+  {
+    id: 'mov1',
+    stockItemId: 'stock1',
+    type: 'INITIAL',
+    quantityDelta: 10,
+    loanedDelta: 0,
+    reason: 'Création de l\'article',
+    referenceType: null,
+    referenceId: null,
+    createdAt: '2024-01-01T10:00:00Z',
+    createdBy: null,
+  },
+]
+
+const consistentCheck: StockLedgerCheck = {
+  stockItemId: 'stock1',
+  current: { quantity: 10, loaned: 2 },
+  ledger: { quantity: 10, loaned: 2 },
+  drift: { quantity: 0, loaned: 0 },
+  hasDrift: false,
+}
+
+function renderDialog() {
+  return render(
+    <MemoryRouter>
+      <StockMovementsDialog item={mockItem} open onClose={vi.fn()} />
+    </MemoryRouter>
+  )
+}
+
+describe('StockMovementsDialog', () => {
+  const mutateAsync = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mutateAsync.mockResolvedValue({ ...mockItem, quantity: 15 })
+    vi.mocked(useStockItemsHook.useStockMovements).mockReturnValue({
+      data: {
+        success: true,
+        data: mockMovements,
+        pagination: { page: 1, pageSize: 10, totalItems: 2, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+      },
+      isLoading: false,
+      error: null,
+    } as any)
+    vi.mocked(useStockItemsHook.useStockLedgerCheck).mockReturnValue({ data: consistentCheck } as any)
+    vi.mocked(useStockItemsHook.useAdjustStockQuantity).mockReturnValue({
+      mutateAsync,
+      isPending: false,
+    } as any)
+  })
+
+  it('should list the movements with their deltas, actor and reference', () => {
+    renderDialog()
+
+    expect(screen.getByText('Journal cohérent avec les quantités de l\'article')).toBeInTheDocument()
+    expect(screen.getByText('Sortie en prêt')).toBeInTheDocument()
+    expect(screen.getByText('+10')).toBeInTheDocument()
+    expect(screen.getByText('manager@example.com')).toBeInTheDocument()
+    expect(screen.getByText('Système')).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Voir le prêt' })).toHaveAttribute('href', '/loans/loan1')
+  })
+
+  it('should warn when the counters differ from the ledger', () => {
+    vi.mocked(useStockItemsHook.useStockLedgerCheck).mockReturnValue({
+      data: { ...consistentCheck, ledger: { quantity: 12, loaned: 2 }, drift: { quantity: -2, loaned: 0 }, hasDrift: true },
+    } as any)
+
+    renderDialog()
+
+    expect(screen.getByText('Écart avec le journal')).toBeInTheDocument()
+    expect(screen.getByText(/écart de -2 sur la quantité/)).toBeInTheDocument()
+  })
+
+  it('should record a reception with its reason', async () => {
+    const user = userEvent.setup()
+    renderDialog()
+
+    const quantityInput = screen.getByLabelText('Unités')
+    await user.clear(quantityInput)
+    await user.type(quantityInput, '5')
+    await user.type(screen.getByLabelText('Motif'), 'BL-1042')
+    await user.click(screen.getByRole('button', { name: 'Enregistrer' }))
+
+    await waitFor(() => {
+      expect(mutateAsync).toHaveBeenCalledWith({
+        id: 'stock1',
+        data: { type: 'RECEPTION', quantity: 5, reason: 'BL-1042' },
+      })
+    })
+  })
+})
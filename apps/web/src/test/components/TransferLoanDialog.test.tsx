@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Unit tests for TransferLoanDialog component
+ *
+ * Tests:
+ * - Outstanding lines preselected, returned lines hidden
+ * - Same-employee guard
+ * - Submission payload and success callback
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { TransferLoanDialog } from '@/components/loans/TransferLoanDialog'
+import * as useLoansHook from '@/lib/hooks/useLoans'
+import type { Loan } from '@/lib/types/models.types'
+
+vi.mock('@/lib/hooks/useLoans')
+
+// Replace the typeahead by two buttons selecting a fixed employee
+vi.mock('@/components/common/EmployeeAutocomplete', () => ({
+  EmployeeAutocomplete: ({ onSelect }: any) => (
+    <div>
+      <button type="button" onClick={() => onSelect({ id: 'emp2', firstName: 'Marie', lastName: 'Martin', email: 'marie@test.com', dept: 'IT' })}>
+        Choisir Marie
+      </button>
+      <button type="button" onClick={() => onSelect({ id: 'emp1', firstName: 'Jean', lastName: 'Dupont', email: 'jean@test.com', dept: 'IT' })}>
+        Choisir Jean
+      </button>
+    </div>
+  ),
+}))
+
+const mockLoan: Loan = {
+  id: 'loan1',
+  employeeId: 'emp1',
+  status: 'OPEN',
+  pickupSignatureUrl: '/uploads/signatures/pickup.png',
+  pickupSignedAt: '2024-01-15T10:00:00Z',
+  returnSignatureUrl: null,
+  returnSignedAt: null,
+  dueAt: null,
+  closedAt: null,
+  createdAt: '2024-01-15T10:00:00Z',
+  updatedAt: '2024-01-15T10:00:00Z',
+  lines: [
+    {
+      id: 'line1',
+      loanId: 'loan1',
+      assetItemId: 'asset1',
+      stockItemId: null,
+      quantity: 1,
+      dueAt: null,
+      returnedAt: null,
+      returnCondition: null,
+      returnNote: null,
+      addedAt: '2024-01-15T10:00:00Z',
+      createdAt: '2024-01-15T10:00:00Z',
+      assetItem: {
+        id: 'asset1',
+        assetTag: 'LAP-001',
+        serial: 'SN1',
+        status: 'PRETE',
+        notes: null,
+        assetModelId: 'model1',
+        createdAt: '2024-01-01T10:00:00Z',
+        updatedAt: '2024-01-01T10:00:00Z',
+      },
+    },
+    {
+      id: 'line2',
+      loanId: 'loan1',
+      assetItemId: 'asset2',
+      stockItemId: null,
+      quantity: 1,
+      dueAt: null,
+      returnedAt: null,
+      returnCondition: null,
+      returnNote: null,
+      addedAt: '2024-01-15T10:00:00Z',
+      createdAt: '2024-01-15T10:00:00Z',
+      assetItem: {
+        id: 'asset2',
+        assetTag: 'DOCK-001',
+        serial: 'SN2',
+        status: 'PRETE',
+        notes: null,
+        assetModelId: 'model2',
+        createdAt: '2024-01-01T10:00:00Z',
+        updatedAt: '2024-01-01T10:00:00Z',
+      },
+    },
+    {
+      id: 'line3',
+      loanId: 'loan1',
+      assetItemId: 'asset3',
+      stockItemId: null,
+      quantity: 1,
+      dueAt: null,
+      returnedAt: '2024-01-20T10:00:00Z',
+      returnCondition: 'OK',
+      returnNote: null,
+      addedAt: '2024-01-15T10:00:00Z',
+      createdAt: '2024-01-15T10:00:00Z',
+      assetItem: {
+        id: 'asset3',
+        assetTag: 'SCR-001',
+        serial: 'SN3',
+        status: 'EN_STOCK',
+        notes: null,
+        assetModelId: 'model3',
+        createdAt: '2024-01-01T10:00:00Z',
+        updatedAt: '2024-01-01T10:00:00Z',
+      },
+    },
+  ],
+}
+
+describe('TransferLoanDialog', () => {
+  let mockMutateAsync: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockMutateAsync = vi.fn().mockResolvedValue({ id: 'loan2' })
+    vi.mocked(useLoansHook.useTransferLoanLines).mockReturnValue({
+      mutateAsync: mockMutateAsync,
+      isPending: false,
+    } as any)
+  })
+
+  it('should preselect outstanding lines only', () => {
+    render(<TransferLoanDialog loan={mockLoan} open={true} onClose={vi.fn()} />)
+
+    expect(screen.getByLabelText(/LAP-001/)).toBeChecked()
+    expect(screen.getByLabelText(/DOCK-001/)).toBeChecked()
+    expect(screen.queryByText(/SCR-001/)).not.toBeInTheDocument()
+    expect(screen.getByText(/le prêt actuel sera fermé/)).toBeInTheDocument()
+  })
+
+  it('should require another employee before transferring', async () => {
+    const user = userEvent.setup()
+    render(<TransferLoanDialog loan={mockLoan} open={true} onClose={vi.fn()} />)
+
+    expect(screen.getByRole('button', { name: /^transférer$/i })).toBeDisabled()
+
+    await user.click(screen.getByText('Choisir Jean'))
+
+    expect(screen.getByText('Le prêt appartient déjà à cet employé')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /^transférer$/i })).toBeDisabled()
+  })
+
+  it('should transfer the selected lines and open the new loan', async () => {
+    const user = userEvent.setup()
+    const onClose = vi.fn()
+    const onSuccess = vi.fn()
+    render(<TransferLoanDialog loan={mockLoan} open={true} onClose={onClose} onSuccess={onSuccess} />)
+
+    await user.click(screen.getByText('Choisir Marie'))
+    await user.click(screen.getByLabelText(/DOCK-001/))
+    expect(screen.queryByText(/le prêt actuel sera fermé/)).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: /^transférer$/i }))
+
+    expect(mockMutateAsync).toHaveBeenCalledWith({
+      loanId: 'loan1',
+      data: { employeeId: 'emp2', lineIds: ['line1'], dueAt: null },
+    })
+    expect(onClose).toHaveBeenCalled()
+    expect(onSuccess).toHaveBeenCalledWith('loan2')
+  })
+})
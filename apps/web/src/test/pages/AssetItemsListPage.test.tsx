@@ -5,8 +5,10 @@
  * - Page rendering with asset items list
  * - Loading and error states
  * - Search functionality
- * - Status and model filtering
+ * - Status and model filtering (retired items fetched on demand)
+ * - Disposal register export
  * - Bulk delete operations
+ * - Label printing for the selection and ?search= / ?status= deep links
  * - Pagination
  * - Dialog interactions
  */
@@ -19,12 +21,14 @@ import userEvent from '@testing-library/user-event'
 import { AssetItemsListPage } from '@/pages/AssetItemsListPage'
 import * as useAssetItemsHook from '@/lib/hooks/useAssetItems'
 import * as useAssetModelsHook from '@/lib/hooks/useAssetModels'
+import * as exportApi from '@/lib/api/export.api'
 import { AssetStatus } from '@/lib/types/enums'
 import { ReactNode } from 'react'
 
 // Mock hooks
 vi.mock('@/lib/hooks/useAssetItems')
 vi.mock('@/lib/hooks/useAssetModels')
+vi.mock('@/lib/api/export.api')
 
 // Mock toast
 const mockToast = vi.fn()
@@ -72,6 +76,15 @@ vi.mock('@/components/assets/AssetItemFormDialog', () => ({
     ) : null,
 }))
 
+vi.mock('@/components/assets/PrintLabelsDialog', () => ({
+  PrintLabelsDialog: ({ items, open }: any) =>
+    open ? (
+      <div data-testid="print-labels-dialog">
+        {items.map((item: any) => item.assetTag).join(', ')}
+      </div>
+    ) : null,
+}))
+
 // Mock UI components
 vi.mock('@/components/ui/input', () => ({
   Input: ({ value, onChange, placeholder, ...props }: any) => (
@@ -895,4 +908,88 @@ describe('AssetItemsListPage', () => {
       expect(screen.getByTestId('asset-items-table')).toBeDefined()
     })
   })
+
+  describe('Retired items', () => {
+    beforeEach(() => {
+      vi.mocked(useAssetItemsHook.useAssetItems).mockReturnValue({
+        data: mockAssetItems,
+        isLoading: false,
+        error: null,
+      } as any)
+      vi.mocked(useAssetModelsHook.useAssetModels).mockReturnValue({
+        data: mockAssetModels,
+      } as any)
+      vi.mocked(useAssetItemsHook.useDeleteAssetItem).mockReturnValue(
+        mockDeleteItem() as any
+      )
+    })
+
+    it('should fetch retired items from the server when filtering on Réformé', async () => {
+      const user = userEvent.setup()
+      render(<AssetItemsListPage />, { wrapper: createWrapper(queryClient) })
+
+      expect(useAssetItemsHook.useAssetItems).toHaveBeenLastCalledWith(undefined)
+
+      await user.selectOptions(screen.getAllByTestId('select')[0], AssetStatus.REFORME)
+
+      expect(useAssetItemsHook.useAssetItems).toHaveBeenLastCalledWith(AssetStatus.REFORME)
+    })
+
+    it('should export the disposal register', async () => {
+      const user = userEvent.setup()
+      vi.mocked(exportApi.exportDisposalRegister).mockResolvedValue(undefined)
+      render(<AssetItemsListPage />, { wrapper: createWrapper(queryClient) })
+
+      await user.click(screen.getByText('Registre des sorties'))
+
+      await waitFor(() => {
+        expect(exportApi.exportDisposalRegister).toHaveBeenCalledOnce()
+        expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Export réussi' }))
+      })
+    })
+  })
+
+  describe('Labels', () => {
+    beforeEach(() => {
+      vi.mocked(useAssetItemsHook.useAssetItems).mockReturnValue({
+        data: mockAssetItems,
+        isLoading: false,
+        error: null,
+      } as any)
+      vi.mocked(useAssetModelsHook.useAssetModels).mockReturnValue({
+        data: mockAssetModels,
+      } as any)
+      vi.mocked(useAssetItemsHook.useDeleteAssetItem).mockReturnValue(
+        mockDeleteItem() as any
+      )
+    })
+
+    it('should print the labels of the selected items', async () => {
+      const user = userEvent.setup()
+      render(<AssetItemsListPage />, { wrapper: createWrapper(queryClient) })
+
+      await user.click(screen.getByTestId('select-item'))
+      await user.click(screen.getByText('Étiquettes (1)'))
+
+      expect(await screen.findByTestId('print-labels-dialog')).toHaveTextContent('LAPTOP-001')
+    })
+
+    it('should prefill the search from the label deep link', () => {
+      window.history.pushState({}, '', '/assets/items?search=LAPTOP-002')
+      render(<AssetItemsListPage />, { wrapper: createWrapper(queryClient) })
+      window.history.pushState({}, '', '/')
+
+      expect(screen.getByPlaceholderText('Rechercher par tag, série, modèle...')).toHaveValue('LAPTOP-002')
+      expect(screen.getByTestId('item-item-2')).toBeDefined()
+      expect(screen.queryByTestId('item-item-1')).toBeNull()
+    })
+
+    it('should list retired items when the scanned item is retired', () => {
+      window.history.pushState({}, '', '/assets/items?search=LAPTOP-009&status=REFORME')
+      render(<AssetItemsListPage />, { wrapper: createWrapper(queryClient) })
+      window.history.pushState({}, '', '/')
+
+      expect(useAssetItemsHook.useAssetItems).toHaveBeenLastCalledWith(AssetStatus.REFORME)
+    })
+  })
 })
@@ -57,6 +57,18 @@ vi.mock('@/components/dashboard/OutOfServiceList', () => ({
   OutOfServiceList: () => <div data-testid="out-of-service-list">Out of Service Widget</div>,
 }))
 
+vi.mock('@/components/dashboard/OpenRepairsList', () => ({
+  OpenRepairsList: () => <div data-testid="open-repairs-list">Open Repairs Widget</div>,
+}))
+
+vi.mock('@/components/dashboard/ExpiringWarrantiesList', () => ({
+  ExpiringWarrantiesList: () => <div data-testid="expiring-warranties-list">Expiring Warranties Widget</div>,
+}))
+
+vi.mock('@/components/dashboard/FleetValuationCard', () => ({
+  FleetValuationCard: () => <div data-testid="fleet-valuation-card">Fleet Valuation Widget</div>,
+}))
+
 vi.mock('@/components/dashboard/EquipmentByTypeChart', () => ({
   EquipmentByTypeChart: () => <div data-testid="equipment-chart">Equipment Chart</div>,
 }))
@@ -129,6 +141,7 @@ describe('DashboardPage', () => {
         expect(screen.getByTestId('stats-card-Employés')).toBeDefined()
         expect(screen.getByTestId('stats-card-Équipements')).toBeDefined()
         expect(screen.getByTestId('stats-card-Prêts actifs')).toBeDefined()
+        expect(screen.getByTestId('stats-card-En retard')).toBeDefined()
         expect(screen.getByTestId('stats-card-Articles prêtés')).toBeDefined()
         expect(screen.getByTestId('stats-card-Hors service')).toBeDefined()
       })
@@ -175,6 +188,9 @@ describe('DashboardPage', () => {
         expect(screen.getByTestId('recent-loans')).toBeDefined()
         expect(screen.getByTestId('low-stock-alert')).toBeDefined()
         expect(screen.getByTestId('out-of-service-list')).toBeDefined()
+        expect(screen.getByTestId('open-repairs-list')).toBeDefined()
+        expect(screen.getByTestId('expiring-warranties-list')).toBeDefined()
+        expect(screen.getByTestId('fleet-valuation-card')).toBeDefined()
       })
     })
   })
@@ -435,6 +451,28 @@ describe('DashboardPage', () => {
       expect(loansCard.textContent).toContain('23')
     })
 
+    it('should display overdue loans count correctly', () => {
+      vi.mocked(useDashboardHook.useDashboardStats).mockReturnValue({
+        data: {
+          totalEmployees: 50,
+          totalAssets: 200,
+          activeLoans: 23,
+          overdueLoans: 4,
+          loanedAssets: 30,
+          outOfServiceAssets: 5,
+        },
+        isLoading: false,
+        error: null,
+        isSuccess: true,
+        isError: false,
+      } as any)
+
+      render(<DashboardPage />, { wrapper: createWrapper(queryClient) })
+
+      const overdueCard = screen.getByTestId('stats-card-En retard')
+      expect(overdueCard.textContent).toContain('4')
+    })
+
     it('should display loaned assets count correctly', () => {
       vi.mocked(useDashboardHook.useDashboardStats).mockReturnValue({
         data: {
@@ -545,7 +583,7 @@ describe('DashboardPage', () => {
       const { container } = render(<DashboardPage />, { wrapper: createWrapper(queryClient) })
 
       const animatedElements = container.querySelectorAll('[class*="animate-slideIn"]')
-      expect(animatedElements.length).toBe(5) // 5 stats cards with animation
+      expect(animatedElements.length).toBe(6) // 6 stats cards with animation
     })
   })
 
@@ -5,7 +5,8 @@
  * - Page rendering with employees list
  * - Loading and error states
  * - Search functionality
- * - Bulk delete operations
+ * - Bulk delete operations (ADMIN) and bulk archiving
+ * - Archived employees toggle
  * - Export functionality
  * - Import dialog
  * - Pagination
@@ -19,12 +20,20 @@ import { BrowserRouter } from 'react-router-dom'
 import userEvent from '@testing-library/user-event'
 import { EmployeesListPage } from '@/pages/EmployeesListPage'
 import * as useEmployeesHook from '@/lib/hooks/useEmployees'
+import * as useAuthHook from '@/lib/hooks/useAuth'
 import * as exportApi from '@/lib/api/export.api'
 import { ReactNode } from 'react'
 
 // Mock hooks
 vi.mock('@/lib/hooks/useEmployees')
+vi.mock('@/lib/hooks/useAuth')
 vi.mock('@/lib/api/export.api')
+vi.mock('@/lib/hooks/useDepartments', () => ({
+  useDepartments: () => ({ data: [] }),
+}))
+vi.mock('@/lib/hooks/useCompanies', () => ({
+  useCompanies: () => ({ data: [] }),
+}))
 
 // Mock toast
 const mockToast = vi.fn()
@@ -163,6 +172,9 @@ describe('EmployeesListPage', () => {
     vi.clearAllMocks()
     // Reset window.confirm mock
     global.confirm = vi.fn()
+    vi.mocked(useAuthHook.useAuth).mockReturnValue({
+      user: { id: '1', role: 'ADMIN', username: 'admin' },
+    } as any)
   })
 
   describe('Rendering - Success state', () => {
@@ -409,6 +421,44 @@ describe('EmployeesListPage', () => {
     })
   })
 
+  describe('Archiving', () => {
+    it('should list archived employees when the toggle is checked', async () => {
+      const user = userEvent.setup()
+      vi.mocked(useEmployeesHook.useEmployees).mockReturnValue({
+        data: mockEmployees,
+        isLoading: false,
+        error: null,
+      } as any)
+
+      render(<EmployeesListPage />, { wrapper: createWrapper(queryClient) })
+
+      expect(useEmployeesHook.useEmployees).toHaveBeenLastCalledWith({ includeArchived: false })
+
+      await user.click(screen.getByLabelText('Inclure les archivés'))
+
+      expect(useEmployeesHook.useEmployees).toHaveBeenLastCalledWith({ includeArchived: true })
+    })
+
+    it('should only offer archiving to non-admin users', async () => {
+      const user = userEvent.setup()
+      vi.mocked(useAuthHook.useAuth).mockReturnValue({
+        user: { id: '2', role: 'GESTIONNAIRE', username: 'manager' },
+      } as any)
+      vi.mocked(useEmployeesHook.useEmployees).mockReturnValue({
+        data: mockEmployees,
+        isLoading: false,
+        error: null,
+      } as any)
+
+      render(<EmployeesListPage />, { wrapper: createWrapper(queryClient) })
+
+      await user.click(screen.getByTestId('select-employee'))
+
+      expect(screen.getByText(/Archiver \(1\)/)).toBeDefined()
+      expect(screen.queryByText(/Supprimer \(1\)/)).toBeNull()
+    })
+  })
+
   describe('Bulk delete functionality', () => {
     it('should show delete button when employees are selected', async () => {
       const user = userEvent.setup()
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Unit tests for InventoryCampaignDetailsPage
+ *
+ * Tests:
+ * - Reconciliation summary and manual check-off of expected items
+ * - Stock counts recorded from the count table
+ * - Closing reserved to ADMIN
+ * - Report actions on a closed campaign
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import { MemoryRouter, Route, Routes } from 'react-router-dom'
+import userEvent from '@testing-library/user-event'
+import { InventoryCampaignDetailsPage } from '@/pages/InventoryCampaignDetailsPage'
+import * as useInventoryCampaignsHook from '@/lib/hooks/useInventoryCampaigns'
+import * as useAuthHook from '@/lib/hooks/useAuth'
+import { AssetStatus, InventoryCampaignStatus } from '@/lib/types/enums'
+
+vi.mock('@/lib/hooks/useInventoryCampaigns')
+vi.mock('@/lib/hooks/useAuth')
+
+const campaign = {
+  id: 'camp-1',
+  name: 'Inventaire 2026',
+  status: InventoryCampaignStatus.OPEN,
+  equipmentType: 'Ordinateur portable',
+  location: 'Siège',
+  notes: null,
+  openedAt: '2026-10-01T08:00:00.000Z',
+  closedAt: null,
+  createdAt: '2026-10-01T08:00:00.000Z',
+  updatedAt: '2026-10-01T08:00:00.000Z',
+}
+
+const model = { location: 'Siège', type: 'Ordinateur portable', brand: 'Dell', modelName: 'Latitude 5440' }
+
+const report = {
+  generatedAt: '2026-10-02T08:00:00.000Z',
+  summary: { expected: 2, found: 1, missing: 1, unexpected: 0, stockCounted: 1, stockVariances: 1, uncountedStock: 1 },
+  found: [{ ...model, assetItemId: 'item-1', assetTag: 'LAP-001', serial: null, status: AssetStatus.EN_STOCK, checkedAt: '2026-10-02T08:00:00.000Z' }],
+  missing: [{ ...model, assetItemId: 'item-2', assetTag: 'LAP-002', serial: null, status: AssetStatus.EN_STOCK, checkedAt: null, flaggedAt: null }],
+  unexpected: [],
+  stockCounts: [{
+    ...model, brand: 'Logitech', modelName: 'M185', stockItemId: 'stock-1', countId: 'count-1',
+    expectedQuantity: 10, countedQuantity: 8, variance: -2, countedAt: '2026-10-02T08:00:00.000Z', correctionAppliedAt: null,
+  }],
+  uncountedStock: [{ ...model, brand: 'HP', modelName: 'USB-C Dock', stockItemId: 'stock-2', quantity: 5, loaned: 1, expectedQuantity: 4 }],
+}
+
+const mutations = {
+  check: { mutateAsync: vi.fn(), isPending: false },
+  uncheck: { mutate: vi.fn(), isPending: false },
+  count: { mutate: vi.fn(), isPending: false },
+  close: { mutateAsync: vi.fn(), isPending: false },
+  apply: { mutateAsync: vi.fn(), isPending: false },
+  flag: { mutateAsync: vi.fn(), isPending: false },
+}
+
+function mockCampaign(overrides: Partial<typeof campaign> = {}) {
+  vi.mocked(useInventoryCampaignsHook.useInventoryCampaign).mockReturnValue({ data: { ...campaign, ...overrides }, isLoading: false, error: null } as any)
+}
+
+function mockRole(role: string) {
+  vi.mocked(useAuthHook.useAuth).mockReturnValue({ user: { id: 'user-1', email: 'u@example.com', role } } as any)
+}
+
+function renderPage() {
+  return render(
+    <MemoryRouter initialEntries={['/inventory/camp-1']}>
+      <Routes>
+        <Route path="/inventory/:id" element={<InventoryCampaignDetailsPage />} />
+      </Routes>
+    </MemoryRouter>
+  )
+}
+
+describe('InventoryCampaignDetailsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockRole('ADMIN')
+    mockCampaign()
+    vi.mocked(useInventoryCampaignsHook.useInventoryReport).mockReturnValue({ data: report } as any)
+    vi.mocked(useInventoryCampaignsHook.useCheckInventoryAsset).mockReturnValue(mutations.check as any)
+    vi.mocked(useInventoryCampaignsHook.useUncheckInventoryAsset).mockReturnValue(mutations.uncheck as any)
+    vi.mocked(useInventoryCampaignsHook.useCountInventoryStock).mockReturnValue(mutations.count as any)
+    vi.mocked(useInventoryCampaignsHook.useCloseInventoryCampaign).mockReturnValue(mutations.close as any)
+    vi.mocked(useInventoryCampaignsHook.useApplyStockCorrections).mockReturnValue(mutations.apply as any)
+    vi.mocked(useInventoryCampaignsHook.useFlagMissingItems).mockReturnValue(mutations.flag as any)
+  })
+
+  it('should show the scope and check off expected items', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    expect(screen.getByText('Inventaire 2026')).toBeDefined()
+    expect(screen.getByText(/Ordinateur portable - Siège/)).toBeDefined()
+    expect(screen.getByText('Restant à pointer')).toBeDefined()
+
+    await user.click(screen.getByLabelText('Pointer LAP-002 - Dell Latitude 5440'))
+    expect(mutations.check.mutateAsync).toHaveBeenCalledWith({ assetItemId: 'item-2' })
+
+    await user.click(screen.getByLabelText('Pointer LAP-001 - Dell Latitude 5440'))
+    expect(mutations.uncheck.mutate).toHaveBeenCalledWith('item-1')
+  })
+
+  it('should record stock counts', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    await user.click(screen.getByRole('tab', { name: /Stock/ }))
+    await user.type(screen.getByLabelText('Quantité comptée pour HP USB-C Dock'), '3')
+    await user.click(screen.getAllByRole('button', { name: 'Valider' })[0])
+
+    expect(mutations.count.mutate).toHaveBeenCalledWith({ stockItemId: 'stock-2', countedQuantity: 3 })
+    expect(screen.getByText('-2')).toBeDefined()
+  })
+
+  it('should reserve closing to admins', () => {
+    mockRole('GESTIONNAIRE')
+    renderPage()
+
+    expect(screen.getByRole('button', { name: /Scanner/ })).toBeDefined()
+    expect(screen.queryByRole('button', { name: /Clôturer/ })).toBeNull()
+  })
+
+  it('should apply stock corrections on a closed campaign', async () => {
+    const user = userEvent.setup()
+    mockCampaign({ status: InventoryCampaignStatus.CLOSED, closedAt: '2026-10-03T08:00:00.000Z' })
+    renderPage()
+
+    expect(screen.queryByRole('button', { name: /Scanner/ })).toBeNull()
+    expect(screen.getByRole('button', { name: /Signaler les manquants \(1\)/ })).toBeDefined()
+
+    await user.click(screen.getByRole('button', { name: /Appliquer les corrections de stock \(1\)/ }))
+    await user.click(await screen.findByRole('button', { name: 'Confirmer' }))
+
+    await waitFor(() => {
+      expect(mutations.apply.mutateAsync).toHaveBeenCalledWith(undefined)
+    })
+  })
+})
@@ -7,7 +7,7 @@
  * - Search functionality
  * - Status filtering
  * - Pagination
- * - ADMIN role features (bulk delete, print)
+ * - ADMIN role features (bulk delete, print, trash)
  * - Dialog interactions
  * - Navigation to loan details
  */
@@ -201,6 +201,39 @@ describe('LoansListPage', () => {
     mockNavigate = vi.fn()
     vi.mocked(reactRouterDom.useNavigate).mockReturnValue(mockNavigate)
     vi.clearAllMocks()
+
+    // The page lists loans with the server-side paginated hook: serve the
+    // loans of the useLoans mock, filtered and paginated like the API
+    vi.mocked(useLoansHook.useLoansPaginated).mockImplementation((params = {}) => {
+      const { data, isLoading, error } = useLoansHook.useLoans() as any
+      if (isLoading || error) {
+        return { data: undefined, isLoading, error } as any
+      }
+
+      const search = params.search?.toLowerCase()
+      const matching = (Array.isArray(data) ? data : []).filter((loan: any) =>
+        (!params.status || loan.status === params.status) &&
+        (!search || [loan.employee?.firstName, loan.employee?.lastName, loan.employee?.email]
+          .some((value) => value?.toLowerCase().includes(search)))
+      )
+      const page = params.page ?? 1
+      const pageSize = params.pageSize ?? 20
+
+      return {
+        data: {
+          success: true,
+          data: matching.slice((page - 1) * pageSize, page * pageSize),
+          pagination: {
+            page,
+            pageSize,
+            totalItems: matching.length,
+            totalPages: Math.ceil(matching.length / pageSize),
+          },
+        },
+        isLoading: false,
+        error: null,
+      } as any
+    })
   })
 
   describe('Rendering - Success state', () => {
@@ -614,6 +647,28 @@ describe('LoansListPage', () => {
       render(<LoansListPage />, { wrapper: createWrapper(queryClient) })
 
       expect(screen.queryByText("Imprimer l'historique")).toBeNull()
+      expect(screen.queryByText('Corbeille')).toBeNull()
+    })
+
+    it('should navigate to the trash for ADMIN', async () => {
+      const user = userEvent.setup()
+      vi.mocked(useLoansHook.useLoans).mockReturnValue({
+        data: mockLoans,
+        isLoading: false,
+        error: null,
+      } as any)
+      vi.mocked(useEmployeesHook.useEmployees).mockReturnValue({
+        data: mockEmployees,
+      } as any)
+      vi.mocked(useAuthHook.useAuth).mockReturnValue({
+        user: { id: '1', role: 'ADMIN', username: 'admin' },
+      } as any)
+
+      render(<LoansListPage />, { wrapper: createWrapper(queryClient) })
+
+      await user.click(screen.getByText('Corbeille'))
+
+      expect(mockNavigate).toHaveBeenCalledWith('/loans/trash')
     })
 
     it('should NOT enable selection for non-ADMIN', () => {
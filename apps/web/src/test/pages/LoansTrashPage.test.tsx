@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Unit tests for LoansTrashPage
+ *
+ * Tests:
+ * - Deleted loans listed with who deleted them and the purge date
+ * - Restore and permanent deletion after confirmation
+ * - Purge of expired loans
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { BrowserRouter } from 'react-router-dom'
+import userEvent from '@testing-library/user-event'
+import { LoansTrashPage } from '@/pages/LoansTrashPage'
+import * as useLoansHook from '@/lib/hooks/useLoans'
+
+vi.mock('@/lib/hooks/useLoans')
+
+const mockRestore = vi.fn()
+const mockPurge = vi.fn()
+const mockPurgeExpired = vi.fn()
+
+const deletedLoan = {
+  id: 'loan-1',
+  employeeId: 'emp-1',
+  status: 'OPEN',
+  openedAt: '2026-09-01T08:00:00.000Z',
+  deletedAt: '2026-10-10T14:30:00.000Z',
+  purgeAt: '2026-11-09T14:30:00.000Z',
+  deletedBy: { id: 'user-1', email: 'admin@example.com', role: 'ADMIN' },
+  employee: { id: 'emp-1', firstName: 'Jean', lastName: 'Dupont' },
+  lines: [
+    { id: 'line-1', quantity: 1, returnedAt: null },
+    { id: 'line-2', quantity: 2, returnedAt: '2026-09-15T08:00:00.000Z' },
+  ],
+}
+
+function renderPage() {
+  return render(
+    <BrowserRouter>
+      <LoansTrashPage />
+    </BrowserRouter>
+  )
+}
+
+describe('LoansTrashPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(useLoansHook.useDeletedLoans).mockReturnValue({
+      data: {
+        success: true,
+        data: [deletedLoan],
+        pagination: { page: 1, pageSize: 20, totalItems: 1, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+      },
+      isLoading: false,
+      error: null,
+    } as any)
+    vi.mocked(useLoansHook.useRestoreLoan).mockReturnValue({ mutate: mockRestore, isPending: false } as any)
+    vi.mocked(useLoansHook.usePurgeLoan).mockReturnValue({ mutate: mockPurge, isPending: false } as any)
+    vi.mocked(useLoansHook.usePurgeExpiredLoans).mockReturnValue({ mutate: mockPurgeExpired, isPending: false } as any)
+  })
+
+  it('should list deleted loans with who deleted them and the purge date', () => {
+    renderPage()
+
+    expect(screen.getByText('Jean Dupont')).toBeDefined()
+    expect(screen.getByText('admin@example.com')).toBeDefined()
+    expect(screen.getByText('09/11/2026')).toBeDefined()
+    expect(screen.getByText(/1 non rendu/)).toBeDefined()
+  })
+
+  it('should show an empty state', () => {
+    vi.mocked(useLoansHook.useDeletedLoans).mockReturnValue({
+      data: { success: true, data: [], pagination: { page: 1, pageSize: 20, totalItems: 0, totalPages: 0, hasNextPage: false, hasPreviousPage: false } },
+      isLoading: false,
+      error: null,
+    } as any)
+    renderPage()
+
+    expect(screen.getByText('La corbeille est vide')).toBeDefined()
+  })
+
+  it('should restore a loan after confirmation', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    await user.click(screen.getByRole('button', { name: /Restaurer/ }))
+    expect(screen.getByText(/1 article\(s\) non rendu\(s\) repasseront en prêt/)).toBeDefined()
+    await user.click(screen.getByRole('button', { name: 'Confirmer' }))
+
+    expect(mockRestore).toHaveBeenCalledWith('loan-1')
+  })
+
+  it('should not purge a loan when the confirmation is cancelled', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    await user.click(screen.getByRole('button', { name: 'Supprimer définitivement' }))
+    await user.click(screen.getByRole('button', { name: 'Annuler' }))
+
+    expect(mockPurge).not.toHaveBeenCalled()
+  })
+
+  it('should purge expired loans after confirmation', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    await user.click(screen.getByRole('button', { name: /Vider les prêts expirés/ }))
+    await user.click(screen.getByRole('button', { name: 'Confirmer' }))
+
+    expect(mockPurgeExpired).toHaveBeenCalled()
+  })
+})
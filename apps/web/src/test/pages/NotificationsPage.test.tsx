@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Unit tests for NotificationsPage
+ *
+ * Tests:
+ * - Preferences checkboxes reflect and update the user's settings
+ * - Delivery log and reminders button shown to ADMIN only
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { BrowserRouter } from 'react-router-dom'
+import userEvent from '@testing-library/user-event'
+import { NotificationsPage } from '@/pages/NotificationsPage'
+import * as useNotificationsHook from '@/lib/hooks/useNotifications'
+import * as useAuthHook from '@/lib/hooks/useAuth'
+
+vi.mock('@/lib/hooks/useNotifications')
+vi.mock('@/lib/hooks/useAuth')
+
+const mockUpdateSettings = vi.fn()
+const mockSendReminders = vi.fn()
+
+function mockRole(role: string) {
+  vi.mocked(useAuthHook.useAuth).mockReturnValue({
+    user: { id: 'user-1', email: 'user@example.com', username: 'user', role },
+  } as any)
+}
+
+function renderPage() {
+  return render(
+    <BrowserRouter>
+      <NotificationsPage />
+    </BrowserRouter>
+  )
+}
+
+describe('NotificationsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(useNotificationsHook.useNotificationSettings).mockReturnValue({
+      data: { loanOpened: true, lineAdded: false, loanClosed: false, overdueReminder: false, longLoanReminder: false },
+      isLoading: false,
+      error: null,
+    } as any)
+    vi.mocked(useNotificationsHook.useUpdateNotificationSettings).mockReturnValue({
+      mutate: mockUpdateSettings,
+      isPending: false,
+    } as any)
+    vi.mocked(useNotificationsHook.useNotificationLogs).mockReturnValue({
+      data: {
+        success: true,
+        data: [
+          {
+            id: 'log-1',
+            event: 'OVERDUE_REMINDER',
+            recipient: 'jean.dupont@example.com',
+            subject: 'Rappel : matériel à restituer par Jean Dupont',
+            status: 'FAILED',
+            error: 'Connection refused',
+            transport: 'smtp',
+            loanId: 'loan-1',
+            createdAt: '2026-10-19T08:00:00.000Z',
+            loan: { id: 'loan-1', employee: { id: 'emp-1', firstName: 'Jean', lastName: 'Dupont' } },
+          },
+        ],
+        pagination: { page: 1, pageSize: 20, totalItems: 1, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+      },
+      isLoading: false,
+      error: null,
+    } as any)
+    vi.mocked(useNotificationsHook.useSendOverdueReminders).mockReturnValue({
+      mutate: mockSendReminders,
+      isPending: false,
+    } as any)
+  })
+
+  it('should reflect the current preferences', () => {
+    mockRole('GESTIONNAIRE')
+    renderPage()
+
+    expect(screen.getByRole('checkbox', { name: 'Prêt ouvert' }).getAttribute('data-state')).toBe('checked')
+    expect(screen.getByRole('checkbox', { name: 'Rappel de retard' }).getAttribute('data-state')).toBe('unchecked')
+  })
+
+  it('should save a preference when toggled', async () => {
+    const user = userEvent.setup()
+    mockRole('LECTURE')
+    renderPage()
+
+    await user.click(screen.getByRole('checkbox', { name: 'Rappel de retard' }))
+
+    expect(mockUpdateSettings).toHaveBeenCalledWith({ overdueReminder: true })
+  })
+
+  it('should hide the delivery log from non admin users', () => {
+    mockRole('GESTIONNAIRE')
+    renderPage()
+
+    expect(screen.queryByText('Journal des envois')).toBeNull()
+    expect(screen.queryByRole('button', { name: /Envoyer les rappels/ })).toBeNull()
+  })
+
+  it('should show the delivery log and send reminders for ADMIN', async () => {
+    const user = userEvent.setup()
+    mockRole('ADMIN')
+    renderPage()
+
+    expect(screen.getByText('Journal des envois')).toBeDefined()
+    expect(screen.getByText('jean.dupont@example.com')).toBeDefined()
+    expect(screen.getByText('Connection refused')).toBeDefined()
+
+    await user.click(screen.getByRole('button', { name: /Envoyer les rappels/ }))
+
+    expect(mockSendReminders).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Unit tests for RepairTicketsPage
+ *
+ * Tests:
+ * - Open repairs listed with vendor, RMA number, quote and late returns
+ * - Closed repairs show their outcome and final cost
+ * - Closing a ticket with the quote as default final cost
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { RepairTicketsPage } from '@/pages/RepairTicketsPage'
+import * as useRepairTicketsHook from '@/lib/hooks/useRepairTickets'
+
+vi.mock('@/lib/hooks/useRepairTickets')
+
+// The outcome RadioGroup measures its items (not implemented by jsdom)
+vi.stubGlobal('ResizeObserver', class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+})
+
+const mockUpdate = vi.fn()
+const mockClose = vi.fn()
+
+const openTicket = {
+  id: 'ticket-1',
+  assetItemId: 'asset-1',
+  status: 'SENT',
+  fault: 'Écran qui clignote',
+  vendor: 'Dell ProSupport',
+  rmaNumber: 'RMA-42',
+  quoteCents: 12900,
+  expectedReturnAt: '2020-01-10T22:59:59.000Z',
+  finalCostCents: null,
+  outcome: null,
+  closingNote: null,
+  openedAt: '2020-01-02T08:00:00.000Z',
+  closedAt: null,
+  assetItem: {
+    id: 'asset-1',
+    assetTag: 'LAP-001',
+    assetModel: { brand: 'Dell', modelName: 'Latitude 5440' },
+  },
+}
+
+const closedTicket = {
+  ...openTicket,
+  id: 'ticket-2',
+  status: 'CLOSED',
+  outcome: 'SCRAPPED',
+  finalCostCents: 4500,
+  closedAt: '2020-01-12T08:00:00.000Z',
+}
+
+function mockTickets(tickets: unknown[]) {
+  vi.mocked(useRepairTicketsHook.useRepairTickets).mockReturnValue({
+    data: {
+      success: true,
+      data: tickets,
+      pagination: { page: 1, pageSize: 20, totalItems: tickets.length, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+    },
+    isLoading: false,
+    error: null,
+  } as any)
+}
+
+describe('RepairTicketsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockTickets([openTicket])
+    vi.mocked(useRepairTicketsHook.useUpdateRepairTicket).mockReturnValue({ mutate: mockUpdate, isPending: false } as any)
+    vi.mocked(useRepairTicketsHook.useCloseRepairTicket).mockReturnValue({ mutateAsync: mockClose, isPending: false } as any)
+  })
+
+  it('should list open repairs and request open tickets by default', () => {
+    render(<RepairTicketsPage />)
+
+    expect(screen.getByText('LAP-001 - Dell Latitude 5440')).toBeDefined()
+    expect(screen.getByText('Dell ProSupport')).toBeDefined()
+    expect(screen.getByText('RMA RMA-42')).toBeDefined()
+    expect(screen.getByText(/129,00\s€/)).toBeDefined()
+    expect(screen.getByText('10/01/2020').className).toContain('text-destructive')
+    expect(useRepairTicketsHook.useRepairTickets).toHaveBeenCalledWith(expect.objectContaining({ open: true }))
+  })
+
+  it('should show the outcome, final cost and turnaround of closed repairs', () => {
+    mockTickets([closedTicket])
+    render(<RepairTicketsPage />)
+
+    expect(screen.getByText('Irréparable')).toBeDefined()
+    expect(screen.getByText(/45,00\s€/)).toBeDefined()
+    expect(screen.getByText('10 j')).toBeDefined()
+    expect(screen.queryByRole('button', { name: /Clôturer/ })).toBeNull()
+  })
+
+  it('should show an empty state', () => {
+    mockTickets([])
+    render(<RepairTicketsPage />)
+
+    expect(screen.getByText('Aucune réparation')).toBeDefined()
+  })
+
+  it('should close a repair with the quote as default final cost', async () => {
+    const user = userEvent.setup()
+    mockClose.mockResolvedValueOnce({ ...openTicket, status: 'CLOSED' })
+    render(<RepairTicketsPage />)
+
+    await user.click(screen.getByRole('button', { name: /Clôturer/ }))
+    expect(screen.getByDisplayValue('129,00')).toBeDefined()
+    await user.click(screen.getByRole('button', { name: 'Clôturer' }))
+
+    expect(mockClose).toHaveBeenCalledWith({
+      id: 'ticket-1',
+      data: { outcome: 'REPAIRED', finalCostCents: 12900 },
+    })
+  })
+})
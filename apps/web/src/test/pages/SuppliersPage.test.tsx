@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Unit tests for SuppliersPage
+ *
+ * Tests:
+ * - Suppliers listed with contact details and item count
+ * - Deletion reserved to ADMIN and refused while items reference the supplier
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { BrowserRouter } from 'react-router-dom'
+import { SuppliersPage } from '@/pages/SuppliersPage'
+import * as useSuppliersHook from '@/lib/hooks/useSuppliers'
+import * as useAuthHook from '@/lib/hooks/useAuth'
+
+vi.mock('@/lib/hooks/useSuppliers')
+vi.mock('@/lib/hooks/useAuth')
+
+const suppliers = [
+  {
+    id: 'sup-1',
+    name: 'LDLC Pro',
+    contactName: 'Marie Martin',
+    email: 'pro@ldlc.example',
+    phone: '0102030405',
+    notes: null,
+    createdAt: '2026-09-01T08:00:00.000Z',
+    updatedAt: '2026-09-01T08:00:00.000Z',
+    _count: { assetItems: 3 },
+  },
+  {
+    id: 'sup-2',
+    name: 'Bureau Vallée',
+    contactName: null,
+    email: null,
+    phone: null,
+    notes: null,
+    createdAt: '2026-09-01T08:00:00.000Z',
+    updatedAt: '2026-09-01T08:00:00.000Z',
+    _count: { assetItems: 0 },
+  },
+]
+
+function mockRole(role: string) {
+  vi.mocked(useAuthHook.useAuth).mockReturnValue({ user: { id: 'user-1', email: 'u@example.com', role } } as any)
+}
+
+function renderPage() {
+  return render(
+    <BrowserRouter>
+      <SuppliersPage />
+    </BrowserRouter>
+  )
+}
+
+describe('SuppliersPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockRole('ADMIN')
+    vi.mocked(useSuppliersHook.useSuppliers).mockReturnValue({ data: suppliers, isLoading: false, error: null } as any)
+    vi.mocked(useSuppliersHook.useDeleteSupplier).mockReturnValue({ mutateAsync: vi.fn(), isPending: false } as any)
+  })
+
+  it('should list suppliers with contact details and item count', () => {
+    renderPage()
+
+    expect(screen.getByText('LDLC Pro')).toBeDefined()
+    expect(screen.getByText('Marie Martin')).toBeDefined()
+    expect(screen.getByText('pro@ldlc.example · 0102030405')).toBeDefined()
+    expect(screen.getByText('3')).toBeDefined()
+  })
+
+  it('should only allow deleting suppliers without items', () => {
+    renderPage()
+
+    expect(screen.getByTitle('Fournisseur référencé par des équipements').hasAttribute('disabled')).toBe(true)
+    expect(screen.getByTitle('Supprimer le fournisseur').hasAttribute('disabled')).toBe(false)
+  })
+
+  it('should hide deletion from managers', () => {
+    mockRole('GESTIONNAIRE')
+    renderPage()
+
+    expect(screen.queryByTitle('Supprimer le fournisseur')).toBeNull()
+    expect(screen.getAllByTitle('Modifier le fournisseur')).toHaveLength(2)
+  })
+})
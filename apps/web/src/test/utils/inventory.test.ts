@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Unit tests for inventory campaign utilities
+ *
+ * Tests:
+ * - getCampaignScopeLabel - Equipment type / location scope
+ * - getInventoryEntryLabel - Asset and stock report entries
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getCampaignScopeLabel, getInventoryEntryLabel } from '@/lib/utils/inventory'
+import { AssetStatus } from '@/lib/types/enums'
+
+describe('getCampaignScopeLabel', () => {
+  it('should join the equipment type and the location', () => {
+    expect(getCampaignScopeLabel({ equipmentType: 'Ordinateur portable', location: 'Siège' })).toBe('Ordinateur portable - Siège')
+    expect(getCampaignScopeLabel({ equipmentType: null, location: 'Siège' })).toBe('Siège')
+  })
+
+  it('should fall back to the whole fleet without scope', () => {
+    expect(getCampaignScopeLabel({ equipmentType: null, location: null })).toBe('Tout le parc')
+  })
+})
+
+describe('getInventoryEntryLabel', () => {
+  const model = { location: null, type: 'Ordinateur portable', brand: 'Dell', modelName: 'Latitude 5440' }
+
+  it('should prefix asset entries with their tag or serial', () => {
+    const entry = { ...model, assetItemId: 'item1', assetTag: 'LAP-001', serial: 'SN1', status: AssetStatus.EN_STOCK, checkedAt: null }
+
+    expect(getInventoryEntryLabel(entry)).toBe('LAP-001 - Dell Latitude 5440')
+    expect(getInventoryEntryLabel({ ...entry, assetTag: null })).toBe('SN1 - Dell Latitude 5440')
+  })
+
+  it('should label stock entries with their model only', () => {
+    expect(getInventoryEntryLabel({ ...model, stockItemId: 'stock1' })).toBe('Dell Latitude 5440')
+    expect(getInventoryEntryLabel({ ...model, stockItemId: 'stock1', brand: null })).toBe('Modèle inconnu')
+  })
+})
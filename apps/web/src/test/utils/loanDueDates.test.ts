@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Unit tests for loan due date utilities
+ *
+ * Tests:
+ * - getEarliestDueAt - Earliest due date across loan and lines
+ * - isLoanOverdue - Overdue detection for open loans
+ * - toDueAtIso / toDateInputValue - Date input conversions
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getEarliestDueAt,
+  isLoanOverdue,
+  toDueAtIso,
+  toDateInputValue,
+} from '@/lib/utils/loanDueDates'
+import type { LoanLine } from '@/lib/types/models.types'
+
+const line = (dueAt: string | null, returnedAt: string | null = null): LoanLine => ({
+  id: 'line1',
+  loanId: 'loan1',
+  assetItemId: 'asset1',
+  stockItemId: null,
+  quantity: 1,
+  dueAt,
+  returnedAt,
+  addedAt: '2024-01-15T10:00:00Z',
+  createdAt: '2024-01-15T10:00:00Z',
+})
+
+describe('loanDueDates', () => {
+  const now = new Date('2024-02-01T12:00:00Z')
+
+  describe('getEarliestDueAt', () => {
+    it('should return null when no due date is set', () => {
+      expect(getEarliestDueAt({ dueAt: null, lines: [line(null)] })).toBeNull()
+    })
+
+    it('should return the loan due date when lines have none', () => {
+      expect(getEarliestDueAt({ dueAt: '2024-02-10T22:59:59Z', lines: [line(null)] })).toBe('2024-02-10T22:59:59Z')
+    })
+
+    it('should return the earliest date across loan and lines', () => {
+      const loan = { dueAt: '2024-02-10T22:59:59Z', lines: [line('2024-02-05T22:59:59Z'), line(null)] }
+      expect(getEarliestDueAt(loan)).toBe('2024-02-05T22:59:59Z')
+    })
+  })
+
+  describe('isLoanOverdue', () => {
+    it('should return true for open loan past its due date', () => {
+      expect(isLoanOverdue({ status: 'OPEN', dueAt: '2024-01-31T22:59:59Z', lines: [] }, now)).toBe(true)
+    })
+
+    it('should return true when one line is past its due date', () => {
+      expect(isLoanOverdue({ status: 'OPEN', dueAt: null, lines: [line('2024-01-31T22:59:59Z')] }, now)).toBe(true)
+    })
+
+    it('should ignore lines that were already returned', () => {
+      const loan = { status: 'OPEN' as const, dueAt: null, lines: [line('2024-01-31T22:59:59Z', '2024-01-30T10:00:00Z')] }
+      expect(isLoanOverdue(loan, now)).toBe(false)
+    })
+
+    it('should return false when due date is in the future', () => {
+      expect(isLoanOverdue({ status: 'OPEN', dueAt: '2024-02-10T22:59:59Z', lines: [] }, now)).toBe(false)
+    })
+
+    it('should return false for closed loans', () => {
+      expect(isLoanOverdue({ status: 'CLOSED', dueAt: '2024-01-31T22:59:59Z', lines: [] }, now)).toBe(false)
+    })
+
+    it('should return false without due date', () => {
+      expect(isLoanOverdue({ status: 'OPEN', dueAt: null }, now)).toBe(false)
+    })
+  })
+
+  describe('toDueAtIso', () => {
+    it('should convert date input to end of local day', () => {
+      const iso = toDueAtIso('2024-02-10')
+      expect(iso).toBe(new Date('2024-02-10T23:59:59').toISOString())
+    })
+
+    it('should return null for empty value', () => {
+      expect(toDueAtIso('')).toBeNull()
+      expect(toDueAtIso(undefined)).toBeNull()
+    })
+  })
+
+  describe('toDateInputValue', () => {
+    it('should round-trip with toDueAtIso', () => {
+      expect(toDateInputValue(toDueAtIso('2024-02-10'))).toBe('2024-02-10')
+    })
+
+    it('should return empty string for null', () => {
+      expect(toDateInputValue(null)).toBe('')
+    })
+  })
+})
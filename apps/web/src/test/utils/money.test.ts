@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Unit tests for money utilities
+ *
+ * Tests:
+ * - isValidEuroInput / eurosToCents - Form input parsing
+ * - centsToEuroInput / formatCents - Display of amounts stored in cents
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  isValidEuroInput,
+  eurosToCents,
+  centsToEuroInput,
+  formatCents,
+} from '@/lib/utils/money'
+
+describe('money utilities', () => {
+  describe('isValidEuroInput', () => {
+    it('should accept empty inputs and amounts with up to 2 decimals', () => {
+      expect(isValidEuroInput('')).toBe(true)
+      expect(isValidEuroInput(undefined)).toBe(true)
+      expect(isValidEuroInput('129')).toBe(true)
+      expect(isValidEuroInput('129,9')).toBe(true)
+      expect(isValidEuroInput(' 129.90 ')).toBe(true)
+    })
+
+    it('should reject negative, malformed or over-precise amounts', () => {
+      expect(isValidEuroInput('-5')).toBe(false)
+      expect(isValidEuroInput('12,345')).toBe(false)
+      expect(isValidEuroInput('abc')).toBe(false)
+    })
+  })
+
+  describe('eurosToCents', () => {
+    it('should convert comma and dot decimals to cents', () => {
+      expect(eurosToCents('129,90')).toBe(12990)
+      expect(eurosToCents('0.1')).toBe(10)
+      expect(eurosToCents('42')).toBe(4200)
+    })
+
+    it('should return undefined for an empty input', () => {
+      expect(eurosToCents('  ')).toBeUndefined()
+    })
+  })
+
+  describe('centsToEuroInput', () => {
+    it('should format cents for a form input', () => {
+      expect(centsToEuroInput(12990)).toBe('129,90')
+      expect(centsToEuroInput(null)).toBe('')
+    })
+  })
+
+  describe('formatCents', () => {
+    it('should format cents as euros', () => {
+      expect(formatCents(12990)).toMatch(/129,90\s€/)
+      expect(formatCents(null)).toBe('-')
+    })
+  })
+})
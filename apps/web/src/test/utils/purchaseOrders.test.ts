@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Unit tests for purchase order utilities
+ *
+ * Tests:
+ * - getRemainingQuantity / canReceivePurchaseOrder / getReceptionProgress
+ * - findCapturedSerial - Duplicate serial numbers across the reception lines
+ * - buildReceptionLines - Serials for serialized lines, quantity for consumables
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildReceptionLines,
+  canReceivePurchaseOrder,
+  findCapturedSerial,
+  getReceptionProgress,
+  getRemainingQuantity,
+} from '@/lib/utils/purchaseOrders'
+import { PurchaseOrderStatus } from '@/lib/types/enums'
+import type { PurchaseOrderLine } from '@/lib/types/models.types'
+
+function makeLine(overrides: Partial<PurchaseOrderLine>): PurchaseOrderLine {
+  return {
+    id: 'line1',
+    purchaseOrderId: 'po1',
+    assetModelId: 'model1',
+    quantity: 3,
+    unitPriceCents: 89900,
+    receivedQuantity: 0,
+    totalCents: 269700,
+    isConsumable: false,
+    assetModel: { id: 'model1', type: 'Ordinateur portable', brand: 'Dell', modelName: 'Latitude 5440' },
+    ...overrides,
+  }
+}
+
+describe('getRemainingQuantity', () => {
+  it('should subtract the received quantity, never below zero', () => {
+    expect(getRemainingQuantity({ quantity: 10, receivedQuantity: 4 })).toBe(6)
+    expect(getRemainingQuantity({ quantity: 10, receivedQuantity: 12 })).toBe(0)
+  })
+})
+
+describe('canReceivePurchaseOrder', () => {
+  it('should only accept placed orders not fully received', () => {
+    expect(canReceivePurchaseOrder({ status: PurchaseOrderStatus.ORDERED })).toBe(true)
+    expect(canReceivePurchaseOrder({ status: PurchaseOrderStatus.PARTIALLY_RECEIVED })).toBe(true)
+    expect(canReceivePurchaseOrder({ status: PurchaseOrderStatus.DRAFT })).toBe(false)
+    expect(canReceivePurchaseOrder({ status: PurchaseOrderStatus.RECEIVED })).toBe(false)
+  })
+})
+
+describe('getReceptionProgress', () => {
+  it('should sum the received and ordered units of all lines', () => {
+    const lines = [makeLine({ receivedQuantity: 2 }), makeLine({ id: 'line2', quantity: 20, receivedQuantity: 5 })]
+
+    expect(getReceptionProgress({ lines })).toEqual({ received: 7, ordered: 23 })
+  })
+})
+
+describe('findCapturedSerial', () => {
+  it('should find a serial on any line, ignoring case and spaces', () => {
+    const serialsByLine = { line1: ['5CD123'], line2: ['ABC999'] }
+
+    expect(findCapturedSerial(serialsByLine, ' abc999 ')).toBe('line2')
+    expect(findCapturedSerial(serialsByLine, 'NEW')).toBeNull()
+  })
+})
+
+describe('buildReceptionLines', () => {
+  it('should send serials and quantities, leaving out empty lines', () => {
+    const lines = [
+      makeLine({ id: 'line1' }),
+      makeLine({ id: 'line2', isConsumable: true }),
+      makeLine({ id: 'line3' }),
+      makeLine({ id: 'line4', isConsumable: true }),
+    ]
+
+    expect(buildReceptionLines(lines, { line1: ['SN1', 'SN2'], line3: [] }, { line2: 20, line4: 0 })).toEqual([
+      { lineId: 'line1', serials: ['SN1', 'SN2'] },
+      { lineId: 'line2', quantity: 20 },
+    ])
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Unit tests for scanning utilities
+ *
+ * Tests:
+ * - parseScannedCode - Label deep links, raw tags and serial numbers
+ * - getScannedItemLabel / getScannedItemStatus - Scan feedback messages
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getScannedItemLabel, getScannedItemStatus, parseScannedCode } from '@/lib/utils/scanning'
+import type { ScannedAssetItem } from '@/lib/api/search.api'
+
+const item = (overrides: Partial<ScannedAssetItem> = {}): ScannedAssetItem => ({
+  id: 'item1',
+  assetTag: 'LAP-001',
+  serial: 'SN123',
+  status: 'EN_STOCK',
+  assetModel: { type: 'Ordinateur portable', brand: 'Dell', modelName: 'Latitude 5440' },
+  loanLines: [],
+  ...overrides,
+})
+
+describe('parseScannedCode', () => {
+  it('should extract the code from a label deep link', () => {
+    expect(parseScannedCode('https://inventaire.example.com/assets/items?search=LAP%20001')).toBe('LAP 001')
+  })
+
+  it('should keep raw codes and trim scanner whitespace', () => {
+    expect(parseScannedCode('  LAP-001\n')).toBe('LAP-001')
+  })
+
+  it('should keep URLs without search parameter as is', () => {
+    expect(parseScannedCode('https://example.com/other')).toBe('https://example.com/other')
+  })
+})
+
+describe('getScannedItemLabel', () => {
+  it('should show the tag and model', () => {
+    expect(getScannedItemLabel(item())).toBe('LAP-001 - Dell Latitude 5440')
+  })
+
+  it('should fall back to the serial number', () => {
+    expect(getScannedItemLabel(item({ assetTag: null, assetModel: null }))).toBe('SN123')
+  })
+})
+
+describe('getScannedItemStatus', () => {
+  it('should name the borrower of a loaned item', () => {
+    const loaned = item({
+      status: 'PRETE',
+      loanLines: [{ id: 'line1', loanId: 'loan1', loan: { employee: { id: 'emp1', firstName: 'Jean', lastName: 'Dupont' } } }],
+    })
+
+    expect(getScannedItemStatus(loaned)).toBe('Prêté à Jean Dupont')
+  })
+
+  it('should show the status label otherwise', () => {
+    expect(getScannedItemStatus(item({ status: 'REPARATION' }))).toBe('En réparation')
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Unit tests for stock ledger utilities
+ *
+ * Tests:
+ * - isBelowMinimum - Available quantity against the item minimum
+ * - getSignedStockAdjustment - Sign of manual movements
+ * - formatStockDelta - Signed deltas
+ * - getStockMovementReferencePath - Pages of the movement references
+ */
+
+import { describe, it, expect } from 'vitest'
+import { formatStockDelta, getSignedStockAdjustment, getStockMovementReferencePath, isBelowMinimum } from '@/lib/utils/stock'
+import { StockMovementType } from '@/lib/types/enums'
+
+describe('isBelowMinimum', () => {
+  it('should compare the available quantity with the minimum', () => {
+    expect(isBelowMinimum({ quantity: 6, loaned: 2, minQuantity: 5 })).toBe(true)
+    expect(isBelowMinimum({ quantity: 7, loaned: 2, minQuantity: 5 })).toBe(false)
+  })
+
+  it('should never alert with a minimum of 0', () => {
+    expect(isBelowMinimum({ quantity: 0, loaned: 0, minQuantity: 0 })).toBe(false)
+  })
+})
+
+describe('getSignedStockAdjustment', () => {
+  it('should add received units and remove written-off ones', () => {
+    expect(getSignedStockAdjustment(StockMovementType.RECEPTION, 5)).toBe(5)
+    expect(getSignedStockAdjustment(StockMovementType.WRITE_OFF, 3)).toBe(-3)
+  })
+
+  it('should keep the sign of an adjustment', () => {
+    expect(getSignedStockAdjustment(StockMovementType.ADJUSTMENT, -2)).toBe(-2)
+    expect(getSignedStockAdjustment(StockMovementType.ADJUSTMENT, 4)).toBe(4)
+  })
+})
+
+describe('formatStockDelta', () => {
+  it('should prefix positive deltas with a plus sign', () => {
+    expect(formatStockDelta(5)).toBe('+5')
+    expect(formatStockDelta(-2)).toBe('-2')
+    expect(formatStockDelta(0)).toBe('0')
+  })
+})
+
+describe('getStockMovementReferencePath', () => {
+  it('should link loans, inventory campaigns and purchase orders', () => {
+    expect(getStockMovementReferencePath({ referenceType: 'Loan', referenceId: 'loan1' })).toBe('/loans/loan1')
+    expect(getStockMovementReferencePath({ referenceType: 'InventoryCampaign', referenceId: 'camp1' })).toBe('/inventory/camp1')
+    expect(getStockMovementReferencePath({ referenceType: 'PurchaseOrder', referenceId: 'po1' })).toBe('/purchase-orders/po1')
+  })
+
+  it('should return null without a known reference', () => {
+    expect(getStockMovementReferencePath({ referenceType: null, referenceId: null })).toBeNull()
+    expect(getStockMovementReferencePath({ referenceType: 'Other', referenceId: 'x' })).toBeNull()
+  })
+})